@@ -12,6 +12,8 @@ const nextConfig = {
   },
   serverExternalPackages: [
     'sharp',
+    'pdfjs-dist',
+    '@napi-rs/canvas',
     'archiver',
     'xlsx',
     'jspdf',
@@ -1,5 +1,5 @@
 import 'dotenv/config';
-import { CaseStage } from '@/prisma/client';
+import { CaseStage, DocumentSecurityLevel } from '@/prisma/client';
 import bcrypt from 'bcryptjs';
 import { logger } from '@/lib/logger';
 import { prisma } from '@/lib/prisma';
@@ -14,6 +14,7 @@ async function main() {
     create: {
       name: 'super_admin',
       description: 'Administrador con acceso completo al sistema',
+      clearanceLevel: DocumentSecurityLevel.TOP_SECRET,
       permissions: {
         canCreate: true,
         canRead: true,
@@ -23,6 +24,7 @@ async function main() {
         canSupervise: true,
         canExport: true,
         canManageUsers: true,
+        canOverrideValidations: true,
       },
     },
   });
@@ -33,6 +35,7 @@ async function main() {
     create: {
       name: 'department_admin',
       description: 'Administrador de departamento',
+      clearanceLevel: DocumentSecurityLevel.SECRET,
       permissions: {
         canCreate: true,
         canRead: true,
@@ -42,6 +45,7 @@ async function main() {
         canSupervise: true,
         canExport: true,
         canManageUsers: false,
+        canOverrideValidations: true,
       },
     },
   });
@@ -52,6 +56,7 @@ async function main() {
     create: {
       name: 'analyst',
       description: 'Analista de casos',
+      clearanceLevel: DocumentSecurityLevel.CONFIDENTIAL,
       permissions: {
         canCreate: true,
         canRead: true,
@@ -61,6 +66,7 @@ async function main() {
         canSupervise: false,
         canExport: true,
         canManageUsers: false,
+        canOverrideValidations: false,
       },
     },
   });
@@ -71,6 +77,7 @@ async function main() {
     create: {
       name: 'supervisor',
       description: 'Supervisor de casos',
+      clearanceLevel: DocumentSecurityLevel.CONFIDENTIAL,
       permissions: {
         canCreate: false,
         canRead: true,
@@ -80,6 +87,7 @@ async function main() {
         canSupervise: true,
         canExport: true,
         canManageUsers: false,
+        canOverrideValidations: false,
       },
     },
   });
@@ -90,6 +98,7 @@ async function main() {
     create: {
       name: 'observer',
       description: 'Observador con solo lectura',
+      clearanceLevel: DocumentSecurityLevel.INTERNAL,
       permissions: {
         canCreate: false,
         canRead: true,
@@ -99,6 +108,7 @@ async function main() {
         canSupervise: false,
         canExport: false,
         canManageUsers: false,
+        canOverrideValidations: false,
       },
     },
   });
@@ -740,6 +750,70 @@ async function main() {
     });
   }
 
+  // Default reminder: warn the assigned analyst two days before a stage is due
+  const stageDeadlineReminder = await prisma.reminderConfig.findFirst({
+    where: { name: 'Vencimiento de etapa' },
+  });
+
+  if (!stageDeadlineReminder) {
+    await prisma.reminderConfig.create({
+      data: {
+        name: 'Vencimiento de etapa',
+        description: 'Avisa al analista asignado cuando faltan 2 días para el vencimiento de la etapa actual',
+        type: 'deadline',
+        schedule: '0 8 * * 1-5',
+        conditions: {
+          entityType: 'case',
+          deadline: { source: 'stage', withinDays: 2, includeOverdue: true },
+        },
+        recipients: { roles: ['assignedTo', 'supervisedBy'] },
+        channels: ['email'],
+        priority: 'high',
+        maxReminders: 3,
+        reminderInterval: 24,
+      },
+    });
+  }
+
+  // Default approval matrix: amounts from RD$5,000,000 need Dirección General and the Minister
+  const approvalMatrix = await prisma.approvalMatrix.findFirst({
+    where: { name: 'Matriz de aprobación de expropiaciones' },
+  });
+
+  if (!approvalMatrix) {
+    await prisma.approvalMatrix.create({
+      data: {
+        name: 'Matriz de aprobación de expropiaciones',
+        description: 'Aprobaciones requeridas según el monto de la compensación',
+        entityType: 'EXPROPRIATION',
+        levels: {
+          create: [
+            {
+              name: 'Aprobación departamental',
+              description: 'Un administrador o supervisor del departamento del caso',
+              sequence: 1,
+              minAmount: 0,
+              maxAmount: 4999999.99,
+              requiredApprovers: 1,
+              approverRoles: ['department_admin', 'supervisor'],
+              approverDepartments: [],
+            },
+            {
+              name: 'Dirección General y Ministro',
+              description: 'Compensaciones desde RD$5,000,000',
+              sequence: 2,
+              minAmount: 5000000,
+              maxAmount: 0,
+              requiredApprovers: 2,
+              approverRoles: ['super_admin', 'department_admin'],
+              approverDepartments: ['DIRECCION_GENERAL', 'MOPC'],
+            },
+          ],
+        },
+      },
+    });
+  }
+
   // Sample cases will be created later after authentication is tested
 
   logger.info(`✅ Database seeding completed successfully!
@@ -763,6 +837,8 @@ async function main() {
    - JURIDICO (Child of MOPC)
 
 ⚙️ Created system configuration
+⏰ Created default stage deadline reminder
+✅ Created default approval matrix
 📋 Sample cases will be created later`);
 }
 
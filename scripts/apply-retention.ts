@@ -0,0 +1,43 @@
+import 'dotenv/config';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { planRetention, runRetention } from '@/lib/retention';
+
+/**
+ * Apply the document retention schedules: archive or destroy the documents
+ * whose retention period has lapsed, outside of legal holds. The worker does
+ * this daily when RETENTION_ENABLED=true; --dry-run lists what is due:
+ *
+ *   npm run retention:apply -- --dry-run
+ *   npm run retention:apply
+ */
+
+async function main() {
+  if (process.argv.includes('--dry-run')) {
+    const decisions = await planRetention();
+    for (const decision of decisions) {
+      const due = decision.dueDate.toISOString().slice(0, 10);
+      logger.info(`${decision.disposition} ${decision.documentId} "${decision.title}"${decision.caseFileNumber ? ` (${decision.caseFileNumber})` : ''}, due ${due}`);
+    }
+    logger.info(`${decisions.length} documents are due for archiving or destruction`);
+    return;
+  }
+
+  const summary = await runRetention();
+
+  logger.info(`Legal holds: ${summary.legalHolds.placed} placed, ${summary.legalHolds.released} released`);
+  logger.info(`Examined ${summary.examined} documents: ${summary.archived} archived, ${summary.destroyed} destroyed, ${summary.failed} failed`);
+  if (summary.certificateNumber) {
+    logger.info(`Destruction certificate ${summary.certificateNumber} issued`);
+  }
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    logger.error('Document retention failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
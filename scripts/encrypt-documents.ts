@@ -0,0 +1,41 @@
+import 'dotenv/config';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { encryptPendingDocuments } from '@/lib/document-encryption';
+
+/**
+ * Encrypt the stored files of CONFIDENTIAL and higher documents still kept in
+ * plaintext, such as those uploaded before encryption was configured:
+ *
+ *   npm run encrypt:documents
+ *   npm run encrypt:documents -- --limit 500
+ */
+
+function parseLimit(argv: string[]): number | undefined {
+  const limitIndex = argv.indexOf('--limit');
+  if (limitIndex === -1) return undefined;
+  const limit = Number(argv[limitIndex + 1]);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error('--limit must be a positive integer');
+  }
+  return limit;
+}
+
+async function main() {
+  const limit = parseLimit(process.argv.slice(2));
+  logger.info(`Encrypting documents${limit ? ` (up to ${limit})` : ''}`);
+
+  const summary = await encryptPendingDocuments(limit);
+
+  logger.info(`Encrypted ${summary.encrypted} of ${summary.processed} documents, ${summary.failed} failed`);
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    logger.error('Document encryption failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,50 @@
+import 'dotenv/config';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { indexDocuments, type IndexScope } from '@/lib/indexing';
+
+/**
+ * Extract and index the text of existing documents:
+ *
+ *   npm run index:documents                 # documents never indexed
+ *   npm run index:documents -- --empty      # also those indexed without text, e.g. after enabling OCR
+ *   npm run index:documents -- --all        # everything again
+ *   npm run index:documents -- --limit 500
+ */
+
+function parseArgs(argv: string[]): { scope: IndexScope; limit?: number } {
+  const scope: IndexScope = argv.includes('--all') ? 'all' : argv.includes('--empty') ? 'empty' : 'pending';
+  const limitIndex = argv.indexOf('--limit');
+  const limit = limitIndex === -1 ? undefined : Number(argv[limitIndex + 1]);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new Error('--limit must be a positive integer');
+  }
+  return limit === undefined ? { scope } : { scope, limit };
+}
+
+async function main() {
+  const { scope, limit } = parseArgs(process.argv.slice(2));
+  logger.info(`Indexing documents (${scope}${limit ? `, up to ${limit}` : ''})`);
+
+  const summary = await indexDocuments(scope, {
+    ...(limit && { limit }),
+    onProgress: (result) => {
+      if (result.error) {
+        logger.warn(`${result.documentId}: ${result.error}`);
+      } else {
+        logger.info(`${result.documentId}: ${result.characters} characters (${result.method})`);
+      }
+    },
+  });
+
+  logger.info(
+    `Indexed ${summary.processed} documents: ${summary.withText} with text, ${summary.failed} unreadable`
+  );
+}
+
+main()
+  .catch((error) => {
+    logger.error('Document indexing failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
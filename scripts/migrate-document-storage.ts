@@ -0,0 +1,66 @@
+import 'dotenv/config';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { isStorageTier, migrateDocumentStorage, migrateDocuments } from '@/lib/storage';
+
+/**
+ * Move document files between storage tiers, e.g. the documents of closed
+ * cases to ARCHIVE. The target tier must be configured (see docs/SETUP.md):
+ *
+ *   npm run storage:migrate -- --to ARCHIVE --closed-cases
+ *   npm run storage:migrate -- --to CLOUD --limit 500
+ *   npm run storage:migrate -- --to LOCAL --document <id>
+ */
+
+function optionValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  if (index === -1) return undefined;
+  const value = argv[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`${name} requires a value`);
+  }
+  return value;
+}
+
+function parseLimit(argv: string[]): number | undefined {
+  const value = optionValue(argv, '--limit');
+  if (value === undefined) return undefined;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error('--limit must be a positive integer');
+  }
+  return limit;
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const to = optionValue(argv, '--to')?.toUpperCase();
+  if (!to || !isStorageTier(to)) {
+    throw new Error('--to must be one of LOCAL, CLOUD, HYBRID, BACKUP or ARCHIVE');
+  }
+
+  const documentId = optionValue(argv, '--document');
+  if (documentId) {
+    const migrated = await migrateDocumentStorage(documentId, to);
+    logger.info(migrated ? `Document ${documentId} migrated to ${to}` : `Document ${documentId} is already in ${to}`);
+    return;
+  }
+
+  const closedCases = argv.includes('--closed-cases');
+  const limit = parseLimit(argv);
+  logger.info(`Migrating ${closedCases ? 'documents of closed cases' : 'documents'} to ${to}${limit ? ` (up to ${limit})` : ''}`);
+
+  const summary = await migrateDocuments({ to, closedCases, ...(limit && { limit }) });
+
+  logger.info(`Migrated ${summary.migrated} of ${summary.processed} documents, ${summary.failed} failed`);
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    logger.error('Document storage migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,32 @@
+import 'dotenv/config';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { getMasterKey, rotateDocumentKeys } from '@/lib/document-encryption';
+
+/**
+ * Re-wrap the data keys of encrypted documents with the current master key:
+ *
+ *   1. Set the new key as DOCUMENT_MASTER_KEY and move the old one to DOCUMENT_PREVIOUS_MASTER_KEYS
+ *   2. npm run rotate:document-keys
+ *   3. Once it reports no failures, remove the old key from DOCUMENT_PREVIOUS_MASTER_KEYS
+ *
+ * Files are not rewritten: only the wrapped keys stored on the documents change.
+ */
+
+async function main() {
+  logger.info(`Rotating document keys to master key ${getMasterKey().id}`);
+
+  const summary = await rotateDocumentKeys();
+
+  logger.info(`Rotated ${summary.rotated} of ${summary.processed} document keys, ${summary.failed} failed`);
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    logger.error('Document key rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,123 @@
+import 'dotenv/config';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { runReminderScheduler } from '@/lib/reminders';
+import { processEmailQueue } from '@/lib/email-queue-processor';
+import { runDigests } from '@/lib/services/digest.service';
+import { runPendingRestorations, runScheduledBackups } from '@/lib/backup';
+import { indexDocuments } from '@/lib/indexing';
+import { generatePendingThumbnails } from '@/lib/previews';
+import { runApprovalEscalations } from '@/lib/approvals';
+import { runRetention } from '@/lib/retention';
+
+/**
+ * Background worker for scheduled jobs, digests, approval escalations, backups, document indexing, thumbnails, document retention and outgoing email. Run alongside the web server:
+ *
+ *   npm run worker          # loop, one tick per WORKER_INTERVAL_SECONDS (default 60)
+ *   npm run worker -- --once
+ *
+ * Set EMAIL_QUEUE_AUTOSTART=false on the web server so only the worker sends email.
+ * Document retention, which destroys files, only runs with RETENTION_ENABLED=true.
+ */
+
+const intervalMs = Math.max(Number(process.env.WORKER_INTERVAL_SECONDS) || 60, 5) * 1000;
+const runOnce = process.argv.includes('--once');
+// Documents indexed and thumbnailed per tick, so a large backlog does not delay the other jobs
+const INDEX_BATCH = 25;
+const retentionEnabled = process.env.RETENTION_ENABLED === 'true';
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+let lastRetentionRun = 0;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let stopping = false;
+
+async function tick() {
+  if (running) return;
+  running = true;
+  try {
+    await runReminderScheduler();
+
+    const escalations = await runApprovalEscalations();
+    if (escalations.workflowsEscalated > 0) {
+      logger.info(`Worker escalated ${escalations.workflowsEscalated} overdue approval workflows`);
+    }
+
+    const digests = await runDigests();
+    if (digests.emailsQueued > 0) logger.info(`Worker queued ${digests.emailsQueued} digest emails`);
+
+    const backups = await runScheduledBackups();
+    if (backups.backupsRun > 0) {
+      logger.info(`Worker ran ${backups.backupsRun} backups, ${backups.backupsFailed} failed`);
+    }
+    const restored = await runPendingRestorations();
+    if (restored > 0) logger.info(`Worker ran ${restored} restorations`);
+
+    // Uploads are indexed as they arrive; this catches the ones that were interrupted
+    const indexed = await indexDocuments('pending', { limit: INDEX_BATCH });
+    if (indexed.processed > 0) logger.info(`Worker indexed ${indexed.processed} documents`);
+    const thumbnails = await generatePendingThumbnails(INDEX_BATCH);
+    if (thumbnails.processed > 0) {
+      logger.info(`Worker rendered ${thumbnails.generated} thumbnails, ${thumbnails.failed} failed`);
+    }
+
+    // Once a day, starting with the first tick
+    if (retentionEnabled && Date.now() - lastRetentionRun >= RETENTION_INTERVAL_MS) {
+      lastRetentionRun = Date.now();
+      const retention = await runRetention();
+      if (retention.archived > 0 || retention.destroyed > 0 || retention.failed > 0) {
+        logger.info(
+          `Worker archived ${retention.archived} and destroyed ${retention.destroyed} documents past retention, ${retention.failed} failed` +
+            (retention.certificateNumber ? `, certificate ${retention.certificateNumber}` : '')
+        );
+      }
+    }
+
+    // Drain the queue in batches, including the emails queued above
+    let sent = 0;
+    let batch: number;
+    do {
+      batch = await processEmailQueue();
+      sent += batch;
+    } while (batch > 0 && !stopping);
+    if (sent > 0) logger.info(`Worker processed ${sent} queued emails`);
+  } catch (error) {
+    logger.error('Worker tick failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+async function shutdown(signal: string) {
+  if (stopping) return;
+  stopping = true;
+  logger.info(`Worker received ${signal}, shutting down`);
+  if (timer) clearInterval(timer);
+
+  // Let an in-flight tick finish before disconnecting
+  while (running) {
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+async function main() {
+  logger.info(`Worker started${runOnce ? ' (single run)' : `, interval ${intervalMs / 1000}s`}`);
+  await tick();
+
+  if (runOnce) {
+    await shutdown('--once');
+    return;
+  }
+
+  timer = setInterval(tick, intervalMs);
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+main().catch(async (error) => {
+  logger.error('Worker crashed:', error);
+  await prisma.$disconnect();
+  process.exit(1);
+});
@@ -17,6 +17,7 @@ import { OverviewTab } from '@/components/cases/tabs/overview-tab'
 import { PropertyTab } from '@/components/cases/tabs/property-tab'
 import { OwnerTab } from '@/components/cases/tabs/owner-tab'
 import { LegalTab } from '@/components/cases/tabs/legal-tab'
+import { PaymentsTab } from '@/components/cases/tabs/payments-tab'
 import { ActivityTab } from '@/components/cases/tabs/activity-tab'
 
 function CaseDetailSkeleton() {
@@ -123,11 +124,12 @@ export default function CaseDetailPage() {
 
       {/* Case Details Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview">Resumen</TabsTrigger>
           <TabsTrigger value="property">Propiedad</TabsTrigger>
           <TabsTrigger value="owner">Propietario</TabsTrigger>
           <TabsTrigger value="legal">Legal</TabsTrigger>
+          <TabsTrigger value="payments">Pagos</TabsTrigger>
           <TabsTrigger value="documents">
             <div className="flex items-center gap-2">
               <FolderOpen className="h-4 w-4" />
@@ -158,9 +160,14 @@ export default function CaseDetailPage() {
           <LegalTab caseData={caseData} />
         </TabsContent>
 
+        <TabsContent value="payments">
+          <PaymentsTab caseData={caseData} onChanged={refreshCase} />
+        </TabsContent>
+
         <TabsContent value="documents">
           <DocumentList
             caseId={caseData.id}
+            currentStage={caseData.currentStage}
             onDocumentSelect={handleDocumentSelect}
             key={caseData.updatedAt.toString()}
           />
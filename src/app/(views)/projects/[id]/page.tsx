@@ -0,0 +1,23 @@
+'use client'
+
+import { useParams, useRouter } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { ProjectDashboard } from '@/components/projects/project-dashboard'
+
+export default function ProjectPage() {
+  const params = useParams()
+  const router = useRouter()
+  const projectId = params.id as string
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <Button variant="ghost" size="sm" onClick={() => router.push('/projects')}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Proyectos
+      </Button>
+      <ProjectDashboard projectId={projectId} />
+    </div>
+  )
+}
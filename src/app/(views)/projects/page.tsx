@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Route } from 'lucide-react'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import clientLogger from '@/lib/client-logger'
+
+interface ProjectItem {
+  id: string
+  code: string
+  name: string
+  status: string
+  decree: string | null
+  contractor: string | null
+  department: { name: string }
+  _count: { cases: number }
+}
+
+const PROJECT_STATUS_LABELS: Record<string, string> = {
+  PLANNING: 'En planificación',
+  ACTIVE: 'En ejecución',
+  COMPLETED: 'Completado',
+  CANCELLED: 'Cancelado',
+}
+
+export default function ProjectsPage() {
+  const [projects, setProjects] = useState<ProjectItem[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetch('/api/projects')
+      .then(response => (response.ok ? response.json() : []))
+      .then(setProjects)
+      .catch(error => clientLogger.error('Error fetching projects:', { error }))
+      .finally(() => setLoading(false))
+  }, [])
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold text-foreground">Proyectos</h1>
+        <p className="text-muted-foreground">Obras públicas y las parcelas que expropian</p>
+      </div>
+
+      {loading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[0, 1, 2].map(i => <Skeleton key={i} className="h-36 w-full" />)}
+        </div>
+      ) : projects.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No hay proyectos registrados
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {projects.map(project => (
+            <Link key={project.id} href={`/projects/${project.id}`}>
+              <Card className="h-full hover:border-primary transition-colors">
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="outline">{project.code}</Badge>
+                    <Badge variant="secondary">{PROJECT_STATUS_LABELS[project.status] ?? project.status}</Badge>
+                  </div>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Route className="h-5 w-5 text-primary" />
+                    {project.name}
+                  </CardTitle>
+                  <CardDescription>
+                    {project.department.name}
+                    {project.decree && ` · Decreto ${project.decree}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">
+                  {project._count.cases} parcelas
+                  {project.contractor && ` · ${project.contractor}`}
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
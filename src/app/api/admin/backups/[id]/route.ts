@@ -0,0 +1,240 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType, type Prisma } from '@/prisma/client'
+import { validateSchedule } from '@/lib/reminders'
+import { backupConfigSchema } from '@/lib/backup'
+
+const updateBackupSchema = backupConfigSchema.partial()
+
+// GET /api/admin/backups/[id] - Get a backup configuration
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = await prisma.backupConfiguration.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { backups: true },
+        },
+      },
+    })
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Backup configuration not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(config)
+  } catch (error) {
+    logger.error('Error fetching backup configuration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/admin/backups/[id] - Update a backup configuration
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = updateBackupSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existingConfig = await prisma.backupConfiguration.findUnique({
+      where: { id },
+    })
+
+    if (!existingConfig) {
+      return NextResponse.json(
+        { error: 'Backup configuration not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only apply the fields that were sent, not schema defaults
+    const data = validationResult.data
+    const updateData: Prisma.BackupConfigurationUncheckedUpdateInput = {
+      updatedBy: session.user.id,
+    }
+    for (const key of Object.keys(data) as Array<keyof typeof data>) {
+      if (key in body && data[key] !== undefined) {
+        (updateData as Record<string, unknown>)[key] = data[key]
+      }
+    }
+
+    // Reschedule when the schedule changes or the backup is switched back on
+    const reactivated = data.isActive === true && !existingConfig.isActive
+    if ((data.schedule && data.schedule !== existingConfig.schedule) || reactivated) {
+      updateData.nextRunAt = validateSchedule(data.schedule ?? existingConfig.schedule).nextRunAt ?? null
+    }
+
+    const config = await prisma.backupConfiguration.update({
+      where: { id },
+      data: updateData,
+    })
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'backup_configuration',
+        entityId: config.id,
+        description: `Updated backup configuration: ${config.name}`,
+        userId: session.user.id,
+        metadata: {
+          changes: Object.keys(updateData),
+        },
+      },
+    })
+
+    return NextResponse.json(config)
+  } catch (error) {
+    logger.error('Error updating backup configuration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/backups/[id] - Delete a backup configuration, its jobs and archives
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const existingConfig = await prisma.backupConfiguration.findUnique({
+      where: { id },
+      include: {
+        backups: {
+          select: {
+            status: true,
+            filePath: true,
+            _count: { select: { restorations: true } },
+          },
+        },
+      },
+    })
+
+    if (!existingConfig) {
+      return NextResponse.json(
+        { error: 'Backup configuration not found' },
+        { status: 404 }
+      )
+    }
+
+    // Restorations keep pointing at their backup, so that history must stay
+    if (existingConfig.backups.some((job) => job._count.restorations > 0)) {
+      return NextResponse.json(
+        { error: 'Backups of this configuration have been restored; deactivate it instead' },
+        { status: 409 }
+      )
+    }
+
+    if (existingConfig.backups.some((job) => job.status === 'running')) {
+      return NextResponse.json(
+        { error: 'A backup of this configuration is running' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.backupConfiguration.delete({
+      where: { id },
+    })
+
+    for (const job of existingConfig.backups) {
+      if (job.filePath) {
+        await fs.rm(path.resolve(process.cwd(), job.filePath), { force: true })
+      }
+    }
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DELETED,
+        entityType: 'backup_configuration',
+        entityId: id,
+        description: `Deleted backup configuration: ${existingConfig.name}`,
+        userId: session.user.id,
+      },
+    })
+
+    return NextResponse.json({
+      message: 'Backup configuration deleted successfully'
+    })
+  } catch (error) {
+    logger.error('Error deleting backup configuration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType } from '@/prisma/client'
+import { createBackupJob, runBackupJob } from '@/lib/backup'
+
+// POST /api/admin/backups/[id]/run - Start a manual backup
+export async function POST(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = await prisma.backupConfiguration.findUnique({
+      where: { id },
+    })
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Backup configuration not found' },
+        { status: 404 }
+      )
+    }
+
+    const activeJob = await prisma.backupJob.findFirst({
+      where: { configurationId: id, status: { in: ['pending', 'running'] } },
+      select: { id: true },
+    })
+
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'A backup of this configuration is already queued or running', jobId: activeJob.id },
+        { status: 409 }
+      )
+    }
+
+    const job = await createBackupJob(id, 'manual', session.user.id)
+
+    // The backup runs in the background; the panel polls the job for progress
+    runBackupJob(job.id).catch((error) => {
+      logger.error(`Backup job ${job.id} crashed:`, error)
+    })
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'backup_job',
+        entityId: job.id,
+        description: `Started backup: ${config.name}`,
+        userId: session.user.id,
+        metadata: {
+          configurationId: id,
+        },
+      },
+    })
+
+    return NextResponse.json(job, { status: 202 })
+  } catch (error) {
+    logger.error('Error starting backup:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
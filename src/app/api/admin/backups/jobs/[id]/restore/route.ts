@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType } from '@/prisma/client'
+import { BackupError, createRestorationJob, restoreRequestSchema, runRestorationJob } from '@/lib/backup'
+
+// POST /api/admin/backups/jobs/[id]/restore - Restore a backup, fully or a single case
+export async function POST(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = restoreRequestSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const activeRestoration = await prisma.restorationJob.findFirst({
+      where: { status: { in: ['pending', 'running'] } },
+      select: { id: true },
+    })
+
+    if (activeRestoration) {
+      return NextResponse.json(
+        { error: 'Another restoration is already queued or running', restorationId: activeRestoration.id },
+        { status: 409 }
+      )
+    }
+
+    let restoration
+    try {
+      restoration = await createRestorationJob(id, validationResult.data, session.user.id)
+    } catch (error) {
+      if (error instanceof BackupError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    // The restore runs in the background; the panel polls the job for progress
+    runRestorationJob(restoration.id).catch((error) => {
+      logger.error(`Restoration job ${restoration.id} crashed:`, error)
+    })
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.RESTORED,
+        entityType: 'backup_job',
+        entityId: id,
+        description: restoration.caseId
+          ? `Started restore of case ${restoration.caseId} from backup`
+          : 'Started full restore from backup',
+        userId: session.user.id,
+        metadata: {
+          restorationId: restoration.id,
+          type: restoration.type,
+          caseId: restoration.caseId,
+        },
+      },
+    })
+
+    return NextResponse.json(restoration, { status: 202 })
+  } catch (error) {
+    logger.error('Error starting restoration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { sha256File } from '@/lib/backup'
+
+// POST /api/admin/backups/jobs/[id]/verify - Check a backup archive against its checksum
+export async function POST(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const job = await prisma.backupJob.findUnique({
+      where: { id },
+      select: { status: true, filePath: true, checksum: true },
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Backup job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (job.status !== 'completed' || !job.filePath || !job.checksum) {
+      return NextResponse.json(
+        { error: 'Only completed backups with an archive can be verified' },
+        { status: 409 }
+      )
+    }
+
+    let checksum: string | null = null
+    try {
+      checksum = await sha256File(path.resolve(process.cwd(), job.filePath))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+
+    return NextResponse.json({
+      valid: checksum === job.checksum,
+      missing: checksum === null,
+      expected: job.checksum,
+      actual: checksum,
+    })
+  } catch (error) {
+    logger.error('Error verifying backup:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
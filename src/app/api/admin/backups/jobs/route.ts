@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import type { Prisma } from '@/prisma/client'
+
+// GET /api/admin/backups/jobs - List backup jobs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const configurationId = searchParams.get('configurationId')
+    const status = searchParams.get('status')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+
+    const where: Prisma.BackupJobWhereInput = {}
+    if (configurationId) where.configurationId = configurationId
+    if (status && status !== 'all') where.status = status
+
+    const jobs = await prisma.backupJob.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        configuration: {
+          select: { id: true, name: true },
+        },
+        creator: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    })
+
+    return NextResponse.json(jobs)
+  } catch (error) {
+    logger.error('Error fetching backup jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
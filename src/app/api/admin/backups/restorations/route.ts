@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+
+// GET /api/admin/backups/restorations - List restoration jobs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
+
+    const restorations = await prisma.restorationJob.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        backupJob: {
+          select: { id: true, createdAt: true, configuration: { select: { name: true } } },
+        },
+        creator: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    })
+
+    return NextResponse.json(restorations)
+  } catch (error) {
+    logger.error('Error fetching restoration jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ActivityType, type Prisma } from '@/prisma/client'
+import { validateSchedule } from '@/lib/reminders'
+import { backupConfigSchema } from '@/lib/backup'
+
+// GET /api/admin/backups - List backup configurations with their latest job
+export async function GET() {
+  try {
+    const session = await auth()
+
+    // Only allow super admins to manage backups
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const configs = await prisma.backupConfiguration.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        backups: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+        _count: {
+          select: { backups: true },
+        },
+      },
+    })
+
+    return NextResponse.json(
+      configs.map(({ backups, ...config }) => ({
+        ...config,
+        lastJob: backups[0] ?? null,
+      }))
+    )
+  } catch (error) {
+    logger.error('Error fetching backup configurations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/backups - Create a backup configuration
+export async function POST(request: Request) {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = backupConfigSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    const backupCreatePayload: Prisma.BackupConfigurationUncheckedCreateInput = {
+      name: data.name,
+      type: data.type,
+      schedule: data.schedule,
+      retentionDays: data.retentionDays,
+      compression: data.compression,
+      encryption: data.encryption,
+      storageType: data.storageType,
+      storageConfig: data.storageConfig,
+      storagePath: data.storagePath ?? null,
+      includeFiles: data.includeFiles,
+      isActive: data.isActive,
+      maxBackupSize: data.maxBackupSize ?? null,
+      verifyIntegrity: data.verifyIntegrity,
+      notifyOnSuccess: data.notifyOnSuccess,
+      notifyOnFailure: data.notifyOnFailure,
+      notificationEmail: data.notificationEmail ?? null,
+      nextRunAt: validateSchedule(data.schedule).nextRunAt ?? null,
+      createdBy: session.user.id,
+      ...(data.includeTables && { includeTables: data.includeTables }),
+      ...(data.excludeTables && { excludeTables: data.excludeTables }),
+    }
+
+    const config = await prisma.backupConfiguration.create({
+      data: backupCreatePayload,
+    })
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'backup_configuration',
+        entityId: config.id,
+        description: `Created backup configuration: ${config.name}`,
+        userId: session.user.id,
+        metadata: {
+          schedule: config.schedule,
+          retentionDays: config.retentionDays,
+        },
+      },
+    })
+
+    return NextResponse.json(config, { status: 201 })
+  } catch (error) {
+    logger.error('Error creating backup configuration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
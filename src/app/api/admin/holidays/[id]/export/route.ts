@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { toCsv, toIcs } from '@/lib/holidays'
+
+// GET /api/admin/holidays/[id]/export?format=ics|csv - Download a calendar's holidays
+export async function GET(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const format = new URL(request.url).searchParams.get('format') ?? 'ics'
+    if (format !== 'ics' && format !== 'csv') {
+      return NextResponse.json(
+        { error: 'Format must be ics or csv' },
+        { status: 400 }
+      )
+    }
+
+    const calendar = await prisma.holidayCalendar.findUnique({
+      where: { id },
+      include: {
+        holidays: {
+          where: { isActive: true },
+          orderBy: { date: 'asc' },
+        },
+      },
+    })
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Holiday calendar not found' },
+        { status: 404 }
+      )
+    }
+
+    const calendarName = calendar.region ? `${calendar.name} (${calendar.region})` : calendar.name
+    const content = format === 'ics' ? toIcs(calendarName, calendar.holidays) : toCsv(calendar.holidays)
+    const slug = calendarName.toLowerCase().normalize('NFD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': format === 'ics' ? 'text/calendar; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${slug}-${calendar.year}.${format}"`,
+      },
+    })
+  } catch (error) {
+    logger.error('Error exporting holiday calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
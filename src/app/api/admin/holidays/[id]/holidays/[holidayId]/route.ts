@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType, type Prisma } from '@/prisma/client'
+import { holidayData, holidaySchema } from '@/lib/holidays'
+import { invalidateWorkCalendar } from '@/lib/sla'
+
+const updateHolidaySchema = holidaySchema.partial()
+
+// PUT /api/admin/holidays/[id]/holidays/[holidayId] - Update a holiday
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id, holidayId } = await params
+
+    if (!id || !holidayId) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = updateHolidaySchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existingHoliday = await prisma.holiday.findFirst({
+      where: { id: holidayId, calendarId: id },
+    })
+
+    if (!existingHoliday) {
+      return NextResponse.json(
+        { error: 'Holiday not found' },
+        { status: 404 }
+      )
+    }
+
+    // Merge onto the stored holiday so only the fields that were sent change
+    const data = validationResult.data
+    const mergedResult = holidaySchema.safeParse({
+      name: existingHoliday.name,
+      date: existingHoliday.date.toISOString().slice(0, 10),
+      type: existingHoliday.type,
+      isRecurring: existingHoliday.isRecurring,
+      recurringPattern: existingHoliday.recurringPattern,
+      isActive: existingHoliday.isActive,
+      affectsWork: existingHoliday.affectsWork,
+      workCompensation: existingHoliday.workCompensation,
+      description: existingHoliday.description,
+      ...Object.fromEntries(Object.entries(data).filter(([key]) => key in body)),
+    })
+
+    if (!mergedResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: mergedResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const merged = holidayData(mergedResult.data)
+
+    if (merged.date.getTime() !== existingHoliday.date.getTime()) {
+      const duplicate = await prisma.holiday.findUnique({
+        where: { calendarId_date: { calendarId: id, date: merged.date } },
+        select: { name: true },
+      })
+
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `The calendar already has a holiday on this date: ${duplicate.name}` },
+          { status: 409 }
+        )
+      }
+    }
+
+    const updateData: Prisma.HolidayUpdateInput = merged
+    const holiday = await prisma.holiday.update({
+      where: { id: holidayId },
+      data: updateData,
+    })
+
+    invalidateWorkCalendar()
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'holiday',
+        entityId: holiday.id,
+        description: `Updated holiday: ${holiday.name}`,
+        userId: session.user.id,
+        metadata: {
+          calendarId: id,
+          changes: Object.keys(data).filter((key) => key in body),
+        },
+      },
+    })
+
+    return NextResponse.json(holiday)
+  } catch (error) {
+    logger.error('Error updating holiday:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/holidays/[id]/holidays/[holidayId] - Delete a holiday
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id, holidayId } = await params
+
+    if (!id || !holidayId) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const existingHoliday = await prisma.holiday.findFirst({
+      where: { id: holidayId, calendarId: id },
+    })
+
+    if (!existingHoliday) {
+      return NextResponse.json(
+        { error: 'Holiday not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.holiday.delete({
+      where: { id: holidayId },
+    })
+
+    invalidateWorkCalendar()
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DELETED,
+        entityType: 'holiday',
+        entityId: holidayId,
+        description: `Deleted holiday: ${existingHoliday.name}`,
+        userId: session.user.id,
+        metadata: {
+          calendarId: id,
+        },
+      },
+    })
+
+    return NextResponse.json({
+      message: 'Holiday deleted successfully'
+    })
+  } catch (error) {
+    logger.error('Error deleting holiday:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType } from '@/prisma/client'
+import { holidayData, holidaySchema } from '@/lib/holidays'
+import { invalidateWorkCalendar } from '@/lib/sla'
+
+// POST /api/admin/holidays/[id]/holidays - Add a holiday to a calendar
+export async function POST(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = holidaySchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const calendar = await prisma.holidayCalendar.findUnique({
+      where: { id },
+      select: { id: true, name: true },
+    })
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Holiday calendar not found' },
+        { status: 404 }
+      )
+    }
+
+    const data = holidayData(validationResult.data)
+    const duplicate = await prisma.holiday.findUnique({
+      where: { calendarId_date: { calendarId: id, date: data.date } },
+      select: { name: true },
+    })
+
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `The calendar already has a holiday on this date: ${duplicate.name}` },
+        { status: 409 }
+      )
+    }
+
+    const holiday = await prisma.holiday.create({
+      data: {
+        ...data,
+        calendarId: id,
+        createdBy: session.user.id,
+      },
+    })
+
+    invalidateWorkCalendar()
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'holiday',
+        entityId: holiday.id,
+        description: `Added holiday ${holiday.name} to ${calendar.name}`,
+        userId: session.user.id,
+        metadata: {
+          calendarId: id,
+          date: validationResult.data.date,
+        },
+      },
+    })
+
+    return NextResponse.json(holiday, { status: 201 })
+  } catch (error) {
+    logger.error('Error creating holiday:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
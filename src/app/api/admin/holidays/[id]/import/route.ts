@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType } from '@/prisma/client'
+import { holidayImportSchema, importHolidays, parseCsv, parseIcs } from '@/lib/holidays'
+
+// POST /api/admin/holidays/[id]/import - Import holidays from an iCalendar or CSV file
+export async function POST(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = holidayImportSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const calendar = await prisma.holidayCalendar.findUnique({
+      where: { id },
+      select: { id: true, name: true, year: true },
+    })
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Holiday calendar not found' },
+        { status: 404 }
+      )
+    }
+
+    const { format, content, replace } = validationResult.data
+    const parsed = format === 'ics' ? parseIcs(content) : parseCsv(content)
+
+    // Reject the whole file on any bad row so the calendar is never half imported
+    if (parsed.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid holiday file', errors: parsed.errors },
+        { status: 400 }
+      )
+    }
+
+    const dates = new Set(parsed.holidays.map((holiday) => holiday.date))
+    if (dates.size !== parsed.holidays.length) {
+      return NextResponse.json(
+        { error: 'Invalid holiday file', errors: ['El archivo contiene fechas repetidas'] },
+        { status: 400 }
+      )
+    }
+
+    const summary = await importHolidays(id, parsed.holidays, session.user.id, replace)
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.IMPORTED,
+        entityType: 'holiday_calendar',
+        entityId: id,
+        description: `Imported ${parsed.holidays.length} holidays into ${calendar.name} ${calendar.year}`,
+        userId: session.user.id,
+        metadata: {
+          format,
+          replace,
+          ...summary,
+        },
+      },
+    })
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    logger.error('Error importing holidays:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
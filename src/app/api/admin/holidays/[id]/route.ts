@@ -0,0 +1,220 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType, type Prisma } from '@/prisma/client'
+import { holidayCalendarSchema } from '@/lib/holidays'
+import { invalidateWorkCalendar } from '@/lib/sla'
+
+const updateCalendarSchema = holidayCalendarSchema.omit({ holidays: true }).partial()
+
+// GET /api/admin/holidays/[id] - Get a holiday calendar with its holidays
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const calendar = await prisma.holidayCalendar.findUnique({
+      where: { id },
+      include: {
+        holidays: {
+          orderBy: { date: 'asc' },
+        },
+      },
+    })
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Holiday calendar not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(calendar)
+  } catch (error) {
+    logger.error('Error fetching holiday calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/admin/holidays/[id] - Update a holiday calendar
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = updateCalendarSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existingCalendar = await prisma.holidayCalendar.findUnique({
+      where: { id },
+    })
+
+    if (!existingCalendar) {
+      return NextResponse.json(
+        { error: 'Holiday calendar not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only apply the fields that were sent, not schema defaults
+    const data = validationResult.data
+    const updateData: Prisma.HolidayCalendarUncheckedUpdateInput = { updatedBy: session.user.id }
+    for (const key of Object.keys(data) as Array<keyof typeof data>) {
+      if (key in body && data[key] !== undefined) {
+        (updateData as Record<string, unknown>)[key] = data[key]
+      }
+    }
+
+    const name = data.name ?? existingCalendar.name
+    const year = data.year ?? existingCalendar.year
+    const country = data.country ?? existingCalendar.country
+    const region = 'region' in body ? (data.region ?? null) : existingCalendar.region
+    const duplicate = await prisma.holidayCalendar.findFirst({
+      where: { id: { not: id }, name, year, country, region },
+      select: { id: true },
+    })
+
+    if (duplicate) {
+      return NextResponse.json(
+        { error: 'A calendar with this name already exists for this year and region' },
+        { status: 409 }
+      )
+    }
+
+    const calendar = await prisma.holidayCalendar.update({
+      where: { id },
+      data: updateData,
+    })
+
+    invalidateWorkCalendar()
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'holiday_calendar',
+        entityId: calendar.id,
+        description: `Updated holiday calendar: ${calendar.name} ${calendar.year}`,
+        userId: session.user.id,
+        metadata: {
+          changes: Object.keys(updateData),
+        },
+      },
+    })
+
+    return NextResponse.json(calendar)
+  } catch (error) {
+    logger.error('Error updating holiday calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/holidays/[id] - Delete a holiday calendar and its holidays
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const existingCalendar = await prisma.holidayCalendar.findUnique({
+      where: { id },
+    })
+
+    if (!existingCalendar) {
+      return NextResponse.json(
+        { error: 'Holiday calendar not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.holidayCalendar.delete({
+      where: { id },
+    })
+
+    invalidateWorkCalendar()
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DELETED,
+        entityType: 'holiday_calendar',
+        entityId: id,
+        description: `Deleted holiday calendar: ${existingCalendar.name} ${existingCalendar.year}`,
+        userId: session.user.id,
+      },
+    })
+
+    return NextResponse.json({
+      message: 'Holiday calendar deleted successfully'
+    })
+  } catch (error) {
+    logger.error('Error deleting holiday calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
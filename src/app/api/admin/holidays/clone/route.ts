@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ActivityType } from '@/prisma/client'
+import { cloneHolidayCalendars, holidayCloneSchema } from '@/lib/holidays'
+
+// POST /api/admin/holidays/clone - Copy the calendars of one year into another
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = holidayCloneSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { sourceYear, targetYear } = validationResult.data
+    if (sourceYear === targetYear) {
+      return NextResponse.json(
+        { error: 'Source and target year must differ' },
+        { status: 400 }
+      )
+    }
+
+    const summary = await cloneHolidayCalendars(sourceYear, targetYear, session.user.id)
+
+    for (const calendar of summary.calendars) {
+      await prisma.activity.create({
+        data: {
+          action: ActivityType.CREATED,
+          entityType: 'holiday_calendar',
+          entityId: calendar.id,
+          description: `Cloned holiday calendar ${calendar.name} from ${sourceYear} to ${targetYear}`,
+          userId: session.user.id,
+          metadata: {
+            sourceYear,
+            targetYear,
+            holidays: calendar.holidays,
+          },
+        },
+      })
+    }
+
+    return NextResponse.json(summary, { status: summary.calendars.length > 0 ? 201 : 200 })
+  } catch (error) {
+    logger.error('Error cloning holiday calendars:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ActivityType, type Prisma } from '@/prisma/client'
+import { holidayCalendarSchema, holidayData } from '@/lib/holidays'
+import { invalidateWorkCalendar } from '@/lib/sla'
+
+// GET /api/admin/holidays - List holiday calendars
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    // Only allow super admins to manage holidays
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const year = searchParams.get('year')
+    const country = searchParams.get('country')
+    const region = searchParams.get('region')
+
+    const where: Prisma.HolidayCalendarWhereInput = {}
+    if (year) where.year = parseInt(year)
+    if (country) where.country = country.toUpperCase()
+    if (region === 'national') where.region = null
+    else if (region) where.region = region
+
+    const calendars = await prisma.holidayCalendar.findMany({
+      where,
+      include: {
+        _count: {
+          select: { holidays: true },
+        },
+      },
+      orderBy: [{ year: 'desc' }, { region: 'asc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json(calendars)
+  } catch (error) {
+    logger.error('Error fetching holiday calendars:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/holidays - Create a holiday calendar, optionally with its holidays
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = holidayCalendarSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+    const region = data.region ?? null
+
+    // The unique index does not catch duplicates of national calendars (NULL region)
+    const duplicate = await prisma.holidayCalendar.findFirst({
+      where: { name: data.name, year: data.year, country: data.country, region },
+      select: { id: true },
+    })
+
+    if (duplicate) {
+      return NextResponse.json(
+        { error: 'A calendar with this name already exists for this year and region' },
+        { status: 409 }
+      )
+    }
+
+    const holidays = data.holidays ?? []
+    const dates = new Set(holidays.map((holiday) => holiday.date))
+    if (dates.size !== holidays.length) {
+      return NextResponse.json(
+        { error: 'Holiday dates must be unique within a calendar' },
+        { status: 400 }
+      )
+    }
+
+    const calendar = await prisma.holidayCalendar.create({
+      data: {
+        name: data.name,
+        year: data.year,
+        country: data.country,
+        region,
+        isActive: data.isActive,
+        description: data.description ?? null,
+        createdBy: session.user.id,
+        holidays: {
+          create: holidays.map((holiday) => ({
+            ...holidayData(holiday),
+            createdBy: session.user.id,
+          })),
+        },
+      },
+      include: {
+        _count: {
+          select: { holidays: true },
+        },
+      },
+    })
+
+    invalidateWorkCalendar()
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'holiday_calendar',
+        entityId: calendar.id,
+        description: `Created holiday calendar: ${calendar.name} ${calendar.year}`,
+        userId: session.user.id,
+        metadata: {
+          year: calendar.year,
+          region: calendar.region,
+          holidays: calendar._count.holidays,
+        },
+      },
+    })
+
+    return NextResponse.json(calendar, { status: 201 })
+  } catch (error) {
+    logger.error('Error creating holiday calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
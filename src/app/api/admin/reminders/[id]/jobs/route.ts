@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import type { Prisma } from '@/prisma/client'
+
+// GET /api/admin/reminders/[id]/jobs - Recent jobs for a reminder
+export async function GET(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+
+    const where: Prisma.ReminderJobWhereInput = { configId: id }
+    if (status && status !== 'all') where.status = status
+
+    const jobs = await prisma.reminderJob.findMany({
+      where,
+      orderBy: { scheduledAt: 'desc' },
+      take: limit,
+    })
+
+    return NextResponse.json(jobs)
+  } catch (error) {
+    logger.error('Error fetching reminder jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
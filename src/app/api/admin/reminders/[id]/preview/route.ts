@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { findMatchingCases, reminderConditionsSchema } from '@/lib/reminders'
+
+// GET /api/admin/reminders/[id]/preview - Cases the reminder would match right now
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = await prisma.reminderConfig.findUnique({
+      where: { id },
+    })
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      )
+    }
+
+    const conditions = reminderConditionsSchema.safeParse(config.conditions)
+    if (!conditions.success) {
+      return NextResponse.json(
+        { error: 'Stored reminder conditions are invalid', details: conditions.error.issues },
+        { status: 422 }
+      )
+    }
+
+    const matches = await findMatchingCases(conditions.data)
+
+    return NextResponse.json({ total: matches.length, matches })
+  } catch (error) {
+    logger.error('Error previewing reminder:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType, type Prisma } from '@/prisma/client'
+import { reminderConfigSchema, validateSchedule } from '@/lib/reminders'
+
+const updateReminderSchema = reminderConfigSchema.partial()
+
+// GET /api/admin/reminders/[id] - Get a reminder configuration
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = await prisma.reminderConfig.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { jobs: true },
+        },
+      },
+    })
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(config)
+  } catch (error) {
+    logger.error('Error fetching reminder configuration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/admin/reminders/[id] - Update a reminder configuration
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = updateReminderSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existingConfig = await prisma.reminderConfig.findUnique({
+      where: { id },
+    })
+
+    if (!existingConfig) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only apply the fields that were sent, not schema defaults
+    const data = validationResult.data
+    const updateData: Prisma.ReminderConfigUpdateInput = {}
+    for (const key of Object.keys(data) as Array<keyof typeof data>) {
+      if (key in body && data[key] !== undefined) {
+        (updateData as Record<string, unknown>)[key] = data[key]
+      }
+    }
+
+    // Reschedule when the schedule changes or the reminder is switched back on
+    const reactivated = data.isActive === true && !existingConfig.isActive
+    if ((data.schedule && data.schedule !== existingConfig.schedule) || reactivated) {
+      updateData.nextRunAt = validateSchedule(data.schedule ?? existingConfig.schedule).nextRunAt ?? null
+    }
+
+    const config = await prisma.reminderConfig.update({
+      where: { id },
+      data: updateData,
+    })
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'reminder_config',
+        entityId: config.id,
+        description: `Updated reminder: ${config.name}`,
+        userId: session.user.id,
+        metadata: {
+          changes: Object.keys(updateData),
+        },
+      },
+    })
+
+    return NextResponse.json(config)
+  } catch (error) {
+    logger.error('Error updating reminder configuration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/reminders/[id] - Delete a reminder configuration and its jobs
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const existingConfig = await prisma.reminderConfig.findUnique({
+      where: { id },
+    })
+
+    if (!existingConfig) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.reminderConfig.delete({
+      where: { id },
+    })
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DELETED,
+        entityType: 'reminder_config',
+        entityId: id,
+        description: `Deleted reminder: ${existingConfig.name}`,
+        userId: session.user.id,
+      },
+    })
+
+    return NextResponse.json({
+      message: 'Reminder deleted successfully'
+    })
+  } catch (error) {
+    logger.error('Error deleting reminder configuration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ActivityType, type Prisma } from '@/prisma/client'
+import { reminderConfigSchema, validateSchedule } from '@/lib/reminders'
+
+// GET /api/admin/reminders - List reminder configurations
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    // Only allow super admins to manage reminders
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const isActive = searchParams.get('isActive')
+
+    const where: Prisma.ReminderConfigWhereInput = {}
+    if (type && type !== 'all') where.type = type
+    if (isActive !== null) where.isActive = isActive === 'true'
+
+    const [configs, jobCounts] = await Promise.all([
+      prisma.reminderConfig.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.reminderJob.groupBy({
+        by: ['configId', 'status'],
+        _count: { _all: true },
+      }),
+    ])
+
+    // Attach job counts per status so the panel can show delivery health
+    const countsByConfig = new Map<string, Record<string, number>>()
+    for (const row of jobCounts) {
+      const counts = countsByConfig.get(row.configId) ?? {}
+      counts[row.status] = row._count._all
+      countsByConfig.set(row.configId, counts)
+    }
+
+    return NextResponse.json(
+      configs.map((config) => ({
+        ...config,
+        jobCounts: countsByConfig.get(config.id) ?? {},
+      }))
+    )
+  } catch (error) {
+    logger.error('Error fetching reminder configurations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/reminders - Create a reminder configuration
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = reminderConfigSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    const reminderCreatePayload: Prisma.ReminderConfigCreateInput = {
+      name: data.name,
+      description: data.description,
+      type: data.type,
+      schedule: data.schedule,
+      isActive: data.isActive,
+      conditions: data.conditions,
+      templateId: data.templateId ?? null,
+      subject: data.subject ?? null,
+      message: data.message ?? null,
+      recipients: data.recipients,
+      channels: data.channels,
+      priority: data.priority,
+      maxReminders: data.maxReminders,
+      reminderInterval: data.reminderInterval,
+      tags: data.tags ?? null,
+      nextRunAt: validateSchedule(data.schedule).nextRunAt ?? null,
+      ...(data.metadata && { metadata: data.metadata }),
+    }
+
+    const config = await prisma.reminderConfig.create({
+      data: reminderCreatePayload,
+    })
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'reminder_config',
+        entityId: config.id,
+        description: `Created reminder: ${config.name}`,
+        userId: session.user.id,
+        metadata: {
+          type: config.type,
+          schedule: config.schedule,
+        },
+      },
+    })
+
+    return NextResponse.json(config, { status: 201 })
+  } catch (error) {
+    logger.error('Error creating reminder configuration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
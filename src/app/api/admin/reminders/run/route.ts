@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { logger } from '@/lib/logger'
+import { runReminderScheduler } from '@/lib/reminders'
+
+// POST /api/admin/reminders/run - Run one scheduler tick immediately
+export async function POST() {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const summary = await runReminderScheduler()
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    logger.error('Error running reminder scheduler:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
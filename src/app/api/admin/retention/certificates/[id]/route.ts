@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { URLParams } from '@/types'
+import { ActivityType } from '@/prisma/client'
+import { RetentionError, getDestructionCertificateReport } from '@/lib/retention'
+
+// GET /api/admin/retention/certificates/[id] - Download a destruction certificate
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await auth()
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const report = await getDestructionCertificateReport(id)
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DOWNLOADED,
+        entityType: 'destruction_certificate',
+        entityId: id,
+        description: `Destruction certificate downloaded: ${report.number}`,
+        userId: session.user.id,
+      },
+    })
+
+    return new NextResponse(JSON.stringify(report, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="acta-eliminacion-${report.number}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    if (error instanceof RetentionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    logger.error('Error generating destruction certificate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { logger } from '@/lib/logger'
+import { listDestructionCertificates } from '@/lib/retention'
+
+// GET /api/admin/retention/certificates - List destruction certificates
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(await listDestructionCertificates())
+  } catch (error) {
+    logger.error('Error fetching destruction certificates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
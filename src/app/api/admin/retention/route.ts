@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ActivityType } from '@/prisma/client'
+import { planRetention, runRetention } from '@/lib/retention'
+
+// GET /api/admin/retention - Documents whose retention period has lapsed, without acting on them
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const decisions = await planRetention()
+
+    return NextResponse.json({
+      toArchive: decisions.filter((decision) => decision.disposition === 'ARCHIVE').length,
+      toDestroy: decisions.filter((decision) => decision.disposition === 'DESTROY').length,
+      documents: decisions,
+    })
+  } catch (error) {
+    logger.error('Error planning document retention:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/retention - Apply the retention schedules now
+export async function POST() {
+  try {
+    const session = await auth()
+
+    if (!session?.user || session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const summary = await runRetention({ issuedById: session.user.id })
+
+    if (summary.certificateId) {
+      await prisma.activity.create({
+        data: {
+          action: ActivityType.DELETED,
+          entityType: 'destruction_certificate',
+          entityId: summary.certificateId,
+          description: `Destroyed ${summary.destroyed} documents past their retention period: ${summary.certificateNumber}`,
+          userId: session.user.id,
+          metadata: { archived: summary.archived, destroyed: summary.destroyed, failed: summary.failed },
+        },
+      })
+    }
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    logger.error('Error applying document retention:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
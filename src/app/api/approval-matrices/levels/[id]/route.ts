@@ -0,0 +1,148 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import {
+  ApprovalMatrixError,
+  canManageApprovalMatrices,
+  prepareMatrixLevelData,
+  serializeMatrixLevel,
+} from '@/lib/approvals';
+import { UpdateApprovalMatrixLevelSchema } from '@/lib/validations/approval-matrix';
+
+// PUT /api/approval-matrices/levels/[id] - Update an approval level
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManageApprovalMatrices(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = UpdateApprovalMatrixLevelSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const input = validation.data;
+
+    const existing = await prisma.approvalMatrixLevel.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Approval level not found' }, { status: 404 });
+    }
+
+    const data = await prepareMatrixLevelData(input, existing);
+    if (input.sequence !== undefined && input.sequence !== null && input.sequence !== existing.sequence) {
+      const taken = await prisma.approvalMatrixLevel.findUnique({
+        where: { matrixId_sequence: { matrixId: existing.matrixId, sequence: input.sequence } },
+        select: { id: true },
+      });
+      if (taken) {
+        return NextResponse.json(
+          { error: `Sequence ${input.sequence} is already used in this matrix` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const level = await prisma.approvalMatrixLevel.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(input.sequence !== undefined && input.sequence !== null && { sequence: input.sequence }),
+      },
+    });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'approval_matrix_level',
+        entityId: id,
+        description: `Updated approval level "${level.name}"`,
+        userId: session.user.id,
+        metadata: { matrixId: level.matrixId, changes: Object.keys(input) },
+      },
+    });
+
+    return NextResponse.json(serializeMatrixLevel(level));
+  } catch (error) {
+    if (error instanceof ApprovalMatrixError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error updating approval level:', error);
+    return NextResponse.json(
+      { error: 'Failed to update approval level' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/approval-matrices/levels/[id] - Remove an approval level
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManageApprovalMatrices(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await prisma.approvalMatrixLevel.findUnique({
+      where: { id },
+      select: { id: true, name: true, matrixId: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Approval level not found' }, { status: 404 });
+    }
+
+    // Workflows keep a snapshot of the levels they were created with
+    await prisma.approvalMatrixLevel.delete({ where: { id } });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DELETED,
+        entityType: 'approval_matrix_level',
+        entityId: id,
+        description: `Deleted approval level "${existing.name}"`,
+        userId: session.user.id,
+        metadata: { matrixId: existing.matrixId },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting approval level:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete approval level' },
+      { status: 500 }
+    );
+  }
+}
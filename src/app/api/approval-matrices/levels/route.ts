@@ -0,0 +1,87 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import {
+  ApprovalMatrixError,
+  canManageApprovalMatrices,
+  nextMatrixLevelSequence,
+  prepareMatrixLevelData,
+  serializeMatrixLevel,
+} from '@/lib/approvals';
+import { CreateApprovalMatrixLevelSchema } from '@/lib/validations/approval-matrix';
+
+// POST /api/approval-matrices/levels - Add a level to an approval matrix
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManageApprovalMatrices(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = CreateApprovalMatrixLevelSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const { matrixId, ...input } = validation.data;
+
+    const matrix = await prisma.approvalMatrix.findUnique({
+      where: { id: matrixId },
+      select: { id: true, name: true },
+    });
+    if (!matrix) {
+      return NextResponse.json({ error: 'Approval matrix not found' }, { status: 404 });
+    }
+
+    const sequence = input.sequence ?? (await nextMatrixLevelSequence(matrixId));
+    const taken = await prisma.approvalMatrixLevel.findUnique({
+      where: { matrixId_sequence: { matrixId, sequence } },
+      select: { id: true },
+    });
+    if (taken) {
+      return NextResponse.json(
+        { error: `Sequence ${sequence} is already used in this matrix` },
+        { status: 409 }
+      );
+    }
+
+    const level = await prisma.approvalMatrixLevel.create({
+      data: {
+        ...(await prepareMatrixLevelData(input)),
+        matrixId,
+        name: input.name,
+        sequence,
+      },
+    });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'approval_matrix_level',
+        entityId: level.id,
+        description: `Added approval level "${level.name}" to ${matrix.name}`,
+        userId: session.user.id,
+        metadata: { matrixId, sequence, minAmount: level.minAmount, maxAmount: level.maxAmount },
+      },
+    });
+
+    return NextResponse.json(serializeMatrixLevel(level), { status: 201 });
+  } catch (error) {
+    if (error instanceof ApprovalMatrixError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error creating approval level:', error);
+    return NextResponse.json(
+      { error: 'Failed to create approval level' },
+      { status: 500 }
+    );
+  }
+}
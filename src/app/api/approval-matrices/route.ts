@@ -0,0 +1,110 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType, type Prisma } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import {
+  APPROVAL_MATRIX_INCLUDE,
+  ApprovalMatrixError,
+  DEFAULT_MATRIX_ENTITY_TYPE,
+  canManageApprovalMatrices,
+  prepareMatrixLevelData,
+  serializeMatrix,
+} from '@/lib/approvals';
+import { CreateApprovalMatrixSchema } from '@/lib/validations/approval-matrix';
+
+// GET /api/approval-matrices - List approval matrices with their levels
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entityType');
+    const isActive = searchParams.get('isActive');
+
+    const where: Prisma.ApprovalMatrixWhereInput = {};
+    if (entityType) where.entityType = entityType;
+    if (isActive !== null) where.isActive = isActive === 'true';
+
+    const matrices = await prisma.approvalMatrix.findMany({
+      where,
+      include: APPROVAL_MATRIX_INCLUDE,
+      orderBy: [{ isActive: 'desc' }, { updatedAt: 'desc' }],
+    });
+
+    return NextResponse.json(matrices.map(serializeMatrix));
+  } catch (error) {
+    logger.error('Error fetching approval matrices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch approval matrices' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/approval-matrices - Create an approval matrix
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManageApprovalMatrices(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = CreateApprovalMatrixSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const data = validation.data;
+
+    const levels = await Promise.all(
+      (data.levels ?? []).map(async (level, index) => ({
+        ...(await prepareMatrixLevelData(level)),
+        name: level.name,
+        sequence: level.sequence ?? index + 1,
+      }))
+    );
+
+    const matrix = await prisma.approvalMatrix.create({
+      data: {
+        name: data.name,
+        description: data.description ?? null,
+        entityType: data.entityType ?? DEFAULT_MATRIX_ENTITY_TYPE,
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+        levels: { create: levels },
+      },
+      include: APPROVAL_MATRIX_INCLUDE,
+    });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'approval_matrix',
+        entityId: matrix.id,
+        description: `Created approval matrix: ${matrix.name}`,
+        userId: session.user.id,
+        metadata: { entityType: matrix.entityType, levels: matrix.levels.length },
+      },
+    });
+
+    return NextResponse.json(serializeMatrix(matrix), { status: 201 });
+  } catch (error) {
+    if (error instanceof ApprovalMatrixError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error creating approval matrix:', error);
+    return NextResponse.json(
+      { error: 'Failed to create approval matrix' },
+      { status: 500 }
+    );
+  }
+}
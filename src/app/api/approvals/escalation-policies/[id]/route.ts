@@ -0,0 +1,59 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { canManageApprovalMatrices } from '@/lib/approvals';
+
+// DELETE /api/approvals/escalation-policies/[id] - Return a stage to the default policy
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManageApprovalMatrices(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await prisma.approvalEscalationPolicy.findUnique({
+      where: { id },
+      select: { id: true, stage: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Escalation policy not found' }, { status: 404 });
+    }
+
+    await prisma.approvalEscalationPolicy.delete({ where: { id } });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DELETED,
+        entityType: 'approval_escalation_policy',
+        entityId: id,
+        description: `Deleted approval escalation policy for ${existing.stage}`,
+        userId: session.user.id,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting escalation policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete escalation policy' },
+      { status: 500 }
+    );
+  }
+}
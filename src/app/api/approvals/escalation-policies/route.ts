@@ -0,0 +1,100 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType, CaseStage } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { DEFAULT_ESCALATION_POLICY, ESCALATION_TARGETS, canManageApprovalMatrices } from '@/lib/approvals';
+
+const escalationPolicySchema = z.object({
+  stage: z.enum(CaseStage),
+  target: z.enum(ESCALATION_TARGETS).optional(),
+  graceHours: z.number().int().min(0).max(24 * 30).optional(),
+  extensionHours: z.number().int().min(1).max(24 * 30).optional(),
+  maxEscalations: z.number().int().min(0).max(10).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// GET /api/approvals/escalation-policies - List escalation policies by stage
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const policies = await prisma.approvalEscalationPolicy.findMany({
+      orderBy: { stage: 'asc' },
+    });
+
+    return NextResponse.json({ policies, defaultPolicy: DEFAULT_ESCALATION_POLICY });
+  } catch (error) {
+    logger.error('Error fetching escalation policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch escalation policies' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/approvals/escalation-policies - Create or update the policy of a stage
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManageApprovalMatrices(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = escalationPolicySchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const { stage, ...settings } = validation.data;
+
+    // Only include defined fields to handle exactOptionalPropertyTypes
+    const data: {
+      target?: string;
+      graceHours?: number;
+      extensionHours?: number;
+      maxEscalations?: number;
+      isActive?: boolean;
+    } = {};
+    if (settings.target !== undefined) data.target = settings.target;
+    if (settings.graceHours !== undefined) data.graceHours = settings.graceHours;
+    if (settings.extensionHours !== undefined) data.extensionHours = settings.extensionHours;
+    if (settings.maxEscalations !== undefined) data.maxEscalations = settings.maxEscalations;
+    if (settings.isActive !== undefined) data.isActive = settings.isActive;
+
+    const policy = await prisma.approvalEscalationPolicy.upsert({
+      where: { stage },
+      update: data,
+      create: { ...DEFAULT_ESCALATION_POLICY, ...data, stage },
+    });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'approval_escalation_policy',
+        entityId: policy.id,
+        description: `Updated approval escalation policy for ${stage}`,
+        userId: session.user.id,
+        metadata: { stage, ...data },
+      },
+    });
+
+    return NextResponse.json(policy);
+  } catch (error) {
+    logger.error('Error saving escalation policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to save escalation policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,12 +6,21 @@ import { getSession } from '@/lib/auth';
 import { ActivityType, ApprovalStatus } from '@/prisma/client';
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types';
+import {
+  delegationAttribution,
+  delegatorName,
+  findActiveDelegations,
+  recordDelegatedAction,
+  type ActiveDelegation,
+} from '@/lib/delegations';
 
 const updateApprovalSchema = z.object({
   decision: z.enum(ApprovalStatus),
   comments: z.string().optional(),
   conditions: z.array(z.string()).optional(),
   delegationTo: z.string().optional(),
+  // Approver to decide for, under a delegation; defaults to the user's own approval
+  onBehalfOf: z.string().optional(),
 });
 
 // GET /api/approvals/workflows/[id]/approvals - Get workflow approvals
@@ -38,6 +47,7 @@ export async function GET(
     const workflow = await prisma.approvalWorkflow.findUnique({
       where: { id},
       include: {
+        case: { select: { departmentId: true } },
         approvals: {
           include: {
             user: {
@@ -61,10 +71,17 @@ export async function GET(
       );
     }
 
-    // Check user permissions
+    // Check user permissions; delegates see the workflows of the approvers they stand in for
+    const delegations = await findActiveDelegations(session.user.id, {
+      stage: workflow.stage,
+      departmentId: workflow.case.departmentId,
+    });
     const hasAccess =
       workflow.initiatedBy === session.user.id ||
-      workflow.approvals.some(approval => approval.userId === session.user.id);
+      workflow.approvals.some(approval =>
+        approval.userId === session.user.id ||
+        delegations.some(delegation => delegation.delegatorId === approval.userId)
+      );
 
     if (!hasAccess) {
       const user = await prisma.user.findUnique({
@@ -133,15 +150,36 @@ export async function POST(
       );
     }
 
-    // Find or create user's approval
-    let approval = await prisma.approval.findUnique({
-      where: {
-        workflowId_userId: {
-          workflowId: id,
-          userId: session.user.id,
-        },
-      },
-    });
+    // Find the user's own approval, or a pending one of an approver who delegated to them
+    let approval = validatedData.onBehalfOf
+      ? null
+      : await prisma.approval.findUnique({
+          where: {
+            workflowId_userId: {
+              workflowId: id,
+              userId: session.user.id,
+            },
+          },
+        });
+    let delegation: ActiveDelegation | null = null;
+
+    if (!approval) {
+      const delegations = await findActiveDelegations(session.user.id, {
+        stage: workflow.stage,
+        departmentId: workflow.case.departmentId,
+      });
+      for (const candidate of delegations) {
+        if (validatedData.onBehalfOf && candidate.delegatorId !== validatedData.onBehalfOf) continue;
+        const delegated = workflow.approvals.find(
+          a => a.userId === candidate.delegatorId && a.decision === ApprovalStatus.PENDING
+        );
+        if (delegated) {
+          approval = delegated;
+          delegation = candidate;
+          break;
+        }
+      }
+    }
 
     if (!approval) {
       return NextResponse.json(
@@ -150,6 +188,13 @@ export async function POST(
       );
     }
 
+    if (approval.decision === ApprovalStatus.ESCALATED) {
+      return NextResponse.json(
+        { error: 'This approval was escalated to another approver' },
+        { status: 409 }
+      );
+    }
+
     // Update approval
     const responseTime = Math.floor(
       (new Date().getTime() - new Date(workflow.createdAt).getTime()) / (1000 * 60 * 60)
@@ -172,6 +217,9 @@ export async function POST(
 
     if (validatedData.delegationTo !== undefined) {
       updateData.delegationTo = validatedData.delegationTo;
+    } else if (delegation) {
+      // Keeps who actually decided on the approver's record
+      updateData.delegationTo = session.user.id;
     }
 
     approval = await prisma.approval.update({
@@ -232,23 +280,37 @@ export async function POST(
         action: ActivityType.APPROVED,
         entityType: 'approval',
         entityId: approval.id,
-        description: `Approval decision: ${validatedData.decision} for workflow: ${workflow.title}`,
+        description: `Approval decision: ${validatedData.decision} for workflow: ${workflow.title}` +
+          (delegation ? ` on behalf of ${delegatorName(delegation)}` : ''),
         userId: session.user.id,
         caseId: workflow.caseId,
         metadata: {
           workflowId: workflow.id,
           decision: validatedData.decision,
           comments: validatedData.comments,
+          ...(delegation && delegationAttribution(delegation)),
         },
       },
     });
 
+    if (delegation) {
+      await recordDelegatedAction({
+        delegation,
+        actorId: session.user.id,
+        caseId: workflow.caseId,
+        action: 'approval',
+        subject: `${validatedData.decision} en "${workflow.title}"`,
+        details: { workflowId: workflow.id, approvalId: approval.id, decision: validatedData.decision },
+      });
+    }
+
     return NextResponse.json({
       approval,
       workflowStatus,
       approvedCount,
       requiredApprovals: workflow.requiredApprovals,
       totalApprovals,
+      ...(delegation && { onBehalfOf: delegationAttribution(delegation) }),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
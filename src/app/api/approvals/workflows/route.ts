@@ -3,17 +3,21 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth';
-import { ActivityType, ApprovalStatus } from '@/prisma/client';
+import { ActivityType, ApprovalStatus, CaseStage, type Prisma } from '@/prisma/client';
 import { logger } from '@/lib/logger';
+import { notifyApprovalRequested } from '@/lib/services/notification.service';
+import { ApprovalMatrixError, resolveApprovalRequirement } from '@/lib/approvals';
 
 // Validation schemas
 const createWorkflowSchema = z.object({
   caseId: z.string(),
-  stage: z.string(),
+  stage: z.enum(CaseStage),
   workflowType: z.string(),
   title: z.string(),
   description: z.string().nullable(),
-  requiredApprovals: z.number().min(1),
+  // Only used with an explicit approvalMatrix, which only super admins may
+  // send; otherwise the persisted approval matrix decides
+  requiredApprovals: z.number().min(1).optional(),
   approvalMatrix: z.object({
     levels: z.array(z.object({
       level: z.number(),
@@ -54,13 +58,20 @@ export async function GET(request: NextRequest) {
     let workflows;
 
     if (userId === session.user.id) {
-      // Get workflows where user is approver or initiator
+      // Officials who currently delegate to the user; their stage and department limits are checked on decision
+      const now = new Date();
+      const delegations = await prisma.delegation.findMany({
+        where: { delegateId: session.user.id, isActive: true, startsAt: { lte: now }, endsAt: { gt: now } },
+        select: { delegatorId: true },
+      });
+
+      // Get workflows where user is approver or initiator, or stands in for an approver
       workflows = await prisma.approvalWorkflow.findMany({
         where: {
           ...where,
           OR: [
             { initiatedBy: session.user.id },
-            { approvals: { some: { userId: session.user.id } } },
+            { approvals: { some: { userId: { in: [session.user.id, ...delegations.map(d => d.delegatorId)] } } } },
           ],
         },
         include: {
@@ -179,18 +190,58 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Approvers and the approval count come from the persisted matrix; only
+    // super admins may set them by hand, and never to the initiator
+    const override = validatedData.approvalMatrix && {
+      ...validatedData.approvalMatrix,
+      levels: validatedData.approvalMatrix.levels.map(level => ({
+        ...level,
+        approvers: level.approvers.filter(userId => userId !== session.user.id),
+      })),
+    };
+    if (override && session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { error: 'Only super admins can choose the approvers of a workflow' },
+        { status: 403 }
+      );
+    }
+    if (override?.levels.some(level => level.approvers.length < level.requiredCount)) {
+      return NextResponse.json(
+        { error: 'Every level needs as many approvers, besides the initiator, as it requires' },
+        { status: 400 }
+      );
+    }
+
+    const requirement = override
+      ? null
+      : await resolveApprovalRequirement({
+          caseId: validatedData.caseId,
+          stage: validatedData.stage,
+          initiatedBy: session.user.id,
+        });
+    const levels: Array<{ level: number; approvers: string[]; requiredCount: number; conditions?: string[] | undefined }> =
+      override?.levels ?? requirement?.levels ?? [];
+    const requiredApprovals =
+      requirement?.requiredApprovals ??
+      validatedData.requiredApprovals ??
+      Math.max(levels.reduce((sum, level) => sum + level.requiredCount, 0), 1);
+    const approvalMatrix = requirement ?? override;
+    // A case whose applicable levels all auto-approve needs no approvers
+    const autoApproved = requirement !== null && requiredApprovals === 0;
+
     // Create approval workflow
     const workflow = await prisma.approvalWorkflow.create({
       data: {
         caseId: validatedData.caseId,
-        stage: validatedData.stage as any,
+        stage: validatedData.stage,
         workflowType: validatedData.workflowType,
         title: validatedData.title,
         description: validatedData.description,
-        requiredApprovals: validatedData.requiredApprovals,
-        approvalMatrix: validatedData.approvalMatrix as any,
+        requiredApprovals,
+        ...(approvalMatrix && { approvalMatrix: approvalMatrix as Prisma.InputJsonValue }),
         dueDate: validatedData.dueDate ? new Date(validatedData.dueDate) : null,
         initiatedBy: session.user.id,
+        ...(autoApproved && { status: ApprovalStatus.APPROVED, completedAt: new Date() }),
       },
       include: {
         case: {
@@ -211,24 +262,26 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Create approval assignments based on approval matrix
-    if (validatedData.approvalMatrix?.levels) {
-      const approvalData = validatedData.approvalMatrix.levels
-        .filter(level => level.approvers.length > 0)
-        .map(level => ({
+    // Create approval assignments based on approval matrix; a user approves once
+    const approvalData: Prisma.ApprovalCreateManyInput[] = [];
+    for (const level of levels) {
+      for (const userId of level.approvers) {
+        if (approvalData.some(approval => approval.userId === userId)) continue;
+        approvalData.push({
           workflowId: workflow.id,
-          userId: level.approvers[0]!, // Safe to use non-null assertion after filter
+          userId,
           approvalLevel: level.level,
           conditions: level.conditions || [],
-        }));
-
-      if (approvalData.length > 0) {
-        await prisma.approval.createMany({
-          data: approvalData,
         });
       }
     }
 
+    if (approvalData.length > 0) {
+      await prisma.approval.createMany({
+        data: approvalData,
+      });
+    }
+
     // Log activity
     await prisma.activity.create({
       data: {
@@ -241,11 +294,16 @@ export async function POST(request: NextRequest) {
         metadata: {
           workflowId: workflow.id,
           workflowType: validatedData.workflowType,
-          requiredApprovals: validatedData.requiredApprovals,
+          requiredApprovals,
+          ...(requirement && { approvalMatrixId: requirement.matrixId, amount: requirement.amount }),
         },
       },
     });
 
+    if (!autoApproved) {
+      await notifyApprovalRequested(workflow.id, session.user.id);
+    }
+
     // Fetch complete workflow with approvals
     const completeWorkflow = await prisma.approvalWorkflow.findUnique({
       where: { id: workflow.id },
@@ -290,6 +348,9 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (error instanceof ApprovalMatrixError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
 
     logger.error('Error creating approval workflow:', error);
     return NextResponse.json(
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { createPasswordResetToken, checkRateLimit } from '@/utils/auth-server';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { sendPasswordResetEmail } from '@/lib/services/notification.service';
 
 const forgotPasswordSchema = z.object({
   email: z.string().email('Correo electrónico inválido'),
@@ -42,25 +43,8 @@ export async function POST(request: NextRequest) {
     // Generate reset token
     const resetToken = await createPasswordResetToken(email);
 
-    // In a real implementation, you would send an email here
-    // For now, we'll log the token (remove this in production)
-    logger.info(`Password reset token for ${email}: ${resetToken}`);
-    logger.info(`Reset link: ${process.env.NEXTAUTH_URL}/reset-password?token=${resetToken}`);
-
-    // TODO: Send email with reset link
-    // Example using nodemailer or another email service:
-    /*
-    await sendEmail({
-      to: email,
-      subject: 'Restablecer contraseña - Plataforma MOPC',
-      template: 'password-reset',
-      data: {
-        userName: `${user.firstName} ${user.lastName}`,
-        resetLink: `${process.env.NEXTAUTH_URL}/reset-password?token=${resetToken}`,
-        departmentName: user.department.name,
-      },
-    });
-    */
+    await sendPasswordResetEmail(user, resetToken);
+    logger.info(`Password reset email queued for user ${user.id}`);
 
     return NextResponse.json({
       message: 'Si el correo electrónico está registrado, recibirás instrucciones para restablecer tu contraseña.',
@@ -6,8 +6,9 @@ import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { isAfter } from 'date-fns';
 import { logger } from '@/lib/logger';
-// Import centralized stage definitions
-import { STAGE_DEADLINES } from '@/constants/stages';
+import { computeStageSla, loadSlaContext, type SlaContext } from '@/lib/sla';
+import { STAGE_LABELS } from '@/constants/stages';
+import type { Prisma } from '@/prisma/client';
 
 const calendarSchema = z.object({
   start: z.iso.datetime(),
@@ -45,32 +46,59 @@ function getPriorityFromCase(casePriority: string): 'low' | 'medium' | 'high' |
   }
 }
 
+const CALENDAR_CASE_INCLUDE = {
+  assignedTo: {
+    select: {
+      firstName: true,
+      lastName: true
+    }
+  },
+  department: {
+    select: { name: true }
+  },
+  stageAssignments: {
+    where: { isActive: true },
+    select: { stage: true, assignedAt: true, dueDate: true }
+  }
+} as const satisfies Prisma.CaseInclude;
+
+type CalendarCase = Prisma.CaseGetPayload<{ include: typeof CALENDAR_CASE_INCLUDE }>;
+
 // Helper function to calculate deadlines based on case stages
-function calculateStageDeadlines(currentCase: any): CalendarEvent[] {
+function calculateStageDeadlines(currentCase: CalendarCase, slaContext: SlaContext): CalendarEvent[] {
   const events: CalendarEvent[] = [];
   const now = new Date();
 
-  // Add deadline for current stage
-  const stage = currentCase.currentStage as keyof typeof STAGE_DEADLINES;
-  if (stage && STAGE_DEADLINES[stage]) {
-    const deadlineDate = new Date(currentCase.updatedAt);
-    deadlineDate.setDate(deadlineDate.getDate() + STAGE_DEADLINES[stage]!);
-
-    if (isAfter(deadlineDate, now)) {
-      events.push({
-        id: `deadline-${currentCase.id}`,
-        title: `Plazo: ${currentCase.currentStage.replace(/_/g, ' ')}`,
-        date: deadlineDate.toISOString(),
-        type: 'deadline',
-        priority: getPriorityFromCase(currentCase.priority),
-        status: isAfter(deadlineDate, now) ? 'pending' : 'overdue',
-        description: `Plazo para completar la etapa actual del caso ${currentCase.fileNumber}`,
-        caseId: currentCase.id,
-        caseNumber: currentCase.fileNumber,
-        assignedTo: `${currentCase.assignedTo?.firstName} ${currentCase.assignedTo?.lastName}`.trim(),
-        department: currentCase.department?.name,
-      });
-    }
+  // Add deadline for current stage, in business time from its SLA
+  const assignment = currentCase.stageAssignments.find(
+    (stageAssignment) => stageAssignment.stage === currentCase.currentStage
+  );
+  if (assignment) {
+    const sla = computeStageSla(
+      slaContext,
+      {
+        stage: currentCase.currentStage,
+        departmentId: currentCase.departmentId,
+        startedAt: assignment.assignedAt,
+        dueDate: assignment.dueDate,
+      },
+      now
+    );
+    const atRisk = sla.status === 'critical' || sla.status === 'overdue';
+
+    events.push({
+      id: `deadline-${currentCase.id}`,
+      title: `Plazo: ${STAGE_LABELS[sla.stage]}`,
+      date: sla.dueDate.toISOString(),
+      type: 'deadline',
+      priority: atRisk ? 'urgent' : getPriorityFromCase(currentCase.priority),
+      status: sla.status === 'overdue' ? 'overdue' : 'pending',
+      description: `Plazo para completar la etapa actual del caso ${currentCase.fileNumber} (${sla.elapsedHours} de ${sla.maxTimeHours} horas${sla.businessDaysOnly ? ' hábiles' : ''})`,
+      caseId: currentCase.id,
+      caseNumber: currentCase.fileNumber,
+      assignedTo: `${currentCase.assignedTo?.firstName} ${currentCase.assignedTo?.lastName}`.trim(),
+      department: currentCase.department?.name,
+    });
   }
 
   // Add expected end date if exists
@@ -241,22 +269,13 @@ export async function GET(request: NextRequest) {
           ]
         })
       },
-      include: {
-        assignedTo: {
-          select: {
-            firstName: true,
-            lastName: true
-          }
-        },
-        department: {
-          select: { name: true }
-        }
-      }
+      include: CALENDAR_CASE_INCLUDE
     });
 
     // Process cases to extract events
+    const slaContext = await loadSlaContext();
     for (const case_ of cases) {
-      const caseEvents = calculateStageDeadlines(case_);
+      const caseEvents = calculateStageDeadlines(case_, slaContext);
       events.push(...caseEvents);
     }
 
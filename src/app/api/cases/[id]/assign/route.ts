@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { logActivity } from '@/lib/activity-logger'
+import { notifyCaseAssigned } from '@/lib/services/notification.service'
 import { CaseAssignmentSchema } from '@/lib/validations/case'
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types'
@@ -236,6 +237,15 @@ export async function PUT(
       }
     })
 
+    // Only people who are new to the case get an email
+    await notifyCaseAssigned({
+      caseId: updatedCase.id,
+      assignedToId: changes.assignedTo ? assignedToId : null,
+      supervisedById: changes.supervisedBy ? supervisedById : null,
+      actorId: user.id,
+      reason
+    })
+
     return NextResponse.json(updatedCase)
   } catch (error) {
     logger.error('Error updating case assignment:', error)
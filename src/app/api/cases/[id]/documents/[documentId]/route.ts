@@ -2,7 +2,6 @@ import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import path from 'path';
-import fs from 'fs/promises';
 import crypto from 'crypto';
 import archiver from 'archiver';
 
@@ -10,6 +9,15 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types';
+import { getDocumentFile, readDocumentFile } from '@/lib/document-encryption';
+import { storedFileExists } from '@/lib/storage';
+import {
+  DENIED_ACCESS_MESSAGES,
+  authorizeDocumentAccess,
+  documentCacheControl,
+  documentPermissionsFor,
+} from '@/lib/document-access';
+import { DocumentStorageType } from '@/prisma/client';
 
 type DocumentInfo = {
   id: string;
@@ -23,9 +31,11 @@ type DocumentInfo = {
   originalFileName?: string | null;
   documentId?: string | null;
   createdBy?: string | null;
+  storageType?: DocumentStorageType;
   document?: {
     securityLevel: string;
     caseId: string | null;
+    storageType: DocumentStorageType;
   };
 };
 
@@ -52,58 +62,56 @@ export async function GET(
     const action = searchParams.get('action') || 'preview'; // preview or download
     const format = searchParams.get('format') || 'original'; // original, pdf, zip
 
-    // Verify case and document exist and user has access
-    const [case_, document] = await Promise.all([
+    // Verify case and document exist; versions are authorized as their document
+    const [case_, document, accessDocument] = await Promise.all([
       prisma.case.findUnique({
         where: { id: caseId },
+        select: { id: true },
+      }),
+      getDocumentInfo(documentId, version),
+      prisma.document.findUnique({
+        where: { id: documentId },
         select: {
           id: true,
-          departmentId: true,
-          createdById: true,
-          assignedToId: true,
-          supervisedById: true,
+          uploadedById: true,
+          isPublic: true,
+          securityLevel: true,
+          permissions: documentPermissionsFor(session.user),
         },
       }),
-      getDocumentInfo(documentId, version),
     ]);
 
     if (!case_ && !document) {
       return NextResponse.json({ error: 'Case and document not found' }, { status: 404 });
     } else if (!case_) {
       return NextResponse.json({ error: 'Case not found' }, { status: 404 });
-    } else if (!document) {
+    } else if (!document || !accessDocument) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
     // Extract document metadata
-    const { caseId: docCaseId, securityLevel, uploadedById, fileName: originalFileName } = extractDocumentMetadata(document, version);
+    const { caseId: docCaseId, fileName: originalFileName, storageType } = extractDocumentMetadata(document, version);
 
     // Verify case ownership
     if (docCaseId !== caseId) {
       return NextResponse.json({ error: 'Document does not belong to this case' }, { status: 400 });
     }
 
-    // Check access permissions
-    const hasAccess =
-      case_.createdById === session.user.id ||
-      case_.assignedToId === session.user.id ||
-      case_.supervisedById === session.user.id ||
-      uploadedById === session.user.id ||
-      await hasDepartmentAccess(session.user.id, case_.departmentId);
-
-    if (!hasAccess && securityLevel !== 'PUBLIC') {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    // Check permissions and security clearance
+    const access = await authorizeDocumentAccess(session.user, accessDocument, action === 'download' ? 'download' : 'view', {
+      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+    });
+    if (!access.allowed) {
+      return NextResponse.json({ error: DENIED_ACCESS_MESSAGES[access.reason] }, { status: 403 });
     }
 
     // Check if file exists
-    const filePath = path.join(process.cwd(), document.filePath);
-    try {
-      await fs.access(filePath);
-    } catch {
+    if (!(await storedFileExists({ filePath: document.filePath, storageType }))) {
       return NextResponse.json({ error: 'File not found' }, { status: 404 });
     }
 
-    let fileBuffer = await fs.readFile(filePath);
+    // Version files are encrypted under the key of their document
+    let fileBuffer = await readDocumentFile(await getDocumentFile(documentId, document.filePath));
     let mimeType = document.mimeType;
     let fileName = originalFileName;
 
@@ -173,7 +181,7 @@ export async function GET(
             'Content-Type': mimeType,
             'Content-Disposition': `inline; filename="${document.fileName}"`,
             'Content-Length': fileBuffer.length.toString(),
-            'Cache-Control': 'public, max-age=3600',
+            'Cache-Control': documentCacheControl(accessDocument.securityLevel, 'public, max-age=3600'),
           },
         });
       } else {
@@ -243,28 +251,6 @@ async function convertDocumentFormat(
   }
 }
 
-async function hasDepartmentAccess(userId: string, departmentId: string): Promise<boolean> {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: {
-      departmentId: true,
-      role: {
-        select: { permissions: true }
-      }
-    },
-  });
-
-  if (!user) return false;
-
-  const sameDepartment = user.departmentId === departmentId;
-  const permissions = user.role?.permissions as any;
-  const hasAdminAccess = permissions?.admin ||
-                        permissions?.allDepartments ||
-                        permissions?.viewAllCases;
-
-  return sameDepartment || hasAdminAccess;
-}
-
 async function getDocumentInfo(documentId: string, version?: string | null): Promise<DocumentInfo | null> {
   if (version) {
     return prisma.documentVersion.findUnique({
@@ -283,6 +269,7 @@ async function getDocumentInfo(documentId: string, version?: string | null): Pro
           select: {
             securityLevel: true,
             caseId: true,
+            storageType: true,
           },
         },
       },
@@ -300,6 +287,7 @@ async function getDocumentInfo(documentId: string, version?: string | null): Pro
         caseId: true,
         uploadedById: true,
         securityLevel: true,
+        storageType: true,
       },
     });
 
@@ -315,14 +303,13 @@ async function getDocumentInfo(documentId: string, version?: string | null): Pro
 
 function extractDocumentMetadata(document: DocumentInfo, version?: string | null) {
   const caseId = version ? document.document?.caseId : document.caseId;
-  const securityLevel = version ? document.document?.securityLevel : document.securityLevel;
-  const uploadedById = version ? undefined : document.uploadedById;
   const fileName = document.originalFileName || document.fileName;
+  // Version files are stored with their document
+  const storageType = (version ? document.document?.storageType : document.storageType) ?? DocumentStorageType.LOCAL;
 
   return {
     caseId: caseId || '',
-    securityLevel: securityLevel || '',
-    uploadedById,
     fileName,
+    storageType,
   };
 }
\ No newline at end of file
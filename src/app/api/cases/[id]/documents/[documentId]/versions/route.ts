@@ -7,6 +7,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { createDocumentVersion } from '@/lib/documents';
+import { StorageError } from '@/lib/storage';
 import { URLParams } from '@/types';
 
 // Validation schemas
@@ -365,6 +366,9 @@ export async function POST(
       version: newVersion,
     }, { status: 201 });
   } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     logger.error('Error creating document version:', error);
     return NextResponse.json(
       { error: 'Failed to create document version' },
@@ -115,6 +115,8 @@ export async function GET(
     // Get documents with pagination
     const documents = await prisma.document.findMany({
       where,
+      // Extracted text is only served by search, which checks clearance
+      omit: { contentText: true },
       include: {
         uploadedBy: {
           select: {
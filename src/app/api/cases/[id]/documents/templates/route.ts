@@ -1,13 +1,14 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import fs from 'fs/promises';
 import path from 'path';
 
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types';
+import { documentEncryptionFor, writeDocumentFile } from '@/lib/document-encryption';
+import { getDefaultStorageTier, storageFieldsFor } from '@/lib/storage';
 
 // Define document templates for different stages and document types
 const DOCUMENT_TEMPLATES = {
@@ -391,19 +392,13 @@ export async function POST(
 
     // Create a temporary document file
     const fileName = `${template.title.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.docx`;
-    const tempDir = path.join(process.cwd(), 'temp');
+    const filePath = path.join('temp', fileName);
+    const storageType = getDefaultStorageTier();
 
-    try {
-      await fs.access(tempDir);
-    } catch {
-      await fs.mkdir(tempDir, { recursive: true });
-    }
-
-    const filePath = path.join(tempDir, fileName);
-
-    // For now, create a simple text file
+    // For now, create a simple text file, encrypted like uploads of the same level
     // TODO: Implement proper document generation (DOCX, PDF)
-    await fs.writeFile(filePath, content, 'utf-8');
+    const encryption = documentEncryptionFor(template.securityLevel);
+    await writeDocumentFile({ filePath, storageType }, Buffer.from(content, 'utf-8'), encryption.encryptionKey);
 
     // Create document record
     const document = await prisma.document.create({
@@ -412,13 +407,15 @@ export async function POST(
         description: customizations?.description || template.description,
         fileName: fileName,
         originalFileName: `${template.title}.docx`,
-        filePath: path.relative(process.cwd(), filePath),
-        fileSize: (await fs.stat(filePath)).size,
+        filePath,
+        fileSize: Buffer.byteLength(content, 'utf-8'),
         mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
         documentType: template.type as any,
         category: template.category as any,
         status: 'DRAFT',
         securityLevel: template.securityLevel as any,
+        ...encryption,
+        ...storageFieldsFor(storageType, filePath),
         version: 1,
         isLatest: true,
         isDraft: true,
@@ -0,0 +1,82 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { UpdatePartyPaymentSchema } from '@/lib/validations/case-party';
+import { PartyError, canEditCaseParties, updatePartyPayment } from '@/lib/parties';
+
+// PATCH /api/cases/[id]/parties/[partyId] - Update the compensation payment of one party
+export async function PATCH(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id, partyId } = await params;
+  if (!id || !partyId) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = UpdatePartyPaymentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id, deletedAt: null },
+      select: {
+        fileNumber: true,
+        departmentId: true,
+        createdById: true,
+        assignedToId: true,
+        supervisedById: true,
+      },
+    });
+    if (!caseRecord) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+    if (!canEditCaseParties(session.user, caseRecord)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to update this case' },
+        { status: 403 }
+      );
+    }
+
+    const party = await updatePartyPayment(id, partyId, validation.data, session.user.id);
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'case',
+        entityId: id,
+        description: `Set payment of ${party.name} on case ${caseRecord.fileNumber} to ${party.paymentStatus}`,
+        userId: session.user.id,
+        caseId: id,
+        metadata: { partyId, paymentStatus: party.paymentStatus, compensationShare: party.compensationShare },
+      },
+    });
+
+    return NextResponse.json(party);
+  } catch (error) {
+    if (error instanceof PartyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error updating party payment:', error);
+    return NextResponse.json(
+      { error: 'Failed to update party payment' },
+      { status: 500 }
+    );
+  }
+}
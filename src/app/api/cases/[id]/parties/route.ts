@@ -0,0 +1,130 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { CasePartiesSchema } from '@/lib/validations/case-party';
+import {
+  PartyError,
+  canEditCaseParties,
+  canViewCaseParties,
+  findCaseParties,
+  replaceCaseParties,
+} from '@/lib/parties';
+
+const CASE_ACCESS_SELECT = {
+  id: true,
+  fileNumber: true,
+  departmentId: true,
+  createdById: true,
+  assignedToId: true,
+  supervisedById: true,
+} as const;
+
+// GET /api/cases/[id]/parties - Owners, co-owners, heirs and other right holders of a case
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id, deletedAt: null },
+      select: CASE_ACCESS_SELECT,
+    });
+    if (!caseRecord) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+    if (!canViewCaseParties(session.user, caseRecord)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return NextResponse.json(await findCaseParties(id));
+  } catch (error) {
+    logger.error('Error fetching case parties:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch case parties' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/cases/[id]/parties - Replace the parties of a case
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = CasePartiesSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id, deletedAt: null },
+      select: CASE_ACCESS_SELECT,
+    });
+    if (!caseRecord) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+    if (!canEditCaseParties(session.user, caseRecord)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to update this case' },
+        { status: 403 }
+      );
+    }
+
+    const parties = await replaceCaseParties(id, validation.data.parties, session.user.id);
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'case',
+        entityId: id,
+        description: `Updated parties of case ${caseRecord.fileNumber} (${parties.length})`,
+        userId: session.user.id,
+        caseId: id,
+        metadata: { parties: parties.map(party => ({ id: party.id, name: party.name, role: party.role })) },
+      },
+    });
+
+    return NextResponse.json(parties);
+  } catch (error) {
+    if (error instanceof PartyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error updating case parties:', error);
+    return NextResponse.json(
+      { error: 'Failed to update case parties' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { PaymentActionSchema } from '@/lib/validations/payment';
+import { PaymentError, applyPaymentAction, canManageCasePayments } from '@/lib/payments';
+
+// PATCH /api/cases/[id]/payments/[paymentId] - Record the libramiento, the cheque, its delivery or a cancellation
+export async function PATCH(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id, paymentId } = await params;
+  if (!id || !paymentId) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = PaymentActionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id, deletedAt: null },
+      select: {
+        fileNumber: true,
+        departmentId: true,
+        createdById: true,
+        assignedToId: true,
+        supervisedById: true,
+      },
+    });
+    if (!caseRecord) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+    if (!canManageCasePayments(session.user, caseRecord)) {
+      return NextResponse.json({ error: 'Insufficient permissions to record payments' }, { status: 403 });
+    }
+
+    const payment = await applyPaymentAction(id, paymentId, validation.data, session.user.id);
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.FINANCIAL_UPDATED,
+        entityType: 'case',
+        entityId: id,
+        description: `Payment ${paymentId} on case ${caseRecord.fileNumber} is now ${payment.status}`,
+        userId: session.user.id,
+        caseId: id,
+        metadata: {
+          paymentId,
+          action: validation.data.action,
+          status: payment.status,
+          libramientoNumber: payment.libramientoNumber,
+          chequeNumber: payment.chequeNumber,
+          chequeAmount: payment.chequeAmount,
+        },
+      },
+    });
+
+    return NextResponse.json(payment);
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error updating case payment:', error);
+    return NextResponse.json(
+      { error: 'Failed to update payment' },
+      { status: 500 }
+    );
+  }
+}
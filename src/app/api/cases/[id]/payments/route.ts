@@ -0,0 +1,145 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { CreatePaymentSchema } from '@/lib/validations/payment';
+import {
+  PaymentError,
+  canManageCasePayments,
+  canViewCasePayments,
+  createPayment,
+  findCasePayments,
+  reconcileCasePayments,
+} from '@/lib/payments';
+
+const CASE_ACCESS_SELECT = {
+  id: true,
+  fileNumber: true,
+  departmentId: true,
+  createdById: true,
+  assignedToId: true,
+  supervisedById: true,
+} as const;
+
+// GET /api/cases/[id]/payments - Payments of a case and their reconciliation
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id, deletedAt: null },
+      select: CASE_ACCESS_SELECT,
+    });
+    if (!caseRecord) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+    if (!canViewCasePayments(session.user, caseRecord)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const [payments, reconciliation] = await Promise.all([
+      findCasePayments(id),
+      reconcileCasePayments(id),
+    ]);
+
+    return NextResponse.json({
+      payments,
+      reconciliation,
+      canManage: canManageCasePayments(session.user, caseRecord),
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error fetching case payments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch case payments' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cases/[id]/payments - Commit budget (preventivo) for a payment
+export async function POST(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = CreatePaymentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id, deletedAt: null },
+      select: CASE_ACCESS_SELECT,
+    });
+    if (!caseRecord) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+    if (!canManageCasePayments(session.user, caseRecord)) {
+      return NextResponse.json({ error: 'Insufficient permissions to record payments' }, { status: 403 });
+    }
+
+    const payment = await createPayment(id, validation.data, session.user.id);
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.FINANCIAL_UPDATED,
+        entityType: 'case',
+        entityId: id,
+        description: `Committed payment of ${payment.amount} ${payment.currency} on case ${caseRecord.fileNumber}`,
+        userId: session.user.id,
+        caseId: id,
+        metadata: {
+          paymentId: payment.id,
+          amount: payment.amount,
+          partyId: payment.partyId,
+          commitmentNumber: payment.commitmentNumber,
+        },
+      },
+    });
+
+    return NextResponse.json(payment, { status: 201 });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error creating case payment:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import { logActivity } from '@/lib/activity-logger'
 import { logger } from '@/lib/logger'
 import { UpdateCaseSchema } from '@/lib/validations/case'
 import { URLParams } from '@/types'
+import { PARTY_ORDER, PartyError, assertPartySharesFit, replaceCaseParties } from '@/lib/parties'
 
 // GET /api/cases/[id] - Get a specific case
 export async function GET(
@@ -48,6 +49,16 @@ export async function GET(
             description: true
           }
         },
+        project: {
+          select: {
+            id: true,
+            code: true,
+            name: true
+          }
+        },
+        parties: {
+          orderBy: PARTY_ORDER
+        },
         createdBy: {
           select: {
             id: true,
@@ -79,6 +90,7 @@ export async function GET(
           where: {
             status: { not: 'ARCHIVED' } // Exclude archived documents
           },
+          omit: { contentText: true }, // Extracted text is only served by search
           include: {
             uploadedBy: {
               select: {
@@ -210,7 +222,7 @@ export async function PUT(
       )
     }
 
-    const updateData = validationResult.data
+    const { parties, ...updateData } = validationResult.data
 
     // Get user to check permissions
     const user = await prisma.user.findUnique({
@@ -302,6 +314,28 @@ export async function PUT(
       }
     }
 
+    if (updateData.projectId && updateData.projectId !== existingCase.projectId) {
+      const project = await prisma.project.findUnique({
+        where: { id: updateData.projectId, deletedAt: null }
+      })
+
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+      }
+
+      if (project.departmentId !== (updateData.departmentId || existingCase.departmentId)) {
+        return NextResponse.json(
+          { error: 'Project must belong to the case department' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Checked up front so a rejected party list leaves the case untouched
+    if (parties) {
+      assertPartySharesFit(parties, updateData.compensationAmount ?? existingCase.compensationAmount)
+    }
+
     // Track changes for history
     const changes: Record<string, { from: any; to: any }> = {}
     Object.keys(updateData).forEach(key => {
@@ -385,8 +419,16 @@ export async function PUT(
       })
     }
 
+    // Parties last, so the owner fields end up mirroring the primary party
+    if (parties) {
+      await replaceCaseParties(updatedCase.id, parties, user.id)
+    }
+
     return NextResponse.json(updatedCase)
   } catch (error) {
+    if (error instanceof PartyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     logger.error('Error updating case:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -10,15 +10,16 @@ import {
   getCaseWithAssignments,
   getStageConfigurations,
   validateChecklistCompletion,
-  createStageProgression,
-  updateCaseStage,
-  deactivateStageAssignment,
-  createStageAssignment,
-  handleAutoAssignment,
-  logStageTransitionActivity,
+  validateStageRules,
+  checkValidationOverridePermission,
+  applyStageTransition,
   handleApiError,
+  type StageRuleOverride,
+  type StageRuleResult,
   type StageTransitionData
 } from '@/lib/services/stage-transition.service';
+import { notifyStageTransition } from '@/lib/services/notification.service';
+import { finalStagePaymentBlock } from '@/lib/payments';
 import { URLParams } from '@/types';
 
 const progressionSchema = z.object({
@@ -26,6 +27,7 @@ const progressionSchema = z.object({
   reason: z.string().optional(),
   observations: z.string().optional(),
   approvedBy: z.string().optional(),
+  overrideJustification: z.string().trim().min(10, 'La justificación debe tener al menos 10 caracteres').optional(),
 });
 
 const returnSchema = z.object({
@@ -57,6 +59,9 @@ function convertToStageTransitionData(
   if (validatedData.approvedBy !== undefined) {
     result.approvedBy = validatedData.approvedBy;
   }
+  if ('overrideJustification' in validatedData && validatedData.overrideJustification !== undefined) {
+    result.overrideJustification = validatedData.overrideJustification;
+  }
 
   return result;
 }
@@ -162,7 +167,8 @@ export async function POST(
     }
 
     // Check permissions
-    if (!checkStageTransitionPermission(user, currentCase)) {
+    const permission = await checkStageTransitionPermission(user, currentCase);
+    if (!permission.allowed) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -200,74 +206,79 @@ export async function POST(
       }
     }
 
-    // Calculate duration at current stage
-    let duration: number | undefined = undefined;
-    if (fromStageConfig && currentCase.stageAssignments) {
-      const currentAssignment = currentCase.stageAssignments.find(
-        assignment => assignment.stage === currentCase.currentStage && assignment.isActive
-      );
-      if (currentAssignment) {
-        duration = Math.floor(
-          (Date.now() - currentAssignment.assignedAt.getTime()) / (1000 * 60 * 60 * 24)
-        );
-      }
+    // The case completes at ENTREGA_CHEQUE, which waits for reconciled payments
+    const paymentBlock = await finalStagePaymentBlock(caseId, validatedData.toStage);
+    if (paymentBlock) {
+      return NextResponse.json({
+        error: 'Cannot progress to next stage',
+        message: 'Payments are not reconciled with the compensation amount',
+        reconciliation: paymentBlock
+      }, { status: 400 });
     }
 
     // Convert validated data to proper format for service functions
     const transitionData = convertToStageTransitionData(validatedData);
 
-    // Create stage progression record
-    const progression = await createStageProgression(
-      caseId,
-      currentCase.currentStage,
-      validatedData.toStage,
-      progressionType,
-      transitionData,
-      request,
-      duration
-    );
+    // ERROR rules for the current stage block the transition unless overridden
+    let ruleValidation: { warnings: StageRuleResult[]; override?: StageRuleOverride } | undefined;
+    if (progressionType !== 'BACKWARD') {
+      const { blocking, warnings } = await validateStageRules(caseId, user.id);
+      ruleValidation = { warnings };
+
+      if (blocking.length > 0) {
+        const canOverride = checkValidationOverridePermission(user);
+        const justification = transitionData.overrideJustification;
+
+        if (!justification) {
+          return NextResponse.json({
+            error: 'Cannot progress to next stage',
+            message: 'Required validation rules are not satisfied',
+            failedRules: blocking,
+            warnings,
+            canOverride
+          }, { status: 400 });
+        }
 
-    // Update case current stage
-    const updatedCase = await updateCaseStage(
-      caseId,
-      validatedData.toStage,
-      validatedData.toStage === CaseStage.ENTREGA_CHEQUE ? 'COMPLETADO' : 'EN_PROGRESO'
-    );
+        if (!canOverride) {
+          return NextResponse.json({
+            error: 'Forbidden',
+            message: 'Insufficient permissions to override validation rules',
+            failedRules: blocking
+          }, { status: 403 });
+        }
 
-    // Deactivate current stage assignment
-    if (fromStageConfig) {
-      await deactivateStageAssignment(caseId, currentCase.currentStage);
+        ruleValidation.override = { userId: user.id, justification, rules: blocking };
+      }
     }
 
-    // Create new stage assignment
-    const newStageAssignment = await createStageAssignment(
-      caseId,
-      validatedData.toStage,
-      user.id,
+    const { progression, updatedCase, newStageAssignment } = await applyStageTransition({
+      caseData: currentCase,
+      fromStageConfig,
       toStageConfig,
-      validatedData.reason
-    );
-
-    // Handle auto-assignment
-    await handleAutoAssignment(caseId, toStageConfig);
-
-    // Log activity
-    await logStageTransitionActivity(
-      user.id,
-      caseId,
-      currentCase.fileNumber,
-      currentCase.currentStage,
-      validatedData.toStage,
       progressionType,
       transitionData,
-      progression.id
-    );
+      userId: user.id,
+      request,
+      ruleValidation,
+      delegation: permission.delegation
+    });
+
+    await notifyStageTransition({
+      caseId,
+      fromStage: currentCase.currentStage,
+      toStage: validatedData.toStage,
+      isReturn: progressionType === 'BACKWARD',
+      actorId: user.id,
+      reason: validatedData.reason,
+      observations: validatedData.observations
+    });
 
     return NextResponse.json({
       success: true,
       progression,
       updatedCase,
-      newStageAssignment
+      newStageAssignment,
+      validationWarnings: ruleValidation?.warnings ?? []
     });
 
   } catch (error: any) {
@@ -20,6 +20,7 @@ import {
   type StageTransitionData,
   type CaseWithAssignments
 } from '@/lib/services/stage-transition.service';
+import { notifyStageTransition } from '@/lib/services/notification.service';
 import { URLParams } from '@/types';
 
 const stageReturnSchema = z.object({
@@ -58,6 +59,7 @@ export async function GET(
       where: { id: caseId },
       select: {
         id: true,
+        currentStage: true,
         assignedToId: true,
         departmentId: true
       }
@@ -67,7 +69,7 @@ export async function GET(
       return NextResponse.json({ error: 'Case not found' }, { status: 404 });
     }
 
-    if (!checkStageTransitionPermission(user, caseData as CaseWithAssignments)) {
+    if (!(await checkStageTransitionPermission(user, caseData as CaseWithAssignments)).allowed) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -107,7 +109,8 @@ export async function POST(
     }
 
     // Check permissions
-    if (!checkStageTransitionPermission(user, caseData)) {
+    const permission = await checkStageTransitionPermission(user, caseData);
+    if (!permission.allowed) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -187,7 +190,6 @@ export async function POST(
       caseId,
       validatedData.toStage,
       user.id,
-      toStageConfig,
       `Caso devuelto desde ${fromStageConfig.name}: ${validatedData.reason}`
     );
 
@@ -203,7 +205,8 @@ export async function POST(
       validatedData.toStage,
       'BACKWARD',
       transitionData,
-      progression.id
+      progression.id,
+      permission.delegation
     );
 
     // Create case history record
@@ -219,6 +222,18 @@ export async function POST(
       duration
     );
 
+    if (validatedData.notifyStakeholders) {
+      await notifyStageTransition({
+        caseId,
+        fromStage: caseData.currentStage,
+        toStage: validatedData.toStage,
+        isReturn: true,
+        actorId: user.id,
+        reason: validatedData.reason,
+        observations: validatedData.observations
+      });
+    }
+
     return NextResponse.json({
       success: true,
       progression,
@@ -6,6 +6,7 @@ import { prisma } from '@/lib/prisma'
 import { logActivity } from '@/lib/activity-logger'
 import { CaseStageUpdateSchema } from '@/lib/validations/case'
 import { calculateProgressPercentage, isValidStageTransition } from '@/lib/stage-utils'
+import { finalStagePaymentBlock } from '@/lib/payments'
 import { URLParams } from '@/types';
 
 // PUT /api/cases/[id]/stage - Update case stage
@@ -89,6 +90,18 @@ export async function PUT(
       )
     }
 
+    // The case completes at ENTREGA_CHEQUE, which waits for reconciled payments
+    const paymentBlock = await finalStagePaymentBlock(caseId, stage)
+    if (paymentBlock) {
+      return NextResponse.json(
+        {
+          error: 'Payments are not reconciled with the compensation amount',
+          reconciliation: paymentBlock
+        },
+        { status: 400 }
+      )
+    }
+
     // Calculate duration in current stage
     const stageStartDate = existingCase.updatedAt // This is approximate, in production you'd track actual stage start dates
     const durationInDays = Math.floor((new Date().getTime() - stageStartDate.getTime()) / (1000 * 60 * 60 * 24))
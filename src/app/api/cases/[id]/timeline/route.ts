@@ -3,14 +3,14 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { CaseStage } from '@/prisma/client';
+import { CaseStage, type Prisma } from '@/prisma/client';
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types';
 import { STAGE_LABELS } from '@/constants/stages';
 
 interface TimelineEvent {
   id: string;
-  type: 'stage_start' | 'stage_complete' | 'stage_return' | 'document_upload' | 'assignment_change' | 'note_added';
+  type: 'stage_start' | 'stage_complete' | 'stage_return' | 'document_upload' | 'assignment_change' | 'note_added' | 'delegated_action';
   stage?: CaseStage;
   stageName?: string;
   title: string;
@@ -27,6 +27,10 @@ interface TimelineEvent {
   isCurrent: boolean;
 }
 
+type TimelineHistory = Prisma.CaseHistoryGetPayload<{
+  include: { changedBy: { select: { id: true; firstName: true; lastName: true; email: true } } };
+}>;
+
 interface TimelineStage {
   stage: CaseStage;
   name: string;
@@ -179,6 +183,7 @@ export async function GET(
           }
         },
         documents: {
+          omit: { contentText: true }, // Extracted text is only served by search
           include: {
             uploadedBy: {
               select: {
@@ -505,6 +510,37 @@ function buildTimeline(caseData: any, allStages: any[]): TimelineResponse {
       });
     });
 
+  // Add actions taken under a delegation, attributed to both the delegate and the delegator
+  caseData.histories
+    .filter((history: TimelineHistory) => history.action === 'delegated_action')
+    .forEach((history: TimelineHistory) => {
+      let attribution: Record<string, unknown> = {};
+      try {
+        attribution = history.newValue ? (JSON.parse(history.newValue) as Record<string, unknown>) : {};
+      } catch {
+        // Keep the event even if its attribution cannot be read
+      }
+      allEvents.push({
+        id: `delegation-${history.id}`,
+        type: 'delegated_action',
+        title: 'Acción delegada',
+        description: history.notes || 'Acción realizada en nombre de otro funcionario',
+        timestamp: history.createdAt,
+        user: {
+          id: history.changedBy.id,
+          name: `${history.changedBy.firstName} ${history.changedBy.lastName}`,
+          email: history.changedBy.email
+        },
+        metadata: {
+          action: history.field,
+          ...attribution,
+          reason: history.reason
+        },
+        isCompleted: true,
+        isCurrent: false
+      });
+    });
+
   // Sort all events by timestamp
   allEvents.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 
@@ -5,6 +5,7 @@ import { prisma } from '@/lib/prisma'
 import { logActivity } from '@/lib/activity-logger'
 import { logger } from '@/lib/logger'
 import { CreateCaseSchema, CaseSearchSchema } from '@/lib/validations/case'
+import { PartyError, casePartiesCreateData, partyMatchConditions } from '@/lib/parties'
 import { type Prisma } from '@/prisma/client';
 
 // GET /api/cases - List cases with filtering and pagination
@@ -44,6 +45,7 @@ export async function GET(request: NextRequest) {
       ownerName,
       propertyAddress,
       fileNumber,
+      projectId,
       page,
       limit,
       sortBy,
@@ -74,7 +76,7 @@ export async function GET(request: NextRequest) {
         { fileNumber: { contains: query, mode: 'insensitive' } },
         { title: { contains: query, mode: 'insensitive' } },
         { description: { contains: query, mode: 'insensitive' } },
-        { ownerName: { contains: query, mode: 'insensitive' } },
+        ...partyMatchConditions(query),
         { propertyAddress: { contains: query, mode: 'insensitive' } }
       ]
     }
@@ -85,9 +87,11 @@ export async function GET(request: NextRequest) {
     if (departmentId) {where.departmentId = departmentId}
     if (assignedToId) {where.assignedToId = assignedToId}
     if (createdBy) {where.createdById = createdBy}
-    if (ownerName) {where.ownerName = { contains: ownerName, mode: 'insensitive' }}
+    // Any party of the case, not just the primary owner
+    if (ownerName) {where.AND = [{ OR: partyMatchConditions(ownerName) }]}
     if (propertyAddress) {where.propertyAddress = { contains: propertyAddress, mode: 'insensitive' }}
     if (fileNumber) {where.fileNumber = { contains: fileNumber, mode: 'insensitive' }}
+    if (projectId) {where.projectId = projectId}
 
     // Date filters
     if (startDateFrom || startDateTo) {
@@ -114,6 +118,7 @@ export async function GET(request: NextRequest) {
     if (role !== 'SUPER_ADMIN') {
       // Non-super admins can only see cases from their department or assigned to them
       where.AND = [
+        ...(where.AND ?? []),
         {
           OR: [
             { departmentId: user.departmentId },
@@ -229,7 +234,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const caseData = validationResult.data
+    const { parties, ...caseData } = validationResult.data
 
     // Get user to check permissions
     const user = await prisma.user.findUnique({
@@ -325,6 +330,27 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // The project must exist and belong to the case department
+    if (caseData.projectId) {
+      const project = await prisma.project.findUnique({
+        where: { id: caseData.projectId, deletedAt: null }
+      })
+
+      if (!project) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        )
+      }
+
+      if (project.departmentId !== caseData.departmentId) {
+        return NextResponse.json(
+          { error: 'Project must belong to the same department' },
+          { status: 400 }
+        )
+      }
+    }
+
     // Create the case payload with required fields
     const casePayload: Prisma.CaseUncheckedCreateInput = {
       ...caseData,
@@ -351,12 +377,13 @@ export async function POST(request: NextRequest) {
       legalStatus: caseData.legalStatus ?? null,
       assignedToId: caseData.assignedToId ?? null,
       supervisedById: caseData.supervisedById ?? null,
+      projectId: caseData.projectId ?? null,
       expectedEndDate: caseData.expectedEndDate ?? null
     }
 
-    // Create the case
+    // Create the case with its parties; the owner fields mirror the primary party
     const newCase = await prisma.case.create({
-      data: casePayload,
+      data: { ...casePayload, ...casePartiesCreateData(parties, casePayload) },
       include: {
         department: {
           select: {
@@ -427,6 +454,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(newCase, { status: 201 })
   } catch (error) {
+    if (error instanceof PartyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     logger.error('Error creating case:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -5,6 +5,9 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { subDays, startOfDay, endOfDay } from 'date-fns';
 import { logger } from '@/lib/logger';
+import { computeStageSla, loadSlaContext } from '@/lib/sla';
+import { STAGE_LABELS } from '@/constants/stages';
+import type { Prisma } from '@/prisma/client';
 
 export async function GET(request: NextRequest) {
   try {
@@ -30,6 +33,8 @@ export async function GET(request: NextRequest) {
       getUnassignedHighPriorityAlerts(departmentFilter, limit),
       // Cases stuck in a stage for too long
       getStagnantCaseAlerts(departmentFilter, limit),
+      // Stages close to or past their business-time SLA
+      getStageSlaAlerts(departmentFilter, limit),
       // Missing documents alerts
       getMissingDocumentAlerts(departmentFilter, limit),
       // Risk alerts
@@ -297,6 +302,75 @@ async function getStagnantCaseAlerts(departmentFilter: any, limit: number) {
   });
 }
 
+async function getStageSlaAlerts(departmentFilter: Prisma.CaseWhereInput, limit: number) {
+  const now = new Date();
+  const cases = await prisma.case.findMany({
+    where: {
+      ...departmentFilter,
+      deletedAt: null,
+      status: {
+        notIn: ['COMPLETADO', 'ARCHIVED', 'CANCELLED']
+      }
+    },
+    include: {
+      department: {
+        select: { name: true, code: true }
+      },
+      assignedTo: {
+        select: { firstName: true, lastName: true, email: true }
+      },
+      stageAssignments: {
+        where: { isActive: true },
+        select: { stage: true, assignedAt: true, dueDate: true }
+      }
+    }
+  });
+
+  const context = await loadSlaContext(now);
+  const severityByStatus = { warning: 'medium', critical: 'high', overdue: 'critical' } as const;
+
+  return cases
+    .flatMap(case_ => {
+      const assignment = case_.stageAssignments.find(stageAssignment => stageAssignment.stage === case_.currentStage);
+      if (!assignment) return [];
+
+      const sla = computeStageSla(
+        context,
+        {
+          stage: case_.currentStage,
+          departmentId: case_.departmentId,
+          startedAt: assignment.assignedAt,
+          dueDate: assignment.dueDate
+        },
+        now
+      );
+      if (sla.status === 'on_track') return [];
+
+      const unit = sla.businessDaysOnly ? 'horas hábiles' : 'horas';
+      return [{
+        id: `sla-${case_.id}`,
+        type: 'sla',
+        severity: severityByStatus[sla.status],
+        title: sla.status === 'overdue'
+          ? `Plazo de Etapa Vencido: ${case_.fileNumber}`
+          : `Plazo de Etapa en Riesgo: ${case_.fileNumber}`,
+        message: sla.status === 'overdue'
+          ? `La etapa ${STAGE_LABELS[sla.stage]} del caso "${case_.title}" superó su plazo de ${sla.maxTimeHours} ${unit}.`
+          : `La etapa ${STAGE_LABELS[sla.stage]} del caso "${case_.title}" ha consumido el ${sla.percentUsed}% de su plazo (quedan ${sla.remainingHours} ${unit}).`,
+        caseId: case_.id,
+        departmentName: case_.department.name,
+        assignedTo: case_.assignedTo ? `${case_.assignedTo.firstName} ${case_.assignedTo.lastName}` : null,
+        actionUrl: `/cases/${case_.id}`,
+        createdAt: sla.dueDate,
+        percentUsed: sla.percentUsed,
+        isActionable: true,
+        actionText: 'Revisar Etapa'
+      }];
+    })
+    .sort((a, b) => b.percentUsed - a.percentUsed)
+    .slice(0, limit);
+}
+
 async function getMissingDocumentAlerts(departmentFilter: any, limit: number) {
   // Cases with required documents missing (simplified logic)
   const casesWithMissingDocs = await prisma.case.findMany({
@@ -0,0 +1,69 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { DELEGATION_INCLUDE, canManageDelegationsFor } from '@/lib/delegations';
+
+// DELETE /api/delegations/[id] - Revoke a delegation; past delegated actions keep their attribution
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await prisma.delegation.findUnique({
+      where: { id },
+      select: { id: true, isActive: true, delegateId: true, delegator: { select: { id: true, departmentId: true } } },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Delegation not found' }, { status: 404 });
+    }
+
+    const actor = { id: session.user.id, role: session.user.role, departmentId: session.user.departmentId };
+    // The delegate may also give a delegation back
+    if (existing.delegateId !== session.user.id && !canManageDelegationsFor(actor, existing.delegator)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+    if (!existing.isActive) {
+      return NextResponse.json({ error: 'Delegation is already revoked' }, { status: 409 });
+    }
+
+    const delegation = await prisma.delegation.update({
+      where: { id },
+      data: { isActive: false, revokedAt: new Date(), revokedBy: session.user.id },
+      include: DELEGATION_INCLUDE,
+    });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'delegation',
+        entityId: id,
+        description: `Revoked delegation from ${delegation.delegator.email} to ${delegation.delegate.email}`,
+        userId: session.user.id,
+      },
+    });
+
+    return NextResponse.json(delegation);
+  } catch (error) {
+    logger.error('Error revoking delegation:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke delegation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType, CaseStage, type Prisma } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { DELEGATION_INCLUDE, DelegationError, createDelegation } from '@/lib/delegations';
+
+const createDelegationSchema = z.object({
+  // Defaults to the signed-in user delegating their own approvals
+  delegatorId: z.string().min(1).optional(),
+  delegateId: z.string().min(1),
+  stage: z.enum(CaseStage).nullable().optional(),
+  departmentId: z.string().min(1).nullable().optional(),
+  startsAt: z.iso.datetime(),
+  endsAt: z.iso.datetime(),
+  reason: z.string().min(3).max(1000),
+});
+
+// GET /api/delegations - List delegations given or received by a user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const direction = searchParams.get('direction'); // given | received
+    const current = searchParams.get('current') === 'true';
+    const userId = searchParams.get('userId') || session.user.id;
+
+    if (userId !== session.user.id && session.user.role !== 'super_admin' && session.user.role !== 'department_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const where: Prisma.DelegationWhereInput =
+      direction === 'given'
+        ? { delegatorId: userId }
+        : direction === 'received'
+          ? { delegateId: userId }
+          : { OR: [{ delegatorId: userId }, { delegateId: userId }] };
+    if (current) {
+      const now = new Date();
+      Object.assign(where, { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } });
+    }
+
+    const delegations = await prisma.delegation.findMany({
+      where,
+      include: DELEGATION_INCLUDE,
+      orderBy: { startsAt: 'desc' },
+    });
+
+    return NextResponse.json(delegations);
+  } catch (error) {
+    logger.error('Error fetching delegations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch delegations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/delegations - Delegate approvals, signatures and stage changes for a period
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = createDelegationSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const data = validation.data;
+
+    const delegation = await createDelegation(
+      {
+        delegatorId: data.delegatorId ?? session.user.id,
+        delegateId: data.delegateId,
+        stage: data.stage ?? null,
+        departmentId: data.departmentId ?? null,
+        startsAt: new Date(data.startsAt),
+        endsAt: new Date(data.endsAt),
+        reason: data.reason,
+      },
+      { id: session.user.id, role: session.user.role, departmentId: session.user.departmentId }
+    );
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'delegation',
+        entityId: delegation.id,
+        description: `Delegation from ${delegation.delegator.email} to ${delegation.delegate.email}`,
+        userId: session.user.id,
+        metadata: {
+          delegatorId: delegation.delegatorId,
+          delegateId: delegation.delegateId,
+          stage: delegation.stage,
+          departmentId: delegation.departmentId,
+          startsAt: delegation.startsAt.toISOString(),
+          endsAt: delegation.endsAt.toISOString(),
+          reason: delegation.reason,
+        },
+      },
+    });
+
+    return NextResponse.json(delegation, { status: 201 });
+  } catch (error) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error creating delegation:', error);
+    return NextResponse.json(
+      { error: 'Failed to create delegation' },
+      { status: 500 }
+    );
+  }
+}
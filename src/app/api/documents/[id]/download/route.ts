@@ -3,11 +3,18 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import fs from 'fs/promises';
-import path from 'path';
+import { Readable } from 'stream';
 import { DocumentActionType } from '@/prisma/client';
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types';
+import {
+  DENIED_ACCESS_MESSAGES,
+  authorizeDocumentAccess,
+  documentCacheControl,
+  documentPermissionsFor,
+} from '@/lib/document-access';
+import { getDocumentFile, openDocumentFile } from '@/lib/document-encryption';
+import { storedFileExists } from '@/lib/storage';
 
 // GET /api/documents/[id]/download - Download a document
 export async function GET(
@@ -32,14 +39,7 @@ export async function GET(
     const document = await prisma.document.findUnique({
       where: { id },
       include: {
-        permissions: {
-          where: {
-            OR: [
-              { userId: session.user.id },
-              { isActive: true },
-            ],
-          },
-        },
+        permissions: documentPermissionsFor(session.user),
       },
     });
 
@@ -47,21 +47,16 @@ export async function GET(
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Check download permissions
-    const canDownload =
-      document.uploadedById === session.user.id ||
-      document.isPublic ||
-      document.permissions.some(p => p.canDownload);
-
-    if (!canDownload) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    // Check download permissions and security clearance
+    const access = await authorizeDocumentAccess(session.user, document, 'download', {
+      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+    });
+    if (!access.allowed) {
+      return NextResponse.json({ error: DENIED_ACCESS_MESSAGES[access.reason] }, { status: 403 });
     }
 
-    // Check if document file exists
-    const filePath = path.join(process.cwd(), document.filePath);
-    try {
-      await fs.access(filePath);
-    } catch {
+    // Check if document file exists, in whichever storage tier holds it
+    if (!(await storedFileExists(document))) {
       return NextResponse.json({ error: 'File not found' }, { status: 404 });
     }
 
@@ -104,16 +99,16 @@ export async function GET(
       },
     });
 
-    // Read file
-    const fileBuffer = await fs.readFile(filePath);
+    // Stream the file, decrypted on the way out when it is stored encrypted
+    const fileStream = await openDocumentFile(await getDocumentFile(document.id));
 
     // Return file with appropriate headers
-    return new NextResponse(fileBuffer, {
+    return new NextResponse(Readable.toWeb(fileStream) as ReadableStream, {
       headers: {
         'Content-Type': document.mimeType,
         'Content-Disposition': `attachment; filename="${document.originalFileName}"`,
-        'Content-Length': fileBuffer.length.toString(),
-        'Cache-Control': 'no-cache',
+        'Content-Length': document.fileSize.toString(),
+        'Cache-Control': documentCacheControl(document.securityLevel, 'no-cache'),
       },
     });
   } catch (error) {
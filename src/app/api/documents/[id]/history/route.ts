@@ -331,6 +331,7 @@ function getActionDescription(action: DocumentActionType): string {
     MOVED: 'Document moved',
     TAGGED: 'Tags updated',
     CATEGORIZED: 'Category updated',
+    ACCESS_DENIED: 'Access denied',
   };
 
   return descriptions[action] || action;
@@ -354,6 +355,7 @@ function getActionCategory(action: DocumentActionType): string {
     MOVED: 'File Management',
     TAGGED: 'Metadata',
     CATEGORIZED: 'Metadata',
+    ACCESS_DENIED: 'Access',
   };
 
   return categories[action] || 'Other';
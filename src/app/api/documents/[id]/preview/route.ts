@@ -3,33 +3,34 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import fs from 'fs/promises';
-import path from 'path';
-import sharp from 'sharp';
-import { DocumentActionType } from '@/prisma/client';
+import { DocumentActionType, type Document } from '@/prisma/client';
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types';
-
-// Supported preview types and their processing
-const PREVIEW_CONFIG = {
-  // Image formats
-  'image/jpeg': { type: 'image', format: 'jpeg' },
-  'image/png': { type: 'image', format: 'png' },
-  'image/gif': { type: 'image', format: 'gif' },
-  'image/webp': { type: 'image', format: 'webp' },
-  'image/tiff': { type: 'image', format: 'jpeg' },
-
-  // PDF (would need PDF processing library like pdf-poppler or pdf2pic)
-  'application/pdf': { type: 'pdf' },
-
-  // Text formats
-  'text/plain': { type: 'text' },
-  'text/csv': { type: 'text' },
-  'text/html': { type: 'text' },
-
-  // JSON
-  'application/json': { type: 'text' },
-};
+import {
+  DENIED_ACCESS_MESSAGES,
+  authorizeDocumentAccess,
+  documentCacheControl,
+  documentPermissionsFor,
+} from '@/lib/document-access';
+import {
+  IMAGE_PREVIEW_MIME_TYPES,
+  PDF_MIME_TYPE,
+  PreviewError,
+  canRenderPreview,
+  getDocumentPreview,
+  isPreviewSize,
+  type PreviewSize,
+} from '@/lib/previews';
+import { getDocumentFile, readDocumentFile } from '@/lib/document-encryption';
+import { storedFileExists } from '@/lib/storage';
+
+// Text formats are previewed as their content, rendered formats as JPEG pages
+const TEXT_PREVIEW_MIME_TYPES = [
+  'text/plain',
+  'text/csv',
+  'text/html',
+  'application/json',
+];
 
 // GET /api/documents/[id]/preview - Generate document preview
 export async function GET(
@@ -51,20 +52,19 @@ export async function GET(
     }
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
-    const size = searchParams.get('size') || 'medium'; // small, medium, large
+    const size = searchParams.get('size') || 'medium';
+    if (!Number.isInteger(page) || page < 1) {
+      return NextResponse.json({ error: 'Invalid page' }, { status: 400 });
+    }
+    if (!isPreviewSize(size)) {
+      return NextResponse.json({ error: 'Invalid size, expected small, medium or large' }, { status: 400 });
+    }
 
     // Get document with permissions check
     const document = await prisma.document.findUnique({
       where: { id },
       include: {
-        permissions: {
-          where: {
-            OR: [
-              { userId: session.user.id },
-              { isActive: true },
-            ],
-          },
-        },
+        permissions: documentPermissionsFor(session.user),
       },
     });
 
@@ -72,48 +72,36 @@ export async function GET(
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Check view permissions
-    const canView =
-      document.uploadedById === session.user.id ||
-      document.isPublic ||
-      document.permissions.some(p => p.canView);
-
-    if (!canView) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    // Check view permissions and security clearance
+    const access = await authorizeDocumentAccess(session.user, document, 'view', {
+      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+    });
+    if (!access.allowed) {
+      return NextResponse.json({ error: DENIED_ACCESS_MESSAGES[access.reason] }, { status: 403 });
     }
 
     // Check if preview is supported for this file type
-    const previewConfig = PREVIEW_CONFIG[document.mimeType as keyof typeof PREVIEW_CONFIG];
-    if (!previewConfig) {
+    const isText = TEXT_PREVIEW_MIME_TYPES.includes(document.mimeType);
+    if (!isText && !canRenderPreview(document.mimeType)) {
       return NextResponse.json({
         error: 'Preview not supported for this file type',
-        supportedTypes: Object.keys(PREVIEW_CONFIG)
+        supportedTypes: [PDF_MIME_TYPE, ...IMAGE_PREVIEW_MIME_TYPES, ...TEXT_PREVIEW_MIME_TYPES],
       }, { status: 400 });
     }
 
-    // Check if document file exists
-    const filePath = path.join(process.cwd(), document.filePath);
-    try {
-      await fs.access(filePath);
-    } catch {
+    // Check if document file exists, in whichever storage tier holds it
+    if (!(await storedFileExists(document))) {
       return NextResponse.json({ error: 'File not found' }, { status: 404 });
     }
 
-    // Process based on file type
-    switch (previewConfig.type) {
-      case 'image':
-        return await generateImagePreview(filePath, document, size, session.user.id);
-
-      case 'pdf':
-        return await generatePdfPreview(filePath, document, page, size, session.user.id);
-
-      case 'text':
-        return await generateTextPreview(filePath, document, session.user.id);
-
-      default:
-        return NextResponse.json({ error: 'Preview not supported' }, { status: 400 });
+    if (isText) {
+      return await generateTextPreview(document, session.user.id);
     }
+    return await generateRenderedPreview(document, page, size, session.user.id);
   } catch (error) {
+    if (error instanceof PreviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     logger.error('Error generating preview:', error);
     return NextResponse.json(
       { error: 'Failed to generate preview' },
@@ -122,106 +110,39 @@ export async function GET(
   }
 }
 
-// Generate image preview with resizing
-async function generateImagePreview(
-  filePath: string,
-  document: any,
-  size: string,
-  userId: string
-) {
-  try {
-    // Define size configurations
-    const sizeConfig = {
-      small: { width: 200, height: 200, quality: 70 },
-      medium: { width: 600, height: 600, quality: 80 },
-      large: { width: 1200, height: 1200, quality: 90 },
-    };
-
-    const config = sizeConfig[size as keyof typeof sizeConfig] || sizeConfig.medium;
-
-    // Generate thumbnail if it doesn't exist
-    const thumbnailDir = path.join(process.cwd(), 'uploads', 'thumbnails');
-    await fs.mkdir(thumbnailDir, { recursive: true });
-
-    const thumbnailPath = path.join(thumbnailDir, `${document.id}_${size}.jpg`);
-
-    try {
-      // Check if thumbnail already exists
-      await fs.access(thumbnailPath);
-    } catch {
-      // Generate new thumbnail
-      await sharp(filePath)
-        .resize(config.width, config.height, {
-          fit: 'inside',
-          withoutEnlargement: true,
-        })
-        .jpeg({ quality: config.quality })
-        .toFile(thumbnailPath);
-    }
-
-    // Read thumbnail
-    const thumbnailBuffer = await fs.readFile(thumbnailPath);
-
-    // Log preview action
-    await logPreviewAction(document.id, userId, 'image', { size });
-
-    // Return image
-    return new NextResponse(thumbnailBuffer, {
-      headers: {
-        'Content-Type': 'image/jpeg',
-        'Content-Length': thumbnailBuffer.length.toString(),
-        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
-      },
-    });
-  } catch (error) {
-    logger.error('Error generating image preview:', error);
-    throw error;
-  }
-}
-
-// Generate PDF preview (placeholder implementation)
-async function generatePdfPreview(
-  _filePath: string,
-  document: any,
+// Render a page of a PDF or an image as JPEG, served from the preview cache
+async function generateRenderedPreview(
+  document: Pick<Document, 'id' | 'mimeType' | 'version' | 'pageCount' | 'securityLevel'>,
   page: number,
-  size: string,
+  size: PreviewSize,
   userId: string
 ) {
-  try {
-    // This is a placeholder implementation
-    // In a real implementation, you would use a PDF processing library
-    // like pdf-poppler, pdf2pic, or similar
-
-    // For now, return PDF info as JSON
-    const pdfInfo = {
-      message: 'PDF preview requires additional PDF processing library',
-      documentId: document.id,
-      fileName: document.originalFileName,
-      fileSize: document.fileSize,
-      requestedPage: page,
-      size,
-      mimeType: document.mimeType,
-    };
-
-    // Log preview action
-    await logPreviewAction(document.id, userId, 'pdf', { page, size });
-
-    return NextResponse.json(pdfInfo);
-  } catch (error) {
-    logger.error('Error generating PDF preview:', error);
-    throw error;
+  const { image, pageCount } = await getDocumentPreview(document, page, size);
+
+  // Log preview action
+  const previewType = document.mimeType === PDF_MIME_TYPE ? 'pdf' : 'image';
+  await logPreviewAction(document.id, userId, previewType, { page, size });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'image/jpeg',
+    'Content-Length': image.length.toString(),
+    'Cache-Control': documentCacheControl(document.securityLevel, 'private, max-age=3600'),
+  };
+  if (pageCount) {
+    headers['X-Page-Count'] = pageCount.toString();
   }
+
+  return new NextResponse(new Uint8Array(image), { headers });
 }
 
 // Generate text preview
 async function generateTextPreview(
-  filePath: string,
   document: any,
   userId: string
 ) {
   try {
     // Read text file
-    const fileBuffer = await fs.readFile(filePath);
+    const fileBuffer = await readDocumentFile(await getDocumentFile(document.id));
     let content = fileBuffer.toString('utf-8');
 
     // Limit preview content size
@@ -233,6 +154,7 @@ async function generateTextPreview(
     // Get encoding and line count info
     const lines = content.split('\n');
     const preview = {
+      type: 'text',
       content,
       lines: lines.length,
       size: content.length,
@@ -250,7 +172,7 @@ async function generateTextPreview(
     return NextResponse.json(preview, {
       headers: {
         'Content-Type': 'application/json',
-        'Cache-Control': 'public, max-age=600', // Cache for 10 minutes
+        'Cache-Control': documentCacheControl(document.securityLevel, 'public, max-age=600'),
       },
     });
   } catch (error) {
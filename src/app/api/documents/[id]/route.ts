@@ -7,6 +7,9 @@ import { z } from 'zod';
 import { DocumentStatus, DocumentSecurityLevel, DocumentActionType } from '@/prisma/client';
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types';
+import { DENIED_ACCESS_MESSAGES, authorizeDocumentAccess, documentPermissionsFor } from '@/lib/document-access';
+import { applyDocumentEncryption } from '@/lib/document-encryption';
+import { queueThumbnailGeneration } from '@/lib/previews';
 
 // Types
 interface DocumentTag {
@@ -78,14 +81,7 @@ export async function GET(
             color: true,
           },
         },
-        permissions: {
-          where: {
-            OR: [
-              { userId: session.user.id },
-              { isActive: true },
-            ],
-          },
-        },
+        permissions: documentPermissionsFor(session.user),
         versions: {
           orderBy: { version: 'desc' },
           take: 10,
@@ -138,14 +134,12 @@ export async function GET(
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Check permissions (simplified - in real implementation, check role-based permissions)
-    const hasPermission =
-      document.uploadedById === session.user.id ||
-      document.isPublic ||
-      document.permissions.length > 0;
-
-    if (!hasPermission) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    // Check view permissions and security clearance
+    const access = await authorizeDocumentAccess(session.user, document, 'view', {
+      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+    });
+    if (!access.allowed) {
+      return NextResponse.json({ error: DENIED_ACCESS_MESSAGES[access.reason] }, { status: 403 });
     }
 
     // Increment view count
@@ -288,6 +282,11 @@ export async function PUT(
       }
     }
 
+    // Raising the level to CONFIDENTIAL or above encrypts the stored files
+    if (changes.securityLevel && await applyDocumentEncryption(id)) {
+      queueThumbnailGeneration(id);
+    }
+
     // Update tags if provided
     if (validatedData.tags !== undefined) {
       // Delete existing tags
@@ -371,6 +370,11 @@ export async function DELETE(
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
+    // Documents of cases before the courts are kept as they are
+    if (existingDocument.legalHold) {
+      return NextResponse.json({ error: 'Document is under legal hold' }, { status: 409 });
+    }
+
     // Soft delete by marking as archived
     await prisma.document.update({
       where: { id },
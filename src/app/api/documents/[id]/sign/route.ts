@@ -0,0 +1,122 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { ActivityType, SignatureType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { SignatureError, signDocumentPdf } from '@/lib/signatures';
+import { StorageError } from '@/lib/storage';
+
+const signDocumentSchema = z.object({
+  signatureData: z.string().min(1).optional(),
+  signatureType: z.enum(SignatureType).default(SignatureType.APPROVAL),
+});
+
+// POST /api/documents/[id]/sign - Issue the signed PDF of a case document
+export async function POST(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param'},
+        { status: 400 }
+      )
+    }
+
+    const validation = signDocumentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+      select: {
+        uploadedById: true,
+        caseId: true,
+        permissions: {
+          where: { userId: session.user.id, isActive: true },
+          select: { canSign: true },
+        },
+      },
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const canSign =
+      session.user.role === 'super_admin' ||
+      document.uploadedById === session.user.id ||
+      document.permissions.some(p => p.canSign);
+
+    if (!canSign) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { signature, version } = await signDocumentPdf({
+      documentId: id,
+      userId: session.user.id,
+      signatureType: validation.data.signatureType,
+      ...(validation.data.signatureData && { signatureData: validation.data.signatureData }),
+      ipAddress: request.headers.get('x-forwarded-for') || '',
+    });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.APPROVED,
+        entityType: 'document',
+        entityId: id,
+        description: `Signed PDF issued as version ${version.version}`,
+        userId: session.user.id,
+        caseId: document.caseId,
+        metadata: {
+          signatureId: signature.id,
+          verificationCode: signature.verificationCode,
+          version: version.version,
+          fileHash: version.fileHash,
+        },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        signatureId: signature.id,
+        verificationCode: signature.verificationCode,
+        documentHash: signature.documentHash,
+        version: {
+          id: version.id,
+          version: version.version,
+          fileName: version.fileName,
+          fileSize: version.fileSize,
+          fileHash: version.fileHash,
+          createdAt: version.createdAt.toISOString(),
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof SignatureError || error instanceof StorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    logger.error('Error signing document PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign document' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,12 +4,15 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
-import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
 import { DocumentActionType } from '@/prisma/client';
 import { logger } from '@/lib/logger';
 import { URLParams } from '@/types';
+import { queueDocumentIndexing } from '@/lib/indexing';
+import { queueThumbnailGeneration } from '@/lib/previews';
+import { getDocumentFile, writeDocumentFile } from '@/lib/document-encryption';
+import { StorageError, storageFieldsFor, withDocumentStorageLock } from '@/lib/storage';
 
 // Validation schemas
 const createVersionSchema = z.object({
@@ -169,14 +172,13 @@ export async function POST(
       ? Math.floor((lastVersion?.version || 0) / 10) * 10 + 10
       : (lastVersion?.version || 0) + 1;
 
-    // Create date directory for new version
-    const uploadDir = path.join(process.cwd(), 'uploads', 'documents');
+    // Date directory for new version, in the storage tier of the document
+    const uploadDir = path.join('uploads', 'documents');
     const now = new Date();
     const year = now.getFullYear();
     const month = String(now.getMonth() + 1).padStart(2, '0');
     const day = String(now.getDate()).padStart(2, '0');
     const dateDir = path.join(uploadDir, String(year), month, day);
-    await fs.mkdir(dateDir, { recursive: true });
 
     // Generate unique file path for new version
     const timestamp = Date.now();
@@ -186,69 +188,84 @@ export async function POST(
     const fileName = `${timestamp}-${random}-${name}_v${newVersionNumber}${ext}`;
     const filePath = path.join(dateDir, fileName);
 
-    // Save new version file
     const buffer = Buffer.from(await file.arrayBuffer());
-    await fs.writeFile(filePath, buffer);
-
-    // Calculate file hash
-    const fileHash = crypto.createHash('sha256').update(buffer).digest('hex');
-
-    // Create new version record
-    const newVersion = await prisma.documentVersion.create({
-      data: {
-        documentId: id,
-        version: newVersionNumber,
-        title: validatedData.title,
-        description: validatedData.description || null,
-        fileName,
-        filePath: path.relative(process.cwd(), filePath),
-        fileSize: file.size,
-        mimeType: file.type,
-        fileHash,
-        changeSummary: validatedData.changeSummary || null,
-        isMajorVersion: validatedData.isMajorVersion,
-        isPublished: false,
-        isActive: true,
-        createdBy: session.user.id,
-        previousVersionId: lastVersion?.id || null,
-        checksum: fileHash,
-      },
-      include: {
-        creator: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-        previousVersion: {
-          include: {
-            creator: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Update main document if this version should be published
-    if (validatedData.isMajorVersion) {
-      await prisma.document.update({
-        where: { id },
+    // Written and recorded under the storage lock, so no migration moves the
+    // files of the document meanwhile
+    const newVersion = await withDocumentStorageLock(existingDocument.id, async () => {
+      // Save new version file, under the key of the document when it is encrypted
+      const target = await getDocumentFile(existingDocument.id, filePath);
+      await writeDocumentFile(target, buffer, target.encryptionKey);
+
+      // Calculate file hash
+      const fileHash = crypto.createHash('sha256').update(buffer).digest('hex');
+
+      // Create new version record
+      const newVersion = await prisma.documentVersion.create({
         data: {
+          documentId: id,
           version: newVersionNumber,
-          filePath: newVersion.filePath,
+          title: validatedData.title,
+          description: validatedData.description || null,
+          fileName,
+          filePath,
           fileSize: file.size,
+          mimeType: file.type,
           fileHash,
-          updatedAt: new Date(),
+          changeSummary: validatedData.changeSummary || null,
+          isMajorVersion: validatedData.isMajorVersion,
+          isPublished: false,
+          isActive: true,
+          createdBy: session.user.id,
+          previousVersionId: lastVersion?.id || null,
+          checksum: fileHash,
+        },
+        include: {
+          creator: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
+          },
+          previousVersion: {
+            include: {
+              creator: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                },
+              },
+            },
+          },
         },
       });
-    }
+
+      // Update main document if this version should be published
+      if (validatedData.isMajorVersion) {
+        await prisma.document.update({
+          where: { id },
+          data: {
+            version: newVersionNumber,
+            filePath: newVersion.filePath,
+            ...storageFieldsFor(target.storageType, filePath),
+            fileSize: file.size,
+            mimeType: file.type,
+            fileHash,
+            isIndexed: false,
+            previewGenerated: false,
+            updatedAt: new Date(),
+          },
+        });
+
+        // The searchable text and the thumbnail follow the published file
+        queueDocumentIndexing(id);
+        queueThumbnailGeneration(id);
+      }
+
+      return newVersion;
+    });
 
     // Create version action
     await prisma.documentAction.create({
@@ -288,6 +305,10 @@ export async function POST(
 
     return NextResponse.json(response, { status: 201 });
   } catch (error) {
+    if (error instanceof StorageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     logger.error('Error creating document version:', error);
 
     if (error instanceof z.ZodError) {
@@ -4,11 +4,17 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
-import fs from 'fs/promises';
-import path from 'path';
 import archiver from 'archiver';
 import { DocumentActionType } from '@/prisma/client';
 import { logger } from '@/lib/logger';
+import {
+  authorizeDocumentAccess,
+  documentCacheControl,
+  documentPermissionsFor,
+  getUserClearance,
+} from '@/lib/document-access';
+import { getDocumentFile, openDocumentFile } from '@/lib/document-encryption';
+import { storedFileExists } from '@/lib/storage';
 
 // Validation schema
 const bulkDownloadSchema = z.object({
@@ -63,14 +69,7 @@ export async function POST(request: NextRequest) {
             title: true,
           },
         },
-        permissions: {
-          where: {
-            OR: [
-              { userId: session.user.id },
-              { isActive: true },
-            ],
-          },
-        },
+        permissions: documentPermissionsFor(session.user),
       },
     });
 
@@ -78,14 +77,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No documents found' }, { status: 404 });
     }
 
-    // Check permissions for each document
-    const accessibleDocuments = documents.filter(doc => {
-      return (
-        doc.uploadedById === session.user.id ||
-        doc.isPublic ||
-        doc.permissions.some(p => p.canDownload)
-      );
-    });
+    // Check permissions and security clearance for each document
+    const clearance = await getUserClearance(session.user.id);
+    const ipAddress = request.headers.get('x-forwarded-for') || 'unknown';
+    const accessibleDocuments = [];
+    for (const doc of documents) {
+      const access = await authorizeDocumentAccess(session.user, doc, 'download', { ipAddress, clearance });
+      if (access.allowed) {
+        accessibleDocuments.push(doc);
+      }
+    }
 
     if (accessibleDocuments.length === 0) {
       return NextResponse.json({ error: 'No accessible documents found' }, { status: 403 });
@@ -94,10 +95,7 @@ export async function POST(request: NextRequest) {
     // Check if any files are missing
     const missingFiles = [];
     for (const doc of accessibleDocuments) {
-      try {
-        const filePath = path.join(process.cwd(), doc.filePath);
-        await fs.access(filePath);
-      } catch {
+      if (!(await storedFileExists(doc))) {
         missingFiles.push(doc.originalFileName);
       }
     }
@@ -217,8 +215,8 @@ async function createZipDownload(
 
       // Add documents
       for (const doc of documents) {
-        const filePath = path.join(process.cwd(), doc.filePath);
-        const fileBuffer = await fs.readFile(filePath);
+        // Decrypted as the archive reads it
+        const fileStream = await openDocumentFile(await getDocumentFile(doc.id));
 
         // Determine folder structure
         let archivePath = doc.originalFileName;
@@ -228,7 +226,7 @@ async function createZipDownload(
           archivePath = `${folder}/${doc.originalFileName}`;
         }
 
-        archive.append(fileBuffer, { name: archivePath });
+        archive.append(fileStream, { name: archivePath });
 
         // Add document-specific metadata if requested
         if (includeMetadata) {
@@ -250,7 +248,7 @@ async function createZipDownload(
   const headers = new Headers({
     'Content-Type': 'application/zip',
     'Content-Disposition': `attachment; filename="${filename}"`,
-    'Cache-Control': 'no-cache',
+    'Cache-Control': documentCacheControl(documents.map(doc => doc.securityLevel), 'no-cache'),
   });
 
   // Convert Node.js stream to Web Stream
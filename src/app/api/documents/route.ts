@@ -2,8 +2,6 @@ import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { z } from 'zod';
-import path from 'path';
-import fs from 'fs/promises';
 
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
@@ -21,6 +19,10 @@ import {
 import { edgeLogger } from '@/lib/edge-logger';
 import { logger } from '@/lib/logger';
 import { AtomicUploadOptions } from '@/lib/atomic-upload';
+import { queueDocumentIndexing } from '@/lib/indexing';
+import { queueThumbnailGeneration } from '@/lib/previews';
+import { documentEncryptionFor } from '@/lib/document-encryption';
+import { getDefaultStorageTier, storageFieldsFor } from '@/lib/storage';
 
 // Validation schemas
 const createDocumentSchema = z.object({
@@ -115,6 +117,8 @@ export async function GET(request: NextRequest) {
     // Get documents with pagination
     const documents = await prisma.document.findMany({
       where,
+      // Extracted text is only served by search, which checks clearance
+      omit: { contentText: true },
       include: {
         uploadedBy: {
           select: {
@@ -224,14 +228,22 @@ export async function POST(request: NextRequest) {
     const userRole = roleMap[user?.role?.name || 'observer'] || UserRole.OBSERVER;
 
     // Perform secure file upload with comprehensive validation
+    const storageType = getDefaultStorageTier();
     const uploadOptions: Partial<AtomicUploadOptions> = {
       userId: session.user.id,
+      storageType,
     };
 
     if (validatedData.caseId) {
       uploadOptions.caseId = validatedData.caseId;
     }
 
+    // CONFIDENTIAL and higher documents are stored encrypted under their own key
+    const encryption = documentEncryptionFor(validatedData.securityLevel);
+    if (encryption.encryptionKey) {
+      uploadOptions.encryptionKey = encryption.encryptionKey;
+    }
+
     const uploadResult = await secureFileUpload(
       request,
       file,
@@ -258,18 +270,6 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
-    // Extract text content for indexing (simplified version)
-    let contentText = '';
-    try {
-      if (file.type === 'text/plain' && uploadResult.filePath) {
-        const fileBuffer = await fs.readFile(uploadResult.filePath);
-        contentText = fileBuffer.toString('utf-8');
-      }
-      // TODO: Add text extraction for PDF, DOCX, etc.
-    } catch (error) {
-      logger.error('Error extracting text content:', error);
-    }
-
     // Determine actual MIME type from validation
     const actualMimeType =
       uploadResult.validation.validationDetails.mimeValidation
@@ -282,7 +282,7 @@ export async function POST(request: NextRequest) {
         description: validatedData.description || null,
         fileName: uploadResult.fileName!,
         originalFileName: file.name,
-        filePath: path.relative(process.cwd(), uploadResult.filePath!),
+        filePath: uploadResult.filePath!,
         fileSize: file.size,
         mimeType: actualMimeType,
         fileHash:
@@ -292,6 +292,8 @@ export async function POST(request: NextRequest) {
         category: validatedData.category as DocumentCategory,
         status: DocumentStatus.DRAFT,
         securityLevel: validatedData.securityLevel as DocumentSecurityLevel,
+        ...encryption,
+        ...storageFieldsFor(storageType, uploadResult.filePath!),
         version: 1,
         isLatest: true,
         isDraft: true,
@@ -304,9 +306,6 @@ export async function POST(request: NextRequest) {
         expiresAt: validatedData.expiresAt
           ? new Date(validatedData.expiresAt)
           : null,
-        contentText,
-        isIndexed: contentText.length > 0,
-        indexedAt: contentText.length > 0 ? new Date() : null,
       },
       include: {
         uploadedBy: {
@@ -363,6 +362,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Extract the text for search and render the thumbnail without holding up the upload
+    queueDocumentIndexing(document.id);
+    queueThumbnailGeneration(document.id);
+
     // Log security events if needed
     if (
       uploadResult.validation.securityLevel === 'high' ||
@@ -10,7 +10,10 @@ import {
   DocumentStatus,
   DocumentSecurityLevel,
 } from '@/prisma/client';
+import type { Prisma } from '@/prisma/client';
 import { logger } from '@/lib/logger';
+import { compactIdentifier, isIdentifierLike } from '@/lib/indexing';
+import { clearedDocumentWhere, getUserClearance, isRedactedFor } from '@/lib/document-access';
 
 // Advanced search validation schema
 const searchSchema = z.object({
@@ -54,6 +57,14 @@ const searchSchema = z.object({
   includeContent: z.boolean().default(false),
 });
 
+type SearchFilters = NonNullable<z.infer<typeof searchSchema>['filters']>;
+
+interface SearchFacets {
+  documentTypes: Array<{ value: DocumentType; count: number }>;
+  categories: Array<{ value: DocumentCategory; count: number }>;
+  statuses: Array<{ value: DocumentStatus; count: number }>;
+}
+
 // POST /api/documents/search - Advanced document search
 export async function POST(request: NextRequest) {
   try {
@@ -89,6 +100,12 @@ export async function POST(request: NextRequest) {
       ],
     };
 
+    // Indexed text carries identifiers in both spellings, so a cédula or
+    // parcel number typed with separators also matches its compact form
+    if (isIdentifierLike(query)) {
+      where.OR.push({ contentText: { contains: compactIdentifier(query) } });
+    }
+
     // Apply filters
     if (filters.documentTypes && filters.documentTypes.length > 0) {
       where.documentType = { in: filters.documentTypes };
@@ -185,6 +202,19 @@ export async function POST(request: NextRequest) {
       where.status = { not: DocumentStatus.ARCHIVED };
     }
 
+    // Without clearance a document can only be found by its title, file
+    // name or tags, never by the content or description it would leak
+    const clearance = await getUserClearance(session.user.id);
+    const clearedWhere = clearedDocumentWhere(session.user.id, clearance);
+    where.AND = [{
+      OR: [
+        clearedWhere,
+        { title: { contains: query } },
+        { fileName: { contains: query } },
+        { tags: { contains: query } },
+      ],
+    }];
+
     // Get total count
     const total = await prisma.document.count({ where });
 
@@ -242,6 +272,7 @@ export async function POST(request: NextRequest) {
     const documentsWithScores = documents.map(doc => {
       let score = 0;
       const queryLower = query.toLowerCase();
+      const redacted = isRedactedFor(doc, session.user.id, clearance);
 
       // Title match (highest weight)
       if (doc.title.toLowerCase().includes(queryLower)) {
@@ -249,7 +280,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Description match
-      if (doc.description?.toLowerCase().includes(queryLower)) {
+      if (!redacted && doc.description?.toLowerCase().includes(queryLower)) {
         score += 5;
       }
 
@@ -259,7 +290,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Content match
-      if (doc.contentText?.toLowerCase().includes(queryLower)) {
+      if (!redacted && doc.contentText?.toLowerCase().includes(queryLower)) {
         score += 2;
       }
 
@@ -275,6 +306,7 @@ export async function POST(request: NextRequest) {
       return {
         ...doc,
         relevanceScore: score,
+        redacted,
       };
     });
 
@@ -291,7 +323,7 @@ export async function POST(request: NextRequest) {
     const formattedResults = documentsWithScores.map(doc => ({
       id: doc.id,
       title: doc.title,
-      description: doc.description,
+      description: doc.redacted ? null : doc.description,
       fileName: doc.fileName,
       originalFileName: doc.originalFileName,
       fileSize: doc.fileSize,
@@ -323,6 +355,7 @@ export async function POST(request: NextRequest) {
       updatedAt: doc.updatedAt.toISOString(),
       expiresAt: doc.expiresAt?.toISOString(),
       relevanceScore: doc.relevanceScore,
+      redacted: doc.redacted,
       stats: {
         versions: doc._count.versions,
         signatures: doc._count.signatures,
@@ -330,13 +363,13 @@ export async function POST(request: NextRequest) {
         actions: doc._count.actions,
       },
       // Include content snippet if requested
-      ...(includeContent && doc.contentText && {
+      ...(includeContent && !doc.redacted && doc.contentText && {
         contentSnippet: getContentSnippet(doc.contentText, query),
       }),
     }));
 
     // Get search suggestions/facets
-    const facets = await getSearchFacets(query, filters);
+    const facets = await getSearchFacets(query, filters, clearedWhere);
 
     return NextResponse.json({
       results: formattedResults,
@@ -503,9 +536,12 @@ async function getUserSuggestions(query: string, limit: number): Promise<string[
   return users.map(user => `${user.firstName} ${user.lastName} (${user.email})`);
 }
 
-async function getSearchFacets(query: string, filters: any): Promise<any> {
-  const facets: any = {};
-
+// Facets only count documents the user is cleared for
+async function getSearchFacets(
+  query: string,
+  filters: SearchFilters,
+  clearedWhere: Prisma.DocumentWhereInput
+): Promise<SearchFacets> {
   // Document type facets
   const typeFacets = await prisma.document.groupBy({
     by: ['documentType'],
@@ -518,15 +554,11 @@ async function getSearchFacets(query: string, filters: any): Promise<any> {
       ...(filters.documentTypes && { documentType: { in: filters.documentTypes } }),
       ...(filters.categories && { category: { in: filters.categories } }),
       ...(filters.statuses && { status: { in: filters.statuses } }),
+      AND: [clearedWhere],
     },
     _count: true,
   });
 
-  facets.documentTypes = typeFacets.map(facet => ({
-    value: facet.documentType,
-    count: facet._count,
-  }));
-
   // Category facets
   const categoryFacets = await prisma.document.groupBy({
     by: ['category'],
@@ -539,15 +571,11 @@ async function getSearchFacets(query: string, filters: any): Promise<any> {
       ...(filters.documentTypes && { documentType: { in: filters.documentTypes } }),
       ...(filters.categories && { category: { in: filters.categories } }),
       ...(filters.statuses && { status: { in: filters.statuses } }),
+      AND: [clearedWhere],
     },
     _count: true,
   });
 
-  facets.categories = categoryFacets.map(facet => ({
-    value: facet.category,
-    count: facet._count,
-  }));
-
   // Status facets
   const statusFacets = await prisma.document.groupBy({
     by: ['status'],
@@ -559,14 +587,23 @@ async function getSearchFacets(query: string, filters: any): Promise<any> {
       ],
       ...(filters.documentTypes && { documentType: { in: filters.documentTypes } }),
       ...(filters.categories && { category: { in: filters.categories } }),
+      AND: [clearedWhere],
     },
     _count: true,
   });
 
-  facets.statuses = statusFacets.map(facet => ({
-    value: facet.status,
-    count: facet._count,
-  }));
-
-  return facets;
+  return {
+    documentTypes: typeFacets.map(facet => ({
+      value: facet.documentType,
+      count: facet._count,
+    })),
+    categories: categoryFacets.map(facet => ({
+      value: facet.category,
+      count: facet._count,
+    })),
+    statuses: statusFacets.map(facet => ({
+      value: facet.status,
+      count: facet._count,
+    })),
+  };
 }
\ No newline at end of file
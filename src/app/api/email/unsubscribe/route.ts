@@ -0,0 +1,54 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { ActivityType } from '@/prisma/client';
+import { unsubscribeFromDigest, verifyUnsubscribeToken } from '@/lib/services/digest.service';
+
+const unsubscribeSchema = z.object({
+  user: z.string().min(1),
+  batch: z.string().min(1),
+  token: z.string().min(1),
+});
+
+// POST /api/email/unsubscribe - Turn off digest emails from a signed email link (no session required)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validation = unsubscribeSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { user, batch, token } = validation.data;
+    if (!verifyUnsubscribeToken(user, batch, token)) {
+      return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 });
+    }
+
+    const unsubscribed = await unsubscribeFromDigest(user, batch);
+    if (!unsubscribed) {
+      return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 });
+    }
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'user',
+        entityId: user,
+        description: 'Unsubscribed from email digest',
+        userId: user,
+        metadata: { batchId: batch },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error unsubscribing from digest:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
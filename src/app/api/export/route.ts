@@ -10,6 +10,7 @@ import { es } from 'date-fns/locale';
 import { logger } from '@/lib/logger';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { PARTY_ORDER, formatPartyList, partyMatchConditions } from '@/lib/parties';
 
 const exportSchema = z.object({
   format: z.enum(['pdf', 'excel', 'csv', 'json']),
@@ -22,6 +23,10 @@ const exportSchema = z.object({
     status: z.array(z.string()).optional(),
     priority: z.array(z.string()).optional(),
     department: z.array(z.string()).optional(),
+    // Every case of one project (public work)
+    projectId: z.string().optional(),
+    // Name or identification of any party of the case
+    party: z.string().min(1).max(200).optional(),
     includeArchived: z.boolean().default(false),
   }),
   fields: z.array(z.string()),
@@ -89,6 +94,8 @@ async function generatePDF(data: any[], dataType: string, fields: string[]) {
       createdAt: 'Fecha de Creación',
       updatedAt: 'Última Actualización',
       department: 'Departamento',
+      project: 'Proyecto',
+      parties: 'Partes',
       name: 'Nombre',
       email: 'Email',
       role: 'Rol',
@@ -156,6 +163,14 @@ async function fetchCasesData(options: any, session: any) {
     where.departmentId = { in: options.filters.department };
   }
 
+  if (options.filters.projectId) {
+    where.projectId = options.filters.projectId;
+  }
+
+  if (options.filters.party) {
+    where.AND = [{ OR: partyMatchConditions(options.filters.party) }];
+  }
+
   if (!options.filters.includeArchived) {
     where.status = { not: 'ARCHIVED' };
   }
@@ -184,6 +199,11 @@ async function fetchCasesData(options: any, session: any) {
     where,
     include: {
       department: { select: { name: true } },
+      project: { select: { name: true } },
+      parties: {
+        select: { name: true, role: true, ownershipPercentage: true },
+        orderBy: PARTY_ORDER,
+      },
       assignedTo: {
         select: {
           firstName: true,
@@ -207,6 +227,8 @@ async function fetchCasesData(options: any, session: any) {
     createdAt: case_.createdAt,
     updatedAt: case_.updatedAt,
     department: case_.department?.name || '',
+    project: case_.project?.name || '',
+    parties: formatPartyList(case_.parties),
   }));
 }
 
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth';
 import { ActivityType, ObservationPriority, ObservationStatus, CaseStage, Prisma } from '@/prisma/client';
 import { logger } from '@/lib/logger';
+import { notifyObservationAssigned } from '@/lib/services/notification.service';
 import type {
   CreateObservationRequest,
   ObservationFilters
@@ -290,6 +291,10 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    if (observation.assignedTo) {
+      await notifyObservationAssigned(observation.id, session.user.id);
+    }
+
     return NextResponse.json(observation, { status: 201 });
   } catch (error) {
     logger.error('Error creating observation:', error);
@@ -0,0 +1,81 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ActivityType } from '@/prisma/client';
+import { authenticateUser, handleApiError } from '@/lib/services/stage-transition.service';
+import { URLParams } from '@/types';
+import { ProjectBulkActionSchema } from '@/lib/validations/project';
+import {
+  ProjectError,
+  advanceProjectCases,
+  assignProjectCases,
+  canManageProject,
+  canViewProject,
+  findProject,
+} from '@/lib/projects';
+
+// POST /api/projects/[id]/bulk - Assign or advance every open case of a project
+export async function POST(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const validation = ProjectBulkActionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const input = validation.data;
+
+    const user = await authenticateUser();
+    const actor = { role: user.role.name, departmentId: user.departmentId };
+    const project = await findProject(id);
+
+    let summary;
+    if (input.action === 'assign') {
+      if (!canManageProject(actor, project)) {
+        return NextResponse.json({ error: 'Insufficient permissions to assign cases' }, { status: 403 });
+      }
+      summary = await assignProjectCases(id, input, user);
+    } else {
+      // Stage permission is checked case by case
+      if (!canViewProject(actor, project)) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+      summary = await advanceProjectCases(id, input, user, request);
+    }
+
+    await prisma.activity.create({
+      data: {
+        action: input.action === 'assign' ? ActivityType.ASSIGNMENT_CHANGED : ActivityType.STAGE_CHANGED,
+        entityType: 'project',
+        entityId: id,
+        description: `Bulk ${input.action} on project ${project.code}: ${summary.updated} of ${summary.processed} cases updated`,
+        userId: user.id,
+        metadata: {
+          action: input.action,
+          processed: summary.processed,
+          updated: summary.updated,
+          skipped: summary.skipped,
+          failed: summary.failed,
+        },
+      },
+    });
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return handleApiError(error);
+  }
+}
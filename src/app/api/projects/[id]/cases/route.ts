@@ -0,0 +1,129 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { AttachProjectCasesSchema } from '@/lib/validations/project';
+import {
+  ProjectError,
+  attachCasesToProject,
+  canManageProject,
+  canViewProject,
+  findProject,
+  projectCasesWhere,
+} from '@/lib/projects';
+
+// GET /api/projects/[id]/cases - List the parcels (cases) of a project
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const project = await findProject(id);
+    if (!canViewProject(session.user, project)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const cases = await prisma.case.findMany({
+      where: projectCasesWhere(id),
+      select: {
+        id: true,
+        fileNumber: true,
+        title: true,
+        currentStage: true,
+        status: true,
+        priority: true,
+        propertyAddress: true,
+        propertyCoordinates: true,
+        ownerName: true,
+        appraisalValue: true,
+        compensationAmount: true,
+        progressPercentage: true,
+        assignedTo: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { fileNumber: 'asc' },
+    });
+
+    return NextResponse.json(cases);
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error fetching project cases:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project cases' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/cases - Attach existing cases to a project
+export async function POST(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = AttachProjectCasesSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const existing = await findProject(id);
+    if (!canManageProject(session.user, existing)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { project, attached } = await attachCasesToProject(id, validation.data.caseIds);
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'project',
+        entityId: id,
+        description: `Attached ${attached} cases to project ${project.code}`,
+        userId: session.user.id,
+        metadata: { caseIds: validation.data.caseIds },
+      },
+    });
+
+    return NextResponse.json({ attached });
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error attaching cases to project:', error);
+    return NextResponse.json(
+      { error: 'Failed to attach cases' },
+      { status: 500 }
+    );
+  }
+}
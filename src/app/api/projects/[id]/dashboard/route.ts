@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { ProjectError, buildProjectDashboard, canViewProject } from '@/lib/projects';
+
+// GET /api/projects/[id]/dashboard - Stage distribution, compensation and slowest parcels
+export async function GET(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const slowest = Math.min(Math.max(parseInt(searchParams.get('slowest') || '10', 10) || 10, 1), 50);
+
+    const dashboard = await buildProjectDashboard(id, { slowest });
+    if (!canViewProject(session.user, dashboard.project)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return NextResponse.json(dashboard);
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error building project dashboard:', error);
+    return NextResponse.json(
+      { error: 'Failed to build project dashboard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import { UpdateProjectSchema } from '@/lib/validations/project';
+import {
+  ProjectError,
+  canManageProject,
+  canViewProject,
+  findProject,
+  updateProject,
+} from '@/lib/projects';
+
+// GET /api/projects/[id] - Get a project
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const project = await findProject(id);
+    if (!canViewProject(session.user, project)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error fetching project:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id] - Update a project
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = UpdateProjectSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const existing = await findProject(id);
+    // Moving a project to another department needs rights over both
+    const targetDepartmentId = validation.data.departmentId ?? existing.departmentId;
+    if (!canManageProject(session.user, existing) || !canManageProject(session.user, { departmentId: targetDepartmentId })) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await updateProject(id, validation.data);
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'project',
+        entityId: id,
+        description: `Updated project ${project.code}`,
+        userId: session.user.id,
+        metadata: { fields: Object.keys(validation.data) },
+      },
+    });
+
+    return NextResponse.json(project);
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error updating project:', error);
+    return NextResponse.json(
+      { error: 'Failed to update project' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id] - Soft delete a project without cases
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const project = await findProject(id);
+    if (!canManageProject(session.user, project)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (project._count.cases > 0) {
+      return NextResponse.json(
+        { error: 'Project still has cases; move or remove them first' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.project.update({
+      where: { id },
+      data: { deletedAt: new Date(), deletedBy: session.user.id },
+    });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DELETED,
+        entityType: 'project',
+        entityId: id,
+        description: `Deleted project ${project.code}`,
+        userId: session.user.id,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error deleting project:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
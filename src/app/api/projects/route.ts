@@ -0,0 +1,110 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType, ProjectStatus, type Prisma } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { ProjectSchema } from '@/lib/validations/project';
+import {
+  PROJECT_INCLUDE,
+  ProjectError,
+  canManageProject,
+  createProject,
+} from '@/lib/projects';
+
+// GET /api/projects - List public works with their case counts
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const query = searchParams.get('query');
+    const departmentId = searchParams.get('departmentId');
+
+    const where: Prisma.ProjectWhereInput = { deletedAt: null };
+    if (status && status in ProjectStatus) where.status = status as ProjectStatus;
+    if (query) {
+      where.OR = [
+        { name: { contains: query } },
+        { code: { contains: query } },
+        { decree: { contains: query } },
+        { contractor: { contains: query } },
+      ];
+    }
+    // Other users only see the projects of their department
+    if (session.user.role !== 'super_admin') {
+      where.departmentId = session.user.departmentId;
+    } else if (departmentId) {
+      where.departmentId = departmentId;
+    }
+
+    const projects = await prisma.project.findMany({
+      where,
+      include: PROJECT_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(projects);
+  } catch (error) {
+    logger.error('Error fetching projects:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch projects' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects - Create a project
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = ProjectSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (!canManageProject(session.user, validation.data)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await createProject(validation.data, session.user.id);
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'project',
+        entityId: project.id,
+        description: `Created project ${project.code}: ${project.name}`,
+        userId: session.user.id,
+        metadata: {
+          code: project.code,
+          decree: project.decree,
+          budget: project.budget,
+          contractor: project.contractor,
+        },
+      },
+    });
+
+    return NextResponse.json(project, { status: 201 });
+  } catch (error) {
+    if (error instanceof ProjectError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error creating project:', error);
+    return NextResponse.json(
+      { error: 'Failed to create project' },
+      { status: 500 }
+    );
+  }
+}
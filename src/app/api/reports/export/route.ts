@@ -8,6 +8,7 @@ import ExcelJS from 'exceljs';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { logger } from '@/lib/logger';
+import { PARTY_ORDER, formatPartyList } from '@/lib/parties';
 
 interface ExportOptions {
   format: 'pdf' | 'excel';
@@ -175,6 +176,10 @@ async function fetchCases(departmentFilter: any, startDate: Date, endDate: Date)
       },
       assignedTo: {
         select: { firstName: true, lastName: true }
+      },
+      parties: {
+        select: { name: true, role: true, ownershipPercentage: true },
+        orderBy: PARTY_ORDER
       }
     },
     orderBy: { createdAt: 'desc' }
@@ -269,7 +274,7 @@ async function generatePDFReport(data: any, options: ExportOptions): Promise<Buf
       }
 
       yPosition = addText(`${index + 1}. ${case_.fileNumber} - ${case_.title}`, 11);
-      yPosition = addText(`   Propietario: ${case_.ownerName}`, 10);
+      yPosition = addText(`   Partes: ${formatPartyList(case_.parties) || case_.ownerName}`, 10);
       yPosition = addText(`   Estado: ${case_.status} | Prioridad: ${case_.priority}`, 10);
       yPosition = addText(`   Departamento: ${case_.department.name}`, 10);
       yPosition += 8;
@@ -338,7 +343,7 @@ async function generateExcelReport(data: any, options: ExportOptions): Promise<E
   if (options.includeCases && data.cases.length > 0) {
     const casesSheet = workbook.addWorksheet('Casos');
     const casesData = [
-      ['ID', 'Número de Caso', 'Título', 'Propietario', 'Dirección', 'Estado', 'Prioridad', 'Departamento', 'Creado por', 'Asignado a', 'Fecha de Creación', 'Fecha Límite']
+      ['ID', 'Número de Caso', 'Título', 'Propietario', 'Partes', 'Dirección', 'Estado', 'Prioridad', 'Departamento', 'Creado por', 'Asignado a', 'Fecha de Creación', 'Fecha Límite']
     ];
 
     data.cases.forEach((case_: any) => {
@@ -347,6 +352,7 @@ async function generateExcelReport(data: any, options: ExportOptions): Promise<E
         case_.fileNumber,
         case_.title,
         case_.ownerName,
+        formatPartyList(case_.parties),
         case_.propertyAddress,
         case_.status,
         case_.priority,
@@ -357,7 +363,7 @@ async function generateExcelReport(data: any, options: ExportOptions): Promise<E
         case_.expectedEndDate ? format(new Date(case_.expectedEndDate), 'dd/MM/yyyy') : ''
       ]);
     });
-    casesSheet.addRows(data.cases);
+    casesSheet.addRows(casesData);
   }
 
   // Alerts Sheet
@@ -0,0 +1,244 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType, type Prisma } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { URLParams } from '@/types';
+import {
+  RISK_ASSESSMENT_INCLUDE,
+  RISK_SOURCE_AUTOMATIC,
+  applyRiskAlertThresholds,
+  riskLevelForScore,
+  scoreRatings,
+} from '@/lib/risk';
+
+const rating = z.number().int().min(1).max(5);
+
+const updateRiskAssessmentSchema = z.object({
+  status: z.enum(['ACTIVE', 'MITIGATED', 'ACCEPTED', 'CLOSED']).optional(),
+  likelihood: rating.optional(),
+  impact: rating.optional(),
+  urgency: rating.optional(),
+  description: z.string().min(1).optional(),
+  mitigation: z.string().nullable().optional(),
+  contingency: z.string().nullable().optional(),
+  recommendations: z.json().optional(),
+  validUntil: z.iso.datetime().nullable().optional(),
+});
+
+// GET /api/risk-assessments/[id] - Get a risk assessment
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Other users only see the assessments of cases of their department
+    const assessment = await prisma.riskAssessment.findFirst({
+      where: {
+        id,
+        ...(session.user.role !== 'super_admin' && { case: { departmentId: session.user.departmentId } }),
+      },
+      include: RISK_ASSESSMENT_INCLUDE,
+    });
+
+    if (!assessment) {
+      return NextResponse.json(
+        { error: 'Risk assessment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(assessment);
+  } catch (error) {
+    logger.error('Error fetching risk assessment:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk assessment' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/risk-assessments/[id] - Update a risk assessment
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validationResult = updateRiskAssessmentSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const data = validationResult.data;
+
+    const existing = await prisma.riskAssessment.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Risk assessment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existing.assessedBy !== session.user.id && session.user.role !== 'super_admin') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const ratingsChanged = data.likelihood !== undefined || data.impact !== undefined || data.urgency !== undefined;
+    if (ratingsChanged && existing.source === RISK_SOURCE_AUTOMATIC) {
+      return NextResponse.json(
+        { error: 'Automatic assessments are derived from case data; run a new assessment instead' },
+        { status: 409 }
+      );
+    }
+
+    // Only include defined fields to handle exactOptionalPropertyTypes
+    const updateData: Prisma.RiskAssessmentUpdateInput = {};
+    if (data.status !== undefined) updateData.status = data.status;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.mitigation !== undefined) updateData.mitigation = data.mitigation;
+    if (data.contingency !== undefined) updateData.contingency = data.contingency;
+    if (data.recommendations !== undefined && data.recommendations !== null) {
+      updateData.recommendations = data.recommendations as Prisma.InputJsonValue;
+    }
+    if (data.validUntil !== undefined) updateData.validUntil = data.validUntil ? new Date(data.validUntil) : null;
+
+    if (ratingsChanged) {
+      const ratings = {
+        likelihood: data.likelihood ?? existing.likelihood,
+        impact: data.impact ?? existing.impact,
+        urgency: data.urgency ?? existing.urgency,
+      };
+      updateData.likelihood = ratings.likelihood;
+      updateData.impact = ratings.impact;
+      updateData.urgency = ratings.urgency;
+      updateData.riskScore = scoreRatings(ratings);
+      updateData.riskLevel = riskLevelForScore(updateData.riskScore);
+    }
+
+    const updated = await prisma.riskAssessment.update({
+      where: { id },
+      data: updateData,
+    });
+
+    if (updated.riskLevel !== existing.riskLevel) {
+      await applyRiskAlertThresholds({
+        assessment: updated,
+        previousLevel: existing.riskLevel,
+        actorId: session.user.id,
+      });
+    }
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'risk_assessment',
+        entityId: id,
+        description: `Updated risk assessment (${updated.riskLevel}, ${updated.status})`,
+        userId: session.user.id,
+        caseId: existing.caseId,
+        metadata: {
+          changes: Object.keys(updateData),
+          previousLevel: existing.riskLevel,
+          riskLevel: updated.riskLevel,
+        },
+      },
+    });
+
+    const assessment = await prisma.riskAssessment.findUniqueOrThrow({
+      where: { id },
+      include: RISK_ASSESSMENT_INCLUDE,
+    });
+
+    return NextResponse.json(assessment);
+  } catch (error) {
+    logger.error('Error updating risk assessment:', error);
+    return NextResponse.json(
+      { error: 'Failed to update risk assessment' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/risk-assessments/[id] - Delete a risk assessment and its alerts
+export async function DELETE(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await prisma.riskAssessment.findUnique({
+      where: { id },
+      select: { id: true, caseId: true, assessedBy: true, riskLevel: true },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Risk assessment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existing.assessedBy !== session.user.id && session.user.role !== 'super_admin') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    await prisma.riskAssessment.delete({ where: { id } });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DELETED,
+        entityType: 'risk_assessment',
+        entityId: id,
+        description: `Deleted risk assessment (${existing.riskLevel})`,
+        userId: session.user.id,
+        caseId: existing.caseId,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting risk assessment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete risk assessment' },
+      { status: 500 }
+    );
+  }
+}
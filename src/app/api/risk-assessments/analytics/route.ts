@@ -0,0 +1,40 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import type { Prisma } from '@/prisma/client';
+import { getRiskAnalytics } from '@/lib/risk';
+
+// GET /api/risk-assessments/analytics - Aggregate risk assessments
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const caseId = searchParams.get('caseId');
+    const departmentId = searchParams.get('departmentId');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    const where: Prisma.RiskAssessmentWhereInput = { case: { deletedAt: null } };
+    if (caseId) where.caseId = caseId;
+    if (departmentId) where.case = { deletedAt: null, departmentId };
+    if (startDate || endDate) {
+      where.assessmentDate = {
+        ...(startDate && { gte: new Date(startDate) }),
+        ...(endDate && { lte: new Date(endDate) }),
+      };
+    }
+
+    return NextResponse.json(await getRiskAnalytics(where));
+  } catch (error) {
+    logger.error('Error fetching risk analytics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk analytics' },
+      { status: 500 }
+    );
+  }
+}
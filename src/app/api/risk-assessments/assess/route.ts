@@ -0,0 +1,77 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType, CaseStage } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { RISK_SOURCE_AUTOMATIC, RiskAssessmentError, assessCaseRisk } from '@/lib/risk';
+
+const assessRiskSchema = z.object({
+  caseId: z.string().min(1),
+  stage: z.enum(CaseStage).optional(),
+});
+
+// POST /api/risk-assessments/assess - Assess a case's risk from its data
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = assessRiskSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const riskCase = await prisma.case.findUnique({
+      where: { id: validation.data.caseId, deletedAt: null },
+      select: { departmentId: true },
+    });
+    if (!riskCase) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+    if (session.user.role !== 'super_admin' && riskCase.departmentId !== session.user.departmentId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const assessment = await assessCaseRisk({
+      caseId: validation.data.caseId,
+      assessedBy: session.user.id,
+      ...(validation.data.stage && { stage: validation.data.stage }),
+    });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'risk_assessment',
+        entityId: assessment.id,
+        description: `Automatic risk assessment: ${assessment.riskLevel} (score ${assessment.riskScore})`,
+        userId: session.user.id,
+        caseId: assessment.caseId,
+        metadata: {
+          riskLevel: assessment.riskLevel,
+          riskScore: assessment.riskScore,
+          source: RISK_SOURCE_AUTOMATIC,
+          alertsRaised: assessment.alerts.length,
+        },
+      },
+    });
+
+    return NextResponse.json(assessment, { status: 201 });
+  } catch (error) {
+    if (error instanceof RiskAssessmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    logger.error('Error assessing case risk:', error);
+    return NextResponse.json(
+      { error: 'Risk assessment failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType, CaseStage, RiskLevel, type Prisma } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import {
+  RISK_ASSESSMENT_INCLUDE,
+  RISK_SOURCE_MANUAL,
+  applyRiskAlertThresholds,
+  getPreviousRiskLevel,
+  riskLevelForScore,
+  scoreRatings,
+} from '@/lib/risk';
+
+const rating = z.number().int().min(1).max(5);
+
+const createRiskAssessmentSchema = z.object({
+  caseId: z.string().min(1),
+  stage: z.enum(CaseStage).optional(),
+  likelihood: rating,
+  impact: rating,
+  urgency: rating,
+  description: z.string().min(1),
+  mitigation: z.string().optional(),
+  contingency: z.string().optional(),
+  recommendations: z.json().optional(),
+  riskFactors: z.json().optional(),
+  validUntil: z.iso.datetime().optional(),
+});
+
+const RISK_STATUSES = ['ACTIVE', 'MITIGATED', 'ACCEPTED', 'CLOSED'];
+
+// GET /api/risk-assessments - List risk assessments
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const caseId = searchParams.get('caseId');
+    const stage = searchParams.get('stage');
+    const status = searchParams.get('status');
+    const riskLevel = searchParams.get('riskLevel');
+
+    const where: Prisma.RiskAssessmentWhereInput = {};
+    if (caseId) where.caseId = caseId;
+    if (stage && stage in CaseStage) where.stage = stage as CaseStage;
+    if (status && RISK_STATUSES.includes(status)) where.status = status;
+    if (riskLevel && riskLevel in RiskLevel) where.riskLevel = riskLevel as RiskLevel;
+    // Other users only see the assessments of cases of their department
+    if (session.user.role !== 'super_admin') {
+      where.case = { departmentId: session.user.departmentId };
+    }
+
+    const assessments = await prisma.riskAssessment.findMany({
+      where,
+      include: RISK_ASSESSMENT_INCLUDE,
+      orderBy: { assessmentDate: 'desc' },
+    });
+
+    return NextResponse.json(assessments);
+  } catch (error) {
+    logger.error('Error fetching risk assessments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk assessments' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/risk-assessments - Record a manual risk assessment
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = createRiskAssessmentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+    const data = validation.data;
+
+    const caseExists = await prisma.case.findUnique({
+      where: { id: data.caseId, deletedAt: null },
+      select: { id: true, currentStage: true, departmentId: true },
+    });
+    if (!caseExists) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+    if (session.user.role !== 'super_admin' && caseExists.departmentId !== session.user.departmentId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    // Score and level come from the ratings, never from the client
+    const ratings = { likelihood: data.likelihood, impact: data.impact, urgency: data.urgency };
+    const riskScore = scoreRatings(ratings);
+    const riskLevel = riskLevelForScore(riskScore);
+    const previousLevel = await getPreviousRiskLevel(data.caseId);
+
+    const created = await prisma.riskAssessment.create({
+      data: {
+        caseId: data.caseId,
+        stage: data.stage ?? caseExists.currentStage,
+        source: RISK_SOURCE_MANUAL,
+        riskFactors: (data.riskFactors ?? ratings) as Prisma.InputJsonValue,
+        riskLevel,
+        riskScore,
+        ...ratings,
+        description: data.description,
+        mitigation: data.mitigation ?? null,
+        contingency: data.contingency ?? null,
+        ...(data.recommendations !== undefined &&
+          data.recommendations !== null && { recommendations: data.recommendations as Prisma.InputJsonValue }),
+        validUntil: data.validUntil ? new Date(data.validUntil) : null,
+        assessedBy: session.user.id,
+      },
+    });
+
+    await applyRiskAlertThresholds({ assessment: created, previousLevel, actorId: session.user.id });
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.CREATED,
+        entityType: 'risk_assessment',
+        entityId: created.id,
+        description: `Risk assessment recorded: ${riskLevel} (score ${riskScore})`,
+        userId: session.user.id,
+        caseId: data.caseId,
+        metadata: { riskLevel, riskScore, previousLevel, source: RISK_SOURCE_MANUAL },
+      },
+    });
+
+    const assessment = await prisma.riskAssessment.findUniqueOrThrow({
+      where: { id: created.id },
+      include: RISK_ASSESSMENT_INCLUDE,
+    });
+
+    return NextResponse.json(assessment, { status: 201 });
+  } catch (error) {
+    logger.error('Error creating risk assessment:', error);
+    return NextResponse.json(
+      { error: 'Failed to create risk assessment' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,12 +7,14 @@ import { z } from 'zod';
 import { logActivity } from '@/lib/activity-logger';
 import { normalizePermissions } from '@/types/permissions';
 import { logger } from '@/lib/logger';
+import { DocumentSecurityLevel } from '@/prisma/client';
 
 // Base role schema
 const baseRoleSchema = z.object({
   name: z.string().min(1, 'El nombre del rol es requerido'),
   description: z.string().nullable().optional(),
   permissions: z.record(z.string(), z.boolean()).transform(normalizePermissions),
+  clearanceLevel: z.enum(DocumentSecurityLevel).optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -263,6 +265,9 @@ export async function PUT(request: NextRequest) {
     if (updateData.permissions !== undefined) {
       cleanUpdateData.permissions = normalizePermissions(updateData.permissions);
     }
+    if (updateData.clearanceLevel !== undefined) {
+      cleanUpdateData.clearanceLevel = updateData.clearanceLevel;
+    }
 
     const updatedRole = await prisma.role.update({
       where: { id },
@@ -5,6 +5,8 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { partyMatchConditions } from '@/lib/parties';
+import { clearedDocumentWhere, getUserClearance, isRedactedFor } from '@/lib/document-access';
 
 const searchSchema = z.object({
   q: z.string().min(1).max(100),
@@ -91,13 +93,16 @@ export async function GET(request: NextRequest) {
                 { title: { contains: query } },
                 { description: { contains: query } },
                 { propertyAddress: { contains: query } },
-                { ownerName: { contains: query } },
                 { ownerEmail: { contains: query } },
+                ...partyMatchConditions(query),
               ]
             }
           ]
         },
         include: {
+          parties: {
+            select: { name: true, identification: true }
+          },
           assignments: {
             include: {
               user: {
@@ -127,7 +132,13 @@ export async function GET(request: NextRequest) {
         const relevance = calculateRelevance(
           params.q,
           case_.title,
-          `${case_.description} ${case_.fileNumber} ${case_.propertyAddress} ${case_.ownerName}`
+          [
+            case_.description,
+            case_.fileNumber,
+            case_.propertyAddress,
+            case_.ownerName,
+            ...case_.parties.flatMap(party => [party.name, party.identification ?? '']),
+          ].join(' ')
         );
 
         if (relevance > 0.1) {
@@ -154,6 +165,7 @@ export async function GET(request: NextRequest) {
 
     // Search Documents
     if (params.type === 'all' || params.type === 'document') {
+      const clearance = await getUserClearance(session.user.id);
       const documents = await prisma.document.findMany({
         where: {
           AND: [
@@ -169,6 +181,16 @@ export async function GET(request: NextRequest) {
                 { title: { contains: query } },
                 { tags: { contains: query } },
               ]
+            },
+            // Descriptions above the user's clearance are not searchable
+            {
+              OR: [
+                clearedDocumentWhere(session.user.id, clearance),
+                { fileName: { contains: query } },
+                { originalFileName: { contains: query } },
+                { title: { contains: query } },
+                { tags: { contains: query } },
+              ]
             }
           ]
         },
@@ -186,10 +208,11 @@ export async function GET(request: NextRequest) {
       });
 
       documents.forEach(doc => {
+        const redacted = isRedactedFor(doc, session.user.id, clearance);
         const relevance = calculateRelevance(
           params.q,
           doc.originalFileName || doc.fileName,
-          doc.description || ''
+          redacted ? doc.title : doc.description || ''
         );
 
         if (relevance > 0.1) {
@@ -197,12 +220,13 @@ export async function GET(request: NextRequest) {
             id: doc.id,
             type: 'document',
             title: doc.originalFileName || doc.fileName,
-            description: doc.description || `Documento: ${doc.title}`,
+            description: (!redacted && doc.description) || `Documento: ${doc.title}`,
             metadata: {
               documentType: doc.documentType,
               category: doc.category,
               status: doc.status,
               securityLevel: doc.securityLevel,
+              redacted,
               fileSize: doc.fileSize,
               mimeType: doc.mimeType,
               uploadedBy: doc.uploadedBy?.firstName && doc.uploadedBy?.lastName
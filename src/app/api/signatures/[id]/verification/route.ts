@@ -0,0 +1,59 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { SignatureError, verifyDigitalSignature } from '@/lib/signatures';
+import { URLParams } from '@/types';
+
+// GET /api/signatures/[id]/verification - Download the verification report
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await verifyDigitalSignature(id, session.user.id);
+
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.DOWNLOADED,
+        entityType: 'digital_signature',
+        entityId: id,
+        description: `Signature verification report downloaded: ${report.isValid ? 'valid' : 'invalid'}`,
+        userId: session.user.id,
+        metadata: { signatureId: id, isValid: report.isValid },
+      },
+    });
+
+    return new NextResponse(JSON.stringify(report, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="verificacion-firma-${id}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    logger.error('Error generating signature verification report:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify digital signature' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,16 @@ import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth';
 import { ActivityType, SignatureType } from '@/prisma/client';
-import crypto from 'crypto';
 import { logger } from '@/lib/logger';
+import { SignatureError, createDigitalSignature, verifyDigitalSignature } from '@/lib/signatures';
+import {
+  delegationAttribution,
+  delegatorName,
+  findActiveDelegation,
+  loadCaseDelegationScope,
+  recordDelegatedAction,
+} from '@/lib/delegations';
 import type {
-  DigitalSignatureWithUser,
   DigitalSignatureResponse,
   VerifySignatureRequest,
   SignatureVerificationResult,
@@ -17,20 +23,6 @@ import type {
   SignatureFilters
 } from '@/lib/types/signatures';
 
-// Encryption helper functions
-const encryptSignatureData = (data: string): string => {
-  const algorithm = 'aes-256-gcm';
-  const key = crypto.scryptSync(process.env.SIGNATURE_SECRET || 'default-secret', 'salt', 32);
-  const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipheriv(algorithm, key, iv);
-
-  let encrypted = cipher.update(data, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-
-  const authTag = cipher.getAuthTag();
-  return iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
-};
-
 // GET /api/signatures - Get signatures
 export async function GET(request: NextRequest) {
   try {
@@ -89,6 +81,21 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Case a signed entity belongs to, which scopes the delegations that cover it
+async function findSignedEntityCaseId(entityType: string, entityId: string): Promise<string | null> {
+  if (entityType === 'case') {
+    return entityId;
+  }
+  if (entityType === 'document') {
+    const document = await prisma.document.findUnique({
+      where: { id: entityId },
+      select: { caseId: true },
+    });
+    return document?.caseId ?? null;
+  }
+  return null;
+}
+
 // POST /api/signatures - Create digital signature
 export async function POST(request: NextRequest) {
   try {
@@ -99,6 +106,22 @@ export async function POST(request: NextRequest) {
 
     const body: CreateSignatureRequest = await request.json();
 
+    // Signing for another official requires a delegation from them covering the entity's case
+    const caseId = await findSignedEntityCaseId(body.entityType, body.entityId);
+    const delegation = body.delegatedBy
+      ? await findActiveDelegation(
+          session.user.id,
+          body.delegatedBy,
+          (caseId && (await loadCaseDelegationScope(caseId))) || { stage: null, departmentId: null }
+        )
+      : null;
+    if (body.delegatedBy && !delegation) {
+      return NextResponse.json(
+        { error: 'No active delegation allows signing on behalf of this user' },
+        { status: 403 }
+      );
+    }
+
     // Check if user already signed this entity
     const existingSignature = await prisma.digitalSignature.findFirst({
       where: {
@@ -106,6 +129,7 @@ export async function POST(request: NextRequest) {
         entityType: body.entityType,
         entityId: body.entityId,
         signatureType: body.signatureType,
+        delegatedBy: body.delegatedBy || null,
         isActive: true,
       },
     });
@@ -117,40 +141,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Encrypt signature data
-    const encryptedSignatureData = encryptSignatureData(body.signatureData);
-
     // Get request metadata
     const ipAddress = request.headers.get('x-forwarded-for') || '';
 
-    const signature: DigitalSignatureWithUser = await prisma.digitalSignature.create({
-      data: {
-        userId: session.user.id,
-        signatureType: body.signatureType,
-        entityType: body.entityType,
-        entityId: body.entityId,
-        signatureData: encryptedSignatureData,
-        delegatedBy: body.delegatedBy || null,
-        delegationReason: body.delegationReason || null,
-        ipAddress,
-        deviceInfo: {
-          timestamp: new Date().toISOString(),
-          sessionId: session.user.id,
-        },
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            username: true,
-            isActive: true,
-            isSuspended: true,
-            createdAt: true,
-          },
-        },
+    const signature = await createDigitalSignature({
+      userId: session.user.id,
+      signatureType: body.signatureType,
+      entityType: body.entityType,
+      entityId: body.entityId,
+      signatureData: body.signatureData,
+      delegatedBy: body.delegatedBy || null,
+      delegationReason: body.delegationReason || delegation?.reason || null,
+      ipAddress,
+      deviceInfo: {
+        timestamp: new Date().toISOString(),
+        sessionId: session.user.id,
       },
     });
 
@@ -159,11 +164,15 @@ export async function POST(request: NextRequest) {
       action: ActivityType.APPROVED,
       entityType: body.entityType,
       entityId: body.entityId,
-      description: `Digital signature created for ${body.entityType} (${body.signatureType})`,
+      description: `Digital signature created for ${body.entityType} (${body.signatureType})` +
+        (delegation ? ` on behalf of ${delegatorName(delegation)}` : ''),
       userId: session.user.id,
       metadata: {
         signatureId: signature.id,
         signatureType: body.signatureType,
+        documentHash: signature.documentHash,
+        verificationCode: signature.verificationCode,
+        ...(delegation && delegationAttribution(delegation)),
       } as ActivityMetadata,
     };
 
@@ -171,6 +180,17 @@ export async function POST(request: NextRequest) {
       data: activityData,
     });
 
+    if (delegation && caseId) {
+      await recordDelegatedAction({
+        delegation,
+        actorId: session.user.id,
+        caseId,
+        action: 'signature',
+        subject: `${body.entityType} ${body.signatureType}`,
+        details: { signatureId: signature.id, entityType: body.entityType, entityId: body.entityId },
+      });
+    }
+
     // Create base response object
     const signatureResponse: SignatureCreateResponse = {
       id: signature.id,
@@ -194,9 +214,19 @@ export async function POST(request: NextRequest) {
     if (signature.delegationReason) {
       signatureResponse.delegationReason = signature.delegationReason;
     }
+    if (signature.documentHash && signature.documentVersion !== null) {
+      signatureResponse.documentVersion = signature.documentVersion;
+      signatureResponse.documentHash = signature.documentHash;
+    }
+    if (signature.verificationCode) {
+      signatureResponse.verificationCode = signature.verificationCode;
+    }
 
     return NextResponse.json(signatureResponse, { status: 201 });
   } catch (error) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     logger.error('Error creating digital signature:', error);
     return NextResponse.json(
       { error: 'Failed to create digital signature' },
@@ -205,7 +235,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PUT /api/signatures/verify - Verify signature
+// PUT /api/signatures - Verify signature
 export async function PUT(request: NextRequest) {
   try {
     const session = await getSession();
@@ -214,63 +244,29 @@ export async function PUT(request: NextRequest) {
     }
 
     const body: VerifySignatureRequest = await request.json();
-
-    const signature: DigitalSignatureWithUser | null = await prisma.digitalSignature.findUnique({
-      where: { id: body.signatureId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            username: true,
-            isActive: true,
-            isSuspended: true,
-            createdAt: true,
-          },
-        },
-      },
-    });
-
-    if (!signature) {
-      return NextResponse.json(
-        { error: 'Signature not found' },
-        { status: 404 }
-      );
-    }
-
-    if (!signature.isActive) {
-      return NextResponse.json(
-        { error: 'Signature has been revoked' },
-        { status: 400 }
-      );
+    if (!body.signatureId) {
+      return NextResponse.json({ error: 'signatureId is required' }, { status: 400 });
     }
 
-    // Verify signature logic would go here
-    // For now, we'll just return the signature info
-    const verificationResult: SignatureVerificationResult = {
-      isValid: true,
-      verifiedAt: new Date(),
-      verifiedBy: session.user.id,
-      signatureInfo: {
-        id: signature.id,
-        signatureType: signature.signatureType,
-        entityType: signature.entityType,
-        entityId: signature.entityId,
-        createdAt: signature.createdAt,
-        user: signature.user,
-      },
-    };
+    const verificationResult: SignatureVerificationResult = await verifyDigitalSignature(
+      body.signatureId,
+      session.user.id
+    );
 
     // Log verification activity
     const verificationActivityData: CreateActivityData = {
       action: ActivityType.VIEWED,
       entityType: 'digital_signature',
-      entityId: signature.id,
-      description: `Digital signature verified`,
+      entityId: body.signatureId,
+      description: `Digital signature verified: ${verificationResult.isValid ? 'valid' : 'invalid'}`,
       userId: session.user.id,
-      metadata: verificationResult as ActivityMetadata,
+      metadata: {
+        signatureId: body.signatureId,
+        isValid: verificationResult.isValid,
+        failedChecks: verificationResult.checks
+          .filter(check => check.status === 'failed')
+          .map(check => check.name),
+      } as ActivityMetadata,
     };
 
     await prisma.activity.create({
@@ -279,10 +275,13 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json(verificationResult);
   } catch (error) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     logger.error('Error verifying digital signature:', error);
     return NextResponse.json(
       { error: 'Failed to verify digital signature' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { businessHoursBetween, loadSlaContext, resolveStageTimeLimit } from '@/lib/sla';
 
 // GET /api/time-tracking/analytics - Get time tracking analytics
 export async function GET(request: NextRequest) {
@@ -79,6 +80,22 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Business hours of each entry against the SLA of its stage
+    const now = new Date();
+    const slaContext = await loadSlaContext(now);
+    const entrySla = new Map(
+      timeEntries.map(entry => {
+        const limit = resolveStageTimeLimit(slaContext, entry.stage, entry.case.departmentId, entry.startTime);
+        const businessHours = businessHoursBetween(
+          entry.startTime,
+          entry.endTime ?? now,
+          slaContext.calendar,
+          limit.options
+        );
+        return [entry.id, { businessHours, breached: businessHours > limit.maxTimeHours }];
+      })
+    );
+
     // Calculate analytics
     const analytics = {
       overview: {
@@ -95,11 +112,18 @@ export async function GET(request: NextRequest) {
             count: 0,
             totalDuration: 0,
             averageDuration: 0,
+            totalBusinessHours: 0,
+            averageBusinessHours: 0,
+            withinSla: 0,
+            breachedSla: 0,
             entries: [],
           };
         }
+        const sla = entrySla.get(entry.id)!;
         acc[entry.stage].count++;
         acc[entry.stage].totalDuration += entry.duration || 0;
+        acc[entry.stage].totalBusinessHours += sla.businessHours;
+        acc[entry.stage][sla.breached ? 'breachedSla' : 'withinSla']++;
         acc[entry.stage].entries.push(entry);
         return acc;
       }, {} as Record<string, any>),
@@ -134,6 +158,10 @@ export async function GET(request: NextRequest) {
       stage.averageDuration = stage.count > 0
         ? Math.floor(stage.totalDuration / stage.count)
         : 0;
+      stage.totalBusinessHours = Math.round(stage.totalBusinessHours * 100) / 100;
+      stage.averageBusinessHours = stage.count > 0
+        ? Math.round((stage.totalBusinessHours / stage.count) * 100) / 100
+        : 0;
     });
 
     Object.values(analytics.byUser).forEach((user: any) => {
@@ -5,6 +5,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { logActivity } from '@/lib/activity-logger';
+import { DocumentSecurityLevel } from '@/prisma/client';
 import type { Prisma } from '@/prisma/client';
 import { URLParams } from '@/types';
 
@@ -100,6 +101,22 @@ export async function PUT(
     }
     const body = await request.json();
 
+    // Document clearance is granted by user managers only, null falls back to the role
+    if (body.clearanceLevel !== undefined) {
+      if (!session.user.permissions?.canManageUsers) {
+        return NextResponse.json(
+          { error: 'No tiene permisos para cambiar el nivel de acceso a documentos' },
+          { status: 403 }
+        );
+      }
+      if (body.clearanceLevel !== null && !Object.values(DocumentSecurityLevel).includes(body.clearanceLevel)) {
+        return NextResponse.json(
+          { error: 'Nivel de acceso a documentos inválido' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
       where: { id },
@@ -31,6 +31,7 @@ interface CreateUserRequest {
   emailNotifications?: boolean;
   emailMarketing?: boolean;
   emailDigest?: boolean;
+  emailDigestFrequency?: 'daily' | 'weekly';
   theme?: string;
   dateRange?: string;
   dashboardConfig?: string;
@@ -0,0 +1,178 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ActivityType, CaseStage } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import type { Prisma } from '@/prisma/client';
+import { URLParams } from '@/types';
+import {
+  checkRuleDependencies,
+  validateRuleExpression,
+} from '@/lib/services/validation-rule.service';
+
+const updateValidationRuleSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  stage: z.enum(CaseStage).nullable().optional(),
+  expression: z.string().optional(),
+  errorMessage: z.string().min(1).optional(),
+  severity: z.enum(['ERROR', 'WARNING', 'INFO']).optional(),
+  isActive: z.boolean().optional(),
+  dependsOn: z.array(z.string()).optional(),
+});
+
+// GET /api/validation/rules/[id] - Get a validation rule
+export async function GET(
+  _request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rule = await prisma.validationRule.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: {
+            executions: true,
+          },
+        },
+      },
+    });
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Validation rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    logger.error('Error fetching validation rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch validation rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/validation/rules/[id] - Update a validation rule
+export async function PUT(
+  request: NextRequest,
+  { params }: URLParams
+) {
+  const { id } = await params;
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Bad Request: missing key param'},
+      { status: 400 }
+    )
+  }
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateValidationRuleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    const existingRule = await prisma.validationRule.findUnique({
+      where: { id },
+    });
+
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Validation rule not found' },
+        { status: 404 }
+      );
+    }
+
+    if (data.expression !== undefined) {
+      const report = validateRuleExpression(existingRule.type, data.expression);
+      if (!report.valid) {
+        return NextResponse.json(
+          { error: 'Invalid rule expression', diagnostics: report.diagnostics },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Changing prerequisites is where a cycle can be introduced
+    if (data.dependsOn !== undefined) {
+      const dependencies = await checkRuleDependencies(id, data.dependsOn);
+      if (!dependencies.valid) {
+        return NextResponse.json(
+          {
+            error: dependencies.cycle
+              ? 'Rule dependencies form a cycle'
+              : 'Rule depends on unknown validation rules',
+            missing: dependencies.missing,
+            cycle: dependencies.cycle,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Only include defined fields to handle exactOptionalPropertyTypes
+    const updateData: Prisma.ValidationRuleUpdateInput = {};
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.stage !== undefined) updateData.stage = data.stage;
+    if (data.expression !== undefined) updateData.expression = data.expression;
+    if (data.errorMessage !== undefined) updateData.errorMessage = data.errorMessage;
+    if (data.severity !== undefined) updateData.severity = data.severity;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+    if (data.dependsOn !== undefined) updateData.dependsOn = data.dependsOn;
+
+    const rule = await prisma.validationRule.update({
+      where: { id },
+      data: updateData,
+    });
+
+    // Log activity
+    await prisma.activity.create({
+      data: {
+        action: ActivityType.UPDATED,
+        entityType: 'validation_rule',
+        entityId: rule.id,
+        description: `Updated validation rule: ${rule.name}`,
+        userId: session.user.id,
+        metadata: {
+          changes: Object.keys(updateData),
+        },
+      },
+    });
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    logger.error('Error updating validation rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update validation rule' },
+      { status: 500 }
+    );
+  }
+}
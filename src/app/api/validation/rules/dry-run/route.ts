@@ -0,0 +1,95 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth';
+import { ValidationRuleType } from '@/prisma/client';
+import { logger } from '@/lib/logger';
+import { loadWorkCalendar } from '@/lib/sla';
+import {
+  buildCaseRuleScope,
+  canEvaluateRulesOnCase,
+  canManageValidationRules,
+  evaluateValidationRule,
+  validateRuleExpression,
+} from '@/lib/services/validation-rule.service';
+
+// Client-supplied values the list-based rule types read instead of case fields
+const dryRunContextSchema = z.looseObject({
+  documents: z.array(z.object({ type: z.string() })).optional(),
+  startDate: z.iso.datetime().or(z.iso.date()).optional(),
+  estimatedValue: z.number().or(z.string()).optional(),
+});
+
+const dryRunSchema = z.object({
+  type: z.enum(ValidationRuleType),
+  expression: z.string(),
+  errorMessage: z.string().optional(),
+  caseId: z.string().min(1).optional(),
+  context: dryRunContextSchema.optional(),
+});
+
+// POST /api/validation/rules/dry-run - Check a rule without saving it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!canManageValidationRules(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // A body that is not JSON fails validation like any other bad input
+    const body = await request.json().catch(() => null);
+    const validationResult = dryRunSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { type, expression, errorMessage, caseId, context } = validationResult.data;
+    const report = validateRuleExpression(type, expression);
+
+    // Only evaluate syntactically valid rules against a sample case
+    if (!report.valid || !caseId) {
+      return NextResponse.json({ ...report, evaluation: null });
+    }
+
+    const caseRecord = await prisma.case.findUnique({
+      where: { id: caseId },
+      select: { departmentId: true, createdById: true, assignedToId: true, supervisedById: true },
+    });
+    if (caseRecord && !canEvaluateRulesOnCase(session.user, caseRecord)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const scope = caseRecord && await buildCaseRuleScope(caseId);
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'A case with the provided ID was NOT found.' },
+        { status: 404 }
+      );
+    }
+
+    const evaluation = evaluateValidationRule(
+      { type, expression, errorMessage: errorMessage ?? 'La regla no se cumple' },
+      scope,
+      context,
+      new Date(),
+      type === ValidationRuleType.TIME_LIMIT ? await loadWorkCalendar() : undefined
+    );
+
+    return NextResponse.json({ ...report, evaluation });
+  } catch (error) {
+    logger.error('Error running validation rule dry run:', error);
+    return NextResponse.json(
+      { error: 'Failed to run validation rule dry run' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,11 @@ import { getSession } from '@/lib/auth';
 import { ActivityType, ValidationRuleType } from '@/prisma/client';
 import { logger } from '@/lib/logger';
 import type { Prisma } from '@/prisma/client';
+import {
+  checkRuleDependencies,
+  parseDependsOn,
+  validateRuleExpression,
+} from '@/lib/services/validation-rule.service';
 
 // GET /api/validation/rules - Get validation rules
 export async function GET(request: NextRequest) {
@@ -66,6 +71,38 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
 
+    if (!Object.values(ValidationRuleType).includes(body.type)) {
+      return NextResponse.json(
+        { error: 'Invalid validation rule type' },
+        { status: 400 }
+      );
+    }
+
+    // Reject rules that would never evaluate before they reach the database
+    const report = validateRuleExpression(body.type, body.expression ?? '');
+    if (!report.valid) {
+      return NextResponse.json(
+        { error: 'Invalid rule expression', diagnostics: report.diagnostics },
+        { status: 400 }
+      );
+    }
+
+    // Prerequisites must exist and must not form a cycle
+    const dependsOn = parseDependsOn(body.dependsOn);
+    const dependencies = await checkRuleDependencies(null, dependsOn);
+    if (!dependencies.valid) {
+      return NextResponse.json(
+        {
+          error: dependencies.cycle
+            ? 'Rule dependencies form a cycle'
+            : 'Rule depends on unknown validation rules',
+          missing: dependencies.missing,
+          cycle: dependencies.cycle,
+        },
+        { status: 400 }
+      );
+    }
+
     const validationCreatePayload: Prisma.ValidationRuleCreateInput = {
       name: body.name,
       description: body.description,
@@ -74,7 +111,7 @@ export async function POST(request: NextRequest) {
       expression: body.expression,
       errorMessage: body.errorMessage,
       severity: body.severity,
-      dependsOn: body.dependsOn,
+      dependsOn,
     }
 
     const rule = await prisma.validationRule.create({
@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { createFixedWindowLimiter, getClientIp } from '@/lib/rate-limiter';
+import { getPublicVerification } from '@/lib/signatures';
+import { URLParams } from '@/types';
+
+// 30 lookups per 15 minutes per address; enough for someone checking a stack
+// of printed documents, too few to enumerate codes
+const MAX_LOOKUPS = 30;
+const LOOKUP_WINDOW_MS = 15 * 60 * 1000;
+const lookups = createFixedWindowLimiter({ maxRequests: MAX_LOOKUPS, windowMs: LOOKUP_WINDOW_MS });
+
+// GET /api/verify/[code] - Check a signed document's verification code (no session required)
+export async function GET(request: NextRequest, { params }: URLParams) {
+  try {
+    const { code } = await params;
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Bad Request: missing key param' },
+        { status: 400 }
+      );
+    }
+
+    if (!lookups.consume(getClientIp(request))) {
+      return NextResponse.json(
+        { error: 'Demasiadas consultas. Por favor, espere 15 minutos antes de intentar nuevamente.' },
+        { status: 429, headers: { 'Retry-After': String(LOOKUP_WINDOW_MS / 1000) } }
+      );
+    }
+
+    const verification = await getPublicVerification(code);
+    if (!verification) {
+      return NextResponse.json({ error: 'Verification code not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(verification, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    logger.error('Error verifying signature code:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { Suspense } from 'react';
+import { MailX } from 'lucide-react';
+import { UnsubscribeForm } from '@/components/auth/unsubscribe-form';
+
+export default function UnsubscribePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <div className="flex justify-center mb-6">
+            <div className="p-3 bg-primary rounded-full">
+              <MailX className="h-8 w-8 text-primary-foreground" />
+            </div>
+          </div>
+          <h2 className="mt-6 text-3xl font-bold text-gray-900">
+            Resumen por Correo
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Plataforma MOPC - Sistema de Gestión de Casos
+          </p>
+        </div>
+
+        <Suspense fallback={null}>
+          <UnsubscribeForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
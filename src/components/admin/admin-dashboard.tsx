@@ -26,6 +26,7 @@ import { BackupManagementPanel } from './backup-management-panel'
 import { SystemLogsPanel } from './system-logs-panel'
 import { PerformanceMonitoringPanel } from './performance-monitoring-panel'
 import { HolidayManagementPanel } from './holiday-management-panel'
+import { ReminderManagementPanel } from './reminder-management-panel'
 import { SecurityConfigurationPanel } from './security-configuration-panel'
 import { UsageStatisticsPanel } from './usage-statistics-panel'
 import { AdminDashboardSkeleton } from './admin-dashboard-skeleton'
@@ -249,6 +250,10 @@ export function AdminDashboard() {
             <Calendar className="h-4 w-4" />
             <span className="hidden sm:inline">Festivos</span>
           </TabsTrigger>
+          <TabsTrigger value="reminders" className="flex items-center gap-2">
+            <Bell className="h-4 w-4" />
+            <span className="hidden sm:inline">Recordatorios</span>
+          </TabsTrigger>
           <TabsTrigger value="security" className="flex items-center gap-2">
             <Shield className="h-4 w-4" />
             <span className="hidden sm:inline">Seguridad</span>
@@ -283,6 +288,10 @@ export function AdminDashboard() {
           <HolidayManagementPanel />
         </TabsContent>
 
+        <TabsContent value="reminders" className="space-y-4">
+          <ReminderManagementPanel />
+        </TabsContent>
+
         <TabsContent value="security" className="space-y-4">
           <SecurityConfigurationPanel />
         </TabsContent>
@@ -1,30 +1,842 @@
 'use client'
 
+import { useState, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Play,
+  ShieldCheck,
+  RotateCcw,
+} from 'lucide-react'
+import clientLogger from '@/lib/client-logger';
+
+interface BackupJob {
+  id: string
+  configurationId: string
+  type: string
+  status: string
+  progress: number
+  backupSize?: number | null
+  compressedSize?: number | null
+  filePath?: string | null
+  checksum?: string | null
+  startedAt?: string | null
+  completedAt?: string | null
+  duration?: number | null
+  recordsBackedUp?: number | null
+  filesBackedUp?: number | null
+  errorMessage?: string | null
+  createdAt: string
+  configuration?: { id: string; name: string }
+}
+
+interface BackupConfiguration {
+  id: string
+  name: string
+  schedule: string
+  retentionDays: number
+  compression: boolean
+  storagePath?: string | null
+  includeTables?: string[] | null
+  includeFiles: boolean
+  isActive: boolean
+  maxBackupSize?: number | null
+  verifyIntegrity: boolean
+  notifyOnSuccess: boolean
+  notifyOnFailure: boolean
+  notificationEmail?: string | null
+  lastRunAt?: string | null
+  nextRunAt?: string | null
+  lastJob?: BackupJob | null
+}
+
+interface RestorationJob {
+  id: string
+  type: string
+  status: string
+  progress: number
+  caseId?: string | null
+  recordsRestored?: number | null
+  filesRestored?: number | null
+  verificationStatus?: string | null
+  errorMessage?: string | null
+  createdAt: string
+  completedAt?: string | null
+  backupJob: { id: string; createdAt: string; configuration: { name: string } }
+}
+
+interface BackupForm {
+  id: string
+  name: string
+  schedule: string
+  retentionDays: string
+  compression: boolean
+  storagePath: string
+  tables: string[]
+  includeFiles: boolean
+  isActive: boolean
+  maxBackupSize: string
+  verifyIntegrity: boolean
+  notifyOnSuccess: boolean
+  notifyOnFailure: boolean
+  notificationEmail: string
+}
+
+interface RestoreForm {
+  job: BackupJob
+  type: 'full' | 'partial'
+  caseId: string
+  restoreFiles: boolean
+}
+
+const BACKUP_TABLES: Record<string, string> = {
+  cases: 'Casos',
+  case_stage_assignments: 'Asignaciones de etapa',
+  case_histories: 'Historial de casos',
+  documents: 'Documentos (metadatos)',
+  document_versions: 'Versiones de documentos',
+  activities: 'Actividad',
+}
+
+const JOB_STATUS_LABELS: Record<string, string> = {
+  pending: 'En cola',
+  running: 'En curso',
+  completed: 'Completado',
+  failed: 'Fallido',
+  cancelled: 'Cancelado',
+  expired: 'Expirado',
+}
+
+const JOB_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  cancelled: 'secondary',
+  expired: 'outline',
+}
+
+// Jobs are polled while any of them is still in progress
+const POLL_INTERVAL_MS = 3000
+
+const EMPTY_FORM: BackupForm = {
+  id: '',
+  name: '',
+  schedule: '0 2 * * *',
+  retentionDays: '30',
+  compression: true,
+  storagePath: '',
+  tables: Object.keys(BACKUP_TABLES),
+  includeFiles: true,
+  isActive: true,
+  maxBackupSize: '',
+  verifyIntegrity: true,
+  notifyOnSuccess: false,
+  notifyOnFailure: true,
+  notificationEmail: '',
+}
+
+function toForm(config: BackupConfiguration): BackupForm {
+  return {
+    id: config.id,
+    name: config.name,
+    schedule: config.schedule,
+    retentionDays: config.retentionDays.toString(),
+    compression: config.compression,
+    storagePath: config.storagePath ?? '',
+    tables: config.includeTables?.length ? config.includeTables : Object.keys(BACKUP_TABLES),
+    includeFiles: config.includeFiles,
+    isActive: config.isActive,
+    maxBackupSize: config.maxBackupSize?.toString() ?? '',
+    verifyIntegrity: config.verifyIntegrity,
+    notifyOnSuccess: config.notifyOnSuccess,
+    notifyOnFailure: config.notifyOnFailure,
+    notificationEmail: config.notificationEmail ?? '',
+  }
+}
+
+function toPayload(form: BackupForm) {
+  return {
+    name: form.name,
+    schedule: form.schedule,
+    retentionDays: Number(form.retentionDays),
+    compression: form.compression,
+    storagePath: form.storagePath.trim() || null,
+    includeTables: form.tables,
+    includeFiles: form.includeFiles,
+    isActive: form.isActive,
+    maxBackupSize: form.maxBackupSize ? Number(form.maxBackupSize) : null,
+    verifyIntegrity: form.verifyIntegrity,
+    notifyOnSuccess: form.notifyOnSuccess,
+    notifyOnFailure: form.notifyOnFailure,
+    notificationEmail: form.notificationEmail.trim() || null,
+  }
+}
+
+function formatDate(value?: string | null) {
+  return value ? new Date(value).toLocaleString('es-DO') : '—'
+}
+
+function formatBytes(bytes?: number | null) {
+  if (bytes === null || bytes === undefined) return '—'
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+}
+
+const isActiveJob = (job: { status: string }) => job.status === 'pending' || job.status === 'running'
 
 export function BackupManagementPanel() {
+  const [configs, setConfigs] = useState<BackupConfiguration[]>([])
+  const [jobs, setJobs] = useState<BackupJob[]>([])
+  const [restorations, setRestorations] = useState<RestorationJob[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<BackupForm | null>(null)
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [restoreForm, setRestoreForm] = useState<RestoreForm | null>(null)
+  const [restoreErrors, setRestoreErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    fetchAll()
+  }, [])
+
+  const inProgress = jobs.some(isActiveJob) || restorations.some(isActiveJob)
+
+  useEffect(() => {
+    if (!inProgress) return
+    const timer = setInterval(fetchAll, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [inProgress])
+
+  const fetchAll = async () => {
+    try {
+      const [configsResponse, jobsResponse, restorationsResponse] = await Promise.all([
+        fetch('/api/admin/backups'),
+        fetch('/api/admin/backups/jobs'),
+        fetch('/api/admin/backups/restorations'),
+      ])
+      if (configsResponse.ok) setConfigs(await configsResponse.json())
+      if (jobsResponse.ok) setJobs(await jobsResponse.json())
+      if (restorationsResponse.ok) setRestorations(await restorationsResponse.json())
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error fetching backups:', error)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    try {
+      const isCreating = form.id === ''
+      const response = await fetch(
+        isCreating ? '/api/admin/backups' : `/api/admin/backups/${form.id}`,
+        {
+          method: isCreating ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(toPayload(form)),
+        }
+      )
+
+      if (response.ok) {
+        setForm(null)
+        setFormErrors([])
+        await fetchAll()
+      } else {
+        const error = await response.json()
+        setFormErrors(
+          error.details?.map((issue: { path: string[]; message: string }) =>
+            `${issue.path.join('.')}: ${issue.message}`
+          ) ?? [error.error]
+        )
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error saving backup configuration:', error)
+      }
+      setFormErrors(['Error al guardar la configuración'])
+    }
+  }
+
+  const handleToggle = async (config: BackupConfiguration) => {
+    try {
+      await fetch(`/api/admin/backups/${config.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !config.isActive }),
+      })
+      await fetchAll()
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error toggling backup configuration:', error)
+      }
+    }
+  }
+
+  const handleDelete = async (config: BackupConfiguration) => {
+    if (!confirm(`¿Eliminar la configuración "${config.name}" con su historial y sus archivos de respaldo?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/backups/${config.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const error = await response.json()
+        alert(error.error)
+      }
+      await fetchAll()
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error deleting backup configuration:', error)
+      }
+    }
+  }
+
+  const handleRunNow = async (config: BackupConfiguration) => {
+    try {
+      const response = await fetch(`/api/admin/backups/${config.id}/run`, { method: 'POST' })
+      if (!response.ok) {
+        const error = await response.json()
+        alert(error.error)
+      }
+      await fetchAll()
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error starting backup:', error)
+      }
+    }
+  }
+
+  const handleVerify = async (job: BackupJob) => {
+    try {
+      const response = await fetch(`/api/admin/backups/jobs/${job.id}/verify`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok) {
+        alert(result.error)
+      } else if (result.missing) {
+        alert('El archivo de respaldo no se encuentra en el almacenamiento.')
+      } else {
+        alert(
+          result.valid
+            ? 'El archivo de respaldo está íntegro: la suma de verificación coincide.'
+            : 'La suma de verificación NO coincide: el archivo está dañado o fue modificado.'
+        )
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error verifying backup:', error)
+      }
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!restoreForm) return
+
+    const { job, type, caseId, restoreFiles } = restoreForm
+    const scope = type === 'full' ? 'todos los casos, documentos y actividad del respaldo' : `el caso ${caseId.trim()}`
+    if (!confirm(`¿Restaurar ${scope}? Los registros actuales con el mismo identificador serán reemplazados.`)) return
+
+    try {
+      const response = await fetch(`/api/admin/backups/jobs/${job.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          restoreFiles,
+          ...(type === 'partial' && { caseId: caseId.trim() }),
+        }),
+      })
+
+      if (response.ok) {
+        setRestoreForm(null)
+        setRestoreErrors([])
+        await fetchAll()
+      } else {
+        const error = await response.json()
+        setRestoreErrors(
+          error.details?.map((issue: { message: string }) => issue.message) ?? [error.error]
+        )
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error starting restoration:', error)
+      }
+      setRestoreErrors(['Error al iniciar la restauración'])
+    }
+  }
+
+  const toggleListValue = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value]
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Cargando respaldos...</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-muted rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold">Gestión de Backup</h2>
-        <p className="text-muted-foreground">
-          Configura y gestiona los backups del sistema
-        </p>
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Gestión de Backup</h2>
+          <p className="text-muted-foreground">
+            Respaldos de casos, documentos y actividad con verificación de integridad
+          </p>
+        </div>
+        <Button onClick={() => { setForm({ ...EMPTY_FORM }); setFormErrors([]) }}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nueva Configuración
+        </Button>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Configuración de Backup</CardTitle>
+          <CardTitle>Configuraciones</CardTitle>
           <CardDescription>
-            Administra las configuraciones de backup y restauración
+            El proceso <code>npm run worker</code> ejecuta los respaldos según su programación y elimina los que superan su retención.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-8 text-muted-foreground">
-            Panel de gestión de backup en desarrollo...
-          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Programación</TableHead>
+                <TableHead>Retención</TableHead>
+                <TableHead>Próxima ejecución</TableHead>
+                <TableHead>Último respaldo</TableHead>
+                <TableHead>Activo</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {configs.map((config) => (
+                <TableRow key={config.id}>
+                  <TableCell className="font-medium">
+                    <div>{config.name}</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {config.includeFiles ? 'Datos y archivos' : 'Solo datos'}
+                      {config.compression && ' · comprimido'}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{config.schedule}</TableCell>
+                  <TableCell className="text-sm">{config.retentionDays} días</TableCell>
+                  <TableCell className="text-sm">{config.isActive ? formatDate(config.nextRunAt) : '—'}</TableCell>
+                  <TableCell>
+                    {config.lastJob ? (
+                      <div className="space-y-1">
+                        <Badge variant={JOB_STATUS_VARIANTS[config.lastJob.status] ?? 'outline'}>
+                          {JOB_STATUS_LABELS[config.lastJob.status] ?? config.lastJob.status}
+                        </Badge>
+                        <div className="text-xs text-muted-foreground">{formatDate(config.lastJob.createdAt)}</div>
+                      </div>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={config.isActive} onCheckedChange={() => handleToggle(config)} />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="sm" title="Ejecutar ahora" onClick={() => handleRunNow(config)}>
+                        <Play className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => { setForm(toForm(config)); setFormErrors([]) }}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(config)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {configs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No hay configuraciones de respaldo
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Respaldos</CardTitle>
+          <CardDescription>Historial de ejecuciones, con su suma de verificación SHA-256</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Configuración</TableHead>
+                <TableHead>Inicio</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Contenido</TableHead>
+                <TableHead>Tamaño</TableHead>
+                <TableHead>Suma de verificación</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell className="font-medium">
+                    <div>{job.configuration?.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {job.type === 'scheduled' ? 'Programado' : 'Manual'}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{formatDate(job.startedAt ?? job.createdAt)}</TableCell>
+                  <TableCell className="min-w-[140px]">
+                    <Badge variant={JOB_STATUS_VARIANTS[job.status] ?? 'outline'}>
+                      {JOB_STATUS_LABELS[job.status] ?? job.status}
+                    </Badge>
+                    {job.status === 'running' && (
+                      <Progress value={job.progress} className="h-2 mt-2" />
+                    )}
+                    {job.errorMessage && (
+                      <div className="text-xs text-red-600 mt-1">{job.errorMessage}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {job.recordsBackedUp !== null && job.recordsBackedUp !== undefined
+                      ? `${job.recordsBackedUp} registros, ${job.filesBackedUp ?? 0} archivos`
+                      : '—'}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatBytes(job.compressedSize)}</TableCell>
+                  <TableCell className="font-mono text-xs" title={job.checksum ?? undefined}>
+                    {job.checksum ? `${job.checksum.slice(0, 12)}…` : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {job.status === 'completed' && job.filePath && (
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" title="Verificar integridad" onClick={() => handleVerify(job)}>
+                          <ShieldCheck className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Restaurar"
+                          onClick={() => {
+                            setRestoreForm({ job, type: 'partial', caseId: '', restoreFiles: true })
+                            setRestoreErrors([])
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {jobs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    Aún no se ha ejecutado ningún respaldo
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Restauraciones</CardTitle>
+          <CardDescription>Cada restauración verifica la suma de verificación del respaldo antes de escribir</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Respaldo</TableHead>
+                <TableHead>Alcance</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Verificación</TableHead>
+                <TableHead>Restaurado</TableHead>
+                <TableHead>Fecha</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {restorations.map((restoration) => (
+                <TableRow key={restoration.id}>
+                  <TableCell className="text-sm">
+                    <div>{restoration.backupJob.configuration.name}</div>
+                    <div className="text-xs text-muted-foreground">{formatDate(restoration.backupJob.createdAt)}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {restoration.caseId ? <>Caso <code>{restoration.caseId}</code></> : 'Completo'}
+                  </TableCell>
+                  <TableCell className="min-w-[140px]">
+                    <Badge variant={JOB_STATUS_VARIANTS[restoration.status] ?? 'outline'}>
+                      {JOB_STATUS_LABELS[restoration.status] ?? restoration.status}
+                    </Badge>
+                    {restoration.status === 'running' && (
+                      <Progress value={restoration.progress} className="h-2 mt-2" />
+                    )}
+                    {restoration.errorMessage && (
+                      <div className="text-xs text-red-600 mt-1">{restoration.errorMessage}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {restoration.verificationStatus === 'verified' && 'Verificado'}
+                    {restoration.verificationStatus === 'failed_verification' && (
+                      <span className="text-red-600">No coincide</span>
+                    )}
+                    {(!restoration.verificationStatus || restoration.verificationStatus === 'not_verified') && '—'}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {restoration.status === 'completed'
+                      ? `${restoration.recordsRestored ?? 0} registros, ${restoration.filesRestored ?? 0} archivos`
+                      : '—'}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatDate(restoration.completedAt ?? restoration.createdAt)}</TableCell>
+                </TableRow>
+              ))}
+              {restorations.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No hay restauraciones
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {form && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{form.id === '' ? 'Nueva Configuración' : 'Editar Configuración'}</DialogTitle>
+                <DialogDescription>
+                  Defina cuándo se respalda, qué se incluye y cuánto tiempo se conservan los respaldos
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <Label htmlFor="backup-name">Nombre</Label>
+                  <Input id="backup-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="backup-schedule">Programación</Label>
+                  <Input
+                    id="backup-schedule"
+                    className="font-mono"
+                    value={form.schedule}
+                    onChange={(e) => setForm({ ...form, schedule: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Cron (<code>0 2 * * *</code>), <code>@daily</code> o <code>cada 12h</code>
+                  </p>
+                </div>
+                <div>
+                  <Label htmlFor="backup-retention">Retención (días)</Label>
+                  <Input
+                    id="backup-retention"
+                    type="number"
+                    min={1}
+                    value={form.retentionDays}
+                    onChange={(e) => setForm({ ...form, retentionDays: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="backup-path">Directorio (opcional)</Label>
+                  <Input
+                    id="backup-path"
+                    placeholder="backups"
+                    value={form.storagePath}
+                    onChange={(e) => setForm({ ...form, storagePath: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="backup-max-size">Tamaño máximo de archivos (MB)</Label>
+                  <Input
+                    id="backup-max-size"
+                    type="number"
+                    min={1}
+                    value={form.maxBackupSize}
+                    onChange={(e) => setForm({ ...form, maxBackupSize: e.target.value })}
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <Label>Tablas</Label>
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {Object.entries(BACKUP_TABLES).map(([table, label]) => (
+                      <label key={table} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={form.tables.includes(table)}
+                          onCheckedChange={() => setForm({ ...form, tables: toggleListValue(form.tables, table) })}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch checked={form.includeFiles} onCheckedChange={(checked) => setForm({ ...form, includeFiles: checked })} />
+                  <Label>Incluir archivos cargados</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={form.compression} onCheckedChange={(checked) => setForm({ ...form, compression: checked })} />
+                  <Label>Comprimir (gzip)</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={form.verifyIntegrity} onCheckedChange={(checked) => setForm({ ...form, verifyIntegrity: checked })} />
+                  <Label>Verificar al terminar</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                  <Label>Activo</Label>
+                </div>
+
+                <div className="md:col-span-2">
+                  <Label htmlFor="backup-email">Correo de notificación</Label>
+                  <Input
+                    id="backup-email"
+                    type="email"
+                    value={form.notificationEmail}
+                    onChange={(e) => setForm({ ...form, notificationEmail: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={form.notifyOnFailure} onCheckedChange={(checked) => setForm({ ...form, notifyOnFailure: checked })} />
+                  <Label>Avisar si falla</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={form.notifyOnSuccess} onCheckedChange={(checked) => setForm({ ...form, notifyOnSuccess: checked })} />
+                  <Label>Avisar al completar</Label>
+                </div>
+              </div>
+
+              {formErrors.length > 0 && (
+                <ul className="text-sm text-red-600 space-y-1">
+                  {formErrors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setForm(null)}>Cancelar</Button>
+                <Button onClick={handleSave}>Guardar</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Restore Dialog */}
+      <Dialog open={!!restoreForm} onOpenChange={(open) => !open && setRestoreForm(null)}>
+        <DialogContent className="max-w-lg">
+          {restoreForm && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Restaurar respaldo</DialogTitle>
+                <DialogDescription>
+                  {restoreForm.job.configuration?.name} · {formatDate(restoreForm.job.completedAt)}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div>
+                  <Label>Alcance</Label>
+                  <Select
+                    value={restoreForm.type}
+                    onValueChange={(value) => setRestoreForm({ ...restoreForm, type: value as RestoreForm['type'] })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="partial">Un caso con sus documentos</SelectItem>
+                      <SelectItem value="full">Respaldo completo</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {restoreForm.type === 'partial' && (
+                  <div>
+                    <Label htmlFor="restore-case">Identificador del caso</Label>
+                    <Input
+                      id="restore-case"
+                      className="font-mono"
+                      value={restoreForm.caseId}
+                      onChange={(e) => setRestoreForm({ ...restoreForm, caseId: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={restoreForm.restoreFiles}
+                    onCheckedChange={(checked) => setRestoreForm({ ...restoreForm, restoreFiles: checked })}
+                  />
+                  <Label>Restaurar también los archivos</Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Los registros que existan con el mismo identificador se reemplazan por la versión del respaldo.
+                  Los registros creados después del respaldo no se modifican.
+                </p>
+              </div>
+
+              {restoreErrors.length > 0 && (
+                <ul className="text-sm text-red-600 space-y-1">
+                  {restoreErrors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setRestoreForm(null)}>Cancelar</Button>
+                <Button onClick={handleRestore}>Restaurar</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,30 +1,891 @@
 'use client'
 
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Copy,
+  Upload,
+  Download,
+  ChevronLeft,
+  ChevronRight,
+  CalendarDays,
+} from 'lucide-react'
+import clientLogger from '@/lib/client-logger';
+
+interface HolidayCalendar {
+  id: string
+  name: string
+  year: number
+  country: string
+  region?: string | null
+  isActive: boolean
+  description?: string | null
+  _count?: { holidays: number }
+}
+
+interface Holiday {
+  id: string
+  name: string
+  date: string
+  type: string
+  isRecurring: boolean
+  isActive: boolean
+  affectsWork: boolean
+  workCompensation?: string | null
+  description?: string | null
+}
+
+interface CalendarForm {
+  id: string
+  name: string
+  year: string
+  country: string
+  region: string
+  isActive: boolean
+  description: string
+}
+
+interface HolidayForm {
+  id: string
+  name: string
+  date: string
+  type: string
+  isRecurring: boolean
+  isActive: boolean
+  affectsWork: boolean
+  description: string
+}
+
+const HOLIDAY_TYPES: Record<string, string> = {
+  national: 'Nacional',
+  regional: 'Regional',
+  religious: 'Religioso',
+  custom: 'Institucional',
+}
+
+const WEEKDAYS = ['L', 'M', 'X', 'J', 'V', 'S', 'D']
+
+function emptyHolidayForm(year: number): HolidayForm {
+  return {
+    id: '',
+    name: '',
+    date: `${year}-01-01`,
+    type: 'national',
+    isRecurring: false,
+    isActive: true,
+    affectsWork: true,
+    description: '',
+  }
+}
+
+function toDateKey(value: string) {
+  return value.slice(0, 10)
+}
+
+function formatDay(value: string) {
+  return new Date(value).toLocaleDateString('es-DO', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'long',
+    timeZone: 'UTC',
+  })
+}
+
+function readFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result ?? ''))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
+  })
+}
+
+function errorMessages(error: { error?: string; errors?: string[]; details?: { path: string[]; message: string }[] }) {
+  if (error.errors?.length) return error.errors
+  if (error.details?.length) {
+    return error.details.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+  }
+  return [error.error ?? 'Error desconocido']
+}
+
+function YearView({ year, holidays }: { year: number; holidays: Holiday[] }) {
+  // Recurring holidays stored in another year still fall on this year's calendar
+  const byDate = new Map<string, Holiday>()
+  for (const holiday of holidays) {
+    if (!holiday.isActive) continue
+    const key = toDateKey(holiday.date)
+    byDate.set(holiday.isRecurring ? `${year}${key.slice(4)}` : key, holiday)
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      {Array.from({ length: 12 }, (_, month) => {
+        const first = new Date(Date.UTC(year, month, 1))
+        const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+        // Weeks start on Monday
+        const offset = (first.getUTCDay() + 6) % 7
+
+        return (
+          <div key={month} className="border rounded p-2">
+            <div className="text-sm font-medium capitalize mb-1">
+              {first.toLocaleDateString('es-DO', { month: 'long', timeZone: 'UTC' })}
+            </div>
+            <div className="grid grid-cols-7 gap-0.5 text-center text-xs">
+              {WEEKDAYS.map((day) => (
+                <div key={day} className="text-muted-foreground">{day}</div>
+              ))}
+              {Array.from({ length: offset }, (_, i) => <div key={`empty-${i}`} />)}
+              {Array.from({ length: daysInMonth }, (_, i) => {
+                const date = new Date(Date.UTC(year, month, i + 1))
+                const key = date.toISOString().slice(0, 10)
+                const holiday = byDate.get(key)
+                const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6
+
+                let className = 'rounded py-0.5'
+                if (holiday?.affectsWork) className += ' bg-red-100 text-red-700 font-semibold'
+                else if (holiday) className += ' bg-amber-100 text-amber-700'
+                else if (weekend) className += ' text-muted-foreground'
+
+                return (
+                  <div key={key} className={className} title={holiday?.name}>
+                    {i + 1}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
 
 export function HolidayManagementPanel() {
+  const [year, setYear] = useState(new Date().getFullYear())
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<HolidayCalendar | null>(null)
+  const [holidays, setHolidays] = useState<Holiday[]>([])
+  const [calendarForm, setCalendarForm] = useState<CalendarForm | null>(null)
+  const [holidayForm, setHolidayForm] = useState<HolidayForm | null>(null)
+  const [importFor, setImportFor] = useState<HolidayCalendar | null>(null)
+  const [importFile, setImportFile] = useState<File | null>(null)
+  const [importReplace, setImportReplace] = useState(false)
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [cloning, setCloning] = useState(false)
+
+  // Refetching keeps the calendar being edited selected, without the
+  // selection itself triggering a fetch
+  const selectedId = useRef<string | undefined>(undefined)
+  useEffect(() => {
+    selectedId.current = selected?.id
+  }, [selected])
+
+  const fetchHolidays = useCallback(async (calendar: HolidayCalendar | null) => {
+    if (!calendar) {
+      setHolidays([])
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/admin/holidays/${calendar.id}`)
+      if (response.ok) {
+        const data = await response.json()
+        setHolidays(data.holidays)
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error fetching holidays:', error)
+      }
+    }
+  }, [])
+
+  const fetchCalendars = useCallback(async (calendarYear: number, selectId = selectedId.current) => {
+    try {
+      const response = await fetch(`/api/admin/holidays?year=${calendarYear}`)
+      if (response.ok) {
+        const data: HolidayCalendar[] = await response.json()
+        setCalendars(data)
+        const current = data.find((calendar) => calendar.id === selectId) ?? data[0] ?? null
+        setSelected(current)
+        await fetchHolidays(current)
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error fetching holiday calendars:', error)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [fetchHolidays])
+
+  useEffect(() => {
+    fetchCalendars(year)
+  }, [year, fetchCalendars])
+
+  const handleSelect = async (calendar: HolidayCalendar) => {
+    setSelected(calendar)
+    await fetchHolidays(calendar)
+  }
+
+  const handleSaveCalendar = async () => {
+    if (!calendarForm) return
+
+    try {
+      const isCreating = calendarForm.id === ''
+      const response = await fetch(
+        isCreating ? '/api/admin/holidays' : `/api/admin/holidays/${calendarForm.id}`,
+        {
+          method: isCreating ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: calendarForm.name,
+            year: Number(calendarForm.year),
+            country: calendarForm.country,
+            region: calendarForm.region.trim() || null,
+            isActive: calendarForm.isActive,
+            description: calendarForm.description || null,
+          }),
+        }
+      )
+
+      if (response.ok) {
+        const calendar: HolidayCalendar = await response.json()
+        setCalendarForm(null)
+        setFormErrors([])
+        if (calendar.year === year) await fetchCalendars(year, calendar.id)
+        else setYear(calendar.year)
+      } else {
+        setFormErrors(errorMessages(await response.json()))
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error saving holiday calendar:', error)
+      }
+      setFormErrors(['Error al guardar el calendario'])
+    }
+  }
+
+  const handleToggleCalendar = async (calendar: HolidayCalendar) => {
+    try {
+      await fetch(`/api/admin/holidays/${calendar.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !calendar.isActive }),
+      })
+      await fetchCalendars(year)
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error toggling holiday calendar:', error)
+      }
+    }
+  }
+
+  const handleDeleteCalendar = async (calendar: HolidayCalendar) => {
+    if (!confirm(`¿Eliminar el calendario "${calendar.name}" ${calendar.year} y todos sus feriados?`)) return
+
+    try {
+      await fetch(`/api/admin/holidays/${calendar.id}`, { method: 'DELETE' })
+      if (selected?.id === calendar.id) setSelected(null)
+      await fetchCalendars(year)
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error deleting holiday calendar:', error)
+      }
+    }
+  }
+
+  const handleSaveHoliday = async () => {
+    if (!holidayForm || !selected) return
+
+    try {
+      const isCreating = holidayForm.id === ''
+      const response = await fetch(
+        isCreating
+          ? `/api/admin/holidays/${selected.id}/holidays`
+          : `/api/admin/holidays/${selected.id}/holidays/${holidayForm.id}`,
+        {
+          method: isCreating ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: holidayForm.name,
+            date: holidayForm.date,
+            type: holidayForm.type,
+            isRecurring: holidayForm.isRecurring,
+            isActive: holidayForm.isActive,
+            affectsWork: holidayForm.affectsWork,
+            description: holidayForm.description || null,
+          }),
+        }
+      )
+
+      if (response.ok) {
+        setHolidayForm(null)
+        setFormErrors([])
+        await fetchCalendars(year)
+      } else {
+        setFormErrors(errorMessages(await response.json()))
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error saving holiday:', error)
+      }
+      setFormErrors(['Error al guardar el feriado'])
+    }
+  }
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    if (!selected || !confirm(`¿Eliminar el feriado "${holiday.name}"?`)) return
+
+    try {
+      await fetch(`/api/admin/holidays/${selected.id}/holidays/${holiday.id}`, { method: 'DELETE' })
+      await fetchCalendars(year)
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error deleting holiday:', error)
+      }
+    }
+  }
+
+  const handleImport = async () => {
+    if (!importFor || !importFile) return
+
+    try {
+      const content = await readFile(importFile)
+      const format = importFile.name.toLowerCase().endsWith('.csv') ? 'csv' : 'ics'
+      const response = await fetch(`/api/admin/holidays/${importFor.id}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, content, replace: importReplace }),
+      })
+
+      if (response.ok) {
+        const summary = await response.json()
+        alert(
+          `Feriados creados: ${summary.created}\n` +
+          `Actualizados: ${summary.updated}\n` +
+          `Desactivados: ${summary.deactivated}`
+        )
+        setImportFor(null)
+        setImportFile(null)
+        setFormErrors([])
+        await fetchCalendars(year)
+      } else {
+        setFormErrors(errorMessages(await response.json()))
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error importing holidays:', error)
+      }
+      setFormErrors(['Error al importar el archivo'])
+    }
+  }
+
+  const handleCloneLastYear = async () => {
+    if (!confirm(`¿Copiar los calendarios de ${year - 1} al año ${year}?`)) return
+
+    try {
+      setCloning(true)
+      const response = await fetch('/api/admin/holidays/clone', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceYear: year - 1, targetYear: year }),
+      })
+
+      if (response.ok) {
+        const summary = await response.json()
+        const review = summary.toReview.map(
+          (holiday: { name: string; date: string }) => `  • ${holiday.name} (${holiday.date})`
+        )
+        alert(
+          `Calendarios copiados: ${summary.calendars.length}` +
+          (summary.skipped.length > 0 ? `\nYa existían: ${summary.skipped.join(', ')}` : '') +
+          (review.length > 0
+            ? `\n\nRevise las fechas móviles, que se copiaron al mismo día:\n${review.join('\n')}`
+            : '')
+        )
+        await fetchCalendars(year)
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error cloning holiday calendars:', error)
+      }
+    } finally {
+      setCloning(false)
+    }
+  }
+
+  const openCalendarForm = (calendar?: HolidayCalendar) => {
+    setFormErrors([])
+    setCalendarForm(
+      calendar
+        ? {
+            id: calendar.id,
+            name: calendar.name,
+            year: calendar.year.toString(),
+            country: calendar.country,
+            region: calendar.region ?? '',
+            isActive: calendar.isActive,
+            description: calendar.description ?? '',
+          }
+        : {
+            id: '',
+            name: 'Feriados Nacionales',
+            year: year.toString(),
+            country: 'DO',
+            region: '',
+            isActive: true,
+            description: '',
+          }
+    )
+  }
+
+  const openHolidayForm = (holiday?: Holiday) => {
+    setFormErrors([])
+    setHolidayForm(
+      holiday
+        ? {
+            id: holiday.id,
+            name: holiday.name,
+            date: toDateKey(holiday.date),
+            type: holiday.type,
+            isRecurring: holiday.isRecurring,
+            isActive: holiday.isActive,
+            affectsWork: holiday.affectsWork,
+            description: holiday.description ?? '',
+          }
+        : emptyHolidayForm(selected?.year ?? year)
+    )
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Cargando calendarios...</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-muted rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold">Gestión de Festivos</h2>
-        <p className="text-muted-foreground">
-          Administra los festivos y días no laborables
-        </p>
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Gestión de Feriados</h2>
+          <p className="text-muted-foreground">
+            Días no laborables que excluyen los plazos de las etapas
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setYear(year - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-semibold w-14 text-center">{year}</span>
+          <Button variant="outline" size="sm" onClick={() => setYear(year + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={handleCloneLastYear} disabled={cloning}>
+            <Copy className="h-4 w-4 mr-2" />
+            {cloning ? 'Copiando...' : `Clonar ${year - 1}`}
+          </Button>
+          <Button onClick={() => openCalendarForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Calendario
+          </Button>
+        </div>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Calendario de Festivos</CardTitle>
+          <CardTitle>Calendarios {year}</CardTitle>
           <CardDescription>
-            Gestiona los festivos y días no laborables del sistema
+            Los plazos usan los calendarios nacionales activos; los regionales quedan como referencia por provincia.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-8 text-muted-foreground">
-            Panel de gestión de festivos en desarrollo...
-          </div>
+          {calendars.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No hay calendarios para {year}. Cree uno nuevo o clone los de {year - 1}.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Ámbito</TableHead>
+                  <TableHead>Feriados</TableHead>
+                  <TableHead>Activo</TableHead>
+                  <TableHead>Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {calendars.map((calendar) => (
+                  <TableRow
+                    key={calendar.id}
+                    className={selected?.id === calendar.id ? 'bg-muted/50' : undefined}
+                  >
+                    <TableCell className="font-medium">
+                      <button type="button" className="text-left hover:underline" onClick={() => handleSelect(calendar)}>
+                        {calendar.name}
+                      </button>
+                      {calendar.description && (
+                        <div className="text-xs text-muted-foreground mt-1">{calendar.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={calendar.region ? 'outline' : 'secondary'}>
+                        {calendar.region ?? 'Nacional'} · {calendar.country}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{calendar._count?.holidays ?? 0}</TableCell>
+                    <TableCell>
+                      <Switch checked={calendar.isActive} onCheckedChange={() => handleToggleCalendar(calendar)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleSelect(calendar)}>
+                          <CalendarDays className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openCalendarForm(calendar)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => { setImportFor(calendar); setImportFile(null); setImportReplace(false); setFormErrors([]) }}
+                        >
+                          <Upload className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={`/api/admin/holidays/${calendar.id}/export?format=ics`} title="Exportar .ics">
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={`/api/admin/holidays/${calendar.id}/export?format=csv`} title="Exportar .csv">
+                            CSV
+                          </a>
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteCalendar(calendar)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>
+                  {selected.name} {selected.year}
+                  {selected.region && ` · ${selected.region}`}
+                </CardTitle>
+                <CardDescription>
+                  <span className="inline-block w-3 h-3 rounded bg-red-100 border border-red-300 mr-1 align-middle" />
+                  No laborable
+                  <span className="inline-block w-3 h-3 rounded bg-amber-100 border border-amber-300 ml-4 mr-1 align-middle" />
+                  Conmemorativo (se trabaja)
+                </CardDescription>
+              </div>
+              <Button onClick={() => openHolidayForm()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nuevo Feriado
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <YearView year={selected.year} holidays={holidays} />
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Repetición</TableHead>
+                  <TableHead>Laborable</TableHead>
+                  <TableHead>Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holidays.map((holiday) => (
+                  <TableRow key={holiday.id} className={holiday.isActive ? undefined : 'opacity-50'}>
+                    <TableCell className="text-sm capitalize">{formatDay(holiday.date)}</TableCell>
+                    <TableCell className="font-medium">
+                      <div>{holiday.name}</div>
+                      {holiday.description && (
+                        <div className="text-xs text-muted-foreground mt-1">{holiday.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{HOLIDAY_TYPES[holiday.type] ?? holiday.type}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{holiday.isRecurring ? 'Cada año' : 'Solo este año'}</TableCell>
+                    <TableCell className="text-sm">{holiday.affectsWork ? 'No' : 'Sí'}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => openHolidayForm(holiday)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteHoliday(holiday)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Calendar Dialog */}
+      <Dialog open={!!calendarForm} onOpenChange={(open) => !open && setCalendarForm(null)}>
+        <DialogContent className="max-w-xl">
+          {calendarForm && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{calendarForm.id === '' ? 'Nuevo Calendario' : 'Editar Calendario'}</DialogTitle>
+                <DialogDescription>
+                  Deje la provincia vacía para el calendario nacional
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <Label htmlFor="calendar-name">Nombre</Label>
+                  <Input
+                    id="calendar-name"
+                    value={calendarForm.name}
+                    onChange={(e) => setCalendarForm({ ...calendarForm, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="calendar-year">Año</Label>
+                  <Input
+                    id="calendar-year"
+                    type="number"
+                    value={calendarForm.year}
+                    onChange={(e) => setCalendarForm({ ...calendarForm, year: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="calendar-country">País</Label>
+                  <Input
+                    id="calendar-country"
+                    maxLength={2}
+                    value={calendarForm.country}
+                    onChange={(e) => setCalendarForm({ ...calendarForm, country: e.target.value.toUpperCase() })}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="calendar-region">Provincia (opcional)</Label>
+                  <Input
+                    id="calendar-region"
+                    value={calendarForm.region}
+                    onChange={(e) => setCalendarForm({ ...calendarForm, region: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="calendar-description">Descripción</Label>
+                  <Textarea
+                    id="calendar-description"
+                    rows={2}
+                    value={calendarForm.description}
+                    onChange={(e) => setCalendarForm({ ...calendarForm, description: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={calendarForm.isActive}
+                    onCheckedChange={(checked) => setCalendarForm({ ...calendarForm, isActive: checked })}
+                  />
+                  <Label>Activo</Label>
+                </div>
+              </div>
+
+              {formErrors.length > 0 && (
+                <ul className="text-sm text-red-600 space-y-1">
+                  {formErrors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCalendarForm(null)}>Cancelar</Button>
+                <Button onClick={handleSaveCalendar}>Guardar</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Holiday Dialog */}
+      <Dialog open={!!holidayForm} onOpenChange={(open) => !open && setHolidayForm(null)}>
+        <DialogContent className="max-w-xl">
+          {holidayForm && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{holidayForm.id === '' ? 'Nuevo Feriado' : 'Editar Feriado'}</DialogTitle>
+                <DialogDescription>
+                  Los feriados que se trasladan por ley se registran en la fecha en que se disfrutan
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <Label htmlFor="holiday-name">Nombre</Label>
+                  <Input
+                    id="holiday-name"
+                    value={holidayForm.name}
+                    onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="holiday-date">Fecha</Label>
+                  <Input
+                    id="holiday-date"
+                    type="date"
+                    value={holidayForm.date}
+                    onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Tipo</Label>
+                  <Select value={holidayForm.type} onValueChange={(value) => setHolidayForm({ ...holidayForm, type: value })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(HOLIDAY_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="holiday-description">Descripción</Label>
+                  <Textarea
+                    id="holiday-description"
+                    rows={2}
+                    value={holidayForm.description}
+                    onChange={(e) => setHolidayForm({ ...holidayForm, description: e.target.value })}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={holidayForm.isRecurring}
+                    onCheckedChange={(checked) => setHolidayForm({ ...holidayForm, isRecurring: checked === true })}
+                  />
+                  Se repite cada año en la misma fecha
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={holidayForm.affectsWork}
+                    onCheckedChange={(checked) => setHolidayForm({ ...holidayForm, affectsWork: checked === true })}
+                  />
+                  Día no laborable
+                </label>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={holidayForm.isActive}
+                    onCheckedChange={(checked) => setHolidayForm({ ...holidayForm, isActive: checked })}
+                  />
+                  <Label>Activo</Label>
+                </div>
+              </div>
+
+              {formErrors.length > 0 && (
+                <ul className="text-sm text-red-600 space-y-1">
+                  {formErrors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setHolidayForm(null)}>Cancelar</Button>
+                <Button onClick={handleSaveHoliday}>Guardar</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Dialog */}
+      <Dialog open={!!importFor} onOpenChange={(open) => !open && setImportFor(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Importar feriados: {importFor?.name} {importFor?.year}</DialogTitle>
+            <DialogDescription>
+              Archivo iCalendar (.ics) o CSV con las columnas date, name, type, isRecurring, affectsWork y description.
+              Los feriados con la misma fecha se actualizan.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <Input
+              type="file"
+              accept=".ics,.csv,text/calendar,text/csv"
+              onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={importReplace} onCheckedChange={(checked) => setImportReplace(checked === true)} />
+              Desactivar los feriados del calendario que no estén en el archivo
+            </label>
+          </div>
+
+          {formErrors.length > 0 && (
+            <ul className="text-sm text-red-600 space-y-1 max-h-40 overflow-y-auto">
+              {formErrors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportFor(null)}>Cancelar</Button>
+            <Button onClick={handleImport} disabled={!importFile}>Importar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
-}
\ No newline at end of file
+}
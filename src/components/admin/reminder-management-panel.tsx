@@ -0,0 +1,741 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Play,
+  ListChecks,
+  Eye,
+} from 'lucide-react'
+import { STAGE_LABELS } from '@/constants/stages'
+import clientLogger from '@/lib/client-logger';
+
+interface ReminderConfig {
+  id: string
+  name: string
+  description: string
+  type: string
+  schedule: string
+  isActive: boolean
+  conditions: any
+  subject?: string | null
+  message?: string | null
+  recipients: any
+  channels: string[]
+  priority: string
+  maxReminders: number
+  reminderInterval: number
+  lastRunAt?: string | null
+  nextRunAt?: string | null
+  jobCounts?: Record<string, number>
+}
+
+interface ReminderJob {
+  id: string
+  scheduledAt: string
+  executedAt?: string | null
+  status: string
+  entityId?: string | null
+  attempts: number
+  maxAttempts: number
+  nextRetryAt?: string | null
+  error?: string | null
+  metadata?: any
+}
+
+interface ReminderMatch {
+  caseId: string
+  fileNumber: string
+  dueDate: string | null
+  daysRemaining: number | null
+}
+
+interface ReminderForm {
+  id: string
+  name: string
+  description: string
+  type: string
+  schedule: string
+  isActive: boolean
+  stages: string[]
+  deadlineSource: 'none' | 'stage' | 'case'
+  withinDays: string
+  includeOverdue: boolean
+  inactiveDays: string
+  expression: string
+  roles: string[]
+  emails: string
+  subject: string
+  message: string
+  priority: string
+  maxReminders: string
+  reminderInterval: string
+}
+
+const REMINDER_TYPES: Record<string, string> = {
+  deadline: 'Plazo',
+  follow_up: 'Seguimiento',
+  escalation: 'Escalamiento',
+  maintenance: 'Mantenimiento',
+  daily_digest: 'Resumen diario',
+  weekly_summary: 'Resumen semanal',
+}
+
+const RECIPIENT_ROLES: Record<string, string> = {
+  assignedTo: 'Analista asignado',
+  supervisedBy: 'Supervisor',
+  createdBy: 'Creador del caso',
+  departmentHead: 'Jefe de departamento',
+}
+
+const JOB_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  cancelled: 'secondary',
+}
+
+const EMPTY_FORM: ReminderForm = {
+  id: '',
+  name: '',
+  description: '',
+  type: 'deadline',
+  schedule: '0 8 * * 1-5',
+  isActive: true,
+  stages: [],
+  deadlineSource: 'stage',
+  withinDays: '2',
+  includeOverdue: false,
+  inactiveDays: '',
+  expression: '',
+  roles: ['assignedTo'],
+  emails: '',
+  subject: '',
+  message: '',
+  priority: 'medium',
+  maxReminders: '3',
+  reminderInterval: '24',
+}
+
+function toForm(config: ReminderConfig): ReminderForm {
+  const conditions = config.conditions ?? {}
+  const recipients = config.recipients ?? {}
+  return {
+    id: config.id,
+    name: config.name,
+    description: config.description,
+    type: config.type,
+    schedule: config.schedule,
+    isActive: config.isActive,
+    stages: conditions.stages ?? [],
+    deadlineSource: conditions.deadline?.source ?? 'none',
+    withinDays: conditions.deadline?.withinDays?.toString() ?? '',
+    includeOverdue: !!conditions.deadline?.includeOverdue,
+    inactiveDays: conditions.inactiveDays?.toString() ?? '',
+    expression: conditions.expression ?? '',
+    roles: recipients.roles ?? [],
+    emails: (recipients.emails ?? []).join(', '),
+    subject: config.subject ?? '',
+    message: config.message ?? '',
+    priority: config.priority,
+    maxReminders: config.maxReminders.toString(),
+    reminderInterval: config.reminderInterval.toString(),
+  }
+}
+
+function toPayload(form: ReminderForm) {
+  const conditions: Record<string, unknown> = { entityType: 'case' }
+  if (form.stages.length > 0) conditions.stages = form.stages
+  if (form.deadlineSource !== 'none') {
+    conditions.deadline = {
+      source: form.deadlineSource,
+      includeOverdue: form.includeOverdue,
+      ...(form.withinDays !== '' && { withinDays: Number(form.withinDays) }),
+    }
+  }
+  if (form.inactiveDays !== '') conditions.inactiveDays = Number(form.inactiveDays)
+  if (form.expression.trim()) conditions.expression = form.expression.trim()
+
+  return {
+    name: form.name,
+    description: form.description,
+    type: form.type,
+    schedule: form.schedule,
+    isActive: form.isActive,
+    conditions,
+    recipients: {
+      roles: form.roles,
+      emails: form.emails.split(',').map((email) => email.trim()).filter(Boolean),
+    },
+    channels: ['email'],
+    subject: form.subject || null,
+    message: form.message || null,
+    priority: form.priority,
+    maxReminders: Number(form.maxReminders),
+    reminderInterval: Number(form.reminderInterval),
+  }
+}
+
+function formatDate(value?: string | null) {
+  return value ? new Date(value).toLocaleString('es-DO') : '—'
+}
+
+export function ReminderManagementPanel() {
+  const [configs, setConfigs] = useState<ReminderConfig[]>([])
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [form, setForm] = useState<ReminderForm | null>(null)
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [jobsFor, setJobsFor] = useState<ReminderConfig | null>(null)
+  const [jobs, setJobs] = useState<ReminderJob[]>([])
+  const [previewFor, setPreviewFor] = useState<ReminderConfig | null>(null)
+  const [matches, setMatches] = useState<ReminderMatch[]>([])
+
+  useEffect(() => {
+    fetchConfigs()
+  }, [])
+
+  const fetchConfigs = async () => {
+    try {
+      const response = await fetch('/api/admin/reminders')
+      if (response.ok) {
+        setConfigs(await response.json())
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error fetching reminders:', error)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    try {
+      const isCreating = form.id === ''
+      const response = await fetch(
+        isCreating ? '/api/admin/reminders' : `/api/admin/reminders/${form.id}`,
+        {
+          method: isCreating ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(toPayload(form)),
+        }
+      )
+
+      if (response.ok) {
+        setForm(null)
+        setFormErrors([])
+        await fetchConfigs()
+      } else {
+        const error = await response.json()
+        setFormErrors(
+          error.details?.map((issue: { path: string[]; message: string }) =>
+            `${issue.path.join('.')}: ${issue.message}`
+          ) ?? [error.error]
+        )
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error saving reminder:', error)
+      }
+      setFormErrors(['Error al guardar el recordatorio'])
+    }
+  }
+
+  const handleToggle = async (config: ReminderConfig) => {
+    try {
+      await fetch(`/api/admin/reminders/${config.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !config.isActive }),
+      })
+      await fetchConfigs()
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error toggling reminder:', error)
+      }
+    }
+  }
+
+  const handleDelete = async (config: ReminderConfig) => {
+    if (!confirm(`¿Eliminar el recordatorio "${config.name}" y su historial?`)) return
+
+    try {
+      await fetch(`/api/admin/reminders/${config.id}`, { method: 'DELETE' })
+      await fetchConfigs()
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error deleting reminder:', error)
+      }
+    }
+  }
+
+  const handleRunNow = async () => {
+    try {
+      setRunning(true)
+      const response = await fetch('/api/admin/reminders/run', { method: 'POST' })
+      if (response.ok) {
+        const summary = await response.json()
+        alert(
+          `Recordatorios ejecutados: ${summary.configsRun}\n` +
+          `Trabajos creados: ${summary.jobsCreated}\n` +
+          `Enviados: ${summary.jobsCompleted}, reintentos: ${summary.jobsRetrying}, fallidos: ${summary.jobsFailed}`
+        )
+        await fetchConfigs()
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error running reminders:', error)
+      }
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleViewJobs = async (config: ReminderConfig) => {
+    setJobsFor(config)
+    try {
+      const response = await fetch(`/api/admin/reminders/${config.id}/jobs`)
+      if (response.ok) {
+        setJobs(await response.json())
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error fetching reminder jobs:', error)
+      }
+    }
+  }
+
+  const handlePreview = async (config: ReminderConfig) => {
+    setPreviewFor(config)
+    try {
+      const response = await fetch(`/api/admin/reminders/${config.id}/preview`)
+      if (response.ok) {
+        const data = await response.json()
+        setMatches(data.matches)
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Error previewing reminder:', error)
+      }
+    }
+  }
+
+  const toggleListValue = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value]
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Cargando recordatorios...</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-muted rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Recordatorios Programados</h2>
+          <p className="text-muted-foreground">
+            Avisos automáticos de plazos y seguimiento de casos
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRunNow} disabled={running}>
+            <Play className="h-4 w-4 mr-2" />
+            {running ? 'Ejecutando...' : 'Ejecutar ahora'}
+          </Button>
+          <Button onClick={() => { setForm({ ...EMPTY_FORM }); setFormErrors([]) }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Recordatorio
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recordatorios</CardTitle>
+          <CardDescription>
+            Se encontraron {configs.length} recordatorios. El proceso <code>npm run worker</code> los ejecuta según su programación.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Programación</TableHead>
+                <TableHead>Próxima ejecución</TableHead>
+                <TableHead>Envíos</TableHead>
+                <TableHead>Activo</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {configs.map((config) => (
+                <TableRow key={config.id}>
+                  <TableCell className="font-medium">
+                    <div>{config.name}</div>
+                    {config.description && (
+                      <div className="text-xs text-muted-foreground mt-1">{config.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{REMINDER_TYPES[config.type] ?? config.type}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{config.schedule}</TableCell>
+                  <TableCell className="text-sm">{config.isActive ? formatDate(config.nextRunAt) : '—'}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(config.jobCounts ?? {}).map(([status, count]) => (
+                        <Badge key={status} variant={JOB_STATUS_VARIANTS[status] ?? 'outline'} className="text-xs">
+                          {status}: {count}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={config.isActive} onCheckedChange={() => handleToggle(config)} />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => { setForm(toForm(config)); setFormErrors([]) }}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handlePreview(config)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleViewJobs(config)}>
+                        <ListChecks className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(config)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {form && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{form.id === '' ? 'Nuevo Recordatorio' : 'Editar Recordatorio'}</DialogTitle>
+                <DialogDescription>
+                  Defina cuándo se revisan los casos, qué casos aplican y a quién se avisa
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="reminder-name">Nombre</Label>
+                  <Input id="reminder-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Tipo</Label>
+                  <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(REMINDER_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="reminder-description">Descripción</Label>
+                  <Input id="reminder-description" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="reminder-schedule">Programación</Label>
+                  <Input
+                    id="reminder-schedule"
+                    className="font-mono"
+                    value={form.schedule}
+                    onChange={(e) => setForm({ ...form, schedule: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Cron (<code>0 8 * * 1-5</code>), <code>@daily</code> o <code>cada 6h</code>
+                  </p>
+                </div>
+                <div>
+                  <Label>Prioridad</Label>
+                  <Select value={form.priority} onValueChange={(value) => setForm({ ...form, priority: value })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Baja</SelectItem>
+                      <SelectItem value="medium">Media</SelectItem>
+                      <SelectItem value="high">Alta</SelectItem>
+                      <SelectItem value="urgent">Urgente</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="md:col-span-2">
+                  <Label>Etapas (vacío = todas)</Label>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2 max-h-40 overflow-y-auto border rounded p-2">
+                    {Object.entries(STAGE_LABELS).map(([stage, label]) => (
+                      <label key={stage} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={form.stages.includes(stage)}
+                          onCheckedChange={() => setForm({ ...form, stages: toggleListValue(form.stages, stage) })}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <Label>Plazo</Label>
+                  <Select
+                    value={form.deadlineSource}
+                    onValueChange={(value) => setForm({ ...form, deadlineSource: value as ReminderForm['deadlineSource'] })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Sin condición de plazo</SelectItem>
+                      <SelectItem value="stage">Vencimiento de la etapa</SelectItem>
+                      <SelectItem value="case">Fecha límite del caso</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="reminder-within">Avisar cuando falten (días)</Label>
+                  <Input
+                    id="reminder-within"
+                    type="number"
+                    min={0}
+                    value={form.withinDays}
+                    disabled={form.deadlineSource === 'none'}
+                    onChange={(e) => setForm({ ...form, withinDays: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={form.includeOverdue}
+                    disabled={form.deadlineSource === 'none'}
+                    onCheckedChange={(checked) => setForm({ ...form, includeOverdue: checked })}
+                  />
+                  <Label>Incluir casos vencidos</Label>
+                </div>
+                <div>
+                  <Label htmlFor="reminder-inactive">Sin actividad por (días)</Label>
+                  <Input
+                    id="reminder-inactive"
+                    type="number"
+                    min={1}
+                    value={form.inactiveDays}
+                    onChange={(e) => setForm({ ...form, inactiveDays: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="reminder-expression">Condición adicional (lenguaje de reglas)</Label>
+                  <Input
+                    id="reminder-expression"
+                    className="font-mono"
+                    placeholder='priority in ["HIGH", "URGENT"]'
+                    value={form.expression}
+                    onChange={(e) => setForm({ ...form, expression: e.target.value })}
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <Label>Destinatarios</Label>
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {Object.entries(RECIPIENT_ROLES).map(([role, label]) => (
+                      <label key={role} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={form.roles.includes(role)}
+                          onCheckedChange={() => setForm({ ...form, roles: toggleListValue(form.roles, role) })}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <Input
+                    className="mt-2"
+                    placeholder="Correos adicionales, separados por coma"
+                    value={form.emails}
+                    onChange={(e) => setForm({ ...form, emails: e.target.value })}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="reminder-max">Máximo de avisos por caso</Label>
+                  <Input
+                    id="reminder-max"
+                    type="number"
+                    min={1}
+                    value={form.maxReminders}
+                    onChange={(e) => setForm({ ...form, maxReminders: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reminder-interval">Horas entre avisos</Label>
+                  <Input
+                    id="reminder-interval"
+                    type="number"
+                    min={1}
+                    value={form.reminderInterval}
+                    onChange={(e) => setForm({ ...form, reminderInterval: e.target.value })}
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <Label htmlFor="reminder-subject">Asunto (opcional)</Label>
+                  <Input
+                    id="reminder-subject"
+                    placeholder="Recordatorio: {{fileNumber}} - {{stageLabel}}"
+                    value={form.subject}
+                    onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="reminder-message">Mensaje (opcional)</Label>
+                  <Textarea
+                    id="reminder-message"
+                    rows={3}
+                    placeholder="Variables: {{fileNumber}}, {{title}}, {{stageLabel}}, {{dueDate}}, {{daysRemaining}}"
+                    value={form.message}
+                    onChange={(e) => setForm({ ...form, message: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                  <Label>Activo</Label>
+                </div>
+              </div>
+
+              {formErrors.length > 0 && (
+                <ul className="text-sm text-red-600 space-y-1">
+                  {formErrors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setForm(null)}>Cancelar</Button>
+                <Button onClick={handleSave}>Guardar</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Jobs Dialog */}
+      <Dialog open={!!jobsFor} onOpenChange={(open) => { if (!open) { setJobsFor(null); setJobs([]) } }}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Envíos: {jobsFor?.name}</DialogTitle>
+            <DialogDescription>Últimos trabajos generados por este recordatorio</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Expediente</TableHead>
+                  <TableHead>Programado</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead>Intentos</TableHead>
+                  <TableHead>Próximo reintento</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="font-mono text-sm">{job.metadata?.fileNumber ?? job.entityId}</TableCell>
+                    <TableCell className="text-sm">{formatDate(job.scheduledAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={JOB_STATUS_VARIANTS[job.status] ?? 'outline'}>{job.status}</Badge>
+                    </TableCell>
+                    <TableCell>{job.attempts}/{job.maxAttempts}</TableCell>
+                    <TableCell className="text-sm">{formatDate(job.nextRetryAt)}</TableCell>
+                    <TableCell className="text-xs text-red-600">{job.error}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Preview Dialog */}
+      <Dialog open={!!previewFor} onOpenChange={(open) => { if (!open) { setPreviewFor(null); setMatches([]) } }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Casos que aplican: {previewFor?.name}</DialogTitle>
+            <DialogDescription>{matches.length} casos cumplen hoy las condiciones</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Expediente</TableHead>
+                  <TableHead>Vencimiento</TableHead>
+                  <TableHead>Días restantes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map((match) => (
+                  <TableRow key={match.caseId}>
+                    <TableCell className="font-mono text-sm">{match.fileNumber}</TableCell>
+                    <TableCell className="text-sm">{formatDate(match.dueDate)}</TableCell>
+                    <TableCell>{match.daysRemaining ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
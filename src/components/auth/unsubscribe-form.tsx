@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import clientLogger from '@/lib/client-logger';
+
+// Unsubscribing takes an explicit click so mail scanners that open links don't trigger it
+export function UnsubscribeForm() {
+  const searchParams = useSearchParams();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const user = searchParams.get('user');
+  const batch = searchParams.get('batch');
+  const token = searchParams.get('token');
+  const isValidLink = !!(user && batch && token);
+
+  const handleUnsubscribe = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/email/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ user, batch, token }),
+      });
+
+      if (!response.ok) {
+        setError('El enlace no es válido o ha expirado.');
+        return;
+      }
+
+      setIsSuccess(true);
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Unsubscribe error:', error);
+      }
+      setError('Error de conexión. Por favor, intente nuevamente.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isSuccess) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex justify-center mb-4">
+            <div className="p-3 bg-green-100 rounded-full">
+              <CheckCircle className="h-8 w-8 text-green-600" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold text-center">
+            Suscripción cancelada
+          </CardTitle>
+          <CardDescription className="text-center">
+            Ya no recibirá el resumen por correo. Puede volver a activarlo desde su perfil de usuario.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold text-center">
+          Dejar de recibir el resumen
+        </CardTitle>
+        <CardDescription className="text-center">
+          {isValidLink
+            ? 'Confirme que ya no desea recibir el resumen periódico de casos y pendientes.'
+            : 'El enlace está incompleto. Utilice el enlace que aparece en el correo del resumen.'}
+        </CardDescription>
+        {error && (
+          <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </CardHeader>
+
+      <CardFooter className="flex flex-col space-y-2">
+        <Button
+          onClick={handleUnsubscribe}
+          className="w-full"
+          disabled={!isValidLink || isLoading}
+        >
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Cancelar suscripción
+        </Button>
+        <Button variant="ghost" className="w-full" asChild>
+          <Link href="/login">Ir a la plataforma</Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import Image from 'next/image'
 import {
   AlertTriangle,
   Archive,
@@ -17,6 +18,7 @@ import {
   List,
   Lock,
   MoreHorizontal,
+  PenTool,
   RefreshCw,
   Search,
   SortAsc,
@@ -42,11 +44,13 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { toast } from 'react-hot-toast'
 
 import { Document } from '@/types/client'
+import { PDF_SIGNING_STAGES } from '@/constants/stages'
 import { formatFileSize, formatDistanceToNow } from '@/lib/utils'
 import clientLogger from '@/lib/client-logger';
 
 interface DocumentListProps {
   caseId: string
+  currentStage?: string
   onDocumentSelect?: (document: Document) => void
   refreshTrigger?: number
 }
@@ -96,7 +100,7 @@ const SECURITY_LEVELS = [
   { value: 'RESTRICTED', label: 'Restringido', icon: Lock, color: 'bg-red-100 text-red-800' },
 ]
 
-export function DocumentList({ caseId, onDocumentSelect, refreshTrigger: _refreshTrigger }: DocumentListProps) {
+export function DocumentList({ caseId, currentStage, onDocumentSelect, refreshTrigger: _refreshTrigger }: DocumentListProps) {
   const [documents, setDocuments] = useState<Document[]>([])
   const [loading, setLoading] = useState(true)
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list')
@@ -186,6 +190,36 @@ export function DocumentList({ caseId, onDocumentSelect, refreshTrigger: _refres
     window.open(`/api/documents/${document.id}/preview`, '_blank')
   }
 
+  // The Minister's sanction and the contract certification are issued as signed PDFs
+  const canIssueSignedPdf = (document: Document) =>
+    document.mimeType === 'application/pdf' &&
+    (PDF_SIGNING_STAGES as readonly string[]).includes(currentStage ?? '')
+
+  const handleSignPdf = async (document: Document) => {
+    if (!confirm(`¿Firmar digitalmente "${document.title}"? Se creará una nueva versión firmada del documento.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}/sign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Sign failed')
+
+      toast.success(`Documento firmado (versión ${data.version.version}, código ${data.verificationCode})`)
+      fetchDocuments()
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        clientLogger.error('Sign error:', error)
+        toast.error('Error al firmar el documento')
+      }
+    }
+  }
+
   const handleDelete = async (document: Document) => {
     if (!confirm(`¿Estás seguro de que quieres eliminar "${document.title}"?`)) {
       return
@@ -236,7 +270,19 @@ export function DocumentList({ caseId, onDocumentSelect, refreshTrigger: _refres
         <CardContent className="p-4">
           <div className="flex items-start justify-between">
             <div className="flex items-start gap-3 flex-1">
-              <typeConfig.icon className={`h-10 w-10 p-2 rounded-lg ${typeConfig.color.split(' ')[0]}`} />
+              {document.thumbnailPath ? (
+                // Served by the preview route, which checks access; the optimizer would fetch it without the session
+                <Image
+                  src={`/api/documents/${document.id}/preview?size=small`}
+                  alt={document.title}
+                  width={40}
+                  height={40}
+                  unoptimized
+                  className="h-10 w-10 rounded-lg border object-cover"
+                />
+              ) : (
+                <typeConfig.icon className={`h-10 w-10 p-2 rounded-lg ${typeConfig.color.split(' ')[0]}`} />
+              )}
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 mb-1">
                   <h3 className="font-medium truncate">{document.title}</h3>
@@ -344,6 +390,12 @@ export function DocumentList({ caseId, onDocumentSelect, refreshTrigger: _refres
                     <History className="h-4 w-4 mr-2" />
                     Ver historial
                   </DropdownMenuItem>
+                  {canIssueSignedPdf(document) && (
+                    <DropdownMenuItem onClick={() => handleSignPdf(document)}>
+                      <PenTool className="h-4 w-4 mr-2" />
+                      Firmar PDF
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem
                     className="text-red-600"
@@ -1,8 +1,18 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Separator } from '@/components/ui/separator'
-import { FormField, TextInput, SelectInput } from '@/components/forms/form-fields'
-import { OWNER_TYPES } from '@/constants/case-constants'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { FormField, TextInput, SelectInput, NumberInput } from '@/components/forms/form-fields'
+import { Plus, Star, Trash2 } from 'lucide-react'
+import {
+  IDENTIFICATION_TYPES,
+  OWNER_TYPES,
+  PARTY_PAYMENT_STATUSES,
+  PARTY_ROLES
+} from '@/constants/case-constants'
 import { CreateCaseInput, UpdateCaseInput } from '@/lib/validations/case'
+import { CasePartyInput } from '@/lib/validations/case-party'
+import { emptyParty } from '@/lib/case-helpers'
 
 interface OwnerInfoSectionProps {
   formData: CreateCaseInput | UpdateCaseInput
@@ -17,96 +27,213 @@ export function OwnerInfoSection({
   hasFieldError,
   includeLegalInfo = true
 }: OwnerInfoSectionProps) {
+  const parties = formData.parties ?? []
+  const ownershipTotal = parties.reduce((sum, party) => sum + (party.ownershipPercentage ?? 0), 0)
+
+  const updateParties = (next: CasePartyInput[]) => {
+    onInputChange('parties', next)
+
+    // The case owner fields mirror the primary party
+    const primary = next.find(party => party.isPrimary) ?? next[0]
+    if (primary) {
+      onInputChange('ownerName', primary.name)
+      onInputChange('ownerType', primary.personType || 'individual')
+      onInputChange('ownerIdentification', primary.identification || '')
+      onInputChange('ownerContact', primary.contact || '')
+      onInputChange('ownerEmail', primary.email || '')
+      onInputChange('ownerAddress', primary.address || '')
+    }
+  }
+
+  const updateParty = (index: number, changes: Partial<CasePartyInput>) => {
+    updateParties(parties.map((party, i) => (i === index ? { ...party, ...changes } : party)))
+  }
+
+  const addParty = () => {
+    updateParties([...parties, { ...emptyParty(parties.length === 0), role: parties.length === 0 ? 'OWNER' : 'CO_OWNER' }])
+  }
+
+  const removeParty = (index: number) => {
+    const next = parties.filter((_, i) => i !== index)
+    if (next.length > 0 && !next.some(party => party.isPrimary)) {
+      next[0] = { ...next[0]!, isPrimary: true }
+    }
+    updateParties(next)
+  }
+
+  const makePrimary = (index: number) => {
+    updateParties(parties.map((party, i) => ({ ...party, isPrimary: i === index })))
+  }
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Información del Propietario</CardTitle>
+        <CardTitle>Partes del Caso</CardTitle>
         <CardDescription>
-          Datos del propietario actual de la propiedad
+          Propietarios, copropietarios, sucesores y demás titulares de derechos sobre la propiedad.
+          La parte principal figura como propietario del caso.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <FormField
-            id="ownerName"
-            label="Nombre del Propietario"
-            required
-            error={hasFieldError?.('ownerName') || false}
-          >
-            <TextInput
-              id="ownerName"
-              value={formData.ownerName}
-              onChange={(value) => onInputChange('ownerName', value)}
-              placeholder="Juan Pérez"
-              error={hasFieldError?.('ownerName') || false}
-              required
-            />
-          </FormField>
-
-          <FormField
-            id="ownerType"
-            label="Tipo de Propietario"
-          >
-            <SelectInput
-              id="ownerType"
-              value={formData.ownerType || 'individual'}
-              onChange={(value) => onInputChange('ownerType', value)}
-              placeholder="Seleccionar tipo"
-              options={OWNER_TYPES}
-            />
-          </FormField>
-        </div>
+        {parties.map((party, index) => {
+          const isPrimary = party.isPrimary ?? index === 0
+          const prefix = `party-${index}`
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <FormField
-            id="ownerIdentification"
-            label="Identificación"
-          >
-            <TextInput
-              id="ownerIdentification"
-              value={formData.ownerIdentification || undefined}
-              onChange={(value) => onInputChange('ownerIdentification', value)}
-              placeholder="123-4567890-1"
-            />
-          </FormField>
-
-          <FormField
-            id="ownerContact"
-            label="Teléfono"
-          >
-            <TextInput
-              id="ownerContact"
-              value={formData.ownerContact || undefined}
-              onChange={(value) => onInputChange('ownerContact', value)}
-              placeholder="809-555-0123"
-            />
-          </FormField>
-        </div>
+          return (
+            <div key={party.id ?? prefix} className="space-y-4 rounded-lg border p-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-medium">Parte {index + 1}</h4>
+                  {isPrimary && <Badge variant="secondary">Principal</Badge>}
+                </div>
+                <div className="flex gap-2">
+                  {!isPrimary && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => makePrimary(index)}>
+                      <Star className="h-4 w-4 mr-1" />
+                      Hacer principal
+                    </Button>
+                  )}
+                  {parties.length > 1 && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => removeParty(index)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Quitar
+                    </Button>
+                  )}
+                </div>
+              </div>
 
-        <FormField
-          id="ownerEmail"
-          label="Email"
-        >
-          <TextInput
-            id="ownerEmail"
-            value={formData.ownerEmail || undefined}
-            onChange={(value) => onInputChange('ownerEmail', value)}
-            type="email"
-            placeholder="juan.perez@email.com"
-          />
-        </FormField>
-
-        <FormField
-          id="ownerAddress"
-          label="Dirección del Propietario"
-        >
-          <TextInput
-            id="ownerAddress"
-            value={formData.ownerAddress}
-            onChange={(value) => onInputChange('ownerAddress', value)}
-            placeholder="Calle Secundaria #456, Ciudad"
-          />
-        </FormField>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  id={`${prefix}-name`}
+                  label="Nombre"
+                  required
+                  error={(isPrimary && hasFieldError?.('ownerName')) || false}
+                >
+                  <TextInput
+                    id={`${prefix}-name`}
+                    value={party.name}
+                    onChange={(value) => updateParty(index, { name: value })}
+                    placeholder="Juan Pérez"
+                    error={(isPrimary && hasFieldError?.('ownerName')) || false}
+                    required
+                  />
+                </FormField>
+
+                <FormField id={`${prefix}-role`} label="Rol">
+                  <SelectInput
+                    id={`${prefix}-role`}
+                    value={party.role}
+                    onChange={(value) => updateParty(index, { role: value as CasePartyInput['role'] })}
+                    options={PARTY_ROLES}
+                  />
+                </FormField>
+
+                <FormField id={`${prefix}-personType`} label="Tipo de Persona">
+                  <SelectInput
+                    id={`${prefix}-personType`}
+                    value={party.personType || 'individual'}
+                    onChange={(value) => updateParty(index, { personType: value })}
+                    placeholder="Seleccionar tipo"
+                    options={OWNER_TYPES}
+                  />
+                </FormField>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField id={`${prefix}-identificationType`} label="Tipo de Identificación">
+                  <SelectInput
+                    id={`${prefix}-identificationType`}
+                    value={party.identificationType ?? undefined}
+                    onChange={(value) => updateParty(index, { identificationType: value })}
+                    placeholder="Seleccionar tipo"
+                    options={IDENTIFICATION_TYPES}
+                  />
+                </FormField>
+
+                <FormField id={`${prefix}-identification`} label="Identificación">
+                  <TextInput
+                    id={`${prefix}-identification`}
+                    value={party.identification ?? undefined}
+                    onChange={(value) => updateParty(index, { identification: value })}
+                    placeholder="123-4567890-1"
+                  />
+                </FormField>
+
+                <FormField id={`${prefix}-contact`} label="Teléfono">
+                  <TextInput
+                    id={`${prefix}-contact`}
+                    value={party.contact ?? undefined}
+                    onChange={(value) => updateParty(index, { contact: value })}
+                    placeholder="809-555-0123"
+                  />
+                </FormField>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField id={`${prefix}-email`} label="Email">
+                  <TextInput
+                    id={`${prefix}-email`}
+                    value={party.email ?? undefined}
+                    onChange={(value) => updateParty(index, { email: value })}
+                    type="email"
+                    placeholder="juan.perez@email.com"
+                  />
+                </FormField>
+
+                <FormField id={`${prefix}-address`} label="Dirección">
+                  <TextInput
+                    id={`${prefix}-address`}
+                    value={party.address ?? undefined}
+                    onChange={(value) => updateParty(index, { address: value })}
+                    placeholder="Calle Secundaria #456, Ciudad"
+                  />
+                </FormField>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField id={`${prefix}-ownershipPercentage`} label="Porcentaje de Propiedad (%)">
+                  <NumberInput
+                    id={`${prefix}-ownershipPercentage`}
+                    value={party.ownershipPercentage ?? undefined}
+                    onChange={(value) => updateParty(index, { ownershipPercentage: value ?? null })}
+                    min={0}
+                    max={100}
+                    step="0.01"
+                  />
+                </FormField>
+
+                <FormField id={`${prefix}-compensationShare`} label="Cuota de Compensación">
+                  <NumberInput
+                    id={`${prefix}-compensationShare`}
+                    value={party.compensationShare ?? undefined}
+                    onChange={(value) => updateParty(index, { compensationShare: value ?? null })}
+                    min={0}
+                    step="0.01"
+                  />
+                </FormField>
+
+                <FormField id={`${prefix}-paymentStatus`} label="Estado del Pago">
+                  <SelectInput
+                    id={`${prefix}-paymentStatus`}
+                    value={party.paymentStatus ?? 'PENDING'}
+                    onChange={(value) => updateParty(index, { paymentStatus: value as CasePartyInput['paymentStatus'] })}
+                    options={PARTY_PAYMENT_STATUSES}
+                  />
+                </FormField>
+              </div>
+            </div>
+          )
+        })}
+
+        <div className="flex items-center justify-between">
+          <Button type="button" variant="outline" size="sm" onClick={addParty}>
+            <Plus className="h-4 w-4 mr-2" />
+            Agregar parte
+          </Button>
+          <p className={`text-sm ${ownershipTotal > 100 ? 'text-destructive' : 'text-muted-foreground'}`}>
+            Propiedad asignada: {ownershipTotal.toFixed(2)}%
+          </p>
+        </div>
 
         {includeLegalInfo && (
           <>
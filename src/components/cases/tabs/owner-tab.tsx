@@ -2,70 +2,157 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { User } from 'lucide-react'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { User, Users } from 'lucide-react'
 import { Case } from '@/types/client'
+import { formatCurrency } from '@/lib/format'
+import { PARTY_PAYMENT_STATUSES, PARTY_ROLES } from '@/constants/case-constants'
+
+const PAYMENT_BADGE_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'outline',
+  SCHEDULED: 'secondary',
+  PAID: 'default',
+  WITHHELD: 'destructive'
+}
+
+const labelOf = (options: Array<{ value: string; label: string }>, value: string) =>
+  options.find(option => option.value === value)?.label ?? value
 
 interface OwnerTabProps {
   caseData: Case
 }
 
 export function OwnerTab({ caseData }: OwnerTabProps) {
+  const parties = caseData.parties ?? []
+
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Información del Propietario</CardTitle>
-        <CardDescription>
-          Datos del propietario actual de la propiedad
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div className="space-y-4">
-            <div className="flex items-start gap-3">
-              <User className="h-5 w-5 text-muted-foreground mt-0.5" />
-              <div>
-                <h4 className="font-medium">Nombre</h4>
-                <p className="text-sm text-muted-foreground">{caseData.ownerName}</p>
-                {caseData.ownerType && (
-                  <Badge variant="outline" className="mt-1">
-                    {caseData.ownerType}
-                  </Badge>
-                )}
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Información del Propietario</CardTitle>
+          <CardDescription>
+            Datos del propietario principal de la propiedad
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="flex items-start gap-3">
+                <User className="h-5 w-5 text-muted-foreground mt-0.5" />
+                <div>
+                  <h4 className="font-medium">Nombre</h4>
+                  <p className="text-sm text-muted-foreground">{caseData.ownerName}</p>
+                  {caseData.ownerType && (
+                    <Badge variant="outline" className="mt-1">
+                      {caseData.ownerType}
+                    </Badge>
+                  )}
+                </div>
               </div>
-            </div>
 
-            {caseData.ownerIdentification && (
-              <div>
-                <h4 className="font-medium mb-2">Identificación</h4>
-                <p className="text-sm text-muted-foreground">{caseData.ownerIdentification}</p>
-              </div>
-            )}
+              {caseData.ownerIdentification && (
+                <div>
+                  <h4 className="font-medium mb-2">Identificación</h4>
+                  <p className="text-sm text-muted-foreground">{caseData.ownerIdentification}</p>
+                </div>
+              )}
 
-            {caseData.ownerAddress && (
-              <div>
-                <h4 className="font-medium mb-2">Dirección</h4>
-                <p className="text-sm text-muted-foreground">{caseData.ownerAddress}</p>
-              </div>
-            )}
-          </div>
+              {caseData.ownerAddress && (
+                <div>
+                  <h4 className="font-medium mb-2">Dirección</h4>
+                  <p className="text-sm text-muted-foreground">{caseData.ownerAddress}</p>
+                </div>
+              )}
+            </div>
 
-          <div className="space-y-4">
-            {caseData.ownerContact && (
-              <div>
-                <h4 className="font-medium mb-2">Contacto</h4>
-                <p className="text-sm text-muted-foreground">{caseData.ownerContact}</p>
-              </div>
-            )}
+            <div className="space-y-4">
+              {caseData.ownerContact && (
+                <div>
+                  <h4 className="font-medium mb-2">Contacto</h4>
+                  <p className="text-sm text-muted-foreground">{caseData.ownerContact}</p>
+                </div>
+              )}
 
-            {caseData.ownerEmail && (
-              <div>
-                <h4 className="font-medium mb-2">Email</h4>
-                <p className="text-sm text-muted-foreground">{caseData.ownerEmail}</p>
-              </div>
-            )}
+              {caseData.ownerEmail && (
+                <div>
+                  <h4 className="font-medium mb-2">Email</h4>
+                  <p className="text-sm text-muted-foreground">{caseData.ownerEmail}</p>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
-      </CardContent>
-    </Card>
+        </CardContent>
+      </Card>
+
+      {parties.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Partes del Caso
+            </CardTitle>
+            <CardDescription>
+              Propietarios, copropietarios, sucesores y demás titulares de derechos sobre la parcela
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Rol</TableHead>
+                  <TableHead>Identificación</TableHead>
+                  <TableHead className="text-right">Propiedad</TableHead>
+                  <TableHead className="text-right">Compensación</TableHead>
+                  <TableHead>Pago</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parties.map(party => (
+                  <TableRow key={party.id}>
+                    <TableCell>
+                      <span className="font-medium">{party.name}</span>
+                      {party.isPrimary && (
+                        <Badge variant="outline" className="ml-2">Principal</Badge>
+                      )}
+                      {(party.contact || party.email) && (
+                        <p className="text-xs text-muted-foreground">
+                          {[party.contact, party.email].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{labelOf(PARTY_ROLES, party.role)}</TableCell>
+                    <TableCell className="text-sm">{party.identification || '—'}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      {typeof party.ownershipPercentage === 'number' ? `${party.ownershipPercentage}%` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {typeof party.compensationShare === 'number' ? formatCurrency(party.compensationShare, caseData.currency) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={PAYMENT_BADGE_VARIANTS[party.paymentStatus] ?? 'outline'}>
+                        {labelOf(PARTY_PAYMENT_STATUSES, party.paymentStatus)}
+                      </Badge>
+                      {party.paidAt && (
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(party.paidAt).toLocaleDateString('es-DO')}
+                        </p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
   )
 }
\ No newline at end of file
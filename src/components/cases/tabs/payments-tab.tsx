@@ -0,0 +1,476 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AlertTriangle, Banknote, CheckCircle, Plus } from 'lucide-react'
+import { Case, CasePayment, PaymentReconciliation, PaymentStatus } from '@/types/client'
+import { formatCurrency, formatDate } from '@/lib/format'
+import { PAYMENT_STATUSES } from '@/constants/case-constants'
+import { useToast } from '@/hooks/use-toast'
+import clientLogger from '@/lib/client-logger'
+
+type PaymentDialog =
+  | { type: 'create' }
+  | { type: 'order' | 'issue' | 'deliver' | 'cancel'; payment: CasePayment }
+
+const STATUS_BADGE_VARIANTS: Record<PaymentStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  COMMITTED: 'outline',
+  ORDERED: 'secondary',
+  ISSUED: 'secondary',
+  DELIVERED: 'default',
+  CANCELLED: 'destructive'
+}
+
+// Next step available for each status, besides cancelling
+const NEXT_STEP: Partial<Record<PaymentStatus, { type: 'order' | 'issue' | 'deliver'; label: string }>> = {
+  COMMITTED: { type: 'order', label: 'Registrar libramiento' },
+  ORDERED: { type: 'issue', label: 'Registrar cheque' },
+  ISSUED: { type: 'deliver', label: 'Registrar entrega' }
+}
+
+const DIALOG_TITLES: Record<PaymentDialog['type'], string> = {
+  create: 'Comprometer pago',
+  order: 'Libramiento',
+  issue: 'Cheque de Tesorería',
+  deliver: 'Entrega y acuse de recibo',
+  cancel: 'Anular pago'
+}
+
+const statusLabel = (status: string) =>
+  PAYMENT_STATUSES.find(option => option.value === status)?.label ?? status
+
+interface PaymentsTabProps {
+  caseData: Case
+  onChanged?: () => void
+}
+
+export function PaymentsTab({ caseData, onChanged }: PaymentsTabProps) {
+  const { toast } = useToast()
+  const [payments, setPayments] = useState<CasePayment[]>([])
+  const [reconciliation, setReconciliation] = useState<PaymentReconciliation | null>(null)
+  const [canManage, setCanManage] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [dialog, setDialog] = useState<PaymentDialog | null>(null)
+  const [form, setForm] = useState<Record<string, string>>({})
+  const [documents, setDocuments] = useState<Array<{ id: string; title: string }>>([])
+  const [saving, setSaving] = useState(false)
+
+  const parties = caseData.parties ?? []
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/cases/${caseData.id}/payments`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch payments')
+      }
+      const data = await response.json()
+      setPayments(data.payments)
+      setReconciliation(data.reconciliation)
+      setCanManage(data.canManage)
+    } catch (error) {
+      clientLogger.error('Error fetching case payments:', { error })
+    } finally {
+      setLoading(false)
+    }
+  }, [caseData.id])
+
+  useEffect(() => {
+    fetchPayments()
+  }, [fetchPayments])
+
+  useEffect(() => {
+    if (dialog?.type !== 'deliver' || documents.length > 0) return
+    fetch(`/api/cases/${caseData.id}/documents?limit=50`)
+      .then(response => (response.ok ? response.json() : { documents: [] }))
+      .then(data => setDocuments(data.documents ?? []))
+      .catch(error => clientLogger.error('Error fetching case documents:', { error }))
+  }, [dialog, caseData.id, documents.length])
+
+  const openDialog = (next: PaymentDialog) => {
+    setForm(next.type === 'issue' ? { chequeAmount: String(next.payment.amount) } : {})
+    setDialog(next)
+  }
+
+  const setField = (field: string, value: string) =>
+    setForm(current => ({ ...current, [field]: value }))
+
+  const optionalDate = (field: string) => (form[field] ? { [field]: form[field] } : {})
+
+  const buildRequest = (current: PaymentDialog): { url: string; method: string; body: Record<string, unknown> } => {
+    if (current.type === 'create') {
+      return {
+        url: `/api/cases/${caseData.id}/payments`,
+        method: 'POST',
+        body: {
+          amount: Number(form.amount),
+          partyId: form.partyId || null,
+          commitmentNumber: form.commitmentNumber || null,
+          notes: form.notes || null,
+          ...optionalDate('committedAt')
+        }
+      }
+    }
+
+    const url = `/api/cases/${caseData.id}/payments/${current.payment.id}`
+    switch (current.type) {
+      case 'order':
+        return { url, method: 'PATCH', body: { action: 'order', libramientoNumber: form.libramientoNumber, ...optionalDate('libramientoDate') } }
+      case 'issue':
+        return {
+          url,
+          method: 'PATCH',
+          body: { action: 'issue', chequeNumber: form.chequeNumber, chequeAmount: Number(form.chequeAmount), ...optionalDate('chequeDate') }
+        }
+      case 'deliver':
+        return {
+          url,
+          method: 'PATCH',
+          body: { action: 'deliver', receiptDocumentId: form.receiptDocumentId, receivedBy: form.receivedBy, ...optionalDate('deliveredAt') }
+        }
+      case 'cancel':
+        return { url, method: 'PATCH', body: { action: 'cancel', reason: form.reason } }
+    }
+  }
+
+  const submit = async () => {
+    if (!dialog) return
+    setSaving(true)
+    try {
+      const { url, method, body } = buildRequest(dialog)
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Error al registrar el pago')
+      }
+      toast({ title: 'Pago actualizado', description: statusLabel(data.status) })
+      setDialog(null)
+      await fetchPayments()
+      onChanged?.()
+    } catch (error) {
+      clientLogger.error('Error saving case payment:', { error })
+      toast({
+        title: 'Error al registrar el pago',
+        description: error instanceof Error ? error.message : 'No se pudo registrar el pago',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const money = (value: number | null | undefined) =>
+    typeof value === 'number' ? formatCurrency(value, caseData.currency) : '—'
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Cargando pagos...</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      {reconciliation && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {reconciliation.reconciled
+                ? <CheckCircle className="h-5 w-5 text-green-600" />
+                : <AlertTriangle className="h-5 w-5 text-yellow-600" />}
+              Conciliación de Pagos
+            </CardTitle>
+            <CardDescription>
+              {reconciliation.reconciled
+                ? 'Los pagos entregados cubren la compensación del caso'
+                : 'El caso no puede completarse hasta conciliar los pagos con la compensación'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <h4 className="text-sm font-medium">Compensación</h4>
+                <p className="text-lg font-semibold">{money(reconciliation.compensationAmount)}</p>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium">Comprometido</h4>
+                <p className="text-lg font-semibold">{money(reconciliation.committed)}</p>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium">Pagado</h4>
+                <p className="text-lg font-semibold">{money(reconciliation.paid)}</p>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium">Pendiente</h4>
+                <p className="text-lg font-semibold">{money(reconciliation.outstanding)}</p>
+              </div>
+            </div>
+            {reconciliation.issues.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                {reconciliation.issues.map(issue => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Banknote className="h-5 w-5" />
+              Pagos
+            </CardTitle>
+            <CardDescription>
+              Preventivo, libramiento, cheque de Tesorería y acuse de recibo de cada pago
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={() => openDialog({ type: 'create' })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nuevo pago
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay pagos registrados para este caso.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Beneficiario</TableHead>
+                  <TableHead className="text-right">Monto</TableHead>
+                  <TableHead>Preventivo</TableHead>
+                  <TableHead>Libramiento</TableHead>
+                  <TableHead>Cheque</TableHead>
+                  <TableHead>Entrega</TableHead>
+                  <TableHead>Estado</TableHead>
+                  {canManage && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map(payment => {
+                  const nextStep = NEXT_STEP[payment.status]
+                  return (
+                    <TableRow key={payment.id}>
+                      <TableCell className="text-sm">{payment.party?.name ?? caseData.ownerName}</TableCell>
+                      <TableCell className="text-right text-sm">{money(payment.amount)}</TableCell>
+                      <TableCell className="text-sm">
+                        {payment.commitmentNumber || '—'}
+                        <p className="text-xs text-muted-foreground">{formatDate(payment.committedAt)}</p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {payment.libramientoNumber || '—'}
+                        {payment.libramientoDate && (
+                          <p className="text-xs text-muted-foreground">{formatDate(payment.libramientoDate)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {payment.chequeNumber || '—'}
+                        {typeof payment.chequeAmount === 'number' && (
+                          <p className="text-xs text-muted-foreground">{money(payment.chequeAmount)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {payment.deliveredAt ? formatDate(payment.deliveredAt) : '—'}
+                        {payment.receivedBy && (
+                          <p className="text-xs text-muted-foreground">{payment.receivedBy}</p>
+                        )}
+                        {payment.receiptDocument && (
+                          <p className="text-xs text-muted-foreground">{payment.receiptDocument.title}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGE_VARIANTS[payment.status]}>
+                          {statusLabel(payment.status)}
+                        </Badge>
+                        {payment.cancellationReason && (
+                          <p className="text-xs text-muted-foreground">{payment.cancellationReason}</p>
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right space-x-2 whitespace-nowrap">
+                          {nextStep && (
+                            <Button variant="outline" size="sm" onClick={() => openDialog({ type: nextStep.type, payment })}>
+                              {nextStep.label}
+                            </Button>
+                          )}
+                          {nextStep && (
+                            <Button variant="ghost" size="sm" onClick={() => openDialog({ type: 'cancel', payment })}>
+                              Anular
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialog !== null} onOpenChange={open => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog ? DIALOG_TITLES[dialog.type] : ''}</DialogTitle>
+            {dialog && dialog.type !== 'create' && (
+              <DialogDescription>
+                {dialog.payment.party?.name ?? caseData.ownerName} · {money(dialog.payment.amount)}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {dialog?.type === 'create' && (
+              <>
+                {parties.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Beneficiario</Label>
+                    <Select value={form.partyId ?? ''} onValueChange={value => setField('partyId', value)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccionar parte" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {parties.map(party => (
+                          <SelectItem key={party.id} value={party.id}>
+                            {party.name}
+                            {typeof party.compensationShare === 'number' && ` (${money(party.compensationShare)})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="amount">Monto</Label>
+                  <Input id="amount" type="number" min="0" step="0.01" value={form.amount ?? ''} onChange={e => setField('amount', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="commitmentNumber">Número de preventivo</Label>
+                  <Input id="commitmentNumber" value={form.commitmentNumber ?? ''} onChange={e => setField('commitmentNumber', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="committedAt">Fecha del compromiso</Label>
+                  <Input id="committedAt" type="date" value={form.committedAt ?? ''} onChange={e => setField('committedAt', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notas</Label>
+                  <Textarea id="notes" value={form.notes ?? ''} onChange={e => setField('notes', e.target.value)} />
+                </div>
+              </>
+            )}
+
+            {dialog?.type === 'order' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="libramientoNumber">Número de libramiento</Label>
+                  <Input id="libramientoNumber" value={form.libramientoNumber ?? ''} onChange={e => setField('libramientoNumber', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="libramientoDate">Fecha del libramiento</Label>
+                  <Input id="libramientoDate" type="date" value={form.libramientoDate ?? ''} onChange={e => setField('libramientoDate', e.target.value)} />
+                </div>
+              </>
+            )}
+
+            {dialog?.type === 'issue' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="chequeNumber">Número de cheque</Label>
+                  <Input id="chequeNumber" value={form.chequeNumber ?? ''} onChange={e => setField('chequeNumber', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="chequeAmount">Monto del cheque</Label>
+                  <Input id="chequeAmount" type="number" min="0" step="0.01" value={form.chequeAmount ?? ''} onChange={e => setField('chequeAmount', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="chequeDate">Fecha del cheque</Label>
+                  <Input id="chequeDate" type="date" value={form.chequeDate ?? ''} onChange={e => setField('chequeDate', e.target.value)} />
+                </div>
+              </>
+            )}
+
+            {dialog?.type === 'deliver' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Acuse de recibo firmado</Label>
+                  <Select value={form.receiptDocumentId ?? ''} onValueChange={value => setField('receiptDocumentId', value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seleccionar documento del caso" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {documents.map(document => (
+                        <SelectItem key={document.id} value={document.id}>{document.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receivedBy">Recibido por</Label>
+                  <Input id="receivedBy" value={form.receivedBy ?? ''} onChange={e => setField('receivedBy', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="deliveredAt">Fecha de entrega</Label>
+                  <Input id="deliveredAt" type="date" value={form.deliveredAt ?? ''} onChange={e => setField('deliveredAt', e.target.value)} />
+                </div>
+              </>
+            )}
+
+            {dialog?.type === 'cancel' && (
+              <div className="space-y-2">
+                <Label htmlFor="reason">Motivo de la anulación</Label>
+                <Textarea id="reason" value={form.reason ?? ''} onChange={e => setField('reason', e.target.value)} />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button
+              variant={dialog?.type === 'cancel' ? 'destructive' : 'default'}
+              onClick={submit}
+              disabled={saving}
+            >
+              {saving ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
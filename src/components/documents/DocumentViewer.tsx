@@ -11,6 +11,8 @@ import {
   AlertCircle,
   Archive,
   Calendar,
+  ChevronLeft,
+  ChevronRight,
   CheckCircle,
   Clock,
   Download,
@@ -42,12 +44,14 @@ interface DocumentPreview {
   url?: string;
   content?: any;
   thumbnail?: string;
+  pageCount?: number;
 }
 
 export function DocumentViewer({ document, onClose, showActions = true }: DocumentViewerProps) {
   const [preview, setPreview] = useState<DocumentPreview | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('preview');
+  const [page, setPage] = useState(1);
 
   // Document type icon mapping
   const getDocumentIcon = (mimeType: string, className?: string) => {
@@ -85,7 +89,7 @@ export function DocumentViewer({ document, onClose, showActions = true }: Docume
   const loadPreview = useCallback(async () => {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/documents/${document.id}/preview`);
+      const response = await fetch(`/api/documents/${document.id}/preview?size=large&page=${page}`);
       if (response.ok) {
         const contentType = response.headers.get('content-type');
 
@@ -97,9 +101,12 @@ export function DocumentViewer({ document, onClose, showActions = true }: Docume
             thumbnail: data.thumbnail,
           });
         } else {
+          // Rendered pages come back as JPEG; PDFs also report how many pages they have
+          const pageCount = Number(response.headers.get('x-page-count')) || 1;
           setPreview({
-            type: 'image',
-            url: response.url,
+            type: document.mimeType === 'application/pdf' ? 'pdf' : 'image',
+            url: URL.createObjectURL(await response.blob()),
+            pageCount,
           });
         }
       } else {
@@ -117,7 +124,15 @@ export function DocumentViewer({ document, onClose, showActions = true }: Docume
     } finally {
       setIsLoading(false);
     }
-  }, [document.id]);
+  }, [document.id, document.mimeType, page]);
+
+  // Release the rendered page once it is replaced
+  useEffect(() => {
+    const url = preview?.url;
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [preview?.url]);
 
   // Load document preview
   useEffect(() => {
@@ -208,11 +223,13 @@ export function DocumentViewer({ document, onClose, showActions = true }: Docume
     switch (preview.type) {
       case 'image':
         return (
-          <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg p-4">
+          <div className="relative h-96 bg-gray-50 rounded-lg">
             <Image
               src={preview.url!}
               alt={document.title}
-              className="max-w-full max-h-full object-contain rounded shadow-lg"
+              fill
+              unoptimized
+              className="object-contain p-4"
             />
           </div>
         );
@@ -228,21 +245,43 @@ export function DocumentViewer({ document, onClose, showActions = true }: Docume
           </div>
         );
 
-      case 'pdf':
+      case 'pdf': {
+        const pageCount = preview.pageCount || 1;
         return (
-          <div className="flex items-center justify-center h-96">
-            <div className="text-center space-y-4">
-              <FileText className="h-12 w-12 text-gray-400 mx-auto" />
-              <p className="text-sm text-gray-500">
-                {preview.content?.message || 'PDF preview not available'}
-              </p>
-              <Button onClick={handleDownload} variant="outline">
-                <Download className="h-4 w-4 mr-2" />
-                Download PDF
+          <div className="space-y-3">
+            <div className="relative h-[32rem] bg-gray-50 rounded-lg">
+              <Image
+                src={preview.url!}
+                alt={`${document.title}, page ${page}`}
+                fill
+                unoptimized
+                className="object-contain p-4"
+              />
+            </div>
+            <div className="flex items-center justify-center gap-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-gray-500">
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount}
+              >
+                <ChevronRight className="h-4 w-4" />
               </Button>
             </div>
           </div>
         );
+      }
 
       default:
         return (
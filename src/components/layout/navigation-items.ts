@@ -5,6 +5,7 @@ import {
   FileImage,
   FileText,
   Home,
+  Route,
   Settings,
   Users,
 } from 'lucide-react';
@@ -23,6 +24,12 @@ export const navigationItems: NavItem[] = [
     icon: FileText,
     description: 'Gestión de casos de expropiación',
   },
+  {
+    title: 'Proyectos',
+    href: '/projects',
+    icon: Route,
+    description: 'Obras públicas con múltiples parcelas',
+  },
   {
     title: 'Informes',
     href: '/reports',
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowRight, Download, UserPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import clientLogger from '@/lib/client-logger';
+
+interface ProjectBulkActionsProps {
+  projectId: string;
+  departmentId: string;
+  onCompleted: () => void;
+}
+
+interface UserOption {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface BulkSummary {
+  processed: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  results: Array<{ fileNumber: string; status: string; reason?: string }>;
+}
+
+export function ProjectBulkActions({ projectId, departmentId, onCompleted }: ProjectBulkActionsProps) {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<'assign' | 'advance' | null>(null);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [assignedToId, setAssignedToId] = useState('');
+  const [reason, setReason] = useState('');
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<BulkSummary | null>(null);
+
+  useEffect(() => {
+    if (dialog !== 'assign' || users.length > 0) return;
+    fetch(`/api/users?departmentId=${departmentId}&isActive=true&limit=100`)
+      .then(response => (response.ok ? response.json() : { users: [] }))
+      .then(data => setUsers(data.users ?? []))
+      .catch(error => clientLogger.error('Error fetching users:', { error }));
+  }, [dialog, departmentId, users.length]);
+
+  const closeDialog = () => {
+    setDialog(null);
+    setReason('');
+    setAssignedToId('');
+    setSummary(null);
+  };
+
+  const runBulkAction = async () => {
+    if (!dialog) return;
+    setRunning(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/bulk`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: dialog,
+          ...(dialog === 'assign' && { assignedToId }),
+          ...(reason && { reason }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error en la acción masiva');
+      }
+      setSummary(data);
+      toast({
+        title: 'Acción masiva completada',
+        description: `${data.updated} de ${data.processed} casos actualizados`,
+      });
+      onCompleted();
+    } catch (error) {
+      clientLogger.error('Error running bulk action:', { error });
+      toast({
+        title: 'Error en la acción masiva',
+        description: error instanceof Error ? error.message : 'No se pudo completar la acción',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const exportCases = async () => {
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format: 'excel',
+          dataType: 'cases',
+          dateRange: { start: new Date(0).toISOString(), end: new Date().toISOString() },
+          filters: { projectId, includeArchived: true },
+          fields: [],
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error en la exportación');
+      }
+      const link = document.createElement('a');
+      link.href = data.data;
+      link.download = data.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      clientLogger.error('Error exporting project cases:', { error });
+      toast({
+        title: 'Error en exportación',
+        description: 'No se pudo exportar los casos del proyecto.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => setDialog('assign')}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Asignar casos
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setDialog('advance')}>
+          <ArrowRight className="h-4 w-4 mr-2" />
+          Avanzar etapa
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportCases}>
+          <Download className="h-4 w-4 mr-2" />
+          Exportar
+        </Button>
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={open => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog === 'assign' ? 'Asignar todos los casos abiertos' : 'Avanzar todos los casos abiertos'}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog === 'assign'
+                ? 'Los casos abiertos del proyecto se asignarán al analista seleccionado.'
+                : 'Cada caso pasa a su siguiente etapa si cumple la lista de verificación y las reglas de validación; los demás se omiten.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {summary ? (
+            <div className="space-y-2 text-sm">
+              <p>
+                {summary.updated} actualizados, {summary.skipped} omitidos, {summary.failed} con error
+              </p>
+              <ul className="max-h-48 overflow-y-auto space-y-1">
+                {summary.results.filter(r => r.status !== 'updated').map(r => (
+                  <li key={r.fileNumber} className="text-muted-foreground">
+                    {r.fileNumber}: {r.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {dialog === 'assign' && (
+                <div className="space-y-2">
+                  <Label>Asignar a</Label>
+                  <Select value={assignedToId} onValueChange={setAssignedToId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seleccione un usuario" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {users.map(user => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.firstName} {user.lastName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Motivo</Label>
+                <Textarea value={reason} onChange={event => setReason(event.target.value)} rows={3} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              {summary ? 'Cerrar' : 'Cancelar'}
+            </Button>
+            {!summary && (
+              <Button
+                onClick={runBulkAction}
+                disabled={running || (dialog === 'assign' && !assignedToId)}
+              >
+                {running ? 'Procesando...' : 'Confirmar'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
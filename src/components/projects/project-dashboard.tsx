@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, Banknote, CheckCircle2, FileText, Route } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import clientLogger from '@/lib/client-logger';
+import { ProjectBulkActions } from './project-bulk-actions';
+
+interface ProjectDashboardData {
+  project: {
+    id: string;
+    code: string;
+    name: string;
+    description: string | null;
+    status: string;
+    decree: string | null;
+    decreeDate: string | null;
+    budget: number | null;
+    currency: string;
+    contractor: string | null;
+    startDate: string | null;
+    expectedEndDate: string | null;
+    departmentId: string;
+    department: { name: string };
+  };
+  totals: {
+    cases: number;
+    open: number;
+    completed: number;
+    cancelled: number;
+    suspended: number;
+    progressPercentage: number;
+  };
+  stageDistribution: Array<{ stage: string; label: string; count: number }>;
+  compensation: {
+    currency: string;
+    budget: number | null;
+    appraised: number;
+    compensation: number;
+    paid: number;
+    pending: number;
+    paidCases: number;
+    budgetUsedPercent: number | null;
+  };
+  slowestParcels: Array<{
+    caseId: string;
+    fileNumber: string;
+    title: string;
+    propertyAddress: string;
+    ownerName: string;
+    stageLabel: string;
+    daysInStage: number;
+    daysOpen: number;
+    stageDueDate: string | null;
+    overdue: boolean;
+    assignedTo: { id: string; name: string } | null;
+  }>;
+}
+
+const PROJECT_STATUS_LABELS: Record<string, string> = {
+  PLANNING: 'En planificación',
+  ACTIVE: 'En ejecución',
+  COMPLETED: 'Completado',
+  CANCELLED: 'Cancelado',
+};
+
+function formatMoney(value: number, currency: string) {
+  return new Intl.NumberFormat('es-DO', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+}
+
+export function ProjectDashboard({ projectId }: { projectId: string }) {
+  const [data, setData] = useState<ProjectDashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDashboard = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/dashboard`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Proyecto no encontrado' : 'Error al cargar el proyecto');
+      }
+      setData(await response.json());
+      setError(null);
+    } catch (err) {
+      clientLogger.error('Error fetching project dashboard:', { error: err });
+      setError(err instanceof Error ? err.message : 'Error al cargar el proyecto');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchDashboard();
+  }, [fetchDashboard]);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          {error || 'Proyecto no encontrado'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { project, totals, stageDistribution, compensation, slowestParcels } = data;
+  const maxStageCount = Math.max(...stageDistribution.map(s => s.count), 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Route className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold text-foreground">{project.name}</h1>
+            <Badge variant="outline">{project.code}</Badge>
+            <Badge variant="secondary">{PROJECT_STATUS_LABELS[project.status] ?? project.status}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {project.department.name}
+            {project.decree && ` · Decreto ${project.decree}`}
+            {project.decreeDate && ` del ${format(new Date(project.decreeDate), 'dd/MM/yyyy', { locale: es })}`}
+            {project.contractor && ` · Contratista: ${project.contractor}`}
+          </p>
+          {project.description && <p className="text-sm mt-2">{project.description}</p>}
+        </div>
+        <ProjectBulkActions projectId={project.id} departmentId={project.departmentId} onCompleted={fetchDashboard} />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Parcelas</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totals.cases}</div>
+            <p className="text-xs text-muted-foreground">
+              {totals.open} abiertas · {totals.suspended} suspendidas · {totals.cancelled} canceladas
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Avance</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totals.progressPercentage}%</div>
+            <Progress value={totals.progressPercentage} className="mt-2" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Tasado vs. pagado</CardTitle>
+            <Banknote className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatMoney(compensation.paid, compensation.currency)}</div>
+            <p className="text-xs text-muted-foreground">
+              de {formatMoney(compensation.appraised, compensation.currency)} tasados · {compensation.paidCases} parcelas pagadas
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Presupuesto</CardTitle>
+            <Banknote className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {compensation.budget !== null ? formatMoney(compensation.budget, compensation.currency) : '—'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {compensation.budgetUsedPercent !== null
+                ? `${compensation.budgetUsedPercent}% ejecutado · ${formatMoney(compensation.pending, compensation.currency)} por pagar`
+                : `${formatMoney(compensation.pending, compensation.currency)} por pagar`}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Distribución por etapa</CardTitle>
+            <CardDescription>Parcelas en cada etapa del proceso</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {stageDistribution.map(stage => (
+              <div key={stage.stage} className="flex items-center gap-3 text-sm">
+                <span className="w-48 truncate" title={stage.label}>{stage.label}</span>
+                <div className="flex-1 h-2 rounded bg-muted">
+                  <div
+                    className="h-2 rounded bg-primary"
+                    style={{ width: `${(stage.count / maxStageCount) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right font-medium">{stage.count}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Parcelas más lentas</CardTitle>
+            <CardDescription>Casos abiertos con más días en su etapa actual</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {slowestParcels.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No hay parcelas abiertas</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Expediente</TableHead>
+                    <TableHead>Etapa</TableHead>
+                    <TableHead className="text-right">Días</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {slowestParcels.map(parcel => (
+                    <TableRow key={parcel.caseId}>
+                      <TableCell>
+                        <Link href={`/cases/${parcel.caseId}`} className="font-medium hover:underline">
+                          {parcel.fileNumber}
+                        </Link>
+                        <p className="text-xs text-muted-foreground truncate max-w-56">
+                          {parcel.ownerName} · {parcel.propertyAddress}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {parcel.stageLabel}
+                        {parcel.assignedTo && (
+                          <p className="text-xs text-muted-foreground">{parcel.assignedTo.name}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <span className="inline-flex items-center gap-1">
+                          {parcel.overdue && <AlertTriangle className="h-3 w-3 text-red-500" />}
+                          {parcel.daysInStage}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
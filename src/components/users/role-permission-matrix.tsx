@@ -10,6 +10,13 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -52,12 +59,14 @@ import {
 import { toast } from 'react-hot-toast';
 import { PERMISSION_CATEGORIES, DEFAULT_PERMISSIONS, normalizePermissions, RolePermissions } from '@/types/permissions';
 import clientLogger from '@/lib/client-logger';
+import { documentSecurityLevelTranslations } from '@/lib/document-constants';
 
 interface Role {
   id: string;
   name: string;
   description?: string;
   permissions: Partial<RolePermissions>;
+  clearanceLevel?: string;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -91,6 +100,7 @@ export function RolePermissionMatrix({ roles, onRolesUpdate }: RolePermissionMat
   const [roleName, setRoleName] = useState('');
   const [roleDescription, setRoleDescription] = useState('');
   const [rolePermissions, setRolePermissions] = useState<RolePermissions>(DEFAULT_PERMISSIONS);
+  const [roleClearance, setRoleClearance] = useState('INTERNAL');
 
   // Initialize role permissions state
   useEffect(() => {
@@ -159,6 +169,7 @@ export function RolePermissionMatrix({ roles, onRolesUpdate }: RolePermissionMat
       const requestData: any = {
         name: roleName.trim(),
         permissions: cleanedPermissions,
+        clearanceLevel: roleClearance,
       };
 
       // Only include description if it's not empty
@@ -206,6 +217,7 @@ export function RolePermissionMatrix({ roles, onRolesUpdate }: RolePermissionMat
         id: selectedRole.id,
         name: roleName.trim(),
         permissions: normalizedPermissions,
+        clearanceLevel: roleClearance,
       };
 
       // Only include description if it's not empty
@@ -266,6 +278,7 @@ export function RolePermissionMatrix({ roles, onRolesUpdate }: RolePermissionMat
   const handleDuplicateRole = (role: Role) => {
     setRoleName(`${role.name} (Copia)`);
     setRoleDescription(role.description || '');
+    setRoleClearance(role.clearanceLevel || 'INTERNAL');
 
     const currentPermissions = role.permissions;
     const updatedPermissions = { ...DEFAULT_PERMISSIONS };
@@ -292,6 +305,7 @@ export function RolePermissionMatrix({ roles, onRolesUpdate }: RolePermissionMat
   const resetForm = () => {
     setRoleName('');
     setRoleDescription('');
+    setRoleClearance('INTERNAL');
     setRolePermissions(DEFAULT_PERMISSIONS);
   };
 
@@ -299,6 +313,7 @@ export function RolePermissionMatrix({ roles, onRolesUpdate }: RolePermissionMat
   const loadRoleForEdit = (role: Role) => {
     setRoleName(role.name);
     setRoleDescription(role.description || '');
+    setRoleClearance(role.clearanceLevel || 'INTERNAL');
 
     const currentPermissions = role.permissions;
     const updatedPermissions = { ...DEFAULT_PERMISSIONS };
@@ -655,6 +670,22 @@ export function RolePermissionMatrix({ roles, onRolesUpdate }: RolePermissionMat
                   rows={3}
                 />
               </div>
+              <div>
+                <Label htmlFor="roleClearance">Nivel de acceso a documentos</Label>
+                <Select value={roleClearance} onValueChange={setRoleClearance}>
+                  <SelectTrigger id="roleClearance">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(documentSecurityLevelTranslations).map(([level, label]) => (
+                      <SelectItem key={level} value={level}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Nivel de seguridad más alto de los documentos que pueden abrir los usuarios de este rol
+                </p>
+              </div>
             </div>
 
             {/* Permissions */}
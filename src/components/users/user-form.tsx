@@ -68,6 +68,7 @@ const userFormSchema = z.object({
   emailNotifications: z.boolean().default(true),
   emailMarketing: z.boolean().default(false),
   emailDigest: z.boolean().default(true),
+  emailDigestFrequency: z.enum(['daily', 'weekly']).default('daily'),
 
   // Status
   isActive: z.boolean().default(true),
@@ -137,6 +138,7 @@ export function UserForm({
       emailNotifications: initialData?.emailNotifications ?? true,
       emailMarketing: initialData?.emailMarketing ?? false,
       emailDigest: initialData?.emailDigest ?? true,
+      emailDigestFrequency: initialData?.emailDigestFrequency || 'daily',
       isActive: initialData?.isActive ?? true,
       isSuspended: initialData?.isSuspended ?? false,
       suspensionReason: initialData?.suspensionReason || '',
@@ -837,9 +839,9 @@ export function UserForm({
                     render={({ field }) => (
                       <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
                         <div className="space-y-0.5">
-                          <FormLabel className="text-base">Resumen Diario</FormLabel>
+                          <FormLabel className="text-base">Resumen por Correo</FormLabel>
                           <FormDescription>
-                            Recibir un resumen diario de las actividades
+                            Recibir un resumen de casos asignados, vencimientos, observaciones y aprobaciones pendientes
                           </FormDescription>
                         </div>
                         <FormControl>
@@ -852,6 +854,30 @@ export function UserForm({
                     )}
                   />
 
+                  {form.watch('emailDigest') && (
+                    <FormField
+                      control={form.control}
+                      name="emailDigestFrequency"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Frecuencia del Resumen</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value ?? 'daily'}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="daily">Diario</SelectItem>
+                              <SelectItem value="weekly">Semanal (lunes)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   <FormField
                     control={form.control}
                     name="emailMarketing"
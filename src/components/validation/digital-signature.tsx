@@ -31,6 +31,7 @@ import {
   Clock,
   User,
   Shield,
+  Download,
   X
 } from 'lucide-react';
 import clientLogger from '@/lib/client-logger';
@@ -50,6 +51,7 @@ interface DigitalSignature {
   revokedAt?: string;
   revokedBy?: string;
   revokedReason?: string;
+  verificationCode?: string | null;
   user: {
     id: string;
     firstName: string;
@@ -331,8 +333,24 @@ export function DigitalSignature({
                     </div>
                   )}
 
-                  <div className="mt-2 text-xs text-gray-500">
-                    IP: {signature.ipAddress}
+                  <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                    <span>
+                      IP: {signature.ipAddress}
+                      {signature.verificationCode && (
+                        <>
+                          {' · '}
+                          <a href={`/verify/${signature.verificationCode}`} target="_blank" rel="noreferrer" className="underline">
+                            Code {signature.verificationCode}
+                          </a>
+                        </>
+                      )}
+                    </span>
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/signatures/${signature.id}/verification`} download>
+                        <Download className="h-4 w-4 mr-2" />
+                        Verification report
+                      </a>
+                    </Button>
                   </div>
                 </div>
               ))}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, CheckCircle, AlertCircle, AlertTriangle, FileText } from 'lucide-react';
+import clientLogger from '@/lib/client-logger';
+import type { PublicHashStatus, PublicVerification } from '@/lib/signatures/public';
+
+const SIGNATURE_TYPE_LABELS: Record<string, string> = {
+  APPROVAL: 'Aprobación',
+  REJECTION: 'Rechazo',
+  REVIEW: 'Revisión',
+  WITNESS: 'Testigo',
+  CERTIFICATION: 'Certificación',
+  VALIDATION: 'Validación',
+};
+
+const SIGNATURE_STATUS: Record<PublicVerification['signatures'][number]['status'], { label: string; className: string }> = {
+  valid: { label: 'Válida', className: 'bg-green-100 text-green-800' },
+  revoked: { label: 'Revocada', className: 'bg-red-100 text-red-800' },
+  invalid: { label: 'No válida', className: 'bg-red-100 text-red-800' },
+};
+
+const HASH_STATUS: Record<PublicHashStatus, { title: string; description: string; ok: boolean }> = {
+  intact: {
+    title: 'Documento íntegro',
+    description: 'El documento registrado es idéntico al que se firmó con este código.',
+    ok: true,
+  },
+  superseded: {
+    title: 'Documento firmado nuevamente',
+    description: 'El documento firmado con este código recibió firmas posteriores; la versión registrada es la última firmada.',
+    ok: true,
+  },
+  modified: {
+    title: 'Documento modificado',
+    description: 'El documento registrado no coincide con el que se firmó con este código.',
+    ok: false,
+  },
+  missing: {
+    title: 'Documento no disponible',
+    description: 'El archivo firmado ya no se encuentra en el sistema.',
+    ok: false,
+  },
+};
+
+export function VerificationCodeForm() {
+  const router = useRouter();
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const value = code.trim();
+    if (value) {
+      router.push(`/verify/${encodeURIComponent(value)}`);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <form onSubmit={handleSubmit}>
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Verificar documento</CardTitle>
+          <CardDescription className="text-center">
+            Ingrese el código de verificación impreso en el bloque de firma del documento.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="verification-code">Código de verificación</Label>
+          <Input
+            id="verification-code"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="XXXX-XXXX"
+            autoComplete="off"
+            className="font-mono uppercase"
+          />
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" className="w-full" disabled={!code.trim()}>
+            Verificar
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export function VerificationResult({ code }: { code: string }) {
+  const [verification, setVerification] = useState<PublicVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadVerification = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/verify/${encodeURIComponent(code)}`);
+
+        if (response.status === 404) {
+          setError('El código de verificación no corresponde a ningún documento firmado.');
+          return;
+        }
+        if (response.status === 429) {
+          setError('Demasiadas consultas. Por favor, espere 15 minutos antes de intentar nuevamente.');
+          return;
+        }
+        if (!response.ok) {
+          setError('No se pudo verificar el documento. Por favor, intente nuevamente.');
+          return;
+        }
+
+        setVerification(await response.json());
+      } catch (error: unknown) {
+        if (error instanceof Error) {
+          clientLogger.error('Verification error:', error);
+        }
+        setError('Error de conexión. Por favor, intente nuevamente.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadVerification();
+  }, [code]);
+
+  if (isLoading) {
+    return (
+      <Card className="w-full max-w-2xl">
+        <CardContent className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !verification) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex justify-center mb-4">
+            <div className="p-3 bg-red-100 rounded-full">
+              <AlertCircle className="h-8 w-8 text-red-600" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold text-center">Código no verificado</CardTitle>
+          <CardDescription className="text-center">{error}</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button variant="outline" className="w-full" asChild>
+            <Link href="/verify">Verificar otro código</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  const hashStatus = HASH_STATUS[verification.hashStatus];
+  const signature = verification.signatures.find((s) => s.isVerifiedCode);
+  const isGenuine = hashStatus.ok && signature?.status === 'valid';
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader className="space-y-1">
+        <div className="flex justify-center mb-4">
+          <div className={`p-3 rounded-full ${isGenuine ? 'bg-green-100' : 'bg-red-100'}`}>
+            {isGenuine ? (
+              <CheckCircle className="h-8 w-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="h-8 w-8 text-red-600" />
+            )}
+          </div>
+        </div>
+        <CardTitle className="text-2xl font-bold text-center">
+          {isGenuine ? 'Firma verificada' : 'Firma no válida'}
+        </CardTitle>
+        <CardDescription className="text-center">
+          Código <span className="font-mono">{verification.code}</span> · consultado el{' '}
+          {format(new Date(verification.verifiedAt), "d 'de' MMMM 'de' yyyy, HH:mm", { locale: es })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-start gap-3">
+          <FileText className="h-5 w-5 text-gray-500 mt-0.5" />
+          <div className="text-sm">
+            <p className="font-medium text-gray-900">{verification.document.title}</p>
+            {verification.fileNumber && <p className="text-gray-600">Expediente: {verification.fileNumber}</p>}
+            {verification.document.signedVersion !== null && (
+              <p className="text-gray-600">Versión firmada: {verification.document.signedVersion}</p>
+            )}
+          </div>
+        </div>
+
+        <div className={`p-4 rounded-lg border ${hashStatus.ok ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+          <p className={`font-medium ${hashStatus.ok ? 'text-green-800' : 'text-red-800'}`}>{hashStatus.title}</p>
+          <p className="text-sm text-gray-600">{hashStatus.description}</p>
+          {verification.document.signedHash && (
+            <p className="mt-2 text-xs text-gray-500 break-all">
+              SHA-256: <span className="font-mono">{verification.document.signedHash}</span>
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-900">Firmas del documento</h3>
+          {verification.signatures.map((item) => (
+            <div
+              key={`${item.signerName}-${item.signedAt}`}
+              className={`flex items-center justify-between p-3 border rounded-lg text-sm ${
+                item.isVerifiedCode ? 'border-primary' : 'border-gray-200'
+              }`}
+            >
+              <div>
+                <p className="font-medium">{item.signerName}</p>
+                <p className="text-gray-500">
+                  {SIGNATURE_TYPE_LABELS[item.signatureType] ?? item.signatureType} ·{' '}
+                  {format(new Date(item.signedAt), 'dd/MM/yyyy HH:mm', { locale: es })}
+                </p>
+              </div>
+              <Badge className={SIGNATURE_STATUS[item.status].className}>{SIGNATURE_STATUS[item.status].label}</Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button variant="outline" className="w-full" asChild>
+          <Link href="/verify">Verificar otro código</Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
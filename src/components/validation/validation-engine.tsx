@@ -56,8 +56,11 @@ interface ValidationExecution {
   entityId: string;
   context?: any;
   passed: boolean;
+  // Not evaluated because a prerequisite rule did not pass
+  skipped?: boolean;
   errors?: any;
   warnings?: any;
+  dependencyTrace?: any;
   executedBy?: string;
   executedAt: string;
   rule: ValidationRule;
@@ -161,7 +164,6 @@ export function ValidationEngine({
         stage,
         entityType,
         entityId,
-        ruleIds: rules.map(r => r.id), // Run all active rules
       };
 
       const response = await fetch('/api/validation/execute', {
@@ -200,7 +202,7 @@ export function ValidationEngine({
     } finally {
       setValidating(false);
     }
-  }, [caseId, entityId, entityType, onValidationComplete, rules, stage, toast]);
+  }, [caseId, entityId, entityType, onValidationComplete, stage, toast]);
 
   // Calculate summary
   const calculateSummary = (executions: ValidationExecution[]) => {
@@ -212,9 +214,9 @@ export function ValidationEngine({
     const summary: ValidationSummary = {
       total: executions.length,
       passed: executions.filter(e => e.passed).length,
-      failed: executions.filter(e => !e.passed && e.rule?.severity === 'ERROR').length,
-      warnings: executions.filter(e => !e.passed && e.rule?.severity === 'WARNING').length,
-      info: executions.filter(e => !e.passed && e.rule?.severity === 'INFO').length,
+      failed: executions.filter(e => !e.passed && !e.skipped && e.rule?.severity === 'ERROR').length,
+      warnings: executions.filter(e => !e.passed && !e.skipped && e.rule?.severity === 'WARNING').length,
+      info: executions.filter(e => !e.passed && !e.skipped && e.rule?.severity === 'INFO').length,
       executionTime: executions.reduce((sum, e) => sum + (e.executedAt ? 1 : 0), 0), // Simplified
       coverage: Math.round((executions.filter(e => e.passed).length / executions.length) * 100),
     };
@@ -584,6 +586,9 @@ export function ValidationEngine({
                                 >
                                   {execution.rule.severity}
                                 </Badge>
+                                {execution.skipped && (
+                                  <Badge variant="outline">SKIPPED</Badge>
+                                )}
                                 <span className="text-xs text-gray-500">
                                   {new Date(
                                     execution.executedAt
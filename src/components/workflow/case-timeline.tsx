@@ -14,6 +14,7 @@ import {
   FileText,
   RotateCcw,
   Info,
+  UserCheck,
   ChevronDown,
   ChevronUp
 } from 'lucide-react';
@@ -21,7 +22,7 @@ import { cn } from '@/lib/utils';
 
 interface TimelineEvent {
   id: string;
-  type: 'stage_start' | 'stage_complete' | 'stage_return' | 'document_upload' | 'assignment_change' | 'note_added';
+  type: 'stage_start' | 'stage_complete' | 'stage_return' | 'document_upload' | 'assignment_change' | 'note_added' | 'delegated_action';
   stage?: string;
   stageName?: string;
   title: string;
@@ -157,6 +158,8 @@ export function CaseTimeline({ caseId, className }: CaseTimelineProps) {
         return <User className="h-4 w-4 text-indigo-500" />;
       case 'note_added':
         return <Info className="h-4 w-4 text-gray-500" />;
+      case 'delegated_action':
+        return <UserCheck className="h-4 w-4 text-teal-500" />;
       default:
         return <Circle className="h-4 w-4 text-gray-400" />;
     }
@@ -65,6 +65,14 @@ interface StageProgression {
   createdAt: Date;
 }
 
+interface FailedRule {
+  ruleId: string;
+  ruleName: string;
+  severity: string;
+  message: string;
+  skipped: boolean;
+}
+
 interface StageProgressionControlProps {
   caseId: string;
   currentStage: string;
@@ -92,6 +100,9 @@ export function StageProgressionControl({
   const [reason, setReason] = useState('');
   const [observations, setObservations] = useState('');
   const [progressionType, setProgressionType] = useState<'FORWARD' | 'BACKWARD'>('FORWARD');
+  const [failedRules, setFailedRules] = useState<FailedRule[]>([]);
+  const [canOverride, setCanOverride] = useState(false);
+  const [overrideJustification, setOverrideJustification] = useState('');
 
   const fetchStages = useCallback(async () => {
     try {
@@ -151,15 +162,29 @@ export function StageProgressionControl({
           toStage: selectedStage,
           reason: reason.trim(),
           observations: observations.trim() || undefined,
+          overrideJustification: overrideJustification.trim() || undefined,
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+
+        // Blocking validation rules are shown in the dialog so they can be overridden
+        if (errorData.failedRules) {
+          setFailedRules(errorData.failedRules);
+          setCanOverride(!!errorData.canOverride);
+          setError('La etapa actual tiene reglas de validación obligatorias sin cumplir');
+          return;
+        }
+
         throw new Error(errorData.error || 'Failed to progress stage');
       }
 
-      await response.json();
+      const data = await response.json();
+
+      if (data.validationWarnings?.length > 0) {
+        toast(`${data.validationWarnings.length} advertencia(s) de validación registradas en el avance`);
+      }
 
       toast.success(
         progressionType === 'BACKWARD'
@@ -190,6 +215,9 @@ export function StageProgressionControl({
     setObservations('');
     setProgressionType('FORWARD');
     setError(null);
+    setFailedRules([]);
+    setCanOverride(false);
+    setOverrideJustification('');
   };
 
   const getNextStage = () => {
@@ -511,6 +539,32 @@ export function StageProgressionControl({
               </div>
             )}
 
+            {/* Blocking validation rules */}
+            {failedRules.length > 0 && (
+              <div className="space-y-2">
+                <ul className="text-sm border border-red-200 bg-red-50 rounded-lg p-3 space-y-1">
+                  {failedRules.map((rule) => (
+                    <li key={rule.ruleId}>
+                      <span className="font-medium">{rule.ruleName}</span>
+                      {rule.skipped ? ' (no evaluada: prerrequisito incumplido)' : ''}: {rule.message}
+                    </li>
+                  ))}
+                </ul>
+                {canOverride && (
+                  <>
+                    <Label htmlFor="overrideJustification">Justificación para omitir las reglas *</Label>
+                    <Textarea
+                      id="overrideJustification"
+                      placeholder="Explique por qué el caso puede avanzar sin cumplir estas reglas..."
+                      value={overrideJustification}
+                      onChange={(e) => setOverrideJustification(e.target.value)}
+                      rows={3}
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Info */}
             {progressionType === 'FORWARD' && (
               <Alert>
@@ -537,7 +591,10 @@ export function StageProgressionControl({
             <Button
               type="button"
               variant="outline"
-              onClick={() => setProgressionDialog(false)}
+              onClick={() => {
+                setProgressionDialog(false);
+                resetForm();
+              }}
               disabled={submitting}
             >
               Cancelar
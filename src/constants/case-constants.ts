@@ -39,6 +39,41 @@ export const OWNER_TYPES = [
   { value: 'sucesion', label: 'Sucesión' }
 ]
 
+// Case party roles
+export const PARTY_ROLES = [
+  { value: 'OWNER', label: 'Propietario' },
+  { value: 'CO_OWNER', label: 'Copropietario' },
+  { value: 'HEIR', label: 'Sucesor' },
+  { value: 'USUFRUCTUARY', label: 'Usufructuario' },
+  { value: 'MORTGAGE_HOLDER', label: 'Acreedor hipotecario' },
+  { value: 'TENANT', label: 'Arrendatario' },
+  { value: 'OTHER', label: 'Otro titular de derechos' }
+]
+
+// Identification document types
+export const IDENTIFICATION_TYPES = [
+  { value: 'cedula', label: 'Cédula' },
+  { value: 'rnc', label: 'RNC' },
+  { value: 'pasaporte', label: 'Pasaporte' }
+]
+
+// Compensation payment status of each party
+export const PARTY_PAYMENT_STATUSES = [
+  { value: 'PENDING', label: 'Pendiente' },
+  { value: 'SCHEDULED', label: 'Programado' },
+  { value: 'PAID', label: 'Pagado' },
+  { value: 'WITHHELD', label: 'Retenido' }
+]
+
+// Payment lifecycle: preventivo, libramiento, cheque and acuse de recibo
+export const PAYMENT_STATUSES = [
+  { value: 'COMMITTED', label: 'Comprometido' },
+  { value: 'ORDERED', label: 'Librado' },
+  { value: 'ISSUED', label: 'Cheque emitido' },
+  { value: 'DELIVERED', label: 'Entregado' },
+  { value: 'CANCELLED', label: 'Anulado' }
+]
+
 // Currency options
 export const CURRENCIES = [
   { value: 'DOP', label: 'Pesos Dominicanos (DOP)' },
@@ -211,6 +211,9 @@ export const STAGE_ORDER = [
 // SPECIAL_STAGES: Non-workflow stages
 export const SPECIAL_STAGES = ['SUSPENDED', 'CANCELLED'] as const satisfies readonly CaseStage[]
 
+// PDF_SIGNING_STAGES: Stages whose signed artifact is a signed PDF, not only a signature record
+export const PDF_SIGNING_STAGES = ['SANCION_INICIAL_MINISTRO', 'CERTIFICACION_CONTRATO'] as const satisfies readonly CaseStage[]
+
 // STAGE_LABELS: Human-readable labels for each stage
 export const STAGE_LABELS: Readonly<Record<CaseStage, string>> = Object.fromEntries(
   Object.entries(STAGE_CONFIG).map(([key, config]) => [key, config.label])
@@ -4,6 +4,7 @@ import { useSession } from 'next-auth/react'
 import { CreateCaseInput, UpdateCaseInput, Priority, CaseStatus, CaseStage } from '@/lib/validations/case'
 import { User, Department, Document, Case } from '@/types/client'
 import { formatDate } from '@/constants/case-constants'
+import { emptyParty, partiesFromCase } from '@/lib/case-helpers'
 import clientLogger from '@/lib/client-logger';
 
 interface CaseFormState {
@@ -85,6 +86,7 @@ export function useCaseForm(mode: 'create' | 'edit', caseId?: string, initialDat
         ownerEmail: initialData.ownerEmail || '',
         ownerAddress: initialData.ownerAddress || '',
         ownerType: initialData.ownerType || 'individual',
+        parties: partiesFromCase(initialData),
         estimatedValue: initialData.estimatedValue || undefined,
         actualValue: initialData.actualValue || undefined,
         appraisalValue: initialData.appraisalValue || undefined,
@@ -121,6 +123,7 @@ export function useCaseForm(mode: 'create' | 'edit', caseId?: string, initialDat
       ownerEmail: '',
       ownerAddress: '',
       ownerType: 'individual',
+      parties: [emptyParty(true)],
       estimatedValue: undefined,
       currency: 'DOP',
       expropriationDecree: '',
@@ -177,6 +180,7 @@ export function useCaseForm(mode: 'create' | 'edit', caseId?: string, initialDat
         ownerEmail: data.ownerEmail || '',
         ownerAddress: data.ownerAddress || '',
         ownerType: data.ownerType || 'individual',
+        parties: partiesFromCase(data),
         estimatedValue: data.estimatedValue || undefined,
         actualValue: data.actualValue || undefined,
         appraisalValue: data.appraisalValue || undefined,
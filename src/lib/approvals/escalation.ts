@@ -0,0 +1,274 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { notifyApprovalEscalated } from '@/lib/services/notification.service';
+import {
+  ActivityType,
+  ApprovalStatus,
+  type ApprovalEscalationPolicy,
+  type CaseStage,
+  type Prisma,
+} from '@/prisma/client';
+import { findLevelCandidates } from './resolve';
+
+export const ESCALATION_TARGETS = ['NEXT_LEVEL', 'DEPARTMENT_HEAD'] as const;
+export type EscalationTarget = (typeof ESCALATION_TARGETS)[number];
+
+export type EscalationPolicy = Pick<
+  ApprovalEscalationPolicy,
+  'target' | 'graceHours' | 'extensionHours' | 'maxEscalations' | 'isActive'
+>;
+
+// Used for stages without a policy of their own
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  target: 'NEXT_LEVEL',
+  graceHours: 0,
+  extensionHours: 48,
+  maxEscalations: 2,
+  isActive: true,
+};
+
+export interface EscalationRunSummary {
+  workflowsEscalated: number;
+  approvalsEscalated: number;
+  errors: string[];
+}
+
+export interface ApprovalEscalation {
+  approvalId: string;
+  fromUserId: string;
+  toUserId: string;
+  approvalLevel: number;
+  via: EscalationTarget;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const OVERDUE_WORKFLOW_SELECT = {
+  id: true,
+  title: true,
+  stage: true,
+  dueDate: true,
+  initiatedBy: true,
+  escalationCount: true,
+  approvalMatrix: true,
+  case: { select: { id: true, departmentId: true, department: { select: { headUserId: true } } } },
+  approvals: {
+    select: {
+      id: true,
+      userId: true,
+      decision: true,
+      approvalLevel: true,
+      conditions: true,
+      user: { select: { department: { select: { headUserId: true } } } },
+    },
+  },
+} satisfies Prisma.ApprovalWorkflowSelect;
+
+type OverdueWorkflow = Prisma.ApprovalWorkflowGetPayload<{ select: typeof OVERDUE_WORKFLOW_SELECT }>;
+
+// Workflows created from the matrix keep its id in their snapshot
+function snapshotMatrixId(value: Prisma.JsonValue): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  return typeof value.matrixId === 'string' ? value.matrixId : null;
+}
+
+export function isEscalationDue(
+  workflow: { dueDate: Date | null; escalationCount: number },
+  policy: EscalationPolicy,
+  now: Date
+): boolean {
+  return (
+    policy.isActive &&
+    workflow.dueDate !== null &&
+    workflow.escalationCount < policy.maxEscalations &&
+    workflow.dueDate.getTime() + policy.graceHours * HOUR_MS <= now.getTime()
+  );
+}
+
+async function nextLevelApprover(
+  workflow: OverdueWorkflow,
+  approvalLevel: number,
+  taken: Set<string>
+): Promise<{ userId: string; level: number } | null> {
+  const matrixId = snapshotMatrixId(workflow.approvalMatrix);
+  if (!matrixId) return null;
+
+  const levels = await prisma.approvalMatrixLevel.findMany({
+    where: { matrixId, isActive: true, autoApprove: false, sequence: { gt: approvalLevel } },
+    orderBy: { sequence: 'asc' },
+  });
+  for (const level of levels) {
+    const candidate = (await findLevelCandidates(level, workflow.case.departmentId)).find(
+      (item) => !taken.has(item.id)
+    );
+    if (candidate) return { userId: candidate.id, level: level.sequence };
+  }
+  return null;
+}
+
+function departmentHeadApprover(
+  workflow: OverdueWorkflow,
+  approval: OverdueWorkflow['approvals'][number],
+  taken: Set<string>
+): { userId: string; level: number } | null {
+  const heads = [approval.user.department.headUserId, workflow.case.department.headUserId];
+  const userId = heads.find((id): id is string => !!id && !taken.has(id));
+  return userId ? { userId, level: approval.approvalLevel } : null;
+}
+
+/**
+ * Pick who takes over each pending approval: the policy's target first and
+ * the other one when it finds nobody. Nobody who already approves in the
+ * workflow, nor its initiator, is picked.
+ */
+async function planEscalations(workflow: OverdueWorkflow, policy: EscalationPolicy): Promise<ApprovalEscalation[]> {
+  const taken = new Set([workflow.initiatedBy, ...workflow.approvals.map((approval) => approval.userId)]);
+  const order: EscalationTarget[] =
+    policy.target === 'DEPARTMENT_HEAD' ? ['DEPARTMENT_HEAD', 'NEXT_LEVEL'] : ['NEXT_LEVEL', 'DEPARTMENT_HEAD'];
+  const escalations: ApprovalEscalation[] = [];
+
+  for (const approval of workflow.approvals) {
+    if (approval.decision !== ApprovalStatus.PENDING) continue;
+
+    for (const via of order) {
+      const target =
+        via === 'NEXT_LEVEL'
+          ? await nextLevelApprover(workflow, approval.approvalLevel, taken)
+          : departmentHeadApprover(workflow, approval, taken);
+      if (!target) continue;
+
+      taken.add(target.userId);
+      escalations.push({
+        approvalId: approval.id,
+        fromUserId: approval.userId,
+        toUserId: target.userId,
+        approvalLevel: target.level,
+        via,
+      });
+      break;
+    }
+  }
+  return escalations;
+}
+
+/**
+ * Hand the pending approvals of an overdue workflow to their escalation
+ * targets. The originals are marked ESCALATED, the workflow gets a new due
+ * date, and the change is recorded in the case history and activity log on
+ * behalf of the workflow's initiator. Returns the escalations made, none
+ * when another run escalated the workflow first.
+ */
+async function escalateWorkflow(
+  workflow: OverdueWorkflow,
+  policy: EscalationPolicy,
+  now: Date = new Date()
+): Promise<ApprovalEscalation[]> {
+  const escalations = await planEscalations(workflow, policy);
+  if (escalations.length === 0) return [];
+
+  const dueDate = new Date(now.getTime() + policy.extensionHours * HOUR_MS);
+  const applied = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.approvalWorkflow.updateMany({
+      where: { id: workflow.id, status: ApprovalStatus.PENDING, escalationCount: workflow.escalationCount },
+      data: {
+        escalatedAt: now,
+        escalatedTo: escalations.map((item) => item.toUserId).join(','),
+        escalationCount: { increment: 1 },
+        dueDate,
+      },
+    });
+    if (claimed.count === 0) return false;
+
+    await tx.approval.updateMany({
+      where: { id: { in: escalations.map((item) => item.approvalId) }, decision: ApprovalStatus.PENDING },
+      data: { decision: ApprovalStatus.ESCALATED },
+    });
+    await tx.approval.createMany({
+      data: escalations.map((item) => ({
+        workflowId: workflow.id,
+        userId: item.toUserId,
+        approvalLevel: item.approvalLevel,
+        conditions:
+          (workflow.approvals.find((approval) => approval.id === item.approvalId)?.conditions ??
+            []) as Prisma.InputJsonValue,
+      })),
+    });
+
+    await tx.caseHistory.create({
+      data: {
+        caseId: workflow.case.id,
+        changedById: workflow.initiatedBy,
+        action: 'approval_escalation',
+        field: 'approvalWorkflow',
+        previousValue: JSON.stringify({
+          approvers: escalations.map((item) => item.fromUserId),
+          dueDate: workflow.dueDate,
+        }),
+        newValue: JSON.stringify({ approvers: escalations.map((item) => item.toUserId), dueDate }),
+        reason: 'Plazo de aprobación vencido',
+        notes: `Escalamiento automático ${workflow.escalationCount + 1} de "${workflow.title}"`,
+      },
+    });
+    await tx.activity.create({
+      data: {
+        action: ActivityType.REASSIGNED,
+        entityType: 'approval_workflow',
+        entityId: workflow.id,
+        description: `Escalated overdue approval workflow: ${workflow.title}`,
+        userId: workflow.initiatedBy,
+        caseId: workflow.case.id,
+        metadata: {
+          automatic: true,
+          escalation: workflow.escalationCount + 1,
+          previousDueDate: workflow.dueDate?.toISOString() ?? null,
+          dueDate: dueDate.toISOString(),
+          escalations: escalations.map(({ fromUserId, toUserId, via }) => ({ fromUserId, toUserId, via })),
+        },
+      },
+    });
+    return true;
+  });
+  if (!applied) return [];
+
+  await notifyApprovalEscalated(workflow.id, escalations);
+  return escalations;
+}
+
+async function loadEscalationPolicies(): Promise<Map<CaseStage, EscalationPolicy>> {
+  const policies = await prisma.approvalEscalationPolicy.findMany();
+  return new Map(policies.map((policy) => [policy.stage, policy]));
+}
+
+/**
+ * Escalate every pending workflow past its due date, following the policy
+ * of its stage. Run by the background worker.
+ */
+export async function runApprovalEscalations(now: Date = new Date()): Promise<EscalationRunSummary> {
+  const summary: EscalationRunSummary = { workflowsEscalated: 0, approvalsEscalated: 0, errors: [] };
+  const [policies, workflows] = await Promise.all([
+    loadEscalationPolicies(),
+    prisma.approvalWorkflow.findMany({
+      where: { status: ApprovalStatus.PENDING, dueDate: { lte: now }, case: { deletedAt: null } },
+      select: OVERDUE_WORKFLOW_SELECT,
+      orderBy: { dueDate: 'asc' },
+    }),
+  ]);
+
+  for (const workflow of workflows) {
+    const policy = policies.get(workflow.stage) ?? DEFAULT_ESCALATION_POLICY;
+    if (!isEscalationDue(workflow, policy, now)) continue;
+
+    try {
+      const escalations = await escalateWorkflow(workflow, policy, now);
+      if (escalations.length > 0) {
+        summary.workflowsEscalated += 1;
+        summary.approvalsEscalated += escalations.length;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error escalating approval workflow ${workflow.id}:`, error);
+      summary.errors.push(`${workflow.id}: ${message}`);
+    }
+  }
+  return summary;
+}
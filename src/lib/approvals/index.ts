@@ -0,0 +1,32 @@
+export {
+  APPROVAL_MATRIX_INCLUDE,
+  ApprovalMatrixError,
+  DEFAULT_MATRIX_ENTITY_TYPE,
+  canManageApprovalMatrices,
+  jsonStringList,
+  levelApplies,
+  nextMatrixLevelSequence,
+  prepareMatrixLevelData,
+  serializeMatrix,
+  serializeMatrixLevel,
+  type ApprovalMatrixCriteria,
+  type MatrixLevelData,
+} from './matrix';
+export {
+  findLevelCandidates,
+  resolveApprovalRequirement,
+  type ApproverCandidate,
+  type ApprovalRequirement,
+  type ResolveApprovalRequirementInput,
+  type ResolvedApprovalLevel,
+} from './resolve';
+export {
+  DEFAULT_ESCALATION_POLICY,
+  ESCALATION_TARGETS,
+  isEscalationDue,
+  runApprovalEscalations,
+  type ApprovalEscalation,
+  type EscalationPolicy,
+  type EscalationRunSummary,
+  type EscalationTarget,
+} from './escalation';
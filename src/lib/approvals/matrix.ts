@@ -0,0 +1,151 @@
+import { prisma } from '@/lib/prisma';
+import type { ApprovalMatrixLevel, CaseStage, Prisma } from '@/prisma/client';
+import type { ApprovalMatrixLevelInput } from '@/lib/validations/approval-matrix';
+
+export const DEFAULT_MATRIX_ENTITY_TYPE = 'EXPROPRIATION';
+
+export class ApprovalMatrixError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'ApprovalMatrixError';
+  }
+}
+
+// Roles allowed to edit approval matrices
+const MATRIX_ADMIN_ROLES = ['super_admin', 'department_admin'];
+
+export function canManageApprovalMatrices(role: string | undefined): boolean {
+  return !!role && MATRIX_ADMIN_ROLES.includes(role);
+}
+
+export const APPROVAL_MATRIX_INCLUDE = {
+  levels: { orderBy: { sequence: 'asc' } },
+} satisfies Prisma.ApprovalMatrixInclude;
+
+export interface ApprovalMatrixCriteria {
+  stage: CaseStage;
+  departmentId: string;
+  amount: number;
+}
+
+export function jsonStringList(value: Prisma.JsonValue | null): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && item.length > 0);
+}
+
+/**
+ * A level as the approval matrix screen expects it, with role and
+ * department lists as plain arrays.
+ */
+export function serializeMatrixLevel(level: ApprovalMatrixLevel) {
+  return {
+    ...level,
+    approverRoles: jsonStringList(level.approverRoles),
+    approverDepartments: jsonStringList(level.approverDepartments),
+  };
+}
+
+export function serializeMatrix<T extends { levels: ApprovalMatrixLevel[] }>(matrix: T) {
+  return { ...matrix, levels: matrix.levels.map(serializeMatrixLevel) };
+}
+
+/**
+ * Whether a level applies to a case. Levels without a stage or department
+ * apply to all of them; a max amount of 0 leaves the range open.
+ */
+export function levelApplies(
+  level: Pick<ApprovalMatrixLevel, 'isActive' | 'stage' | 'departmentId' | 'minAmount' | 'maxAmount'>,
+  criteria: ApprovalMatrixCriteria
+): boolean {
+  return (
+    level.isActive &&
+    (level.stage === null || level.stage === criteria.stage) &&
+    (level.departmentId === null || level.departmentId === criteria.departmentId) &&
+    criteria.amount >= level.minAmount &&
+    (level.maxAmount === 0 || criteria.amount <= level.maxAmount)
+  );
+}
+
+export type MatrixLevelData = {
+  name?: string;
+  description?: string | null;
+  stage?: CaseStage | null;
+  departmentId?: string | null;
+  minAmount?: number;
+  maxAmount?: number;
+  requiredApprovers?: number;
+  approverRoles?: string[];
+  approverDepartments?: string[];
+  autoApprove?: boolean;
+  autoApproveConditions?: Prisma.InputJsonValue;
+  escalationRules?: Prisma.InputJsonValue;
+  isActive?: boolean;
+};
+
+/**
+ * Check a level's amount range and the roles and departments it names, and
+ * keep only the fields that were sent. `existing` is the stored level on
+ * updates, so a partial range is checked against the other bound.
+ */
+export async function prepareMatrixLevelData(
+  input: ApprovalMatrixLevelInput,
+  existing?: Pick<ApprovalMatrixLevel, 'minAmount' | 'maxAmount'>
+): Promise<MatrixLevelData> {
+  const minAmount = input.minAmount ?? existing?.minAmount ?? 0;
+  const maxAmount = input.maxAmount ?? existing?.maxAmount ?? 0;
+  if (maxAmount !== 0 && maxAmount < minAmount) {
+    throw new ApprovalMatrixError('maxAmount must be 0 (no limit) or at least minAmount');
+  }
+
+  const roles = [...new Set(input.approverRoles ?? [])];
+  const codes = [...new Set(input.approverDepartments ?? [])];
+  const [knownRoles, knownDepartments, department] = await Promise.all([
+    roles.length > 0 ? prisma.role.findMany({ where: { name: { in: roles } }, select: { name: true } }) : [],
+    codes.length > 0 ? prisma.department.findMany({ where: { code: { in: codes } }, select: { code: true } }) : [],
+    input.departmentId ? prisma.department.findUnique({ where: { id: input.departmentId }, select: { id: true } }) : null,
+  ]);
+
+  const unknownRoles = roles.filter((role) => !knownRoles.some((item) => item.name === role));
+  if (unknownRoles.length > 0) {
+    throw new ApprovalMatrixError(`Unknown roles: ${unknownRoles.join(', ')}`);
+  }
+  const unknownCodes = codes.filter((code) => !knownDepartments.some((item) => item.code === code));
+  if (unknownCodes.length > 0) {
+    throw new ApprovalMatrixError(`Unknown department codes: ${unknownCodes.join(', ')}`);
+  }
+  if (input.departmentId && !department) {
+    throw new ApprovalMatrixError('Department not found', 404);
+  }
+
+  const data: MatrixLevelData = {};
+  if (input.name !== undefined) data.name = input.name;
+  if (input.description !== undefined) data.description = input.description;
+  if (input.stage !== undefined) data.stage = input.stage;
+  if (input.departmentId !== undefined) data.departmentId = input.departmentId;
+  if (input.minAmount !== undefined) data.minAmount = input.minAmount;
+  if (input.maxAmount !== undefined) data.maxAmount = input.maxAmount;
+  if (input.requiredApprovers !== undefined) data.requiredApprovers = input.requiredApprovers;
+  if (input.approverRoles !== undefined) data.approverRoles = roles;
+  if (input.approverDepartments !== undefined) data.approverDepartments = codes;
+  if (input.autoApprove !== undefined) data.autoApprove = input.autoApprove;
+  if (input.autoApproveConditions !== undefined && input.autoApproveConditions !== null) {
+    data.autoApproveConditions = input.autoApproveConditions as Prisma.InputJsonValue;
+  }
+  if (input.escalationRules !== undefined && input.escalationRules !== null) {
+    data.escalationRules = input.escalationRules as Prisma.InputJsonValue;
+  }
+  if (input.isActive !== undefined) data.isActive = input.isActive;
+  return data;
+}
+
+export async function nextMatrixLevelSequence(matrixId: string): Promise<number> {
+  const last = await prisma.approvalMatrixLevel.findFirst({
+    where: { matrixId },
+    select: { sequence: true },
+    orderBy: { sequence: 'desc' },
+  });
+  return last ? last.sequence + 1 : 1;
+}
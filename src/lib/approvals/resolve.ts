@@ -0,0 +1,165 @@
+import { prisma } from '@/lib/prisma';
+import type { ApprovalMatrixLevel, CaseStage } from '@/prisma/client';
+import {
+  APPROVAL_MATRIX_INCLUDE,
+  ApprovalMatrixError,
+  DEFAULT_MATRIX_ENTITY_TYPE,
+  jsonStringList,
+  levelApplies,
+} from './matrix';
+
+export interface ResolvedApprovalLevel {
+  level: number;
+  levelId: string;
+  name: string;
+  approvers: string[];
+  requiredCount: number;
+  autoApprove: boolean;
+  conditions?: string[];
+}
+
+/**
+ * What a workflow needs under the matrix. `levels` has the same shape as the
+ * `approvalMatrix` accepted by the workflows API, so it is stored as is.
+ */
+export interface ApprovalRequirement {
+  matrixId: string;
+  matrixName: string;
+  amount: number;
+  requiredApprovals: number;
+  levels: ResolvedApprovalLevel[];
+}
+
+export interface ResolveApprovalRequirementInput {
+  caseId: string;
+  stage?: CaseStage;
+  entityType?: string;
+  /** Excluded from the approvers so nobody approves their own request */
+  initiatedBy?: string;
+}
+
+export type ApproverCandidate = { id: string; departmentCode: string; isHead: boolean };
+
+/**
+ * Active users holding one of the level's roles in one of its departments,
+ * or in the case's department when the level names none. Department heads
+ * come first.
+ */
+export async function findLevelCandidates(
+  level: Pick<ApprovalMatrixLevel, 'approverRoles' | 'approverDepartments'>,
+  caseDepartmentId: string
+): Promise<ApproverCandidate[]> {
+  const roles = jsonStringList(level.approverRoles);
+  const departmentCodes = jsonStringList(level.approverDepartments);
+  const users = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      isSuspended: false,
+      deletedAt: null,
+      ...(roles.length > 0 && { role: { name: { in: roles } } }),
+      ...(departmentCodes.length > 0
+        ? { department: { code: { in: departmentCodes } } }
+        : { departmentId: caseDepartmentId }),
+    },
+    select: { id: true, department: { select: { code: true, headUserId: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return users
+    .map((user) => ({
+      id: user.id,
+      departmentCode: user.department.code,
+      isHead: user.department.headUserId === user.id,
+    }))
+    .sort((a, b) => Number(b.isHead) - Number(a.isHead));
+}
+
+/**
+ * Pick approvers for one level: one from each listed department first
+ * (its head when eligible), then anyone eligible up to the required count.
+ */
+function pickApprovers(candidates: ApproverCandidate[], departmentCodes: string[], count: number, taken: Set<string>) {
+  const available = candidates.filter((candidate) => !taken.has(candidate.id));
+  const picked: string[] = [];
+
+  for (const code of departmentCodes) {
+    const candidate = available.find((item) => item.departmentCode === code && !picked.includes(item.id));
+    if (!candidate) {
+      throw new ApprovalMatrixError(`No eligible approver in department ${code}`, 422);
+    }
+    picked.push(candidate.id);
+  }
+  for (const candidate of available) {
+    if (picked.length >= count) break;
+    if (!picked.includes(candidate.id)) picked.push(candidate.id);
+  }
+
+  if (picked.length < count) {
+    throw new ApprovalMatrixError(`Only ${picked.length} of ${count} required approvers are available`, 422);
+  }
+  return picked;
+}
+
+/**
+ * Work out who must approve a case at a stage. Every active level of the
+ * active matrix whose stage, department and amount range match the case
+ * applies; the amount is the compensation, or the estimated value until
+ * there is one.
+ */
+export async function resolveApprovalRequirement(input: ResolveApprovalRequirementInput): Promise<ApprovalRequirement> {
+  const currentCase = await prisma.case.findUnique({
+    where: { id: input.caseId, deletedAt: null },
+    select: { currentStage: true, departmentId: true, compensationAmount: true, estimatedValue: true },
+  });
+  if (!currentCase) {
+    throw new ApprovalMatrixError('Case not found', 404);
+  }
+
+  const matrix = await prisma.approvalMatrix.findFirst({
+    where: { entityType: input.entityType ?? DEFAULT_MATRIX_ENTITY_TYPE, isActive: true },
+    include: APPROVAL_MATRIX_INCLUDE,
+    orderBy: { updatedAt: 'desc' },
+  });
+  if (!matrix) {
+    throw new ApprovalMatrixError('No active approval matrix', 422);
+  }
+
+  const criteria = {
+    stage: input.stage ?? currentCase.currentStage,
+    departmentId: currentCase.departmentId,
+    amount: currentCase.compensationAmount ?? currentCase.estimatedValue ?? 0,
+  };
+  const applicable = matrix.levels.filter((level) => levelApplies(level, criteria));
+  if (applicable.length === 0) {
+    throw new ApprovalMatrixError('No approval level applies to this case', 422);
+  }
+
+  const taken = new Set<string>(input.initiatedBy ? [input.initiatedBy] : []);
+  const levels: ResolvedApprovalLevel[] = [];
+  for (const level of applicable) {
+    const base = { level: level.sequence, levelId: level.id, name: level.name };
+    if (level.autoApprove) {
+      levels.push({ ...base, approvers: [], requiredCount: 0, autoApprove: true });
+      continue;
+    }
+
+    const departmentCodes = jsonStringList(level.approverDepartments);
+    const requiredCount = Math.max(level.requiredApprovers, departmentCodes.length);
+    const approvers = pickApprovers(
+      await findLevelCandidates(level, currentCase.departmentId),
+      departmentCodes,
+      requiredCount,
+      taken
+    );
+    approvers.forEach((id) => taken.add(id));
+    levels.push({ ...base, approvers, requiredCount, autoApprove: false });
+  }
+
+  return {
+    matrixId: matrix.id,
+    matrixName: matrix.name,
+    amount: criteria.amount,
+    requiredApprovals: levels.reduce((sum, level) => sum + level.requiredCount, 0),
+    levels,
+  };
+}
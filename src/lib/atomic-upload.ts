@@ -3,25 +3,22 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import { validateFileSecurity, generateSecureFileName, validateFilePath } from './file-security';
 import { logger } from '@/lib/logger';
+import type { DocumentStorageType } from '@/prisma/client';
+import { openDocumentFile, writeDocumentFile, type StoredDocumentFile } from '@/lib/document-encryption';
+import { deleteStoredFile, getDefaultStorageTier, storageKeyOf, storedFileExists } from '@/lib/storage';
 
 // Upload configuration
 const UPLOAD_TEMP_DIR = path.join(process.cwd(), 'uploads', 'temp');
 const UPLOAD_FINAL_DIR = path.join(process.cwd(), 'uploads', 'documents');
 const MAX_TEMP_FILE_AGE = 30 * 60 * 1000; // 30 minutes
 
-// Ensure upload directories exist
+// Ensure the temporary directory exists, final files go to the storage backend
 async function ensureUploadDirectories() {
   try {
     await fs.access(UPLOAD_TEMP_DIR);
   } catch {
     await fs.mkdir(UPLOAD_TEMP_DIR, { recursive: true });
   }
-
-  try {
-    await fs.access(UPLOAD_FINAL_DIR);
-  } catch {
-    await fs.mkdir(UPLOAD_FINAL_DIR, { recursive: true });
-  }
 }
 
 // Clean up old temporary files
@@ -81,6 +78,10 @@ export interface AtomicUploadOptions {
   caseId?: string;
   maxSize?: number;
   skipSecurityValidation?: boolean;
+  // Wrapped data key of the document; the stored file is encrypted with it
+  encryptionKey?: string;
+  // Storage tier the file goes to, the default tier otherwise
+  storageType?: DocumentStorageType;
 }
 
 export interface AtomicUploadResult {
@@ -106,17 +107,15 @@ function generateTempFilePath(originalFileName: string): string {
 }
 
 /**
- * Create date-based directory structure in final upload location
+ * Date-based directory structure in final upload location
  */
-async function createDateDirectory(): Promise<string> {
+function getDateDirectory(): string {
   const now = new Date();
   const year = now.getFullYear().toString();
   const month = String(now.getMonth() + 1).padStart(2, '0');
   const day = String(now.getDate()).padStart(2, '0');
 
-  const dateDir = path.join(UPLOAD_FINAL_DIR, year, month, day);
-  await fs.mkdir(dateDir, { recursive: true });
-  return dateDir;
+  return path.join(UPLOAD_FINAL_DIR, year, month, day);
 }
 
 /**
@@ -127,6 +126,21 @@ async function calculateFileHash(filePath: string): Promise<string> {
   return crypto.createHash('sha256').update(fileBuffer).digest('hex');
 }
 
+/**
+ * Store the validated file in its storage tier, encrypted when the document
+ * is, and drop the temporary copy. The backend writes the file atomically.
+ */
+async function moveToFinalPath(
+  tempFilePath: string,
+  finalFilePath: string,
+  fileBuffer: Buffer,
+  storageType: DocumentStorageType,
+  encryptionKey?: string
+): Promise<void> {
+  await writeDocumentFile({ filePath: finalFilePath, storageType }, fileBuffer, encryptionKey ?? null);
+  await fs.unlink(tempFilePath);
+}
+
 /**
  * Atomic file upload with security validation
  */
@@ -213,8 +227,9 @@ export async function atomicFileUpload(
     const fileHash = await calculateFileHash(tempFilePath);
 
     // Generate final file name and path
+    const storageType = options.storageType ?? getDefaultStorageTier();
     const secureFileName = generateSecureFileName(options.originalFileName);
-    const dateDir = await createDateDirectory();
+    const dateDir = getDateDirectory();
     const finalFilePath = path.join(dateDir, secureFileName);
 
     // Validate final path
@@ -228,8 +243,7 @@ export async function atomicFileUpload(
     }
 
     // Check if final file already exists (collision detection)
-    try {
-      await fs.access(finalFilePath);
+    if (await storedFileExists({ filePath: finalFilePath, storageType })) {
       // If file exists, generate a new name with additional random suffix
       const randomSuffix = crypto.randomBytes(4).toString('hex');
       const nameWithoutExt = path.basename(secureFileName, path.extname(secureFileName));
@@ -247,34 +261,32 @@ export async function atomicFileUpload(
       }
 
       // Move file to new location
-      await fs.rename(tempFilePath, newFinalFilePath);
+      await moveToFinalPath(tempFilePath, newFinalFilePath, fileBuffer, storageType, options.encryptionKey);
 
       return {
         success: true,
-        finalFilePath: newFinalFilePath,
+        finalFilePath: storageKeyOf(newFinalFilePath),
         fileName: newFileName,
         fileSize,
         fileHash,
         securityValidation,
         cleanup: async () => {
           try {
-            await fs.unlink(newFinalFilePath);
+            await deleteStoredFile({ filePath: newFinalFilePath, storageType });
           } catch (_) {
             // Ignore if file doesn't exist
           }
         },
       };
-    } catch (_) {
-      // File doesn't exist, proceed with original name
     }
 
     // Atomically move file from temporary to final location
-    await fs.rename(tempFilePath, finalFilePath);
+    await moveToFinalPath(tempFilePath, finalFilePath, fileBuffer, storageType, options.encryptionKey);
 
     // Add cleanup for final file
     cleanupCallbacks.push(async () => {
       try {
-        await fs.unlink(finalFilePath);
+        await deleteStoredFile({ filePath: finalFilePath, storageType });
       } catch (_) {
         // Ignore if file doesn't exist
       }
@@ -282,14 +294,14 @@ export async function atomicFileUpload(
 
     return {
       success: true,
-      finalFilePath,
+      finalFilePath: storageKeyOf(finalFilePath),
       fileName: secureFileName,
       fileSize,
       fileHash,
       securityValidation,
       cleanup: async () => {
         try {
-          await fs.unlink(finalFilePath);
+          await deleteStoredFile({ filePath: finalFilePath, storageType });
         } catch (_) {
           // Ignore if file doesn't exist
         }
@@ -323,7 +335,7 @@ export async function atomicMultipleFileUpload(
   error?: string;
 }> {
   const results: AtomicUploadResult[] = [];
-  const uploadedFiles: Array<{ fileName: string; filePath: string }> = [];
+  const uploadedFiles: Array<{ fileName: string; cleanup: () => Promise<void> }> = [];
   let totalSize = 0;
 
   try {
@@ -337,7 +349,7 @@ export async function atomicMultipleFileUpload(
         // If any file fails, cleanup all uploaded files
         for (const uploadedFile of uploadedFiles) {
           try {
-            await fs.unlink(uploadedFile.filePath);
+            await uploadedFile.cleanup();
           } catch (error) {
             logger.error(`Error cleaning up file ${uploadedFile.fileName}:`, error);
           }
@@ -354,7 +366,7 @@ export async function atomicMultipleFileUpload(
       if (result.finalFilePath && result.fileName) {
         uploadedFiles.push({
           fileName: result.fileName,
-          filePath: result.finalFilePath,
+          cleanup: result.cleanup,
         });
       }
     }
@@ -369,7 +381,7 @@ export async function atomicMultipleFileUpload(
     // Cleanup all uploaded files on catastrophic failure
     for (const uploadedFile of uploadedFiles) {
       try {
-        await fs.unlink(uploadedFile.filePath);
+        await uploadedFile.cleanup();
       } catch (cleanupError) {
         logger.error(`Error cleaning up file ${uploadedFile.fileName}:`, cleanupError);
       }
@@ -385,24 +397,30 @@ export async function atomicMultipleFileUpload(
 }
 
 /**
- * Verify file integrity after upload
+ * Verify file integrity after upload. Hash and size are those of the
+ * plaintext, so encrypted files are checked as they decrypt.
  */
 export async function verifyFileIntegrity(
-  filePath: string,
+  file: StoredDocumentFile,
   expectedHash: string,
   expectedSize: number
 ): Promise<boolean> {
   try {
-    const stats = await fs.stat(filePath);
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+    for await (const chunk of await openDocumentFile(file)) {
+      hash.update(chunk as Buffer);
+      size += (chunk as Buffer).length;
+    }
 
     // Check file size
-    if (stats.size !== expectedSize) {
-      logger.error(`File size mismatch: expected ${expectedSize}, got ${stats.size}`);
+    if (size !== expectedSize) {
+      logger.error(`File size mismatch: expected ${expectedSize}, got ${size}`);
       return false;
     }
 
     // Check file hash
-    const actualHash = await calculateFileHash(filePath);
+    const actualHash = hash.digest('hex');
     if (actualHash !== expectedHash) {
       logger.error(`File hash mismatch: expected ${expectedHash}, got ${actualHash}`);
       return false;
@@ -0,0 +1,167 @@
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import archiver from 'archiver';
+
+/**
+ * Backup archives are plain tar files, gzipped when the configuration asks for
+ * compression, so they can also be inspected with `tar -tzf`:
+ *
+ *   manifest.json            what the archive holds
+ *   data/<table>.jsonl       one JSON record per line
+ *   files/<path>             stored files, under their path from the app root
+ */
+
+export const MANIFEST_ENTRY = 'manifest.json';
+export const DATA_PREFIX = 'data/';
+export const FILES_PREFIX = 'files/';
+
+const BLOCK = 512;
+
+export interface ArchiveEntry {
+  name: string;
+  content: Buffer;
+}
+
+export interface ArchiveWriter {
+  archive: archiver.Archiver;
+  // Resolves once the archive is fully written to disk
+  finish(): Promise<{ bytes: number; checksum: string }>;
+}
+
+export function createArchiveWriter(outputPath: string, compression: boolean): ArchiveWriter {
+  const archive = archiver('tar', compression ? { gzip: true, gzipOptions: { level: 6 } } : {});
+  const hash = createHash('sha256');
+  let bytes = 0;
+
+  const tap = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      bytes += chunk.length;
+      callback(null, chunk);
+    },
+  });
+  const written = pipeline(archive, tap, createWriteStream(outputPath));
+
+  return {
+    archive,
+    async finish() {
+      await archive.finalize();
+      await written;
+      return { bytes, checksum: hash.digest('hex') };
+    },
+  };
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+async function isGzip(filePath: string): Promise<boolean> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(2), 0, 2, 0);
+    return bytesRead === 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+  } finally {
+    await handle.close();
+  }
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+// pax records look like "30 path=files/uploads/long-name.pdf\n"
+function parsePaxPath(content: Buffer): string | null {
+  let offset = 0;
+  while (offset < content.length) {
+    const space = content.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(content.subarray(offset, space).toString('utf8'), 10);
+    if (!length) break;
+    const record = content.subarray(space + 1, offset + length - 1).toString('utf8');
+    if (record.startsWith('path=')) return record.slice('path='.length);
+    offset += length;
+  }
+  return null;
+}
+
+/**
+ * Entries of a backup archive in archive order. Each entry is buffered whole,
+ * which is fine for document-sized files.
+ */
+export async function* readArchiveEntries(archivePath: string): AsyncGenerator<ArchiveEntry> {
+  const source = createReadStream(archivePath);
+  const stream = (await isGzip(archivePath)) ? source.pipe(createGunzip()) : source;
+
+  let chunks: Buffer[] = [];
+  let buffered = 0;
+  let header: { name: string; size: number; type: string } | null = null;
+  let longName: string | null = null;
+
+  const take = (length: number): Buffer => {
+    const all = chunks.length === 1 ? chunks[0]! : Buffer.concat(chunks, buffered);
+    chunks = all.length > length ? [all.subarray(length)] : [];
+    buffered -= length;
+    return all.subarray(0, length);
+  };
+
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+    buffered += (chunk as Buffer).length;
+
+    while (true) {
+      if (!header) {
+        if (buffered < BLOCK) break;
+        const block = take(BLOCK);
+        // Zero blocks mark the end of the archive
+        if (block.every((byte) => byte === 0)) continue;
+
+        const prefix = readString(block, 345, 155);
+        const name = readString(block, 0, 100);
+        header = {
+          name: prefix ? `${prefix}/${name}` : name,
+          size: parseInt(readString(block, 124, 12).trim() || '0', 8),
+          type: String.fromCharCode(block[156] ?? 0),
+        };
+      }
+
+      const padded = Math.ceil(header.size / BLOCK) * BLOCK;
+      if (buffered < padded) break;
+      const content = Buffer.from(take(padded).subarray(0, header.size));
+      const { name, type } = header;
+      header = null;
+
+      if (type === 'x' || type === 'L') {
+        longName = type === 'x' ? parsePaxPath(content) : readString(content, 0, content.length);
+      } else if (type === '0' || type === '\0') {
+        yield { name: longName ?? name, content };
+        longName = null;
+      } else {
+        // Directories, links and global headers carry nothing to restore
+        longName = null;
+      }
+    }
+  }
+
+  if (header) {
+    throw new Error('Backup archive is truncated');
+  }
+}
+
+export async function countArchiveEntries(archivePath: string): Promise<number> {
+  let count = 0;
+  for await (const entry of readArchiveEntries(archivePath)) {
+    if (entry.name) count++;
+  }
+  return count;
+}
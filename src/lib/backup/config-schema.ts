@@ -0,0 +1,66 @@
+import path from 'path';
+import { z } from 'zod';
+import { validateSchedule } from '@/lib/reminders';
+import { UPLOADS_DIR } from './runner';
+import { BACKUP_TABLE_NAMES } from './tables';
+
+// Only full backups to the local disk are implemented
+export const BACKUP_TYPES = ['full'] as const;
+export const BACKUP_STORAGE_TYPES = ['local'] as const;
+
+export const backupConfigSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  type: z.enum(BACKUP_TYPES).default('full'),
+  schedule: z.string().superRefine((schedule, ctx) => {
+    const result = validateSchedule(schedule);
+    if (!result.valid) {
+      ctx.addIssue({ code: 'custom', message: result.error ?? 'Programación no válida' });
+    }
+  }),
+  retentionDays: z.number().int().min(1).max(3650).default(30),
+  compression: z.boolean().default(true),
+  encryption: z.literal(false).default(false),
+  storageType: z.enum(BACKUP_STORAGE_TYPES).default('local'),
+  storageConfig: z.record(z.string(), z.any()).default({}),
+  // Directory for the archives, relative to the application root. Never the
+  // document store, or each backup would copy the ones before it
+  storagePath: z
+    .string()
+    .trim()
+    .min(1)
+    .refine(
+      (value) => !path.posix.isAbsolute(value) && !path.win32.isAbsolute(value),
+      'La ruta debe ser relativa al directorio de la aplicación'
+    )
+    .refine((value) => !value.split(/[\\/]/).includes('..'), 'La ruta no puede salir del directorio de la aplicación')
+    .refine((value) => {
+      const relative = path.posix.normalize(value.replace(/\\/g, '/'));
+      return relative !== UPLOADS_DIR && !relative.startsWith(`${UPLOADS_DIR}/`);
+    }, `La ruta no puede estar dentro de ${UPLOADS_DIR}/`)
+    .nullable()
+    .optional(),
+  includeTables: z.array(z.enum(BACKUP_TABLE_NAMES)).min(1).nullable().optional(),
+  excludeTables: z.array(z.enum(BACKUP_TABLE_NAMES)).nullable().optional(),
+  includeFiles: z.boolean().default(true),
+  isActive: z.boolean().default(true),
+  maxBackupSize: z.number().int().positive().nullable().optional(),
+  verifyIntegrity: z.boolean().default(true),
+  notifyOnSuccess: z.boolean().default(false),
+  notifyOnFailure: z.boolean().default(true),
+  notificationEmail: z.email().nullable().optional(),
+});
+
+export const restoreRequestSchema = z
+  .object({
+    type: z.enum(['full', 'partial']),
+    // Required for partial restores: the case to bring back with its documents
+    caseId: z.string().min(1).optional(),
+    restoreFiles: z.boolean().default(true),
+  })
+  .refine((request) => request.type === 'full' || !!request.caseId, {
+    message: 'caseId is required for partial restores',
+    path: ['caseId'],
+  });
+
+export type BackupConfigInput = z.infer<typeof backupConfigSchema>;
+export type RestoreRequest = z.infer<typeof restoreRequestSchema>;
@@ -0,0 +1,22 @@
+export {
+  BACKUP_STORAGE_TYPES,
+  BACKUP_TYPES,
+  backupConfigSchema,
+  restoreRequestSchema,
+  type BackupConfigInput,
+  type RestoreRequest,
+} from './config-schema';
+export { BACKUP_TABLE_NAMES, BACKUP_TABLES, type BackupTableName } from './tables';
+export { countArchiveEntries, sha256File } from './archive';
+export {
+  BackupError,
+  UPLOADS_DIR,
+  createBackupJob,
+  pruneExpiredBackups,
+  resolveStorageDir,
+  runBackupJob,
+  runScheduledBackups,
+  type BackupManifest,
+  type BackupRunSummary,
+} from './runner';
+export { createRestorationJob, runPendingRestorations, runRestorationJob } from './restore';
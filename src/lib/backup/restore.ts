@@ -0,0 +1,270 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { Prisma, type RestorationJob } from '@/prisma/client';
+import { DATA_PREFIX, FILES_PREFIX, MANIFEST_ENTRY, readArchiveEntries, sha256File } from './archive';
+import { BackupError, UPLOADS_DIR, assertFilesInUploads, type BackupManifest } from './runner';
+import { BACKUP_TABLES, getBackupTable, type BackupRecord, type BackupTableName } from './tables';
+import type { RestoreRequest } from './config-schema';
+
+// A restore writes every record in one transaction so it never lands half done
+const RESTORE_TRANSACTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Queue a restore of a completed backup. A full restore brings back every
+ * record and file in the archive; a partial restore only one case with its
+ * stage assignments, history, documents, versions and activity.
+ *
+ * Records are upserted by id: rows changed since the backup are overwritten,
+ * rows created after it are left alone.
+ */
+export async function createRestorationJob(
+  backupJobId: string,
+  request: RestoreRequest,
+  userId: string
+): Promise<RestorationJob> {
+  const backup = await prisma.backupJob.findUnique({
+    where: { id: backupJobId },
+    select: { status: true, filePath: true },
+  });
+  if (!backup || backup.status !== 'completed' || !backup.filePath) {
+    throw new BackupError('Only completed backups with an archive can be restored');
+  }
+
+  return prisma.restorationJob.create({
+    data: {
+      backupJobId,
+      type: request.type,
+      caseId: request.type === 'partial' ? (request.caseId ?? null) : null,
+      // An empty list means no files; null means every file in scope
+      restoreFiles: request.restoreFiles ? Prisma.DbNull : [],
+      targetLocation: UPLOADS_DIR,
+      createdBy: userId,
+      approvedBy: userId,
+    },
+  });
+}
+
+// Archive file entries map to paths inside the upload store only
+function safeFilePath(entryName: string): string | null {
+  const relative = path.posix.normalize(entryName.slice(FILES_PREFIX.length));
+  if (!relative.startsWith(`${UPLOADS_DIR}/`) || relative.split('/').includes('..')) return null;
+  return relative;
+}
+
+function prepareRecord(record: BackupRecord, jsonFields: string[]): BackupRecord {
+  const prepared: BackupRecord = { ...record };
+  for (const field of jsonFields) {
+    if (prepared[field] === null) prepared[field] = Prisma.DbNull;
+  }
+  return prepared;
+}
+
+interface RestoreScope {
+  records: Map<BackupTableName, BackupRecord[]>;
+  // Files the selected records point to; null restores every file
+  files: Set<string> | null;
+}
+
+/**
+ * Select the records to restore, table by table in restore order. Partial
+ * restores keep the case's records and the files its documents point to.
+ */
+function selectScope(records: Map<BackupTableName, BackupRecord[]>, caseId: string | null): RestoreScope {
+  const selected = new Map<BackupTableName, BackupRecord[]>();
+  const selectedIds = new Map<BackupTableName, Set<string>>();
+
+  for (const table of BACKUP_TABLES) {
+    const rows = (records.get(table.name) ?? []).filter(
+      (record) => !caseId || table.belongsToCase(record, caseId, selectedIds)
+    );
+    selected.set(table.name, rows);
+    selectedIds.set(table.name, new Set(rows.map((record) => record.id)));
+  }
+
+  if (!caseId) return { records: selected, files: null };
+  if ((selected.get('cases') ?? []).length === 0) {
+    throw new BackupError(`Case ${caseId} is not in this backup`);
+  }
+
+  const files = BACKUP_TABLES.flatMap((table) =>
+    table.filePaths ? (selected.get(table.name) ?? []).flatMap(table.filePaths) : []
+  );
+  return {
+    records: selected,
+    files: new Set(files.map((filePath) => path.posix.normalize(filePath.replace(/\\/g, '/')))),
+  };
+}
+
+async function setProgress(jobId: string, progress: number) {
+  await prisma.restorationJob.update({ where: { id: jobId }, data: { progress } });
+}
+
+/**
+ * Run a pending restoration job: verify the archive checksum, stage the files,
+ * upsert the records in one transaction and only then move the files into the
+ * upload store. Returns null when the job was already taken.
+ */
+export async function runRestorationJob(jobId: string): Promise<RestorationJob | null> {
+  const startedAt = new Date();
+  const claimed = await prisma.restorationJob.updateMany({
+    where: { id: jobId, status: 'pending' },
+    data: { status: 'running', startedAt, progress: 0 },
+  });
+  if (claimed.count === 0) return null;
+
+  const job = await prisma.restorationJob.findUniqueOrThrow({
+    where: { id: jobId },
+    include: { backupJob: true },
+  });
+  const logs: string[] = [];
+  const log = (message: string) => logs.push(`[${new Date().toISOString()}] ${message}`);
+  const stagingDir = path.join(process.cwd(), UPLOADS_DIR, `.restore-${job.id}`);
+  let verificationStatus = 'not_verified';
+
+  try {
+    const { backupJob } = job;
+    if (!backupJob.filePath || !backupJob.checksum) {
+      throw new BackupError('The backup has no archive to restore from');
+    }
+    const archivePath = path.resolve(process.cwd(), backupJob.filePath);
+
+    if ((await sha256File(archivePath)) !== backupJob.checksum) {
+      verificationStatus = 'failed_verification';
+      throw new BackupError('Archive checksum does not match the backup; the file is damaged or was modified');
+    }
+    verificationStatus = 'verified';
+    log('Checksum verified');
+    await setProgress(job.id, 10);
+
+    const restoreFiles = !Array.isArray(job.restoreFiles) || job.restoreFiles.length > 0;
+    if (restoreFiles) await assertFilesInUploads();
+    const records = new Map<BackupTableName, BackupRecord[]>();
+    const stagedFiles: string[] = [];
+    let manifest: BackupManifest | null = null;
+    // Data entries come before files in the archive, so the scope is known by
+    // the time the first file is read
+    let scope: RestoreScope | null = null;
+
+    await fs.mkdir(stagingDir, { recursive: true });
+
+    for await (const entry of readArchiveEntries(archivePath)) {
+      if (entry.name === MANIFEST_ENTRY) {
+        manifest = JSON.parse(entry.content.toString('utf8')) as BackupManifest;
+        if (manifest.version !== 1) {
+          throw new BackupError(`Unsupported backup format version ${manifest.version}`);
+        }
+      } else if (entry.name.startsWith(DATA_PREFIX)) {
+        const table = getBackupTable(entry.name.slice(DATA_PREFIX.length).replace(/\.jsonl$/, ''));
+        if (!table) continue;
+        const text = entry.content.toString('utf8');
+        records.set(
+          table.name,
+          text ? text.split('\n').map((line) => JSON.parse(line) as BackupRecord) : []
+        );
+      } else if (entry.name.startsWith(FILES_PREFIX) && restoreFiles) {
+        scope ??= selectScope(records, job.caseId);
+        const relative = safeFilePath(entry.name);
+        if (!relative) {
+          log(`Skipped unsafe path ${entry.name}`);
+          continue;
+        }
+        if (scope.files && !scope.files.has(relative)) continue;
+
+        const staged = path.join(stagingDir, relative);
+        await fs.mkdir(path.dirname(staged), { recursive: true });
+        await fs.writeFile(staged, entry.content);
+        stagedFiles.push(relative);
+      }
+    }
+
+    if (!manifest) {
+      throw new BackupError('The archive has no manifest');
+    }
+    const selection = (scope ?? selectScope(records, job.caseId)).records;
+    await setProgress(job.id, 50);
+
+    let restored = 0;
+    await prisma.$transaction(
+      async (tx) => {
+        for (const table of BACKUP_TABLES) {
+          const delegate = table.delegate(tx);
+          for (const record of selection.get(table.name) ?? []) {
+            const data = prepareRecord(record, table.jsonFields);
+            await delegate.upsert({ where: { id: record.id }, create: data, update: data });
+            restored++;
+          }
+        }
+      },
+      { timeout: RESTORE_TRANSACTION_TIMEOUT_MS, maxWait: 30 * 1000 }
+    );
+    for (const table of BACKUP_TABLES) {
+      const count = selection.get(table.name)?.length ?? 0;
+      if (count > 0) log(`${table.name}: ${count} records restored`);
+    }
+    await setProgress(job.id, 90);
+
+    for (const relative of stagedFiles) {
+      const target = path.join(process.cwd(), relative);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(path.join(stagingDir, relative), target);
+    }
+    log(`${stagedFiles.length} files restored`);
+
+    const completedAt = new Date();
+    return await prisma.restorationJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'completed',
+        progress: 100,
+        restoreTables: BACKUP_TABLES.filter((table) => (selection.get(table.name)?.length ?? 0) > 0).map(
+          (table) => table.name
+        ),
+        restoreFiles: stagedFiles,
+        recordsRestored: restored,
+        filesRestored: stagedFiles.length,
+        verificationStatus,
+        completedAt,
+        duration: Math.round((completedAt.getTime() - startedAt.getTime()) / 1000),
+        logs: logs.join('\n'),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Restoration job ${job.id} failed:`, error);
+    log(`Failed: ${message}`);
+
+    const completedAt = new Date();
+    return await prisma.restorationJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'failed',
+        errorMessage: message,
+        verificationStatus,
+        completedAt,
+        duration: Math.round((completedAt.getTime() - startedAt.getTime()) / 1000),
+        logs: logs.join('\n'),
+      },
+    });
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run restoration jobs that were queued but never picked up.
+ */
+export async function runPendingRestorations(): Promise<number> {
+  const pending = await prisma.restorationJob.findMany({
+    where: { status: 'pending' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+
+  let run = 0;
+  for (const { id } of pending) {
+    if (await runRestorationJob(id)) run++;
+  }
+  return run;
+}
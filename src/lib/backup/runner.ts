@@ -0,0 +1,385 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { queueEmail } from '@/lib/email-queue-processor';
+import { nextRunAfter, parseSchedule } from '@/lib/reminders';
+import { getStorageDriver, isStorageTierConfigured } from '@/lib/storage';
+import type { BackupConfiguration, BackupJob } from '@/prisma/client';
+import {
+  DATA_PREFIX,
+  FILES_PREFIX,
+  MANIFEST_ENTRY,
+  countArchiveEntries,
+  createArchiveWriter,
+  sha256File,
+} from './archive';
+import { resolveBackupTables, type BackupTableName } from './tables';
+
+const PAGE_SIZE = 1000;
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Progress is written at most this often while a backup runs
+const PROGRESS_INTERVAL_MS = 2000;
+
+// The document store, relative to the application root
+export const UPLOADS_DIR = 'uploads';
+// Upload scratch space holds nothing worth restoring
+const SKIPPED_UPLOAD_DIRS = new Set(['temp']);
+
+export interface BackupManifest {
+  version: 1;
+  jobId: string;
+  configurationId: string;
+  createdAt: string;
+  tables: Partial<Record<BackupTableName, number>>;
+  files: number;
+}
+
+export interface BackupRunSummary {
+  backupsRun: number;
+  backupsFailed: number;
+  errors: string[];
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Absolute directory for a configuration's archives. Relative paths resolve
+ * against the application root, defaulting to BACKUP_DIR or ./backups.
+ */
+export function resolveStorageDir(storagePath: string | null): string {
+  return path.resolve(process.cwd(), storagePath || process.env.BACKUP_DIR || 'backups');
+}
+
+async function listStoredFiles(): Promise<Array<{ relative: string; size: number }>> {
+  const files: Array<{ relative: string; size: number }> = [];
+
+  const walk = async (relativeDir: string) => {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(process.cwd(), relativeDir), { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const relative = path.posix.join(relativeDir, entry.name);
+      if (entry.isDirectory()) {
+        if (relativeDir === UPLOADS_DIR && SKIPPED_UPLOAD_DIRS.has(entry.name)) continue;
+        await walk(relative);
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(path.join(process.cwd(), relative));
+        files.push({ relative, size: stats.size });
+      }
+    }
+  };
+
+  await walk(UPLOADS_DIR);
+  return files;
+}
+
+/**
+ * Backups read and restore files under the uploads directory only. While any
+ * document keeps its files in a tier stored elsewhere (a bucket, another
+ * mount) a file backup would leave them out without saying so, so it is
+ * refused instead.
+ */
+export async function assertFilesInUploads(): Promise<void> {
+  const uploads = path.resolve(process.cwd(), UPLOADS_DIR);
+  const held = await prisma.document.groupBy({ by: ['storageType'] });
+  const outside = held
+    .map(({ storageType }) => storageType)
+    .filter(
+      (tier) => !isStorageTierConfigured(tier) || getStorageDriver(tier).locationOf(UPLOADS_DIR) !== uploads
+    );
+
+  if (outside.length > 0) {
+    throw new BackupError(
+      `Documents are kept in the ${outside.join(', ')} storage tier outside ${UPLOADS_DIR}/, which backups ` +
+        'cannot read or restore; back that storage up on its own and run backups without files'
+    );
+  }
+}
+
+function jsonLine(record: unknown): string {
+  return JSON.stringify(record, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+async function notify(config: BackupConfiguration, job: BackupJob, success: boolean) {
+  const wanted = success ? config.notifyOnSuccess : config.notifyOnFailure;
+  if (!wanted || !config.notificationEmail) return;
+
+  try {
+    const lines = success
+      ? [
+          `El respaldo "${config.name}" terminó correctamente.`,
+          `Registros: ${job.recordsBackedUp ?? 0}. Archivos: ${job.filesBackedUp ?? 0}.`,
+          `Suma de verificación (SHA-256): ${job.checksum}`,
+        ]
+      : [`El respaldo "${config.name}" falló.`, `Error: ${job.errorMessage}`];
+
+    await queueEmail({
+      to: config.notificationEmail,
+      subject: success ? `Respaldo completado: ${config.name}` : `Respaldo fallido: ${config.name}`,
+      textContent: lines.join('\n\n'),
+      priority: success ? 'low' : 'high',
+      metadata: { type: 'backup', backupJobId: job.id, configurationId: config.id },
+    });
+  } catch (error) {
+    logger.error('Error queuing backup notification:', error);
+  }
+}
+
+export async function createBackupJob(
+  configurationId: string,
+  type: 'manual' | 'scheduled',
+  userId: string
+): Promise<BackupJob> {
+  return prisma.backupJob.create({
+    data: { configurationId, type, createdBy: userId },
+  });
+}
+
+/**
+ * Run a pending backup job. The job is claimed first, so the web server and
+ * the worker never run the same job twice. Returns null when the job was
+ * already taken.
+ */
+export async function runBackupJob(jobId: string): Promise<BackupJob | null> {
+  const startedAt = new Date();
+  const claimed = await prisma.backupJob.updateMany({
+    where: { id: jobId, status: 'pending' },
+    data: { status: 'running', startedAt, progress: 0 },
+  });
+  if (claimed.count === 0) return null;
+
+  const job = await prisma.backupJob.findUniqueOrThrow({
+    where: { id: jobId },
+    include: { configuration: true },
+  });
+  const config = job.configuration;
+  const logs: string[] = [];
+  const log = (message: string) => logs.push(`[${new Date().toISOString()}] ${message}`);
+  let archivePath: string | null = null;
+
+  try {
+    const tables = resolveBackupTables(config.includeTables, config.excludeTables);
+    if (config.includeFiles) await assertFilesInUploads();
+    const files = config.includeFiles ? await listStoredFiles() : [];
+    const fileBytes = files.reduce((sum, file) => sum + file.size, 0);
+
+    if (config.maxBackupSize && fileBytes > config.maxBackupSize * MB) {
+      throw new BackupError(
+        `Stored files take ${Math.ceil(fileBytes / MB)} MB, over the ${config.maxBackupSize} MB limit`
+      );
+    }
+
+    // Table dumps are small next to the files, so they are built in memory first
+    const manifest: BackupManifest = {
+      version: 1,
+      jobId: job.id,
+      configurationId: config.id,
+      createdAt: startedAt.toISOString(),
+      tables: {},
+      files: files.length,
+    };
+    const dumps: Array<{ name: string; content: Buffer }> = [];
+    let records = 0;
+
+    for (const table of tables) {
+      const delegate = table.delegate(prisma);
+      const lines: string[] = [];
+      for (let skip = 0; ; skip += PAGE_SIZE) {
+        const page = await delegate.findMany({
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          skip,
+          take: PAGE_SIZE,
+        });
+        lines.push(...page.map(jsonLine));
+        if (page.length < PAGE_SIZE) break;
+      }
+
+      manifest.tables[table.name] = lines.length;
+      records += lines.length;
+      dumps.push({ name: `${DATA_PREFIX}${table.name}.jsonl`, content: Buffer.from(lines.join('\n'), 'utf8') });
+      log(`${table.name}: ${lines.length} records`);
+    }
+
+    const storageDir = resolveStorageDir(config.storagePath);
+    await fs.mkdir(storageDir, { recursive: true });
+    const stamp = startedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+    archivePath = path.join(storageDir, `backup-${stamp}-${job.id}.${config.compression ? 'tar.gz' : 'tar'}`);
+
+    const writer = createArchiveWriter(archivePath, config.compression);
+    let lastProgressAt = 0;
+    let progressWrite: Promise<unknown> = Promise.resolve();
+    writer.archive.on('progress', ({ entries }) => {
+      const now = Date.now();
+      if (now - lastProgressAt < PROGRESS_INTERVAL_MS || entries.total === 0) return;
+      lastProgressAt = now;
+      // The last percent is left for verification
+      const progress = Math.min((entries.processed / entries.total) * 99, 99);
+      progressWrite = progressWrite
+        .then(() => prisma.backupJob.update({ where: { id: job.id }, data: { progress } }))
+        .catch((error) => logger.warn('Could not record backup progress:', error));
+    });
+
+    writer.archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_ENTRY });
+    for (const dump of dumps) {
+      writer.archive.append(dump.content, { name: dump.name });
+    }
+    for (const file of files) {
+      writer.archive.file(path.join(process.cwd(), file.relative), { name: `${FILES_PREFIX}${file.relative}` });
+    }
+    const { bytes, checksum } = await writer.finish();
+    await progressWrite;
+    log(`Archive written: ${bytes} bytes, sha256 ${checksum}`);
+
+    if (config.verifyIntegrity) {
+      if ((await sha256File(archivePath)) !== checksum) {
+        throw new BackupError('Archive checksum does not match what was written');
+      }
+      const entries = await countArchiveEntries(archivePath);
+      if (entries !== 1 + dumps.length + files.length) {
+        throw new BackupError(`Archive holds ${entries} entries, expected ${1 + dumps.length + files.length}`);
+      }
+      log('Integrity verified');
+    }
+
+    const completedAt = new Date();
+    const dataBytes = dumps.reduce((sum, dump) => sum + dump.content.length, 0);
+    const completed = await prisma.backupJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'completed',
+        progress: 100,
+        backupSize: dataBytes + fileBytes,
+        compressedSize: bytes,
+        filePath: path.relative(process.cwd(), archivePath),
+        checksum,
+        recordsBackedUp: records,
+        filesBackedUp: files.length,
+        completedAt,
+        duration: Math.round((completedAt.getTime() - startedAt.getTime()) / 1000),
+        logs: logs.join('\n'),
+      },
+    });
+
+    await prisma.backupConfiguration.update({
+      where: { id: config.id },
+      data: { lastRunAt: completedAt },
+    });
+    await pruneExpiredBackups(config, completedAt);
+    await notify(config, completed, true);
+    return completed;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Backup job ${job.id} failed:`, error);
+    log(`Failed: ${message}`);
+
+    if (archivePath) {
+      await fs.rm(archivePath, { force: true });
+    }
+
+    const completedAt = new Date();
+    const failed = await prisma.backupJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'failed',
+        errorMessage: message,
+        completedAt,
+        duration: Math.round((completedAt.getTime() - startedAt.getTime()) / 1000),
+        logs: logs.join('\n'),
+      },
+    });
+    await notify(config, failed, false);
+    return failed;
+  }
+}
+
+/**
+ * Delete the archives of a configuration that are older than its retention.
+ * The job rows stay, marked expired, as the backup history.
+ */
+export async function pruneExpiredBackups(config: BackupConfiguration, now: Date = new Date()): Promise<number> {
+  const expired = await prisma.backupJob.findMany({
+    where: {
+      configurationId: config.id,
+      status: 'completed',
+      completedAt: { lt: new Date(now.getTime() - config.retentionDays * DAY_MS) },
+    },
+    select: { id: true, filePath: true },
+  });
+
+  for (const job of expired) {
+    if (job.filePath) {
+      await fs.rm(path.resolve(process.cwd(), job.filePath), { force: true });
+    }
+    await prisma.backupJob.update({
+      where: { id: job.id },
+      data: { status: 'expired', filePath: null },
+    });
+  }
+
+  return expired.length;
+}
+
+/**
+ * One scheduler tick: start the backups that are due and run jobs that were
+ * queued but never picked up, e.g. because the web server restarted.
+ */
+export async function runScheduledBackups(now: Date = new Date()): Promise<BackupRunSummary> {
+  const summary: BackupRunSummary = { backupsRun: 0, backupsFailed: 0, errors: [] };
+
+  const configs = await prisma.backupConfiguration.findMany({
+    where: {
+      isActive: true,
+      OR: [{ nextRunAt: null }, { nextRunAt: { lte: now } }],
+    },
+  });
+
+  for (const config of configs) {
+    try {
+      const schedule = parseSchedule(config.schedule);
+
+      // Configs that were never scheduled start at their next occurrence
+      if (config.nextRunAt) {
+        await createBackupJob(config.id, 'scheduled', config.createdBy);
+      }
+
+      await prisma.backupConfiguration.update({
+        where: { id: config.id },
+        data: { nextRunAt: nextRunAfter(schedule, now) },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Backup config ${config.id} failed to schedule:`, error);
+      summary.errors.push(`${config.name}: ${message}`);
+    }
+  }
+
+  const pending = await prisma.backupJob.findMany({
+    where: { status: 'pending' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+
+  for (const { id } of pending) {
+    const job = await runBackupJob(id);
+    if (!job) continue;
+    summary.backupsRun++;
+    if (job.status === 'failed') {
+      summary.backupsFailed++;
+      summary.errors.push(`${id}: ${job.errorMessage}`);
+    }
+  }
+
+  return summary;
+}
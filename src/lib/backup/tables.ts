@@ -0,0 +1,114 @@
+import type { prisma } from '@/lib/prisma';
+
+/**
+ * Tables that backups can hold, in restore order: every table only references
+ * tables listed before it (or users and departments, which are not restored).
+ */
+
+export const BACKUP_TABLE_NAMES = [
+  'cases',
+  'case_stage_assignments',
+  'case_histories',
+  'documents',
+  'document_versions',
+  'activities',
+] as const;
+
+export type BackupTableName = (typeof BACKUP_TABLE_NAMES)[number];
+
+export type BackupRecord = Record<string, unknown> & { id: string };
+
+// Models backed up, from the client or a transaction
+type BackupClient = Pick<
+  typeof prisma,
+  'case' | 'caseStageAssignment' | 'caseHistory' | 'document' | 'documentVersion' | 'activity'
+>;
+
+// The subset of a Prisma model delegate that backups use
+interface BackupDelegate {
+  count(): Promise<number>;
+  findMany(args: {
+    orderBy: Array<Record<string, 'asc'>>;
+    skip: number;
+    take: number;
+    omit?: Record<string, false>;
+  }): Promise<BackupRecord[]>;
+  upsert(args: { where: { id: string }; create: BackupRecord; update: BackupRecord }): Promise<unknown>;
+}
+
+export interface BackupTable {
+  name: BackupTableName;
+  delegate(client: BackupClient): BackupDelegate;
+  // Nullable Json columns, which Prisma will not accept a plain null for
+  jsonFields: string[];
+  // Whether a record is part of a case, given the records already selected for it
+  belongsToCase(record: BackupRecord, caseId: string, selected: Map<BackupTableName, Set<string>>): boolean;
+  // Stored files the record points to, relative to the application root
+  filePaths?(record: BackupRecord): string[];
+}
+
+const delegate = (model: unknown) => model as BackupDelegate;
+
+// Fields the Prisma client omits by default, read back so a restore is complete
+const withOmitted = (model: BackupDelegate, omit: Record<string, false>): BackupDelegate => ({
+  count: () => model.count(),
+  findMany: (args) => model.findMany({ ...args, omit }),
+  upsert: (args) => model.upsert(args),
+});
+const filePath = (record: BackupRecord) => (typeof record.filePath === 'string' ? [record.filePath] : []);
+
+export const BACKUP_TABLES: BackupTable[] = [
+  {
+    name: 'cases',
+    delegate: (client) => delegate(client.case),
+    jsonFields: [],
+    belongsToCase: (record, caseId) => record.id === caseId,
+  },
+  {
+    name: 'case_stage_assignments',
+    delegate: (client) => delegate(client.caseStageAssignment),
+    jsonFields: [],
+    belongsToCase: (record, caseId) => record.caseId === caseId,
+  },
+  {
+    name: 'case_histories',
+    delegate: (client) => delegate(client.caseHistory),
+    jsonFields: [],
+    belongsToCase: (record, caseId) => record.caseId === caseId,
+  },
+  {
+    name: 'documents',
+    // Without their data keys, encrypted files could not be read after a restore
+    delegate: (client) => withOmitted(delegate(client.document), { encryptionKey: false }),
+    jsonFields: ['metadata', 'customFields'],
+    belongsToCase: (record, caseId) => record.caseId === caseId,
+    filePaths: filePath,
+  },
+  {
+    name: 'document_versions',
+    delegate: (client) => delegate(client.documentVersion),
+    jsonFields: ['diffData'],
+    belongsToCase: (record, _caseId, selected) =>
+      selected.get('documents')?.has(record.documentId as string) ?? false,
+    filePaths: filePath,
+  },
+  {
+    name: 'activities',
+    delegate: (client) => delegate(client.activity),
+    jsonFields: ['metadata'],
+    belongsToCase: (record, caseId) => record.caseId === caseId,
+  },
+];
+
+export function getBackupTable(name: string): BackupTable | undefined {
+  return BACKUP_TABLES.find((table) => table.name === name);
+}
+
+/**
+ * Tables a configuration backs up, in restore order.
+ */
+export function resolveBackupTables(includeTables: unknown, excludeTables: unknown): BackupTable[] {
+  const include = Array.isArray(includeTables) && includeTables.length > 0 ? new Set(includeTables) : null;
+  const exclude = new Set(Array.isArray(excludeTables) ? excludeTables : []);
+  return BACKUP_TABLES.filter((table) => (!include || include.has(table.name)) && !exclude.has(table.name));
+}
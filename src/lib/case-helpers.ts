@@ -1,4 +1,6 @@
 import { CASE_STATUSES, PRIORITIES } from '@/constants/case'
+import type { Case } from '@/types/client'
+import type { CasePartyInput } from '@/lib/validations/case-party'
 
 /**
  * Get status configuration for a given status
@@ -19,4 +21,51 @@ export const getPriorityConfig = (priority: string) => {
     label: priority,
     color: 'bg-gray-100 text-gray-800'
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Blank party for the case form
+ */
+export const emptyParty = (isPrimary = false): CasePartyInput => ({
+  role: 'OWNER',
+  name: '',
+  personType: 'individual',
+  isPrimary
+})
+
+/**
+ * Parties of a case as edited in the case form. Cases without parties start
+ * from their owner fields.
+ */
+export const partiesFromCase = (caseData: Case): CasePartyInput[] => {
+  if (caseData.parties?.length) {
+    return caseData.parties.map(party => ({
+      id: party.id,
+      role: party.role,
+      name: party.name,
+      personType: party.personType ?? null,
+      identificationType: party.identificationType ?? null,
+      identification: party.identification ?? null,
+      contact: party.contact ?? null,
+      email: party.email ?? null,
+      address: party.address ?? null,
+      ownershipPercentage: party.ownershipPercentage ?? null,
+      compensationShare: party.compensationShare ?? null,
+      paymentStatus: party.paymentStatus,
+      paidAt: party.paidAt ? new Date(party.paidAt) : null,
+      isPrimary: party.isPrimary,
+      notes: party.notes ?? null
+    }))
+  }
+
+  return [{
+    role: 'OWNER',
+    name: caseData.ownerName,
+    personType: caseData.ownerType || 'individual',
+    identification: caseData.ownerIdentification ?? null,
+    contact: caseData.ownerContact ?? null,
+    email: caseData.ownerEmail ?? null,
+    address: caseData.ownerAddress ?? null,
+    isPrimary: true
+  }]
+}
@@ -0,0 +1,233 @@
+import { prisma } from '@/lib/prisma';
+import type { CaseStage, Delegation, Prisma } from '@/prisma/client';
+
+export class DelegationError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'DelegationError';
+  }
+}
+
+const PERSON_SELECT = { id: true, firstName: true, lastName: true, email: true } as const;
+
+export const DELEGATION_INCLUDE = {
+  delegator: { select: PERSON_SELECT },
+  delegate: { select: PERSON_SELECT },
+  department: { select: { id: true, name: true, code: true } },
+} satisfies Prisma.DelegationInclude;
+
+export type ActiveDelegation = Prisma.DelegationGetPayload<{ include: { delegator: { select: typeof PERSON_SELECT } } }>;
+
+/**
+ * What an action touches. A null stage or department is only covered by
+ * delegations that are not limited to one.
+ */
+export interface DelegationScope {
+  stage: CaseStage | null;
+  departmentId: string | null;
+}
+
+export type DelegatedAction = 'approval' | 'signature' | 'stage_progression' | 'stage_return';
+
+const ACTION_VERBS: Record<DelegatedAction, string> = {
+  approval: 'registró una decisión de aprobación',
+  signature: 'firmó',
+  stage_progression: 'avanzó la etapa',
+  stage_return: 'devolvió la etapa',
+};
+
+export function delegationCovers(
+  delegation: Pick<Delegation, 'isActive' | 'startsAt' | 'endsAt' | 'stage' | 'departmentId'>,
+  scope: DelegationScope,
+  at: Date = new Date()
+): boolean {
+  return (
+    delegation.isActive &&
+    delegation.startsAt <= at &&
+    delegation.endsAt > at &&
+    (delegation.stage === null || delegation.stage === scope.stage) &&
+    (delegation.departmentId === null || delegation.departmentId === scope.departmentId)
+  );
+}
+
+function activeDelegationWhere(scope: DelegationScope, at: Date): Prisma.DelegationWhereInput {
+  return {
+    isActive: true,
+    startsAt: { lte: at },
+    endsAt: { gt: at },
+    AND: [
+      { OR: [{ stage: null }, ...(scope.stage ? [{ stage: scope.stage }] : [])] },
+      { OR: [{ departmentId: null }, ...(scope.departmentId ? [{ departmentId: scope.departmentId }] : [])] },
+    ],
+  };
+}
+
+/**
+ * Delegations a user currently holds for the given scope, oldest first.
+ * Only direct delegations count: a delegate cannot pass them on.
+ */
+export async function findActiveDelegations(
+  delegateId: string,
+  scope: DelegationScope,
+  at: Date = new Date()
+): Promise<ActiveDelegation[]> {
+  return prisma.delegation.findMany({
+    where: { delegateId, ...activeDelegationWhere(scope, at) },
+    include: { delegator: { select: PERSON_SELECT } },
+    orderBy: { startsAt: 'asc' },
+  });
+}
+
+export async function findActiveDelegation(
+  delegateId: string,
+  delegatorId: string,
+  scope: DelegationScope,
+  at: Date = new Date()
+): Promise<ActiveDelegation | null> {
+  return prisma.delegation.findFirst({
+    where: { delegateId, delegatorId, ...activeDelegationWhere(scope, at) },
+    include: { delegator: { select: PERSON_SELECT } },
+    orderBy: { startsAt: 'asc' },
+  });
+}
+
+export async function loadCaseDelegationScope(caseId: string): Promise<DelegationScope | null> {
+  const currentCase = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: { currentStage: true, departmentId: true },
+  });
+  return currentCase && { stage: currentCase.currentStage, departmentId: currentCase.departmentId };
+}
+
+export function delegatorName(delegation: ActiveDelegation): string {
+  return `${delegation.delegator.firstName} ${delegation.delegator.lastName}`;
+}
+
+/**
+ * Attribution kept with every action taken under a delegation, for activity
+ * metadata and API responses.
+ */
+export function delegationAttribution(delegation: ActiveDelegation) {
+  return {
+    delegationId: delegation.id,
+    onBehalfOf: delegation.delegatorId,
+    onBehalfOfName: delegatorName(delegation),
+    delegationReason: delegation.reason,
+  };
+}
+
+/**
+ * Record a delegated action in the case history, where the case timeline
+ * shows it next to the delegate and the official they acted for.
+ */
+export async function recordDelegatedAction(input: {
+  delegation: ActiveDelegation;
+  actorId: string;
+  caseId: string;
+  action: DelegatedAction;
+  subject: string;
+  details?: Record<string, unknown>;
+}): Promise<void> {
+  const actor = await prisma.user.findUnique({
+    where: { id: input.actorId },
+    select: { firstName: true, lastName: true },
+  });
+  const actorName = actor ? `${actor.firstName} ${actor.lastName}` : 'El delegado';
+
+  await prisma.caseHistory.create({
+    data: {
+      caseId: input.caseId,
+      changedById: input.actorId,
+      action: 'delegated_action',
+      field: input.action,
+      newValue: JSON.stringify({ ...delegationAttribution(input.delegation), action: input.action, ...input.details }),
+      reason: input.delegation.reason,
+      notes: `${actorName} ${ACTION_VERBS[input.action]} (${input.subject}) en nombre de ${delegatorName(input.delegation)}`,
+    },
+  });
+}
+
+export interface CreateDelegationInput {
+  delegatorId: string;
+  delegateId: string;
+  stage?: CaseStage | null;
+  departmentId?: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string;
+}
+
+/**
+ * Whether a user may create or revoke delegations for an official: their
+ * own, any for super admins, and those of their department for department
+ * admins.
+ */
+export function canManageDelegationsFor(
+  actor: { id: string; role: string; departmentId: string },
+  delegator: { id: string; departmentId: string }
+): boolean {
+  return (
+    actor.id === delegator.id ||
+    actor.role === 'super_admin' ||
+    (actor.role === 'department_admin' && actor.departmentId === delegator.departmentId)
+  );
+}
+
+export async function createDelegation(
+  input: CreateDelegationInput,
+  actor: { id: string; role: string; departmentId: string },
+  now: Date = new Date()
+) {
+  if (input.delegatorId === input.delegateId) {
+    throw new DelegationError('An official cannot delegate to themselves');
+  }
+  if (input.endsAt <= input.startsAt) {
+    throw new DelegationError('endsAt must be after startsAt');
+  }
+  if (input.endsAt <= now) {
+    throw new DelegationError('The delegation period has already ended');
+  }
+
+  const [delegator, delegate, department] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: input.delegatorId, deletedAt: null },
+      select: { id: true, departmentId: true },
+    }),
+    prisma.user.findUnique({
+      where: { id: input.delegateId, deletedAt: null },
+      select: { id: true, isActive: true, isSuspended: true },
+    }),
+    input.departmentId
+      ? prisma.department.findUnique({ where: { id: input.departmentId }, select: { id: true } })
+      : null,
+  ]);
+  if (!delegator) {
+    throw new DelegationError('Delegator not found', 404);
+  }
+  if (!delegate || !delegate.isActive || delegate.isSuspended) {
+    throw new DelegationError('Delegate not found or inactive', 404);
+  }
+  if (input.departmentId && !department) {
+    throw new DelegationError('Department not found', 404);
+  }
+  if (!canManageDelegationsFor(actor, delegator)) {
+    throw new DelegationError('Access denied', 403);
+  }
+
+  return prisma.delegation.create({
+    data: {
+      delegatorId: input.delegatorId,
+      delegateId: input.delegateId,
+      stage: input.stage ?? null,
+      departmentId: input.departmentId ?? null,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      reason: input.reason,
+      createdBy: actor.id,
+    },
+    include: DELEGATION_INCLUDE,
+  });
+}
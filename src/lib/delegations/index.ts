@@ -0,0 +1,17 @@
+export {
+  DELEGATION_INCLUDE,
+  DelegationError,
+  canManageDelegationsFor,
+  createDelegation,
+  delegationAttribution,
+  delegationCovers,
+  delegatorName,
+  findActiveDelegation,
+  findActiveDelegations,
+  loadCaseDelegationScope,
+  recordDelegatedAction,
+  type ActiveDelegation,
+  type CreateDelegationInput,
+  type DelegatedAction,
+  type DelegationScope,
+} from './delegations';
@@ -0,0 +1,179 @@
+import { prisma } from '@/lib/prisma';
+import { loggers, logger } from '@/lib/logger';
+import { DocumentActionType, DocumentSecurityLevel } from '@/prisma/client';
+import type { Document, DocumentPermission, Prisma } from '@/prisma/client';
+
+// Security levels from least to most restricted
+export const SECURITY_LEVEL_ORDER: DocumentSecurityLevel[] = [
+  DocumentSecurityLevel.PUBLIC,
+  DocumentSecurityLevel.INTERNAL,
+  DocumentSecurityLevel.CONFIDENTIAL,
+  DocumentSecurityLevel.SECRET,
+  DocumentSecurityLevel.TOP_SECRET,
+];
+
+// From this level up, search never shows content to users without clearance
+export const REDACTED_SECURITY_LEVEL = DocumentSecurityLevel.CONFIDENTIAL;
+
+export type DocumentAccessAction = 'view' | 'download';
+
+export interface DocumentAccessUser {
+  id: string;
+  roleId: string;
+  departmentId: string;
+}
+
+export type AccessCheckedDocument = Pick<Document, 'id' | 'uploadedById' | 'isPublic' | 'securityLevel'> & {
+  permissions: Array<Pick<DocumentPermission, 'canView' | 'canDownload'>>;
+};
+
+type DeniedAccessReason = 'permission' | 'clearance';
+
+export type DocumentAccessDecision =
+  | { allowed: true }
+  | { allowed: false; reason: DeniedAccessReason };
+
+export const DENIED_ACCESS_MESSAGES: Record<DeniedAccessReason, string> = {
+  permission: 'Access denied',
+  clearance: 'Insufficient security clearance for this document',
+};
+
+function rank(level: DocumentSecurityLevel): number {
+  return SECURITY_LEVEL_ORDER.indexOf(level);
+}
+
+export function hasClearance(clearance: DocumentSecurityLevel, level: DocumentSecurityLevel): boolean {
+  return rank(level) <= rank(clearance);
+}
+
+export function clearedLevels(clearance: DocumentSecurityLevel): DocumentSecurityLevel[] {
+  return SECURITY_LEVEL_ORDER.filter(level => hasClearance(clearance, level));
+}
+
+/**
+ * Clearance of a user: their own when set, else the one of their role.
+ * Read from the database on every check so a revoked clearance takes effect
+ * without waiting for the session to expire.
+ */
+export async function getUserClearance(userId: string): Promise<DocumentSecurityLevel> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { clearanceLevel: true, role: { select: { clearanceLevel: true } } },
+  });
+  return user?.clearanceLevel ?? user?.role.clearanceLevel ?? DocumentSecurityLevel.PUBLIC;
+}
+
+/**
+ * Permissions that apply to a user, granted to them, their role or their
+ * department. Include them when loading a document to authorize.
+ */
+export function documentPermissionsFor(user: DocumentAccessUser) {
+  return {
+    where: {
+      isActive: true,
+      OR: [
+        { userId: user.id },
+        { roleId: user.roleId },
+        { departmentId: user.departmentId },
+      ],
+      AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }],
+    },
+    select: { canView: true, canDownload: true },
+  } satisfies Prisma.Document$permissionsArgs;
+}
+
+// Documents the user may read the content of: within clearance or their own
+export function clearedDocumentWhere(userId: string, clearance: DocumentSecurityLevel): Prisma.DocumentWhereInput {
+  return {
+    OR: [
+      { securityLevel: { in: clearedLevels(clearance) } },
+      { uploadedById: userId },
+    ],
+  };
+}
+
+/**
+ * Cache-Control for a response carrying document content. Anything above
+ * PUBLIC is kept by no cache, shared or private, so it cannot be read back
+ * once clearance is revoked or from a shared machine.
+ */
+export function documentCacheControl(
+  securityLevels: DocumentSecurityLevel | DocumentSecurityLevel[],
+  publicCacheControl: string
+): string {
+  const levels = Array.isArray(securityLevels) ? securityLevels : [securityLevels];
+  return levels.every(level => level === DocumentSecurityLevel.PUBLIC) ? publicCacheControl : 'private, no-store';
+}
+
+// Whether search must hide the description and content of a document
+export function isRedactedFor(
+  document: Pick<Document, 'uploadedById' | 'securityLevel'>,
+  userId: string,
+  clearance: DocumentSecurityLevel
+): boolean {
+  return document.uploadedById !== userId &&
+    rank(document.securityLevel) >= rank(REDACTED_SECURITY_LEVEL) &&
+    !hasClearance(clearance, document.securityLevel);
+}
+
+async function logDeniedAccess(
+  userId: string,
+  document: AccessCheckedDocument,
+  action: DocumentAccessAction,
+  reason: DeniedAccessReason,
+  clearance: DocumentSecurityLevel,
+  ipAddress?: string
+) {
+  loggers.security.documentAccessDenied(userId, document.id, action, reason, ipAddress);
+  try {
+    await prisma.documentAction.create({
+      data: {
+        documentId: document.id,
+        action: DocumentActionType.ACCESS_DENIED,
+        userId,
+        ipAddress: ipAddress ?? null,
+        metadata: {
+          requestedAction: action,
+          reason,
+          securityLevel: document.securityLevel,
+          clearance,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('Error logging denied document access:', error);
+  }
+}
+
+/**
+ * Single authorization check for document endpoints. The user needs a
+ * permission on the document (or to own it, or the document to be public)
+ * and, unless they uploaded it, a clearance at or above its security level.
+ * Denials are logged as ACCESS_DENIED document actions.
+ */
+export async function authorizeDocumentAccess(
+  user: DocumentAccessUser,
+  document: AccessCheckedDocument,
+  action: DocumentAccessAction,
+  options: { ipAddress?: string; clearance?: DocumentSecurityLevel } = {}
+): Promise<DocumentAccessDecision> {
+  const isOwner = document.uploadedById === user.id;
+  const clearance = options.clearance ?? await getUserClearance(user.id);
+
+  const permitted = isOwner ||
+    document.isPublic ||
+    document.permissions.some(permission => action === 'download' ? permission.canDownload : permission.canView);
+
+  let reason: DeniedAccessReason | null = null;
+  if (!permitted) {
+    reason = 'permission';
+  } else if (!isOwner && !hasClearance(clearance, document.securityLevel)) {
+    reason = 'clearance';
+  }
+
+  if (reason) {
+    await logDeniedAccess(user.id, document, action, reason, clearance, options.ipAddress);
+    return { allowed: false, reason };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,17 @@
+export {
+  DENIED_ACCESS_MESSAGES,
+  REDACTED_SECURITY_LEVEL,
+  SECURITY_LEVEL_ORDER,
+  authorizeDocumentAccess,
+  clearedDocumentWhere,
+  clearedLevels,
+  documentCacheControl,
+  documentPermissionsFor,
+  getUserClearance,
+  hasClearance,
+  isRedactedFor,
+  type AccessCheckedDocument,
+  type DocumentAccessAction,
+  type DocumentAccessDecision,
+  type DocumentAccessUser,
+} from './access';
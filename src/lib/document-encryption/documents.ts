@@ -0,0 +1,157 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { SECURITY_LEVEL_ORDER } from '@/lib/document-access';
+import { StorageError, withDocumentStorageLock } from '@/lib/storage';
+import { encryptFileInPlace, type StoredDocumentFile } from './files';
+import { generateDataKey, getMasterKey, requiresEncryption, unwrapDataKey, wrapDataKey } from './keys';
+
+export interface KeyRotationSummary {
+  processed: number;
+  rotated: number;
+  failed: number;
+}
+
+export interface EncryptionRunSummary {
+  processed: number;
+  encrypted: number;
+  failed: number;
+}
+
+/**
+ * A file of a document, its current one unless the path of one of its
+ * versions is given, with the data key to read or write it. Data keys are
+ * omitted from every query of the Prisma client; this is where the rest of
+ * the application gets them.
+ */
+export async function getDocumentFile(documentId: string, filePath?: string): Promise<StoredDocumentFile> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { filePath: true, storageType: true, encryptionKey: true },
+  });
+  return { ...document, filePath: filePath ?? document.filePath };
+}
+
+/**
+ * Encrypt the stored files of a document, its current file and those of all
+ * its versions, under its data key. The key is saved before any file is
+ * touched and `isEncrypted` set once all of them are, so an interrupted run
+ * loses nothing and can simply be repeated. Holds the storage lock of the
+ * document, so its files are not moved to another tier meanwhile.
+ */
+export async function encryptDocumentFiles(documentId: string): Promise<number> {
+  return withDocumentStorageLock(documentId, () => encryptStoredFiles(documentId));
+}
+
+async function encryptStoredFiles(documentId: string): Promise<number> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { filePath: true, storageType: true, encryptionKey: true, versions: { select: { filePath: true } } },
+  });
+
+  let encryptionKey = document.encryptionKey;
+  if (!encryptionKey) {
+    encryptionKey = generateDataKey();
+    await prisma.document.update({ where: { id: documentId }, data: { encryptionKey } });
+  }
+
+  let encrypted = 0;
+  const filePaths = new Set([document.filePath, ...document.versions.map((version) => version.filePath)]);
+  for (const filePath of filePaths) {
+    try {
+      if (await encryptFileInPlace({ filePath, storageType: document.storageType }, encryptionKey)) encrypted++;
+    } catch (error) {
+      // Versions whose file is gone have nothing left to protect
+      if (!(error instanceof StorageError && error.status === 404)) throw error;
+      logger.warn(`File ${filePath} of document ${documentId} is missing, not encrypted`);
+    }
+  }
+
+  // Thumbnails and cached pages are rendered again, encrypted this time
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { isEncrypted: true, previewGenerated: false, thumbnailPath: null },
+  });
+  return encrypted;
+}
+
+/**
+ * Encrypt the document once its security level calls for it, e.g. after it
+ * was raised to CONFIDENTIAL, returning whether it was encrypted now.
+ * Lowering the level leaves it encrypted.
+ */
+export async function applyDocumentEncryption(documentId: string): Promise<boolean> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { securityLevel: true, isEncrypted: true },
+  });
+  if (!requiresEncryption(document.securityLevel) || document.isEncrypted) {
+    return false;
+  }
+  await encryptDocumentFiles(documentId);
+  return true;
+}
+
+/**
+ * Encrypt the documents stored in plaintext although their security level
+ * requires encryption, such as those uploaded before encryption existed.
+ */
+export async function encryptPendingDocuments(limit?: number): Promise<EncryptionRunSummary> {
+  const summary: EncryptionRunSummary = { processed: 0, encrypted: 0, failed: 0 };
+  const documents = await prisma.document.findMany({
+    where: {
+      isEncrypted: false,
+      securityLevel: { in: SECURITY_LEVEL_ORDER.filter(requiresEncryption) },
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+    ...(limit && { take: limit }),
+  });
+
+  for (const { id } of documents) {
+    summary.processed++;
+    try {
+      await encryptDocumentFiles(id);
+      summary.encrypted++;
+    } catch (error) {
+      summary.failed++;
+      logger.error(`Could not encrypt document ${id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Re-wrap the data keys wrapped by a retired master key with the current
+ * one. Files are not touched: their data keys stay the same. Once no key
+ * fails, the retired keys can be removed from DOCUMENT_PREVIOUS_MASTER_KEYS.
+ */
+export async function rotateDocumentKeys(): Promise<KeyRotationSummary> {
+  const summary: KeyRotationSummary = { processed: 0, rotated: 0, failed: 0 };
+  const { id: currentKeyId } = getMasterKey();
+  const documents = await prisma.document.findMany({
+    where: {
+      encryptionKey: { not: null },
+      NOT: { encryptionKey: { startsWith: `${currentKeyId}:` } },
+    },
+    select: { id: true, encryptionKey: true },
+  });
+
+  for (const document of documents) {
+    summary.processed++;
+    try {
+      const encryptionKey = wrapDataKey(unwrapDataKey(document.encryptionKey!));
+      // Only replace the key that was read, in case the document changed meanwhile
+      const { count } = await prisma.document.updateMany({
+        where: { id: document.id, encryptionKey: document.encryptionKey },
+        data: { encryptionKey },
+      });
+      if (count > 0) summary.rotated++;
+    } catch (error) {
+      summary.failed++;
+      logger.error(`Could not rotate the key of document ${document.id}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { DocumentSecurityLevel } from '@/prisma/client';
+import { openStoredFile, writeStoredFile, type StoredFile } from '@/lib/storage';
+import { DocumentEncryptionError, generateDataKey, requiresEncryption, unwrapDataKey } from './keys';
+
+/**
+ * Encrypted files are stored as `MAGIC | iv | ciphertext | authTag`, with
+ * AES-256-GCM under the data key of their document. The auth tag goes last
+ * so files can be encrypted and decrypted as they are streamed, from any
+ * storage backend; decryption checks it when the stream ends.
+ */
+
+const FILE_ALGORITHM = 'aes-256-gcm';
+const MAGIC = Buffer.from('MOPCENC1');
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + IV_LENGTH;
+
+// A document file and the key of its document, as recorded on the document
+export interface StoredDocumentFile extends StoredFile {
+  encryptionKey: string | null;
+}
+
+export interface DocumentEncryption {
+  isEncrypted: boolean;
+  encryptionKey: string | null;
+}
+
+/**
+ * Encryption of a new document at the given security level: a fresh data
+ * key from CONFIDENTIAL up, none below.
+ */
+export function documentEncryptionFor(securityLevel: DocumentSecurityLevel): DocumentEncryption {
+  return requiresEncryption(securityLevel)
+    ? { isEncrypted: true, encryptionKey: generateDataKey() }
+    : { isEncrypted: false, encryptionKey: null };
+}
+
+function isEncryptedData(data: Buffer): boolean {
+  return data.length >= MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+function createFileDecipher(header: Buffer, encryptionKey: string | null, label: string): crypto.DecipherGCM {
+  if (!encryptionKey) {
+    throw new DocumentEncryptionError(`Encrypted file ${label} has no encryption key`);
+  }
+  return crypto.createDecipheriv(FILE_ALGORITHM, unwrapDataKey(encryptionKey), header.subarray(MAGIC.length, HEADER_LENGTH));
+}
+
+export function encryptBuffer(data: Buffer, encryptionKey: string): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(FILE_ALGORITHM, unwrapDataKey(encryptionKey), iv);
+  return Buffer.concat([MAGIC, iv, cipher.update(data), cipher.final(), cipher.getAuthTag()]);
+}
+
+/**
+ * Plaintext of data written by `encryptBuffer`. Data that is not encrypted
+ * is returned as is.
+ */
+export function decryptBuffer(data: Buffer, encryptionKey: string | null, label = 'data'): Buffer {
+  if (!isEncryptedData(data)) {
+    return data;
+  }
+  if (data.length < HEADER_LENGTH + AUTH_TAG_LENGTH) {
+    throw new DocumentEncryptionError(`${label} is not a valid encrypted file`);
+  }
+  const decipher = createFileDecipher(data, encryptionKey, label);
+  decipher.setAuthTag(data.subarray(data.length - AUTH_TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(HEADER_LENGTH, data.length - AUTH_TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Decrypt a stored file as it streams by. The last bytes seen are held back
+ * until the end, where they turn out to be the auth tag. Files that are not
+ * encrypted pass through.
+ */
+async function* decryptStream(source: AsyncIterable<Buffer>, file: StoredDocumentFile): AsyncGenerator<Buffer> {
+  // Undefined until the header has been read, null for plaintext
+  let decipher: crypto.DecipherGCM | null | undefined;
+  let pending = Buffer.alloc(0);
+
+  for await (const chunk of source) {
+    if (decipher === null) {
+      yield chunk;
+      continue;
+    }
+    pending = Buffer.concat([pending, chunk]);
+    if (decipher === undefined) {
+      if (pending.length < HEADER_LENGTH) continue;
+      if (!isEncryptedData(pending)) {
+        decipher = null;
+        yield pending;
+        continue;
+      }
+      decipher = createFileDecipher(pending, file.encryptionKey, file.filePath);
+      pending = pending.subarray(HEADER_LENGTH);
+    }
+    if (pending.length > AUTH_TAG_LENGTH) {
+      yield decipher.update(pending.subarray(0, pending.length - AUTH_TAG_LENGTH));
+      pending = pending.subarray(pending.length - AUTH_TAG_LENGTH);
+    }
+  }
+
+  if (decipher === undefined) {
+    if (isEncryptedData(pending)) {
+      throw new DocumentEncryptionError(`${file.filePath} is not a valid encrypted file`);
+    }
+    if (pending.length > 0) yield pending;
+  } else if (decipher) {
+    if (pending.length < AUTH_TAG_LENGTH) {
+      throw new DocumentEncryptionError(`${file.filePath} is not a valid encrypted file`);
+    }
+    decipher.setAuthTag(pending);
+    yield decipher.final();
+  }
+}
+
+/**
+ * Stream of the plaintext of a document file, decrypted as it is read. A
+ * file that fails authentication makes the stream error out. Whether a file
+ * is encrypted is read from the file itself: while a document is being
+ * encrypted some of its files already are and some not yet.
+ */
+export async function openDocumentFile(file: StoredDocumentFile): Promise<Readable> {
+  return Readable.from(decryptStream(await openStoredFile(file), file));
+}
+
+export async function readDocumentFile(file: StoredDocumentFile): Promise<Buffer<ArrayBuffer>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openDocumentFile(file)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Write a document file, encrypted when a key is given so the plaintext
+ * never reaches the storage backend.
+ */
+export async function writeDocumentFile(file: StoredFile, data: Buffer, encryptionKey: string | null): Promise<void> {
+  await writeStoredFile(file, encryptionKey ? encryptBuffer(data, encryptionKey) : data);
+}
+
+/**
+ * Encrypt a stored plaintext file where it is. The backend replaces the
+ * file only once the encrypted copy is complete, so a failure leaves the
+ * original intact. Files that are already encrypted are left alone.
+ */
+export async function encryptFileInPlace(file: StoredFile, encryptionKey: string): Promise<boolean> {
+  const source = await openStoredFile(file);
+  const chunks: AsyncIterator<Buffer> = source[Symbol.asyncIterator]();
+
+  let head = Buffer.alloc(0);
+  while (head.length < MAGIC.length) {
+    const { value, done } = await chunks.next();
+    if (done) break;
+    head = Buffer.concat([head, value]);
+  }
+  if (isEncryptedData(head)) {
+    source.destroy();
+    return false;
+  }
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(FILE_ALGORITHM, unwrapDataKey(encryptionKey), iv);
+  await writeStoredFile(file, Readable.from((async function* () {
+    yield Buffer.concat([MAGIC, iv, cipher.update(head)]);
+    for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+      yield cipher.update(next.value);
+    }
+    yield cipher.final();
+    yield cipher.getAuthTag();
+  })()));
+  return true;
+}
@@ -0,0 +1,31 @@
+export {
+  DocumentEncryptionError,
+  ENCRYPTED_SECURITY_LEVEL,
+  generateDataKey,
+  getMasterKey,
+  masterKeyIdOf,
+  requiresEncryption,
+  unwrapDataKey,
+  wrapDataKey,
+  type MasterKey,
+} from './keys';
+export {
+  decryptBuffer,
+  documentEncryptionFor,
+  encryptBuffer,
+  encryptFileInPlace,
+  openDocumentFile,
+  readDocumentFile,
+  writeDocumentFile,
+  type DocumentEncryption,
+  type StoredDocumentFile,
+} from './files';
+export {
+  applyDocumentEncryption,
+  encryptDocumentFiles,
+  encryptPendingDocuments,
+  getDocumentFile,
+  rotateDocumentKeys,
+  type EncryptionRunSummary,
+  type KeyRotationSummary,
+} from './documents';
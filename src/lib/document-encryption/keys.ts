@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { DocumentSecurityLevel } from '@/prisma/client';
+import { SECURITY_LEVEL_ORDER } from '@/lib/document-access';
+
+export class DocumentEncryptionError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 500
+  ) {
+    super(message);
+    this.name = 'DocumentEncryptionError';
+  }
+}
+
+// From this level up, files are stored encrypted
+export const ENCRYPTED_SECURITY_LEVEL = DocumentSecurityLevel.CONFIDENTIAL;
+
+const KEY_ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let masterKey: MasterKey | undefined;
+let masterKeys: Map<string, Buffer> | undefined;
+
+export function requiresEncryption(securityLevel: DocumentSecurityLevel): boolean {
+  return SECURITY_LEVEL_ORDER.indexOf(securityLevel) >= SECURITY_LEVEL_ORDER.indexOf(ENCRYPTED_SECURITY_LEVEL);
+}
+
+function parseMasterKey(value: string, variable: string): Buffer {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new DocumentEncryptionError(`${variable} must be ${KEY_LENGTH} bytes encoded in base64`);
+  }
+  return key;
+}
+
+/**
+ * Short, stable identifier of a master key, recorded with every data key it
+ * wraps so the right one is used to unwrap it after a rotation.
+ */
+export function masterKeyIdOf(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+/**
+ * Master key that wraps new data keys, read from DOCUMENT_MASTER_KEY (32
+ * random bytes in base64, see docs/SETUP.md).
+ */
+export function getMasterKey(): MasterKey {
+  if (!masterKey) {
+    const value = process.env.DOCUMENT_MASTER_KEY;
+    if (!value) {
+      throw new DocumentEncryptionError('DOCUMENT_MASTER_KEY is not configured');
+    }
+    const key = parseMasterKey(value, 'DOCUMENT_MASTER_KEY');
+    masterKey = { id: masterKeyIdOf(key), key };
+  }
+  return masterKey;
+}
+
+/**
+ * Master keys data keys can be unwrapped with: the current one and the
+ * retired ones listed in DOCUMENT_PREVIOUS_MASTER_KEYS, until the rotation
+ * command has re-wrapped everything with the current key.
+ */
+function getMasterKeyById(keyId: string): Buffer {
+  if (!masterKeys) {
+    const keys = new Map<string, Buffer>();
+    for (const value of (process.env.DOCUMENT_PREVIOUS_MASTER_KEYS ?? '').split(/[\s,]+/).filter(Boolean)) {
+      const key = parseMasterKey(value, 'DOCUMENT_PREVIOUS_MASTER_KEYS');
+      keys.set(masterKeyIdOf(key), key);
+    }
+    const current = getMasterKey();
+    keys.set(current.id, current.key);
+    masterKeys = keys;
+  }
+
+  const key = masterKeys.get(keyId);
+  if (!key) {
+    throw new DocumentEncryptionError(`Master key ${keyId} is not configured`);
+  }
+  return key;
+}
+
+/**
+ * Wrap a data key with the current master key, stored on the document as
+ * `masterKeyId:iv:authTag:ciphertext` in hex.
+ */
+export function wrapDataKey(dataKey: Buffer): string {
+  const { id, key } = getMasterKey();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(KEY_ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+  return [id, ...[iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('hex'))].join(':');
+}
+
+export function unwrapDataKey(wrapped: string): Buffer {
+  const [keyId, iv, authTag, encrypted] = wrapped.split(':');
+  if (!keyId || !iv || !authTag || !encrypted) {
+    throw new DocumentEncryptionError('Malformed document encryption key');
+  }
+
+  const decipher = crypto.createDecipheriv(KEY_ALGORITHM, getMasterKeyById(keyId), Buffer.from(iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'hex')), decipher.final()]);
+  } catch {
+    throw new DocumentEncryptionError(`Document encryption key does not match master key ${keyId}`);
+  }
+}
+
+/**
+ * New random data key for a document, already wrapped for storage.
+ */
+export function generateDataKey(): string {
+  return wrapDataKey(crypto.randomBytes(KEY_LENGTH));
+}
@@ -2,9 +2,11 @@ import { prisma } from './prisma';
 import { DocumentType, DocumentCategory, DocumentStatus, DocumentSecurityLevel } from '@/prisma/client';
 import crypto from 'crypto';
 import path from 'path';
-import fs from 'fs/promises';
 import { DocumentFormData } from '@/types/client';
-import { logger } from '@/lib/logger';
+import { queueDocumentIndexing } from '@/lib/indexing';
+import { queueThumbnailGeneration } from '@/lib/previews';
+import { applyDocumentEncryption, documentEncryptionFor, getDocumentFile, writeDocumentFile } from '@/lib/document-encryption';
+import { getDefaultStorageTier, storageFieldsFor, withDocumentStorageLock } from '@/lib/storage';
 
 // Re-export for backward compatibility
 export { STAGE_DOCUMENT_TYPES } from '@/constants/stages';
@@ -36,17 +38,8 @@ export const ALLOWED_MIME_TYPES = [
   'application/x-7z-compressed',
 ];
 
-// Storage configuration
-const UPLOAD_DIR = path.join(process.cwd(), 'uploads', 'documents');
-
-// Ensure upload directory exists
-async function ensureUploadDir() {
-  try {
-    await fs.access(UPLOAD_DIR);
-  } catch {
-    await fs.mkdir(UPLOAD_DIR, { recursive: true });
-  }
-}
+// Storage configuration, relative paths are the storage keys of the files
+const UPLOAD_DIR = path.join('uploads', 'documents');
 
 // Generate unique file path
 function generateFilePath(originalName: string): string {
@@ -57,48 +50,14 @@ function generateFilePath(originalName: string): string {
   return `${timestamp}-${random}-${name}${ext}`;
 }
 
-// Calculate file hash
-async function calculateFileHash(filePath: string): Promise<string> {
-  const fileBuffer = await fs.readFile(filePath);
-  return crypto.createHash('sha256').update(fileBuffer).digest('hex');
-}
-
-// Create directory for date-based organization
-async function createDateDirectory(): Promise<string> {
+// Directory for date-based organization
+function getDateDirectory(): string {
   const now = new Date();
   const year = now.getFullYear();
   const month = String(now.getMonth() + 1).padStart(2, '0');
   const day = String(now.getDate()).padStart(2, '0');
 
-  const dateDir = path.join(UPLOAD_DIR, String(year), month, day);
-  await fs.mkdir(dateDir, { recursive: true });
-
-  return dateDir;
-}
-
-// Extract text content for indexing (simplified version)
-async function extractTextContent(filePath: string, mimeType: string): Promise<string> {
-  try {
-    switch (mimeType) {
-      case 'text/plain':
-        const buffer = await fs.readFile(filePath);
-        return buffer.toString('utf-8');
-
-      case 'application/pdf':
-        // TODO: Implement PDF text extraction using pdf-parse or similar
-        return '';
-
-      case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-        // TODO: Implement DOCX text extraction using mammoth.js or similar
-        return '';
-
-      default:
-        return '';
-    }
-  } catch (error) {
-    logger.error('Error extracting text content:', error);
-    return '';
-  }
+  return path.join(UPLOAD_DIR, String(year), month, day);
 }
 
 // Create document with file
@@ -120,43 +79,41 @@ export async function createDocumentWithFile({
     throw new Error('File type not allowed');
   }
 
-  // Ensure upload directory exists
-  await ensureUploadDir();
-  const dateDir = await createDateDirectory();
+  const dateDir = getDateDirectory();
+  const storageType = getDefaultStorageTier();
 
   // Generate file path and save file
   const fileName = generateFilePath(file.name);
   const filePath = path.join(dateDir, fileName);
+  const securityLevel = documentData.securityLevel as DocumentSecurityLevel || DocumentSecurityLevel.INTERNAL;
 
-  // Save file to disk
+  // Save file to storage, encrypted for CONFIDENTIAL and higher
+  const encryption = documentEncryptionFor(securityLevel);
   const buffer = Buffer.from(await file.arrayBuffer());
-  await fs.writeFile(filePath, buffer);
+  await writeDocumentFile({ filePath, storageType }, buffer, encryption.encryptionKey);
 
-  // Calculate file hash
-  const fileHash = await calculateFileHash(filePath);
-
-  // Extract text content for indexing
-  const contentText = await extractTextContent(filePath, file.type);
+  // Calculate file hash, of the plaintext
+  const fileHash = crypto.createHash('sha256').update(buffer).digest('hex');
 
   // Create document record with separated required and conditional fields
   const baseDocumentPayload = {
     title: documentData.title || file.name,
     fileName: fileName,
     originalFileName: file.name,
-    filePath: path.relative(process.cwd(), filePath),
+    filePath,
     fileSize: file.size,
     mimeType: file.type,
     fileHash,
     documentType: documentData.documentType as DocumentType || DocumentType.OTHER,
     category: documentData.category as DocumentCategory || DocumentCategory.ADMINISTRATIVE,
     status: DocumentStatus.DRAFT,
-    securityLevel: documentData.securityLevel as DocumentSecurityLevel || DocumentSecurityLevel.INTERNAL,
+    securityLevel,
+    ...encryption,
+    ...storageFieldsFor(storageType, filePath),
     version: 1,
     isLatest: true,
     isDraft: true,
     uploadedById: userId,
-    contentText,
-    isIndexed: contentText.length > 0,
   };
 
   // Add conditional fields only if they have meaningful values
@@ -190,10 +147,6 @@ export async function createDocumentWithFile({
     documentPayload.expiresAt = new Date(documentData.expiresAt);
   }
 
-  if (contentText.length > 0) {
-    documentPayload.indexedAt = new Date();
-  }
-
   const document = await prisma.document.create({
     data: documentPayload,
     include: {
@@ -246,6 +199,10 @@ export async function createDocumentWithFile({
     }
   }
 
+  // Extract the text for search and render the thumbnail without holding up the upload
+  queueDocumentIndexing(document.id);
+  queueThumbnailGeneration(document.id);
+
   return {
     ...document,
     uploadedBy: document.uploadedBy ? {
@@ -364,6 +321,11 @@ export async function updateDocument(
     },
   });
 
+  // Raising the level to CONFIDENTIAL or above encrypts the stored files
+  if (updateData.securityLevel !== undefined && await applyDocumentEncryption(documentId)) {
+    queueThumbnailGeneration(documentId);
+  }
+
   // Create history entry
   await prisma.documentHistory.create({
     data: {
@@ -486,14 +448,7 @@ export async function createDocumentVersion({
   userId: string;
   versionNumber: number;
 }) {
-  const UPLOAD_DIR = path.join(process.cwd(), 'uploads', 'documents', 'versions');
-
-  // Ensure upload directory exists
-  try {
-    await fs.access(UPLOAD_DIR);
-  } catch {
-    await fs.mkdir(UPLOAD_DIR, { recursive: true });
-  }
+  const VERSIONS_DIR = path.join(UPLOAD_DIR, 'versions');
 
   // Generate unique file path
   const timestamp = Date.now();
@@ -501,41 +456,46 @@ export async function createDocumentVersion({
   const ext = path.extname(file.name);
   const name = path.basename(file.name, ext);
   const fileName = `v${versionNumber}-${timestamp}-${random}-${name}${ext}`;
-  const filePath = path.join(UPLOAD_DIR, fileName);
+  const filePath = path.join(VERSIONS_DIR, fileName);
 
-  // Save file to disk
   const buffer = Buffer.from(await file.arrayBuffer());
-  await fs.writeFile(filePath, buffer);
-
-  // Calculate file hash
-  const fileHash = crypto.createHash('sha256').update(buffer).digest('hex');
-
-  // Create document version record
-  const version = await prisma.documentVersion.create({
-    data: {
-      documentId,
-      version: versionNumber,
-      title: versionData.title || file.name,
-      description: versionData.description,
-      fileName: fileName,
-      filePath: path.relative(process.cwd(), filePath),
-      fileSize: file.size,
-      mimeType: file.type,
-      fileHash,
-      changeSummary: versionData.changeDescription,
-      createdBy: userId,
-      diffData: versionData.customFields || {},
-    },
-    include: {
-      creator: {
-        select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          email: true,
+  // Written and recorded under the storage lock, so no migration moves the
+  // files of the document meanwhile
+  const version = await withDocumentStorageLock(documentId, async () => {
+    // Save file next to those of the document, under its key when it is encrypted
+    const target = await getDocumentFile(documentId, filePath);
+    await writeDocumentFile(target, buffer, target.encryptionKey);
+
+    // Calculate file hash
+    const fileHash = crypto.createHash('sha256').update(buffer).digest('hex');
+
+    // Create document version record
+    return prisma.documentVersion.create({
+      data: {
+        documentId,
+        version: versionNumber,
+        title: versionData.title || file.name,
+        description: versionData.description,
+        fileName: fileName,
+        filePath,
+        fileSize: file.size,
+        mimeType: file.type,
+        fileHash,
+        changeSummary: versionData.changeDescription,
+        createdBy: userId,
+        diffData: versionData.customFields || {},
+      },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
         },
       },
-    },
+    });
   });
 
   // Create history entry
@@ -547,7 +507,7 @@ export async function createDocumentVersion({
       userId,
       fileSize: file.size,
       fileName: file.name,
-      filePath: path.relative(process.cwd(), filePath),
+      filePath,
       metadata: {
         originalFileName: file.name,
         mimeType: file.type,
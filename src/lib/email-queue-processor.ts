@@ -1,12 +1,17 @@
 import { prisma } from './prisma';
 import nodemailer from 'nodemailer';
 import { logger } from '@/lib/logger';
+import type { Prisma } from '@/prisma/client';
+
+// A claimed email still processing after this long was left by a stopped sender
+const STALE_CLAIM_MS = 30 * 60 * 1000;
 
 export interface EmailConfig {
   host: string;
   port: number;
   secure: boolean;
-  auth: {
+  // Omitted for servers that accept unauthenticated mail, e.g. a local capture server
+  auth?: {
     user: string;
     pass: string;
   };
@@ -39,9 +44,11 @@ class EmailQueueProcessor {
   private isProcessing = false;
   private processingInterval: NodeJS.Timeout | null = null;
   private config: EmailConfig | null = null;
+  private isSending = false;
+  private ready: Promise<void>;
 
   constructor() {
-    this.initialize();
+    this.ready = this.initialize();
   }
 
   private async initialize(): Promise<void> {
@@ -59,7 +66,7 @@ class EmailQueueProcessor {
         host: this.config.host,
         port: this.config.port,
         secure: this.config.secure,
-        auth: this.config.auth,
+        ...(this.config.auth && { auth: this.config.auth }),
         tls: {
           rejectUnauthorized: false
         }
@@ -71,8 +78,11 @@ class EmailQueueProcessor {
       }
       logger.info('Email transporter initialized successfully');
 
-      // Start processing
-      this.start();
+      // Deployments that run `npm run worker` set EMAIL_QUEUE_AUTOSTART=false so
+      // the web server only queues emails and the worker sends them
+      if (process.env.EMAIL_QUEUE_AUTOSTART !== 'false') {
+        this.start();
+      }
 
     } catch (error) {
       logger.error('Failed to initialize email processor:', error);
@@ -96,10 +106,16 @@ class EmailQueueProcessor {
         }
       };
 
-      if (envConfig.auth.user && envConfig.auth.pass) {
+      const { auth, ...openConfig } = envConfig;
+      if (auth?.user && auth.pass) {
         return envConfig;
       }
 
+      // An explicit SMTP_HOST without credentials is an open relay or capture server
+      if (process.env.SMTP_HOST) {
+        return openConfig;
+      }
+
       // If not in environment, try to load from database
       const dbConfig = await prisma.systemConfig.findFirst({
         where: {
@@ -173,22 +189,36 @@ class EmailQueueProcessor {
     logger.info('Email queue processor stopped');
   }
 
-  private async processEmailQueue(): Promise<void> {
+  /**
+   * Send one batch of due emails and return how many were attempted.
+   * Used by the background worker instead of the 30 second interval.
+   */
+  public async processQueue(): Promise<number> {
+    await this.ready;
+    return this.processEmailQueue();
+  }
+
+  private async processEmailQueue(): Promise<number> {
+    if (!this.transporter || this.isSending) {
+      return 0;
+    }
+
+    this.isSending = true;
     try {
-      if (!this.transporter) {
-        return;
-      }
+      const now = new Date();
+      await this.reclaimStaleEmails(now);
 
-      // Get pending emails with proper prioritization
+      // Get pending emails with proper prioritization, honouring retry backoff
       const pendingEmails = await prisma.emailQueue.findMany({
         where: {
           status: 'pending',
           scheduledAt: {
-            lte: new Date()
+            lte: now
           },
+          attempts: { lt: prisma.emailQueue.fields.maxAttempts },
           OR: [
-            { attempts: { lt: prisma.emailQueue.fields.maxAttempts } },
-            { retryAfter: { lte: new Date() } }
+            { retryAfter: null },
+            { retryAfter: { lte: now } }
           ]
         },
         orderBy: [
@@ -200,7 +230,7 @@ class EmailQueueProcessor {
       });
 
       if (pendingEmails.length === 0) {
-        return;
+        return 0;
       }
 
       logger.info(`Processing ${pendingEmails.length} emails`);
@@ -212,22 +242,60 @@ class EmailQueueProcessor {
         await Promise.all(batch.map(email => this.sendEmail(email)));
       }
 
+      return pendingEmails.length;
+
     } catch (error) {
       logger.error('Error processing email queue:', error);
+      return 0;
+    } finally {
+      this.isSending = false;
+    }
+  }
+
+  /**
+   * Put back emails left processing by a sender that stopped mid-send, as a
+   * failed attempt: pending again, or failed once out of attempts. They may
+   * have gone out already, so they can be delivered twice.
+   */
+  private async reclaimStaleEmails(now: Date): Promise<number> {
+    const stale: Prisma.EmailQueueWhereInput = {
+      status: 'processing',
+      OR: [{ claimedAt: null }, { claimedAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) } }],
+    };
+    const error = 'The sender stopped before finishing';
+
+    const failed = await prisma.emailQueue.updateMany({
+      where: { ...stale, attempts: { gte: prisma.emailQueue.fields.maxAttempts } },
+      data: { status: 'failed', failedAt: now, error },
+    });
+    const retried = await prisma.emailQueue.updateMany({
+      where: stale,
+      data: { status: 'pending', error, retryAfter: null },
+    });
+
+    const reclaimed = failed.count + retried.count;
+    if (reclaimed > 0) {
+      logger.warn(`Reclaimed ${reclaimed} queued emails left processing by a stopped sender`);
     }
+    return reclaimed;
   }
 
   private async sendEmail(emailQueueItem: any): Promise<void> {
     try {
-      // Update status to processing
-      await prisma.emailQueue.update({
-        where: { id: emailQueueItem.id },
+      // Claim the email so the web server and the worker never send it twice
+      const claimed = await prisma.emailQueue.updateMany({
+        where: { id: emailQueueItem.id, status: 'pending' },
         data: {
           status: 'processing',
-          attempts: { increment: 1 }
+          attempts: { increment: 1 },
+          claimedAt: new Date()
         }
       });
 
+      if (claimed.count === 0) {
+        return;
+      }
+
       // Prepare email options
       const mailOptions: nodemailer.SendMailOptions = {
         from: `"${emailQueueItem.fromName || this.config?.from.name}" <${emailQueueItem.fromEmail || this.config?.from.email}>`,
@@ -515,4 +583,5 @@ export const queueBulkEmails = (emails: Parameters<typeof emailQueueProcessor.qu
 
 export const getQueueStats = () => emailQueueProcessor.getQueueStats();
 export const retryFailedEmails = (hoursBack?: number) => emailQueueProcessor.retryFailedEmails(hoursBack);
+export const processEmailQueue = () => emailQueueProcessor.processQueue();
 export const cleanupOldEmails = (daysToKeep?: number) => emailQueueProcessor.cleanupOldEmails(daysToKeep);
\ No newline at end of file
@@ -578,7 +578,8 @@ export async function secureFileUpload(
       uploadOptionsAtomic.caseId = uploadOptions.caseId;
     }
 
-    const uploadResult = await atomicFileUpload(Buffer.from(await file.arrayBuffer()), uploadOptionsAtomic);
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    const uploadResult = await atomicFileUpload(fileBuffer, uploadOptionsAtomic);
 
     if (!uploadResult.success) {
       return {
@@ -589,9 +590,10 @@ export async function secureFileUpload(
     }
 
     // 3. Perform comprehensive malware scan on uploaded file
+    // Scanned from memory: the stored file may be encrypted
     if (config.requireMalwareScan && uploadResult.finalFilePath) {
       const malwareScan = await scanFileForMalware(
-        uploadResult.finalFilePath,
+        fileBuffer,
         file.name,
         mimeValidation.recommendedMimeType
       );
@@ -0,0 +1,172 @@
+import { prisma } from '@/lib/prisma';
+import { invalidateWorkCalendar } from '@/lib/sla';
+import { parseHolidayDate, type HolidayInput } from './schema';
+
+export interface HolidayImportSummary {
+  created: number;
+  updated: number;
+  deactivated: number;
+}
+
+export interface HolidayCloneSummary {
+  calendars: Array<{ id: string; name: string; region: string | null; holidays: number }>;
+  // Calendars that already existed for the target year
+  skipped: string[];
+  // Non-recurring holidays copied to the same day; movable dates need review
+  toReview: Array<{ calendarId: string; name: string; date: string }>;
+}
+
+export function holidayData(input: HolidayInput) {
+  return {
+    name: input.name,
+    date: parseHolidayDate(input.date)!,
+    type: input.type,
+    isRecurring: input.isRecurring,
+    recurringPattern: input.isRecurring ? (input.recurringPattern ?? 'yearly') : null,
+    isActive: input.isActive,
+    affectsWork: input.affectsWork,
+    workCompensation: input.workCompensation ?? null,
+    description: input.description ?? null,
+  };
+}
+
+/**
+ * Add or update holidays of a calendar by date. With `replace`, holidays whose
+ * date is not in the list are deactivated rather than deleted.
+ */
+export async function importHolidays(
+  calendarId: string,
+  holidays: HolidayInput[],
+  userId: string,
+  replace: boolean
+): Promise<HolidayImportSummary> {
+  const summary: HolidayImportSummary = { created: 0, updated: 0, deactivated: 0 };
+
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.holiday.findMany({
+      where: { calendarId },
+      select: { id: true, date: true },
+    });
+    const byDate = new Map(existing.map((holiday) => [holiday.date.getTime(), holiday.id]));
+    const imported = new Set<number>();
+
+    for (const input of holidays) {
+      const data = holidayData(input);
+      const key = data.date.getTime();
+      imported.add(key);
+
+      const id = byDate.get(key);
+      if (id) {
+        await tx.holiday.update({ where: { id }, data });
+        summary.updated++;
+      } else {
+        const created = await tx.holiday.create({ data: { ...data, calendarId, createdBy: userId } });
+        byDate.set(key, created.id);
+        summary.created++;
+      }
+    }
+
+    if (replace) {
+      const stale = existing.filter((holiday) => !imported.has(holiday.date.getTime()));
+      const result = await tx.holiday.updateMany({
+        where: { id: { in: stale.map((holiday) => holiday.id) }, isActive: true },
+        data: { isActive: false },
+      });
+      summary.deactivated = result.count;
+    }
+
+    await tx.holidayCalendar.update({ where: { id: calendarId }, data: { updatedBy: userId } });
+  });
+
+  invalidateWorkCalendar();
+  return summary;
+}
+
+// Same month and day in another year; 29 February becomes 28 February
+function shiftYear(date: Date, year: number): Date {
+  const month = date.getUTCMonth();
+  const shifted = new Date(Date.UTC(year, month, date.getUTCDate()));
+  return shifted.getUTCMonth() === month ? shifted : new Date(Date.UTC(year, month + 1, 0));
+}
+
+/**
+ * Copy every calendar of `sourceYear` into `targetYear`, moving each active
+ * holiday to the same day of the target year. Calendars that already exist
+ * for the target year are left untouched.
+ */
+export async function cloneHolidayCalendars(
+  sourceYear: number,
+  targetYear: number,
+  userId: string
+): Promise<HolidayCloneSummary> {
+  const summary: HolidayCloneSummary = { calendars: [], skipped: [], toReview: [] };
+
+  const sources = await prisma.holidayCalendar.findMany({
+    where: { year: sourceYear },
+    include: { holidays: { where: { isActive: true }, orderBy: { date: 'asc' } } },
+    orderBy: [{ country: 'asc' }, { region: 'asc' }, { name: 'asc' }],
+  });
+
+  for (const source of sources) {
+    const existing = await prisma.holidayCalendar.findFirst({
+      where: { name: source.name, year: targetYear, country: source.country, region: source.region },
+      select: { id: true },
+    });
+    if (existing) {
+      summary.skipped.push(source.region ? `${source.name} (${source.region})` : source.name);
+      continue;
+    }
+
+    const seen = new Set<number>();
+    const holidays = source.holidays.flatMap((holiday) => {
+      const date = shiftYear(holiday.date, targetYear);
+      if (seen.has(date.getTime())) return [];
+      seen.add(date.getTime());
+      return [
+        {
+          name: holiday.name,
+          date,
+          type: holiday.type,
+          isRecurring: holiday.isRecurring,
+          recurringPattern: holiday.recurringPattern,
+          affectsWork: holiday.affectsWork,
+          workCompensation: holiday.workCompensation,
+          description: holiday.description,
+          createdBy: userId,
+        },
+      ];
+    });
+
+    const calendar = await prisma.holidayCalendar.create({
+      data: {
+        name: source.name,
+        year: targetYear,
+        country: source.country,
+        region: source.region,
+        isActive: source.isActive,
+        description: source.description,
+        createdBy: userId,
+        holidays: { create: holidays },
+      },
+    });
+
+    summary.calendars.push({
+      id: calendar.id,
+      name: calendar.name,
+      region: calendar.region,
+      holidays: holidays.length,
+    });
+    for (const holiday of holidays) {
+      if (!holiday.isRecurring) {
+        summary.toReview.push({
+          calendarId: calendar.id,
+          name: holiday.name,
+          date: holiday.date.toISOString().slice(0, 10),
+        });
+      }
+    }
+  }
+
+  invalidateWorkCalendar();
+  return summary;
+}
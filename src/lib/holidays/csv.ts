@@ -0,0 +1,125 @@
+import { HOLIDAY_TYPES, formatHolidayDate, holidaySchema, type HolidayInput } from './schema';
+import type { HolidayExportRow, HolidayParseResult } from './ical';
+
+/**
+ * CSV holiday lists with a header row:
+ * date,name,type,isRecurring,affectsWork,description
+ *
+ * Only date and name are required. Semicolon-separated files, as saved by
+ * spreadsheets with a Spanish locale, are accepted too.
+ */
+
+const COLUMNS = ['date', 'name', 'type', 'isRecurring', 'affectsWork', 'description'] as const;
+
+function parseRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!;
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+function parseBoolean(value: string | undefined, fallback: boolean): boolean {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return fallback;
+  return ['true', '1', 'yes', 'si', 'sí', 'x'].includes(normalized);
+}
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function parseCsv(content: string): HolidayParseResult {
+  const holidays: HolidayInput[] = [];
+  const errors: string[] = [];
+
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+  const [header, ...rows] = parseRows(text, delimiter);
+
+  const columns = new Map(
+    (header ?? []).map((cell, index) => [cell.trim().toLowerCase(), index] as const)
+  );
+  if (!columns.has('date') || !columns.has('name')) {
+    return { holidays, errors: ['La primera fila debe incluir las columnas date y name'] };
+  }
+
+  const cell = (row: string[], column: (typeof COLUMNS)[number]) => {
+    const index = columns.get(column.toLowerCase());
+    return index === undefined ? undefined : row[index]?.trim();
+  };
+
+  rows.forEach((row, index) => {
+    const type = cell(row, 'type')?.toLowerCase();
+    const input = {
+      name: cell(row, 'name') ?? '',
+      date: cell(row, 'date') ?? '',
+      type: HOLIDAY_TYPES.find((candidate) => candidate === type) ?? 'national',
+      isRecurring: parseBoolean(cell(row, 'isRecurring'), false),
+      affectsWork: parseBoolean(cell(row, 'affectsWork'), true),
+      description: cell(row, 'description') || null,
+    };
+
+    const result = holidaySchema.safeParse(input);
+    if (result.success) {
+      holidays.push({ ...result.data, recurringPattern: result.data.isRecurring ? 'yearly' : null });
+    } else {
+      // Row 1 is the header
+      errors.push(`Fila ${index + 2} (${input.name || 'sin nombre'}): ${result.error.issues[0]?.message}`);
+    }
+  });
+
+  return { holidays, errors };
+}
+
+export function toCsv(holidays: HolidayExportRow[]): string {
+  const lines = [COLUMNS.join(',')];
+  for (const holiday of holidays) {
+    lines.push(
+      [
+        formatHolidayDate(holiday.date),
+        holiday.name,
+        holiday.type,
+        String(holiday.isRecurring),
+        String(holiday.affectsWork),
+        holiday.description ?? '',
+      ]
+        .map(escapeCell)
+        .join(',')
+    );
+  }
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,128 @@
+import { HOLIDAY_TYPES, formatHolidayDate, holidaySchema, type HolidayInput } from './schema';
+
+/**
+ * Minimal iCalendar (RFC 5545) support for holiday lists: all-day VEVENTs,
+ * yearly RRULEs for recurring holidays and TRANSP for days that do not
+ * interrupt work. Other components and properties are ignored.
+ */
+
+export interface HolidayExportRow {
+  id: string;
+  name: string;
+  date: Date;
+  type: string;
+  isRecurring: boolean;
+  affectsWork: boolean;
+  description: string | null;
+}
+
+export interface HolidayParseResult {
+  holidays: HolidayInput[];
+  errors: string[];
+}
+
+const PRODID = '-//MOPC//Plataforma de Expropiaciones//ES';
+
+function unfold(content: string): string[] {
+  return content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 characters continue on the next line after a space
+function fold(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return parts.join('\r\n ');
+}
+
+function compactDate(date: Date): string {
+  return formatHolidayDate(date).replace(/-/g, '');
+}
+
+export function parseIcs(content: string): HolidayParseResult {
+  const holidays: HolidayInput[] = [];
+  const errors: string[] = [];
+  let event: Map<string, string> | null = null;
+  let eventCount = 0;
+
+  for (const line of unfold(content)) {
+    if (line === 'BEGIN:VEVENT') {
+      event = new Map();
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      eventCount++;
+      const start = event.get('DTSTART')?.slice(0, 8) ?? '';
+      const category = event.get('CATEGORIES')?.split(',')[0]?.trim().toLowerCase();
+      const input = {
+        name: unescapeText(event.get('SUMMARY') ?? ''),
+        date: /^\d{8}$/.test(start) ? `${start.slice(0, 4)}-${start.slice(4, 6)}-${start.slice(6, 8)}` : start,
+        type: HOLIDAY_TYPES.find((type) => type === category) ?? 'national',
+        isRecurring: /FREQ=YEARLY/i.test(event.get('RRULE') ?? ''),
+        affectsWork: event.get('TRANSP')?.toUpperCase() !== 'TRANSPARENT',
+        description: event.has('DESCRIPTION') ? unescapeText(event.get('DESCRIPTION')!) : null,
+      };
+
+      const result = holidaySchema.safeParse(input);
+      if (result.success) {
+        holidays.push({ ...result.data, recurringPattern: result.data.isRecurring ? 'yearly' : null });
+      } else {
+        errors.push(`Evento ${eventCount} (${input.name || 'sin nombre'}): ${result.error.issues[0]?.message}`);
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    // Parameters such as ;VALUE=DATE are not needed to read the value
+    const name = line.slice(0, colon).split(';')[0]!.toUpperCase();
+    event.set(name, line.slice(colon + 1));
+  }
+
+  if (eventCount === 0) {
+    errors.push('El archivo no contiene eventos VEVENT');
+  }
+  return { holidays, errors };
+}
+
+export function toIcs(calendarName: string, holidays: HolidayExportRow[], now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const holiday of holidays) {
+    const nextDay = new Date(holiday.date.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${holiday.id}@mopc-expropiaciones`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(holiday.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(nextDay)}`,
+      `SUMMARY:${escapeText(holiday.name)}`,
+      `CATEGORIES:${escapeText(holiday.type)}`,
+      `TRANSP:${holiday.affectsWork ? 'OPAQUE' : 'TRANSPARENT'}`,
+      ...(holiday.isRecurring ? ['RRULE:FREQ=YEARLY'] : []),
+      ...(holiday.description ? [`DESCRIPTION:${escapeText(holiday.description)}`] : []),
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,22 @@
+export {
+  HOLIDAY_TYPES,
+  WORK_COMPENSATIONS,
+  formatHolidayDate,
+  holidayCalendarSchema,
+  holidayCloneSchema,
+  holidayImportSchema,
+  holidaySchema,
+  parseHolidayDate,
+  type HolidayCalendarInput,
+  type HolidayInput,
+  type HolidayType,
+} from './schema';
+export { parseIcs, toIcs, type HolidayExportRow, type HolidayParseResult } from './ical';
+export { parseCsv, toCsv } from './csv';
+export {
+  cloneHolidayCalendars,
+  holidayData,
+  importHolidays,
+  type HolidayCloneSummary,
+  type HolidayImportSummary,
+} from './calendar';
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+export const HOLIDAY_TYPES = ['national', 'regional', 'religious', 'custom'] as const;
+export const WORK_COMPENSATIONS = ['overtime', 'compensatory_off', 'none'] as const;
+
+export type HolidayType = (typeof HOLIDAY_TYPES)[number];
+
+// Holidays are whole days, exchanged as YYYY-MM-DD and stored at UTC midnight
+const holidayDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+  .refine((value) => parseHolidayDate(value) !== null, 'Invalid date');
+
+export const holidaySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  date: holidayDateSchema,
+  type: z.enum(HOLIDAY_TYPES).default('national'),
+  isRecurring: z.boolean().default(false),
+  recurringPattern: z.enum(['yearly']).nullable().optional(),
+  isActive: z.boolean().default(true),
+  affectsWork: z.boolean().default(true),
+  workCompensation: z.enum(WORK_COMPENSATIONS).nullable().optional(),
+  description: z.string().max(1000).nullable().optional(),
+});
+
+export const holidayCalendarSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  year: z.number().int().min(2000).max(2100),
+  country: z.string().trim().length(2).toUpperCase().default('DO'),
+  // Province for regional calendars; null for the national calendar
+  region: z.string().trim().min(1).max(100).nullable().optional(),
+  isActive: z.boolean().default(true),
+  description: z.string().max(1000).nullable().optional(),
+  holidays: z.array(holidaySchema).optional(),
+});
+
+export const holidayImportSchema = z.object({
+  format: z.enum(['ics', 'csv']),
+  content: z.string().min(1).max(1_000_000),
+  // Deactivate holidays of the calendar that are not in the imported list
+  replace: z.boolean().default(false),
+});
+
+export const holidayCloneSchema = z.object({
+  sourceYear: z.number().int().min(2000).max(2100),
+  targetYear: z.number().int().min(2000).max(2100),
+});
+
+export type HolidayInput = z.infer<typeof holidaySchema>;
+export type HolidayCalendarInput = z.infer<typeof holidayCalendarSchema>;
+
+export function parseHolidayDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+export function formatHolidayDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
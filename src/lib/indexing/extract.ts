@@ -0,0 +1,137 @@
+import ExcelJS from 'exceljs';
+import { extractPdfText } from './pdf';
+import { getOcrProvider } from './ocr';
+import { checkZipSize, readZipEntries } from './zip';
+
+export type ExtractionMethod = 'text' | 'pdf' | 'docx' | 'xlsx' | 'ocr' | 'none';
+
+export interface ExtractionResult {
+  text: string;
+  method: ExtractionMethod;
+}
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const TEXT_MIMES = new Set(['text/plain', 'text/csv', 'text/html']);
+
+// A PDF whose text layer has fewer letters than this per page is treated as scanned
+const MIN_PDF_CHARS_PER_PAGE = 20;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0' };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+function decodeText(buffer: Buffer): string {
+  // Files saved by Excel or older Windows tools are often not UTF-8
+  const utf8 = buffer.toString('utf8').replace(/^\uFEFF/, '');
+  return utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+}
+
+function htmlToText(html: string): string {
+  return decodeXmlEntities(
+    html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<(br|\/p|\/div|\/tr|\/li|\/h\d)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  );
+}
+
+/**
+ * Body, headers, footers, footnotes and comments of a Word document, one
+ * paragraph per line.
+ */
+function extractDocxText(buffer: Buffer): string {
+  const parts = readZipEntries(buffer, (name) =>
+    /^word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/.test(name)
+  );
+  const ordered = [...parts.entries()].sort(([a], [b]) =>
+    a === 'word/document.xml' ? -1 : b === 'word/document.xml' ? 1 : a.localeCompare(b)
+  );
+
+  return ordered
+    .map(([, xml]) =>
+      decodeXmlEntities(
+        xml
+          .toString('utf8')
+          .replace(/<w:tab\/>/g, '\t')
+          .replace(/<w:(br|cr)\/>/g, '\n')
+          .replace(/<\/w:p>/g, '\n')
+          .replace(/<\/w:tc>/g, '\t')
+          .replace(/<[^>]+>/g, '')
+      )
+    )
+    .join('\n');
+}
+
+async function extractXlsxText(buffer: Buffer): Promise<string> {
+  // ExcelJS inflates every part of the workbook with no limit of its own
+  checkZipSize(buffer);
+  const workbook = new ExcelJS.Workbook();
+  // A copy of just these bytes: a Buffer may be a view into a larger pool
+  await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+
+  const lines: string[] = [];
+  workbook.eachSheet((sheet) => {
+    lines.push(sheet.name);
+    sheet.eachRow((row) => {
+      const cells: string[] = [];
+      row.eachCell((cell) => {
+        const text = cell.text?.trim();
+        if (text) cells.push(text);
+      });
+      if (cells.length > 0) lines.push(cells.join('\t'));
+    });
+  });
+  return lines.join('\n');
+}
+
+function countPdfPages(buffer: Buffer): number {
+  return Math.max(buffer.toString('latin1').match(/\/Type\s*\/Page\b/g)?.length ?? 1, 1);
+}
+
+async function recognize(buffer: Buffer, mimeType: string): Promise<ExtractionResult | null> {
+  const ocr = getOcrProvider();
+  if (!ocr?.supports(mimeType)) return null;
+  return { text: await ocr.recognize(buffer, mimeType), method: 'ocr' };
+}
+
+/**
+ * Extract the searchable text of a file. PDFs without a usable text layer and
+ * images go to the OCR provider when one is configured. Formats that hold no
+ * text (or are not supported, like legacy .doc) give an empty result.
+ */
+export async function extractText(buffer: Buffer, mimeType: string): Promise<ExtractionResult> {
+  if (TEXT_MIMES.has(mimeType)) {
+    const text = decodeText(buffer);
+    return { text: mimeType === 'text/html' ? htmlToText(text) : text, method: 'text' };
+  }
+
+  if (mimeType === DOCX_MIME) {
+    return { text: extractDocxText(buffer), method: 'docx' };
+  }
+
+  if (mimeType === XLSX_MIME) {
+    return { text: await extractXlsxText(buffer), method: 'xlsx' };
+  }
+
+  if (mimeType === 'application/pdf') {
+    const text = extractPdfText(buffer);
+    const letters = text.replace(/[^\p{L}\p{N}]/gu, '').length;
+    if (letters >= MIN_PDF_CHARS_PER_PAGE * countPdfPages(buffer)) {
+      return { text, method: 'pdf' };
+    }
+    return (await recognize(buffer, mimeType)) ?? { text, method: 'pdf' };
+  }
+
+  if (mimeType.startsWith('image/')) {
+    return (await recognize(buffer, mimeType)) ?? { text: '', method: 'none' };
+  }
+
+  return { text: '', method: 'none' };
+}
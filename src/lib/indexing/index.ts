@@ -0,0 +1,11 @@
+export { extractText, type ExtractionMethod, type ExtractionResult } from './extract';
+export { commandOcrProvider, getOcrProvider, registerOcrProvider, type OcrProvider } from './ocr';
+export { MAX_INDEXED_LENGTH, compactIdentifier, isIdentifierLike, normalizeText } from './normalize';
+export {
+  indexDocument,
+  indexDocuments,
+  queueDocumentIndexing,
+  type IndexResult,
+  type IndexRunSummary,
+  type IndexScope,
+} from './indexer';
@@ -0,0 +1,117 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { getDocumentFile, readDocumentFile } from '@/lib/document-encryption';
+import type { Prisma } from '@/prisma/client';
+import { extractText, type ExtractionMethod } from './extract';
+import { normalizeText } from './normalize';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Which documents a backfill goes through: those never indexed, those
+ * indexed without finding any text (worth retrying once OCR is configured),
+ * or all of them.
+ */
+export type IndexScope = 'pending' | 'empty' | 'all';
+
+export interface IndexResult {
+  documentId: string;
+  method: ExtractionMethod;
+  characters: number;
+  error?: string;
+}
+
+export interface IndexRunSummary {
+  processed: number;
+  withText: number;
+  failed: number;
+}
+
+/**
+ * Extract, normalize and store the searchable text of a document.
+ *
+ * A document counts as indexed once it went through extraction, even when
+ * nothing was found or the file could not be read, so the worker does not
+ * retry it on every pass; `indexDocuments('empty')` goes back over those.
+ */
+export async function indexDocument(documentId: string): Promise<IndexResult> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { id: true, mimeType: true },
+  });
+
+  let result: IndexResult;
+  let contentText: string | null = null;
+  try {
+    const buffer = await readDocumentFile(await getDocumentFile(document.id));
+    const { text, method } = await extractText(buffer, document.mimeType);
+    contentText = normalizeText(text) || null;
+    result = { documentId, method, characters: contentText?.length ?? 0 };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn(`Could not extract text from document ${documentId}: ${message}`);
+    result = { documentId, method: 'none', characters: 0, error: message };
+  }
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { contentText, isIndexed: true, indexedAt: new Date() },
+  });
+
+  return result;
+}
+
+/**
+ * Index a document in the background, right after its upload. Failures are
+ * only logged: the worker picks up documents left unindexed.
+ */
+export function queueDocumentIndexing(documentId: string): void {
+  indexDocument(documentId).catch((error) => {
+    logger.error(`Indexing document ${documentId} failed:`, error);
+  });
+}
+
+function scopeFilter(scope: IndexScope): Prisma.DocumentWhereInput {
+  switch (scope) {
+    case 'pending':
+      return { isIndexed: false };
+    case 'empty':
+      return { OR: [{ isIndexed: false }, { contentText: null }] };
+    case 'all':
+      return {};
+  }
+}
+
+/**
+ * Index documents in the given scope, oldest first, up to `limit` of them.
+ */
+export async function indexDocuments(
+  scope: IndexScope = 'pending',
+  options: { limit?: number; onProgress?: (result: IndexResult) => void } = {}
+): Promise<IndexRunSummary> {
+  const summary: IndexRunSummary = { processed: 0, withText: 0, failed: 0 };
+  const limit = options.limit ?? Infinity;
+  let cursor: string | undefined;
+
+  while (summary.processed < limit) {
+    // Paging by id keeps 'pending' from skipping rows as they leave the scope
+    const batch = await prisma.document.findMany({
+      where: { ...scopeFilter(scope), ...(cursor && { id: { gt: cursor } }) },
+      orderBy: { id: 'asc' },
+      take: Math.min(BATCH_SIZE, limit - summary.processed),
+      select: { id: true },
+    });
+    if (batch.length === 0) break;
+
+    for (const { id } of batch) {
+      const result = await indexDocument(id);
+      summary.processed++;
+      if (result.error) summary.failed++;
+      else if (result.characters > 0) summary.withText++;
+      options.onProgress?.(result);
+    }
+    cursor = batch[batch.length - 1]!.id;
+  }
+
+  return summary;
+}
@@ -0,0 +1,56 @@
+/**
+ * Text is stored the way it will be searched: one space between words and no
+ * control characters. Identifiers like cédulas (001-1234567-8) and parcel
+ * numbers (309-B-2) are written many ways, so each one is also appended in
+ * compact form (00112345678, 309B2) and a search for either spelling finds
+ * the document.
+ */
+
+// Leaves room below the MEDIUMTEXT limit for multi-byte characters
+export const MAX_INDEXED_LENGTH = 4 * 1024 * 1024;
+
+// Digit groups joined by dashes, dots or slashes, where a group may also be
+// a one or two letter block: 001-1234567-8, 402.2.3, 309-B-2
+const IDENTIFIER_PATTERN = /\b\d+(?:[-./](?:\d+|[A-Za-z]{1,2}))+\b/g;
+const SEPARATOR_PATTERN = /[-./]/g;
+const DATE_PATTERN = /^\d{1,2}[-./]\d{1,2}[-./]\d{2,4}$/;
+
+/**
+ * Compact form of an identifier, as people often type it into a search.
+ */
+export function compactIdentifier(value: string): string {
+  return value.replace(SEPARATOR_PATTERN, '');
+}
+
+/**
+ * Whether a search term looks like an identifier, so the search can also try
+ * its compact form.
+ */
+export function isIdentifierLike(value: string): boolean {
+  const term = value.trim();
+  return /^\d+(?:[-./](?:\d+|[A-Za-z]{1,2}))+$/.test(term) && !DATE_PATTERN.test(term);
+}
+
+export function normalizeText(raw: string): string {
+  const text = raw
+    .normalize('NFC')
+    // Soft hyphens and zero-width characters split words for the search
+    .replace(/[\u00AD\u200B-\u200D\uFEFF]/g, '')
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F]/g, ' ')
+    .replace(/[ \t\u00A0]+/g, ' ')
+    .replace(/ *\n\s*/g, '\n')
+    .trim();
+
+  const identifiers = new Set<string>();
+  for (const match of text.matchAll(IDENTIFIER_PATTERN)) {
+    // Short groups are amounts and article numbers far more often than
+    // identifiers, so only longer ones get a compact form
+    const compact = compactIdentifier(match[0]);
+    if (!DATE_PATTERN.test(match[0]) && (/\d{6,}/.test(compact) || /[A-Za-z]/.test(compact))) {
+      identifiers.add(compact);
+    }
+  }
+
+  const indexed = identifiers.size > 0 ? `${text}\n${[...identifiers].join(' ')}` : text;
+  return indexed.slice(0, MAX_INDEXED_LENGTH);
+}
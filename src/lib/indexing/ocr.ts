@@ -0,0 +1,78 @@
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Scanned deeds run to dozens of pages; give the engine time but not forever
+const OCR_TIMEOUT_MS = 5 * 60 * 1000;
+const OCR_MAX_OUTPUT = 32 * 1024 * 1024;
+
+/**
+ * Recognizes the text of scanned documents: images, and PDFs without a text
+ * layer such as scanned property titles and deeds.
+ */
+export interface OcrProvider {
+  name: string;
+  supports(mimeType: string): boolean;
+  recognize(buffer: Buffer, mimeType: string): Promise<string>;
+}
+
+let provider: OcrProvider | null | undefined;
+
+/**
+ * Provider that runs an external command, configured with OCR_COMMAND. The
+ * command gets the path of a temporary copy of the file in place of {file}
+ * (or as its last argument) and prints the text, e.g.
+ *
+ *   OCR_COMMAND="tesseract {file} stdout -l spa"
+ *
+ * Tesseract reads images only; to OCR scanned PDFs point OCR_COMMAND at a
+ * wrapper script that rasterizes them first (pdftoppm, ocrmypdf --sidecar...)
+ * and set OCR_PDF=true.
+ */
+export function commandOcrProvider(command: string, options: { pdf?: boolean } = {}): OcrProvider {
+  const [executable, ...args] = command.trim().split(/\s+/);
+  if (!executable) throw new Error('OCR_COMMAND is empty');
+
+  return {
+    name: path.basename(executable),
+    supports: (mimeType) => mimeType.startsWith('image/') || (!!options.pdf && mimeType === 'application/pdf'),
+    async recognize(buffer, mimeType) {
+      const extension = mimeType === 'application/pdf' ? '.pdf' : `.${mimeType.split('/')[1] ?? 'bin'}`;
+      const file = path.join(os.tmpdir(), `ocr-${crypto.randomBytes(8).toString('hex')}${extension}`);
+      await fs.writeFile(file, buffer);
+
+      try {
+        const hasPlaceholder = args.some((arg) => arg.includes('{file}'));
+        const { stdout } = await execFileAsync(
+          executable,
+          hasPlaceholder ? args.map((arg) => arg.replace('{file}', file)) : [...args, file],
+          { timeout: OCR_TIMEOUT_MS, maxBuffer: OCR_MAX_OUTPUT }
+        );
+        return stdout;
+      } finally {
+        await fs.rm(file, { force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Replace the OCR provider, e.g. with a cloud OCR service. Pass null to turn
+ * OCR off.
+ */
+export function registerOcrProvider(next: OcrProvider | null): void {
+  provider = next;
+}
+
+export function getOcrProvider(): OcrProvider | null {
+  if (provider === undefined) {
+    const command = process.env.OCR_COMMAND;
+    provider = command ? commandOcrProvider(command, { pdf: process.env.OCR_PDF === 'true' }) : null;
+  }
+  return provider;
+}
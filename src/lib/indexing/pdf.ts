@@ -0,0 +1,292 @@
+import { constants, inflateSync } from 'zlib';
+
+/**
+ * Text extraction from the text layer of a PDF. Content streams are inflated
+ * and their text-showing operators (Tj, TJ, ' and ") decoded, using the
+ * fonts' ToUnicode maps where they have one. That covers the PDFs produced by
+ * word processors and the platform's own generators; scanned pages have no
+ * text layer and go to OCR instead.
+ *
+ * Object streams and encrypted PDFs are not decoded: their text is simply not
+ * found, which also sends them to OCR.
+ */
+
+const STREAM_PATTERN = /(\d+)\s+(\d+)\s+obj\b([\s\S]*?)stream\r?\n/g;
+// Only text operators inside BT ... ET blocks are of interest
+const TEXT_BLOCK_PATTERN = /\bBT\b([\s\S]*?)\bET\b/g;
+
+interface PdfStream {
+  id: string;
+  dictionary: string;
+  data: Buffer;
+}
+
+type CharMap = Map<string, string>;
+
+function readStreams(buffer: Buffer): PdfStream[] {
+  // latin1 keeps one character per byte, so string offsets are byte offsets
+  const source = buffer.toString('latin1');
+  const streams: PdfStream[] = [];
+  STREAM_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = STREAM_PATTERN.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) break;
+
+    const dictionary = match[3] ?? '';
+    const raw = buffer.subarray(start, end);
+    STREAM_PATTERN.lastIndex = end;
+
+    if (/\/Subtype\s*\/Image\b/.test(dictionary)) continue;
+
+    let data: Buffer = raw;
+    if (/\/FlateDecode\b/.test(dictionary)) {
+      try {
+        // Sync flush tolerates the stray bytes some writers leave after the data
+        data = inflateSync(raw, { finishFlush: constants.Z_SYNC_FLUSH });
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter\b/.test(dictionary)) {
+      // Other filters (DCT, JBIG2, LZW...) do not hold text we can read
+      continue;
+    }
+
+    streams.push({ id: `${match[1]} ${match[2]}`, dictionary, data });
+  }
+
+  return streams;
+}
+
+function hexToBytes(hex: string): Buffer {
+  const clean = hex.replace(/[^0-9a-fA-F]/g, '');
+  return Buffer.from(clean.length % 2 ? `${clean}0` : clean, 'hex');
+}
+
+function utf16beToString(bytes: Buffer): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode(bytes.readUInt16BE(i));
+  }
+  return text;
+}
+
+/**
+ * Parse a ToUnicode CMap: bfchar and bfrange entries from character codes
+ * (as hex) to Unicode text.
+ */
+function parseToUnicode(cmap: string): CharMap {
+  const map: CharMap = new Map();
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of (block[1] ?? '').matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      map.set(entry[1]!.toLowerCase(), utf16beToString(hexToBytes(entry[2]!)));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const body = block[1] ?? '';
+    for (const entry of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g)) {
+      const width = entry[1]!.length;
+      const low = parseInt(entry[1]!, 16);
+      const high = parseInt(entry[2]!, 16);
+      const target = entry[3]!;
+      // Guard against absurd ranges in broken files
+      if (high < low || high - low > 0xffff) continue;
+
+      const destinations = target.startsWith('[')
+        ? [...target.matchAll(/<([0-9a-fA-F]+)>/g)].map((item) => hexToBytes(item[1]!))
+        : null;
+      const base = destinations ? null : hexToBytes(target.slice(1, -1));
+
+      for (let code = low; code <= high; code++) {
+        const key = code.toString(16).padStart(width, '0');
+        if (destinations) {
+          const destination = destinations[code - low];
+          if (destination) map.set(key, utf16beToString(destination));
+        } else if (base && base.length >= 2) {
+          const shifted = Buffer.from(base);
+          shifted.writeUInt16BE(base.readUInt16BE(base.length - 2) + (code - low), base.length - 2);
+          map.set(key, utf16beToString(shifted));
+        }
+      }
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Character maps per font resource name (/F1, /TT0...), resolved from the
+ * font objects' /ToUnicode references.
+ */
+function loadFontMaps(buffer: Buffer, streams: PdfStream[]): Map<string, CharMap> {
+  const source = buffer.toString('latin1');
+  const streamsById = new Map(streams.map((stream) => [stream.id, stream]));
+  const cmapsByFontObject = new Map<string, CharMap>();
+  const dictionaries = new Map<string, string>();
+
+  // Splitting on endobj keeps a dictionary from running on into the next object
+  for (const chunk of source.split(/\bendobj\b/)) {
+    const match = chunk.match(/(\d+)\s+(\d+)\s+obj\s*<<([\s\S]*)>>\s*$/);
+    if (!match) continue;
+    const id = `${match[1]} ${match[2]}`;
+    const body = match[3] ?? '';
+    dictionaries.set(id, body);
+    if (!/\/Type\s*\/Font\b/.test(body)) continue;
+    const reference = body.match(/\/ToUnicode\s+(\d+)\s+(\d+)\s+R/);
+    if (!reference) continue;
+    const cmap = streamsById.get(`${reference[1]} ${reference[2]}`);
+    if (cmap) cmapsByFontObject.set(id, parseToUnicode(cmap.data.toString('latin1')));
+  }
+
+  // Font resource dictionaries, inline or by reference: << /F1 12 0 R /F2 14 0 R >>
+  const resources = [
+    ...[...source.matchAll(/\/Font\s*<<([^>]*)>>/g)].map((match) => match[1] ?? ''),
+    ...[...source.matchAll(/\/Font\s+(\d+)\s+(\d+)\s+R/g)].map(
+      (match) => dictionaries.get(`${match[1]} ${match[2]}`) ?? ''
+    ),
+  ];
+  const fontMaps = new Map<string, CharMap>();
+  for (const resource of resources) {
+    for (const entry of resource.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+(\d+)\s+R/g)) {
+      const cmap = cmapsByFontObject.get(`${entry[2]} ${entry[3]}`);
+      if (cmap && !fontMaps.has(entry[1]!)) fontMaps.set(entry[1]!, cmap);
+    }
+  }
+
+  return fontMaps;
+}
+
+function decodeLiteral(literal: string): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < literal.length; i++) {
+    const char = literal[i]!;
+    if (char !== '\\') {
+      bytes.push(char.charCodeAt(0) & 0xff);
+      continue;
+    }
+    const next = literal[++i];
+    if (next === undefined) break;
+    const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+    if (next in escapes) {
+      bytes.push(escapes[next]!);
+    } else if (/[0-7]/.test(next)) {
+      let octal = next;
+      while (octal.length < 3 && /[0-7]/.test(literal[i + 1] ?? '')) octal += literal[++i];
+      bytes.push(parseInt(octal, 8) & 0xff);
+    } else if (next === '\r' || next === '\n') {
+      // Line continuation
+      if (next === '\r' && literal[i + 1] === '\n') i++;
+    } else {
+      bytes.push(next.charCodeAt(0) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeString(bytes: Buffer, cmap: CharMap | undefined): string {
+  if (cmap && cmap.size > 0) {
+    // Codes are one or two bytes wide, as declared by the font's map
+    const width = [...cmap.keys()][0]!.length / 2;
+    let text = '';
+    for (let i = 0; i < bytes.length; i += width) {
+      const key = bytes.subarray(i, i + width).toString('hex');
+      text += cmap.get(key) ?? '';
+    }
+    return text;
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return utf16beToString(bytes.subarray(2));
+  }
+  // Simple fonts without a map are close enough to Latin-1 (WinAnsi)
+  return bytes.toString('latin1');
+}
+
+/**
+ * Tokens of a content stream that matter for text: strings, arrays of
+ * strings, font selections and the operators that show or move text.
+ */
+function extractFromContent(content: string, fontMaps: Map<string, CharMap>): string {
+  let text = '';
+  let font: CharMap | undefined;
+  let operands: Buffer[] = [];
+  let fontName: string | null = null;
+
+  const show = () => {
+    for (const operand of operands) text += decodeString(operand, font);
+    operands = [];
+  };
+
+  for (const block of content.matchAll(TEXT_BLOCK_PATTERN)) {
+    const body = block[1] ?? '';
+    let i = 0;
+
+    while (i < body.length) {
+      const char = body[i]!;
+
+      if (char === '(') {
+        let depth = 1;
+        let j = i + 1;
+        for (; j < body.length && depth > 0; j++) {
+          if (body[j] === '\\') j++;
+          else if (body[j] === '(') depth++;
+          else if (body[j] === ')') depth--;
+        }
+        operands.push(decodeLiteral(body.slice(i + 1, j - 1)));
+        i = j;
+      } else if (char === '<' && body[i + 1] !== '<') {
+        const end = body.indexOf('>', i);
+        if (end === -1) break;
+        operands.push(hexToBytes(body.slice(i + 1, end)));
+        i = end + 1;
+      } else if (char === '[' || char === ']') {
+        i++;
+      } else if (char === '/') {
+        const name = body.slice(i + 1).match(/^[^\s/<>[\]()]+/)?.[0] ?? '';
+        fontName = name;
+        i += 1 + name.length;
+      } else if (/[A-Za-z'"*]/.test(char)) {
+        const operator = body.slice(i).match(/^[A-Za-z'"*]+/)?.[0] ?? char;
+        i += operator.length;
+
+        if (operator === 'Tf') {
+          font = fontName ? fontMaps.get(fontName) : undefined;
+        } else if (operator === 'Tj' || operator === 'TJ') {
+          show();
+        } else if (operator === "'" || operator === '"') {
+          text += '\n';
+          show();
+        } else if (operator === 'Td' || operator === 'TD' || operator === 'T*' || operator === 'Tm') {
+          text += '\n';
+        }
+        operands = [];
+      } else if (char === '-' || char === '.' || /\d/.test(char)) {
+        // Numbers inside TJ arrays are kerning; large negative gaps are spaces
+        const number = body.slice(i).match(/^-?\d*\.?\d+/)?.[0] ?? char;
+        if (Number(number) < -200 && operands.length > 0) operands.push(Buffer.from(' '));
+        i += number.length;
+      } else {
+        i++;
+      }
+    }
+
+    text += '\n';
+  }
+
+  return text;
+}
+
+export function extractPdfText(buffer: Buffer): string {
+  if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') return '';
+
+  const streams = readStreams(buffer);
+  const fontMaps = loadFontMaps(buffer, streams);
+
+  return streams
+    .filter((stream) => !/\/(Type\s*\/XObject|Length1|Subtype\s*\/Type1C|Subtype\s*\/CIDFontType0C|Subtype\s*\/OpenType)\b/.test(stream.dictionary))
+    .map((stream) => extractFromContent(stream.data.toString('latin1'), fontMaps))
+    .join('\n');
+}
@@ -0,0 +1,131 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Minimal reader for the zip containers of Office documents (DOCX, XLSX).
+ * Entries are located through the central directory, so data descriptors
+ * and streamed archives are handled; only stored and deflated entries are
+ * supported, which is all Office writes.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record sits in the last 22 bytes plus an optional 64 KB comment
+const MAX_END_SEARCH = 22 + 0xffff;
+// Limits on decompressed sizes, far above what Office writes, so a zip bomb
+// fails instead of exhausting the memory of the worker
+const MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 256 * 1024 * 1024;
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_END_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ZipError('Not a zip archive');
+}
+
+interface ZipEntry {
+  name: string;
+  // Decompressed on demand, within the size limits
+  read(): Buffer;
+}
+
+function inflateEntry(name: string, data: Buffer): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new ZipError(`Zip entry ${name} is larger than ${MAX_ENTRY_SIZE} bytes`);
+    }
+    throw error;
+  }
+}
+
+function* zipEntries(buffer: Buffer): Generator<ZipEntry> {
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  let declaredTotal = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipError('Corrupt zip central directory');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Declared sizes reject most bombs up front; inflation is capped anyway
+    // since nothing forces an archive to tell the truth
+    declaredTotal += uncompressedSize;
+    if (uncompressedSize > MAX_ENTRY_SIZE) {
+      throw new ZipError(`Zip entry ${name} is larger than ${MAX_ENTRY_SIZE} bytes`);
+    }
+    if (declaredTotal > MAX_TOTAL_SIZE) {
+      throw new ZipError(`Zip archive is larger than ${MAX_TOTAL_SIZE} bytes uncompressed`);
+    }
+    if (method !== 0 && method !== 8) {
+      throw new ZipError(`Unsupported zip compression method ${method} for ${name}`);
+    }
+
+    yield {
+      name,
+      read: () => {
+        if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+          throw new ZipError(`Corrupt zip entry ${name}`);
+        }
+        const dataStart =
+          localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const data = buffer.subarray(dataStart, dataStart + compressedSize);
+        return method === 0 ? data : inflateEntry(name, data);
+      },
+    };
+  }
+}
+
+/**
+ * Read the named entries of a zip archive. Names not in the archive are
+ * missing from the result.
+ */
+export function readZipEntries(buffer: Buffer, wanted: (name: string) => boolean): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let total = 0;
+  for (const entry of zipEntries(buffer)) {
+    if (!wanted(entry.name)) continue;
+    const data = entry.read();
+    total += data.length;
+    if (total > MAX_TOTAL_SIZE) {
+      throw new ZipError(`Zip archive is larger than ${MAX_TOTAL_SIZE} bytes uncompressed`);
+    }
+    entries.set(entry.name, data);
+  }
+  return entries;
+}
+
+/**
+ * Check that every entry of a zip archive decompresses within the size
+ * limits, before handing it to a library that inflates it unbounded.
+ */
+export function checkZipSize(buffer: Buffer): void {
+  let total = 0;
+  for (const entry of zipEntries(buffer)) {
+    total += entry.read().length;
+    if (total > MAX_TOTAL_SIZE) {
+      throw new ZipError(`Zip archive is larger than ${MAX_TOTAL_SIZE} bytes uncompressed`);
+    }
+  }
+}
@@ -141,6 +141,19 @@ export const loggers = {
       });
     },
 
+    documentAccessDenied: (userId: string, documentId: string, action: string, reason: string, ip?: string) => {
+      logger.warn('Security: Document access denied', {
+        type: 'security',
+        event: 'document_access_denied',
+        userId,
+        documentId,
+        action,
+        reason,
+        ip,
+        timestamp: new Date().toISOString(),
+      });
+    },
+
     configurationIssue: (issue: string, details: Record<string, any>) => {
       logger.error('Security: Configuration issue', {
         type: 'security',
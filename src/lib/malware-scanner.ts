@@ -273,9 +273,9 @@ function scanFileMetadata(fileName: string, fileSize: number): MalwareThreat[] {
   return threats;
 }
 
-// Main malware scanning function
+// Main malware scanning function, on a stored file or its contents
 export async function scanFileForMalware(
-  filePath: string,
+  file: string | Buffer,
   fileName: string,
   mimeType: string
 ): Promise<MalwareScanResult> {
@@ -285,7 +285,7 @@ export async function scanFileForMalware(
 
   try {
     // Read file
-    const buffer = await fs.readFile(filePath);
+    const buffer = typeof file === 'string' ? await fs.readFile(file) : file;
     const fileHash = crypto.createHash('sha256').update(buffer).digest('hex');
 
     // 1. Scan for known signatures
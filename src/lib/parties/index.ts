@@ -0,0 +1,14 @@
+export {
+  PARTY_ORDER,
+  PartyError,
+  assertPartySharesFit,
+  canEditCaseParties,
+  canViewCaseParties,
+  casePartiesCreateData,
+  findCaseParties,
+  formatPartyList,
+  partyMatchConditions,
+  primaryParty,
+  replaceCaseParties,
+  updatePartyPayment,
+} from './parties';
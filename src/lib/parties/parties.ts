@@ -0,0 +1,348 @@
+import { prisma } from '@/lib/prisma';
+import { PartyPaymentStatus, PartyRole, Prisma } from '@/prisma/client';
+import type { CaseParty } from '@/prisma/client';
+import type { CasePartyInput, UpdatePartyPaymentInput } from '@/lib/validations/case-party';
+
+export class PartyError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'PartyError';
+  }
+}
+
+export const PARTY_ORDER = [
+  { isPrimary: 'desc' },
+  { sequence: 'asc' },
+  { createdAt: 'asc' },
+] satisfies Prisma.CasePartyOrderByWithRelationInput[];
+
+const ROLE_LABELS: Record<PartyRole, string> = {
+  OWNER: 'Propietario',
+  CO_OWNER: 'Copropietario',
+  HEIR: 'Sucesor',
+  USUFRUCTUARY: 'Usufructuario',
+  MORTGAGE_HOLDER: 'Acreedor hipotecario',
+  TENANT: 'Arrendatario',
+  OTHER: 'Otro titular',
+};
+
+// Roles that hold title over the parcel and can stand as the case owner
+const TITLE_ROLES: PartyRole[] = [PartyRole.OWNER, PartyRole.CO_OWNER, PartyRole.HEIR];
+
+// Shares are money, compare them to the cent
+const AMOUNT_TOLERANCE = 0.01;
+
+interface PartyActor {
+  id: string;
+  role: string;
+  departmentId: string;
+}
+
+interface PartyCase {
+  departmentId: string;
+  createdById: string;
+  assignedToId: string | null;
+  supervisedById: string | null;
+}
+
+// Parties are visible to whoever can see the case
+export function canViewCaseParties(actor: PartyActor, caseRecord: PartyCase): boolean {
+  return actor.role === 'super_admin' ||
+    caseRecord.departmentId === actor.departmentId ||
+    caseRecord.createdById === actor.id ||
+    caseRecord.assignedToId === actor.id ||
+    caseRecord.supervisedById === actor.id;
+}
+
+// Same rule as editing the case itself
+export function canEditCaseParties(actor: PartyActor, caseRecord: PartyCase): boolean {
+  return actor.role === 'super_admin' ||
+    (actor.role === 'department_admin' && caseRecord.departmentId === actor.departmentId) ||
+    (actor.role === 'supervisor' && caseRecord.supervisedById === actor.id) ||
+    (actor.role === 'analyst' && caseRecord.assignedToId === actor.id) ||
+    caseRecord.createdById === actor.id;
+}
+
+/**
+ * The party the case owner fields mirror: the one flagged as primary, else
+ * the first title holder, else the first party.
+ */
+export function primaryParty<T extends { role: PartyRole; isPrimary?: boolean | undefined }>(
+  parties: T[]
+): T | undefined {
+  return parties.find(party => party.isPrimary) ??
+    parties.find(party => TITLE_ROLES.includes(party.role)) ??
+    parties[0];
+}
+
+/**
+ * Conditions matching a case by its owner fields or by any of its parties.
+ * Meant to be placed in an OR.
+ */
+export function partyMatchConditions(term: string): Prisma.CaseWhereInput[] {
+  return [
+    { ownerName: { contains: term } },
+    { ownerIdentification: { contains: term } },
+    {
+      parties: {
+        some: {
+          OR: [
+            { name: { contains: term } },
+            { identification: { contains: term } },
+          ],
+        },
+      },
+    },
+  ];
+}
+
+// One line per case for exports: "Juan Pérez (Propietario, 50%); ..."
+export function formatPartyList(
+  parties: Array<Pick<CaseParty, 'name' | 'role' | 'ownershipPercentage'>>
+): string {
+  return parties
+    .map(party => {
+      const details = [ROLE_LABELS[party.role]];
+      if (party.ownershipPercentage !== null) {
+        details.push(`${party.ownershipPercentage}%`);
+      }
+      return `${party.name} (${details.join(', ')})`;
+    })
+    .join('; ');
+}
+
+export async function findCaseParties(caseId: string) {
+  return prisma.caseParty.findMany({
+    where: { caseId },
+    orderBy: PARTY_ORDER,
+  });
+}
+
+function assertSharesWithinCompensation(total: number, compensationAmount: number | null) {
+  if (compensationAmount !== null && total > compensationAmount + AMOUNT_TOLERANCE) {
+    throw new PartyError('Compensation shares exceed the case compensation amount');
+  }
+}
+
+// The compensation shares of the parties cannot add up to more than the case compensation
+export function assertPartySharesFit(
+  parties: Array<Pick<CasePartyInput, 'compensationShare'>>,
+  compensationAmount: number | null
+) {
+  assertSharesWithinCompensation(
+    parties.reduce((sum, party) => sum + (party.compensationShare ?? 0), 0),
+    compensationAmount
+  );
+}
+
+function paidAtFor(status: PartyPaymentStatus, requested: Date | null | undefined, current: Date | null) {
+  if (status !== PartyPaymentStatus.PAID) return null;
+  return requested ?? current ?? new Date();
+}
+
+function partyData(
+  input: CasePartyInput,
+  { sequence, isPrimary, current }: { sequence: number; isPrimary: boolean; current?: CaseParty | undefined }
+) {
+  const paymentStatus = input.paymentStatus ?? current?.paymentStatus ?? PartyPaymentStatus.PENDING;
+  return {
+    role: input.role,
+    name: input.name.trim(),
+    personType: input.personType || null,
+    identificationType: input.identificationType || null,
+    identification: input.identification || null,
+    contact: input.contact || null,
+    email: input.email || null,
+    address: input.address || null,
+    ownershipPercentage: input.ownershipPercentage ?? null,
+    compensationShare: input.compensationShare ?? null,
+    paymentStatus,
+    paidAt: paidAtFor(paymentStatus, input.paidAt, current?.paidAt ?? null),
+    isPrimary,
+    sequence,
+    notes: input.notes ?? null,
+  };
+}
+
+// Case owner fields as mirrored from the primary party
+function ownerFieldsFromParty(party: CasePartyInput) {
+  return {
+    ownerName: party.name.trim(),
+    ownerType: party.personType || null,
+    ownerIdentification: party.identification || null,
+    ownerContact: party.contact || null,
+    ownerEmail: party.email || null,
+    ownerAddress: party.address || null,
+  };
+}
+
+type CaseOwnerFields = Pick<
+  Prisma.CaseUncheckedCreateInput,
+  'ownerName' | 'ownerType' | 'ownerIdentification' | 'ownerContact' | 'ownerEmail' | 'ownerAddress'
+>;
+
+/**
+ * Owner fields and nested party create for a new case. When no parties are
+ * given the case owner becomes its only party; otherwise the owner fields are
+ * taken from the primary party.
+ */
+export function casePartiesCreateData(
+  inputs: CasePartyInput[] | undefined,
+  caseData: CaseOwnerFields & { compensationAmount?: number | null | undefined }
+): CaseOwnerFields & Pick<Prisma.CaseUncheckedCreateInput, 'parties'> {
+  const parties: CasePartyInput[] = inputs?.length
+    ? inputs
+    : [{
+        role: PartyRole.OWNER,
+        name: caseData.ownerName,
+        personType: caseData.ownerType ?? null,
+        identification: caseData.ownerIdentification ?? null,
+        contact: caseData.ownerContact ?? null,
+        email: caseData.ownerEmail ?? null,
+        address: caseData.ownerAddress ?? null,
+      }];
+
+  assertPartySharesFit(parties, caseData.compensationAmount ?? null);
+
+  const primary = primaryParty(parties) ?? parties[0]!;
+  return {
+    ...ownerFieldsFromParty(primary),
+    parties: {
+      create: parties.map((input, sequence) => partyData(input, { sequence, isPrimary: input === primary })),
+    },
+  };
+}
+
+function partySummary(parties: Array<Pick<CaseParty, 'name' | 'role' | 'ownershipPercentage' | 'compensationShare' | 'paymentStatus'>>) {
+  return JSON.stringify(parties.map(party => ({
+    name: party.name,
+    role: party.role,
+    ownershipPercentage: party.ownershipPercentage,
+    compensationShare: party.compensationShare,
+    paymentStatus: party.paymentStatus,
+  })));
+}
+
+/**
+ * Replaces the parties of a case with the given list: parties with an id are
+ * updated, the rest created, and those left out deleted. The case owner
+ * fields are then copied from the primary party so listings, documents and
+ * templates that only know one owner keep working.
+ */
+export async function replaceCaseParties(caseId: string, inputs: CasePartyInput[], userId: string) {
+  const caseRecord = await prisma.case.findUnique({
+    where: { id: caseId, deletedAt: null },
+    select: {
+      id: true,
+      compensationAmount: true,
+      parties: { orderBy: PARTY_ORDER },
+    },
+  });
+  if (!caseRecord) {
+    throw new PartyError('Case not found', 404);
+  }
+
+  const existing = new Map(caseRecord.parties.map(party => [party.id, party]));
+  for (const input of inputs) {
+    if (input.id && !existing.has(input.id)) {
+      throw new PartyError('Party does not belong to this case');
+    }
+  }
+
+  assertPartySharesFit(inputs, caseRecord.compensationAmount);
+
+  const primary = primaryParty(inputs);
+  const rows = inputs.map((input, sequence) => ({
+    id: input.id,
+    data: partyData(input, {
+      sequence,
+      isPrimary: input === primary,
+      current: input.id ? existing.get(input.id) : undefined,
+    }),
+  }));
+  const keptIds = rows.flatMap(row => (row.id ? [row.id] : []));
+
+  await prisma.$transaction(async tx => {
+    await tx.caseParty.deleteMany({ where: { caseId, id: { notIn: keptIds } } });
+
+    for (const row of rows) {
+      if (row.id) {
+        await tx.caseParty.update({ where: { id: row.id }, data: row.data });
+      } else {
+        await tx.caseParty.create({ data: { ...row.data, caseId } });
+      }
+    }
+
+    if (primary) {
+      await tx.case.update({ where: { id: caseId }, data: ownerFieldsFromParty(primary) });
+    }
+
+    await tx.caseHistory.create({
+      data: {
+        caseId,
+        changedById: userId,
+        action: 'parties_updated',
+        field: 'parties',
+        previousValue: partySummary(caseRecord.parties),
+        newValue: partySummary(rows.map(row => row.data)),
+        notes: `Partes del caso actualizadas (${rows.length})`,
+      },
+    });
+  });
+
+  return findCaseParties(caseId);
+}
+
+// Records the compensation payment of a single party
+export async function updatePartyPayment(
+  caseId: string,
+  partyId: string,
+  input: UpdatePartyPaymentInput,
+  userId: string
+) {
+  const party = await prisma.caseParty.findFirst({
+    where: { id: partyId, caseId, case: { deletedAt: null } },
+    include: { case: { select: { compensationAmount: true } } },
+  });
+  if (!party) {
+    throw new PartyError('Party not found', 404);
+  }
+
+  if (input.compensationShare !== undefined) {
+    const others = await prisma.caseParty.aggregate({
+      where: { caseId, id: { not: partyId } },
+      _sum: { compensationShare: true },
+    });
+    assertSharesWithinCompensation(
+      (others._sum.compensationShare ?? 0) + (input.compensationShare ?? 0),
+      party.case.compensationAmount
+    );
+  }
+
+  const updated = await prisma.caseParty.update({
+    where: { id: partyId },
+    data: {
+      paymentStatus: input.paymentStatus,
+      paidAt: paidAtFor(input.paymentStatus, input.paidAt, party.paidAt),
+      ...(input.compensationShare !== undefined && { compensationShare: input.compensationShare }),
+      ...(input.notes !== undefined && { notes: input.notes }),
+    },
+  });
+
+  await prisma.caseHistory.create({
+    data: {
+      caseId,
+      changedById: userId,
+      action: 'party_payment_updated',
+      field: 'paymentStatus',
+      previousValue: JSON.stringify({ partyId, paymentStatus: party.paymentStatus }),
+      newValue: JSON.stringify({ partyId, paymentStatus: updated.paymentStatus }),
+      notes: `Pago de ${party.name}: ${party.paymentStatus} → ${updated.paymentStatus}`,
+    },
+  });
+
+  return updated;
+}
@@ -0,0 +1,17 @@
+export {
+  PAYMENT_INCLUDE,
+  PaymentError,
+  applyPaymentAction,
+  canManageCasePayments,
+  canViewCasePayments,
+  createPayment,
+  findCasePayments,
+  paidAmount,
+} from './payments';
+export {
+  finalStagePaymentBlock,
+  reconcileCasePayments,
+  reconcilePayments,
+  type PartyReconciliation,
+  type PaymentReconciliation,
+} from './reconciliation';
@@ -0,0 +1,322 @@
+import { prisma } from '@/lib/prisma';
+import { PartyPaymentStatus, PaymentStatus, Prisma } from '@/prisma/client';
+import type { CasePayment } from '@/prisma/client';
+import type { CreatePaymentInput, PaymentActionInput } from '@/lib/validations/payment';
+
+export class PaymentError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+export const PAYMENT_INCLUDE = {
+  party: { select: { id: true, name: true, role: true } },
+  receiptDocument: { select: { id: true, title: true, fileName: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.CasePaymentInclude;
+
+// Amounts are money, compare them to the cent
+export const AMOUNT_TOLERANCE = 0.01;
+
+export const IN_PROGRESS_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.COMMITTED,
+  PaymentStatus.ORDERED,
+  PaymentStatus.ISSUED,
+];
+
+type PaymentStep = Exclude<PaymentActionInput['action'], 'cancel'>;
+
+// Each step moves a payment from one status to the next
+const STEPS: Record<PaymentStep, { from: PaymentStatus; to: PaymentStatus }> = {
+  order: { from: PaymentStatus.COMMITTED, to: PaymentStatus.ORDERED },
+  issue: { from: PaymentStatus.ORDERED, to: PaymentStatus.ISSUED },
+  deliver: { from: PaymentStatus.ISSUED, to: PaymentStatus.DELIVERED },
+};
+
+const HISTORY_ACTIONS: Record<PaymentActionInput['action'], string> = {
+  order: 'payment_ordered',
+  issue: 'payment_issued',
+  deliver: 'payment_delivered',
+  cancel: 'payment_cancelled',
+};
+
+interface PaymentActor {
+  id: string;
+  role: string;
+  departmentId: string;
+}
+
+interface PaymentCase {
+  departmentId: string;
+  createdById: string;
+  assignedToId: string | null;
+  supervisedById: string | null;
+}
+
+// Payments are visible to whoever can see the case
+export function canViewCasePayments(actor: PaymentActor, caseRecord: PaymentCase): boolean {
+  return actor.role === 'super_admin' ||
+    caseRecord.departmentId === actor.departmentId ||
+    caseRecord.createdById === actor.id ||
+    caseRecord.assignedToId === actor.id ||
+    caseRecord.supervisedById === actor.id;
+}
+
+/**
+ * Payments are recorded by department admins, the case supervisor and the
+ * assigned analyst.
+ */
+export function canManageCasePayments(actor: PaymentActor, caseRecord: PaymentCase): boolean {
+  return actor.role === 'super_admin' ||
+    (actor.role === 'department_admin' && caseRecord.departmentId === actor.departmentId) ||
+    (actor.role === 'supervisor' && caseRecord.supervisedById === actor.id) ||
+    (actor.role === 'analyst' && caseRecord.assignedToId === actor.id);
+}
+
+// What a payment pays out: the cheque amount once issued, else the committed amount
+export function paidAmount(payment: Pick<CasePayment, 'amount' | 'chequeAmount'>): number {
+  return payment.chequeAmount ?? payment.amount;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export async function findCasePayments(caseId: string) {
+  return prisma.casePayment.findMany({
+    where: { caseId },
+    include: PAYMENT_INCLUDE,
+    orderBy: { committedAt: 'asc' },
+  });
+}
+
+/**
+ * Derive the payment status of a party from its payments. A withheld party
+ * keeps its status until someone releases it.
+ */
+async function syncPartyPaymentStatus(tx: Prisma.TransactionClient, partyId: string) {
+  const party = await tx.caseParty.findUnique({
+    where: { id: partyId },
+    include: { payments: { where: { status: { not: PaymentStatus.CANCELLED } } } },
+  });
+  if (!party || party.paymentStatus === PartyPaymentStatus.WITHHELD) return;
+
+  const delivered = party.payments.filter(payment => payment.status === PaymentStatus.DELIVERED);
+  const paid = sum(delivered.map(paidAmount));
+  const fullyPaid = delivered.length > 0 &&
+    (party.compensationShare === null || paid >= party.compensationShare - AMOUNT_TOLERANCE);
+
+  let paymentStatus: PartyPaymentStatus = PartyPaymentStatus.PENDING;
+  if (fullyPaid) {
+    paymentStatus = PartyPaymentStatus.PAID;
+  } else if (party.payments.some(payment => IN_PROGRESS_PAYMENT_STATUSES.includes(payment.status))) {
+    paymentStatus = PartyPaymentStatus.SCHEDULED;
+  }
+
+  const lastDelivery = delivered
+    .map(payment => payment.deliveredAt)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  await tx.caseParty.update({
+    where: { id: partyId },
+    data: {
+      paymentStatus,
+      paidAt: paymentStatus === PartyPaymentStatus.PAID ? (lastDelivery ?? new Date()) : null,
+    },
+  });
+}
+
+/**
+ * Open a payment with its budget commitment (preventivo). Committed payments
+ * cannot exceed the case compensation, nor the share of the party they pay.
+ */
+export async function createPayment(caseId: string, input: CreatePaymentInput, userId: string) {
+  const caseRecord = await prisma.case.findUnique({
+    where: { id: caseId, deletedAt: null },
+    select: {
+      currency: true,
+      compensationAmount: true,
+      parties: { select: { id: true, name: true, compensationShare: true } },
+      payments: {
+        where: { status: { not: PaymentStatus.CANCELLED } },
+        select: { partyId: true, amount: true },
+      },
+    },
+  });
+  if (!caseRecord) {
+    throw new PaymentError('Case not found', 404);
+  }
+  if (caseRecord.compensationAmount === null) {
+    throw new PaymentError('The case has no compensation amount to pay', 409);
+  }
+
+  const party = input.partyId ? caseRecord.parties.find(p => p.id === input.partyId) : undefined;
+  if (input.partyId && !party) {
+    throw new PaymentError('Party does not belong to this case');
+  }
+
+  const committed = sum(caseRecord.payments.map(payment => payment.amount)) + input.amount;
+  if (committed > caseRecord.compensationAmount + AMOUNT_TOLERANCE) {
+    throw new PaymentError('Payments would exceed the case compensation amount');
+  }
+
+  if (party && party.compensationShare !== null) {
+    const partyCommitted = sum(
+      caseRecord.payments.filter(payment => payment.partyId === party.id).map(payment => payment.amount)
+    ) + input.amount;
+    if (partyCommitted > party.compensationShare + AMOUNT_TOLERANCE) {
+      throw new PaymentError(`Payments would exceed the compensation share of ${party.name}`);
+    }
+  }
+
+  return prisma.$transaction(async tx => {
+    const payment = await tx.casePayment.create({
+      data: {
+        caseId,
+        partyId: party?.id ?? null,
+        amount: input.amount,
+        currency: input.currency ?? caseRecord.currency,
+        commitmentNumber: input.commitmentNumber ?? null,
+        committedAt: input.committedAt ?? new Date(),
+        notes: input.notes ?? null,
+        createdById: userId,
+      },
+      include: PAYMENT_INCLUDE,
+    });
+
+    if (payment.partyId) {
+      await syncPartyPaymentStatus(tx, payment.partyId);
+    }
+
+    await tx.caseHistory.create({
+      data: {
+        caseId,
+        changedById: userId,
+        action: 'payment_committed',
+        field: 'payments',
+        newValue: JSON.stringify({
+          paymentId: payment.id,
+          amount: payment.amount,
+          commitmentNumber: payment.commitmentNumber,
+          party: party?.name ?? null,
+        }),
+        notes: `Pago comprometido por ${payment.amount} ${payment.currency}${party ? ` a ${party.name}` : ''}`,
+      },
+    });
+
+    return payment;
+  });
+}
+
+function assertStatus(payment: Pick<CasePayment, 'status'>, step: PaymentStep) {
+  const { from } = STEPS[step];
+  if (payment.status !== from) {
+    throw new PaymentError(`Only ${from.toLowerCase()} payments can be moved to ${STEPS[step].to.toLowerCase()}`, 409);
+  }
+}
+
+/**
+ * Move a payment through its lifecycle: libramiento, Tesorería cheque and
+ * delivery against the signed receipt, or cancel it before delivery.
+ */
+export async function applyPaymentAction(
+  caseId: string,
+  paymentId: string,
+  input: PaymentActionInput,
+  userId: string
+) {
+  const payment = await prisma.casePayment.findFirst({
+    where: { id: paymentId, caseId, case: { deletedAt: null } },
+  });
+  if (!payment) {
+    throw new PaymentError('Payment not found', 404);
+  }
+
+  let data: Prisma.CasePaymentUncheckedUpdateInput;
+  switch (input.action) {
+    case 'order':
+      assertStatus(payment, 'order');
+      data = {
+        status: PaymentStatus.ORDERED,
+        libramientoNumber: input.libramientoNumber.trim(),
+        libramientoDate: input.libramientoDate ?? new Date(),
+      };
+      break;
+    case 'issue':
+      assertStatus(payment, 'issue');
+      if (input.chequeAmount > payment.amount + AMOUNT_TOLERANCE) {
+        throw new PaymentError('The cheque amount exceeds the committed amount');
+      }
+      data = {
+        status: PaymentStatus.ISSUED,
+        chequeNumber: input.chequeNumber.trim(),
+        chequeAmount: input.chequeAmount,
+        chequeDate: input.chequeDate ?? new Date(),
+      };
+      break;
+    case 'deliver': {
+      assertStatus(payment, 'deliver');
+      const receipt = await prisma.document.findFirst({
+        where: { id: input.receiptDocumentId, caseId },
+        select: { id: true },
+      });
+      if (!receipt) {
+        throw new PaymentError('The signed receipt must be a document of this case');
+      }
+      data = {
+        status: PaymentStatus.DELIVERED,
+        receiptDocumentId: receipt.id,
+        receivedBy: input.receivedBy.trim(),
+        deliveredAt: input.deliveredAt ?? new Date(),
+      };
+      break;
+    }
+    case 'cancel':
+      if (payment.status === PaymentStatus.DELIVERED || payment.status === PaymentStatus.CANCELLED) {
+        throw new PaymentError(`Cannot cancel a ${payment.status.toLowerCase()} payment`, 409);
+      }
+      data = {
+        status: PaymentStatus.CANCELLED,
+        cancelledAt: new Date(),
+        cancellationReason: input.reason,
+      };
+      break;
+  }
+
+  return prisma.$transaction(async tx => {
+    const updated = await tx.casePayment.update({
+      where: { id: paymentId },
+      data,
+      include: PAYMENT_INCLUDE,
+    });
+
+    if (updated.partyId) {
+      await syncPartyPaymentStatus(tx, updated.partyId);
+    }
+
+    await tx.caseHistory.create({
+      data: {
+        caseId,
+        changedById: userId,
+        action: HISTORY_ACTIONS[input.action],
+        field: 'payments',
+        previousValue: JSON.stringify({ paymentId, status: payment.status }),
+        newValue: JSON.stringify({
+          paymentId,
+          status: updated.status,
+          libramientoNumber: updated.libramientoNumber,
+          chequeNumber: updated.chequeNumber,
+          chequeAmount: updated.chequeAmount,
+        }),
+        reason: input.action === 'cancel' ? input.reason : null,
+      },
+    });
+
+    return updated;
+  });
+}
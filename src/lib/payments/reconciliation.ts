@@ -0,0 +1,145 @@
+import { prisma } from '@/lib/prisma';
+import { CaseStage, PartyPaymentStatus, PaymentStatus } from '@/prisma/client';
+import type { CaseParty, CasePayment } from '@/prisma/client';
+import { PARTY_ORDER } from '@/lib/parties';
+import { AMOUNT_TOLERANCE, IN_PROGRESS_PAYMENT_STATUSES, PaymentError, paidAmount } from './payments';
+
+export interface PartyReconciliation {
+  partyId: string;
+  name: string;
+  compensationShare: number | null;
+  paid: number;
+  inProgress: number;
+  paymentStatus: PartyPaymentStatus;
+}
+
+export interface PaymentReconciliation {
+  currency: string;
+  compensationAmount: number | null;
+  // Payments not cancelled, at their committed amount
+  committed: number;
+  inProgress: number;
+  paid: number;
+  outstanding: number | null;
+  reconciled: boolean;
+  issues: string[];
+  parties: PartyReconciliation[];
+}
+
+type ReconciledPayment = Pick<CasePayment, 'partyId' | 'amount' | 'chequeAmount' | 'status' | 'receiptDocumentId'>;
+type ReconciledParty = Pick<CaseParty, 'id' | 'name' | 'compensationShare' | 'paymentStatus'>;
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compare what was paid with what is owed. Payments are reconciled when every
+ * payment was delivered against a signed receipt, the delivered cheques add
+ * up to the case compensation, and each party with a share got exactly it.
+ */
+export function reconcilePayments(
+  caseData: { compensationAmount: number | null; currency: string },
+  parties: ReconciledParty[],
+  payments: ReconciledPayment[]
+): PaymentReconciliation {
+  const active = payments.filter(payment => payment.status !== PaymentStatus.CANCELLED);
+  const delivered = active.filter(payment => payment.status === PaymentStatus.DELIVERED);
+  const pending = active.filter(payment => IN_PROGRESS_PAYMENT_STATUSES.includes(payment.status));
+
+  const paid = round(sum(delivered.map(paidAmount)));
+  const inProgress = round(sum(pending.map(payment => payment.amount)));
+  const { compensationAmount } = caseData;
+
+  const issues: string[] = [];
+  if (compensationAmount === null) {
+    issues.push('The case has no compensation amount');
+  } else if (Math.abs(paid - compensationAmount) > AMOUNT_TOLERANCE) {
+    issues.push(`Delivered payments (${paid}) do not match the compensation amount (${compensationAmount})`);
+  }
+  if (pending.length > 0) {
+    issues.push(`${pending.length} payment(s) not delivered yet`);
+  }
+  const withoutReceipt = delivered.filter(payment => !payment.receiptDocumentId).length;
+  if (withoutReceipt > 0) {
+    issues.push(`${withoutReceipt} delivered payment(s) without a signed receipt`);
+  }
+
+  const partySummaries = parties.map(party => {
+    const partyPayments = active.filter(payment => payment.partyId === party.id);
+    const partyPaid = round(sum(
+      partyPayments.filter(payment => payment.status === PaymentStatus.DELIVERED).map(paidAmount)
+    ));
+
+    if (party.compensationShare !== null && Math.abs(partyPaid - party.compensationShare) > AMOUNT_TOLERANCE) {
+      issues.push(`${party.name} was paid ${partyPaid} of a ${party.compensationShare} share`);
+    }
+    if (party.paymentStatus === PartyPaymentStatus.WITHHELD) {
+      issues.push(`Payment to ${party.name} is withheld`);
+    }
+
+    return {
+      partyId: party.id,
+      name: party.name,
+      compensationShare: party.compensationShare,
+      paid: partyPaid,
+      inProgress: round(sum(
+        partyPayments.filter(payment => IN_PROGRESS_PAYMENT_STATUSES.includes(payment.status)).map(p => p.amount)
+      )),
+      paymentStatus: party.paymentStatus,
+    };
+  });
+
+  return {
+    currency: caseData.currency,
+    compensationAmount,
+    committed: round(sum(active.map(payment => payment.amount))),
+    inProgress,
+    paid,
+    outstanding: compensationAmount === null ? null : round(Math.max(compensationAmount - paid, 0)),
+    reconciled: issues.length === 0,
+    issues,
+    parties: partySummaries,
+  };
+}
+
+export async function reconcileCasePayments(caseId: string): Promise<PaymentReconciliation> {
+  const caseRecord = await prisma.case.findUnique({
+    where: { id: caseId, deletedAt: null },
+    select: {
+      compensationAmount: true,
+      currency: true,
+      parties: {
+        select: { id: true, name: true, compensationShare: true, paymentStatus: true },
+        orderBy: PARTY_ORDER,
+      },
+      payments: {
+        select: { partyId: true, amount: true, chequeAmount: true, status: true, receiptDocumentId: true },
+      },
+    },
+  });
+  if (!caseRecord) {
+    throw new PaymentError('Case not found', 404);
+  }
+  return reconcilePayments(caseRecord, caseRecord.parties, caseRecord.payments);
+}
+
+/**
+ * A case completes when it reaches ENTREGA_CHEQUE, so moving there waits for
+ * its payments to be reconciled. Returns the reconciliation when it blocks
+ * the transition, null otherwise.
+ */
+export async function finalStagePaymentBlock(
+  caseId: string,
+  toStage: CaseStage
+): Promise<PaymentReconciliation | null> {
+  if (toStage !== CaseStage.ENTREGA_CHEQUE) {
+    return null;
+  }
+  const reconciliation = await reconcileCasePayments(caseId);
+  return reconciliation.reconciled ? null : reconciliation;
+}
@@ -0,0 +1,21 @@
+export {
+  IMAGE_PREVIEW_MIME_TYPES,
+  PDF_MIME_TYPE,
+  PREVIEW_SIZES,
+  PreviewError,
+  canRenderPreview,
+  isPreviewSize,
+  renderImage,
+  renderPdfPage,
+  type PreviewSize,
+  type RenderedPreview,
+} from './render';
+export {
+  generatePendingThumbnails,
+  generateThumbnail,
+  getDocumentPreview,
+  queueThumbnailGeneration,
+  removeCachedPreviews,
+  type DocumentPreview,
+  type ThumbnailRunSummary,
+} from './previews';
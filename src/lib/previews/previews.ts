@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import type { Document } from '@/prisma/client';
+import {
+  decryptBuffer,
+  encryptBuffer,
+  getDocumentFile,
+  readDocumentFile,
+  type StoredDocumentFile,
+} from '@/lib/document-encryption';
+import {
+  IMAGE_PREVIEW_MIME_TYPES,
+  PDF_MIME_TYPE,
+  PreviewError,
+  canRenderPreview,
+  renderImage,
+  renderPdfPage,
+  type PreviewSize,
+} from './render';
+
+// Rendered previews, relative to the working directory like document files
+const PREVIEW_DIR = path.join('uploads', 'thumbnails');
+const THUMBNAIL_SIZE: PreviewSize = 'small';
+const BATCH_SIZE = 25;
+
+type PreviewedDocument = Pick<Document, 'id' | 'mimeType' | 'version' | 'pageCount'>;
+
+export interface DocumentPreview {
+  image: Buffer;
+  pageCount: number | null;
+}
+
+export interface ThumbnailRunSummary {
+  processed: number;
+  generated: number;
+  failed: number;
+}
+
+// The version is part of the name so a new version never serves a stale page
+function previewFile(document: Pick<Document, 'id' | 'version'>, page: number, size: PreviewSize): string {
+  return path.join(PREVIEW_DIR, `${document.id}_v${document.version}_p${page}_${size}.jpg`);
+}
+
+async function render(document: PreviewedDocument, stored: StoredDocumentFile, page: number, size: PreviewSize) {
+  const data = await readDocumentFile(stored);
+  return document.mimeType === PDF_MIME_TYPE
+    ? renderPdfPage(data, page, size)
+    : renderImage(data, page, size);
+}
+
+/**
+ * Preview of one page of a document, rendered on first request and served
+ * from the local disk cache afterwards, whichever storage tier holds the
+ * document. Pages of encrypted documents are cached encrypted under the key
+ * of the document.
+ */
+export async function getDocumentPreview(
+  document: PreviewedDocument,
+  page: number,
+  size: PreviewSize
+): Promise<DocumentPreview> {
+  if (!canRenderPreview(document.mimeType)) {
+    throw new PreviewError('Preview not supported for this file type');
+  }
+  if (document.pageCount && page > document.pageCount) {
+    throw new PreviewError(`Page ${page} is out of range, the document has ${document.pageCount} pages`);
+  }
+
+  const stored = await getDocumentFile(document.id);
+  const file = path.resolve(process.cwd(), previewFile(document, page, size));
+  try {
+    const image = decryptBuffer(await fs.readFile(file), stored.encryptionKey, file);
+    return { image, pageCount: document.pageCount };
+  } catch {
+    // Not rendered yet
+  }
+
+  const { image, pageCount } = await render(document, stored, page, size);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Written aside and renamed, so concurrent requests never read half a file
+  const partial = `${file}.${randomUUID()}.partial`;
+  await fs.writeFile(partial, stored.encryptionKey ? encryptBuffer(image, stored.encryptionKey) : image);
+  await fs.rename(partial, file);
+
+  return { image, pageCount };
+}
+
+// Pages rendered before are dropped: they may be of an older version, or
+// cached in plaintext before the document was encrypted
+export async function removeCachedPreviews(documentId: string): Promise<void> {
+  const directory = path.resolve(process.cwd(), PREVIEW_DIR);
+  let files: string[];
+  try {
+    files = await fs.readdir(directory);
+  } catch {
+    return;
+  }
+  await Promise.all(
+    files
+      .filter(file => file.startsWith(`${documentId}_`))
+      .map(file => fs.rm(path.join(directory, file), { force: true }))
+  );
+}
+
+/**
+ * Render the thumbnail of a document (its first page) and record it with
+ * the page count. Like indexing, a document counts as processed even when
+ * its file could not be rendered, with no thumbnail, so the worker does not
+ * retry it on every pass.
+ */
+export async function generateThumbnail(documentId: string): Promise<string | null> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { id: true, mimeType: true, version: true },
+  });
+  if (!canRenderPreview(document.mimeType)) {
+    return null;
+  }
+
+  await removeCachedPreviews(document.id);
+
+  let thumbnailPath: string | null = null;
+  let pageCount: number | null = null;
+  try {
+    const preview = await getDocumentPreview({ ...document, pageCount: null }, 1, THUMBNAIL_SIZE);
+    thumbnailPath = previewFile(document, 1, THUMBNAIL_SIZE);
+    pageCount = preview.pageCount;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn(`Could not render a thumbnail for document ${documentId}: ${message}`);
+  }
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { thumbnailPath, pageCount, previewGenerated: true },
+  });
+
+  return thumbnailPath;
+}
+
+/**
+ * Generate the thumbnail in the background, right after an upload or a new
+ * version. Failures are only logged: the worker picks up what is left.
+ */
+export function queueThumbnailGeneration(documentId: string): void {
+  generateThumbnail(documentId).catch((error) => {
+    logger.error(`Thumbnail generation for document ${documentId} failed:`, error);
+  });
+}
+
+/**
+ * Generate thumbnails for renderable documents that have none yet, oldest
+ * first, up to `limit` of them.
+ */
+export async function generatePendingThumbnails(limit = BATCH_SIZE): Promise<ThumbnailRunSummary> {
+  const summary: ThumbnailRunSummary = { processed: 0, generated: 0, failed: 0 };
+  const documents = await prisma.document.findMany({
+    where: {
+      previewGenerated: false,
+      mimeType: { in: [PDF_MIME_TYPE, ...IMAGE_PREVIEW_MIME_TYPES] },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+    select: { id: true },
+  });
+
+  for (const { id } of documents) {
+    const thumbnailPath = await generateThumbnail(id);
+    summary.processed++;
+    if (thumbnailPath) summary.generated++;
+    else summary.failed++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,98 @@
+import path from 'path';
+import sharp from 'sharp';
+import { createCanvas } from '@napi-rs/canvas';
+
+/**
+ * Rasterization of documents into JPEG previews. PDF pages are drawn with
+ * pdf.js on a native canvas; images are resized with sharp. Every preview
+ * fits within the box of its size, keeping the aspect ratio.
+ */
+
+export const PREVIEW_SIZES = {
+  small: { width: 200, height: 200, quality: 70 },
+  medium: { width: 600, height: 600, quality: 80 },
+  large: { width: 1200, height: 1200, quality: 90 },
+} as const;
+
+export type PreviewSize = keyof typeof PREVIEW_SIZES;
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+export const IMAGE_PREVIEW_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/tiff',
+];
+
+export class PreviewError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'PreviewError';
+  }
+}
+
+export interface RenderedPreview {
+  image: Buffer;
+  pageCount: number;
+}
+
+// Fonts and character maps pdf.js loads for PDFs that do not embed them
+const PDFJS_ASSETS = path.join(process.cwd(), 'node_modules', 'pdfjs-dist');
+
+export function isPreviewSize(value: string): value is PreviewSize {
+  return value in PREVIEW_SIZES;
+}
+
+export function canRenderPreview(mimeType: string): boolean {
+  return mimeType === PDF_MIME_TYPE || IMAGE_PREVIEW_MIME_TYPES.includes(mimeType);
+}
+
+export async function renderPdfPage(data: Buffer, page: number, size: PreviewSize): Promise<RenderedPreview> {
+  // Loaded on demand: pdf.js is large and only the preview paths need it
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    standardFontDataUrl: path.join(PDFJS_ASSETS, 'standard_fonts') + path.sep,
+    cMapUrl: path.join(PDFJS_ASSETS, 'cmaps') + path.sep,
+    cMapPacked: true,
+    isEvalSupported: false,
+  }).promise;
+
+  try {
+    if (page < 1 || page > pdf.numPages) {
+      throw new PreviewError(`Page ${page} is out of range, the document has ${pdf.numPages} pages`);
+    }
+
+    const pdfPage = await pdf.getPage(page);
+    const { width, height, quality } = PREVIEW_SIZES[size];
+    const natural = pdfPage.getViewport({ scale: 1 });
+    const viewport = pdfPage.getViewport({ scale: Math.min(width / natural.width, height / natural.height) });
+
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    // pdf.js is typed against the DOM canvas; the native one implements all it
+    // draws with but not the DOM-only members, so the types cannot meet
+    await pdfPage.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+
+    return { image: await canvas.encode('jpeg', quality), pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export async function renderImage(data: Buffer, page: number, size: PreviewSize): Promise<RenderedPreview> {
+  if (page !== 1) {
+    throw new PreviewError('Images have a single page');
+  }
+  const { width, height, quality } = PREVIEW_SIZES[size];
+  const image = await sharp(data)
+    .resize(width, height, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality })
+    .toBuffer();
+  return { image, pageCount: 1 };
+}
@@ -3,7 +3,7 @@ import { PrismaMariaDb } from '@prisma/adapter-mariadb'
 import { logger } from './logger';
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined
+  prisma: ReturnType<typeof createPrismaClient> | undefined
 }
 
 function createPrismaClient() {
@@ -24,7 +24,12 @@ function createPrismaClient() {
 
   const client = new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-    adapter
+    adapter,
+    // Wrapped data keys of encrypted documents are only read where files are
+    // (document-encryption, storage and previews), and never sent to clients
+    omit: {
+      document: { encryptionKey: true },
+    },
   })
 
   // Enhanced connection health check (server-side only)
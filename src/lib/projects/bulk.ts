@@ -0,0 +1,278 @@
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { logActivity } from '@/lib/activity-logger';
+import { getNextStage } from '@/lib/stage-utils';
+import {
+  applyStageTransition,
+  checkStageTransitionPermission,
+  getCaseWithAssignments,
+  getStageConfigurations,
+  validateChecklistCompletion,
+  validateStageRules,
+  type StageTransitionData,
+  type UserWithRoleAndDepartment,
+} from '@/lib/services/stage-transition.service';
+import { notifyProjectCasesAssigned, notifyStageTransition } from '@/lib/services/notification.service';
+import { finalStagePaymentBlock } from '@/lib/payments';
+import type { CaseStage } from '@/prisma/client';
+import { ProjectError, findProject, projectCasesWhere } from './projects';
+
+export interface BulkCaseResult {
+  caseId: string;
+  fileNumber: string;
+  status: 'updated' | 'skipped' | 'failed';
+  reason?: string;
+  toStage?: CaseStage;
+}
+
+export interface BulkActionSummary {
+  action: 'assign' | 'advance';
+  projectId: string;
+  processed: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  results: BulkCaseResult[];
+}
+
+const ASSIGNEE_ROLES = ['super_admin', 'department_admin', 'analyst', 'supervisor'];
+const SUPERVISOR_ROLES = ['super_admin', 'department_admin', 'supervisor'];
+
+function summarize(action: BulkActionSummary['action'], projectId: string, results: BulkCaseResult[]): BulkActionSummary {
+  return {
+    action,
+    projectId,
+    processed: results.length,
+    updated: results.filter(r => r.status === 'updated').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    results,
+  };
+}
+
+/**
+ * Assign every open case of a project to one analyst, and optionally one
+ * supervisor. Cases outside the actor's department or the assignee's are
+ * skipped rather than failing the whole batch; the assignee gets a single
+ * email for the batch.
+ */
+export async function assignProjectCases(
+  projectId: string,
+  input: { assignedToId: string; supervisedById?: string | null | undefined; reason?: string | undefined },
+  actor: UserWithRoleAndDepartment
+): Promise<BulkActionSummary> {
+  const project = await findProject(projectId);
+
+  const [assignee, supervisor] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: input.assignedToId, deletedAt: null },
+      include: { role: true },
+    }),
+    input.supervisedById
+      ? prisma.user.findUnique({ where: { id: input.supervisedById, deletedAt: null }, include: { role: true } })
+      : null,
+  ]);
+  if (!assignee || !assignee.isActive) {
+    throw new ProjectError('Assigned user not found', 404);
+  }
+  if (!ASSIGNEE_ROLES.includes(assignee.role.name)) {
+    throw new ProjectError('Assigned user must have appropriate role');
+  }
+  if (input.supervisedById && (!supervisor || !supervisor.isActive)) {
+    throw new ProjectError('Supervisor not found', 404);
+  }
+  if (supervisor && !SUPERVISOR_ROLES.includes(supervisor.role.name)) {
+    throw new ProjectError('Supervisor must have admin or supervisor role');
+  }
+
+  const cases = await prisma.case.findMany({
+    where: projectCasesWhere(projectId, true),
+    select: {
+      id: true,
+      fileNumber: true,
+      departmentId: true,
+      assignedToId: true,
+      supervisedById: true,
+    },
+    orderBy: { fileNumber: 'asc' },
+  });
+
+  const results: BulkCaseResult[] = [];
+  for (const c of cases) {
+    const skip = (reason: string) => results.push({ caseId: c.id, fileNumber: c.fileNumber, status: 'skipped', reason });
+
+    if (actor.role.name !== 'super_admin' && c.departmentId !== actor.departmentId) {
+      skip('Case belongs to another department');
+      continue;
+    }
+    if (assignee.departmentId !== c.departmentId || (supervisor && supervisor.departmentId !== c.departmentId)) {
+      skip('Assigned user must belong to the same department');
+      continue;
+    }
+    const supervisedById = input.supervisedById === undefined ? c.supervisedById : input.supervisedById;
+    if (c.assignedToId === assignee.id && c.supervisedById === supervisedById) {
+      skip('No changes to assignment');
+      continue;
+    }
+
+    try {
+      await prisma.case.update({
+        where: { id: c.id },
+        data: { assignedToId: assignee.id, supervisedById },
+      });
+
+      const previousAssignment = { assignedToId: c.assignedToId, supervisedById: c.supervisedById };
+      const newAssignment = { assignedToId: assignee.id, supervisedById };
+      await logActivity({
+        userId: actor.id,
+        action: 'ASSIGNMENT_CHANGED',
+        entityType: 'case',
+        entityId: c.id,
+        description: `Updated assignment for case ${c.fileNumber} (project ${project.code})`,
+        metadata: {
+          fileNumber: c.fileNumber,
+          projectId,
+          previousAssignment,
+          newAssignment,
+          reason: input.reason ?? null,
+        },
+      });
+      await prisma.caseHistory.create({
+        data: {
+          caseId: c.id,
+          changedById: actor.id,
+          action: 'assignment_change',
+          previousValue: JSON.stringify(previousAssignment),
+          newValue: JSON.stringify(newAssignment),
+          reason: input.reason ?? null,
+          notes: input.reason || `Asignación masiva del proyecto ${project.name}`,
+        },
+      });
+
+      results.push({ caseId: c.id, fileNumber: c.fileNumber, status: 'updated' });
+    } catch (error) {
+      logger.error(`Error assigning case ${c.id} of project ${projectId}:`, error);
+      results.push({ caseId: c.id, fileNumber: c.fileNumber, status: 'failed', reason: 'Failed to update assignment' });
+    }
+  }
+
+  const assigned = results.filter(r => r.status === 'updated').map(r => r.caseId);
+  if (assigned.length > 0) {
+    await notifyProjectCasesAssigned({
+      projectId,
+      caseIds: assigned,
+      assignedToId: assignee.id,
+      supervisedById: input.supervisedById ?? null,
+      actorId: actor.id,
+      reason: input.reason ?? null,
+    });
+  }
+
+  return summarize('assign', projectId, results);
+}
+
+/**
+ * Move every open case of a project to its next workflow stage. Each case
+ * goes through the same checks as a single progression: stage permission
+ * (delegations included), required checklist items, reconciled payments
+ * before the final stage and blocking validation rules. Cases that fail a
+ * check are skipped; overriding rules is only possible case by case.
+ */
+export async function advanceProjectCases(
+  projectId: string,
+  input: { reason?: string | undefined; observations?: string | undefined },
+  user: UserWithRoleAndDepartment,
+  request: NextRequest
+): Promise<BulkActionSummary> {
+  await findProject(projectId);
+
+  const cases = await prisma.case.findMany({
+    where: projectCasesWhere(projectId, true),
+    select: { id: true, fileNumber: true },
+    orderBy: { fileNumber: 'asc' },
+  });
+
+  const results: BulkCaseResult[] = [];
+  for (const { id: caseId, fileNumber } of cases) {
+    const skip = (reason: string) => results.push({ caseId, fileNumber, status: 'skipped', reason });
+
+    try {
+      const caseData = await getCaseWithAssignments(caseId);
+      if (!caseData) {
+        skip('Case not found');
+        continue;
+      }
+
+      const toStage = getNextStage(caseData.currentStage);
+      if (!toStage) {
+        skip('Case has no next stage');
+        continue;
+      }
+
+      const permission = await checkStageTransitionPermission(user, caseData);
+      if (!permission.allowed) {
+        skip('Forbidden');
+        continue;
+      }
+
+      const { fromStageConfig, toStageConfig } = await getStageConfigurations(caseData.currentStage, toStage);
+      if (!toStageConfig) {
+        skip('Target stage not found');
+        continue;
+      }
+
+      if (fromStageConfig) {
+        const checklist = await validateChecklistCompletion(caseId, caseData.currentStage);
+        if (!checklist.valid) {
+          skip('All required checklist items must be completed');
+          continue;
+        }
+      }
+
+      if (await finalStagePaymentBlock(caseId, toStage)) {
+        skip('Payments are not reconciled with the compensation amount');
+        continue;
+      }
+
+      const { blocking, warnings } = await validateStageRules(caseId, user.id);
+      if (blocking.length > 0) {
+        skip('Required validation rules are not satisfied');
+        continue;
+      }
+
+      const transitionData: StageTransitionData = { toStage };
+      if (input.reason !== undefined) transitionData.reason = input.reason;
+      if (input.observations !== undefined) transitionData.observations = input.observations;
+
+      await applyStageTransition({
+        caseData,
+        fromStageConfig,
+        toStageConfig,
+        progressionType: 'FORWARD',
+        transitionData,
+        userId: user.id,
+        request,
+        ruleValidation: { warnings },
+        delegation: permission.delegation,
+      });
+
+      await notifyStageTransition({
+        caseId,
+        fromStage: caseData.currentStage,
+        toStage,
+        isReturn: false,
+        actorId: user.id,
+        reason: input.reason,
+        observations: input.observations,
+      });
+
+      results.push({ caseId, fileNumber, status: 'updated', toStage });
+    } catch (error) {
+      logger.error(`Error advancing case ${caseId} of project ${projectId}:`, error);
+      results.push({ caseId, fileNumber, status: 'failed', reason: 'Failed to advance stage' });
+    }
+  }
+
+  return summarize('advance', projectId, results);
+}
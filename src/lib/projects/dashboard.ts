@@ -0,0 +1,186 @@
+import { prisma } from '@/lib/prisma';
+import { CaseStage, CaseStatus, PaymentStatus } from '@/prisma/client';
+import { paidAmount } from '@/lib/payments';
+import { SPECIAL_STAGES, STAGE_LABELS, STAGE_ORDER } from '@/constants/stages';
+import { findProject, projectCasesWhere } from './projects';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ProjectStageCount {
+  stage: CaseStage;
+  label: string;
+  count: number;
+}
+
+export interface ProjectCompensationSummary {
+  currency: string;
+  budget: number | null;
+  appraised: number;
+  compensation: number;
+  paid: number;
+  pending: number;
+  paidCases: number;
+  // Paid compensation as a share of the budget, when there is one
+  budgetUsedPercent: number | null;
+}
+
+export interface SlowParcel {
+  caseId: string;
+  fileNumber: string;
+  title: string;
+  propertyAddress: string;
+  ownerName: string;
+  currentStage: CaseStage;
+  stageLabel: string;
+  daysInStage: number;
+  daysOpen: number;
+  stageDueDate: Date | null;
+  overdue: boolean;
+  assignedTo: { id: string; name: string } | null;
+}
+
+export interface ProjectDashboard {
+  project: Awaited<ReturnType<typeof findProject>>;
+  totals: {
+    cases: number;
+    open: number;
+    completed: number;
+    cancelled: number;
+    suspended: number;
+    progressPercentage: number;
+  };
+  stageDistribution: ProjectStageCount[];
+  compensation: ProjectCompensationSummary;
+  slowestParcels: SlowParcel[];
+}
+
+function isCompleted(c: { currentStage: CaseStage }): boolean {
+  return c.currentStage === CaseStage.ENTREGA_CHEQUE;
+}
+
+// Cheques delivered for a case, at the amount actually paid
+function deliveredAmount(c: { payments: Array<{ amount: number; chequeAmount: number | null }> }): number {
+  return c.payments.reduce((total, payment) => total + paidAmount(payment), 0);
+}
+
+function isCancelled(c: { currentStage: CaseStage; status: CaseStatus }): boolean {
+  return c.currentStage === CaseStage.CANCELLED || c.status === CaseStatus.CANCELLED;
+}
+
+/**
+ * Roll up the cases of a project: how many parcels sit at each stage, the
+ * appraised, agreed and paid compensation, and the open parcels that have
+ * spent the longest at their current stage. Paid compensation is what the
+ * delivered cheques add up to; a parcel counts as paid once they cover its
+ * compensation.
+ */
+export async function buildProjectDashboard(
+  projectId: string,
+  options: { slowest?: number; now?: Date } = {}
+): Promise<ProjectDashboard> {
+  const now = options.now ?? new Date();
+  const project = await findProject(projectId);
+
+  const cases = await prisma.case.findMany({
+    where: projectCasesWhere(projectId),
+    select: {
+      id: true,
+      fileNumber: true,
+      title: true,
+      propertyAddress: true,
+      ownerName: true,
+      currentStage: true,
+      status: true,
+      startDate: true,
+      progressPercentage: true,
+      appraisalValue: true,
+      compensationAmount: true,
+      payments: {
+        where: { status: PaymentStatus.DELIVERED },
+        select: { amount: true, chequeAmount: true },
+      },
+      assignedTo: { select: { id: true, firstName: true, lastName: true } },
+      stageAssignments: {
+        where: { isActive: true },
+        select: { stage: true, assignedAt: true, dueDate: true },
+        orderBy: { assignedAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+
+  const counts = new Map<CaseStage, number>();
+  for (const c of cases) {
+    counts.set(c.currentStage, (counts.get(c.currentStage) ?? 0) + 1);
+  }
+  // Every workflow stage is listed so the chart keeps its shape; special stages only when used
+  const stageDistribution = [...STAGE_ORDER, ...SPECIAL_STAGES]
+    .filter(stage => STAGE_ORDER.includes(stage as (typeof STAGE_ORDER)[number]) || counts.has(stage))
+    .map(stage => ({ stage, label: STAGE_LABELS[stage], count: counts.get(stage) ?? 0 }));
+
+  const completedCases = cases.filter(isCompleted);
+  const paidCases = cases.filter(c =>
+    c.compensationAmount !== null && c.compensationAmount > 0 && deliveredAmount(c) >= c.compensationAmount - 0.01
+  );
+  const sum = (values: Array<number | null>) => values.reduce<number>((total, value) => total + (value ?? 0), 0);
+  const compensation = sum(cases.filter(c => !isCancelled(c)).map(c => c.compensationAmount));
+  const paid = Math.round(sum(cases.map(deliveredAmount)) * 100) / 100;
+
+  const openCases = cases.filter(c =>
+    !isCompleted(c) &&
+    !isCancelled(c) &&
+    c.status !== CaseStatus.COMPLETADO &&
+    c.status !== CaseStatus.ARCHIVED
+  );
+
+  const slowestParcels = openCases
+    .map(c => {
+      const assignment = c.stageAssignments[0];
+      const stageStart = assignment?.stage === c.currentStage ? assignment.assignedAt : c.startDate;
+      const stageDueDate = assignment?.stage === c.currentStage ? assignment.dueDate : null;
+      return {
+        caseId: c.id,
+        fileNumber: c.fileNumber,
+        title: c.title,
+        propertyAddress: c.propertyAddress,
+        ownerName: c.ownerName,
+        currentStage: c.currentStage,
+        stageLabel: STAGE_LABELS[c.currentStage],
+        daysInStage: Math.floor((now.getTime() - stageStart.getTime()) / DAY_MS),
+        daysOpen: Math.floor((now.getTime() - c.startDate.getTime()) / DAY_MS),
+        stageDueDate,
+        overdue: !!stageDueDate && stageDueDate < now,
+        assignedTo: c.assignedTo
+          ? { id: c.assignedTo.id, name: `${c.assignedTo.firstName} ${c.assignedTo.lastName}` }
+          : null,
+      };
+    })
+    .sort((a, b) => b.daysInStage - a.daysInStage || b.daysOpen - a.daysOpen)
+    .slice(0, options.slowest ?? 10);
+
+  return {
+    project,
+    totals: {
+      cases: cases.length,
+      open: openCases.length,
+      completed: completedCases.length,
+      cancelled: cases.filter(isCancelled).length,
+      suspended: cases.filter(c => c.currentStage === CaseStage.SUSPENDED).length,
+      progressPercentage: cases.length > 0
+        ? Math.round(sum(cases.map(c => c.progressPercentage)) / cases.length)
+        : 0,
+    },
+    stageDistribution,
+    compensation: {
+      currency: project.currency,
+      budget: project.budget,
+      appraised: sum(cases.map(c => c.appraisalValue)),
+      compensation,
+      paid,
+      pending: Math.max(compensation - paid, 0),
+      paidCases: paidCases.length,
+      budgetUsedPercent: project.budget ? Math.round((paid / project.budget) * 1000) / 10 : null,
+    },
+    slowestParcels,
+  };
+}
@@ -0,0 +1,26 @@
+export {
+  CLOSED_CASE_WHERE,
+  PROJECT_INCLUDE,
+  ProjectError,
+  attachCasesToProject,
+  canManageProject,
+  canManageProjects,
+  canViewProject,
+  createProject,
+  findProject,
+  projectCasesWhere,
+  updateProject,
+} from './projects';
+export {
+  buildProjectDashboard,
+  type ProjectCompensationSummary,
+  type ProjectDashboard,
+  type ProjectStageCount,
+  type SlowParcel,
+} from './dashboard';
+export {
+  advanceProjectCases,
+  assignProjectCases,
+  type BulkActionSummary,
+  type BulkCaseResult,
+} from './bulk';
@@ -0,0 +1,172 @@
+import { prisma } from '@/lib/prisma';
+import { CaseStage, CaseStatus, Prisma } from '@/prisma/client';
+import type { ProjectInput, UpdateProjectInput } from '@/lib/validations/project';
+
+export class ProjectError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+export const PROJECT_INCLUDE = {
+  department: { select: { id: true, name: true, code: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+  _count: { select: { cases: { where: { deletedAt: null } } } },
+} satisfies Prisma.ProjectInclude;
+
+/**
+ * Cases no bulk action applies to any more: the cheque was delivered, or the
+ * case was closed another way.
+ */
+export const CLOSED_CASE_WHERE: Prisma.CaseWhereInput = {
+  OR: [
+    { currentStage: { in: [CaseStage.ENTREGA_CHEQUE, CaseStage.CANCELLED] } },
+    { status: { in: [CaseStatus.COMPLETADO, CaseStatus.CANCELLED, CaseStatus.ARCHIVED] } },
+  ],
+};
+
+export function projectCasesWhere(projectId: string, openOnly = false): Prisma.CaseWhereInput {
+  return {
+    projectId,
+    deletedAt: null,
+    ...(openOnly && { NOT: CLOSED_CASE_WHERE }),
+  };
+}
+
+export function canManageProjects(role: string): boolean {
+  return role === 'super_admin' || role === 'department_admin';
+}
+
+/**
+ * Super admins manage every project; department admins those of their
+ * department.
+ */
+export function canManageProject(
+  actor: { role: string; departmentId: string },
+  project: { departmentId: string }
+): boolean {
+  return actor.role === 'super_admin' ||
+    (actor.role === 'department_admin' && actor.departmentId === project.departmentId);
+}
+
+// Projects are visible within their department, like their cases
+export function canViewProject(
+  actor: { role: string; departmentId: string },
+  project: { departmentId: string }
+): boolean {
+  return actor.role === 'super_admin' || actor.departmentId === project.departmentId;
+}
+
+export async function findProject(id: string) {
+  const project = await prisma.project.findUnique({
+    where: { id, deletedAt: null },
+    include: PROJECT_INCLUDE,
+  });
+  if (!project) {
+    throw new ProjectError('Project not found', 404);
+  }
+  return project;
+}
+
+function projectData(input: UpdateProjectInput): Prisma.ProjectUncheckedUpdateInput {
+  const data: Prisma.ProjectUncheckedUpdateInput = {};
+  if (input.code !== undefined) data.code = input.code.trim().toUpperCase();
+  if (input.name !== undefined) data.name = input.name;
+  if (input.description !== undefined) data.description = input.description;
+  if (input.status !== undefined) data.status = input.status;
+  if (input.decree !== undefined) data.decree = input.decree;
+  if (input.decreeDate !== undefined) data.decreeDate = input.decreeDate;
+  if (input.budget !== undefined) data.budget = input.budget;
+  if (input.currency !== undefined) data.currency = input.currency;
+  if (input.contractor !== undefined) data.contractor = input.contractor;
+  if (input.startDate !== undefined) data.startDate = input.startDate;
+  if (input.expectedEndDate !== undefined) data.expectedEndDate = input.expectedEndDate;
+  if (input.routeGeometry !== undefined) {
+    data.routeGeometry = input.routeGeometry === null ? Prisma.DbNull : input.routeGeometry;
+  }
+  if (input.departmentId !== undefined) data.departmentId = input.departmentId;
+  return data;
+}
+
+async function assertProjectConstraints(
+  input: UpdateProjectInput,
+  existing?: { id: string; startDate: Date | null; expectedEndDate: Date | null }
+): Promise<void> {
+  const startDate = input.startDate !== undefined ? input.startDate : existing?.startDate ?? null;
+  const expectedEndDate = input.expectedEndDate !== undefined ? input.expectedEndDate : existing?.expectedEndDate ?? null;
+  if (startDate && expectedEndDate && expectedEndDate < startDate) {
+    throw new ProjectError('expectedEndDate must not be before startDate');
+  }
+
+  if (input.code !== undefined) {
+    const duplicate = await prisma.project.findUnique({
+      where: { code: input.code.trim().toUpperCase() },
+      select: { id: true },
+    });
+    if (duplicate && duplicate.id !== existing?.id) {
+      throw new ProjectError('A project with this code already exists', 409);
+    }
+  }
+
+  if (input.departmentId !== undefined) {
+    const department = await prisma.department.findUnique({
+      where: { id: input.departmentId },
+      select: { id: true },
+    });
+    if (!department) {
+      throw new ProjectError('Department not found', 404);
+    }
+  }
+}
+
+export async function createProject(input: ProjectInput, createdById: string) {
+  await assertProjectConstraints(input);
+
+  return prisma.project.create({
+    data: {
+      ...(projectData(input) as Prisma.ProjectUncheckedCreateInput),
+      createdById,
+    },
+    include: PROJECT_INCLUDE,
+  });
+}
+
+export async function updateProject(id: string, input: UpdateProjectInput) {
+  const existing = await findProject(id);
+  await assertProjectConstraints(input, existing);
+
+  return prisma.project.update({
+    where: { id },
+    data: projectData(input),
+    include: PROJECT_INCLUDE,
+  });
+}
+
+/**
+ * Attach existing cases to a project. Cases already in another project move
+ * to this one; only cases of the project's department can be attached.
+ */
+export async function attachCasesToProject(projectId: string, caseIds: string[]) {
+  const project = await findProject(projectId);
+
+  const cases = await prisma.case.findMany({
+    where: { id: { in: caseIds }, deletedAt: null },
+    select: { id: true, departmentId: true },
+  });
+  if (cases.length !== new Set(caseIds).size) {
+    throw new ProjectError('Some cases were not found', 404);
+  }
+  if (cases.some(c => c.departmentId !== project.departmentId)) {
+    throw new ProjectError('Only cases of the project department can be attached', 422);
+  }
+
+  const { count } = await prisma.case.updateMany({
+    where: { id: { in: cases.map(c => c.id) } },
+    data: { projectId },
+  });
+  return { project, attached: count };
+}
@@ -76,6 +76,28 @@ setInterval(() => {
   }
 }, 5 * 60 * 1000); // Clean up every 5 minutes
 
+/**
+ * Address of the client as seen by the outermost trusted proxy. Each of the
+ * TRUSTED_PROXY_HOPS reverse proxies in front of the application (1 by
+ * default, nginx) appends the address it got the request from to
+ * X-Forwarded-For, so counting that many entries from the right gives an
+ * address the client cannot forge; entries further left are whatever the
+ * client sent. With no proxy there is no trustworthy header at all.
+ */
+export function getClientIp(request: NextRequest): string {
+  const configured = parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10);
+  const hops = Number.isInteger(configured) && configured >= 0 ? configured : 1;
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  if (hops === 0 || forwarded.length < hops) {
+    return 'unknown';
+  }
+  return forwarded[forwarded.length - hops]!;
+}
+
 /**
  * Get client identifier from request
  */
@@ -305,4 +327,42 @@ export function applySuspiciousActivityRestrictions(clientId: string): void {
     entry.requests = Math.floor(entry.requests * 1.75);
     entry.uploads = Math.floor(entry.uploads * 1.75);
   }
-}
\ No newline at end of file
+}
+
+export interface FixedWindowLimiter {
+  // Count a request for the key, returning whether it is within the limit
+  consume(key: string): boolean;
+}
+
+/**
+ * Fixed-window limiter for public endpoints, on a store of its own. Expired
+ * windows are dropped as new ones open and past `maxKeys` the oldest are
+ * evicted, so a flood of distinct keys cannot grow it without bound.
+ */
+export function createFixedWindowLimiter(options: {
+  maxRequests: number;
+  windowMs: number;
+  maxKeys?: number;
+}): FixedWindowLimiter {
+  const maxKeys = options.maxKeys ?? 10_000;
+  // Insertion order is the order windows opened in, oldest first
+  const windows = new Map<string, { count: number; resetTime: number }>();
+
+  return {
+    consume(key) {
+      const now = Date.now();
+      let entry = windows.get(key);
+      if (!entry || now > entry.resetTime) {
+        windows.delete(key);
+        entry = { count: 0, resetTime: now + options.windowMs };
+        windows.set(key, entry);
+        for (const [oldKey, old] of windows) {
+          if (windows.size <= maxKeys && now <= old.resetTime) break;
+          windows.delete(oldKey);
+        }
+      }
+      entry.count++;
+      return entry.count <= options.maxRequests;
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { CaseStage, CaseStatus, Priority } from '@/prisma/client';
+import { analyzeExpression } from '@/lib/rule-engine';
+import { validateSchedule } from './schedule';
+
+export const REMINDER_TYPES = [
+  'deadline',
+  'follow_up',
+  'escalation',
+  'maintenance',
+  'daily_digest',
+  'weekly_summary',
+] as const;
+
+// Email is the only delivery channel the platform has today
+export const REMINDER_CHANNELS = ['email'] as const;
+
+export const RECIPIENT_ROLES = ['assignedTo', 'supervisedBy', 'createdBy', 'departmentHead'] as const;
+
+/**
+ * Which cases a reminder applies to. Every filter that is present must match.
+ */
+export const reminderConditionsSchema = z.object({
+  entityType: z.literal('case').default('case'),
+  stages: z.array(z.enum(CaseStage)).optional(),
+  statuses: z.array(z.enum(CaseStatus)).optional(),
+  priorities: z.array(z.enum(Priority)).optional(),
+  departmentIds: z.array(z.string()).optional(),
+  // "stage deadline in 2 days" is { source: 'stage', withinDays: 2 }
+  deadline: z
+    .object({
+      source: z.enum(['stage', 'case']).default('stage'),
+      withinDays: z.number().int().min(0).optional(),
+      includeOverdue: z.boolean().default(false),
+    })
+    .optional(),
+  // Cases not updated for at least this many days
+  inactiveDays: z.number().int().positive().optional(),
+  // Extra filter written in the validation rule language
+  expression: z
+    .string()
+    .optional()
+    .superRefine((expression, ctx) => {
+      if (!expression) return;
+      const analysis = analyzeExpression(expression);
+      analysis.diagnostics.forEach((diagnostic) =>
+        ctx.addIssue({ code: 'custom', message: diagnostic.message })
+      );
+    }),
+});
+
+export const reminderRecipientsSchema = z
+  .object({
+    roles: z.array(z.enum(RECIPIENT_ROLES)).default([]),
+    userIds: z.array(z.string()).default([]),
+    emails: z.array(z.email()).default([]),
+  })
+  .refine(
+    (recipients) =>
+      recipients.roles.length + recipients.userIds.length + recipients.emails.length > 0,
+    { message: 'Debe indicar al menos un destinatario' }
+  );
+
+export const reminderChannelsSchema = z.array(z.enum(REMINDER_CHANNELS)).min(1);
+
+export const reminderConfigSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  type: z.enum(REMINDER_TYPES),
+  schedule: z.string().superRefine((schedule, ctx) => {
+    const result = validateSchedule(schedule);
+    if (!result.valid) {
+      ctx.addIssue({ code: 'custom', message: result.error ?? 'Programación no válida' });
+    }
+  }),
+  isActive: z.boolean().default(true),
+  conditions: reminderConditionsSchema,
+  templateId: z.string().nullable().optional(),
+  subject: z.string().nullable().optional(),
+  message: z.string().nullable().optional(),
+  recipients: reminderRecipientsSchema,
+  channels: reminderChannelsSchema,
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
+  maxReminders: z.number().int().min(1).max(100).default(3),
+  reminderInterval: z.number().int().min(1).default(24),
+  metadata: z.record(z.string(), z.any()).nullable().optional(),
+  tags: z.string().nullable().optional(),
+});
+
+export type ReminderConditions = z.infer<typeof reminderConditionsSchema>;
+export type ReminderRecipients = z.infer<typeof reminderRecipientsSchema>;
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+export type ReminderConfigInput = z.infer<typeof reminderConfigSchema>;
@@ -0,0 +1,28 @@
+export {
+  ScheduleParseError,
+  nextRunAfter,
+  parseSchedule,
+  validateSchedule,
+  type Schedule,
+} from './schedule';
+export {
+  RECIPIENT_ROLES,
+  REMINDER_CHANNELS,
+  REMINDER_TYPES,
+  reminderChannelsSchema,
+  reminderConditionsSchema,
+  reminderConfigSchema,
+  reminderRecipientsSchema,
+  type ReminderChannel,
+  type ReminderConditions,
+  type ReminderConfigInput,
+  type ReminderRecipients,
+} from './config-schema';
+export {
+  findMatchingCases,
+  materializeReminderJobs,
+  processDueReminderJobs,
+  runReminderScheduler,
+  type ReminderMatch,
+  type SchedulerRunSummary,
+} from './scheduler';
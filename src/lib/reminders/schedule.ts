@@ -0,0 +1,241 @@
+/**
+ * Schedule expressions for ReminderConfig.schedule.
+ *
+ * Accepts standard five-field cron (`minute hour day-of-month month day-of-week`)
+ * with lists, ranges, steps and month/day names, the usual `@daily`-style
+ * shortcuts, and simple intervals such as `every 6h` or `cada 30m`.
+ * Cron schedules are evaluated in the server's local time zone.
+ */
+
+export class ScheduleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleParseError';
+  }
+}
+
+interface CronField {
+  values: Set<number>;
+  // False when the field was '*', which matters for the day-of-month/day-of-week rule
+  restricted: boolean;
+}
+
+export type Schedule =
+  | {
+      kind: 'cron';
+      source: string;
+      minutes: CronField;
+      hours: CronField;
+      daysOfMonth: CronField;
+      months: CronField;
+      daysOfWeek: CronField;
+    }
+  | { kind: 'interval'; source: string; intervalMs: number };
+
+const SHORTCUTS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS = [
+  { name: 'minuto', min: 0, max: 59 },
+  { name: 'hora', min: 0, max: 23 },
+  { name: 'día del mes', min: 1, max: 31 },
+  { name: 'mes', min: 1, max: 12, names: MONTH_NAMES, offset: 1 },
+  { name: 'día de la semana', min: 0, max: 7, names: DAY_NAMES, offset: 0 },
+] as const;
+
+const INTERVAL_PATTERN = /^(?:every|cada)\s+(\d+)\s*(m|min|h|d)$/i;
+const INTERVAL_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  min: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Give up looking for the next run after this long (covers Feb 29 schedules)
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(raw: string, field: (typeof FIELDS)[number]): number {
+  const upper = raw.toUpperCase();
+  if ('names' in field) {
+    const index = (field.names as readonly string[]).indexOf(upper);
+    if (index !== -1) return index + field.offset;
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    throw new ScheduleParseError(`Valor no válido '${raw}' en el campo ${field.name}`);
+  }
+  const value = Number(raw);
+  if (value < field.min || value > field.max) {
+    throw new ScheduleParseError(
+      `El ${field.name} debe estar entre ${field.min} y ${field.max}, no ${value}`
+    );
+  }
+  return value;
+}
+
+function parseField(raw: string, field: (typeof FIELDS)[number]): CronField {
+  const values = new Set<number>();
+
+  for (const part of raw.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (!range || extra !== undefined) {
+      throw new ScheduleParseError(`Expresión no válida '${part}' en el campo ${field.name}`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new ScheduleParseError(`Paso no válido '${stepText}' en el campo ${field.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from ?? '', field);
+      end = parseValue(to ?? '', field);
+      if (start > end) {
+        throw new ScheduleParseError(`Rango invertido '${range}' en el campo ${field.name}`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // `5/15` means "from 5 every 15"
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  // Sunday may be written as 0 or 7
+  if (field.name === 'día de la semana' && values.delete(7)) {
+    values.add(0);
+  }
+
+  return { values, restricted: raw !== '*' && !raw.startsWith('*/') };
+}
+
+/**
+ * Parse a schedule expression. Throws ScheduleParseError with a message
+ * suitable for showing to the administrator who wrote it.
+ */
+export function parseSchedule(source: string): Schedule {
+  const trimmed = (source ?? '').trim();
+  if (!trimmed) {
+    throw new ScheduleParseError('La programación está vacía');
+  }
+
+  const interval = INTERVAL_PATTERN.exec(trimmed);
+  if (interval) {
+    const amount = Number(interval[1]);
+    if (amount < 1) {
+      throw new ScheduleParseError('El intervalo debe ser mayor que cero');
+    }
+    return {
+      kind: 'interval',
+      source: trimmed,
+      intervalMs: amount * INTERVAL_UNITS[interval[2]!.toLowerCase()]!,
+    };
+  }
+
+  const expanded = SHORTCUTS[trimmed.toLowerCase()] ?? trimmed;
+  if (expanded.startsWith('@')) {
+    throw new ScheduleParseError(`Atajo desconocido '${trimmed}'`);
+  }
+
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new ScheduleParseError(
+      `Una expresión cron necesita 5 campos (minuto hora día mes día-semana), se recibieron ${parts.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index]!)
+  ) as [CronField, CronField, CronField, CronField, CronField];
+
+  const schedule: Schedule = { kind: 'cron', source: trimmed, minutes, hours, daysOfMonth, months, daysOfWeek };
+
+  // Reject expressions such as `0 0 31 2 *` that can never fire
+  nextRunAfter(schedule, new Date());
+
+  return schedule;
+}
+
+function dayMatches(schedule: Extract<Schedule, { kind: 'cron' }>, date: Date): boolean {
+  const { daysOfMonth, daysOfWeek } = schedule;
+  const domMatch = daysOfMonth.values.has(date.getDate());
+  const dowMatch = daysOfWeek.values.has(date.getDay());
+
+  // Classic cron: when both day fields are restricted either one may match
+  if (daysOfMonth.restricted && daysOfWeek.restricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * First time strictly after `after` at which the schedule fires.
+ */
+export function nextRunAfter(schedule: Schedule, after: Date): Date {
+  if (schedule.kind === 'interval') {
+    return new Date(after.getTime() + schedule.intervalMs);
+  }
+
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  while (next.getTime() <= limit) {
+    if (!schedule.months.values.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.values.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.values.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw new ScheduleParseError(`La programación '${schedule.source}' nunca se ejecuta`);
+}
+
+/**
+ * Validate a schedule expression without throwing.
+ */
+export function validateSchedule(source: string): { valid: boolean; error?: string; nextRunAt?: Date } {
+  try {
+    const schedule = parseSchedule(source);
+    return { valid: true, nextRunAt: nextRunAfter(schedule, new Date()) };
+  } catch (error) {
+    if (error instanceof ScheduleParseError) {
+      return { valid: false, error: error.message };
+    }
+    throw error;
+  }
+}
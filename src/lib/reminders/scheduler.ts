@@ -0,0 +1,462 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { queueEmail } from '@/lib/email-queue-processor';
+import { runExpression } from '@/lib/rule-engine';
+import { buildCaseRuleScope } from '@/lib/services/validation-rule.service';
+import { STAGE_LABELS } from '@/constants/stages';
+import { computeStageSla, loadSlaContext } from '@/lib/sla';
+import { CaseStatus, type Prisma, type ReminderConfig, type ReminderJob } from '@/prisma/client';
+import { nextRunAfter, parseSchedule } from './schedule';
+import {
+  reminderChannelsSchema,
+  reminderConditionsSchema,
+  reminderRecipientsSchema,
+  type ReminderConditions,
+} from './config-schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Failed deliveries are retried with exponential backoff: 5 min, 10 min, 20 min... up to 6 h
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const RETRY_MAX_MS = 6 * HOUR_MS;
+const JOB_BATCH_SIZE = 50;
+// A job running for longer than this was claimed by a worker that died
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+const CLOSED_STATUSES = [CaseStatus.COMPLETADO, CaseStatus.ARCHIVED, CaseStatus.CANCELLED];
+
+export interface ReminderMatch {
+  caseId: string;
+  fileNumber: string;
+  dueDate: Date | null;
+  daysRemaining: number | null;
+}
+
+export interface SchedulerRunSummary {
+  configsRun: number;
+  jobsCreated: number;
+  jobsCompleted: number;
+  jobsRetrying: number;
+  jobsFailed: number;
+  errors: string[];
+}
+
+type JobWithConfig = ReminderJob & { config: ReminderConfig };
+
+/**
+ * Cases that currently satisfy a reminder's conditions, with the deadline
+ * that made them match when the conditions include one.
+ */
+export async function findMatchingCases(
+  conditions: ReminderConditions,
+  now: Date = new Date()
+): Promise<ReminderMatch[]> {
+  const where: Prisma.CaseWhereInput = {
+    deletedAt: null,
+    status: conditions.statuses ? { in: conditions.statuses } : { notIn: CLOSED_STATUSES },
+  };
+
+  if (conditions.stages) where.currentStage = { in: conditions.stages };
+  if (conditions.priorities) where.priority = { in: conditions.priorities };
+  if (conditions.departmentIds) where.departmentId = { in: conditions.departmentIds };
+  if (conditions.inactiveDays) {
+    where.updatedAt = { lte: new Date(now.getTime() - conditions.inactiveDays * DAY_MS) };
+  }
+
+  const cases = await prisma.case.findMany({
+    where,
+    select: {
+      id: true,
+      fileNumber: true,
+      currentStage: true,
+      departmentId: true,
+      expectedEndDate: true,
+      stageAssignments: {
+        where: { isActive: true },
+        select: { stage: true, assignedAt: true, dueDate: true },
+      },
+    },
+  });
+
+  const matches: ReminderMatch[] = [];
+  const slaContext = cases.length > 0 && conditions.deadline?.source !== 'case'
+    ? await loadSlaContext(now)
+    : null;
+
+  for (const currentCase of cases) {
+    let dueDate: Date | null = null;
+
+    if (conditions.deadline?.source === 'case') {
+      dueDate = currentCase.expectedEndDate;
+    } else {
+      const assignment = currentCase.stageAssignments.find(
+        (stageAssignment) => stageAssignment.stage === currentCase.currentStage
+      );
+      if (assignment && slaContext) {
+        dueDate = computeStageSla(
+          slaContext,
+          {
+            stage: currentCase.currentStage,
+            departmentId: currentCase.departmentId,
+            startedAt: assignment.assignedAt,
+            dueDate: assignment.dueDate,
+          },
+          now
+        ).dueDate;
+      }
+    }
+
+    const daysRemaining = dueDate ? Math.ceil((dueDate.getTime() - now.getTime()) / DAY_MS) : null;
+
+    if (conditions.deadline) {
+      if (daysRemaining === null) continue;
+
+      const { withinDays, includeOverdue } = conditions.deadline;
+      const upcoming = daysRemaining >= 0 && (withinDays === undefined || daysRemaining <= withinDays);
+      if (!upcoming && !(includeOverdue && daysRemaining < 0)) continue;
+    }
+
+    if (conditions.expression) {
+      try {
+        const scope = await buildCaseRuleScope(currentCase.id);
+        if (!scope || runExpression(conditions.expression, scope, now) !== true) continue;
+      } catch (error) {
+        logger.warn(`Reminder expression failed for case ${currentCase.id}:`, error);
+        continue;
+      }
+    }
+
+    matches.push({
+      caseId: currentCase.id,
+      fileNumber: currentCase.fileNumber,
+      dueDate,
+      daysRemaining,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Create pending ReminderJob rows for every matching case, respecting
+ * maxReminders and reminderInterval per case. Returns the number created.
+ */
+export async function materializeReminderJobs(
+  config: ReminderConfig,
+  now: Date = new Date()
+): Promise<number> {
+  const conditions = reminderConditionsSchema.parse(config.conditions);
+  const matches = await findMatchingCases(conditions, now);
+
+  if (matches.length === 0) {
+    return 0;
+  }
+
+  const previousJobs = await prisma.reminderJob.findMany({
+    where: {
+      configId: config.id,
+      entityType: 'case',
+      entityId: { in: matches.map((match) => match.caseId) },
+      status: { not: 'cancelled' },
+    },
+    select: { entityId: true, scheduledAt: true },
+  });
+
+  const history = new Map<string, { count: number; last: number }>();
+  for (const job of previousJobs) {
+    const entry = history.get(job.entityId!) ?? { count: 0, last: 0 };
+    entry.count++;
+    entry.last = Math.max(entry.last, job.scheduledAt.getTime());
+    history.set(job.entityId!, entry);
+  }
+
+  const jobs: Prisma.ReminderJobCreateManyInput[] = [];
+
+  for (const match of matches) {
+    const entry = history.get(match.caseId);
+    if (entry && entry.count >= config.maxReminders) continue;
+    if (entry && now.getTime() - entry.last < config.reminderInterval * HOUR_MS) continue;
+
+    jobs.push({
+      configId: config.id,
+      scheduledAt: now,
+      entityId: match.caseId,
+      entityType: 'case',
+      correlationId: `${config.id}:${match.caseId}`,
+      metadata: {
+        fileNumber: match.fileNumber,
+        dueDate: match.dueDate?.toISOString() ?? null,
+        daysRemaining: match.daysRemaining,
+        reminderNumber: (entry?.count ?? 0) + 1,
+      },
+    });
+  }
+
+  if (jobs.length > 0) {
+    await prisma.reminderJob.createMany({ data: jobs });
+  }
+
+  return jobs.length;
+}
+
+function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name]! : placeholder
+  );
+}
+
+/**
+ * Resolve recipients and queue the reminder emails for one job.
+ */
+async function deliverReminder(job: JobWithConfig, now: Date): Promise<Prisma.InputJsonValue> {
+  const { config } = job;
+  const recipients = reminderRecipientsSchema.parse(config.recipients);
+  const channels = reminderChannelsSchema.parse(config.channels);
+
+  const currentCase = job.entityId
+    ? await prisma.case.findUnique({
+        where: { id: job.entityId },
+        include: {
+          assignedTo: true,
+          supervisedBy: true,
+          createdBy: true,
+          department: { include: { headUser: true } },
+        },
+      })
+    : null;
+
+  if (!currentCase || currentCase.deletedAt) {
+    return { delivered: 0, reason: 'Case not found' };
+  }
+
+  const roleUsers = {
+    assignedTo: currentCase.assignedTo,
+    supervisedBy: currentCase.supervisedBy,
+    createdBy: currentCase.createdBy,
+    departmentHead: currentCase.department.headUser,
+  };
+
+  const users = [
+    ...recipients.roles.map((role) => roleUsers[role]),
+    ...(recipients.userIds.length > 0
+      ? await prisma.user.findMany({ where: { id: { in: recipients.userIds } } })
+      : []),
+  ];
+
+  // Users who turned off email notifications are not contacted
+  const emails = new Set([
+    ...users
+      .filter((user) => user && user.isActive && !user.deletedAt && user.emailNotifications)
+      .map((user) => user!.email),
+    ...recipients.emails,
+  ]);
+
+  if (emails.size === 0) {
+    return { delivered: 0, reason: 'No recipients' };
+  }
+
+  const metadata = (job.metadata ?? {}) as Record<string, unknown>;
+  const dueDate = typeof metadata.dueDate === 'string' ? new Date(metadata.dueDate) : null;
+  const variables: Record<string, string> = {
+    fileNumber: currentCase.fileNumber,
+    title: currentCase.title,
+    stage: currentCase.currentStage,
+    stageLabel: STAGE_LABELS[currentCase.currentStage],
+    dueDate: dueDate ? dueDate.toLocaleDateString('es-DO') : '',
+    daysRemaining: metadata.daysRemaining === null || metadata.daysRemaining === undefined
+      ? ''
+      : String(metadata.daysRemaining),
+    reminderName: config.name,
+    today: now.toLocaleDateString('es-DO'),
+  };
+
+  const template = config.templateId
+    ? await prisma.systemTemplate.findFirst({ where: { id: config.templateId, isActive: true } })
+    : null;
+
+  const subject = renderTemplate(
+    config.subject || template?.subject || 'Recordatorio: {{fileNumber}} - {{stageLabel}}',
+    variables
+  );
+  const message = renderTemplate(
+    config.message ||
+      template?.content ||
+      (dueDate
+        ? 'El caso {{fileNumber}} ({{title}}) debe completar la etapa {{stageLabel}} antes del {{dueDate}}. Días restantes: {{daysRemaining}}.'
+        : 'El caso {{fileNumber}} ({{title}}) requiere su atención en la etapa {{stageLabel}}.'),
+    variables
+  );
+
+  const emailIds: string[] = [];
+  if (channels.includes('email')) {
+    for (const to of emails) {
+      emailIds.push(
+        await queueEmail({
+          to,
+          subject,
+          textContent: message,
+          priority: config.priority,
+          ...(config.templateId && { templateId: config.templateId }),
+          correlationId: job.id,
+          metadata: { reminderJobId: job.id, reminderConfigId: config.id, caseId: currentCase.id },
+        })
+      );
+    }
+  }
+
+  return { delivered: emailIds.length, recipients: [...emails], emailIds };
+}
+
+/**
+ * Put back jobs left running by a worker that stopped mid-delivery, as a
+ * failed attempt: pending again, or failed once out of attempts. Their
+ * reminders may have gone out already, so they can be delivered twice.
+ */
+async function reclaimStaleReminderJobs(now: Date): Promise<number> {
+  const stale: Prisma.ReminderJobWhereInput = {
+    status: 'running',
+    OR: [{ claimedAt: null }, { claimedAt: { lt: new Date(now.getTime() - STALE_JOB_MS) } }],
+  };
+  const error = 'The worker delivering the reminder stopped before finishing';
+
+  const failed = await prisma.reminderJob.updateMany({
+    where: { ...stale, attempts: { gte: prisma.reminderJob.fields.maxAttempts } },
+    data: { status: 'failed', executedAt: now, error, nextRetryAt: null },
+  });
+  const retried = await prisma.reminderJob.updateMany({
+    where: stale,
+    data: { status: 'pending', error, nextRetryAt: null },
+  });
+
+  const reclaimed = failed.count + retried.count;
+  if (reclaimed > 0) {
+    logger.warn(`Reclaimed ${reclaimed} reminder jobs left running by a stopped worker`);
+  }
+  return reclaimed;
+}
+
+/**
+ * Deliver pending jobs that are due, retrying failures with `nextRetryAt`.
+ */
+export async function processDueReminderJobs(
+  now: Date = new Date()
+): Promise<Pick<SchedulerRunSummary, 'jobsCompleted' | 'jobsRetrying' | 'jobsFailed'>> {
+  const summary = { jobsCompleted: 0, jobsRetrying: 0, jobsFailed: 0 };
+
+  await reclaimStaleReminderJobs(now);
+
+  const jobs = await prisma.reminderJob.findMany({
+    where: {
+      status: 'pending',
+      scheduledAt: { lte: now },
+      OR: [{ nextRetryAt: null }, { nextRetryAt: { lte: now } }],
+    },
+    include: { config: true },
+    orderBy: { scheduledAt: 'asc' },
+    take: JOB_BATCH_SIZE,
+  });
+
+  for (const job of jobs) {
+    if (!job.config.isActive) {
+      await prisma.reminderJob.update({
+        where: { id: job.id },
+        data: { status: 'cancelled', error: 'Reminder configuration is inactive' },
+      });
+      continue;
+    }
+
+    // Claim the job so a second worker does not deliver it twice
+    const claimed = await prisma.reminderJob.updateMany({
+      where: { id: job.id, status: 'pending' },
+      data: { status: 'running', attempts: { increment: 1 }, claimedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    const attempts = job.attempts + 1;
+
+    try {
+      const result = await deliverReminder(job, now);
+      await prisma.reminderJob.update({
+        where: { id: job.id },
+        data: { status: 'completed', executedAt: new Date(), result, error: null, nextRetryAt: null },
+      });
+      summary.jobsCompleted++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Reminder job ${job.id} failed (attempt ${attempts}):`, error);
+
+      if (attempts >= job.maxAttempts) {
+        await prisma.reminderJob.update({
+          where: { id: job.id },
+          data: { status: 'failed', executedAt: new Date(), error: message, nextRetryAt: null },
+        });
+        summary.jobsFailed++;
+      } else {
+        const delay = Math.min(RETRY_BASE_MS * Math.pow(2, attempts - 1), RETRY_MAX_MS);
+        await prisma.reminderJob.update({
+          where: { id: job.id },
+          data: { status: 'pending', error: message, nextRetryAt: new Date(now.getTime() + delay) },
+        });
+        summary.jobsRetrying++;
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * One scheduler tick: fire every due ReminderConfig, then deliver due jobs.
+ * Safe to call repeatedly; configs only fire when their nextRunAt has passed.
+ */
+export async function runReminderScheduler(now: Date = new Date()): Promise<SchedulerRunSummary> {
+  const summary: SchedulerRunSummary = {
+    configsRun: 0,
+    jobsCreated: 0,
+    jobsCompleted: 0,
+    jobsRetrying: 0,
+    jobsFailed: 0,
+    errors: [],
+  };
+
+  const configs = await prisma.reminderConfig.findMany({
+    where: {
+      isActive: true,
+      OR: [{ nextRunAt: null }, { nextRunAt: { lte: now } }],
+    },
+  });
+
+  for (const config of configs) {
+    try {
+      const schedule = parseSchedule(config.schedule);
+
+      // Configs that were never scheduled start at their next occurrence
+      if (config.nextRunAt) {
+        summary.jobsCreated += await materializeReminderJobs(config, now);
+        summary.configsRun++;
+      }
+
+      await prisma.reminderConfig.update({
+        where: { id: config.id },
+        data: {
+          ...(config.nextRunAt && { lastRunAt: now }),
+          nextRunAt: nextRunAfter(schedule, now),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Reminder config ${config.id} failed:`, error);
+      summary.errors.push(`${config.name}: ${message}`);
+    }
+  }
+
+  const delivery = await processDueReminderJobs(now);
+  Object.assign(summary, delivery);
+
+  if (summary.configsRun > 0 || summary.jobsCompleted + summary.jobsRetrying + summary.jobsFailed > 0) {
+    logger.info('Reminder scheduler run completed', { ...summary });
+  }
+
+  return summary;
+}
@@ -0,0 +1,56 @@
+import { prisma } from '@/lib/prisma';
+import { RetentionError, type DestructionCertificateEntry } from './retention';
+
+const ISSUER_SELECT = { id: true, firstName: true, lastName: true, email: true } as const;
+
+/**
+ * Destruction certificate (acta de eliminación documental) as handed to
+ * auditors: who issued it, when, and every document it destroyed with the
+ * legal basis for doing so.
+ */
+export interface DestructionCertificateReport {
+  reportVersion: 1;
+  number: string;
+  issuedAt: string;
+  issuedBy: { id: string; firstName: string; lastName: string; email: string } | null;
+  documentCount: number;
+  totalSize: number;
+  documents: DestructionCertificateEntry[];
+}
+
+export interface DestructionCertificateSummary {
+  id: string;
+  number: string;
+  issuedAt: Date;
+  issuedBy: { id: string; firstName: string; lastName: string; email: string } | null;
+  documentCount: number;
+  totalSize: number;
+}
+
+export async function listDestructionCertificates(): Promise<DestructionCertificateSummary[]> {
+  const certificates = await prisma.documentDestructionCertificate.findMany({
+    orderBy: { issuedAt: 'desc' },
+    select: { id: true, number: true, issuedAt: true, documentCount: true, totalSize: true, issuedBy: { select: ISSUER_SELECT } },
+  });
+  return certificates.map((certificate) => ({ ...certificate, totalSize: Number(certificate.totalSize) }));
+}
+
+export async function getDestructionCertificateReport(id: string): Promise<DestructionCertificateReport> {
+  const certificate = await prisma.documentDestructionCertificate.findUnique({
+    where: { id },
+    include: { issuedBy: { select: ISSUER_SELECT } },
+  });
+  if (!certificate) {
+    throw new RetentionError('Destruction certificate not found', 404);
+  }
+
+  return {
+    reportVersion: 1,
+    number: certificate.number,
+    issuedAt: certificate.issuedAt.toISOString(),
+    issuedBy: certificate.issuedBy,
+    documentCount: certificate.documentCount,
+    totalSize: Number(certificate.totalSize),
+    documents: certificate.entries as DestructionCertificateEntry[],
+  };
+}
@@ -0,0 +1,25 @@
+export {
+  CATEGORY_RETENTION,
+  TYPE_RETENTION,
+  retentionRuleFor,
+  type RetentionDisposition,
+  type RetentionRule,
+} from './schedules';
+export {
+  RetentionError,
+  planRetention,
+  retentionDueDate,
+  runRetention,
+  syncLegalHolds,
+  type DestructionCertificateEntry,
+  type LegalHoldSummary,
+  type RetentionDecision,
+  type RetentionRunSummary,
+  type RunRetentionOptions,
+} from './retention';
+export {
+  getDestructionCertificateReport,
+  listDestructionCertificates,
+  type DestructionCertificateReport,
+  type DestructionCertificateSummary,
+} from './certificates';
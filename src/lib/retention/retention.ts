@@ -0,0 +1,391 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { removeCachedPreviews } from '@/lib/previews';
+import {
+  CLOSED_CASE_STATUSES,
+  deleteStoredFile,
+  isStorageTierConfigured,
+  migrateDocumentStorage,
+} from '@/lib/storage';
+import { DocumentStatus, DocumentStorageType, Prisma } from '@/prisma/client';
+import { retentionRuleFor, type RetentionDisposition, type RetentionRule } from './schedules';
+
+export class RetentionError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 500
+  ) {
+    super(message);
+    this.name = 'RetentionError';
+  }
+}
+
+// Documents examined per query while planning
+const PAGE_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tries at a certificate number when runs issue certificates at the same time
+const CERTIFICATE_NUMBER_ATTEMPTS = 5;
+
+const RETENTION_SELECT = {
+  id: true,
+  title: true,
+  originalFileName: true,
+  fileName: true,
+  filePath: true,
+  fileSize: true,
+  fileHash: true,
+  storageType: true,
+  documentType: true,
+  category: true,
+  securityLevel: true,
+  status: true,
+  createdAt: true,
+  expiresAt: true,
+  archivedAt: true,
+  retentionPeriod: true,
+  case: { select: { id: true, fileNumber: true, status: true, actualEndDate: true, updatedAt: true } },
+  versions: { select: { filePath: true } },
+} satisfies Prisma.DocumentSelect;
+
+type RetainedDocument = Prisma.DocumentGetPayload<{ select: typeof RETENTION_SELECT }>;
+
+export interface RetentionDecision {
+  documentId: string;
+  title: string;
+  caseId: string | null;
+  caseFileNumber: string | null;
+  disposition: RetentionDisposition;
+  dueDate: Date;
+  rule: RetentionRule;
+}
+
+export interface LegalHoldSummary {
+  placed: number;
+  released: number;
+}
+
+export interface RetentionRunSummary {
+  legalHolds: LegalHoldSummary;
+  examined: number;
+  archived: number;
+  destroyed: number;
+  failed: number;
+  certificateId: string | null;
+  certificateNumber: string | null;
+}
+
+// A destroyed document as recorded on its destruction certificate. A type
+// rather than an interface so that entries are valid JSON input as they are
+export type DestructionCertificateEntry = {
+  documentId: string;
+  title: string;
+  fileName: string;
+  documentType: string;
+  category: string;
+  securityLevel: string;
+  fileSize: number;
+  fileHash: string | null;
+  versions: number;
+  caseId: string | null;
+  caseFileNumber: string | null;
+  uploadedAt: string;
+  dueDate: string;
+  retentionYears: number;
+  basis: string;
+};
+
+export interface RunRetentionOptions {
+  // Admin who ran it; null for the scheduled job
+  issuedById?: string | null;
+  now?: Date;
+}
+
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setUTCFullYear(result.getUTCFullYear() + years);
+  return result;
+}
+
+/**
+ * When the retention period of a document lapses: its own expiry date when
+ * set, otherwise its retention period (in days) or that of its rule, from
+ * the closing of its case. Null while the case is still open, whatever the
+ * expiry date says: the file of an open case is kept whole.
+ */
+export function retentionDueDate(
+  document: Pick<RetainedDocument, 'createdAt' | 'expiresAt' | 'retentionPeriod' | 'case'>,
+  rule: RetentionRule
+): Date | null {
+  if (document.case && !CLOSED_CASE_STATUSES.includes(document.case.status)) {
+    return null;
+  }
+  if (document.expiresAt) {
+    return document.expiresAt;
+  }
+
+  const start = document.case ? (document.case.actualEndDate ?? document.case.updatedAt) : document.createdAt;
+
+  return document.retentionPeriod
+    ? new Date(start.getTime() + document.retentionPeriod * DAY_MS)
+    : addYears(start, rule.years);
+}
+
+function decide(document: RetainedDocument, now: Date): RetentionDecision | null {
+  const rule = retentionRuleFor(document.documentType, document.category);
+  // Archived documents are where they belong; destruction still applies to them
+  if (rule.disposition === 'ARCHIVE' && document.archivedAt) {
+    return null;
+  }
+  const dueDate = retentionDueDate(document, rule);
+  if (!dueDate || dueDate > now) {
+    return null;
+  }
+  return {
+    documentId: document.id,
+    title: document.title,
+    caseId: document.case?.id ?? null,
+    caseFileNumber: document.case?.fileNumber ?? null,
+    disposition: rule.disposition,
+    dueDate,
+    rule,
+  };
+}
+
+/**
+ * Documents not yet disposed of, outside of legal holds. Holds are checked
+ * on the case too, so a case sent to court is protected before the next
+ * sync of the flags.
+ */
+async function* retainedDocuments(): AsyncGenerator<RetainedDocument> {
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await prisma.document.findMany({
+      where: {
+        disposedAt: null,
+        legalHold: false,
+        OR: [{ caseId: null }, { case: { judicialCaseNumber: null } }],
+      },
+      orderBy: { id: 'asc' },
+      select: RETENTION_SELECT,
+      take: PAGE_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    yield* page;
+    if (page.length < PAGE_SIZE) return;
+    cursor = page[page.length - 1]!.id;
+  }
+}
+
+/**
+ * Documents whose retention period has lapsed and what is due for each,
+ * without acting on them.
+ */
+export async function planRetention(now: Date = new Date()): Promise<RetentionDecision[]> {
+  const decisions: RetentionDecision[] = [];
+  for await (const document of retainedDocuments()) {
+    const decision = decide(document, now);
+    if (decision) decisions.push(decision);
+  }
+  return decisions;
+}
+
+/**
+ * Hold the documents of cases before the courts, those with a judicial case
+ * number, and release the holds of cases that no longer have one.
+ */
+export async function syncLegalHolds(): Promise<LegalHoldSummary> {
+  const cases = await prisma.case.findMany({
+    where: { judicialCaseNumber: { not: null } },
+    select: { id: true, judicialCaseNumber: true },
+  });
+
+  let placed = 0;
+  for (const { id, judicialCaseNumber } of cases) {
+    const legalHoldReason = `Proceso judicial ${judicialCaseNumber}`;
+    const { count } = await prisma.document.updateMany({
+      where: { caseId: id, disposedAt: null, OR: [{ legalHold: false }, { legalHoldReason: { not: legalHoldReason } }] },
+      data: { legalHold: true, legalHoldReason },
+    });
+    placed += count;
+  }
+
+  const { count: released } = await prisma.document.updateMany({
+    where: { legalHold: true, OR: [{ caseId: null }, { case: { judicialCaseNumber: null } }] },
+    data: { legalHold: false, legalHoldReason: null },
+  });
+
+  return { placed, released };
+}
+
+async function archiveDocument(document: RetainedDocument, issuedById: string | null, now: Date) {
+  await prisma.document.update({
+    where: { id: document.id },
+    data: { status: DocumentStatus.ARCHIVED, archivedAt: now, archivedBy: issuedById },
+  });
+
+  // Into the archive tier when there is one; the document is archived either way
+  if (isStorageTierConfigured(DocumentStorageType.ARCHIVE) && document.storageType !== DocumentStorageType.ARCHIVE) {
+    try {
+      await migrateDocumentStorage(document.id, DocumentStorageType.ARCHIVE);
+    } catch (error) {
+      logger.warn(`Archived document ${document.id} could not be moved to the ARCHIVE tier:`, error);
+    }
+  }
+}
+
+/**
+ * Destroy the files of a document, its versions and cached previews, and
+ * keep its record as evidence of what was destroyed. Files go first: a
+ * failure leaves the document due, and the next run finishes the job.
+ * Dropping the data key also makes any encrypted copy left behind unreadable.
+ * The document is entered on the certificate in the same transaction that
+ * marks it disposed of, so the two never disagree.
+ */
+async function destroyDocument(
+  document: RetainedDocument,
+  entry: DestructionCertificateEntry,
+  certificateId: string,
+  now: Date
+) {
+  const filePaths = new Set([document.filePath, ...document.versions.map((version) => version.filePath)]);
+  for (const filePath of filePaths) {
+    await deleteStoredFile({ filePath, storageType: document.storageType });
+  }
+  await removeCachedPreviews(document.id);
+
+  await prisma.$transaction(async (tx) => {
+    const certificate = await tx.documentDestructionCertificate.findUniqueOrThrow({
+      where: { id: certificateId },
+      select: { entries: true },
+    });
+    const entries = Array.isArray(certificate.entries) ? certificate.entries : [];
+    await tx.documentDestructionCertificate.update({
+      where: { id: certificateId },
+      data: {
+        documentCount: { increment: 1 },
+        totalSize: { increment: document.fileSize },
+        entries: [...entries, entry],
+      },
+    });
+    await tx.documentVersion.deleteMany({ where: { documentId: document.id } });
+    await tx.document.update({
+      where: { id: document.id },
+      data: {
+        status: DocumentStatus.EXPIRED,
+        disposedAt: now,
+        destructionCertificateId: certificateId,
+        encryptionKey: null,
+        contentText: null,
+        isIndexed: false,
+        thumbnailPath: null,
+        previewGenerated: false,
+        storageLocation: null,
+      },
+    });
+  });
+}
+
+async function nextCertificateNumber(now: Date): Promise<string> {
+  const prefix = `CD-${now.getFullYear()}-`;
+  const last = await prisma.documentDestructionCertificate.findFirst({
+    where: { number: { startsWith: prefix } },
+    orderBy: { number: 'desc' },
+    select: { number: true },
+  });
+  const issued = last ? parseInt(last.number.slice(prefix.length), 10) : 0;
+  return `${prefix}${String(issued + 1).padStart(4, '0')}`;
+}
+
+/**
+ * Open the certificate of a run. Numbers are unique: when another run took
+ * the same one first, take the next.
+ */
+async function issueCertificate(issuedById: string | null, now: Date) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.documentDestructionCertificate.create({
+        data: { number: await nextCertificateNumber(now), documentCount: 0, totalSize: 0, entries: [], issuedById, issuedAt: now },
+      });
+    } catch (error) {
+      const taken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!taken || attempt >= CERTIFICATE_NUMBER_ATTEMPTS) throw error;
+    }
+  }
+}
+
+function certificateEntry(document: RetainedDocument, decision: RetentionDecision): DestructionCertificateEntry {
+  return {
+    documentId: document.id,
+    title: document.title,
+    fileName: document.originalFileName || document.fileName,
+    documentType: document.documentType,
+    category: document.category,
+    securityLevel: document.securityLevel,
+    fileSize: document.fileSize,
+    fileHash: document.fileHash,
+    versions: document.versions.length,
+    caseId: decision.caseId,
+    caseFileNumber: decision.caseFileNumber,
+    uploadedAt: document.createdAt.toISOString(),
+    dueDate: decision.dueDate.toISOString(),
+    retentionYears: decision.rule.years,
+    basis: decision.rule.basis,
+  };
+}
+
+/**
+ * Apply the retention schedules: sync legal holds, archive the documents due
+ * for the historical archive and destroy those due for destruction. All
+ * documents destroyed in a run are listed on one destruction certificate.
+ */
+export async function runRetention(options: RunRetentionOptions = {}): Promise<RetentionRunSummary> {
+  const now = options.now ?? new Date();
+  const issuedById = options.issuedById ?? null;
+  const legalHolds = await syncLegalHolds();
+  const summary: RetentionRunSummary = {
+    legalHolds,
+    examined: 0,
+    archived: 0,
+    destroyed: 0,
+    failed: 0,
+    certificateId: null,
+    certificateNumber: null,
+  };
+
+  const due: Array<{ document: RetainedDocument; decision: RetentionDecision }> = [];
+  for await (const document of retainedDocuments()) {
+    summary.examined++;
+    const decision = decide(document, now);
+    if (decision) due.push({ document, decision });
+  }
+
+  for (const { document, decision } of due) {
+    try {
+      if (decision.disposition === 'ARCHIVE') {
+        await archiveDocument(document, issuedById, now);
+        summary.archived++;
+        continue;
+      }
+
+      if (!summary.certificateId) {
+        const certificate = await issueCertificate(issuedById, now);
+        summary.certificateId = certificate.id;
+        summary.certificateNumber = certificate.number;
+      }
+      await destroyDocument(document, certificateEntry(document, decision), summary.certificateId, now);
+      summary.destroyed++;
+    } catch (error) {
+      summary.failed++;
+      logger.error(`Retention of document ${document.id} failed:`, error);
+    }
+  }
+
+  if (summary.certificateId && summary.destroyed === 0) {
+    // Every destruction failed: there is nothing to certify
+    await prisma.documentDestructionCertificate.delete({ where: { id: summary.certificateId } });
+    summary.certificateId = null;
+    summary.certificateNumber = null;
+  }
+
+  return summary;
+}
@@ -0,0 +1,69 @@
+import { DocumentCategory, DocumentType } from '@/prisma/client';
+
+/**
+ * Retention schedules (tabla de retención documental) for case documents,
+ * after Ley 481-08 General de Archivos: once its period lapses a document is
+ * either transferred to the historical archive (conservación total) or
+ * destroyed (eliminación). Periods are counted from the closing of the case
+ * file, as archival periods are, or from the upload of documents that
+ * belong to no case. Keep these in line with the schedule approved for the
+ * Ministry by the Archivo General de la Nación.
+ */
+
+export type RetentionDisposition = 'ARCHIVE' | 'DESTROY';
+
+export interface RetentionRule {
+  years: number;
+  disposition: RetentionDisposition;
+  // Legal basis, recorded on destruction certificates
+  basis: string;
+}
+
+const PERMANENT = 'Ley 481-08, conservación total';
+
+export const TYPE_RETENTION: Record<DocumentType, RetentionRule> = {
+  [DocumentType.LEGAL_DOCUMENT]: { years: 20, disposition: 'ARCHIVE', basis: PERMANENT },
+  [DocumentType.PROPERTY_DOCUMENT]: { years: 20, disposition: 'ARCHIVE', basis: PERMANENT },
+  [DocumentType.CONTRACT_DOCUMENT]: { years: 20, disposition: 'ARCHIVE', basis: PERMANENT },
+  [DocumentType.TECHNICAL_REPORT]: { years: 15, disposition: 'ARCHIVE', basis: PERMANENT },
+  [DocumentType.PHOTOGRAPH]: { years: 15, disposition: 'ARCHIVE', basis: PERMANENT },
+  [DocumentType.FINANCIAL_RECORD]: {
+    years: 10,
+    disposition: 'DESTROY',
+    basis: 'Ley 11-92 (Código Tributario), conservación de registros contables por 10 años',
+  },
+  [DocumentType.IDENTIFICATION_DOCUMENT]: {
+    years: 10,
+    disposition: 'DESTROY',
+    basis: 'Ley 172-13 de protección de datos personales, eliminación cumplida su finalidad',
+  },
+  [DocumentType.NOTIFICATION_DOCUMENT]: { years: 10, disposition: 'DESTROY', basis: 'Ley 481-08, valor administrativo' },
+  [DocumentType.VIDEO]: { years: 10, disposition: 'DESTROY', basis: 'Ley 481-08, valor administrativo' },
+  [DocumentType.AUDIO]: { years: 10, disposition: 'DESTROY', basis: 'Ley 481-08, valor administrativo' },
+  [DocumentType.SPREADSHEET]: { years: 5, disposition: 'DESTROY', basis: 'Ley 481-08, documento de apoyo' },
+  [DocumentType.PRESENTATION]: { years: 5, disposition: 'DESTROY', basis: 'Ley 481-08, documento de apoyo' },
+  [DocumentType.OTHER]: { years: 5, disposition: 'DESTROY', basis: 'Ley 481-08, documento de apoyo' },
+};
+
+// Categories that call for more than their type does
+export const CATEGORY_RETENTION: Partial<Record<DocumentCategory, RetentionRule>> = {
+  [DocumentCategory.LEGAL]: { years: 20, disposition: 'ARCHIVE', basis: PERMANENT },
+  [DocumentCategory.FINANCIAL]: TYPE_RETENTION[DocumentType.FINANCIAL_RECORD],
+};
+
+// Archiving outranks destruction, then the longer period wins
+function stricter(a: RetentionRule, b: RetentionRule): RetentionRule {
+  if (a.disposition !== b.disposition) {
+    return a.disposition === 'ARCHIVE' ? a : b;
+  }
+  return b.years > a.years ? b : a;
+}
+
+/**
+ * Rule of a document: the stricter of those of its type and its category.
+ */
+export function retentionRuleFor(documentType: DocumentType, category: DocumentCategory): RetentionRule {
+  const byType = TYPE_RETENTION[documentType];
+  const byCategory = CATEGORY_RETENTION[category];
+  return byCategory ? stricter(byType, byCategory) : byType;
+}
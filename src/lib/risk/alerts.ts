@@ -0,0 +1,108 @@
+import { prisma } from '@/lib/prisma';
+import { notifyRiskAlert } from '@/lib/services/notification.service';
+import { AlertType, RiskLevel, type RiskAlert } from '@/prisma/client';
+import { compareRiskLevels } from './scoring';
+
+interface AlertThreshold {
+  level: RiskLevel;
+  severity: 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  alertType: AlertType;
+}
+
+// Highest first; reaching a level from below raises one alert for it
+export const RISK_ALERT_THRESHOLDS: readonly AlertThreshold[] = [
+  { level: RiskLevel.CRITICAL, severity: 'CRITICAL', alertType: AlertType.ESCALATION_REQUIRED },
+  { level: RiskLevel.VERY_HIGH, severity: 'HIGH', alertType: AlertType.RISK_IDENTIFIED },
+  { level: RiskLevel.HIGH, severity: 'MEDIUM', alertType: AlertType.RISK_IDENTIFIED },
+];
+
+const LOWEST_ALERT_LEVEL = RiskLevel.HIGH;
+
+const LEVEL_LABELS: Record<RiskLevel, string> = {
+  VERY_LOW: 'muy bajo',
+  LOW: 'bajo',
+  MEDIUM: 'medio',
+  HIGH: 'alto',
+  VERY_HIGH: 'muy alto',
+  CRITICAL: 'crítico',
+};
+
+export interface RiskAlertInput {
+  assessment: { id: string; caseId: string; riskLevel: RiskLevel; riskScore: number };
+  previousLevel: RiskLevel | null;
+  actorId: string;
+  /** Labels of the factors behind the assessment, for the alert message */
+  factorLabels?: string[];
+}
+
+/**
+ * Latest risk level of a case before the given assessment, or null for its
+ * first assessment.
+ */
+export async function getPreviousRiskLevel(caseId: string, excludeId?: string): Promise<RiskLevel | null> {
+  const previous = await prisma.riskAssessment.findFirst({
+    where: { caseId, ...(excludeId && { id: { not: excludeId } }) },
+    orderBy: { assessmentDate: 'desc' },
+    select: { riskLevel: true },
+  });
+  return previous?.riskLevel ?? null;
+}
+
+/**
+ * Raise an alert when an assessment takes the case's risk level across a
+ * threshold, and resolve the open alerts when it drops below all of them.
+ * Returns the alert raised, if any.
+ */
+export async function applyRiskAlertThresholds(input: RiskAlertInput): Promise<RiskAlert | null> {
+  const { assessment, previousLevel, actorId } = input;
+
+  if (compareRiskLevels(assessment.riskLevel, LOWEST_ALERT_LEVEL) < 0) {
+    if (previousLevel && compareRiskLevels(previousLevel, LOWEST_ALERT_LEVEL) >= 0) {
+      const now = new Date();
+      await prisma.riskAlert.updateMany({
+        where: { isActive: true, resolvedAt: null, riskAssessment: { caseId: assessment.caseId } },
+        data: { isActive: false, resolvedAt: now, resolvedBy: actorId },
+      });
+    }
+    return null;
+  }
+
+  const threshold = RISK_ALERT_THRESHOLDS.find(
+    (candidate) =>
+      compareRiskLevels(assessment.riskLevel, candidate.level) >= 0 &&
+      (!previousLevel || compareRiskLevels(previousLevel, candidate.level) < 0)
+  );
+  if (!threshold) return null;
+
+  const currentCase = await prisma.case.findUnique({
+    where: { id: assessment.caseId },
+    select: { fileNumber: true, assignedToId: true, supervisedById: true },
+  });
+  if (!currentCase) return null;
+
+  const factors = input.factorLabels?.length ? ` Factores: ${input.factorLabels.join('; ')}.` : '';
+  const alert = await prisma.riskAlert.create({
+    data: {
+      riskAssessmentId: assessment.id,
+      alertType: threshold.alertType,
+      title: `Riesgo ${LEVEL_LABELS[assessment.riskLevel]} en el caso ${currentCase.fileNumber}`,
+      message:
+        `El nivel de riesgo pasó de ${previousLevel ? LEVEL_LABELS[previousLevel] : 'sin evaluar'} a ` +
+        `${LEVEL_LABELS[assessment.riskLevel]} (puntuación ${assessment.riskScore}).${factors}`,
+      severity: threshold.severity,
+      recipients: [currentCase.assignedToId, currentCase.supervisedById].filter((id): id is string => !!id),
+      triggerConditions: {
+        threshold: threshold.level,
+        previousLevel,
+        riskLevel: assessment.riskLevel,
+        riskScore: assessment.riskScore,
+      },
+    },
+  });
+
+  if (alert.sendEmail) {
+    await notifyRiskAlert(alert.id, actorId);
+  }
+
+  return alert;
+}
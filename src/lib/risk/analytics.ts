@@ -0,0 +1,98 @@
+import { format } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { RiskLevel, type Prisma } from '@/prisma/client';
+import { RISK_FACTOR_LABELS, type RiskFactorKey } from './factors';
+
+export interface RiskAnalytics {
+  overview: {
+    totalAssessments: number;
+    activeRisks: number;
+    mitigatedRisks: number;
+    averageRiskScore: number;
+    highRiskCount: number;
+    criticalRiskCount: number;
+  };
+  byLevel: Record<string, number>;
+  byStage: Record<string, { count: number; averageScore: number; highRiskCount: number }>;
+  byTrend: Array<{ date: string; score: number; count: number }>;
+  topRiskFactors: Array<{ factor: string; count: number; averageImpact: number }>;
+}
+
+const HIGH_LEVELS: RiskLevel[] = [RiskLevel.HIGH, RiskLevel.VERY_HIGH, RiskLevel.CRITICAL];
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : 0;
+
+function storedFactors(value: Prisma.JsonValue): Array<{ key: RiskFactorKey; impact: number }> {
+  // Manual assessments store their ratings instead of a list of factors
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (item): item is { key: RiskFactorKey; impact: number } =>
+      !!item &&
+      typeof item === 'object' &&
+      !Array.isArray(item) &&
+      typeof item.key === 'string' &&
+      item.key in RISK_FACTOR_LABELS &&
+      typeof item.impact === 'number'
+  );
+}
+
+/**
+ * Aggregate the assessments matching `where`. Level counts and the
+ * high/critical counts cover the active assessments; stage, trend and factor
+ * figures cover all of them.
+ */
+export async function getRiskAnalytics(where: Prisma.RiskAssessmentWhereInput): Promise<RiskAnalytics> {
+  const assessments = await prisma.riskAssessment.findMany({
+    where,
+    select: { stage: true, riskLevel: true, riskScore: true, riskFactors: true, status: true, assessmentDate: true },
+    orderBy: { assessmentDate: 'asc' },
+  });
+  const active = assessments.filter((assessment) => assessment.status === 'ACTIVE');
+
+  const byLevel: RiskAnalytics['byLevel'] = Object.fromEntries(Object.values(RiskLevel).map((level) => [level, 0]));
+  for (const assessment of active) {
+    byLevel[assessment.riskLevel] = (byLevel[assessment.riskLevel] ?? 0) + 1;
+  }
+
+  const stageScores = new Map<string, number[]>();
+  const stageHigh = new Map<string, number>();
+  const dayScores = new Map<string, number[]>();
+  const factorImpacts = new Map<RiskFactorKey, number[]>();
+  for (const assessment of assessments) {
+    const stage = assessment.stage ?? 'SIN_ETAPA';
+    stageScores.set(stage, [...(stageScores.get(stage) ?? []), assessment.riskScore]);
+    if (HIGH_LEVELS.includes(assessment.riskLevel)) {
+      stageHigh.set(stage, (stageHigh.get(stage) ?? 0) + 1);
+    }
+
+    const day = format(assessment.assessmentDate, 'yyyy-MM-dd');
+    dayScores.set(day, [...(dayScores.get(day) ?? []), assessment.riskScore]);
+
+    for (const factor of storedFactors(assessment.riskFactors)) {
+      factorImpacts.set(factor.key, [...(factorImpacts.get(factor.key) ?? []), factor.impact]);
+    }
+  }
+
+  return {
+    overview: {
+      totalAssessments: assessments.length,
+      activeRisks: active.length,
+      mitigatedRisks: assessments.filter((assessment) => assessment.status === 'MITIGATED').length,
+      averageRiskScore: average(active.map((assessment) => assessment.riskScore)),
+      highRiskCount: active.filter((assessment) => HIGH_LEVELS.includes(assessment.riskLevel)).length,
+      criticalRiskCount: active.filter((assessment) => assessment.riskLevel === RiskLevel.CRITICAL).length,
+    },
+    byLevel,
+    byStage: Object.fromEntries(
+      [...stageScores].map(([stage, scores]) => [
+        stage,
+        { count: scores.length, averageScore: average(scores), highRiskCount: stageHigh.get(stage) ?? 0 },
+      ])
+    ),
+    byTrend: [...dayScores].map(([date, scores]) => ({ date, score: average(scores), count: scores.length })),
+    topRiskFactors: [...factorImpacts]
+      .map(([key, impacts]) => ({ factor: RISK_FACTOR_LABELS[key], count: impacts.length, averageImpact: average(impacts) }))
+      .sort((a, b) => b.count - a.count || b.averageImpact - a.averageImpact),
+  };
+}
@@ -0,0 +1,188 @@
+import { prisma } from '@/lib/prisma';
+import { computeStageSla, loadSlaContext } from '@/lib/sla';
+import { STAGE_LABELS } from '@/constants/stages';
+import { ObservationPriority, ObservationStatus, type CaseStage, type Prisma } from '@/prisma/client';
+import { applyRiskAlertThresholds, getPreviousRiskLevel } from './alerts';
+import { deriveRiskFactors, summarizeRiskFactors, type CaseRiskSnapshot, type RiskFactor } from './factors';
+import { riskLevelForScore } from './scoring';
+
+export const RISK_SOURCE_MANUAL = 'MANUAL';
+export const RISK_SOURCE_AUTOMATIC = 'AUTOMATIC';
+
+// Automatic assessments are redone rather than kept current
+const AUTOMATIC_VALIDITY_DAYS = 7;
+
+export class RiskAssessmentError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'RiskAssessmentError';
+  }
+}
+
+export const RISK_ASSESSMENT_INCLUDE = {
+  alerts: { orderBy: { createdAt: 'desc' } },
+  assessor: { select: { id: true, firstName: true, lastName: true, email: true } },
+} satisfies Prisma.RiskAssessmentInclude;
+
+/**
+ * Load what the factors are derived from: the current stage SLA, earlier
+ * stages left after their due date, required documents still missing,
+ * compensation against appraisal, open critical observations and returns.
+ */
+export async function loadCaseRiskSnapshot(caseId: string, now: Date = new Date()): Promise<CaseRiskSnapshot | null> {
+  const currentCase = await prisma.case.findUnique({
+    where: { id: caseId, deletedAt: null },
+    select: {
+      currentStage: true,
+      departmentId: true,
+      appraisalValue: true,
+      compensationAmount: true,
+      stageAssignments: {
+        where: { isActive: true },
+        select: {
+          id: true,
+          stage: true,
+          assignedAt: true,
+          dueDate: true,
+          stageChecklistCompletions: { where: { isCompleted: true }, select: { checklistId: true } },
+        },
+      },
+      stageProgressions: {
+        select: { fromStage: true, toStage: true, progressionType: true, reason: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      },
+      observations: {
+        where: {
+          priority: { in: [ObservationPriority.CRITICAL, ObservationPriority.BLOCKING] },
+          status: { notIn: [ObservationStatus.RESOLVED, ObservationStatus.CLOSED] },
+        },
+        select: { title: true, priority: true, deadline: true },
+      },
+    },
+  });
+  if (!currentCase) return null;
+
+  const [context, documentItems] = await Promise.all([
+    loadSlaContext(now),
+    prisma.stageChecklist.findMany({
+      where: { stage: currentCase.currentStage, itemType: 'DOCUMENT', isRequired: true, isActive: true },
+      select: { id: true, title: true },
+      orderBy: { sequence: 'asc' },
+    }),
+  ]);
+
+  const assignment = currentCase.stageAssignments.find((item) => item.stage === currentCase.currentStage);
+  const sla = assignment
+    ? computeStageSla(
+        context,
+        {
+          stage: currentCase.currentStage,
+          departmentId: currentCase.departmentId,
+          startedAt: assignment.assignedAt,
+          dueDate: assignment.dueDate,
+        },
+        now
+      )
+    : null;
+
+  // Each stage left is measured from when the case last entered it
+  const enteredAt = new Map<CaseStage, Date>();
+  const overdueStages: CaseStage[] = [];
+  for (const progression of currentCase.stageProgressions) {
+    const startedAt = progression.fromStage ? enteredAt.get(progression.fromStage) : undefined;
+    if (progression.fromStage && startedAt) {
+      const left = computeStageSla(
+        context,
+        { stage: progression.fromStage, departmentId: currentCase.departmentId, startedAt },
+        progression.createdAt
+      );
+      if (left.status === 'overdue') overdueStages.push(progression.fromStage);
+    }
+    enteredAt.set(progression.toStage, progression.createdAt);
+  }
+
+  const completed = new Set(assignment?.stageChecklistCompletions.map((item) => item.checklistId) ?? []);
+
+  return {
+    currentStage: currentCase.currentStage,
+    currentSla: sla && { status: sla.status, dueDate: sla.dueDate, percentUsed: sla.percentUsed },
+    overdueStages,
+    missingDocuments: documentItems.filter((item) => !completed.has(item.id)).map((item) => item.title),
+    appraisalValue: currentCase.appraisalValue,
+    compensationAmount: currentCase.compensationAmount,
+    openCriticalObservations: currentCase.observations,
+    stageReturns: currentCase.stageProgressions
+      .filter((progression) => progression.progressionType === 'BACKWARD')
+      .map(({ fromStage, toStage, reason }) => ({ fromStage, toStage, reason })),
+  };
+}
+
+function describeFactors(factors: RiskFactor[], stage: CaseStage): string {
+  if (factors.length === 0) {
+    return `Evaluación automática en la etapa ${STAGE_LABELS[stage]}: no se identificaron factores de riesgo.`;
+  }
+  return `Evaluación automática en la etapa ${STAGE_LABELS[stage]}: ${factors.map((item) => item.label).join('; ')}.`;
+}
+
+export interface AssessCaseRiskInput {
+  caseId: string;
+  assessedBy: string;
+  stage?: CaseStage;
+}
+
+/**
+ * Assess a case from its data and record the result as its current
+ * automatic assessment; earlier active automatic assessments are closed.
+ * Raises a risk alert when the level crosses a threshold.
+ */
+export async function assessCaseRisk(input: AssessCaseRiskInput, now: Date = new Date()) {
+  const snapshot = await loadCaseRiskSnapshot(input.caseId, now);
+  if (!snapshot) {
+    throw new RiskAssessmentError('Case not found', 404);
+  }
+
+  const factors = deriveRiskFactors(snapshot, now);
+  const { riskScore, ...ratings } = summarizeRiskFactors(factors);
+  const riskLevel = riskLevelForScore(riskScore);
+  const stage = input.stage ?? snapshot.currentStage;
+  const previousLevel = await getPreviousRiskLevel(input.caseId);
+
+  const assessment = await prisma.$transaction(async (tx) => {
+    await tx.riskAssessment.updateMany({
+      where: { caseId: input.caseId, source: RISK_SOURCE_AUTOMATIC, status: 'ACTIVE' },
+      data: { status: 'CLOSED' },
+    });
+
+    return tx.riskAssessment.create({
+      data: {
+        caseId: input.caseId,
+        stage,
+        source: RISK_SOURCE_AUTOMATIC,
+        riskFactors: factors,
+        riskLevel,
+        riskScore,
+        ...ratings,
+        description: describeFactors(factors, stage),
+        recommendations: factors.map((item) => item.recommendation),
+        assessedBy: input.assessedBy,
+        assessmentDate: now,
+        validUntil: new Date(now.getTime() + AUTOMATIC_VALIDITY_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+  });
+
+  await applyRiskAlertThresholds({
+    assessment,
+    previousLevel,
+    actorId: input.assessedBy,
+    factorLabels: factors.map((item) => item.label),
+  });
+
+  return prisma.riskAssessment.findUniqueOrThrow({
+    where: { id: assessment.id },
+    include: RISK_ASSESSMENT_INCLUDE,
+  });
+}
@@ -0,0 +1,206 @@
+import type { CaseStage, ObservationPriority, Prisma } from '@/prisma/client';
+import type { SlaStatus } from '@/lib/sla';
+import { STAGE_LABELS } from '@/constants/stages';
+import { scoreRatings, type RiskRatings } from './scoring';
+
+export type RiskFactorKey =
+  | 'overdue_stage'
+  | 'missing_documents'
+  | 'compensation_deviation'
+  | 'critical_observations'
+  | 'stage_returns';
+
+export const RISK_FACTOR_LABELS: Record<RiskFactorKey, string> = {
+  overdue_stage: 'Etapas vencidas',
+  missing_documents: 'Documentos faltantes',
+  compensation_deviation: 'Desviación compensación/avalúo',
+  critical_observations: 'Observaciones críticas abiertas',
+  stage_returns: 'Devoluciones de etapa',
+};
+
+// Factors are stored as the riskFactors JSON of an assessment, so neither
+// this nor RiskRatings is an interface
+export type RiskFactor = RiskRatings & {
+  key: RiskFactorKey;
+  label: string;
+  score: number;
+  details: Prisma.JsonObject;
+  recommendation: string;
+};
+
+/**
+ * The case data the assessor looks at, loaded once so factor derivation is
+ * a pure function of it.
+ */
+export interface CaseRiskSnapshot {
+  currentStage: CaseStage;
+  currentSla: { status: SlaStatus; dueDate: Date; percentUsed: number } | null;
+  /** Earlier stages that were left after their SLA due date */
+  overdueStages: CaseStage[];
+  missingDocuments: string[];
+  appraisalValue: number | null;
+  compensationAmount: number | null;
+  openCriticalObservations: Array<{ title: string; priority: ObservationPriority; deadline: Date | null }>;
+  stageReturns: Array<{ fromStage: CaseStage | null; toStage: CaseStage; reason: string | null }>;
+}
+
+// Compensation deviations from the appraisal below the first bound are not a risk
+const DEVIATION_BANDS: Array<[number, RiskRatings]> = [
+  [0.5, { likelihood: 5, impact: 5, urgency: 3 }],
+  [0.2, { likelihood: 4, impact: 4, urgency: 3 }],
+  [0.1, { likelihood: 3, impact: 3, urgency: 2 }],
+];
+
+const SLA_RATINGS: Partial<Record<SlaStatus, RiskRatings>> = {
+  overdue: { likelihood: 5, impact: 4, urgency: 5 },
+  critical: { likelihood: 4, impact: 3, urgency: 4 },
+  warning: { likelihood: 3, impact: 2, urgency: 3 },
+};
+
+const clamp = (value: number) => Math.min(Math.max(Math.round(value), 1), 5);
+
+function factor(
+  key: RiskFactorKey,
+  label: string,
+  ratings: RiskRatings,
+  details: Prisma.JsonObject,
+  recommendation: string
+): RiskFactor {
+  const clamped = {
+    likelihood: clamp(ratings.likelihood),
+    impact: clamp(ratings.impact),
+    urgency: clamp(ratings.urgency),
+  };
+  return { key, label, ...clamped, score: scoreRatings(clamped), details, recommendation };
+}
+
+function overdueStageFactor(snapshot: CaseRiskSnapshot): RiskFactor | null {
+  const ratings = snapshot.currentSla ? SLA_RATINGS[snapshot.currentSla.status] : undefined;
+  const pastOverruns = snapshot.overdueStages.length;
+  if (!ratings && pastOverruns < 2) return null;
+
+  const stage = STAGE_LABELS[snapshot.currentStage];
+  const details = {
+    currentStage: snapshot.currentStage,
+    slaStatus: snapshot.currentSla?.status ?? null,
+    dueDate: snapshot.currentSla?.dueDate.toISOString() ?? null,
+    percentUsed: snapshot.currentSla?.percentUsed ?? null,
+    overdueStages: snapshot.overdueStages,
+  };
+
+  if (!ratings) {
+    return factor(
+      'overdue_stage',
+      `${pastOverruns} etapas anteriores excedieron su plazo`,
+      { likelihood: 2 + pastOverruns / 2, impact: 2, urgency: 2 },
+      details,
+      'Revisar las causas de los retrasos recurrentes del expediente'
+    );
+  }
+
+  const label =
+    snapshot.currentSla?.status === 'overdue'
+      ? `La etapa ${stage} está vencida`
+      : `La etapa ${stage} está próxima a vencer`;
+  return factor(
+    'overdue_stage',
+    label,
+    // Earlier overruns make a further delay more likely
+    { ...ratings, likelihood: ratings.likelihood + (pastOverruns > 0 ? 1 : 0) },
+    details,
+    `Priorizar la conclusión de la etapa ${stage} o solicitar una extensión de plazo`
+  );
+}
+
+function missingDocumentsFactor(snapshot: CaseRiskSnapshot): RiskFactor | null {
+  const count = snapshot.missingDocuments.length;
+  if (count === 0) return null;
+
+  const late = snapshot.currentSla?.status === 'overdue' || snapshot.currentSla?.status === 'critical';
+  return factor(
+    'missing_documents',
+    `${count} ${count === 1 ? 'documento requerido pendiente' : 'documentos requeridos pendientes'}`,
+    { likelihood: 2 + count, impact: 3, urgency: late ? 5 : 3 },
+    { stage: snapshot.currentStage, documents: snapshot.missingDocuments },
+    `Cargar los documentos pendientes de la etapa ${STAGE_LABELS[snapshot.currentStage]}`
+  );
+}
+
+function compensationDeviationFactor(snapshot: CaseRiskSnapshot): RiskFactor | null {
+  const { appraisalValue, compensationAmount } = snapshot;
+  if (!appraisalValue || appraisalValue <= 0 || compensationAmount === null) return null;
+
+  const deviation = Math.abs(compensationAmount - appraisalValue) / appraisalValue;
+  const band = DEVIATION_BANDS.find(([bound]) => deviation >= bound);
+  if (!band) return null;
+
+  const percent = Math.round(deviation * 1000) / 10;
+  return factor(
+    'compensation_deviation',
+    `La compensación difiere ${percent}% del avalúo`,
+    band[1],
+    { appraisalValue, compensationAmount, deviationPercent: percent },
+    'Justificar o revisar la diferencia entre la compensación y el avalúo'
+  );
+}
+
+function criticalObservationsFactor(snapshot: CaseRiskSnapshot, now: Date): RiskFactor | null {
+  const observations = snapshot.openCriticalObservations;
+  if (observations.length === 0) return null;
+
+  const blocking = observations.some((observation) => observation.priority === 'BLOCKING');
+  const overdue = observations.filter((observation) => observation.deadline && observation.deadline < now).length;
+  return factor(
+    'critical_observations',
+    `${observations.length} ${observations.length === 1 ? 'observación crítica abierta' : 'observaciones críticas abiertas'}`,
+    { likelihood: 2 + observations.length, impact: blocking ? 5 : 4, urgency: overdue > 0 ? 5 : 4 },
+    { count: observations.length, blocking, overdue, titles: observations.map((observation) => observation.title) },
+    'Responder y resolver las observaciones críticas abiertas'
+  );
+}
+
+function stageReturnsFactor(snapshot: CaseRiskSnapshot): RiskFactor | null {
+  const count = snapshot.stageReturns.length;
+  if (count === 0) return null;
+
+  return factor(
+    'stage_returns',
+    `${count} ${count === 1 ? 'devolución de etapa' : 'devoluciones de etapa'}`,
+    { likelihood: 1 + count, impact: 3, urgency: 2 },
+    { count, returns: snapshot.stageReturns },
+    'Atender las causas de devolución antes de avanzar el expediente'
+  );
+}
+
+/**
+ * Risk factors present in a case, most severe first.
+ */
+export function deriveRiskFactors(snapshot: CaseRiskSnapshot, now: Date = new Date()): RiskFactor[] {
+  return [
+    overdueStageFactor(snapshot),
+    missingDocumentsFactor(snapshot),
+    compensationDeviationFactor(snapshot),
+    criticalObservationsFactor(snapshot, now),
+    stageReturnsFactor(snapshot),
+  ]
+    .filter((item): item is RiskFactor => item !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Ratings and score of a set of factors: the most severe factor sets the
+ * score and each further factor adds 5 points. No factors means no risk.
+ */
+export function summarizeRiskFactors(factors: RiskFactor[]): RiskRatings & { riskScore: number } {
+  if (factors.length === 0) {
+    return { likelihood: 1, impact: 1, urgency: 1, riskScore: 0 };
+  }
+
+  const top = Math.max(...factors.map((item) => item.score));
+  return {
+    likelihood: Math.max(...factors.map((item) => item.likelihood)),
+    impact: Math.max(...factors.map((item) => item.impact)),
+    urgency: Math.max(...factors.map((item) => item.urgency)),
+    riskScore: Math.min(top + 5 * (factors.length - 1), 100),
+  };
+}
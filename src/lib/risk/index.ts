@@ -0,0 +1,26 @@
+export {
+  RISK_LEVEL_ORDER,
+  compareRiskLevels,
+  riskLevelForScore,
+  scoreRatings,
+  type RiskRatings,
+} from './scoring';
+export {
+  RISK_FACTOR_LABELS,
+  deriveRiskFactors,
+  summarizeRiskFactors,
+  type CaseRiskSnapshot,
+  type RiskFactor,
+  type RiskFactorKey,
+} from './factors';
+export { RISK_ALERT_THRESHOLDS, applyRiskAlertThresholds, getPreviousRiskLevel, type RiskAlertInput } from './alerts';
+export {
+  RISK_ASSESSMENT_INCLUDE,
+  RISK_SOURCE_AUTOMATIC,
+  RISK_SOURCE_MANUAL,
+  RiskAssessmentError,
+  assessCaseRisk,
+  loadCaseRiskSnapshot,
+  type AssessCaseRiskInput,
+} from './assessor';
+export { getRiskAnalytics, type RiskAnalytics } from './analytics';
@@ -0,0 +1,40 @@
+import { RiskLevel } from '@/prisma/client';
+
+export const RISK_LEVEL_ORDER: readonly RiskLevel[] = [
+  RiskLevel.VERY_LOW,
+  RiskLevel.LOW,
+  RiskLevel.MEDIUM,
+  RiskLevel.HIGH,
+  RiskLevel.VERY_HIGH,
+  RiskLevel.CRITICAL,
+];
+
+// Lower bound of each level on the 0-100 score, highest first
+const LEVEL_THRESHOLDS: Array<[number, RiskLevel]> = [
+  [80, RiskLevel.CRITICAL],
+  [65, RiskLevel.VERY_HIGH],
+  [50, RiskLevel.HIGH],
+  [35, RiskLevel.MEDIUM],
+  [20, RiskLevel.LOW],
+];
+
+export type RiskRatings = {
+  likelihood: number;
+  impact: number;
+  urgency: number;
+};
+
+export function riskLevelForScore(score: number): RiskLevel {
+  return LEVEL_THRESHOLDS.find(([threshold]) => score >= threshold)?.[1] ?? RiskLevel.VERY_LOW;
+}
+
+export function compareRiskLevels(a: RiskLevel, b: RiskLevel): number {
+  return RISK_LEVEL_ORDER.indexOf(a) - RISK_LEVEL_ORDER.indexOf(b);
+}
+
+/**
+ * Score of a likelihood/impact/urgency triple (each 1-5) on a 0-100 scale.
+ */
+export function scoreRatings({ likelihood, impact, urgency }: RiskRatings): number {
+  return Math.round(((likelihood + impact + urgency) / 15) * 1000) / 10;
+}
@@ -0,0 +1,71 @@
+import type { RuleSchema } from './types';
+
+const USER_REFERENCE: RuleSchema = {
+  id: 'string',
+  email: 'string',
+  firstName: 'string',
+  lastName: 'string',
+};
+
+/**
+ * Fields a validation rule may reference when evaluated against a case.
+ * Mirrors the Case model plus a few derived values computed by
+ * buildCaseRuleScope(); keep both in sync when adding fields.
+ */
+export const CASE_RULE_SCHEMA: RuleSchema = {
+  id: 'string',
+  fileNumber: 'string',
+  title: 'string',
+  description: 'string',
+  currentStage: 'string',
+  priority: 'string',
+  status: 'string',
+  isDraft: 'boolean',
+
+  startDate: 'date',
+  expectedEndDate: 'date',
+  actualEndDate: 'date',
+  createdAt: 'date',
+  updatedAt: 'date',
+
+  propertyAddress: 'string',
+  propertyCity: 'string',
+  propertyProvince: 'string',
+  propertyDescription: 'string',
+  propertyCoordinates: 'string',
+  propertyArea: 'number',
+  propertyType: 'string',
+
+  ownerName: 'string',
+  ownerIdentification: 'string',
+  ownerContact: 'string',
+  ownerEmail: 'string',
+  ownerAddress: 'string',
+  ownerType: 'string',
+
+  estimatedValue: 'number',
+  actualValue: 'number',
+  appraisalValue: 'number',
+  compensationAmount: 'number',
+  currency: 'string',
+
+  expropriationDecree: 'string',
+  judicialCaseNumber: 'string',
+  legalStatus: 'string',
+
+  progressPercentage: 'number',
+
+  department: {
+    id: 'string',
+    code: 'string',
+    name: 'string',
+  },
+  assignedTo: USER_REFERENCE,
+  supervisedBy: USER_REFERENCE,
+  createdBy: USER_REFERENCE,
+
+  // Derived values
+  documentCount: 'number',
+  documentTypes: { list: 'string' },
+  stageStartedAt: 'date',
+};
@@ -0,0 +1,26 @@
+import type { RuleDiagnostic, SourceSpan } from './types';
+
+export class RuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    public span: SourceSpan,
+    public code: RuleDiagnostic['code'] = 'SYNTAX_ERROR'
+  ) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+  }
+
+  toDiagnostic(): RuleDiagnostic {
+    return { code: this.code, message: this.message, span: this.span };
+  }
+}
+
+export class RuleEvaluationError extends Error {
+  constructor(
+    message: string,
+    public span?: SourceSpan
+  ) {
+    super(message);
+    this.name = 'RuleEvaluationError';
+  }
+}
@@ -0,0 +1,196 @@
+import { RuleEvaluationError } from './errors';
+import { RULE_FUNCTIONS } from './functions';
+import type { RuleNode, RuleValue } from './types';
+
+export const MAX_EVALUATION_STEPS = 10_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Property names that must never be read from the scope object
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+export type RuleScope = Record<string, unknown>;
+
+interface EvaluationState {
+  scope: RuleScope;
+  now: Date;
+  steps: number;
+}
+
+function toRuleValue(value: unknown): RuleValue {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value)) return value.map(toRuleValue);
+  // Prisma Decimal and similar numeric wrappers
+  if (typeof value === 'object' && typeof (value as { toNumber?: unknown }).toNumber === 'function') {
+    return (value as { toNumber: () => number }).toNumber();
+  }
+  return null;
+}
+
+/**
+ * Read a dotted path from the scope, only following own properties.
+ */
+export function resolvePath(scope: RuleScope, path: string[]): RuleValue {
+  let current: unknown = scope;
+  for (const part of path) {
+    if (FORBIDDEN_PROPERTIES.has(part)) return null;
+    if (current === null || typeof current !== 'object') return null;
+    if (!Object.prototype.hasOwnProperty.call(current, part)) return null;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return toRuleValue(current);
+}
+
+function isEqual(a: RuleValue, b: RuleValue): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i] ?? null));
+  }
+  return a === b;
+}
+
+function toComparable(value: RuleValue): number | string | null {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return null;
+}
+
+function truthy(value: RuleValue, node: RuleNode): boolean {
+  if (value === null) return false;
+  if (typeof value === 'boolean') return value;
+  throw new RuleEvaluationError('Se esperaba un valor booleano', node.span);
+}
+
+function numeric(value: RuleValue, node: RuleNode): number {
+  if (typeof value === 'number') return value;
+  throw new RuleEvaluationError('Se esperaba un número', node.span);
+}
+
+function evaluateNode(node: RuleNode, state: EvaluationState): RuleValue {
+  state.steps++;
+  if (state.steps > MAX_EVALUATION_STEPS) {
+    throw new RuleEvaluationError('La evaluación excede el límite de operaciones', node.span);
+  }
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'field':
+      return resolvePath(state.scope, node.path);
+
+    case 'list':
+      return node.items.map((item) => evaluateNode(item, state));
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, state);
+      if (node.operator === 'not') return !truthy(operand, node.operand);
+      return operand === null ? null : -numeric(operand, node.operand);
+    }
+
+    case 'binary': {
+      const { operator } = node;
+
+      if (operator === 'and') {
+        return truthy(evaluateNode(node.left, state), node.left) &&
+          truthy(evaluateNode(node.right, state), node.right);
+      }
+      if (operator === 'or') {
+        return truthy(evaluateNode(node.left, state), node.left) ||
+          truthy(evaluateNode(node.right, state), node.right);
+      }
+
+      const left = evaluateNode(node.left, state);
+      const right = evaluateNode(node.right, state);
+
+      switch (operator) {
+        case '==':
+          return isEqual(left, right);
+        case '!=':
+          return !isEqual(left, right);
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          const a = toComparable(left);
+          const b = toComparable(right);
+          if (a === null || b === null) return false;
+          if (operator === '<') return a < b;
+          if (operator === '<=') return a <= b;
+          if (operator === '>') return a > b;
+          return a >= b;
+        }
+        case 'in':
+          if (!Array.isArray(right)) return false;
+          return right.some((item) => isEqual(left, item));
+      }
+
+      if (left === null || right === null) return null;
+
+      if (left instanceof Date) {
+        if (right instanceof Date && operator === '-') {
+          return Math.floor((left.getTime() - right.getTime()) / DAY_MS);
+        }
+        if (typeof right === 'number' && (operator === '+' || operator === '-')) {
+          const offset = operator === '+' ? right : -right;
+          return new Date(left.getTime() + offset * DAY_MS);
+        }
+        throw new RuleEvaluationError('Operación de fecha no válida', node.span);
+      }
+
+      if (operator === '+' && typeof left === 'string' && typeof right === 'string') {
+        return left + right;
+      }
+
+      const a = numeric(left, node.left);
+      const b = numeric(right, node.right);
+      switch (operator) {
+        case '+':
+          return a + b;
+        case '-':
+          return a - b;
+        case '*':
+          return a * b;
+        case '/':
+        case '%':
+          if (b === 0) throw new RuleEvaluationError('División por cero', node.span);
+          return operator === '/' ? a / b : a % b;
+      }
+      throw new RuleEvaluationError(`Operador no soportado '${operator}'`, node.span);
+    }
+
+    case 'call': {
+      const fn = Object.prototype.hasOwnProperty.call(RULE_FUNCTIONS, node.name)
+        ? RULE_FUNCTIONS[node.name]
+        : undefined;
+      if (!fn) {
+        throw new RuleEvaluationError(`Función desconocida '${node.name}'`, node.span);
+      }
+      const args = node.args.map((arg) => evaluateNode(arg, state));
+      try {
+        return fn.impl(args, state.now);
+      } catch (error) {
+        if (error instanceof RuleEvaluationError && !error.span) {
+          error.span = node.span;
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed expression against a scope object.
+ * `now` is injectable so dry runs and tests are deterministic.
+ */
+export function evaluateExpression(
+  node: RuleNode,
+  scope: RuleScope,
+  now: Date = new Date()
+): RuleValue {
+  return evaluateNode(node, { scope, now, steps: 0 });
+}
@@ -0,0 +1,235 @@
+import { RuleEvaluationError } from './errors';
+import type { RuleType, RuleValue } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RuleFunction {
+  description: string;
+  params: RuleType[];
+  // Number of leading params that must be provided, defaults to params.length
+  minArgs?: number;
+  returns: RuleType | ((argTypes: RuleType[]) => RuleType);
+  impl: (args: RuleValue[], now: Date) => RuleValue;
+}
+
+function startOfDay(value: Date): Date {
+  return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+}
+
+function asDate(value: RuleValue, fn: string): Date | null {
+  if (value === null) return null;
+  if (value instanceof Date) return value;
+  throw new RuleEvaluationError(`${fn}() requiere una fecha`);
+}
+
+function asNumber(value: RuleValue, fn: string): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return value;
+  throw new RuleEvaluationError(`${fn}() requiere un número`);
+}
+
+function asString(value: RuleValue, fn: string): string | null {
+  if (value === null) return null;
+  if (typeof value === 'string') return value;
+  throw new RuleEvaluationError(`${fn}() requiere un texto`);
+}
+
+/**
+ * Whitelisted functions callable from rule expressions.
+ * Functions are null-tolerant: a null argument yields null instead of
+ * throwing, so rules over optional case fields fail closed at comparison.
+ */
+export const RULE_FUNCTIONS: Readonly<Record<string, RuleFunction>> = {
+  now: {
+    description: 'Fecha y hora actual',
+    params: [],
+    returns: 'date',
+    impl: (_args, now) => now,
+  },
+  today: {
+    description: 'Fecha actual sin hora',
+    params: [],
+    returns: 'date',
+    impl: (_args, now) => startOfDay(now),
+  },
+  date: {
+    description: 'Convierte un texto ISO (AAAA-MM-DD) en fecha',
+    params: ['string'],
+    returns: 'date',
+    impl: ([value]) => {
+      const text = asString(value ?? null, 'date');
+      if (text === null) return null;
+      const parsed = new Date(text);
+      if (Number.isNaN(parsed.getTime())) {
+        throw new RuleEvaluationError(`Fecha inválida: '${text}'`);
+      }
+      return parsed;
+    },
+  },
+  addDays: {
+    description: 'Suma días a una fecha',
+    params: ['date', 'number'],
+    returns: 'date',
+    impl: ([value, days]) => {
+      const base = asDate(value ?? null, 'addDays');
+      const amount = asNumber(days ?? null, 'addDays');
+      if (base === null || amount === null) return null;
+      return new Date(base.getTime() + amount * DAY_MS);
+    },
+  },
+  addMonths: {
+    description: 'Suma meses a una fecha',
+    params: ['date', 'number'],
+    returns: 'date',
+    impl: ([value, months]) => {
+      const base = asDate(value ?? null, 'addMonths');
+      const amount = asNumber(months ?? null, 'addMonths');
+      if (base === null || amount === null) return null;
+      const result = new Date(base);
+      result.setMonth(result.getMonth() + amount);
+      return result;
+    },
+  },
+  daysBetween: {
+    description: 'Días completos entre dos fechas',
+    params: ['date', 'date'],
+    returns: 'number',
+    impl: ([from, to]) => {
+      const start = asDate(from ?? null, 'daysBetween');
+      const end = asDate(to ?? null, 'daysBetween');
+      if (start === null || end === null) return null;
+      return Math.floor((end.getTime() - start.getTime()) / DAY_MS);
+    },
+  },
+  daysSince: {
+    description: 'Días completos transcurridos desde una fecha',
+    params: ['date'],
+    returns: 'number',
+    impl: ([from], now) => {
+      const start = asDate(from ?? null, 'daysSince');
+      if (start === null) return null;
+      return Math.floor((now.getTime() - start.getTime()) / DAY_MS);
+    },
+  },
+  year: {
+    description: 'Año de una fecha',
+    params: ['date'],
+    returns: 'number',
+    impl: ([value]) => asDate(value ?? null, 'year')?.getFullYear() ?? null,
+  },
+  abs: {
+    description: 'Valor absoluto',
+    params: ['number'],
+    returns: 'number',
+    impl: ([value]) => {
+      const number = asNumber(value ?? null, 'abs');
+      return number === null ? null : Math.abs(number);
+    },
+  },
+  round: {
+    description: 'Redondea un número a los decimales indicados',
+    params: ['number', 'number'],
+    minArgs: 1,
+    returns: 'number',
+    impl: ([value, digits]) => {
+      const number = asNumber(value ?? null, 'round');
+      if (number === null) return null;
+      const factor = Math.pow(10, asNumber(digits ?? 0, 'round') ?? 0);
+      return Math.round(number * factor) / factor;
+    },
+  },
+  min: {
+    description: 'Menor de dos números',
+    params: ['number', 'number'],
+    returns: 'number',
+    impl: ([a, b]) => {
+      const left = asNumber(a ?? null, 'min');
+      const right = asNumber(b ?? null, 'min');
+      if (left === null || right === null) return null;
+      return Math.min(left, right);
+    },
+  },
+  max: {
+    description: 'Mayor de dos números',
+    params: ['number', 'number'],
+    returns: 'number',
+    impl: ([a, b]) => {
+      const left = asNumber(a ?? null, 'max');
+      const right = asNumber(b ?? null, 'max');
+      if (left === null || right === null) return null;
+      return Math.max(left, right);
+    },
+  },
+  len: {
+    description: 'Longitud de un texto o lista',
+    params: ['any'],
+    returns: 'number',
+    impl: ([value]) => {
+      if (value === null || value === undefined) return 0;
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      throw new RuleEvaluationError('len() requiere un texto o una lista');
+    },
+  },
+  isEmpty: {
+    description: 'Verdadero si el valor es nulo, texto vacío o lista vacía',
+    params: ['any'],
+    returns: 'boolean',
+    impl: ([value]) =>
+      value === null ||
+      value === undefined ||
+      (typeof value === 'string' && value.trim() === '') ||
+      (Array.isArray(value) && value.length === 0),
+  },
+  isSet: {
+    description: 'Verdadero si el valor no es nulo ni texto vacío',
+    params: ['any'],
+    returns: 'boolean',
+    impl: ([value]) =>
+      value !== null &&
+      value !== undefined &&
+      !(typeof value === 'string' && value.trim() === ''),
+  },
+  contains: {
+    description: 'Verdadero si el texto contiene el fragmento (sin distinguir mayúsculas)',
+    params: ['string', 'string'],
+    returns: 'boolean',
+    impl: ([text, fragment]) => {
+      const haystack = asString(text ?? null, 'contains');
+      const needle = asString(fragment ?? null, 'contains');
+      if (haystack === null || needle === null) return false;
+      return haystack.toLowerCase().includes(needle.toLowerCase());
+    },
+  },
+  startsWith: {
+    description: 'Verdadero si el texto comienza con el prefijo',
+    params: ['string', 'string'],
+    returns: 'boolean',
+    impl: ([text, prefix]) => {
+      const value = asString(text ?? null, 'startsWith');
+      const start = asString(prefix ?? null, 'startsWith');
+      if (value === null || start === null) return false;
+      return value.startsWith(start);
+    },
+  },
+  lower: {
+    description: 'Convierte un texto a minúsculas',
+    params: ['string'],
+    returns: 'string',
+    impl: ([value]) => asString(value ?? null, 'lower')?.toLowerCase() ?? null,
+  },
+  upper: {
+    description: 'Convierte un texto a mayúsculas',
+    params: ['string'],
+    returns: 'string',
+    impl: ([value]) => asString(value ?? null, 'upper')?.toUpperCase() ?? null,
+  },
+  coalesce: {
+    description: 'Primer valor no nulo',
+    params: ['any', 'any'],
+    returns: (argTypes) => {
+      const known = argTypes.find((type) => type !== 'null' && type !== 'any');
+      return known ?? 'any';
+    },
+    impl: ([first, second]) => (first ?? null) !== null ? first! : second ?? null,
+  },
+};
@@ -0,0 +1,86 @@
+import { CASE_RULE_SCHEMA } from './case-schema';
+import { RuleSyntaxError } from './errors';
+import { evaluateExpression, type RuleScope } from './evaluator';
+import { parseExpression } from './parser';
+import { checkTypes, describeType } from './type-checker';
+import type { RuleAnalysis, RuleDiagnostic, RuleSchema, RuleType, RuleValue } from './types';
+
+export { CASE_RULE_SCHEMA } from './case-schema';
+export { RuleSyntaxError, RuleEvaluationError } from './errors';
+export { RULE_FUNCTIONS } from './functions';
+export { evaluateExpression, resolvePath, type RuleScope } from './evaluator';
+export { parseExpression } from './parser';
+export { describeType } from './type-checker';
+export type {
+  RuleAnalysis,
+  RuleDiagnostic,
+  RuleNode,
+  RuleSchema,
+  RuleType,
+  RuleValue,
+  SourceSpan,
+} from './types';
+
+interface AnalyzeOptions {
+  schema?: RuleSchema;
+  // Type the whole expression must produce, 'boolean' for pass/fail rules
+  expectedType?: RuleType;
+}
+
+/**
+ * Parse and type check an expression without evaluating it.
+ * Used when saving rules so analysts get every problem up front.
+ */
+export function analyzeExpression(
+  source: string,
+  { schema = CASE_RULE_SCHEMA, expectedType = 'boolean' }: AnalyzeOptions = {}
+): RuleAnalysis {
+  if (!source || !source.trim()) {
+    return {
+      valid: false,
+      diagnostics: [
+        { code: 'SYNTAX_ERROR', message: 'La expresión está vacía', span: { start: 0, end: 0 } },
+      ],
+    };
+  }
+
+  let ast;
+  try {
+    ast = parseExpression(source);
+  } catch (error) {
+    if (error instanceof RuleSyntaxError) {
+      return { valid: false, diagnostics: [error.toDiagnostic()] };
+    }
+    throw error;
+  }
+
+  const diagnostics: RuleDiagnostic[] = [];
+  const resultType = checkTypes(ast, schema, diagnostics);
+
+  if (
+    diagnostics.length === 0 &&
+    expectedType !== 'any' &&
+    resultType !== 'any' &&
+    describeType(resultType) !== describeType(expectedType)
+  ) {
+    diagnostics.push({
+      code: 'TYPE_MISMATCH',
+      message: `La regla debe producir ${describeType(expectedType)}, pero produce ${describeType(resultType)}`,
+      span: ast.span,
+    });
+  }
+
+  return { valid: diagnostics.length === 0, diagnostics, resultType, ast };
+}
+
+/**
+ * Parse and evaluate an expression in one step.
+ * Throws RuleSyntaxError or RuleEvaluationError on failure.
+ */
+export function runExpression(
+  source: string,
+  scope: RuleScope,
+  now: Date = new Date()
+): RuleValue {
+  return evaluateExpression(parseExpression(source), scope, now);
+}
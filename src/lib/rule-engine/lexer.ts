@@ -0,0 +1,148 @@
+import { RuleSyntaxError } from './errors';
+import type { Token } from './types';
+
+export const MAX_EXPRESSION_LENGTH = 2000;
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'true', 'false', 'null']);
+
+// Symbolic aliases accepted for readability by developers used to JS syntax
+const OPERATOR_ALIASES: Record<string, string> = {
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not',
+};
+
+const TWO_CHAR_OPERATORS = ['==', '!=', '<=', '>=', '&&', '||'];
+const ONE_CHAR_OPERATORS = ['+', '-', '*', '/', '%', '<', '>', '!'];
+const PUNCTUATION = ['(', ')', '[', ']', ',', '.'];
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+};
+
+/**
+ * Split a rule expression into tokens.
+ * Throws RuleSyntaxError with the offending position on invalid input.
+ */
+export function tokenize(source: string): Token[] {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new RuleSyntaxError(
+      `La expresión excede el máximo de ${MAX_EXPRESSION_LENGTH} caracteres`,
+      { start: 0, end: source.length },
+      'LIMIT_EXCEEDED'
+    );
+  }
+
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos]!;
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+
+    if (/[0-9]/.test(char)) {
+      while (pos < source.length && /[0-9_]/.test(source[pos]!)) pos++;
+      if (source[pos] === '.' && /[0-9]/.test(source[pos + 1] ?? '')) {
+        pos++;
+        while (pos < source.length && /[0-9_]/.test(source[pos]!)) pos++;
+      }
+      tokens.push({
+        type: 'number',
+        value: source.slice(start, pos).replace(/_/g, ''),
+        span: { start, end: pos },
+      });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      pos++;
+      let value = '';
+      let closed = false;
+      while (pos < source.length) {
+        const current = source[pos]!;
+        if (current === char) {
+          closed = true;
+          pos++;
+          break;
+        }
+        if (current === '\\') {
+          const escaped = ESCAPES[source[pos + 1] ?? ''];
+          if (escaped === undefined) {
+            throw new RuleSyntaxError('Secuencia de escape inválida', {
+              start: pos,
+              end: pos + 2,
+            });
+          }
+          value += escaped;
+          pos += 2;
+          continue;
+        }
+        value += current;
+        pos++;
+      }
+      if (!closed) {
+        throw new RuleSyntaxError('Texto sin cerrar', { start, end: pos });
+      }
+      tokens.push({ type: 'string', value, span: { start, end: pos } });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      while (pos < source.length && /[A-Za-z0-9_]/.test(source[pos]!)) pos++;
+      const word = source.slice(start, pos);
+      tokens.push({
+        type: KEYWORDS.has(word) ? 'keyword' : 'identifier',
+        value: word,
+        span: { start, end: pos },
+      });
+      continue;
+    }
+
+    const pair = source.slice(pos, pos + 2);
+    if (TWO_CHAR_OPERATORS.includes(pair)) {
+      pos += 2;
+      const alias = OPERATOR_ALIASES[pair];
+      tokens.push({
+        type: alias ? 'keyword' : 'operator',
+        value: alias ?? pair,
+        span: { start, end: pos },
+      });
+      continue;
+    }
+
+    if (ONE_CHAR_OPERATORS.includes(char)) {
+      pos++;
+      const alias = OPERATOR_ALIASES[char];
+      tokens.push({
+        type: alias ? 'keyword' : 'operator',
+        value: alias ?? char,
+        span: { start, end: pos },
+      });
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      pos++;
+      tokens.push({ type: 'punctuation', value: char, span: { start, end: pos } });
+      continue;
+    }
+
+    throw new RuleSyntaxError(`Carácter inesperado '${char}'`, {
+      start,
+      end: start + 1,
+    });
+  }
+
+  tokens.push({ type: 'eof', value: '', span: { start: pos, end: pos } });
+  return tokens;
+}
@@ -0,0 +1,226 @@
+import { RuleSyntaxError } from './errors';
+import { tokenize } from './lexer';
+import type { BinaryOperator, RuleNode, SourceSpan, Token } from './types';
+
+export const MAX_NESTING_DEPTH = 40;
+
+// Binding power for infix operators, higher binds tighter
+const INFIX_PRECEDENCE: Record<string, number> = {
+  or: 1,
+  and: 2,
+  '==': 4,
+  '!=': 4,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  in: 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6,
+};
+
+const NOT_PRECEDENCE = 3;
+const NEGATE_PRECEDENCE = 7;
+
+function join(a: SourceSpan, b: SourceSpan): SourceSpan {
+  return { start: a.start, end: b.end };
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): RuleNode {
+    const node = this.expression(0);
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new RuleSyntaxError(`Token inesperado '${next.value}'`, next.span);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new RuleSyntaxError(
+        token.type === 'eof'
+          ? `Se esperaba '${value}' pero la expresión terminó`
+          : `Se esperaba '${value}' y se encontró '${token.value}'`,
+        token.span
+      );
+    }
+    return this.advance();
+  }
+
+  private enter(span: SourceSpan) {
+    this.depth++;
+    if (this.depth > MAX_NESTING_DEPTH) {
+      throw new RuleSyntaxError(
+        `La expresión excede el anidamiento máximo de ${MAX_NESTING_DEPTH} niveles`,
+        span,
+        'LIMIT_EXCEEDED'
+      );
+    }
+  }
+
+  private expression(minPrecedence: number): RuleNode {
+    this.enter(this.peek().span);
+    let left = this.prefix();
+
+    for (;;) {
+      const token = this.peek();
+      const isInfix =
+        (token.type === 'operator' || token.type === 'keyword') &&
+        token.value in INFIX_PRECEDENCE;
+      if (!isInfix) break;
+
+      const precedence = INFIX_PRECEDENCE[token.value]!;
+      if (precedence <= minPrecedence) break;
+
+      this.advance();
+      const right = this.expression(precedence);
+      left = {
+        kind: 'binary',
+        operator: token.value as BinaryOperator,
+        left,
+        right,
+        span: join(left.span, right.span),
+      };
+    }
+
+    this.depth--;
+    return left;
+  }
+
+  private prefix(): RuleNode {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value), span: token.span };
+
+      case 'string':
+        return { kind: 'literal', value: token.value, span: token.span };
+
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true', span: token.span };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null, span: token.span };
+        }
+        if (token.value === 'not') {
+          const operand = this.expression(NOT_PRECEDENCE);
+          return {
+            kind: 'unary',
+            operator: 'not',
+            operand,
+            span: join(token.span, operand.span),
+          };
+        }
+        break;
+
+      case 'operator':
+        if (token.value === '-') {
+          const operand = this.expression(NEGATE_PRECEDENCE);
+          return {
+            kind: 'unary',
+            operator: '-',
+            operand,
+            span: join(token.span, operand.span),
+          };
+        }
+        break;
+
+      case 'identifier':
+        return this.identifier(token);
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const inner = this.expression(0);
+          const close = this.expect(')');
+          return { ...inner, span: join(token.span, close.span) };
+        }
+        if (token.value === '[') {
+          return this.list(token);
+        }
+        break;
+
+      case 'eof':
+        throw new RuleSyntaxError('La expresión está incompleta', token.span);
+    }
+
+    throw new RuleSyntaxError(`Token inesperado '${token.value}'`, token.span);
+  }
+
+  private identifier(first: Token): RuleNode {
+    if (this.isPunctuation('(')) {
+      this.advance();
+      const args: RuleNode[] = [];
+      if (!this.isPunctuation(')')) {
+        args.push(this.expression(0));
+        while (this.isPunctuation(',')) {
+          this.advance();
+          args.push(this.expression(0));
+        }
+      }
+      const close = this.expect(')');
+      return { kind: 'call', name: first.value, args, span: join(first.span, close.span) };
+    }
+
+    const path = [first.value];
+    let span = first.span;
+    while (this.isPunctuation('.')) {
+      this.advance();
+      const part = this.advance();
+      if (part.type !== 'identifier') {
+        throw new RuleSyntaxError('Se esperaba un nombre de campo después de \'.\'', part.span);
+      }
+      path.push(part.value);
+      span = join(span, part.span);
+    }
+
+    return { kind: 'field', path, span };
+  }
+
+  private list(open: Token): RuleNode {
+    const items: RuleNode[] = [];
+    if (!this.isPunctuation(']')) {
+      items.push(this.expression(0));
+      while (this.isPunctuation(',')) {
+        this.advance();
+        items.push(this.expression(0));
+      }
+    }
+    const close = this.expect(']');
+    return { kind: 'list', items, span: join(open.span, close.span) };
+  }
+}
+
+/**
+ * Parse a rule expression into an AST.
+ * Throws RuleSyntaxError describing the first problem found.
+ */
+export function parseExpression(source: string): RuleNode {
+  return new Parser(tokenize(source)).parse();
+}
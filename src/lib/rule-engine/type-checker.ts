@@ -0,0 +1,241 @@
+import { RULE_FUNCTIONS } from './functions';
+import type { RuleDiagnostic, RuleNode, RuleSchema, RuleType } from './types';
+
+export function describeType(type: RuleType): string {
+  if (typeof type === 'object') return `lista de ${describeType(type.list)}`;
+  const names: Record<string, string> = {
+    number: 'número',
+    string: 'texto',
+    boolean: 'booleano',
+    date: 'fecha',
+    null: 'nulo',
+    any: 'cualquiera',
+  };
+  return names[type] ?? type;
+}
+
+function sameType(a: RuleType, b: RuleType): boolean {
+  if (typeof a === 'object' && typeof b === 'object') return sameType(a.list, b.list);
+  return a === b;
+}
+
+function isCompatible(a: RuleType, b: RuleType): boolean {
+  return a === 'any' || b === 'any' || a === 'null' || b === 'null' || sameType(a, b);
+}
+
+function isA(type: RuleType, expected: RuleType): boolean {
+  return type === 'any' || type === 'null' || sameType(type, expected);
+}
+
+function isSchema(value: RuleType | RuleSchema): value is RuleSchema {
+  return typeof value === 'object' && !('list' in value);
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0]!;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]!;
+      row[j] = Math.min(
+        row[j]! + 1,
+        row[j - 1]! + 1,
+        previous + (a[i - 1]!.toLowerCase() === b[j - 1]!.toLowerCase() ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length]!;
+}
+
+function suggest(name: string, candidates: string[]): string {
+  const best = candidates
+    .map((candidate) => ({ candidate, distance: editDistance(name, candidate) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return best && best.distance <= 2 ? ` ¿Quiso decir '${best.candidate}'?` : '';
+}
+
+/**
+ * Infer the type of an expression against a schema.
+ * Problems are appended to `diagnostics`; the returned type is 'any'
+ * for sub-expressions that could not be typed so checking continues.
+ */
+export function checkTypes(
+  node: RuleNode,
+  schema: RuleSchema,
+  diagnostics: RuleDiagnostic[]
+): RuleType {
+  const mismatch = (message: string): RuleType => {
+    diagnostics.push({ code: 'TYPE_MISMATCH', message, span: node.span });
+    return 'any';
+  };
+
+  switch (node.kind) {
+    case 'literal': {
+      const { value } = node;
+      if (value === null) return 'null';
+      if (value instanceof Date) return 'date';
+      if (Array.isArray(value)) return { list: 'any' };
+      return typeof value as RuleType;
+    }
+
+    case 'field': {
+      let current: RuleType | RuleSchema = schema;
+      for (let i = 0; i < node.path.length; i++) {
+        const part = node.path[i]!;
+        const prefix = node.path.slice(0, i).join('.');
+        const level: RuleSchema | null = isSchema(current) ? current : null;
+        if (!level || !Object.prototype.hasOwnProperty.call(level, part)) {
+          const available = level ? Object.keys(level) : [];
+          diagnostics.push({
+            code: 'UNKNOWN_FIELD',
+            message: `Campo desconocido '${node.path.slice(0, i + 1).join('.')}'.${suggest(part, available)}`,
+            span: node.span,
+          });
+          return 'any';
+        }
+        current = level[part]!;
+        if (isSchema(current) && i === node.path.length - 1) {
+          const example = Object.keys(current)[0];
+          return mismatch(
+            `'${prefix ? `${prefix}.` : ''}${part}' es un objeto; use uno de sus campos, por ejemplo '${node.path.join('.')}.${example}'`
+          );
+        }
+      }
+      return current as RuleType;
+    }
+
+    case 'list': {
+      let itemType: RuleType = 'any';
+      for (const item of node.items) {
+        const type = checkTypes(item, schema, diagnostics);
+        if (type === 'null' || type === 'any') continue;
+        if (itemType === 'any') {
+          itemType = type;
+        } else if (!sameType(itemType, type)) {
+          return mismatch('Todos los elementos de una lista deben ser del mismo tipo');
+        }
+      }
+      return { list: itemType };
+    }
+
+    case 'unary': {
+      const operand = checkTypes(node.operand, schema, diagnostics);
+      if (node.operator === 'not') {
+        return isA(operand, 'boolean')
+          ? 'boolean'
+          : mismatch(`'not' requiere un booleano, no ${describeType(operand)}`);
+      }
+      return isA(operand, 'number')
+        ? 'number'
+        : mismatch(`El signo negativo requiere un número, no ${describeType(operand)}`);
+    }
+
+    case 'binary': {
+      const left = checkTypes(node.left, schema, diagnostics);
+      const right = checkTypes(node.right, schema, diagnostics);
+      const op = node.operator;
+      const pair = `${describeType(left)} ${op} ${describeType(right)}`;
+
+      if (left === 'any' || right === 'any') {
+        return ['==', '!=', '<', '<=', '>', '>=', 'and', 'or', 'in'].includes(op)
+          ? 'boolean'
+          : 'any';
+      }
+
+      switch (op) {
+        case 'and':
+        case 'or':
+          return isA(left, 'boolean') && isA(right, 'boolean')
+            ? 'boolean'
+            : mismatch(`'${op}' requiere booleanos en ambos lados (${pair})`);
+
+        case '==':
+        case '!=':
+          return isCompatible(left, right)
+            ? 'boolean'
+            : mismatch(`No se pueden comparar tipos distintos (${pair})`);
+
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          const ordered = ['number', 'date', 'string'].some(
+            (type) => isA(left, type as RuleType) && isA(right, type as RuleType)
+          );
+          return ordered
+            ? 'boolean'
+            : mismatch(`Comparación no válida (${pair})`);
+        }
+
+        case 'in':
+          if (typeof right !== 'object') {
+            return mismatch(`'in' requiere una lista a la derecha (${pair})`);
+          }
+          return isCompatible(left, right.list)
+            ? 'boolean'
+            : mismatch(`El valor no es del tipo de la lista (${pair})`);
+
+        case '+':
+          if (isA(left, 'number') && isA(right, 'number')) return 'number';
+          if (isA(left, 'string') && isA(right, 'string')) return 'string';
+          if (isA(left, 'date') && isA(right, 'number')) return 'date';
+          return mismatch(`Suma no válida (${pair})`);
+
+        case '-':
+          if (left === 'date' && right === 'date') return 'number';
+          if (isA(left, 'date') && isA(right, 'number') && left !== 'null') return 'date';
+          if (isA(left, 'number') && isA(right, 'number')) return 'number';
+          return mismatch(`Resta no válida (${pair})`);
+
+        default:
+          return isA(left, 'number') && isA(right, 'number')
+            ? 'number'
+            : mismatch(`'${op}' requiere números (${pair})`);
+      }
+    }
+
+    case 'call': {
+      const fn = Object.prototype.hasOwnProperty.call(RULE_FUNCTIONS, node.name)
+        ? RULE_FUNCTIONS[node.name]
+        : undefined;
+      const argTypes = node.args.map((arg) => checkTypes(arg, schema, diagnostics));
+
+      if (!fn) {
+        diagnostics.push({
+          code: 'UNKNOWN_FUNCTION',
+          message: `Función desconocida '${node.name}'.${suggest(node.name, Object.keys(RULE_FUNCTIONS))}`,
+          span: node.span,
+        });
+        return 'any';
+      }
+
+      const minArgs = fn.minArgs ?? fn.params.length;
+      if (argTypes.length < minArgs || argTypes.length > fn.params.length) {
+        diagnostics.push({
+          code: 'ARGUMENT_COUNT',
+          message:
+            minArgs === fn.params.length
+              ? `${node.name}() requiere ${minArgs} argumento(s)`
+              : `${node.name}() requiere entre ${minArgs} y ${fn.params.length} argumentos`,
+          span: node.span,
+        });
+        return 'any';
+      }
+
+      argTypes.forEach((type, index) => {
+        const expected = fn.params[index]!;
+        if (!isA(type, expected) && expected !== 'any') {
+          diagnostics.push({
+            code: 'TYPE_MISMATCH',
+            message: `El argumento ${index + 1} de ${node.name}() debe ser ${describeType(expected)}, no ${describeType(type)}`,
+            span: node.args[index]!.span,
+          });
+        }
+      });
+
+      return typeof fn.returns === 'function' ? fn.returns(argTypes) : fn.returns;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Shared types for the validation rule expression language.
+ *
+ * Expressions are parsed into a small AST, type checked against a schema
+ * describing the Case shape and evaluated by a tree-walking interpreter.
+ * Nothing in the engine ever calls `eval` or touches arbitrary properties.
+ */
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export type TokenType =
+  | 'number'
+  | 'string'
+  | 'identifier'
+  | 'keyword'
+  | 'operator'
+  | 'punctuation'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  span: SourceSpan;
+}
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'and'
+  | 'or'
+  | 'in';
+
+export type UnaryOperator = '-' | 'not';
+
+export type RuleNode =
+  | { kind: 'literal'; value: RuleValue; span: SourceSpan }
+  | { kind: 'field'; path: string[]; span: SourceSpan }
+  | { kind: 'list'; items: RuleNode[]; span: SourceSpan }
+  | { kind: 'unary'; operator: UnaryOperator; operand: RuleNode; span: SourceSpan }
+  | {
+      kind: 'binary';
+      operator: BinaryOperator;
+      left: RuleNode;
+      right: RuleNode;
+      span: SourceSpan;
+    }
+  | { kind: 'call'; name: string; args: RuleNode[]; span: SourceSpan };
+
+export type RuleValue = number | string | boolean | Date | null | RuleValue[];
+
+// Static types understood by the type checker
+export type RuleType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'date'
+  | 'null'
+  | 'any'
+  | { list: RuleType };
+
+// Schema describing which fields an expression may reference
+export interface RuleSchema {
+  [field: string]: RuleType | RuleSchema;
+}
+
+export interface RuleDiagnostic {
+  code:
+    | 'SYNTAX_ERROR'
+    | 'UNKNOWN_FIELD'
+    | 'UNKNOWN_FUNCTION'
+    | 'TYPE_MISMATCH'
+    | 'ARGUMENT_COUNT'
+    | 'LIMIT_EXCEEDED';
+  message: string;
+  span: SourceSpan;
+}
+
+export interface RuleAnalysis {
+  valid: boolean;
+  diagnostics: RuleDiagnostic[];
+  resultType?: RuleType;
+  ast?: RuleNode;
+}
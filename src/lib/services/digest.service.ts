@@ -0,0 +1,355 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { queueEmail } from '@/lib/email-queue-processor';
+import { computeStageSla, loadSlaContext } from '@/lib/sla';
+import { appUrl, escapeHtml } from '@/lib/services/notification.service';
+import { STAGE_LABELS } from '@/constants/stages';
+import { CaseStatus, ObservationStatus } from '@/prisma/client';
+
+/**
+ * Daily and weekly summary emails for users with `emailDigest` enabled.
+ *
+ * Digests go out once per slot: every day at DIGEST_HOUR (server time, default 7)
+ * or on Mondays at that hour for weekly subscribers. All emails of a slot share a
+ * batchId so they can be tracked and unsubscribed together.
+ */
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestItem {
+  label: string;
+  detail: string;
+  url: string;
+}
+
+export interface UserDigest {
+  assignedCases: DigestItem[];
+  upcomingDeadlines: DigestItem[];
+  openObservations: DigestItem[];
+  pendingApprovals: DigestItem[];
+  pendingReviews: DigestItem[];
+}
+
+export interface DigestRunSummary {
+  usersChecked: number;
+  emailsQueued: number;
+  emptyDigests: number;
+  errors: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIGEST_WEEKDAY = 1; // Monday
+const DEADLINE_WINDOW_DAYS = 3;
+const SECTION_LIMIT = 10;
+
+const CLOSED_STATUSES = [CaseStatus.COMPLETADO, CaseStatus.ARCHIVED, CaseStatus.CANCELLED];
+const OPEN_OBSERVATION_STATUSES = [ObservationStatus.OPEN, ObservationStatus.IN_PROGRESS, ObservationStatus.ESCALATED];
+
+const SECTION_TITLES: Record<keyof UserDigest, string> = {
+  assignedCases: 'Casos asignados',
+  upcomingDeadlines: 'Etapas por vencer o vencidas',
+  openObservations: 'Observaciones abiertas',
+  pendingApprovals: 'Aprobaciones pendientes',
+  pendingReviews: 'Revisiones pendientes',
+};
+
+function digestHour(): number {
+  const hour = Number(process.env.DIGEST_HOUR);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 7;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('es-DO');
+}
+
+/**
+ * Start of the most recent digest slot at or before `now`.
+ */
+export function getDigestSlot(frequency: DigestFrequency, now: Date): Date {
+  const slot = new Date(now);
+  slot.setHours(digestHour(), 0, 0, 0);
+  if (slot > now) {
+    slot.setDate(slot.getDate() - 1);
+  }
+  if (frequency === 'weekly') {
+    slot.setDate(slot.getDate() - ((slot.getDay() - DIGEST_WEEKDAY + 7) % 7));
+  }
+  return slot;
+}
+
+export function getDigestBatchId(frequency: DigestFrequency, slot: Date): string {
+  const day = [slot.getFullYear(), slot.getMonth() + 1, slot.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-');
+  return `digest-${frequency}-${day}`;
+}
+
+function signUnsubscribe(userId: string, batchId: string): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is required to sign unsubscribe links');
+  }
+  return createHmac('sha256', secret).update(`${userId}:${batchId}`).digest('base64url');
+}
+
+export function createUnsubscribeUrl(userId: string, batchId: string): string {
+  const params = new URLSearchParams({ user: userId, batch: batchId, token: signUnsubscribe(userId, batchId) });
+  return appUrl(`/unsubscribe?${params.toString()}`);
+}
+
+export function verifyUnsubscribeToken(userId: string, batchId: string, token: string): boolean {
+  const expected = Buffer.from(signUnsubscribe(userId, batchId));
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Collect everything that is waiting on the user right now.
+ */
+export async function buildUserDigest(userId: string, now: Date = new Date()): Promise<UserDigest> {
+  const [cases, observations, approvals, reviews] = await Promise.all([
+    prisma.case.findMany({
+      where: {
+        deletedAt: null,
+        status: { notIn: CLOSED_STATUSES },
+        OR: [{ assignedToId: userId }, { supervisedById: userId }],
+      },
+      select: {
+        id: true,
+        fileNumber: true,
+        title: true,
+        currentStage: true,
+        departmentId: true,
+        assignedToId: true,
+        stageAssignments: {
+          where: { isActive: true },
+          select: { stage: true, assignedAt: true, dueDate: true },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+    }),
+    prisma.observation.findMany({
+      where: { assignedTo: userId, status: { in: OPEN_OBSERVATION_STATUSES } },
+      select: {
+        title: true,
+        deadline: true,
+        case: { select: { id: true, fileNumber: true } },
+      },
+      orderBy: [{ deadline: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.approval.findMany({
+      where: {
+        decision: 'PENDING',
+        workflow: { status: 'PENDING' },
+        OR: [{ userId, delegationTo: null }, { delegationTo: userId }],
+      },
+      select: {
+        workflow: {
+          select: { title: true, dueDate: true, case: { select: { id: true, fileNumber: true } } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.reviewAssignment.findMany({
+      where: { assignedTo: userId, status: { in: ['ASSIGNED', 'IN_PROGRESS'] } },
+      select: {
+        reviewType: true,
+        dueDate: true,
+        case: { select: { id: true, fileNumber: true } },
+      },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+
+  const slaContext = cases.length > 0 ? await loadSlaContext(now) : null;
+  const assignedCases: DigestItem[] = [];
+  const upcomingDeadlines: Array<DigestItem & { daysRemaining: number }> = [];
+
+  for (const currentCase of cases) {
+    const url = appUrl(`/cases/${currentCase.id}`);
+    if (currentCase.assignedToId === userId) {
+      assignedCases.push({
+        label: `${currentCase.fileNumber} - ${currentCase.title}`,
+        detail: STAGE_LABELS[currentCase.currentStage],
+        url,
+      });
+    }
+
+    const assignment = currentCase.stageAssignments.find((stageAssignment) => stageAssignment.stage === currentCase.currentStage);
+    if (!assignment || !slaContext) continue;
+
+    const sla = computeStageSla(
+      slaContext,
+      {
+        stage: currentCase.currentStage,
+        departmentId: currentCase.departmentId,
+        startedAt: assignment.assignedAt,
+        dueDate: assignment.dueDate,
+      },
+      now
+    );
+    const dueDate = sla.dueDate;
+    const daysRemaining = Math.ceil((dueDate.getTime() - now.getTime()) / DAY_MS);
+    if (daysRemaining <= DEADLINE_WINDOW_DAYS || sla.status !== 'on_track') {
+      upcomingDeadlines.push({
+        label: `${currentCase.fileNumber} - ${STAGE_LABELS[currentCase.currentStage]}`,
+        detail: sla.status === 'overdue'
+          ? `Vencida desde el ${formatDate(dueDate)}`
+          : `Vence el ${formatDate(dueDate)} (${sla.remainingHours} ${sla.businessDaysOnly ? 'horas hábiles' : 'horas'} restantes)`,
+        url,
+        daysRemaining,
+      });
+    }
+  }
+
+  upcomingDeadlines.sort((a, b) => a.daysRemaining - b.daysRemaining);
+
+  return {
+    assignedCases,
+    upcomingDeadlines: upcomingDeadlines.map(({ daysRemaining: _days, ...item }) => item),
+    openObservations: observations.map((observation) => ({
+      label: `${observation.case.fileNumber} - ${observation.title}`,
+      detail: observation.deadline ? `Responder antes del ${formatDate(observation.deadline)}` : 'Sin fecha límite',
+      url: appUrl(`/cases/${observation.case.id}`),
+    })),
+    pendingApprovals: approvals.map(({ workflow }) => ({
+      label: `${workflow.case.fileNumber} - ${workflow.title}`,
+      detail: workflow.dueDate ? `Fecha límite ${formatDate(workflow.dueDate)}` : 'Sin fecha límite',
+      url: appUrl(`/cases/${workflow.case.id}`),
+    })),
+    pendingReviews: reviews.map((review) => ({
+      label: `${review.case.fileNumber} - ${review.reviewType}`,
+      detail: review.dueDate ? `Fecha límite ${formatDate(review.dueDate)}` : 'Sin fecha límite',
+      url: appUrl(`/cases/${review.case.id}`),
+    })),
+  };
+}
+
+function isEmptyDigest(digest: UserDigest): boolean {
+  return Object.values(digest).every((items) => items.length === 0);
+}
+
+function renderDigest(
+  digest: UserDigest,
+  frequency: DigestFrequency,
+  firstName: string,
+  unsubscribeUrl: string
+): { subject: string; text: string; html: string } {
+  const period = frequency === 'daily' ? 'diario' : 'semanal';
+  const sections = (Object.keys(SECTION_TITLES) as Array<keyof UserDigest>).filter(
+    (key) => digest[key].length > 0
+  );
+
+  const text = [
+    `Hola ${firstName},`,
+    `Este es su resumen ${period} de la Plataforma de Expropiaciones.`,
+    ...sections.map((key) => {
+      const items = digest[key];
+      const lines = items.slice(0, SECTION_LIMIT).map((item) => `- ${item.label} (${item.detail}): ${item.url}`);
+      if (items.length > SECTION_LIMIT) lines.push(`- y ${items.length - SECTION_LIMIT} más`);
+      return `${SECTION_TITLES[key]} (${items.length})\n${lines.join('\n')}`;
+    }),
+    `Para dejar de recibir este resumen: ${unsubscribeUrl}`,
+  ].join('\n\n');
+
+  const htmlSections = sections
+    .map((key) => {
+      const items = digest[key];
+      const rows = items
+        .slice(0, SECTION_LIMIT)
+        .map((item) => `<li><a href="${escapeHtml(item.url)}">${escapeHtml(item.label)}</a> - ${escapeHtml(item.detail)}</li>`);
+      if (items.length > SECTION_LIMIT) rows.push(`<li>y ${items.length - SECTION_LIMIT} más</li>`);
+      return `<h3>${SECTION_TITLES[key]} (${items.length})</h3>\n<ul>\n${rows.join('\n')}\n</ul>`;
+    })
+    .join('\n');
+
+  const html = `<div style="font-family: Arial, sans-serif; font-size: 14px; color: #1f2937;">
+<p>Hola ${escapeHtml(firstName)},</p>
+<p>Este es su resumen ${period} de la Plataforma de Expropiaciones.</p>
+${htmlSections}
+<p style="color: #6b7280; font-size: 12px;">Plataforma de Expropiaciones - MOPC. <a href="${escapeHtml(unsubscribeUrl)}">Dejar de recibir este resumen</a></p>
+</div>`;
+
+  const pending = sections.reduce((total, key) => total + digest[key].length, 0);
+  return { subject: `Resumen ${period}: ${pending} pendientes - Plataforma MOPC`, text, html };
+}
+
+/**
+ * Queue digests for every subscribed user whose slot has passed since their
+ * last digest. Users with nothing pending are skipped but still marked as
+ * done for the slot.
+ */
+export async function runDigests(now: Date = new Date()): Promise<DigestRunSummary> {
+  const summary: DigestRunSummary = { usersChecked: 0, emailsQueued: 0, emptyDigests: 0, errors: [] };
+
+  const users = await prisma.user.findMany({
+    where: { emailDigest: true, isActive: true, deletedAt: null },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      emailDigestFrequency: true,
+      lastDigestSentAt: true,
+    },
+  });
+
+  for (const user of users) {
+    const frequency: DigestFrequency = user.emailDigestFrequency === 'weekly' ? 'weekly' : 'daily';
+    const slot = getDigestSlot(frequency, now);
+    if (user.lastDigestSentAt && user.lastDigestSentAt >= slot) continue;
+
+    summary.usersChecked++;
+    try {
+      const digest = await buildUserDigest(user.id, now);
+
+      if (isEmptyDigest(digest)) {
+        summary.emptyDigests++;
+      } else {
+        const batchId = getDigestBatchId(frequency, slot);
+        const content = renderDigest(digest, frequency, user.firstName, createUnsubscribeUrl(user.id, batchId));
+        await queueEmail({
+          to: user.email,
+          subject: content.subject,
+          textContent: content.text,
+          htmlContent: content.html,
+          priority: 'low',
+          batchId,
+          metadata: {
+            type: 'digest',
+            frequency,
+            userId: user.id,
+            counts: Object.fromEntries(Object.entries(digest).map(([key, items]) => [key, items.length])),
+          },
+        });
+        summary.emailsQueued++;
+      }
+
+      await prisma.user.update({ where: { id: user.id }, data: { lastDigestSentAt: now } });
+    } catch (error) {
+      logger.error(`Digest for user ${user.id} failed:`, error);
+      summary.errors.push(`${user.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Turn off digests for a user and mark the digest they unsubscribed from.
+ */
+export async function unsubscribeFromDigest(userId: string, batchId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true } });
+  if (!user) return false;
+
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: user.id }, data: { emailDigest: false } }),
+    prisma.emailQueue.updateMany({
+      where: { batchId, to: user.email, unsubscribedAt: null },
+      data: { unsubscribedAt: now },
+    }),
+  ]);
+
+  return true;
+}
@@ -0,0 +1,475 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { queueEmail } from '@/lib/email-queue-processor';
+import { STAGE_LABELS } from '@/constants/stages';
+import type { CaseStage } from '@/prisma/client';
+
+/**
+ * Transactional and workflow notification emails.
+ *
+ * Every function here only queues rows in EmailQueue; delivery happens in the
+ * email queue processor (in-process or `npm run worker`). Notification failures
+ * are logged and swallowed so they never fail the request that triggered them.
+ */
+
+type EmailPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+interface NotificationEmail {
+  subject: string;
+  // Paragraphs of plain text; rendered as <p> blocks in the HTML version
+  lines: string[];
+  action?: { label: string; url: string };
+}
+
+interface NotifyOptions {
+  // The user who triggered the event is not notified about their own action
+  excludeUserId?: string;
+  priority?: EmailPriority;
+  correlationId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export function appUrl(path: string): string {
+  const base = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${base}${path}`;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderText(email: NotificationEmail, greetingName: string): string {
+  return [
+    `Hola ${greetingName},`,
+    ...email.lines,
+    ...(email.action ? [`${email.action.label}: ${email.action.url}`] : []),
+    'Plataforma de Expropiaciones - MOPC',
+  ].join('\n\n');
+}
+
+function renderHtml(email: NotificationEmail, greetingName: string): string {
+  const paragraphs = [`Hola ${greetingName},`, ...email.lines]
+    .map((line) => `<p>${escapeHtml(line)}</p>`)
+    .join('\n');
+  const action = email.action
+    ? `<p><a href="${escapeHtml(email.action.url)}">${escapeHtml(email.action.label)}</a></p>`
+    : '';
+
+  return `<div style="font-family: Arial, sans-serif; font-size: 14px; color: #1f2937;">
+${paragraphs}
+${action}
+<p style="color: #6b7280; font-size: 12px;">Plataforma de Expropiaciones - MOPC</p>
+</div>`;
+}
+
+/**
+ * Queue an email for each user that still wants notifications.
+ * Returns the number of emails queued.
+ */
+async function notifyUsers(
+  userIds: Array<string | null | undefined>,
+  email: NotificationEmail,
+  options: NotifyOptions = {}
+): Promise<number> {
+  const ids = [...new Set(userIds.filter((id): id is string => !!id && id !== options.excludeUserId))];
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: ids }, isActive: true, deletedAt: null, emailNotifications: true },
+    select: { id: true, email: true, firstName: true },
+  });
+
+  for (const user of users) {
+    await queueEmail({
+      to: user.email,
+      subject: email.subject,
+      textContent: renderText(email, user.firstName),
+      htmlContent: renderHtml(email, user.firstName),
+      priority: options.priority ?? 'medium',
+      ...(options.correlationId && { correlationId: options.correlationId }),
+      metadata: { ...options.metadata, userId: user.id },
+    });
+  }
+
+  return users.length;
+}
+
+/**
+ * Password reset link. Sent regardless of `emailNotifications` because the
+ * user asked for it.
+ */
+export async function sendPasswordResetEmail(
+  user: { id: string; email: string; firstName: string },
+  resetToken: string
+): Promise<void> {
+  try {
+    const url = appUrl(`/reset-password?token=${encodeURIComponent(resetToken)}`);
+    const email: NotificationEmail = {
+      subject: 'Restablecer contraseña - Plataforma MOPC',
+      lines: [
+        'Recibimos una solicitud para restablecer la contraseña de su cuenta.',
+        'El enlace es válido por una hora. Si usted no hizo esta solicitud puede ignorar este mensaje.',
+      ],
+      action: { label: 'Restablecer contraseña', url },
+    };
+
+    await queueEmail({
+      to: user.email,
+      subject: email.subject,
+      textContent: renderText(email, user.firstName),
+      htmlContent: renderHtml(email, user.firstName),
+      priority: 'high',
+      metadata: { type: 'password_reset', userId: user.id },
+    });
+  } catch (error) {
+    logger.error('Error queuing password reset email:', error);
+  }
+}
+
+/**
+ * Tell the new analyst and supervisor that a case was assigned to them.
+ */
+export async function notifyCaseAssigned(params: {
+  caseId: string;
+  assignedToId?: string | null;
+  supervisedById?: string | null;
+  actorId: string;
+  reason?: string | null;
+}): Promise<number> {
+  try {
+    const currentCase = await prisma.case.findUnique({
+      where: { id: params.caseId },
+      select: { id: true, fileNumber: true, title: true, currentStage: true },
+    });
+    if (!currentCase) return 0;
+
+    const lines = [
+      `Se le ha asignado el caso ${currentCase.fileNumber} (${currentCase.title}), actualmente en la etapa ${STAGE_LABELS[currentCase.currentStage]}.`,
+      ...(params.reason ? [`Motivo: ${params.reason}`] : []),
+    ];
+
+    return await notifyUsers(
+      [params.assignedToId, params.supervisedById],
+      {
+        subject: `Caso asignado: ${currentCase.fileNumber}`,
+        lines,
+        action: { label: 'Ver caso', url: appUrl(`/cases/${currentCase.id}`) },
+      },
+      {
+        excludeUserId: params.actorId,
+        metadata: { type: 'case_assigned', caseId: currentCase.id },
+      }
+    );
+  } catch (error) {
+    logger.error('Error queuing case assignment notification:', error);
+    return 0;
+  }
+}
+
+/**
+ * Tell the people newly assigned to a batch of project cases, in one email
+ * rather than one per parcel.
+ */
+export async function notifyProjectCasesAssigned(params: {
+  projectId: string;
+  caseIds: string[];
+  assignedToId?: string | null;
+  supervisedById?: string | null;
+  actorId: string;
+  reason?: string | null;
+}): Promise<number> {
+  try {
+    const [project, cases] = await Promise.all([
+      prisma.project.findUnique({
+        where: { id: params.projectId },
+        select: { id: true, code: true, name: true },
+      }),
+      prisma.case.findMany({
+        where: { id: { in: params.caseIds } },
+        select: { fileNumber: true },
+        orderBy: { fileNumber: 'asc' },
+      }),
+    ]);
+    if (!project || cases.length === 0) return 0;
+
+    const lines = [
+      `Se le han asignado ${cases.length} casos del proyecto ${project.name} (${project.code}): ${cases.map(c => c.fileNumber).join(', ')}.`,
+      ...(params.reason ? [`Motivo: ${params.reason}`] : []),
+    ];
+
+    return await notifyUsers(
+      [params.assignedToId, params.supervisedById],
+      {
+        subject: `Casos asignados: proyecto ${project.code}`,
+        lines,
+        action: { label: 'Ver proyecto', url: appUrl(`/projects/${project.id}`) },
+      },
+      {
+        excludeUserId: params.actorId,
+        metadata: { type: 'project_cases_assigned', projectId: project.id, caseCount: cases.length },
+      }
+    );
+  } catch (error) {
+    logger.error('Error queuing project assignment notification:', error);
+    return 0;
+  }
+}
+
+/**
+ * Tell the people working on a case that it moved to another stage.
+ * Returns use high priority because the analyst has pending work again.
+ */
+export async function notifyStageTransition(params: {
+  caseId: string;
+  fromStage: CaseStage;
+  toStage: CaseStage;
+  isReturn: boolean;
+  actorId: string;
+  reason?: string | undefined;
+  observations?: string | undefined;
+}): Promise<number> {
+  try {
+    // Read after the transition so auto-assigned analysts are included
+    const currentCase = await prisma.case.findUnique({
+      where: { id: params.caseId },
+      select: {
+        id: true,
+        fileNumber: true,
+        title: true,
+        assignedToId: true,
+        supervisedById: true,
+        createdById: true,
+      },
+    });
+    if (!currentCase) return 0;
+
+    const from = STAGE_LABELS[params.fromStage];
+    const to = STAGE_LABELS[params.toStage];
+    const lines = params.isReturn
+      ? [`El caso ${currentCase.fileNumber} (${currentCase.title}) fue devuelto de ${from} a ${to}.`]
+      : [`El caso ${currentCase.fileNumber} (${currentCase.title}) avanzó de ${from} a ${to}.`];
+    if (params.reason) lines.push(`Motivo: ${params.reason}`);
+    if (params.observations) lines.push(`Observaciones: ${params.observations}`);
+
+    return await notifyUsers(
+      [currentCase.assignedToId, currentCase.supervisedById, currentCase.createdById],
+      {
+        subject: params.isReturn
+          ? `Caso devuelto: ${currentCase.fileNumber} - ${to}`
+          : `Cambio de etapa: ${currentCase.fileNumber} - ${to}`,
+        lines,
+        action: { label: 'Ver caso', url: appUrl(`/cases/${currentCase.id}`) },
+      },
+      {
+        excludeUserId: params.actorId,
+        priority: params.isReturn ? 'high' : 'medium',
+        metadata: {
+          type: params.isReturn ? 'stage_returned' : 'stage_progressed',
+          caseId: currentCase.id,
+          fromStage: params.fromStage,
+          toStage: params.toStage,
+        },
+      }
+    );
+  } catch (error) {
+    logger.error('Error queuing stage transition notification:', error);
+    return 0;
+  }
+}
+
+/**
+ * Tell the assignee of an observation that it needs a response.
+ */
+export async function notifyObservationAssigned(observationId: string, actorId: string): Promise<number> {
+  try {
+    const observation = await prisma.observation.findUnique({
+      where: { id: observationId },
+      select: {
+        id: true,
+        title: true,
+        priority: true,
+        deadline: true,
+        assignedTo: true,
+        case: { select: { id: true, fileNumber: true } },
+      },
+    });
+    if (!observation?.assignedTo) return 0;
+
+    const lines = [
+      `Se le asignó la observación "${observation.title}" del caso ${observation.case.fileNumber}.`,
+      ...(observation.deadline
+        ? [`Fecha límite de respuesta: ${observation.deadline.toLocaleDateString('es-DO')}.`]
+        : []),
+    ];
+
+    return await notifyUsers(
+      [observation.assignedTo],
+      {
+        subject: `Observación asignada: ${observation.case.fileNumber}`,
+        lines,
+        action: { label: 'Ver caso', url: appUrl(`/cases/${observation.case.id}`) },
+      },
+      {
+        excludeUserId: actorId,
+        priority: ['HIGH', 'CRITICAL', 'BLOCKING'].includes(observation.priority) ? 'high' : 'medium',
+        metadata: { type: 'observation_assigned', observationId: observation.id, caseId: observation.case.id },
+      }
+    );
+  } catch (error) {
+    logger.error('Error queuing observation notification:', error);
+    return 0;
+  }
+}
+
+/**
+ * Ask the approvers of a workflow for their decision.
+ */
+export async function notifyApprovalRequested(workflowId: string, actorId: string): Promise<number> {
+  try {
+    const workflow = await prisma.approvalWorkflow.findUnique({
+      where: { id: workflowId },
+      select: {
+        id: true,
+        title: true,
+        dueDate: true,
+        case: { select: { id: true, fileNumber: true } },
+        approvals: { where: { decision: 'PENDING' }, select: { userId: true, delegationTo: true } },
+      },
+    });
+    if (!workflow) return 0;
+
+    const lines = [
+      `Se requiere su aprobación para "${workflow.title}" en el caso ${workflow.case.fileNumber}.`,
+      ...(workflow.dueDate ? [`Fecha límite: ${workflow.dueDate.toLocaleDateString('es-DO')}.`] : []),
+    ];
+
+    return await notifyUsers(
+      workflow.approvals.map((approval) => approval.delegationTo ?? approval.userId),
+      {
+        subject: `Aprobación requerida: ${workflow.case.fileNumber}`,
+        lines,
+        action: { label: 'Ver caso', url: appUrl(`/cases/${workflow.case.id}`) },
+      },
+      {
+        excludeUserId: actorId,
+        priority: 'high',
+        correlationId: workflow.id,
+        metadata: { type: 'approval_requested', workflowId: workflow.id, caseId: workflow.case.id },
+      }
+    );
+  } catch (error) {
+    logger.error('Error queuing approval request notification:', error);
+    return 0;
+  }
+}
+
+/**
+ * Tell the new approvers of an overdue workflow that it was escalated to
+ * them, and the original approvers who it went to.
+ */
+export async function notifyApprovalEscalated(
+  workflowId: string,
+  escalations: Array<{ fromUserId: string; toUserId: string }>
+): Promise<number> {
+  try {
+    const workflow = await prisma.approvalWorkflow.findUnique({
+      where: { id: workflowId },
+      select: { id: true, title: true, dueDate: true, case: { select: { id: true, fileNumber: true } } },
+    });
+    if (!workflow) return 0;
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: escalations.flatMap((item) => [item.fromUserId, item.toUserId]) } },
+      select: { id: true, firstName: true, lastName: true },
+    });
+    const nameOf = (id: string) => {
+      const user = users.find((item) => item.id === id);
+      return user ? `${user.firstName} ${user.lastName}` : 'otro aprobador';
+    };
+
+    const action = { label: 'Ver caso', url: appUrl(`/cases/${workflow.case.id}`) };
+    const options = {
+      priority: 'high' as const,
+      correlationId: workflow.id,
+      metadata: { type: 'approval_escalated', workflowId: workflow.id, caseId: workflow.case.id },
+    };
+    const dueLine = workflow.dueDate ? [`Nueva fecha límite: ${workflow.dueDate.toLocaleDateString('es-DO')}.`] : [];
+
+    let queued = 0;
+    for (const escalation of escalations) {
+      queued += await notifyUsers(
+        [escalation.toUserId],
+        {
+          subject: `Aprobación escalada: ${workflow.case.fileNumber}`,
+          lines: [
+            `La aprobación de "${workflow.title}" en el caso ${workflow.case.fileNumber} venció sin respuesta de ${nameOf(escalation.fromUserId)} y fue escalada a usted.`,
+            ...dueLine,
+          ],
+          action,
+        },
+        options
+      );
+      queued += await notifyUsers(
+        [escalation.fromUserId],
+        {
+          subject: `Aprobación escalada: ${workflow.case.fileNumber}`,
+          lines: [
+            `Su aprobación pendiente de "${workflow.title}" en el caso ${workflow.case.fileNumber} venció y fue escalada a ${nameOf(escalation.toUserId)}.`,
+          ],
+          action,
+        },
+        options
+      );
+    }
+    return queued;
+  } catch (error) {
+    logger.error('Error queuing approval escalation notification:', error);
+    return 0;
+  }
+}
+
+/**
+ * Tell the recipients of a risk alert that a case's risk level went up.
+ */
+export async function notifyRiskAlert(alertId: string, actorId: string): Promise<number> {
+  try {
+    const alert = await prisma.riskAlert.findUnique({
+      where: { id: alertId },
+      select: {
+        id: true,
+        title: true,
+        message: true,
+        severity: true,
+        recipients: true,
+        riskAssessment: { select: { case: { select: { id: true, fileNumber: true } } } },
+      },
+    });
+    if (!alert || !Array.isArray(alert.recipients)) return 0;
+
+    const { case: alertCase } = alert.riskAssessment;
+    return await notifyUsers(
+      alert.recipients.filter((id): id is string => typeof id === 'string'),
+      {
+        subject: `Alerta de riesgo: ${alertCase.fileNumber}`,
+        lines: [alert.title + '.', alert.message],
+        action: { label: 'Ver caso', url: appUrl(`/cases/${alertCase.id}?tab=risk`) },
+      },
+      {
+        excludeUserId: actorId,
+        priority: alert.severity === 'CRITICAL' ? 'high' : 'medium',
+        correlationId: alert.id,
+        metadata: { type: 'risk_alert', alertId: alert.id, caseId: alertCase.id },
+      }
+    );
+  } catch (error) {
+    logger.error('Error queuing risk alert notification:', error);
+    return 0;
+  }
+}
@@ -5,6 +5,15 @@ import { CaseStage, CaseStatus, Prisma } from '@/prisma/client';
 import { calculateProgressPercentage } from '@/lib/stage-utils';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { executeCaseValidation } from '@/lib/services/validation-rule.service';
+import { computeStageDueDate, loadSlaContext } from '@/lib/sla';
+import {
+  delegationAttribution,
+  delegatorName,
+  findActiveDelegations,
+  recordDelegatedAction,
+  type ActiveDelegation,
+} from '@/lib/delegations';
 import type { NextRequest } from 'next/server';
 
 // Type definitions
@@ -93,6 +102,34 @@ export interface StageTransitionData {
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   notifyStakeholders?: boolean;
   attachmentPath?: string;
+  overrideJustification?: string;
+}
+
+// Stored as is on the progression, hence a type: interfaces are not JSON input
+export type StageRuleResult = {
+  ruleId: string;
+  ruleName: string;
+  severity: string;
+  message: string;
+  skipped: boolean;
+  errors?: Prisma.JsonValue;
+};
+
+export interface StageRuleValidation {
+  blocking: StageRuleResult[];
+  warnings: StageRuleResult[];
+}
+
+export interface StageRuleOverride {
+  userId: string;
+  justification: string;
+  rules: StageRuleResult[];
+}
+
+export interface StageTransitionPermission {
+  allowed: boolean;
+  // Set when the user may only act on behalf of a delegating official
+  delegation: ActiveDelegation | null;
 }
 
 export interface StageTransitionResult {
@@ -130,8 +167,8 @@ export async function authenticateUser() {
   }
 }
 
-export function checkStageTransitionPermission(
-  user: UserWithRoleAndDepartment,
+function hasStageTransitionRole(
+  user: { id: string; role: { name: string } },
   caseData: CaseWithAssignments
 ): boolean {
   return user.role.name === 'super_admin' ||
@@ -140,6 +177,53 @@ export function checkStageTransitionPermission(
          (user.role.name === 'analyst' && caseData.assignedToId === user.id);
 }
 
+/**
+ * Whether the user may move the case between stages, by their own role or
+ * under a delegation, covering the case's stage and department, from an
+ * official who may.
+ */
+export async function checkStageTransitionPermission(
+  user: UserWithRoleAndDepartment,
+  caseData: CaseWithAssignments
+): Promise<StageTransitionPermission> {
+  if (hasStageTransitionRole(user, caseData)) {
+    return { allowed: true, delegation: null };
+  }
+
+  const delegations = await findActiveDelegations(user.id, {
+    stage: caseData.currentStage,
+    departmentId: caseData.departmentId
+  });
+  if (delegations.length === 0) {
+    return { allowed: false, delegation: null };
+  }
+
+  const delegators = await prisma.user.findMany({
+    where: { id: { in: delegations.map(d => d.delegatorId) }, isActive: true, deletedAt: null },
+    select: { id: true, role: { select: { name: true } } }
+  });
+  const delegation = delegations.find(d => {
+    const delegator = delegators.find(u => u.id === d.delegatorId);
+    return !!delegator && hasStageTransitionRole(delegator, caseData);
+  }) ?? null;
+
+  return { allowed: delegation !== null, delegation };
+}
+
+export function checkValidationOverridePermission(
+  user: UserWithRoleAndDepartment
+): boolean {
+  if (user.role.name === 'super_admin') {
+    return true;
+  }
+
+  const permissions = user.role.permissions as Record<string, unknown> | null;
+  return !!permissions && (
+    permissions.OVERRIDE_VALIDATIONS === true ||
+    permissions.canOverrideValidations === true
+  );
+}
+
 export function checkCaseAccessPermission(
   user: UserWithRoleAndDepartment,
   caseData: CaseWithAssignments
@@ -249,6 +333,40 @@ export async function validateChecklistCompletion(
   }
 }
 
+export async function validateStageRules(
+  caseId: string,
+  userId: string
+): Promise<StageRuleValidation> {
+  try {
+    const result = await executeCaseValidation({
+      caseId,
+      executedBy: userId,
+      entityType: 'stage_progression',
+      severities: ['ERROR', 'WARNING'],
+    });
+
+    const failed: StageRuleResult[] = (result?.executions ?? [])
+      .filter(execution => !execution.passed)
+      .map(execution => ({
+        ruleId: execution.ruleId,
+        ruleName: execution.rule.name,
+        severity: execution.rule.severity,
+        message: execution.rule.errorMessage,
+        skipped: execution.skipped,
+        errors: execution.errors,
+      }));
+
+    // A skipped ERROR rule could not be verified, so it blocks as well
+    return {
+      blocking: failed.filter(rule => rule.severity === 'ERROR'),
+      warnings: failed.filter(rule => rule.severity === 'WARNING'),
+    };
+  } catch (error) {
+    logger.error('Error validating stage rules:', error);
+    throw new Error('Failed to validate stage rules');
+  }
+}
+
 // Stage Transition Operations
 export async function createStageProgression(
   caseId: string,
@@ -257,7 +375,8 @@ export async function createStageProgression(
   progressionType: 'FORWARD' | 'BACKWARD' | 'JUMP',
   transitionData: StageTransitionData,
   request: NextRequest,
-  duration?: number
+  duration?: number,
+  ruleValidation?: { warnings: StageRuleResult[]; override?: StageRuleOverride | undefined }
 ) {
   try {
     return await prisma.stageProgression.create({
@@ -274,6 +393,14 @@ export async function createStageProgression(
         ipAddress: request.headers.get('x-forwarded-for') ||
                    request.headers.get('x-real-ip') ||
                    null,
+        ...(ruleValidation?.warnings.length && {
+          validationWarnings: ruleValidation.warnings,
+        }),
+        ...(ruleValidation?.override && {
+          overriddenRules: ruleValidation.override.rules,
+          overriddenBy: ruleValidation.override.userId,
+          overrideJustification: ruleValidation.override.justification,
+        }),
       }
     });
   } catch (error) {
@@ -341,18 +468,26 @@ export async function createStageAssignment(
   caseId: string,
   stage: CaseStage,
   assignedBy: string,
-  targetStageConfig: any,
   notes?: string
 ) {
   try {
+    const caseData = await prisma.case.findUnique({
+      where: { id: caseId },
+      select: { departmentId: true }
+    });
+
+    // Due date in business time from the stage's SLA configuration
+    const now = new Date();
+    const slaContext = await loadSlaContext(now);
+    const dueDate = computeStageDueDate(slaContext, stage, caseData?.departmentId ?? null, now);
+
     return await prisma.caseStageAssignment.create({
       data: {
         caseId,
         stage,
         assignedBy,
-        dueDate: targetStageConfig.estimatedDuration ?
-          new Date(Date.now() + (targetStageConfig.estimatedDuration * 24 * 60 * 60 * 1000)) :
-          null,
+        assignedAt: now,
+        dueDate,
         isActive: true,
         notes: notes || null
       }
@@ -437,7 +572,8 @@ export async function logStageTransitionActivity(
   toStage: CaseStage,
   progressionType: 'FORWARD' | 'BACKWARD' | 'JUMP',
   transitionData: StageTransitionData,
-  progressionId: string
+  progressionId: string,
+  delegation?: ActiveDelegation | null
 ) {
   try {
     await prisma.activity.create({
@@ -446,17 +582,31 @@ export async function logStageTransitionActivity(
         action: 'STAGE_CHANGED',
         entityType: 'case',
         entityId: caseId,
-        description: `Case ${fileNumber} progressed from ${fromStage} to ${toStage}`,
+        description: `Case ${fileNumber} progressed from ${fromStage} to ${toStage}` +
+          (delegation ? ` on behalf of ${delegatorName(delegation)}` : ''),
         metadata: {
           progressionType,
           reason: transitionData.reason,
           observations: transitionData.observations,
           requiresApproval: transitionData.requiresApproval,
           priority: transitionData.priority,
-          progressionId
+          overrideJustification: transitionData.overrideJustification,
+          progressionId,
+          ...(delegation && delegationAttribution(delegation))
         }
       }
     });
+
+    if (delegation) {
+      await recordDelegatedAction({
+        delegation,
+        actorId: userId,
+        caseId,
+        action: progressionType === 'BACKWARD' ? 'stage_return' : 'stage_progression',
+        subject: `${fromStage} → ${toStage}`,
+        details: { progressionId, fromStage, toStage }
+      });
+    }
   } catch (error) {
     logger.error('Error logging stage transition activity:', error);
     // Don't throw error, as this is not critical for the main operation
@@ -497,6 +647,83 @@ export async function createCaseHistory(
   }
 }
 
+/**
+ * Move a case to the target stage once every check has passed: record the
+ * progression, update the case and its stage assignments, auto-assign and
+ * log the activity. Notifying stakeholders is left to the caller.
+ */
+export async function applyStageTransition(params: {
+  caseData: CaseWithAssignments;
+  fromStageConfig: { name: string } | undefined;
+  toStageConfig: { autoAssignmentRules: Prisma.JsonValue };
+  progressionType: 'FORWARD' | 'BACKWARD' | 'JUMP';
+  transitionData: StageTransitionData;
+  userId: string;
+  request: NextRequest;
+  ruleValidation?: { warnings: StageRuleResult[]; override?: StageRuleOverride | undefined } | undefined;
+  delegation?: ActiveDelegation | null;
+}) {
+  const { caseData, fromStageConfig, transitionData } = params;
+  const toStage = transitionData.toStage;
+
+  // Days spent at the current stage
+  let duration: number | undefined = undefined;
+  if (fromStageConfig && caseData.stageAssignments) {
+    const currentAssignment = caseData.stageAssignments.find(
+      assignment => assignment.stage === caseData.currentStage && assignment.isActive
+    );
+    if (currentAssignment) {
+      duration = Math.floor(
+        (Date.now() - currentAssignment.assignedAt.getTime()) / (1000 * 60 * 60 * 24)
+      );
+    }
+  }
+
+  const progression = await createStageProgression(
+    caseData.id,
+    caseData.currentStage,
+    toStage,
+    params.progressionType,
+    transitionData,
+    params.request,
+    duration,
+    params.ruleValidation
+  );
+
+  const updatedCase = await updateCaseStage(
+    caseData.id,
+    toStage,
+    toStage === CaseStage.ENTREGA_CHEQUE ? CaseStatus.COMPLETADO : CaseStatus.EN_PROGRESO
+  );
+
+  if (fromStageConfig) {
+    await deactivateStageAssignment(caseData.id, caseData.currentStage);
+  }
+
+  const newStageAssignment = await createStageAssignment(
+    caseData.id,
+    toStage,
+    params.userId,
+    transitionData.reason
+  );
+
+  await handleAutoAssignment(caseData.id, params.toStageConfig);
+
+  await logStageTransitionActivity(
+    params.userId,
+    caseData.id,
+    caseData.fileNumber,
+    caseData.currentStage,
+    toStage,
+    params.progressionType,
+    transitionData,
+    progression.id,
+    params.delegation
+  );
+
+  return { progression, updatedCase, newStageAssignment };
+}
+
 // Return-specific Functions
 export async function getAvailableReturnStages(caseId: string) {
   try {
@@ -0,0 +1,647 @@
+import { prisma } from '@/lib/prisma';
+import {
+  ValidationRuleType,
+  type CaseStage,
+  type Prisma,
+  type ValidationRule,
+} from '@/prisma/client';
+import {
+  analyzeExpression,
+  runExpression,
+  resolvePath,
+  RuleEvaluationError,
+  RuleSyntaxError,
+  type RuleDiagnostic,
+  type RuleScope,
+} from '@/lib/rule-engine';
+import { businessDaysBetween, loadWorkCalendar, type WorkCalendar } from '@/lib/sla';
+
+// Type definitions
+export interface RuleEvaluationResult {
+  passed: boolean;
+  errors?: Record<string, unknown>;
+  warnings?: Record<string, unknown>;
+}
+
+export interface RuleValidationReport {
+  valid: boolean;
+  diagnostics: RuleDiagnostic[];
+}
+
+export type DependencyStatus = 'passed' | 'failed' | 'skipped' | 'unavailable';
+
+// Declared with `type` so it can be saved as the dependencyTrace JSON of an execution
+export type DependencyTraceEntry = {
+  ruleId: string;
+  ruleName: string;
+  order: number;
+  status: Exclude<DependencyStatus, 'unavailable'>;
+  dependsOn: Array<{ ruleId: string; ruleName?: string; status: DependencyStatus }>;
+  skippedBecause?: string[];
+  cycle?: string[];
+};
+
+export interface DependencyCheckResult {
+  valid: boolean;
+  missing: string[];
+  cycle: string[] | null;
+}
+
+export interface ExecuteCaseValidationOptions {
+  caseId: string;
+  executedBy: string;
+  context?: any;
+  entityType?: string;
+  entityId?: string;
+  // Only run rules of these severities (plus whatever they depend on)
+  severities?: string[];
+}
+
+type RuleInput = Pick<ValidationRule, 'type' | 'expression' | 'errorMessage'>;
+
+interface RuleActor {
+  id: string;
+  role: string;
+  departmentId: string;
+}
+
+interface RuleCase {
+  departmentId: string;
+  createdById: string;
+  assignedToId: string | null;
+  supervisedById: string | null;
+}
+
+// Roles allowed to author validation rules
+const RULE_ADMIN_ROLES = ['super_admin', 'department_admin'];
+
+export function canManageValidationRules(role: string | undefined): boolean {
+  return !!role && RULE_ADMIN_ROLES.includes(role);
+}
+
+// Rules only run against cases the actor could open
+export function canEvaluateRulesOnCase(actor: RuleActor, caseRecord: RuleCase): boolean {
+  return actor.role === 'super_admin' ||
+    caseRecord.departmentId === actor.departmentId ||
+    caseRecord.createdById === actor.id ||
+    caseRecord.assignedToId === actor.id ||
+    caseRecord.supervisedById === actor.id;
+}
+
+const LEGACY_OPERATORS: Record<string, string> = {
+  equals: '==',
+  greaterThan: '>',
+  lessThan: '<',
+};
+
+/**
+ * Translate the legacy `{field, operator, value}` JSON condition into the
+ * rule language so rules saved before the expression engine keep working.
+ */
+export function legacyConditionToExpression(expression: string): string | null {
+  if (!expression.trim().startsWith('{')) return null;
+
+  let condition: any;
+  try {
+    condition = JSON.parse(expression);
+  } catch (_) {
+    return null;
+  }
+
+  if (!condition?.field || !condition?.operator || condition.value === undefined) {
+    return null;
+  }
+
+  const value = JSON.stringify(condition.value);
+  if (condition.operator === 'contains') {
+    return `contains(${condition.field}, ${value})`;
+  }
+
+  const operator = LEGACY_OPERATORS[condition.operator];
+  return operator ? `${condition.field} ${operator} ${value}` : null;
+}
+
+function splitList(expression: string): string[] {
+  return expression.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function diagnostic(message: string, expression: string): RuleDiagnostic {
+  return { code: 'SYNTAX_ERROR', message, span: { start: 0, end: expression.length } };
+}
+
+/**
+ * Check a rule expression at save time without touching the database.
+ */
+export function validateRuleExpression(
+  type: ValidationRuleType,
+  expression: string
+): RuleValidationReport {
+  if (type === ValidationRuleType.BUSINESS_RULE) {
+    const analysis = analyzeExpression(legacyConditionToExpression(expression) ?? expression);
+    return { valid: analysis.valid, diagnostics: analysis.diagnostics };
+  }
+
+  switch (type) {
+    case ValidationRuleType.REQUIRED_FIELD:
+    case ValidationRuleType.DOCUMENT_COMPLETENESS:
+      return splitList(expression).length > 0
+        ? { valid: true, diagnostics: [] }
+        : { valid: false, diagnostics: [diagnostic('Debe indicar al menos un elemento separado por comas', expression)] };
+
+    case ValidationRuleType.TIME_LIMIT:
+    case ValidationRuleType.FINANCIAL_THRESHOLD:
+      return Number.isFinite(parseFloat(expression))
+        ? { valid: true, diagnostics: [] }
+        : { valid: false, diagnostics: [diagnostic('La expresión debe ser un número', expression)] };
+
+    default:
+      return { valid: true, diagnostics: [] };
+  }
+}
+
+/**
+ * Load a case and the derived values the rule language exposes.
+ * Returns null when the case does not exist.
+ */
+export async function buildCaseRuleScope(caseId: string): Promise<RuleScope | null> {
+  const userReference = {
+    select: { id: true, email: true, firstName: true, lastName: true },
+  };
+
+  const caseData = await prisma.case.findUnique({
+    where: { id: caseId },
+    include: {
+      department: { select: { id: true, code: true, name: true } },
+      assignedTo: userReference,
+      supervisedBy: userReference,
+      createdBy: userReference,
+      documents: { select: { documentType: true } },
+      stageAssignments: {
+        where: { isActive: true },
+        select: { stage: true, assignedAt: true },
+      },
+    },
+  });
+
+  if (!caseData) {
+    return null;
+  }
+
+  const { documents, stageAssignments, ...fields } = caseData;
+  const currentAssignment = stageAssignments.find(
+    (assignment) => assignment.stage === caseData.currentStage
+  );
+
+  return {
+    ...fields,
+    documentCount: documents.length,
+    documentTypes: [...new Set(documents.map((doc) => doc.documentType))],
+    stageStartedAt: currentAssignment?.assignedAt ?? null,
+  };
+}
+
+// Helper functions for rule evaluation
+function evaluateRequiredFieldRule(rule: RuleInput, values: RuleScope): RuleEvaluationResult {
+  const missingFields = splitList(rule.expression).filter((field) => {
+    const value = resolvePath(values, field.split('.'));
+    return value === null || value === '' || value === false;
+  });
+
+  if (missingFields.length > 0) {
+    return { passed: false, errors: { message: rule.errorMessage, missingFields } };
+  }
+
+  return { passed: true };
+}
+
+function evaluateDocumentCompletenessRule(
+  rule: RuleInput,
+  scope: RuleScope,
+  context?: any
+): RuleEvaluationResult {
+  const existingTypes: string[] = Array.isArray(context?.documents)
+    ? context.documents.map((doc: any) => doc.type)
+    : (scope.documentTypes as string[] | undefined) ?? [];
+
+  const missingDocuments = splitList(rule.expression).filter(
+    (doc) => !existingTypes.includes(doc)
+  );
+
+  if (missingDocuments.length > 0) {
+    return { passed: false, errors: { message: rule.errorMessage, missingDocuments } };
+  }
+
+  return { passed: true };
+}
+
+function evaluateExpressionRule(
+  rule: RuleInput,
+  scope: RuleScope,
+  now: Date
+): RuleEvaluationResult {
+  const expression = legacyConditionToExpression(rule.expression) ?? rule.expression;
+
+  try {
+    const result = runExpression(expression, scope, now);
+    if (result !== true && result !== false && result !== null) {
+      return {
+        passed: false,
+        errors: { message: 'La regla no produjo un resultado booleano', result },
+      };
+    }
+
+    // A null result (e.g. comparing against a missing field) fails closed
+    return result === true ? { passed: true } : { passed: false, errors: { message: rule.errorMessage } };
+  } catch (error) {
+    if (error instanceof RuleSyntaxError || error instanceof RuleEvaluationError) {
+      return {
+        passed: false,
+        errors: {
+          message: error instanceof RuleSyntaxError ? 'Invalid business rule expression' : 'Rule evaluation failed',
+          error: error.message,
+          span: error.span,
+        },
+      };
+    }
+    throw error;
+  }
+}
+
+function evaluateTimeLimitRule(
+  rule: RuleInput,
+  scope: RuleScope,
+  now: Date,
+  context?: any,
+  calendar?: WorkCalendar
+): RuleEvaluationResult {
+  const start = context?.startDate ?? scope.startDate;
+  if (!start) {
+    return { passed: false, errors: { message: 'No start date provided' } };
+  }
+
+  const startDate = new Date(start);
+  // Limits are in business days when a working calendar is available
+  const daysElapsed = calendar
+    ? businessDaysBetween(startDate, now, calendar)
+    : Math.floor((now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+  const maxDays = parseInt(rule.expression);
+
+  if (daysElapsed > maxDays) {
+    return { passed: false, errors: { message: rule.errorMessage, daysElapsed, maxDays, businessDays: !!calendar } };
+  }
+
+  // Check if approaching deadline
+  const warningThreshold = maxDays * 0.8; // 80% of max time
+  if (daysElapsed > warningThreshold) {
+    return {
+      passed: true,
+      warnings: {
+        message: `Approaching deadline: ${daysElapsed} of ${maxDays} ${calendar ? 'business ' : ''}days elapsed`,
+      },
+    };
+  }
+
+  return { passed: true };
+}
+
+function evaluateFinancialThresholdRule(
+  rule: RuleInput,
+  scope: RuleScope,
+  context?: any
+): RuleEvaluationResult {
+  const rawValue = context?.estimatedValue ?? scope.estimatedValue;
+  if (rawValue === null || rawValue === undefined) {
+    return { passed: false, errors: { message: 'No financial value provided' } };
+  }
+
+  const threshold = parseFloat(rule.expression);
+  const value = parseFloat(String(rawValue));
+
+  if (value > threshold) {
+    return { passed: false, errors: { message: rule.errorMessage, value, threshold } };
+  }
+
+  return { passed: true };
+}
+
+/**
+ * Evaluate a single validation rule against a case scope.
+ * `context` carries optional client-supplied values that take precedence
+ * over case fields for the list-based rule types. TIME_LIMIT rules count
+ * business days when a working `calendar` is passed.
+ */
+export function evaluateValidationRule(
+  rule: RuleInput,
+  scope: RuleScope,
+  context?: any,
+  now: Date = new Date(),
+  calendar?: WorkCalendar
+): RuleEvaluationResult {
+  try {
+    switch (rule.type) {
+      case ValidationRuleType.REQUIRED_FIELD:
+        return evaluateRequiredFieldRule(rule, { ...scope, ...(context ?? {}) });
+
+      case ValidationRuleType.DOCUMENT_COMPLETENESS:
+        return evaluateDocumentCompletenessRule(rule, scope, context);
+
+      case ValidationRuleType.BUSINESS_RULE:
+        return evaluateExpressionRule(rule, scope, now);
+
+      case ValidationRuleType.TIME_LIMIT:
+        return evaluateTimeLimitRule(rule, scope, now, context, calendar);
+
+      case ValidationRuleType.FINANCIAL_THRESHOLD:
+        return evaluateFinancialThresholdRule(rule, scope, context);
+
+      default:
+        // Default: rule passes
+        return { passed: true };
+    }
+  } catch (error) {
+    return {
+      passed: false,
+      errors: { message: 'Rule evaluation failed', error: error instanceof Error ? error.message : 'Unknown error' },
+    };
+  }
+}
+
+// Dependency resolution
+/**
+ * Normalize the `dependsOn` JSON column into a list of rule IDs.
+ * Accepts `["id"]`, `[{ ruleId: "id" }]` or a comma-separated string.
+ */
+export function parseDependsOn(value: Prisma.JsonValue | null | undefined): string[] {
+  if (!value) return [];
+  if (typeof value === 'string') return splitList(value);
+  if (!Array.isArray(value)) return [];
+
+  const ids = value
+    .map((item) => {
+      if (typeof item === 'string') return item;
+      if (item && typeof item === 'object' && !Array.isArray(item) && typeof item.ruleId === 'string') {
+        return item.ruleId;
+      }
+      return null;
+    })
+    .filter((id): id is string => !!id);
+
+  return [...new Set(ids)];
+}
+
+/**
+ * Find a dependency cycle reachable from `startId`.
+ * Returns the cycle as a path that starts and ends with the same ID.
+ */
+export function findDependencyCycle(
+  graph: Map<string, string[]>,
+  startId?: string
+): string[] | null {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    if (visited.has(id)) return null;
+
+    visiting.add(id);
+    stack.push(id);
+    for (const dependency of graph.get(id) ?? []) {
+      if (!graph.has(dependency)) continue;
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  const roots = startId ? [startId] : [...graph.keys()];
+  for (const root of roots) {
+    const cycle = visit(root);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Order rules so prerequisites run first (Kahn's algorithm).
+ * Input order is preserved among independent rules; rules caught in a
+ * cycle cannot be ordered and are returned separately.
+ */
+export function orderRulesByDependencies<T extends Pick<ValidationRule, 'id' | 'dependsOn'>>(
+  rules: T[]
+): { ordered: T[]; cyclic: T[] } {
+  const ids = new Set(rules.map((rule) => rule.id));
+  const pending = new Map(
+    rules.map((rule) => [
+      rule.id,
+      new Set(parseDependsOn(rule.dependsOn).filter((id) => ids.has(id) && id !== rule.id)),
+    ])
+  );
+  const selfReferencing = new Set(
+    rules.filter((rule) => parseDependsOn(rule.dependsOn).includes(rule.id)).map((rule) => rule.id)
+  );
+
+  const ordered: T[] = [];
+  let remaining = rules.filter((rule) => !selfReferencing.has(rule.id));
+  let progressed = true;
+
+  while (remaining.length > 0 && progressed) {
+    progressed = false;
+    const next: T[] = [];
+    for (const rule of remaining) {
+      if (pending.get(rule.id)!.size === 0) {
+        ordered.push(rule);
+        pending.forEach((dependencies) => dependencies.delete(rule.id));
+        progressed = true;
+      } else {
+        next.push(rule);
+      }
+    }
+    remaining = next;
+  }
+
+  const cyclic = [...rules.filter((rule) => selfReferencing.has(rule.id)), ...remaining];
+  return { ordered, cyclic };
+}
+
+/**
+ * Check the prerequisites of a rule being saved: every referenced rule must
+ * exist and the resulting graph must stay acyclic.
+ */
+export async function checkRuleDependencies(
+  ruleId: string | null,
+  dependsOn: string[]
+): Promise<DependencyCheckResult> {
+  const existing = await prisma.validationRule.findMany({
+    select: { id: true, dependsOn: true },
+  });
+
+  const graph = new Map(existing.map((rule) => [rule.id, parseDependsOn(rule.dependsOn)]));
+  const missing = dependsOn.filter((id) => id !== ruleId && !graph.has(id));
+
+  // A rule that is not saved yet cannot be referenced by others, so only a
+  // self-reference can close a cycle through it
+  const nodeId = ruleId ?? '__new_rule__';
+  graph.set(nodeId, dependsOn.map((id) => (id === ruleId ? nodeId : id)));
+
+  const cycle = findDependencyCycle(graph, nodeId);
+  return { valid: missing.length === 0 && !cycle, missing, cycle };
+}
+
+/**
+ * Active rules that apply to a stage (stage-specific plus global ones),
+ * extended with any active prerequisites they depend on.
+ */
+export async function resolveStageRules(
+  stage: CaseStage,
+  severities?: string[]
+): Promise<ValidationRule[]> {
+  const rules = await prisma.validationRule.findMany({
+    where: {
+      isActive: true,
+      OR: [{ stage }, { stage: null }],
+      ...(severities && { severity: { in: severities } }),
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const byId = new Map(rules.map((rule) => [rule.id, rule]));
+  let missing = rules.flatMap((rule) => parseDependsOn(rule.dependsOn)).filter((id) => !byId.has(id));
+
+  while (missing.length > 0) {
+    const prerequisites = await prisma.validationRule.findMany({
+      where: { id: { in: [...new Set(missing)] }, isActive: true },
+    });
+    prerequisites.forEach((rule) => byId.set(rule.id, rule));
+    missing = prerequisites
+      .flatMap((rule) => parseDependsOn(rule.dependsOn))
+      .filter((id) => !byId.has(id));
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Resolve, order and run the rules for a case's current stage, persisting
+ * one ValidationExecution per rule. Dependents of a failed prerequisite are
+ * recorded as skipped. Returns null when the case does not exist.
+ */
+export async function executeCaseValidation({
+  caseId,
+  executedBy,
+  context,
+  entityType = 'case',
+  entityId,
+  severities,
+}: ExecuteCaseValidationOptions) {
+  const scope = await buildCaseRuleScope(caseId);
+  if (!scope) {
+    return null;
+  }
+
+  const stage = scope.currentStage as CaseStage;
+  const startTime = Date.now();
+  const rules = await resolveStageRules(stage, severities);
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+  const { ordered, cyclic } = orderRulesByDependencies(rules);
+  const calendar = rules.some((rule) => rule.type === ValidationRuleType.TIME_LIMIT)
+    ? await loadWorkCalendar()
+    : undefined;
+
+  const statuses = new Map<string, DependencyTraceEntry['status']>();
+  const trace: DependencyTraceEntry[] = [];
+  const executions = [];
+
+  const cycle = cyclic.length > 0
+    ? findDependencyCycle(new Map(cyclic.map((rule) => [rule.id, parseDependsOn(rule.dependsOn)])))
+    : null;
+
+  for (const rule of [...ordered, ...cyclic]) {
+    const dependencies = parseDependsOn(rule.dependsOn).map((id) => ({
+      ruleId: id,
+      ...(rulesById.has(id) && { ruleName: rulesById.get(id)!.name }),
+      status: statuses.get(id) ?? ('unavailable' as DependencyStatus),
+    }));
+    const isCyclic = cyclic.includes(rule);
+    const unmet = dependencies
+      .filter((dependency) => dependency.status === 'failed' || dependency.status === 'skipped')
+      .map((dependency) => dependency.ruleId);
+
+    let result: RuleEvaluationResult;
+    let skipped = false;
+
+    if (isCyclic) {
+      skipped = true;
+      result = {
+        passed: false,
+        errors: { message: 'Regla omitida: dependencia circular', cycle: cycle ?? [rule.id] },
+      };
+    } else if (unmet.length > 0) {
+      skipped = true;
+      result = {
+        passed: false,
+        errors: { message: 'Regla omitida: no se cumplió una regla prerrequisito', prerequisites: unmet },
+      };
+    } else {
+      result = evaluateValidationRule(rule, scope, context, new Date(), calendar);
+    }
+
+    const status = skipped ? 'skipped' : result.passed ? 'passed' : 'failed';
+    statuses.set(rule.id, status);
+
+    const entry: DependencyTraceEntry = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      order: trace.length + 1,
+      status,
+      dependsOn: dependencies,
+      ...(unmet.length > 0 && { skippedBecause: unmet }),
+      ...(isCyclic && cycle && { cycle }),
+    };
+    trace.push(entry);
+
+    const payloadData: Prisma.ValidationExecutionCreateInput = {
+      stage,
+      entityType,
+      entityId: entityId || caseId,
+      context: context ?? undefined,
+      passed: result.passed,
+      skipped,
+      errors: result.errors as Prisma.InputJsonValue,
+      warnings: result.warnings as Prisma.InputJsonValue,
+      dependencyTrace: entry,
+      executedBy,
+      rule: { connect: { id: rule.id } },
+      case: { connect: { id: caseId } },
+    };
+
+    executions.push(
+      await prisma.validationExecution.create({
+        data: payloadData,
+        include: { rule: true },
+      })
+    );
+  }
+
+  const passed = executions.filter((execution) => execution.passed).length;
+  const skippedCount = executions.filter((execution) => execution.skipped).length;
+  const executionTime = Date.now() - startTime;
+
+  const summary = {
+    total: executions.length,
+    passed,
+    failed: executions.length - passed - skippedCount,
+    skipped: skippedCount,
+    warnings: executions.filter((e) => e.warnings && Object.keys(e.warnings).length > 0).length,
+    executionTime,
+    coverage: executions.length > 0 ? Math.round((passed / executions.length) * 100) : 100,
+  };
+
+  return { stage, executions, summary, trace, executionTime };
+}
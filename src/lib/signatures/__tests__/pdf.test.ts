@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto';
+import forge from 'node-forge';
+import { PDFArray, PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import type { PdfSigningCredentials } from '../certificate';
+import { signPdf, type SignPdfOptions } from '../pdf';
+
+// DER of the messageDigest attribute type, followed by its SET and OCTET STRING headers
+const MESSAGE_DIGEST = Buffer.from('06092a864886f70d010904312204' + '20', 'hex');
+
+function testCredentials(): PdfSigningCredentials {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date(Date.now() - 60_000);
+  certificate.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const subject = [{ name: 'commonName', value: 'Firma de prueba' }];
+  certificate.setSubject(subject);
+  certificate.setIssuer(subject);
+  certificate.sign(
+    forge.pki.privateKeyFromPem(privateKey.export({ type: 'pkcs1', format: 'pem' }).toString()),
+    forge.md.sha256.create()
+  );
+  return { privateKey, chain: [new crypto.X509Certificate(forge.pki.certificateToPem(certificate))] };
+}
+
+function options(credentials: PdfSigningCredentials, signerName: string): SignPdfOptions {
+  return {
+    block: {
+      signerName,
+      signedAt: new Date('2026-03-02T15:04:00Z'),
+      fileNumber: 'EXP-2026-0001',
+      verificationCode: 'ABCD-EFGH-JKLM',
+      verificationUrl: 'https://example.org/verify/ABCD-EFGH-JKLM',
+    },
+    reason: 'Sanción del Ministro',
+    credentials,
+  };
+}
+
+async function unsignedPdf(size: [number, number]): Promise<Uint8Array> {
+  const document = await PDFDocument.create();
+  document.addPage(size).drawText('Resolución', { x: 50, y: size[1] - 60 });
+  return document.save();
+}
+
+// Every signature in the file with whether the digest it signed still
+// matches the bytes its ByteRange covers
+function signatureDigests(pdf: Buffer): Array<{ range: number[]; matches: boolean }> {
+  const text = pdf.toString('latin1');
+  return [...text.matchAll(/\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\s*\]/g)].map((match) => {
+    const [start, firstLength, secondStart, secondLength] = match.slice(1).map(Number) as [number, number, number, number];
+    const contents = Buffer.from(text.slice(start + firstLength + 1, secondStart - 1), 'hex');
+    const at = contents.indexOf(MESSAGE_DIGEST);
+    const signed = contents.subarray(at + MESSAGE_DIGEST.length, at + MESSAGE_DIGEST.length + 32);
+    const actual = crypto
+      .createHash('sha256')
+      .update(pdf.subarray(start, start + firstLength))
+      .update(pdf.subarray(secondStart, secondStart + secondLength))
+      .digest();
+    return { range: [start, firstLength, secondStart, secondLength], matches: at >= 0 && actual.equals(signed) };
+  });
+}
+
+async function signatureWidgets(pdf: Buffer): Promise<Array<{ page: number; rect: number[] }>> {
+  const document = await PDFDocument.load(pdf);
+  return document.getPages().flatMap((page, index) => {
+    const annots = page.node.Annots() ?? PDFArray.withContext(document.context);
+    return annots.asArray().map((ref) => {
+      const rect = document.context.lookup(ref, PDFDict).lookup(PDFName.of('Rect'), PDFArray);
+      return { page: index, rect: rect.asArray().map((value) => Number(value.toString())) };
+    });
+  });
+}
+
+describe('signPdf', () => {
+  const credentials = testCredentials();
+
+  it('keeps earlier signatures valid when the document is signed again', async () => {
+    const once = await signPdf(await unsignedPdf([595, 842]), options(credentials, 'Ana Pérez'));
+    const twice = await signPdf(once, options(credentials, 'Luis Gómez'));
+
+    expect(twice.subarray(0, once.length).equals(once)).toBe(true);
+    const digests = signatureDigests(twice);
+    expect(digests).toHaveLength(2);
+    expect(digests.every((digest) => digest.matches)).toBe(true);
+    expect(digests[1]!.range[2]! + digests[1]!.range[3]!).toBe(twice.length);
+  });
+
+  it('stacks the blocks of successive signers and moves to a new page when the column is full', async () => {
+    let pdf: Buffer = Buffer.from(await unsignedPdf([300, 300]));
+    for (const signer of ['Ana Pérez', 'Luis Gómez', 'Rosa Díaz']) {
+      pdf = await signPdf(pdf, options(credentials, signer));
+    }
+
+    const widgets = await signatureWidgets(pdf);
+    expect(widgets.map((widget) => widget.page)).toEqual([0, 0, 1]);
+    const [first, second] = widgets;
+    expect(second!.rect[1]).toBeGreaterThanOrEqual(first!.rect[3]!);
+    expect(signatureDigests(pdf).every((digest) => digest.matches)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SignatureError } from './keys';
+
+export interface PdfSigningCredentials {
+  privateKey: crypto.KeyObject;
+  /** Signing certificate first, followed by any intermediate certificates */
+  chain: crypto.X509Certificate[];
+}
+
+const CERTIFICATE_PATTERN = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+let credentials: PdfSigningCredentials | undefined;
+
+function readConfiguredFile(variable: string): string {
+  const file = process.env[variable];
+  if (!file) {
+    throw new SignatureError(`${variable} is not configured`, 500);
+  }
+  try {
+    return fs.readFileSync(path.resolve(process.cwd(), file), 'utf8');
+  } catch {
+    throw new SignatureError(`Cannot read ${variable} (${file})`, 500);
+  }
+}
+
+/**
+ * X.509 key and certificate that sign PDFs, read from the PEM files in
+ * PDF_SIGNING_KEY and PDF_SIGNING_CERT (which may also hold the chain).
+ * RSA and EC keys are supported.
+ */
+export function getPdfSigningCredentials(): PdfSigningCredentials {
+  if (!credentials) {
+    const keyPem = readConfiguredFile('PDF_SIGNING_KEY');
+    const certPem = readConfiguredFile('PDF_SIGNING_CERT');
+
+    const privateKey = crypto.createPrivateKey({
+      key: keyPem,
+      ...(process.env.PDF_SIGNING_KEY_PASSPHRASE && { passphrase: process.env.PDF_SIGNING_KEY_PASSPHRASE }),
+    });
+    if (privateKey.asymmetricKeyType !== 'rsa' && privateKey.asymmetricKeyType !== 'ec') {
+      throw new SignatureError('PDF_SIGNING_KEY must be an RSA or EC key', 500);
+    }
+
+    const chain = (certPem.match(CERTIFICATE_PATTERN) ?? []).map((pem) => new crypto.X509Certificate(pem));
+    const [certificate] = chain;
+    if (!certificate) {
+      throw new SignatureError('PDF_SIGNING_CERT holds no certificate', 500);
+    }
+    if (!certificate.checkPrivateKey(privateKey)) {
+      throw new SignatureError('PDF_SIGNING_KEY does not match the first certificate in PDF_SIGNING_CERT', 500);
+    }
+
+    credentials = { privateKey, chain };
+  }
+
+  const [certificate] = credentials.chain;
+  const now = Date.now();
+  if (now < Date.parse(certificate!.validFrom) || now > Date.parse(certificate!.validTo)) {
+    throw new SignatureError(`PDF signing certificate is not valid now (expires ${certificate!.validTo})`, 500);
+  }
+  return credentials;
+}
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import forge from 'node-forge';
+import type { PdfSigningCredentials } from './certificate';
+
+const { asn1 } = forge;
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+};
+
+type Asn1 = forge.asn1.Asn1;
+
+function oid(value: string): Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(value).getBytes());
+}
+
+function sequence(items: Asn1[]): Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, items);
+}
+
+function set(items: Asn1[]): Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, items);
+}
+
+function octetString(bytes: Buffer): Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, bytes.toString('binary'));
+}
+
+function integer(value: number): Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(value).getBytes());
+}
+
+function contextTag(tag: number, items: Asn1[]): Asn1 {
+  return asn1.create(asn1.Class.CONTEXT_SPECIFIC, tag, true, items);
+}
+
+function fromDer(bytes: Buffer): Asn1 {
+  return asn1.fromDer(forge.util.createBuffer(bytes.toString('binary')));
+}
+
+function toDer(node: Asn1): Buffer {
+  return Buffer.from(asn1.toDer(node).getBytes(), 'binary');
+}
+
+function attribute(type: string, value: Asn1): Asn1 {
+  return sequence([oid(type), set([value])]);
+}
+
+/**
+ * IssuerAndSerialNumber of a certificate, read from its DER encoding so EC
+ * certificates (which forge cannot load as objects) work too.
+ */
+function issuerAndSerial(certificate: crypto.X509Certificate): Asn1 {
+  const tbs = (fromDer(certificate.raw).value as Asn1[])[0]!.value as Asn1[];
+  // The version field is an explicit [0] tag that v1 certificates omit
+  const offset = tbs[0]!.tagClass === asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;
+  return sequence([tbs[offset + 2]!, tbs[offset]!]);
+}
+
+/**
+ * Detached CMS SignedData over `content`, with the signed attributes PAdES
+ * baseline signatures require (content type, message digest and
+ * signing-certificate-v2) and no signing time: the PDF's /M entry holds it.
+ */
+export function createDetachedCms(content: Buffer, credentials: PdfSigningCredentials): Buffer {
+  const [certificate, ...intermediates] = credentials.chain;
+  const sha256 = sequence([oid(OID.sha256)]);
+  const certificateHash = crypto.createHash('sha256').update(certificate!.raw).digest();
+
+  const signedAttributes = [
+    attribute(OID.contentType, oid(OID.data)),
+    attribute(OID.messageDigest, octetString(crypto.createHash('sha256').update(content).digest())),
+    attribute(OID.signingCertificateV2, sequence([sequence([sequence([octetString(certificateHash)])])])),
+  ];
+
+  // The signature covers the attributes DER-encoded as a SET, not with the
+  // implicit [0] tag they carry inside SignerInfo
+  const signature = crypto.sign('sha256', toDer(set(signedAttributes)), credentials.privateKey);
+  const signatureAlgorithm =
+    credentials.privateKey.asymmetricKeyType === 'ec'
+      ? sequence([oid(OID.ecdsaWithSHA256)])
+      : sequence([oid(OID.sha256WithRSAEncryption), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')]);
+
+  const signerInfo = sequence([
+    integer(1),
+    issuerAndSerial(certificate!),
+    sha256,
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, signedAttributes),
+    signatureAlgorithm,
+    octetString(signature),
+  ]);
+
+  const signedData = sequence([
+    integer(1),
+    set([sha256]),
+    sequence([oid(OID.data)]),
+    asn1.create(
+      asn1.Class.CONTEXT_SPECIFIC,
+      0,
+      true,
+      [certificate!, ...intermediates].map((cert) => fromDer(cert.raw))
+    ),
+    set([signerInfo]),
+  ]);
+
+  return toDer(sequence([oid(OID.signedData), contextTag(0, [signedData])]));
+}
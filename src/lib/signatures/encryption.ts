@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+import { SignatureError } from './keys';
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Encrypt the signature image or captured data a user submits with
+ * SIGNATURE_SECRET. Each value gets its own salt and IV, stored with it as
+ * `salt:iv:authTag:ciphertext` in hex.
+ */
+export function encryptSignatureData(data: string): string {
+  const secret = process.env.SIGNATURE_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new SignatureError('SIGNATURE_SECRET must be set to at least 32 characters', 500);
+  }
+
+  const salt = crypto.randomBytes(16);
+  const key = crypto.scryptSync(secret, salt, 32);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
+
+  return [salt, iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('hex')).join(':');
+}
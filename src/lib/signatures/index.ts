@@ -0,0 +1,23 @@
+export { SIGNATURE_ALGORITHM, SignatureError, getSigningKey, getTrustedKey, keyIdOf, type SigningKey } from './keys';
+export { encryptSignatureData } from './encryption';
+export {
+  SIGNER_SELECT,
+  createDigitalSignature,
+  generateVerificationCode,
+  hashDocumentFile,
+  normalizeVerificationCode,
+  type CreateSignatureInput,
+  type SignatureStatement,
+} from './sign';
+export {
+  verifyDigitalSignature,
+  type SignatureVerificationReport,
+  type VerificationCheck,
+  type VerificationCheckName,
+  type VerifySignatureOptions,
+} from './verify';
+export { getPdfSigningCredentials, type PdfSigningCredentials } from './certificate';
+export { createDetachedCms } from './cms';
+export { signPdf, type SignatureBlock, type SignPdfOptions } from './pdf';
+export { signDocumentPdf, type SignDocumentPdfInput } from './signed-pdf';
+export { getPublicVerification, type PublicHashStatus, type PublicVerification } from './public';
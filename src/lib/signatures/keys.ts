@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+
+export class SignatureError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+
+export const SIGNATURE_ALGORITHM = 'Ed25519';
+
+export interface SigningKey {
+  id: string;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+}
+
+const PUBLIC_KEY_PATTERN = /-----BEGIN PUBLIC KEY-----[\s\S]+?-----END PUBLIC KEY-----/g;
+
+let signingKey: SigningKey | undefined;
+let trustedKeys: Map<string, crypto.KeyObject> | undefined;
+
+// Keys are often pasted into .env on a single line with escaped newlines
+function readPem(value: string): string {
+  return value.replace(/\\n/g, '\n').trim();
+}
+
+/**
+ * Short, stable identifier of a public key: the first 16 bytes of the SHA-256
+ * of its DER encoding, as recorded on each signature.
+ */
+export function keyIdOf(publicKey: crypto.KeyObject): string {
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 32);
+}
+
+/**
+ * Server key that signs new signatures, read from SIGNATURE_PRIVATE_KEY (an
+ * Ed25519 key in PEM format, see docs/SETUP.md).
+ */
+export function getSigningKey(): SigningKey {
+  if (!signingKey) {
+    const pem = process.env.SIGNATURE_PRIVATE_KEY;
+    if (!pem) {
+      throw new SignatureError('SIGNATURE_PRIVATE_KEY is not configured', 500);
+    }
+
+    const privateKey = crypto.createPrivateKey(readPem(pem));
+    if (privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new SignatureError('SIGNATURE_PRIVATE_KEY must be an Ed25519 key', 500);
+    }
+    const publicKey = crypto.createPublicKey(privateKey);
+    signingKey = { id: keyIdOf(publicKey), privateKey, publicKey };
+  }
+  return signingKey;
+}
+
+/**
+ * Public keys signatures can be verified against: the current signing key and
+ * the retired ones listed in SIGNATURE_PREVIOUS_PUBLIC_KEYS, so rotating the
+ * key does not invalidate what was signed before.
+ */
+export function getTrustedKey(keyId: string): crypto.KeyObject | null {
+  if (!trustedKeys) {
+    const keys = new Map<string, crypto.KeyObject>();
+    for (const pem of readPem(process.env.SIGNATURE_PREVIOUS_PUBLIC_KEYS ?? '').match(PUBLIC_KEY_PATTERN) ?? []) {
+      const publicKey = crypto.createPublicKey(pem);
+      keys.set(keyIdOf(publicKey), publicKey);
+    }
+    if (process.env.SIGNATURE_PRIVATE_KEY) {
+      const current = getSigningKey();
+      keys.set(current.id, current.publicKey);
+    }
+    trustedKeys = keys;
+  }
+  return trustedKeys.get(keyId) ?? null;
+}
+
+export function exportPublicKey(publicKey: crypto.KeyObject): string {
+  return publicKey.export({ type: 'spki', format: 'pem' }).toString();
+}
@@ -0,0 +1,331 @@
+import { format } from 'date-fns';
+import QRCode from 'qrcode';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFStream,
+  StandardFonts,
+  rgb,
+  type PDFObject,
+  type PDFPage,
+} from 'pdf-lib';
+import type { PdfSigningCredentials } from './certificate';
+import { createDetachedCms } from './cms';
+import { SignatureError } from './keys';
+
+// Room for the CMS with a certificate chain of a few certificates
+const SIGNATURE_SIZE = 16384;
+const BYTE_RANGE_PLACEHOLDER = '/ByteRange [0 ********** ********** **********]';
+
+const BLOCK_WIDTH = 280;
+const BLOCK_HEIGHT = 84;
+const BLOCK_MARGIN = 36;
+// Vertical space between the blocks of successive signers
+const BLOCK_GAP = 8;
+
+export interface SignatureBlock {
+  signerName: string;
+  signedAt: Date;
+  fileNumber: string;
+  verificationCode: string;
+  verificationUrl: string;
+}
+
+export interface SignPdfOptions {
+  block: SignatureBlock;
+  reason: string;
+  credentials: PdfSigningCredentials;
+}
+
+type Rect = [number, number, number, number];
+
+async function loadPdf(bytes: Uint8Array): Promise<PDFDocument> {
+  try {
+    return await PDFDocument.load(bytes, { updateMetadata: false });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new SignatureError(`The document is not a PDF that can be signed: ${message}`, 422);
+  }
+}
+
+/**
+ * Draw the visible signature block on a page of its own size: signer,
+ * date, case file number and a QR code to the verification page. It becomes
+ * the appearance of the signature widget.
+ */
+async function drawSignatureBlock(block: SignatureBlock): Promise<PDFPage> {
+  const document = await PDFDocument.create();
+  const page = document.addPage([BLOCK_WIDTH, BLOCK_HEIGHT]);
+  const regular = await document.embedFont(StandardFonts.Helvetica);
+  const bold = await document.embedFont(StandardFonts.HelveticaBold);
+  const qr = await document.embedPng(
+    await QRCode.toBuffer(block.verificationUrl, { type: 'png', margin: 0, width: 192, errorCorrectionLevel: 'M' })
+  );
+
+  const color = rgb(0.1, 0.2, 0.45);
+  page.drawRectangle({
+    x: 0,
+    y: 0,
+    width: BLOCK_WIDTH,
+    height: BLOCK_HEIGHT,
+    borderColor: color,
+    borderWidth: 0.75,
+    color: rgb(1, 1, 1),
+  });
+  page.drawImage(qr, { x: 6, y: 6, width: BLOCK_HEIGHT - 12, height: BLOCK_HEIGHT - 12 });
+
+  const lines: Array<[string, typeof regular, number]> = [
+    ['Firmado digitalmente por', bold, 7],
+    [block.signerName, bold, 9],
+    [`Fecha: ${format(block.signedAt, 'dd/MM/yyyy HH:mm')}`, regular, 7.5],
+    [`Expediente: ${block.fileNumber}`, regular, 7.5],
+    [`Código de verificación: ${block.verificationCode}`, regular, 7.5],
+  ];
+  const textWidth = BLOCK_WIDTH - BLOCK_HEIGHT - 6;
+  let textY = BLOCK_HEIGHT - 14;
+  for (const [text, font, size] of lines) {
+    // Long names shrink rather than run out of the box
+    const fitted = Math.min(size, (size * textWidth) / font.widthOfTextAtSize(text, size));
+    page.drawText(text, { x: BLOCK_HEIGHT, y: textY, size: fitted, font, color });
+    textY -= 14;
+  }
+
+  return page;
+}
+
+function isSignatureField(document: PDFDocument, field: PDFDict): boolean {
+  const type = field.get(PDFName.of('FT'));
+  if (type) return type === PDFName.of('Sig');
+  const parent = field.get(PDFName.of('Parent'));
+  return !!parent && isSignatureField(document, document.context.lookup(parent, PDFDict));
+}
+
+function signatureWidgetCount(document: PDFDocument, page: PDFPage): number {
+  const annots = page.node.Annots();
+  let count = 0;
+  for (let i = 0; i < (annots?.size() ?? 0); i++) {
+    const annot = document.context.lookup(annots!.get(i));
+    if (annot instanceof PDFDict && annot.get(PDFName.of('Subtype')) === PDFName.of('Widget')) {
+      if (isSignatureField(document, annot)) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Where the next signature block goes: bottom right of the last page, above
+ * the blocks of earlier signers. Once that column is full the block goes on
+ * a new page of the same size.
+ */
+function placeSignatureBlock(document: PDFDocument): { page: PDFPage; rect: Rect } {
+  let page = document.getPage(document.getPageCount() - 1);
+  const { height } = page.getCropBox();
+  const perPage = Math.max(Math.floor((height - 2 * BLOCK_MARGIN + BLOCK_GAP) / (BLOCK_HEIGHT + BLOCK_GAP)), 1);
+
+  let slot = signatureWidgetCount(document, page);
+  if (slot >= perPage) {
+    const { width, height: pageHeight } = page.getSize();
+    page = document.addPage([width, pageHeight]);
+    slot = 0;
+  }
+
+  const { x: left, y: bottom, width } = page.getCropBox();
+  const x = left + Math.max(width - BLOCK_WIDTH - BLOCK_MARGIN, 0);
+  const y = bottom + BLOCK_MARGIN + slot * (BLOCK_HEIGHT + BLOCK_GAP);
+  return { page, rect: [x, y, x + BLOCK_WIDTH, y + BLOCK_HEIGHT] };
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+function withAppended(array: PDFObject | undefined, document: PDFDocument, ref: PDFRef): PDFArray {
+  const resolved = array ? document.context.lookup(array) : undefined;
+  const appended = PDFArray.withContext(document.context);
+  if (resolved instanceof PDFArray) {
+    for (let i = 0; i < resolved.size(); i++) appended.push(resolved.get(i));
+  }
+  appended.push(ref);
+  return appended;
+}
+
+function lastStartXref(pdf: Buffer): number {
+  const match = pdf.toString('latin1', Math.max(pdf.length - 1024, 0)).match(/startxref\s+(\d+)\s+%%EOF\s*$/);
+  if (!match) {
+    throw new SignatureError('The document has no cross-reference table to update', 422);
+  }
+  return Number(match[1]);
+}
+
+function hasSignatureFields(document: PDFDocument): boolean {
+  const acroForm = document.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  const fields = acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  for (let i = 0; i < (fields?.size() ?? 0); i++) {
+    const field = document.context.lookup(fields!.get(i));
+    if (field instanceof PDFDict && isSignatureField(document, field)) return true;
+  }
+  return false;
+}
+
+/**
+ * The indirect objects that are not streams, as serialized, so that the
+ * ones changed while signing can be told apart afterwards.
+ */
+function snapshotObjects(document: PDFDocument): Map<number, string> {
+  const snapshot = new Map<number, string>();
+  for (const [ref, object] of document.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFStream)) snapshot.set(ref.objectNumber, object.toString());
+  }
+  return snapshot;
+}
+
+function objectBytes(object: PDFObject): Buffer {
+  const bytes = Buffer.alloc(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  return bytes;
+}
+
+/**
+ * Append an incremental update with the signature field, its widget showing
+ * the signature block and a signature dictionary whose /Contents is filled
+ * in afterwards. Earlier revisions, and the signatures covering them, stay
+ * byte for byte as they were.
+ */
+async function appendSignatureRevision(
+  pdf: Buffer,
+  options: SignPdfOptions
+): Promise<{ bytes: Buffer; contentsStart: number; contentsEnd: number; byteRangeStart: number }> {
+  let document = await loadPdf(pdf);
+  // An unsigned PDF whose last revision uses a cross-reference stream is
+  // rewritten once with a classic table, which later revisions extend
+  if (!pdf.toString('latin1', lastStartXref(pdf), lastStartXref(pdf) + 4).startsWith('xref')) {
+    if (hasSignatureFields(document)) {
+      throw new SignatureError('Signed documents with cross-reference streams cannot be signed again', 422);
+    }
+    pdf = Buffer.from(await document.save({ useObjectStreams: false }));
+    document = await loadPdf(pdf);
+  }
+
+  const { context, catalog } = document;
+  const { Root: root, Info: info, ID: id } = context.trailerInfo;
+  if (!(root instanceof PDFRef)) {
+    throw new SignatureError('The document catalog cannot be updated', 422);
+  }
+
+  const largestObjectNumber = context.largestObjectNumber;
+  const original = snapshotObjects(document);
+  const { page, rect } = placeSignatureBlock(document);
+
+  const appearance = await document.embedPage(await drawSignatureBlock(options.block));
+  const signatureRef = context.nextRef();
+  const widgetRef = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Sig',
+      F: 132,
+      T: PDFHexString.fromText(`Firma ${signatureRef.objectNumber}`),
+      V: signatureRef,
+      P: page.ref,
+      Rect: rect,
+      AP: { N: appearance.ref },
+    })
+  );
+
+  const currentAcroForm = catalog.get(PDFName.of('AcroForm'));
+  const acroForm = (currentAcroForm && context.lookup(currentAcroForm, PDFDict)) ?? context.obj({});
+  acroForm.set(PDFName.of('Fields'), withAppended(acroForm.get(PDFName.of('Fields')), document, widgetRef));
+  acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+  catalog.set(PDFName.of('AcroForm'), currentAcroForm instanceof PDFRef ? currentAcroForm : context.register(acroForm));
+  page.node.set(PDFName.of('Annots'), withAppended(page.node.get(PDFName.of('Annots')), document, widgetRef));
+  await document.flush();
+
+  // New objects, and the existing ones that now read differently: the
+  // catalog, the form, the page and, for a new page, its page tree
+  const objects: Array<[PDFRef, Buffer]> = [];
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref.objectNumber > largestObjectNumber || original.get(ref.objectNumber) !== object.toString()) {
+      if (object instanceof PDFStream && ref.objectNumber <= largestObjectNumber) continue;
+      objects.push([ref, objectBytes(object)]);
+    }
+  }
+
+  const text = (value: string) => PDFHexString.fromText(value).toString();
+  const placeholder = `<${'0'.repeat(SIGNATURE_SIZE * 2)}>`;
+  const signature = [
+    '<<',
+    '/Type /Sig',
+    '/Filter /Adobe.PPKLite',
+    '/SubFilter /ETSI.CAdES.detached',
+    BYTE_RANGE_PLACEHOLDER,
+    `/Contents ${placeholder}`,
+    `/M (${pdfDate(options.block.signedAt)})`,
+    `/Name ${text(options.block.signerName)}`,
+    `/Reason ${text(options.reason)}`,
+    '>>',
+  ].join('\n');
+  objects.push([signatureRef, Buffer.from(signature, 'latin1')]);
+
+  const chunks: Buffer[] = [Buffer.from('\n', 'latin1')];
+  let length = pdf.length + 1;
+  const append = (chunk: Buffer) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  const offsets: Array<{ ref: PDFRef; offset: number }> = [];
+  let signatureOffset = 0;
+  for (const [ref, body] of objects) {
+    offsets.push({ ref, offset: length });
+    append(Buffer.from(`${ref.objectNumber} ${ref.generationNumber} obj\n`, 'latin1'));
+    if (ref === signatureRef) signatureOffset = length;
+    append(body);
+    append(Buffer.from('\nendobj\n', 'latin1'));
+  }
+
+  const xrefOffset = length;
+  let xref = 'xref\n';
+  for (const { ref, offset } of offsets.sort((a, b) => a.ref.objectNumber - b.ref.objectNumber)) {
+    xref += `${ref.objectNumber} 1\n${String(offset).padStart(10, '0')} ${String(ref.generationNumber).padStart(5, '0')} n \n`;
+  }
+  xref +=
+    `trailer\n<< /Size ${context.largestObjectNumber + 1} /Root ${root}${info ? ` /Info ${info}` : ''}` +
+    `${id ? ` /ID ${id}` : ''} /Prev ${lastStartXref(pdf)} >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  append(Buffer.from(xref, 'latin1'));
+
+  const contentsStart = signatureOffset + signature.indexOf(placeholder);
+  return {
+    bytes: Buffer.concat([pdf, ...chunks]),
+    contentsStart,
+    contentsEnd: contentsStart + placeholder.length,
+    byteRangeStart: signatureOffset + signature.indexOf(BYTE_RANGE_PLACEHOLDER),
+  };
+}
+
+/**
+ * Produce a signed copy of a PDF: a visible signature block and a PAdES
+ * (ETSI.CAdES.detached) signature made with the configured X.509 key. The
+ * input is not modified.
+ */
+export async function signPdf(pdf: Uint8Array, options: SignPdfOptions): Promise<Buffer> {
+  const { bytes, contentsStart, contentsEnd, byteRangeStart } = await appendSignatureRevision(Buffer.from(pdf), options);
+
+  const byteRange = `/ByteRange [0 ${contentsStart} ${contentsEnd} ${bytes.length - contentsEnd}]`;
+  bytes.write(byteRange.padEnd(BYTE_RANGE_PLACEHOLDER.length, ' '), byteRangeStart, 'latin1');
+
+  const cms = createDetachedCms(
+    Buffer.concat([bytes.subarray(0, contentsStart), bytes.subarray(contentsEnd)]),
+    options.credentials
+  );
+  if (cms.length > SIGNATURE_SIZE) {
+    throw new SignatureError('The signing certificate chain is too large for the signature placeholder', 500);
+  }
+  bytes.write(cms.toString('hex'), contentsStart + 1, 'latin1');
+
+  return bytes;
+}
@@ -0,0 +1,147 @@
+import { prisma } from '@/lib/prisma';
+import type { SignatureType } from '@/prisma/client';
+import { hashDocumentFile, normalizeVerificationCode } from './sign';
+import { findSupersedingSignature, verifyDigitalSignature, type VerificationCheckName } from './verify';
+
+/**
+ * intact: the stored file is the one signed under the code.
+ * superseded: later signatures issued new signed PDFs over the signed file.
+ * modified: the stored file changed in any other way.
+ * missing: the document or its file is gone.
+ */
+export type PublicHashStatus = 'intact' | 'superseded' | 'modified' | 'missing';
+
+/**
+ * What the public verification page shows for a code. Deliberately limited to
+ * the document, the case file number and the signers' names: no file, no
+ * internal ids, no emails and nothing about the owners.
+ */
+export interface PublicVerification {
+  code: string;
+  verifiedAt: string;
+  document: {
+    title: string;
+    signedVersion: number | null;
+    currentVersion: number | null;
+    signedHash: string | null;
+  };
+  fileNumber: string | null;
+  hashStatus: PublicHashStatus;
+  signatures: Array<{
+    signerName: string;
+    signatureType: SignatureType;
+    signedAt: string;
+    status: 'valid' | 'revoked' | 'invalid';
+    /** The signature the code was issued for */
+    isVerifiedCode: boolean;
+  }>;
+}
+
+// The document check is reported once for the code through hashStatus; a
+// later signed PDF must not make the earlier signatures look invalid
+const SIGNATURE_CHECKS: VerificationCheckName[] = ['signature', 'binding', 'revocation', 'signer'];
+
+async function signatureStatus(
+  signatureId: string,
+  currentHash: string | null
+): Promise<PublicVerification['signatures'][number]['status']> {
+  const report = await verifyDigitalSignature(signatureId, 'public-verification', { currentHash });
+  const failed = report.checks.filter(
+    (check) => SIGNATURE_CHECKS.includes(check.name) && check.status === 'failed'
+  );
+  if (failed.some((check) => check.name === 'revocation')) return 'revoked';
+  return failed.length === 0 ? 'valid' : 'invalid';
+}
+
+/**
+ * Look up a verification code printed on a signed document. Returns null when
+ * the code is malformed or unknown.
+ */
+export async function getPublicVerification(value: string): Promise<PublicVerification | null> {
+  const code = normalizeVerificationCode(value);
+  if (!code) return null;
+
+  const signature = await prisma.digitalSignature.findUnique({
+    where: { verificationCode: code },
+    select: {
+      id: true,
+      entityType: true,
+      entityId: true,
+      documentVersion: true,
+      documentHash: true,
+      signedPdfVersion: true,
+      signedPdfHash: true,
+      createdAt: true,
+    },
+  });
+  if (!signature || signature.entityType !== 'document') return null;
+
+  const [document, related] = await Promise.all([
+    prisma.document.findUnique({
+      where: { id: signature.entityId },
+      select: {
+        title: true,
+        version: true,
+        case: { select: { fileNumber: true } },
+      },
+    }),
+    prisma.digitalSignature.findMany({
+      where: { entityType: 'document', entityId: signature.entityId },
+      select: {
+        id: true,
+        signatureType: true,
+        documentHash: true,
+        signedPdfHash: true,
+        createdAt: true,
+        user: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  const signedHash = signature.signedPdfHash ?? signature.documentHash;
+  let currentHash: string | null = null;
+  if (document) {
+    try {
+      currentHash = await hashDocumentFile(signature.entityId);
+    } catch {
+      currentHash = null;
+    }
+  }
+
+  let hashStatus: PublicHashStatus;
+  if (!currentHash) {
+    hashStatus = 'missing';
+  } else if (currentHash === signedHash) {
+    hashStatus = 'intact';
+  } else if (findSupersedingSignature(signature, related, currentHash)) {
+    hashStatus = 'superseded';
+  } else {
+    hashStatus = 'modified';
+  }
+
+  const signatures = await Promise.all(
+    related.map(async (other) => ({
+      signerName: `${other.user.firstName} ${other.user.lastName}`,
+      signatureType: other.signatureType,
+      signedAt: other.createdAt.toISOString(),
+      // The file is hashed once above, not once per signature
+      status: await signatureStatus(other.id, currentHash),
+      isVerifiedCode: other.id === signature.id,
+    }))
+  );
+
+  return {
+    code,
+    verifiedAt: new Date().toISOString(),
+    document: {
+      title: document?.title ?? 'Documento eliminado',
+      signedVersion: signature.signedPdfVersion ?? signature.documentVersion,
+      currentVersion: document?.version ?? null,
+      signedHash,
+    },
+    fileNumber: document?.case?.fileNumber ?? null,
+    hashStatus,
+    signatures,
+  };
+}
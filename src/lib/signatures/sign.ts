@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { getDocumentFile, openDocumentFile } from '@/lib/document-encryption';
+import type { Prisma, SignatureType } from '@/prisma/client';
+import { encryptSignatureData } from './encryption';
+import { SIGNATURE_ALGORITHM, SignatureError, getSigningKey } from './keys';
+
+export const SIGNER_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  username: true,
+  isActive: true,
+  isSuspended: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * What a signature attests: who signed, in what state, which entity and, for
+ * documents, the exact version and content hash. Serialized once at signing
+ * time and stored verbatim, so verification checks the same bytes.
+ */
+export interface SignatureStatement {
+  version: 1;
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  keyId: string;
+  signer: {
+    id: string;
+    email: string;
+    isActive: boolean;
+    isSuspended: boolean;
+  };
+  signatureType: SignatureType;
+  entityType: string;
+  entityId: string;
+  document: {
+    id: string;
+    version: number;
+    sha256: string;
+  } | null;
+  delegatedBy: string | null;
+  verificationCode: string | null;
+  signedAt: string;
+  nonce: string;
+}
+
+export interface CreateSignatureInput {
+  userId: string;
+  signatureType: SignatureType;
+  entityType: string;
+  entityId: string;
+  signatureData: string;
+  delegatedBy?: string | null;
+  delegationReason?: string | null;
+  verificationCode?: string;
+  ipAddress?: string;
+  deviceInfo?: Prisma.InputJsonValue;
+}
+
+// No 0/O or 1/I/L, so codes read back from paper are unambiguous
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export function generateVerificationCode(): string {
+  const characters = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]);
+  return `${characters.slice(0, 4).join('')}-${characters.slice(4).join('')}`;
+}
+
+/**
+ * Canonical form of a code typed or scanned by a person: case and separators
+ * are ignored. Returns null for anything that cannot be a code.
+ */
+export function normalizeVerificationCode(value: string): string | null {
+  const characters = value.toUpperCase().replace(/[\s-]/g, '');
+  if (characters.length !== CODE_LENGTH || [...characters].some((c) => !CODE_ALPHABET.includes(c))) {
+    return null;
+  }
+  return `${characters.slice(0, 4)}-${characters.slice(4)}`;
+}
+
+// Hash of the plaintext, as recorded on the document, also when it is stored encrypted
+export async function hashDocumentFile(documentId: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of await openDocumentFile(await getDocumentFile(documentId))) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+async function resolveSignedDocument(entityId: string): Promise<NonNullable<SignatureStatement['document']>> {
+  const document = await prisma.document.findUnique({
+    where: { id: entityId },
+    select: { id: true, version: true, fileHash: true },
+  });
+  if (!document) {
+    throw new SignatureError('Document not found', 404);
+  }
+
+  let sha256: string;
+  try {
+    sha256 = await hashDocumentFile(document.id);
+  } catch {
+    throw new SignatureError('Document file is missing', 409);
+  }
+  if (document.fileHash && document.fileHash !== sha256) {
+    throw new SignatureError('Document file does not match its recorded hash', 409);
+  }
+
+  return { id: document.id, version: document.version, sha256 };
+}
+
+/**
+ * Create a digital signature bound to the signer, the entity and, when the
+ * entity is a document, the SHA-256 of its current version. Document
+ * signatures get a verification code for the public verification page. The
+ * statement is signed with the server key; suspended or inactive users
+ * cannot sign.
+ */
+export async function createDigitalSignature(input: CreateSignatureInput) {
+  const signer = await prisma.user.findUnique({
+    where: { id: input.userId },
+    select: { id: true, email: true, isActive: true, isSuspended: true },
+  });
+  if (!signer) {
+    throw new SignatureError('Signer not found', 404);
+  }
+  if (!signer.isActive || signer.isSuspended) {
+    throw new SignatureError('Suspended or inactive users cannot sign', 403);
+  }
+
+  const key = getSigningKey();
+  const document = input.entityType === 'document' ? await resolveSignedDocument(input.entityId) : null;
+  const signedAt = new Date();
+  const verificationCode = input.verificationCode ?? (document ? generateVerificationCode() : null);
+
+  const statement: SignatureStatement = {
+    version: 1,
+    algorithm: SIGNATURE_ALGORITHM,
+    keyId: key.id,
+    signer,
+    signatureType: input.signatureType,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    document,
+    delegatedBy: input.delegatedBy ?? null,
+    verificationCode,
+    signedAt: signedAt.toISOString(),
+    nonce: crypto.randomBytes(16).toString('hex'),
+  };
+  const signedPayload = JSON.stringify(statement);
+  const signatureValue = crypto.sign(null, Buffer.from(signedPayload, 'utf8'), key.privateKey).toString('base64');
+
+  return prisma.digitalSignature.create({
+    data: {
+      userId: input.userId,
+      signatureType: input.signatureType,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      signatureData: encryptSignatureData(input.signatureData),
+      delegatedBy: input.delegatedBy ?? null,
+      delegationReason: input.delegationReason ?? null,
+      ipAddress: input.ipAddress ?? null,
+      ...(input.deviceInfo !== undefined && { deviceInfo: input.deviceInfo }),
+      documentVersion: document?.version ?? null,
+      documentHash: document?.sha256 ?? null,
+      signedPayload,
+      signatureValue,
+      signingKeyId: key.id,
+      verificationCode,
+      createdAt: signedAt,
+    },
+    include: { user: { select: SIGNER_SELECT } },
+  });
+}
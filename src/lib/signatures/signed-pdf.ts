@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { queueDocumentIndexing } from '@/lib/indexing';
+import { queueThumbnailGeneration } from '@/lib/previews';
+import { getDocumentFile, readDocumentFile, writeDocumentFile, type StoredDocumentFile } from '@/lib/document-encryption';
+import { deleteStoredFile, lockDocumentStorage, storageFieldsFor } from '@/lib/storage';
+import { appUrl } from '@/lib/services/notification.service';
+import { PDF_SIGNING_STAGES, STAGE_LABELS } from '@/constants/stages';
+import { DocumentActionType, SignatureType, type CaseStage } from '@/prisma/client';
+import { getPdfSigningCredentials } from './certificate';
+import { SignatureError } from './keys';
+import { signPdf } from './pdf';
+import { createDigitalSignature, generateVerificationCode } from './sign';
+
+export interface SignDocumentPdfInput {
+  documentId: string;
+  userId: string;
+  signatureType?: SignatureType;
+  /** Captured signature image; the issued PDF itself is the signed artifact otherwise */
+  signatureData?: string;
+  ipAddress?: string;
+}
+
+// Stored with the files of the document: same storage tier, same key
+async function writeSignedFile(
+  originalName: string,
+  version: number,
+  bytes: Buffer,
+  document: StoredDocumentFile
+): Promise<string> {
+  const now = new Date();
+  const dateDir = path.join(
+    'uploads',
+    'documents',
+    String(now.getFullYear()),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0')
+  );
+
+  const name = path.basename(originalName, path.extname(originalName));
+  const fileName = `${Date.now()}-${crypto.randomBytes(8).toString('hex')}-${name}_v${version}_firmado.pdf`;
+  const filePath = path.join(dateDir, fileName);
+  await writeDocumentFile({ filePath, storageType: document.storageType }, bytes, document.encryptionKey);
+  return filePath;
+}
+
+/**
+ * Sign a case PDF at the Minister's sanction or the contract certification
+ * stage. Records a DigitalSignature bound to the current version, then stores
+ * a copy with the visible signature block and a PAdES signature as a new
+ * DocumentVersion; the original version and its file are left untouched.
+ */
+export async function signDocumentPdf(input: SignDocumentPdfInput) {
+  const document = await prisma.document.findUnique({
+    where: { id: input.documentId },
+    include: { case: { select: { id: true, fileNumber: true, currentStage: true } } },
+  });
+  if (!document) {
+    throw new SignatureError('Document not found', 404);
+  }
+  if (document.mimeType !== 'application/pdf') {
+    throw new SignatureError('Only PDF documents can be signed', 422);
+  }
+  if (!document.case) {
+    throw new SignatureError('Only case documents can be signed', 422);
+  }
+  if (!(PDF_SIGNING_STAGES as readonly CaseStage[]).includes(document.case.currentStage)) {
+    throw new SignatureError(
+      `Signed PDFs are issued at the ${PDF_SIGNING_STAGES.map((stage) => STAGE_LABELS[stage]).join(' and ')} stages`,
+      409
+    );
+  }
+
+  // Fail on a missing or invalid certificate before anything is recorded
+  const credentials = getPdfSigningCredentials();
+  const original = await readDocumentFile(await getDocumentFile(document.id));
+  const verificationCode = generateVerificationCode();
+
+  const signature = await createDigitalSignature({
+    userId: input.userId,
+    signatureType: input.signatureType ?? SignatureType.APPROVAL,
+    entityType: 'document',
+    entityId: document.id,
+    signatureData: input.signatureData ?? JSON.stringify({ method: 'signed-pdf', verificationCode }),
+    verificationCode,
+    ...(input.ipAddress !== undefined && { ipAddress: input.ipAddress }),
+  });
+
+  let filePath: string | null = null;
+  let storageType = document.storageType;
+  let release: (() => Promise<void>) | null = null;
+  try {
+    const signed = await signPdf(original, {
+      block: {
+        signerName: `${signature.user.firstName} ${signature.user.lastName}`,
+        signedAt: signature.createdAt,
+        fileNumber: document.case.fileNumber,
+        verificationCode,
+        verificationUrl: appUrl(`/verify/${verificationCode}`),
+      },
+      reason: STAGE_LABELS[document.case.currentStage],
+      credentials,
+    });
+    const fileHash = crypto.createHash('sha256').update(signed).digest('hex');
+
+    const lastVersion = await prisma.documentVersion.findFirst({
+      where: { documentId: document.id },
+      orderBy: { version: 'desc' },
+    });
+    const newVersionNumber = Math.max(lastVersion?.version ?? 0, document.version) + 1;
+    // Held until the signed copy is recorded, so no migration moves the files meanwhile
+    release = await lockDocumentStorage(document.id);
+    const target = await getDocumentFile(document.id);
+    storageType = target.storageType;
+    const signedPath = await writeSignedFile(
+      document.originalFileName || document.fileName,
+      newVersionNumber,
+      signed,
+      target
+    );
+    filePath = signedPath;
+    const signedFileName = path.basename(signedPath);
+    const changeSummary = `Firmado digitalmente por ${signature.user.firstName} ${signature.user.lastName} (código ${verificationCode})`;
+
+    const version = await prisma.$transaction(async (tx) => {
+      // Documents uploaded without versioning get a version row for the
+      // original, so it stays reachable next to the signed copy
+      const previous =
+        lastVersion && lastVersion.version >= document.version
+          ? lastVersion
+          : await tx.documentVersion.create({
+              data: {
+                documentId: document.id,
+                version: document.version,
+                title: document.title,
+                fileName: document.fileName,
+                filePath: document.filePath,
+                fileSize: document.fileSize,
+                mimeType: document.mimeType,
+                fileHash: signature.documentHash,
+                checksum: signature.documentHash,
+                isPublished: true,
+                createdBy: document.uploadedById,
+                previousVersionId: lastVersion?.id ?? null,
+              },
+            });
+
+      const created = await tx.documentVersion.create({
+        data: {
+          documentId: document.id,
+          version: newVersionNumber,
+          title: document.title,
+          description: document.description,
+          fileName: signedFileName,
+          filePath: signedPath,
+          fileSize: signed.length,
+          mimeType: 'application/pdf',
+          fileHash,
+          checksum: fileHash,
+          changeSummary,
+          isMajorVersion: true,
+          isPublished: true,
+          isActive: true,
+          createdBy: input.userId,
+          previousVersionId: previous.id,
+        },
+      });
+
+      await tx.document.update({
+        where: { id: document.id },
+        data: {
+          version: newVersionNumber,
+          fileName: signedFileName,
+          filePath: signedPath,
+          ...storageFieldsFor(target.storageType, signedPath),
+          fileSize: signed.length,
+          fileHash,
+          isIndexed: false,
+          previewGenerated: false,
+        },
+      });
+
+      await tx.digitalSignature.update({
+        where: { id: signature.id },
+        data: { signedPdfVersion: newVersionNumber, signedPdfHash: fileHash },
+      });
+
+      await tx.documentAction.create({
+        data: {
+          documentId: document.id,
+          action: DocumentActionType.SIGNED,
+          userId: input.userId,
+          metadata: { signatureId: signature.id, version: newVersionNumber, verificationCode },
+        },
+      });
+
+      await tx.documentHistory.create({
+        data: {
+          documentId: document.id,
+          action: DocumentActionType.SIGNED,
+          description: `Version ${newVersionNumber} created: ${changeSummary}`,
+          userId: input.userId,
+          fileSize: signed.length,
+          fileName: signedFileName,
+          filePath: signedPath,
+        },
+      });
+
+      return created;
+    });
+
+    queueDocumentIndexing(document.id);
+    queueThumbnailGeneration(document.id);
+
+    return {
+      signature: { ...signature, signedPdfVersion: newVersionNumber, signedPdfHash: fileHash },
+      version,
+    };
+  } catch (error) {
+    // Without the signed PDF the signature record would attest to nothing
+    await prisma.digitalSignature.delete({ where: { id: signature.id } }).catch(() => undefined);
+    if (filePath) await deleteStoredFile({ filePath, storageType });
+    throw error;
+  } finally {
+    await release?.();
+  }
+}
@@ -0,0 +1,351 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { SignatureError, exportPublicKey, getTrustedKey } from './keys';
+import { SIGNER_SELECT, hashDocumentFile, type SignatureStatement } from './sign';
+
+export type VerificationCheckName = 'signature' | 'binding' | 'document' | 'revocation' | 'signer';
+
+export interface VerificationCheck {
+  name: VerificationCheckName;
+  status: 'passed' | 'failed' | 'not_applicable';
+  message: string;
+}
+
+/**
+ * Outcome of verifying a signature, self-contained so auditors can keep it:
+ * the evidence section holds the signed statement, the signature and the
+ * public key needed to check it again outside the application.
+ */
+export interface SignatureVerificationReport {
+  reportVersion: 1;
+  isValid: boolean;
+  verifiedAt: string;
+  verifiedBy: string;
+  signature: {
+    id: string;
+    signatureType: string;
+    entityType: string;
+    entityId: string;
+    createdAt: string;
+    isActive: boolean;
+    revokedAt: string | null;
+    revokedBy: string | null;
+    revokedReason: string | null;
+    delegatedBy: string | null;
+    delegationReason: string | null;
+    signer: {
+      id: string;
+      firstName: string;
+      lastName: string;
+      email: string;
+      username: string;
+    };
+  };
+  document: {
+    id: string;
+    title: string | null;
+    signedVersion: number | null;
+    signedHash: string | null;
+    signedPdfVersion: number | null;
+    currentVersion: number | null;
+    currentHash: string | null;
+  } | null;
+  checks: VerificationCheck[];
+  evidence: {
+    algorithm: string;
+    keyId: string;
+    signedPayload: string;
+    signatureValue: string;
+    publicKey: string | null;
+  } | null;
+}
+
+type SignatureRecord = NonNullable<Awaited<ReturnType<typeof loadSignature>>>;
+
+function loadSignature(id: string) {
+  return prisma.digitalSignature.findUnique({
+    where: { id },
+    include: { user: { select: { ...SIGNER_SELECT, suspendedAt: true } } },
+  });
+}
+
+function parseStatement(payload: string): SignatureStatement | null {
+  try {
+    return JSON.parse(payload) as SignatureStatement;
+  } catch {
+    return null;
+  }
+}
+
+function checkSignature(record: SignatureRecord): VerificationCheck {
+  if (!record.signedPayload || !record.signatureValue || !record.signingKeyId) {
+    return { name: 'signature', status: 'failed', message: 'Signature was recorded without a cryptographic signature' };
+  }
+
+  const publicKey = getTrustedKey(record.signingKeyId);
+  if (!publicKey) {
+    return { name: 'signature', status: 'failed', message: `Signing key ${record.signingKeyId} is not trusted` };
+  }
+
+  const valid = crypto.verify(
+    null,
+    Buffer.from(record.signedPayload, 'utf8'),
+    publicKey,
+    Buffer.from(record.signatureValue, 'base64')
+  );
+  return valid
+    ? { name: 'signature', status: 'passed', message: `Ed25519 signature verified with key ${record.signingKeyId}` }
+    : { name: 'signature', status: 'failed', message: 'Signature does not match the signed statement' };
+}
+
+/**
+ * The stored columns are what the application shows; make sure they still
+ * say what was signed.
+ */
+function checkBinding(record: SignatureRecord, statement: SignatureStatement | null): VerificationCheck {
+  if (!statement) {
+    return { name: 'binding', status: 'failed', message: 'Signed statement is missing or unreadable' };
+  }
+
+  const mismatches = [
+    statement.signer?.id !== record.userId && 'signer',
+    statement.signatureType !== record.signatureType && 'signatureType',
+    statement.entityType !== record.entityType && 'entityType',
+    statement.entityId !== record.entityId && 'entityId',
+    statement.keyId !== record.signingKeyId && 'keyId',
+    (statement.delegatedBy ?? null) !== record.delegatedBy && 'delegatedBy',
+    (statement.verificationCode ?? null) !== record.verificationCode && 'verificationCode',
+    (statement.document?.sha256 ?? null) !== record.documentHash && 'documentHash',
+    (statement.document?.version ?? null) !== record.documentVersion && 'documentVersion',
+    statement.signedAt !== record.createdAt.toISOString() && 'signedAt',
+  ].filter((field): field is string => !!field);
+
+  return mismatches.length === 0
+    ? { name: 'binding', status: 'passed', message: 'Signature record matches the signed statement' }
+    : {
+        name: 'binding',
+        status: 'failed',
+        message: `Signature record differs from the signed statement: ${mismatches.join(', ')}`,
+      };
+}
+
+export interface VerifySignatureOptions {
+  // Hash of the current file of the signed document, when the caller has it
+  // already; null when the file is missing. Hashed here otherwise.
+  currentHash?: string | null;
+}
+
+interface SignedFileRecord {
+  createdAt: Date;
+  documentHash: string | null;
+  signedPdfHash: string | null;
+}
+
+/**
+ * The later signature whose signed PDF is the current file of a document
+ * that a signature no longer matches, or null. Each signed PDF is issued
+ * over the file the previous signature left, so the chain from the current
+ * file back to this signature must be unbroken for it to count as
+ * superseded rather than modified.
+ */
+export function findSupersedingSignature<T extends SignedFileRecord>(
+  signature: SignedFileRecord,
+  others: T[],
+  currentHash: string
+): T | null {
+  const signedFile = signature.signedPdfHash ?? signature.documentHash;
+  const later = others.filter((other) => other.createdAt > signature.createdAt);
+  let superseding: T | null = null;
+  let hash: string | null = currentHash;
+
+  while (hash !== signedFile) {
+    const index = later.findIndex((other) => other.signedPdfHash === hash);
+    if (index < 0) return null;
+    const [previous] = later.splice(index, 1);
+    superseding ??= previous!;
+    hash = previous!.documentHash;
+  }
+  return superseding;
+}
+
+async function checkDocument(
+  record: SignatureRecord,
+  statement: SignatureStatement | null,
+  knownHash: string | null | undefined
+): Promise<{ check: VerificationCheck; document: SignatureVerificationReport['document'] }> {
+  if (record.entityType !== 'document') {
+    return {
+      check: { name: 'document', status: 'not_applicable', message: `Signed entity is a ${record.entityType}` },
+      document: null,
+    };
+  }
+
+  const signed = statement?.document ?? null;
+  const document = await prisma.document.findUnique({
+    where: { id: record.entityId },
+    select: { id: true, title: true, version: true, fileHash: true },
+  });
+
+  let currentHash = knownHash ?? null;
+  if (document && knownHash === undefined) {
+    try {
+      currentHash = await hashDocumentFile(document.id);
+    } catch {
+      currentHash = null;
+    }
+  }
+
+  const summary = {
+    id: record.entityId,
+    title: document?.title ?? null,
+    signedVersion: signed?.version ?? null,
+    signedHash: signed?.sha256 ?? null,
+    signedPdfVersion: record.signedPdfVersion,
+    currentVersion: document?.version ?? null,
+    currentHash,
+  };
+
+  let check: VerificationCheck;
+  if (!signed) {
+    check = { name: 'document', status: 'failed', message: 'Signature does not record the signed document hash' };
+  } else if (!document) {
+    check = { name: 'document', status: 'failed', message: 'Signed document no longer exists' };
+  } else if (!currentHash) {
+    check = { name: 'document', status: 'failed', message: 'Signed document file is missing' };
+  } else if (record.signedPdfHash && currentHash === record.signedPdfHash) {
+    // The signed PDF issued for this signature replaced the version it signed
+    check = {
+      name: 'document',
+      status: 'passed',
+      message: `Document is the signed PDF (version ${record.signedPdfVersion}) of the signed version ${signed.version}`,
+    };
+  } else if (currentHash !== signed.sha256) {
+    const superseding = findSupersedingSignature(
+      record,
+      await prisma.digitalSignature.findMany({
+        where: { entityType: 'document', entityId: record.entityId, createdAt: { gt: record.createdAt } },
+        select: { createdAt: true, documentHash: true, signedPdfHash: true, signedPdfVersion: true },
+      }),
+      currentHash
+    );
+    check = superseding
+      ? {
+          name: 'document',
+          status: 'passed',
+          message: `Document was superseded by the signed PDF (version ${superseding.signedPdfVersion}) of a later signature`,
+        }
+      : {
+          name: 'document',
+          status: 'failed',
+          message:
+            document.version !== signed.version
+              ? `Document changed after signing (version ${signed.version} signed, now version ${document.version})`
+              : 'Document file was modified after signing',
+        };
+  } else if (document.fileHash && document.fileHash !== currentHash) {
+    check = { name: 'document', status: 'failed', message: 'Document file does not match its recorded hash' };
+  } else {
+    check = { name: 'document', status: 'passed', message: `Document matches the signed version ${signed.version}` };
+  }
+
+  return { check, document: summary };
+}
+
+function checkRevocation(record: SignatureRecord): VerificationCheck {
+  if (!record.revokedAt && record.isActive) {
+    return { name: 'revocation', status: 'passed', message: 'Signature has not been revoked' };
+  }
+
+  const when = record.revokedAt ? ` on ${record.revokedAt.toISOString()}` : '';
+  const reason = record.revokedReason ? `: ${record.revokedReason}` : '';
+  return { name: 'revocation', status: 'failed', message: `Signature was revoked${when}${reason}` };
+}
+
+function checkSigner(record: SignatureRecord, statement: SignatureStatement | null): VerificationCheck {
+  if (statement?.signer && (statement.signer.isSuspended || !statement.signer.isActive)) {
+    return { name: 'signer', status: 'failed', message: 'Signer was suspended or inactive at signing time' };
+  }
+
+  // Suspensions are not historized; one that started before the signature
+  // and is still in effect means the signer was suspended when signing
+  const { user } = record;
+  if (user.isSuspended && user.suspendedAt && user.suspendedAt <= record.createdAt) {
+    return {
+      name: 'signer',
+      status: 'failed',
+      message: `Signer has been suspended since ${user.suspendedAt.toISOString()}, before signing`,
+    };
+  }
+
+  return user.isSuspended
+    ? { name: 'signer', status: 'passed', message: 'Signer was suspended after signing' }
+    : { name: 'signer', status: 'passed', message: 'Signer was in good standing at signing time' };
+}
+
+/**
+ * Verify a signature: its cryptographic signature, that the record still
+ * matches the signed statement, that a signed document was not changed
+ * afterwards, that it was not revoked and that the signer was not suspended
+ * when signing.
+ */
+export async function verifyDigitalSignature(
+  signatureId: string,
+  verifiedBy: string,
+  options: VerifySignatureOptions = {}
+): Promise<SignatureVerificationReport> {
+  const record = await loadSignature(signatureId);
+  if (!record) {
+    throw new SignatureError('Signature not found', 404);
+  }
+
+  const statement = record.signedPayload ? parseStatement(record.signedPayload) : null;
+  const { check: documentCheck, document } = await checkDocument(record, statement, options.currentHash);
+  const checks = [
+    checkSignature(record),
+    checkBinding(record, statement),
+    documentCheck,
+    checkRevocation(record),
+    checkSigner(record, statement),
+  ];
+
+  const publicKey = record.signingKeyId ? getTrustedKey(record.signingKeyId) : null;
+
+  return {
+    reportVersion: 1,
+    isValid: checks.every((check) => check.status !== 'failed'),
+    verifiedAt: new Date().toISOString(),
+    verifiedBy,
+    signature: {
+      id: record.id,
+      signatureType: record.signatureType,
+      entityType: record.entityType,
+      entityId: record.entityId,
+      createdAt: record.createdAt.toISOString(),
+      isActive: record.isActive,
+      revokedAt: record.revokedAt?.toISOString() ?? null,
+      revokedBy: record.revokedBy,
+      revokedReason: record.revokedReason,
+      delegatedBy: record.delegatedBy,
+      delegationReason: record.delegationReason,
+      signer: {
+        id: record.user.id,
+        firstName: record.user.firstName,
+        lastName: record.user.lastName,
+        email: record.user.email,
+        username: record.user.username,
+      },
+    },
+    document,
+    checks,
+    evidence:
+      record.signedPayload && record.signatureValue && record.signingKeyId
+        ? {
+            algorithm: statement?.algorithm ?? 'Ed25519',
+            keyId: record.signingKeyId,
+            signedPayload: record.signedPayload,
+            signatureValue: record.signatureValue,
+            publicKey: publicKey ? exportPublicKey(publicKey) : null,
+          }
+        : null,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Business-time arithmetic over a working calendar.
+ *
+ * All wall-clock reasoning (working hours, weekdays, holiday dates) happens in
+ * the calendar's fixed UTC offset, so results do not depend on the server's
+ * time zone. The Dominican Republic has no daylight saving time, which is what
+ * makes a fixed offset sufficient.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+// Longest span walked day by day before giving up (ten years)
+const MAX_DAYS = 3660;
+
+export interface WorkHours {
+  // Minutes after local midnight
+  start: number;
+  end: number;
+}
+
+export interface WorkCalendar {
+  // Non-working dates as YYYY-MM-DD in calendar-local time
+  holidays: Set<string>;
+  // Working weekdays, 0 = Sunday
+  workDays: number[];
+  utcOffsetMinutes: number;
+}
+
+export interface BusinessTimeOptions {
+  workHours: WorkHours;
+  // When false, time runs around the clock and holidays are ignored
+  businessDaysOnly: boolean;
+}
+
+export class BusinessTimeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BusinessTimeError';
+  }
+}
+
+/**
+ * Parse "HH:mm" into minutes after midnight.
+ */
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format a date as YYYY-MM-DD using its UTC fields.
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Calendar-local time is represented as a Date whose UTC fields hold the wall clock
+function toLocal(date: Date, calendar: WorkCalendar): Date {
+  return new Date(date.getTime() + calendar.utcOffsetMinutes * MINUTE_MS);
+}
+
+function fromLocal(local: Date, calendar: WorkCalendar): Date {
+  return new Date(local.getTime() - calendar.utcOffsetMinutes * MINUTE_MS);
+}
+
+function localMidnight(local: Date): Date {
+  return new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()));
+}
+
+function addLocalMinutes(local: Date, minutes: number): Date {
+  return new Date(local.getTime() + minutes * MINUTE_MS);
+}
+
+function isWorkingLocalDay(local: Date, calendar: WorkCalendar): boolean {
+  return calendar.workDays.includes(local.getUTCDay()) && !calendar.holidays.has(toDateKey(local));
+}
+
+export function isBusinessDay(date: Date, calendar: WorkCalendar): boolean {
+  return isWorkingLocalDay(toLocal(date, calendar), calendar);
+}
+
+export function workMinutesPerDay(workHours: WorkHours): number {
+  return Math.max(workHours.end - workHours.start, 0);
+}
+
+/**
+ * Moment at which `hours` of working time have elapsed after `start`.
+ */
+export function addBusinessHours(
+  start: Date,
+  hours: number,
+  calendar: WorkCalendar,
+  options: BusinessTimeOptions
+): Date {
+  if (!options.businessDaysOnly || hours <= 0) {
+    return new Date(start.getTime() + Math.max(hours, 0) * 60 * MINUTE_MS);
+  }
+  if (workMinutesPerDay(options.workHours) === 0) {
+    throw new BusinessTimeError('El horario laboral no tiene horas hábiles');
+  }
+
+  let remaining = hours * 60;
+  let local = toLocal(start, calendar);
+
+  for (let day = 0; day < MAX_DAYS; day++) {
+    const midnight = localMidnight(local);
+    const dayStart = addLocalMinutes(midnight, options.workHours.start);
+    const dayEnd = addLocalMinutes(midnight, options.workHours.end);
+
+    if (isWorkingLocalDay(local, calendar) && local < dayEnd) {
+      if (local < dayStart) local = dayStart;
+      const available = (dayEnd.getTime() - local.getTime()) / MINUTE_MS;
+      if (remaining <= available) {
+        return fromLocal(addLocalMinutes(local, remaining), calendar);
+      }
+      remaining -= available;
+    }
+
+    local = addLocalMinutes(midnight, DAY_MINUTES);
+  }
+
+  throw new BusinessTimeError('No hay suficientes días hábiles en el calendario');
+}
+
+/**
+ * Working hours between two moments; negative when `end` is before `start`.
+ */
+export function businessHoursBetween(
+  start: Date,
+  end: Date,
+  calendar: WorkCalendar,
+  options: BusinessTimeOptions
+): number {
+  if (end < start) {
+    return -businessHoursBetween(end, start, calendar, options);
+  }
+  if (!options.businessDaysOnly) {
+    return (end.getTime() - start.getTime()) / (60 * MINUTE_MS);
+  }
+
+  const localEnd = toLocal(end, calendar);
+  let local = toLocal(start, calendar);
+  let minutes = 0;
+
+  for (let day = 0; day < MAX_DAYS && local < localEnd; day++) {
+    const midnight = localMidnight(local);
+    if (isWorkingLocalDay(local, calendar)) {
+      const from = Math.max(local.getTime(), addLocalMinutes(midnight, options.workHours.start).getTime());
+      const to = Math.min(localEnd.getTime(), addLocalMinutes(midnight, options.workHours.end).getTime());
+      if (to > from) minutes += (to - from) / MINUTE_MS;
+    }
+    local = addLocalMinutes(midnight, DAY_MINUTES);
+  }
+
+  return minutes / 60;
+}
+
+/**
+ * Number of working days after the day of `start` up to and including the day
+ * of `end`. Starting on Monday and checking on Wednesday gives 2.
+ */
+export function businessDaysBetween(start: Date, end: Date, calendar: WorkCalendar): number {
+  if (end < start) {
+    return -businessDaysBetween(end, start, calendar);
+  }
+
+  const lastDay = localMidnight(toLocal(end, calendar));
+  let local = addLocalMinutes(localMidnight(toLocal(start, calendar)), DAY_MINUTES);
+  let days = 0;
+
+  for (let day = 0; day < MAX_DAYS && local <= lastDay; day++) {
+    if (isWorkingLocalDay(local, calendar)) days++;
+    local = addLocalMinutes(local, DAY_MINUTES);
+  }
+
+  return days;
+}
+
+/**
+ * Same time of day, `days` working days later.
+ */
+export function addBusinessDays(start: Date, days: number, calendar: WorkCalendar): Date {
+  let local = toLocal(start, calendar);
+  let remaining = Math.max(Math.floor(days), 0);
+
+  for (let day = 0; remaining > 0; day++) {
+    if (day >= MAX_DAYS) {
+      throw new BusinessTimeError('No hay suficientes días hábiles en el calendario');
+    }
+    local = addLocalMinutes(local, DAY_MINUTES);
+    if (isWorkingLocalDay(local, calendar)) remaining--;
+  }
+
+  return fromLocal(local, calendar);
+}
@@ -0,0 +1,31 @@
+export {
+  BusinessTimeError,
+  addBusinessDays,
+  addBusinessHours,
+  businessDaysBetween,
+  businessHoursBetween,
+  isBusinessDay,
+  parseClockTime,
+  toDateKey,
+  workMinutesPerDay,
+  type BusinessTimeOptions,
+  type WorkCalendar,
+  type WorkHours,
+} from './business-time';
+export {
+  DEFAULT_WORK_DAYS,
+  DEFAULT_WORK_HOURS,
+  SLA_COUNTRY,
+  SLA_UTC_OFFSET_MINUTES,
+  computeStageDueDate,
+  computeStageSla,
+  getCaseStageSla,
+  invalidateWorkCalendar,
+  loadSlaContext,
+  loadWorkCalendar,
+  resolveStageTimeLimit,
+  type SlaContext,
+  type SlaStatus,
+  type StageSla,
+  type StageTimeLimit,
+} from './stage-sla';
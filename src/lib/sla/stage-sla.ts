@@ -0,0 +1,289 @@
+import { prisma } from '@/lib/prisma';
+import { STAGE_DEADLINES } from '@/constants/stages';
+import type { CaseStage, Prisma, StageTimeConfiguration } from '@/prisma/client';
+import {
+  addBusinessHours,
+  businessHoursBetween,
+  parseClockTime,
+  toDateKey,
+  workMinutesPerDay,
+  type BusinessTimeOptions,
+  type WorkCalendar,
+  type WorkHours,
+} from './business-time';
+
+/**
+ * Stage SLAs: how long a case may stay in a stage and how far along it is.
+ *
+ * The limit for a stage comes from, in order: the active StageTimeConfiguration
+ * for the case's department, the global StageTimeConfiguration, the Stage's
+ * estimatedDuration and finally STAGE_CONFIG.estimatedDays. Day-based limits
+ * are business days of the default working hours.
+ */
+
+// America/Santo_Domingo, which does not observe daylight saving time
+export const SLA_UTC_OFFSET_MINUTES = -4 * 60;
+export const SLA_COUNTRY = 'DO';
+export const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5];
+export const DEFAULT_WORK_HOURS: WorkHours = { start: 8 * 60, end: 16 * 60 };
+
+// Share of the limit after which a stage is flagged when no threshold is configured
+const DEFAULT_WARNING_RATIO = 0.75;
+const DEFAULT_CRITICAL_RATIO = 0.9;
+
+// Holidays rarely change; admin edits call invalidateWorkCalendar()
+const CALENDAR_CACHE_MS = 5 * 60 * 1000;
+const RECURRING_YEARS_BACK = 2;
+const RECURRING_YEARS_AHEAD = 5;
+
+export type SlaStatus = 'on_track' | 'warning' | 'critical' | 'overdue';
+
+export interface StageTimeLimit {
+  maxTimeHours: number;
+  warningThresholdHours: number;
+  criticalThresholdHours: number;
+  options: BusinessTimeOptions;
+  source: 'configuration' | 'stage' | 'default';
+  configurationId: string | null;
+}
+
+export interface StageSla {
+  stage: CaseStage;
+  startedAt: Date;
+  dueDate: Date;
+  maxTimeHours: number;
+  elapsedHours: number;
+  remainingHours: number;
+  percentUsed: number;
+  status: SlaStatus;
+  businessDaysOnly: boolean;
+  source: StageTimeLimit['source'] | 'assignment';
+}
+
+export interface SlaContext {
+  calendar: WorkCalendar;
+  configurations: StageTimeConfiguration[];
+  stageDurations: Map<CaseStage, number>;
+}
+
+let calendarCache: { calendar: WorkCalendar; loadedAt: number } | null = null;
+
+export function invalidateWorkCalendar(): void {
+  calendarCache = null;
+}
+
+/**
+ * Working calendar built from the active national HolidayCalendars.
+ * Recurring holidays are projected onto the surrounding years.
+ */
+export async function loadWorkCalendar(now: Date = new Date()): Promise<WorkCalendar> {
+  if (calendarCache && now.getTime() - calendarCache.loadedAt < CALENDAR_CACHE_MS) {
+    return calendarCache.calendar;
+  }
+
+  const holidays = await prisma.holiday.findMany({
+    where: {
+      isActive: true,
+      affectsWork: true,
+      calendar: { isActive: true, country: SLA_COUNTRY, region: null },
+    },
+    select: { date: true, isRecurring: true },
+  });
+
+  const keys = new Set<string>();
+  const currentYear = now.getUTCFullYear();
+  for (const holiday of holidays) {
+    const key = toDateKey(holiday.date);
+    keys.add(key);
+    if (holiday.isRecurring) {
+      for (let year = currentYear - RECURRING_YEARS_BACK; year <= currentYear + RECURRING_YEARS_AHEAD; year++) {
+        keys.add(`${year}${key.slice(4)}`);
+      }
+    }
+  }
+
+  const calendar: WorkCalendar = {
+    holidays: keys,
+    workDays: DEFAULT_WORK_DAYS,
+    utcOffsetMinutes: SLA_UTC_OFFSET_MINUTES,
+  };
+  calendarCache = { calendar, loadedAt: now.getTime() };
+  return calendar;
+}
+
+/**
+ * Everything needed to compute SLAs for many cases without further queries.
+ */
+export async function loadSlaContext(now: Date = new Date()): Promise<SlaContext> {
+  const [calendar, configurations, stages] = await Promise.all([
+    loadWorkCalendar(now),
+    prisma.stageTimeConfiguration.findMany({ where: { isActive: true } }),
+    prisma.stage.findMany({
+      where: { isActive: true, estimatedDuration: { not: null } },
+      select: { stage: true, estimatedDuration: true },
+    }),
+  ]);
+
+  return {
+    calendar,
+    configurations,
+    stageDurations: new Map(stages.map((stage) => [stage.stage, stage.estimatedDuration!])),
+  };
+}
+
+function parseWorkHours(value: Prisma.JsonValue | null): WorkHours {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return DEFAULT_WORK_HOURS;
+  }
+  const start = typeof value.start === 'string' ? parseClockTime(value.start) : null;
+  const end = typeof value.end === 'string' ? parseClockTime(value.end) : null;
+  if (start === null || end === null || end <= start) {
+    return DEFAULT_WORK_HOURS;
+  }
+  return { start, end };
+}
+
+function isEffective(configuration: StageTimeConfiguration, at: Date): boolean {
+  return configuration.effectiveFrom <= at && (!configuration.effectiveTo || configuration.effectiveTo > at);
+}
+
+/**
+ * Time limit that applies to a stage for a department at a given moment.
+ */
+export function resolveStageTimeLimit(
+  context: SlaContext,
+  stage: CaseStage,
+  departmentId: string | null,
+  at: Date
+): StageTimeLimit {
+  const candidates = context.configurations.filter(
+    (configuration) => configuration.stage === stage && isEffective(configuration, at)
+  );
+  const configuration =
+    (departmentId && candidates.find((candidate) => candidate.departmentId === departmentId)) ||
+    candidates.find((candidate) => candidate.departmentId === null);
+
+  if (configuration) {
+    const max = configuration.maxTimeHours;
+    return {
+      maxTimeHours: max,
+      warningThresholdHours: configuration.warningThresholdHours ?? max * DEFAULT_WARNING_RATIO,
+      criticalThresholdHours: configuration.criticalThresholdHours ?? max * DEFAULT_CRITICAL_RATIO,
+      options: {
+        businessDaysOnly: configuration.businessDaysOnly,
+        workHours: parseWorkHours(configuration.workHours),
+      },
+      source: 'configuration',
+      configurationId: configuration.id,
+    };
+  }
+
+  const stageDays = context.stageDurations.get(stage);
+  const days = stageDays ?? STAGE_DEADLINES[stage];
+  const max = (days * workMinutesPerDay(DEFAULT_WORK_HOURS)) / 60;
+  return {
+    maxTimeHours: max,
+    warningThresholdHours: max * DEFAULT_WARNING_RATIO,
+    criticalThresholdHours: max * DEFAULT_CRITICAL_RATIO,
+    options: { businessDaysOnly: true, workHours: DEFAULT_WORK_HOURS },
+    source: stageDays === undefined ? 'default' : 'stage',
+    configurationId: null,
+  };
+}
+
+/**
+ * Due date of a stage that starts at `startedAt`.
+ */
+export function computeStageDueDate(
+  context: SlaContext,
+  stage: CaseStage,
+  departmentId: string | null,
+  startedAt: Date
+): Date {
+  const limit = resolveStageTimeLimit(context, stage, departmentId, startedAt);
+  return addBusinessHours(startedAt, limit.maxTimeHours, context.calendar, limit.options);
+}
+
+/**
+ * SLA position of a stage assignment. An explicit assignment due date, such as
+ * an approved extension, takes precedence over the configured limit.
+ */
+export function computeStageSla(
+  context: SlaContext,
+  params: {
+    stage: CaseStage;
+    departmentId: string | null;
+    startedAt: Date;
+    dueDate?: Date | null;
+  },
+  now: Date = new Date()
+): StageSla {
+  const limit = resolveStageTimeLimit(context, params.stage, params.departmentId, params.startedAt);
+  const { calendar } = context;
+
+  const dueDate = params.dueDate ?? addBusinessHours(params.startedAt, limit.maxTimeHours, calendar, limit.options);
+  const maxTimeHours = params.dueDate
+    ? Math.max(businessHoursBetween(params.startedAt, params.dueDate, calendar, limit.options), 0)
+    : limit.maxTimeHours;
+  const elapsedHours = Math.max(businessHoursBetween(params.startedAt, now, calendar, limit.options), 0);
+
+  // Thresholds keep their proportion when an explicit due date changes the limit
+  const scale = limit.maxTimeHours > 0 ? maxTimeHours / limit.maxTimeHours : 1;
+
+  let status: SlaStatus = 'on_track';
+  if (now > dueDate) status = 'overdue';
+  else if (elapsedHours >= limit.criticalThresholdHours * scale) status = 'critical';
+  else if (elapsedHours >= limit.warningThresholdHours * scale) status = 'warning';
+
+  return {
+    stage: params.stage,
+    startedAt: params.startedAt,
+    dueDate,
+    maxTimeHours: round(maxTimeHours),
+    elapsedHours: round(elapsedHours),
+    remainingHours: round(Math.max(maxTimeHours - elapsedHours, 0)),
+    percentUsed: maxTimeHours > 0 ? Math.round((elapsedHours / maxTimeHours) * 100) : 100,
+    status,
+    businessDaysOnly: limit.options.businessDaysOnly,
+    source: params.dueDate ? 'assignment' : limit.source,
+  };
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * SLA of the case's current stage, or null when the case has no active
+ * assignment for it.
+ */
+export async function getCaseStageSla(caseId: string, now: Date = new Date()): Promise<StageSla | null> {
+  const currentCase = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: {
+      currentStage: true,
+      departmentId: true,
+      stageAssignments: {
+        where: { isActive: true },
+        select: { stage: true, assignedAt: true, dueDate: true },
+      },
+    },
+  });
+
+  const assignment = currentCase?.stageAssignments.find(
+    (stageAssignment) => stageAssignment.stage === currentCase.currentStage
+  );
+  if (!currentCase || !assignment) return null;
+
+  const context = await loadSlaContext(now);
+  return computeStageSla(
+    context,
+    {
+      stage: currentCase.currentStage,
+      departmentId: currentCase.departmentId,
+      startedAt: assignment.assignedAt,
+      dueDate: assignment.dueDate,
+    },
+    now
+  );
+}
@@ -0,0 +1,96 @@
+import { DocumentStorageType } from '@/prisma/client';
+import { StorageError, storageKeyOf, type StorageDriver } from './driver';
+import { createLocalDriver } from './local';
+import { createS3Driver } from './s3';
+
+/**
+ * Each storage tier of a document is backed by a driver configured through
+ * STORAGE_<TIER>_* variables (see docs/SETUP.md). LOCAL is the uploads
+ * directory unless configured otherwise; the other tiers exist once
+ * configured.
+ */
+
+const drivers = new Map<DocumentStorageType, StorageDriver>();
+
+function tierVariable(tier: DocumentStorageType, name: string): string | undefined {
+  return process.env[`STORAGE_${tier}_${name}`] || undefined;
+}
+
+function createDriver(tier: DocumentStorageType): StorageDriver {
+  const driver = tierVariable(tier, 'DRIVER') ?? (tier === DocumentStorageType.LOCAL ? 'local' : undefined);
+
+  switch (driver) {
+    case 'local': {
+      // Keys are relative to the working directory, like document file paths
+      const root = tierVariable(tier, 'PATH') ?? (tier === DocumentStorageType.LOCAL ? process.cwd() : undefined);
+      if (!root) {
+        throw new StorageError(`STORAGE_${tier}_PATH is not configured`);
+      }
+      return createLocalDriver(root);
+    }
+    case 's3': {
+      const bucket = tierVariable(tier, 'BUCKET');
+      if (!bucket) {
+        throw new StorageError(`STORAGE_${tier}_BUCKET is not configured`);
+      }
+      const prefix = tierVariable(tier, 'PREFIX');
+      const endpoint = process.env.STORAGE_S3_ENDPOINT;
+      const accessKeyId = process.env.STORAGE_S3_ACCESS_KEY_ID;
+      const secretAccessKey = process.env.STORAGE_S3_SECRET_ACCESS_KEY;
+      return createS3Driver({
+        bucket,
+        region: process.env.STORAGE_S3_REGION || 'us-east-1',
+        forcePathStyle: process.env.STORAGE_S3_FORCE_PATH_STYLE === 'true',
+        ...(prefix && { prefix }),
+        ...(endpoint && { endpoint }),
+        ...(accessKeyId && { accessKeyId }),
+        ...(secretAccessKey && { secretAccessKey }),
+      });
+    }
+    case undefined:
+      throw new StorageError(`Storage tier ${tier} is not configured`);
+    default:
+      throw new StorageError(`Unknown storage driver '${driver}' for tier ${tier}`);
+  }
+}
+
+export function getStorageDriver(tier: DocumentStorageType): StorageDriver {
+  let driver = drivers.get(tier);
+  if (!driver) {
+    driver = createDriver(tier);
+    drivers.set(tier, driver);
+  }
+  return driver;
+}
+
+export function isStorageTierConfigured(tier: DocumentStorageType): boolean {
+  return tier === DocumentStorageType.LOCAL || tierVariable(tier, 'DRIVER') !== undefined;
+}
+
+export function isStorageTier(value: string): value is DocumentStorageType {
+  return (Object.values(DocumentStorageType) as string[]).includes(value);
+}
+
+/**
+ * Tier new document files are written to, STORAGE_DEFAULT_TIER or LOCAL.
+ */
+export function getDefaultStorageTier(): DocumentStorageType {
+  const tier = process.env.STORAGE_DEFAULT_TIER;
+  if (!tier) {
+    return DocumentStorageType.LOCAL;
+  }
+  if (!isStorageTier(tier)) {
+    throw new StorageError(`STORAGE_DEFAULT_TIER '${tier}' is not a storage tier`);
+  }
+  return tier;
+}
+
+/**
+ * Storage fields of a document whose file was written to the given tier.
+ */
+export function storageFieldsFor(
+  storageType: DocumentStorageType,
+  filePath: string
+): { storageType: DocumentStorageType; storageLocation: string } {
+  return { storageType, storageLocation: getStorageDriver(storageType).locationOf(storageKeyOf(filePath)) };
+}
@@ -0,0 +1,44 @@
+import path from 'path';
+import type { Readable } from 'stream';
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 500
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Backend holding document files. Files are addressed by key, the file path
+ * recorded on the document, so the same key works on every backend.
+ */
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+  // Where a file lives, recorded as the storage location of its document
+  locationOf(key: string): string;
+  put(key: string, data: Buffer | Readable): Promise<void>;
+  get(key: string): Promise<Readable>;
+  // Size in bytes, or null when there is no such file
+  size(key: string): Promise<number | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Storage key of a file path: relative to the working directory with forward
+ * slashes, as document files have always been recorded.
+ */
+export function storageKeyOf(filePath: string): string {
+  const relative = path.isAbsolute(filePath) ? path.relative(process.cwd(), filePath) : path.normalize(filePath);
+  const key = relative.split(path.sep).join('/');
+  if (!key || key.startsWith('../') || key === '..') {
+    throw new StorageError(`${filePath} is outside of the document storage`, 400);
+  }
+  return key;
+}
+
+export function notFound(key: string): StorageError {
+  return new StorageError(`File ${key} not found in storage`, 404);
+}
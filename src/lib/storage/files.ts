@@ -0,0 +1,26 @@
+import type { Readable } from 'stream';
+import type { DocumentStorageType } from '@/prisma/client';
+import { storageKeyOf } from './driver';
+import { getStorageDriver } from './config';
+
+// A document file and the storage tier holding it, as recorded on the document
+export interface StoredFile {
+  filePath: string;
+  storageType: DocumentStorageType;
+}
+
+export function openStoredFile(file: StoredFile): Promise<Readable> {
+  return getStorageDriver(file.storageType).get(storageKeyOf(file.filePath));
+}
+
+export function writeStoredFile(file: StoredFile, data: Buffer | Readable): Promise<void> {
+  return getStorageDriver(file.storageType).put(storageKeyOf(file.filePath), data);
+}
+
+export async function storedFileExists(file: StoredFile): Promise<boolean> {
+  return (await getStorageDriver(file.storageType).size(storageKeyOf(file.filePath))) !== null;
+}
+
+export function deleteStoredFile(file: StoredFile): Promise<void> {
+  return getStorageDriver(file.storageType).delete(storageKeyOf(file.filePath));
+}
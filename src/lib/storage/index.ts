@@ -0,0 +1,25 @@
+export { StorageError, storageKeyOf, type StorageDriver } from './driver';
+export { createLocalDriver } from './local';
+export { createS3Driver, type S3DriverOptions } from './s3';
+export {
+  getDefaultStorageTier,
+  getStorageDriver,
+  isStorageTier,
+  isStorageTierConfigured,
+  storageFieldsFor,
+} from './config';
+export {
+  deleteStoredFile,
+  openStoredFile,
+  storedFileExists,
+  writeStoredFile,
+  type StoredFile,
+} from './files';
+export { lockDocumentStorage, withDocumentStorageLock } from './lock';
+export {
+  CLOSED_CASE_STATUSES,
+  migrateDocumentStorage,
+  migrateDocuments,
+  type StorageMigrationOptions,
+  type StorageMigrationSummary,
+} from './migrate';
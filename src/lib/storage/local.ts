@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { notFound, type StorageDriver } from './driver';
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Files on a local or mounted directory. Writes go to a file next to the
+ * target and are renamed over it, so readers never see a partial file.
+ */
+export function createLocalDriver(root: string): StorageDriver {
+  const resolve = (key: string) => path.resolve(root, key);
+
+  return {
+    name: 'local',
+
+    locationOf(key) {
+      return resolve(key);
+    },
+
+    async put(key, data) {
+      const filePath = resolve(key);
+      const partial = `${filePath}.${randomUUID()}.partial`;
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      try {
+        if (Buffer.isBuffer(data)) {
+          await fs.writeFile(partial, data);
+        } else {
+          await pipeline(data, createWriteStream(partial));
+        }
+        await fs.rename(partial, filePath);
+      } catch (error) {
+        await fs.rm(partial, { force: true });
+        throw error;
+      }
+    },
+
+    async get(key) {
+      const filePath = resolve(key);
+      try {
+        await fs.access(filePath);
+      } catch (error) {
+        if (isNotFound(error)) throw notFound(key);
+        throw error;
+      }
+      return createReadStream(filePath) as Readable;
+    },
+
+    async size(key) {
+      try {
+        return (await fs.stat(resolve(key))).size;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+}
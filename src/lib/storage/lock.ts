@@ -0,0 +1,45 @@
+import { prisma } from '@/lib/prisma';
+import { StorageError } from './driver';
+
+// A lock older than this was left by a process that died holding it
+const STALE_LOCK_MS = 60 * 60 * 1000;
+
+/**
+ * Take the storage lock of a document, returning the function that releases
+ * it. Writing a new file of a document and moving its files to another tier
+ * both hold it, so a version uploaded during a migration can neither land in
+ * the tier being left nor record the wrong one. Fails with a 409 while
+ * another process holds it.
+ */
+export async function lockDocumentStorage(documentId: string): Promise<() => Promise<void>> {
+  const lockedAt = new Date();
+  const { count } = await prisma.document.updateMany({
+    where: {
+      id: documentId,
+      OR: [{ storageLockedAt: null }, { storageLockedAt: { lt: new Date(lockedAt.getTime() - STALE_LOCK_MS) } }],
+    },
+    data: { storageLockedAt: lockedAt },
+  });
+  if (count === 0) {
+    const exists = await prisma.document.count({ where: { id: documentId } });
+    throw exists
+      ? new StorageError('Document files are being moved between storage tiers, try again shortly', 409)
+      : new StorageError('Document not found', 404);
+  }
+
+  return async () => {
+    await prisma.document.updateMany({
+      where: { id: documentId, storageLockedAt: lockedAt },
+      data: { storageLockedAt: null },
+    });
+  };
+}
+
+export async function withDocumentStorageLock<T>(documentId: string, fn: () => Promise<T>): Promise<T> {
+  const release = await lockDocumentStorage(documentId);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
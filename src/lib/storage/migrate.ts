@@ -0,0 +1,106 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { CaseStatus, DocumentStorageType } from '@/prisma/client';
+import { StorageError, storageKeyOf } from './driver';
+import { getStorageDriver } from './config';
+import { withDocumentStorageLock } from './lock';
+
+// Cases whose documents are no longer worked on and can go to ARCHIVE
+export const CLOSED_CASE_STATUSES: CaseStatus[] = [CaseStatus.COMPLETADO, CaseStatus.CANCELLED, CaseStatus.ARCHIVED];
+
+export interface StorageMigrationOptions {
+  to: DocumentStorageType;
+  // Only documents of closed cases
+  closedCases?: boolean;
+  limit?: number;
+}
+
+export interface StorageMigrationSummary {
+  processed: number;
+  migrated: number;
+  failed: number;
+}
+
+/**
+ * Move the files of a document, its current file and those of its versions,
+ * to another storage tier. Files are copied as stored, so encrypted files
+ * stay encrypted. The document points to the new tier once every copy has
+ * been checked, and only then are the originals removed: an interrupted
+ * migration leaves the document readable where it was and can be repeated.
+ * The storage lock of the document is held throughout, so no new version is
+ * written meanwhile.
+ */
+export async function migrateDocumentStorage(documentId: string, to: DocumentStorageType): Promise<boolean> {
+  return withDocumentStorageLock(documentId, () => moveDocumentFiles(documentId, to));
+}
+
+async function moveDocumentFiles(documentId: string, to: DocumentStorageType): Promise<boolean> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { filePath: true, storageType: true, versions: { select: { filePath: true } } },
+  });
+  if (document.storageType === to) {
+    return false;
+  }
+
+  const source = getStorageDriver(document.storageType);
+  const target = getStorageDriver(to);
+  const keys = [...new Set([document.filePath, ...document.versions.map((version) => version.filePath)])].map(storageKeyOf);
+
+  const copied: string[] = [];
+  for (const key of keys) {
+    const size = await source.size(key);
+    if (size === null) {
+      // Versions whose file is gone have nothing left to move
+      logger.warn(`File ${key} of document ${documentId} is missing, not migrated`);
+      continue;
+    }
+    await target.put(key, await source.get(key));
+    if ((await target.size(key)) !== size) {
+      throw new StorageError(`Copy of ${key} to ${to} does not match the original`);
+    }
+    copied.push(key);
+  }
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { storageType: to, storageLocation: target.locationOf(storageKeyOf(document.filePath)) },
+  });
+
+  for (const key of copied) {
+    try {
+      await source.delete(key);
+    } catch (error) {
+      logger.warn(`Could not remove ${key} from ${document.storageType} after migrating document ${documentId}:`, error);
+    }
+  }
+  return true;
+}
+
+/**
+ * Migrate the documents not yet in the target tier, oldest first.
+ */
+export async function migrateDocuments(options: StorageMigrationOptions): Promise<StorageMigrationSummary> {
+  const summary: StorageMigrationSummary = { processed: 0, migrated: 0, failed: 0 };
+  const documents = await prisma.document.findMany({
+    where: {
+      storageType: { not: options.to },
+      ...(options.closedCases && { case: { status: { in: CLOSED_CASE_STATUSES } } }),
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+    ...(options.limit && { take: options.limit }),
+  });
+
+  for (const { id } of documents) {
+    summary.processed++;
+    try {
+      if (await migrateDocumentStorage(id, options.to)) summary.migrated++;
+    } catch (error) {
+      summary.failed++;
+      logger.error(`Could not migrate document ${id} to ${options.to}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,89 @@
+import { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { notFound, type StorageDriver } from './driver';
+
+export interface S3DriverOptions {
+  bucket: string;
+  // Prepended to every key, to share a bucket between tiers
+  prefix?: string;
+  endpoint?: string;
+  region: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Required by MinIO and most S3-compatible servers
+  forcePathStyle: boolean;
+}
+
+function isNotFound(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404;
+}
+
+async function toBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Files in a bucket of Amazon S3 or any S3-compatible server such as MinIO.
+ */
+export function createS3Driver(options: S3DriverOptions): StorageDriver {
+  const client = new S3Client({
+    region: options.region,
+    forcePathStyle: options.forcePathStyle,
+    ...(options.endpoint && { endpoint: options.endpoint }),
+    ...(options.accessKeyId && options.secretAccessKey && {
+      credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey },
+    }),
+  });
+  const { bucket } = options;
+  const objectKey = (key: string) => (options.prefix ? `${options.prefix.replace(/\/+$/, '')}/${key}` : key);
+
+  return {
+    name: 's3',
+
+    locationOf(key) {
+      return `s3://${bucket}/${objectKey(key)}`;
+    },
+
+    async put(key, data) {
+      // A single PutObject needs the length up front, so streams are buffered
+      const body = Buffer.isBuffer(data) ? data : await toBuffer(data);
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: objectKey(key), Body: body }));
+    },
+
+    async get(key) {
+      try {
+        const { Body } = await client.send(new GetObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+        if (!Body) throw notFound(key);
+        return Body as Readable;
+      } catch (error) {
+        if (isNotFound(error)) throw notFound(key);
+        throw error;
+      }
+    },
+
+    async size(key) {
+      try {
+        const { ContentLength } = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+        return ContentLength ?? 0;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+    },
+  };
+}
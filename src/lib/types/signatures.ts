@@ -1,6 +1,7 @@
 // Digital Signature types based on Prisma schema
 
 import { ActivityType, SignatureType } from '@/prisma/client';
+import type { SignatureVerificationReport } from '@/lib/signatures';
 
 // Base User type for signature operations
 export interface SignatureUser {
@@ -51,6 +52,16 @@ export interface DigitalSignature {
   delegatedBy?: string | null;
   delegationReason?: string | null;
 
+  // Cryptographic binding
+  documentVersion?: number | null;
+  documentHash?: string | null;
+  signedPayload?: string | null;
+  signatureValue?: string | null;
+  signingKeyId?: string | null;
+  verificationCode?: string | null;
+  signedPdfVersion?: number | null;
+  signedPdfHash?: string | null;
+
   // Status
   isActive: boolean;
   revokedAt?: Date | null;
@@ -91,19 +102,8 @@ export interface RevokeSignatureData {
   revokedReason: string;
 }
 
-export interface SignatureVerificationResult {
-  isValid: boolean;
-  verifiedAt: Date;
-  verifiedBy: string;
-  signatureInfo: {
-    id: string;
-    signatureType: SignatureType;
-    entityType: string;
-    entityId: string;
-    createdAt: Date;
-    user: SignatureUser;
-  };
-}
+// Verification report returned by PUT /api/signatures
+export type SignatureVerificationResult = SignatureVerificationReport;
 
 // Activity types for logging
 export interface ActivityMetadata {
@@ -146,7 +146,6 @@ export interface CreateSignatureRequest {
 
 export interface VerifySignatureRequest {
   signatureId: string;
-  verificationData: string;
 }
 
 export interface RevokeSignatureRequest {
@@ -163,6 +162,9 @@ export interface SignatureCreateResponse {
   deviceInfo?: DeviceInfo;
   delegatedBy?: string;
   delegationReason?: string;
+  documentVersion?: number;
+  documentHash?: string;
+  verificationCode?: string;
   isActive: boolean;
   createdAt: Date;
   updatedAt?: Date;
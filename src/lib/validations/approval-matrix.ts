@@ -0,0 +1,38 @@
+import { z } from 'zod'
+import { CaseStage } from '@/prisma/client'
+
+const amount = z.number().min(0, 'El monto no puede ser negativo')
+
+// Approval matrix level fields; omitted fields take the database defaults
+export const ApprovalMatrixLevelSchema = z.object({
+  name: z.string().min(1, 'El nombre del nivel es requerido').max(200),
+  description: z.string().max(1000).nullable().optional(),
+  sequence: z.number().int().min(0).nullable().optional(),
+  stage: z.enum(CaseStage).nullable().optional(),
+  departmentId: z.string().min(1).nullable().optional(),
+  minAmount: amount.optional(),
+  maxAmount: amount.optional(), // 0 = no upper bound
+  requiredApprovers: z.number().int().min(1).max(20).optional(),
+  approverRoles: z.array(z.string().min(1)).optional(),
+  approverDepartments: z.array(z.string().min(1)).optional(),
+  autoApprove: z.boolean().optional(),
+  autoApproveConditions: z.json().optional(),
+  escalationRules: z.json().optional(),
+  isActive: z.boolean().optional(),
+})
+
+export const CreateApprovalMatrixLevelSchema = ApprovalMatrixLevelSchema.extend({
+  matrixId: z.string().min(1),
+})
+
+export const UpdateApprovalMatrixLevelSchema = ApprovalMatrixLevelSchema.partial()
+
+export const CreateApprovalMatrixSchema = z.object({
+  name: z.string().min(1, 'El nombre de la matriz es requerido').max(200),
+  description: z.string().max(1000).nullable().optional(),
+  entityType: z.string().min(1).max(50).optional(),
+  isActive: z.boolean().optional(),
+  levels: z.array(ApprovalMatrixLevelSchema).optional(),
+})
+
+export type ApprovalMatrixLevelInput = z.infer<typeof UpdateApprovalMatrixLevelSchema>
@@ -0,0 +1,99 @@
+import { z } from 'zod'
+import { PartyPaymentStatus, PartyRole } from '@/prisma/enums'
+
+export const CasePartySchema = z.object({
+  // Present when updating a party that already exists
+  id: z.string().min(1).optional(),
+  role: z.enum(PartyRole).default(PartyRole.OWNER),
+
+  name: z.string()
+    .min(3, 'El nombre de la parte debe tener al menos 3 caracteres')
+    .max(200, 'El nombre no puede exceder 200 caracteres'),
+
+  personType: z.string()
+    .max(50, 'El tipo de persona no puede exceder 50 caracteres')
+    .nullable()
+    .optional(),
+
+  identificationType: z.string()
+    .max(30, 'El tipo de identificación no puede exceder 30 caracteres')
+    .nullable()
+    .optional(),
+
+  identification: z.string()
+    .min(3, 'La identificación debe tener al menos 3 caracteres')
+    .max(50, 'La identificación no puede exceder 50 caracteres')
+    .or(z.literal(''))
+    .nullable()
+    .optional(),
+
+  contact: z.string()
+    .regex(/^[+]?[\d\s\-\(\)]+$/, 'El teléfono debe contener solo números y caracteres válidos')
+    .or(z.literal(''))
+    .nullable()
+    .optional(),
+
+  email: z.string()
+    .email('El email no es válido')
+    .or(z.literal(''))
+    .nullable()
+    .optional(),
+
+  address: z.string()
+    .max(300, 'La dirección no puede exceder 300 caracteres')
+    .nullable()
+    .optional(),
+
+  ownershipPercentage: z.number()
+    .min(0, 'El porcentaje no puede ser negativo')
+    .max(100, 'El porcentaje no puede exceder 100')
+    .nullable()
+    .optional(),
+
+  compensationShare: z.number()
+    .nonnegative('La cuota de compensación debe ser positiva')
+    .max(1000000000, 'La cuota de compensación no puede exceder 1,000,000,000')
+    .nullable()
+    .optional(),
+
+  paymentStatus: z.enum(PartyPaymentStatus).optional(),
+  paidAt: z.coerce.date().nullable().optional(),
+  isPrimary: z.boolean().optional(),
+
+  notes: z.string()
+    .max(1000, 'Las notas no pueden exceder 1000 caracteres')
+    .nullable()
+    .optional()
+})
+
+// Full list of parties of a case; parties left out are removed
+export const CasePartyListSchema = z.array(CasePartySchema)
+  .min(1, 'El caso debe tener al menos una parte')
+  .max(100, 'Un caso no puede tener más de 100 partes')
+  .refine(
+    parties => parties.reduce((sum, party) => sum + (party.ownershipPercentage ?? 0), 0) <= 100.01,
+    'Los porcentajes de propiedad no pueden sumar más de 100%'
+  )
+  .refine(
+    parties => parties.filter(party => party.isPrimary).length <= 1,
+    'Solo una parte puede ser la principal'
+  )
+
+export const CasePartiesSchema = z.object({
+  parties: CasePartyListSchema
+})
+
+export const UpdatePartyPaymentSchema = z.object({
+  paymentStatus: z.enum(PartyPaymentStatus),
+  paidAt: z.coerce.date().nullable().optional(),
+  compensationShare: z.number()
+    .nonnegative('La cuota de compensación debe ser positiva')
+    .max(1000000000, 'La cuota de compensación no puede exceder 1,000,000,000')
+    .nullable()
+    .optional(),
+  notes: z.string().max(1000, 'Las notas no pueden exceder 1000 caracteres').nullable().optional()
+})
+
+export type CasePartyInput = z.infer<typeof CasePartySchema>
+export type CasePartiesInput = z.infer<typeof CasePartiesSchema>
+export type UpdatePartyPaymentInput = z.infer<typeof UpdatePartyPaymentSchema>
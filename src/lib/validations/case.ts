@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import { STAGE_ORDER, SPECIAL_STAGES } from '@/constants/stages'
+import { CasePartyListSchema } from '@/lib/validations/case-party'
 
 // Enums for validation
 const CaseStatusEnum = z.enum(['PENDIENTE', 'EN_PROGRESO', 'COMPLETADO', 'ARCHIVED', 'SUSPENDED', 'CANCELLED'])
@@ -170,6 +171,7 @@ export const CaseSchema = z.object({
 
   assignedToId: z.string().nullable().optional(),
   supervisedById: z.string().nullable().optional(),
+  projectId: z.string().nullable().optional(),
 
   // Progress
   progressPercentage: z.number()
@@ -220,14 +222,18 @@ export const CreateCaseSchema = CaseSchema.pick({
   legalConsiderations: true,
   departmentId: true,
   assignedToId: true,
-  supervisedById: true
+  supervisedById: true,
+  projectId: true
 }).extend({
   expectedEndDate: z.coerce.date().optional(),
+  parties: CasePartyListSchema.optional(),
   isDraft: z.boolean().default(true)
 })
 
 // Update case schema (partial updates allowed)
-export const UpdateCaseSchema = CaseSchema.partial()
+export const UpdateCaseSchema = CaseSchema.partial().extend({
+  parties: CasePartyListSchema.optional()
+})
 
 // Case status update schema
 export const CaseStatusUpdateSchema = z.object({
@@ -282,6 +288,7 @@ export const CaseSearchSchema = z.object({
   ownerName: z.string().optional(),
   propertyAddress: z.string().optional(),
   fileNumber: z.string().optional(),
+  projectId: z.string().optional(),
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
   sortBy: z.enum(['createdAt', 'updatedAt', 'startDate', 'expectedEndDate', 'fileNumber', 'title', 'priority', 'status']).default('createdAt'),
@@ -0,0 +1,54 @@
+import { z } from 'zod'
+
+const amount = (label: string) => z.number()
+  .positive(`${label} debe ser mayor que cero`)
+  .max(1000000000, `${label} no puede exceder 1,000,000,000`)
+
+// Budget commitment (preventivo) opening a payment
+export const CreatePaymentSchema = z.object({
+  partyId: z.string().min(1).nullable().optional(),
+  amount: amount('El monto'),
+  currency: z.string().length(3, 'La moneda debe tener 3 caracteres').optional(),
+  commitmentNumber: z.string()
+    .max(50, 'El número de preventivo no puede exceder 50 caracteres')
+    .nullable()
+    .optional(),
+  committedAt: z.coerce.date().optional(),
+  notes: z.string().max(2000, 'Las notas no pueden exceder 2000 caracteres').nullable().optional()
+})
+
+// Each step of the payment lifecycle
+export const PaymentActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('order'),
+    libramientoNumber: z.string()
+      .min(1, 'El número de libramiento es requerido')
+      .max(50, 'El número de libramiento no puede exceder 50 caracteres'),
+    libramientoDate: z.coerce.date().optional()
+  }),
+  z.object({
+    action: z.literal('issue'),
+    chequeNumber: z.string()
+      .min(1, 'El número de cheque es requerido')
+      .max(50, 'El número de cheque no puede exceder 50 caracteres'),
+    chequeAmount: amount('El monto del cheque'),
+    chequeDate: z.coerce.date().optional()
+  }),
+  z.object({
+    action: z.literal('deliver'),
+    receiptDocumentId: z.string().min(1, 'El acuse de recibo firmado es requerido'),
+    receivedBy: z.string()
+      .min(3, 'El nombre de quien recibe es requerido')
+      .max(200, 'El nombre no puede exceder 200 caracteres'),
+    deliveredAt: z.coerce.date().optional()
+  }),
+  z.object({
+    action: z.literal('cancel'),
+    reason: z.string()
+      .min(3, 'El motivo de la anulación es requerido')
+      .max(500, 'El motivo no puede exceder 500 caracteres')
+  })
+])
+
+export type CreatePaymentInput = z.infer<typeof CreatePaymentSchema>
+export type PaymentActionInput = z.infer<typeof PaymentActionSchema>
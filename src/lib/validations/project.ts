@@ -0,0 +1,65 @@
+import { z } from 'zod'
+import { ProjectStatus } from '@/prisma/client'
+
+// [longitude, latitude], as GeoJSON orders them
+const position = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+])
+
+const line = z.array(position).min(2, 'Una línea del trazado necesita al menos dos puntos')
+
+// Route of the work as a GeoJSON geometry
+export const RouteGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('LineString'), coordinates: line }),
+  z.object({ type: z.literal('MultiLineString'), coordinates: z.array(line).min(1) }),
+])
+
+export const ProjectSchema = z.object({
+  code: z.string()
+    .min(2, 'El código del proyecto es requerido')
+    .max(50, 'El código no puede exceder 50 caracteres'),
+  name: z.string()
+    .min(3, 'El nombre del proyecto debe tener al menos 3 caracteres')
+    .max(200, 'El nombre no puede exceder 200 caracteres'),
+  description: z.string().max(5000).nullable().optional(),
+  status: z.enum(ProjectStatus).optional(),
+  decree: z.string().max(100, 'El número de decreto no puede exceder 100 caracteres').nullable().optional(),
+  decreeDate: z.coerce.date().nullable().optional(),
+  budget: z.number()
+    .nonnegative('El presupuesto debe ser positivo')
+    .max(1000000000000, 'El presupuesto no puede exceder 1,000,000,000,000')
+    .nullable()
+    .optional(),
+  currency: z.string().length(3, 'La moneda debe tener 3 caracteres').optional(),
+  contractor: z.string().max(200, 'El contratista no puede exceder 200 caracteres').nullable().optional(),
+  startDate: z.coerce.date().nullable().optional(),
+  expectedEndDate: z.coerce.date().nullable().optional(),
+  routeGeometry: RouteGeometrySchema.nullable().optional(),
+  departmentId: z.string().min(1, 'El departamento es requerido'),
+})
+
+export const UpdateProjectSchema = ProjectSchema.partial()
+
+export const AttachProjectCasesSchema = z.object({
+  caseIds: z.array(z.string().min(1)).min(1, 'Seleccione al menos un caso').max(500),
+})
+
+// Bulk actions over every open case of a project
+export const ProjectBulkActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('assign'),
+    assignedToId: z.string().min(1),
+    supervisedById: z.string().min(1).nullable().optional(),
+    reason: z.string().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('advance'),
+    reason: z.string().max(500).optional(),
+    observations: z.string().max(2000).optional(),
+  }),
+])
+
+export type ProjectInput = z.infer<typeof ProjectSchema>
+export type UpdateProjectInput = z.infer<typeof UpdateProjectSchema>
+export type ProjectBulkActionInput = z.infer<typeof ProjectBulkActionSchema>
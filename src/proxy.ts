@@ -67,6 +67,10 @@ export default async function proxy(req: NextRequest) {
       pathname.startsWith('/login') ||
       pathname.startsWith('/forgot-password') ||
       pathname.startsWith('/reset-password') ||
+      pathname.startsWith('/unsubscribe') ||
+      pathname.startsWith('/api/email/unsubscribe') ||
+      pathname.startsWith('/verify') ||
+      pathname.startsWith('/api/verify') ||
       pathname.startsWith('/api/auth') ||
       pathname.startsWith('/_next') ||
       pathname.startsWith('/favicon.ico') ||
@@ -164,6 +168,7 @@ export default async function proxy(req: NextRequest) {
     const allowedPatterns = [
       '/dashboard',
       '/cases',
+      '/projects',
       '/reports',
       '/profile'
     ];
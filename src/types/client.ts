@@ -90,6 +90,7 @@ export interface Case {
     name: string;
     email: string;
   };
+  parties?: CaseParty[];
   activities?: Activity[];
   _count?: {
     documents: number;
@@ -98,6 +99,75 @@ export interface Case {
   };
 }
 
+export type PartyRole = 'OWNER' | 'CO_OWNER' | 'HEIR' | 'USUFRUCTUARY' | 'MORTGAGE_HOLDER' | 'TENANT' | 'OTHER';
+export type PartyPaymentStatus = 'PENDING' | 'SCHEDULED' | 'PAID' | 'WITHHELD';
+
+export interface CaseParty {
+  id: string;
+  caseId: string;
+  role: PartyRole;
+  name: string;
+  personType?: string | null;
+  identificationType?: string | null;
+  identification?: string | null;
+  contact?: string | null;
+  email?: string | null;
+  address?: string | null;
+  ownershipPercentage?: number | null;
+  compensationShare?: number | null;
+  paymentStatus: PartyPaymentStatus;
+  paidAt?: Date | null;
+  isPrimary: boolean;
+  sequence: number;
+  notes?: string | null;
+}
+
+export type PaymentStatus = 'COMMITTED' | 'ORDERED' | 'ISSUED' | 'DELIVERED' | 'CANCELLED';
+
+export interface CasePayment {
+  id: string;
+  caseId: string;
+  partyId?: string | null;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  commitmentNumber?: string | null;
+  committedAt: Date;
+  libramientoNumber?: string | null;
+  libramientoDate?: Date | null;
+  chequeNumber?: string | null;
+  chequeAmount?: number | null;
+  chequeDate?: Date | null;
+  deliveredAt?: Date | null;
+  receivedBy?: string | null;
+  receiptDocumentId?: string | null;
+  cancelledAt?: Date | null;
+  cancellationReason?: string | null;
+  notes?: string | null;
+  party?: { id: string; name: string; role: PartyRole } | null;
+  receiptDocument?: { id: string; title: string; fileName: string } | null;
+  createdBy?: { id: string; firstName: string; lastName: string };
+}
+
+export interface PaymentReconciliation {
+  currency: string;
+  compensationAmount: number | null;
+  committed: number;
+  inProgress: number;
+  paid: number;
+  outstanding: number | null;
+  reconciled: boolean;
+  issues: string[];
+  parties: Array<{
+    partyId: string;
+    name: string;
+    compensationShare: number | null;
+    paid: number;
+    inProgress: number;
+    paymentStatus: PartyPaymentStatus;
+  }>;
+}
+
 export interface Document {
   id: string;
   title: string;
@@ -125,6 +195,9 @@ export interface Document {
   contentText?: string;
   isIndexed?: boolean;
   indexedAt?: Date;
+  thumbnailPath?: string | null;
+  previewGenerated?: boolean;
+  pageCount?: number | null;
   downloadCount?: number;
   caseId?: string;
   uploadedById: string;
@@ -15,6 +15,7 @@ export interface RolePermissions {
   DELETE_CASES: boolean;
   ASSIGN_CASES: boolean;
   APPROVE_CASES: boolean;
+  OVERRIDE_VALIDATIONS: boolean;
 
   // Department Management
   READ_DEPARTMENTS: boolean;
@@ -65,6 +66,7 @@ export const PERMISSION_CATEGORIES: PermissionCategory[] = [
       { key: 'DELETE_CASES', name: 'Eliminar Casos', description: 'Puede eliminar casos' },
       { key: 'ASSIGN_CASES', name: 'Asignar Casos', description: 'Puede asignar casos a usuarios' },
       { key: 'APPROVE_CASES', name: 'Aprobar Casos', description: 'Puede aprobar casos' },
+      { key: 'OVERRIDE_VALIDATIONS', name: 'Omitir Validaciones', description: 'Puede avanzar etapas con reglas obligatorias incumplidas, registrando una justificación' },
     ],
   },
   {
@@ -104,6 +106,7 @@ export const DEFAULT_PERMISSIONS: RolePermissions = {
   DELETE_CASES: false,
   ASSIGN_CASES: false,
   APPROVE_CASES: false,
+  OVERRIDE_VALIDATIONS: false,
   READ_DEPARTMENTS: false,
   CREATE_DEPARTMENTS: false,
   UPDATE_DEPARTMENTS: false,